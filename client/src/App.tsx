@@ -8,9 +8,14 @@ import Layout from "@/components/layout/layout";
 import NotFound from "@/pages/not-found";
 import Landing from "@/pages/landing";
 import Auth from "@/pages/auth";
+import ResetPassword from "@/pages/reset-password";
 import Dashboard from "@/pages/dashboard";
 import Transactions from "@/pages/transactions";
 import Categories from "@/pages/categories";
+import Accounts from "@/pages/accounts";
+import Recurring from "@/pages/recurring";
+import Import from "@/pages/import";
+import Rules from "@/pages/rules";
 import ChatAI from "@/pages/chat-ai";
 import Budgets from "@/pages/budgets";
 import Goals from "@/pages/goals";
@@ -69,6 +74,7 @@ function Router() {
     return (
       <Switch>
         <Route path="/auth" component={Auth} />
+        <Route path="/reset-password" component={ResetPassword} />
         <Route path="/" component={Landing} />
         <Route component={NotFound} />
       </Switch>
@@ -80,6 +86,7 @@ function Router() {
       <Route path="/auth">
         {isAuthenticated ? <RedirectToDashboard /> : <Auth />}
       </Route>
+      <Route path="/reset-password" component={ResetPassword} />
       <Route path="/" component={Landing} />
       <Route path="*">
         {!isAuthenticated ? (
@@ -90,6 +97,10 @@ function Router() {
               <Route path="/dashboard" component={Dashboard} />
               <Route path="/transactions" component={Transactions} />
               <Route path="/categories" component={Categories} />
+              <Route path="/accounts" component={Accounts} />
+              <Route path="/recurring" component={Recurring} />
+              <Route path="/import" component={Import} />
+              <Route path="/rules" component={Rules} />
               <Route path="/chat" component={ChatAI} />
               <Route path="/budgets" component={Budgets} />
               <Route path="/goals" component={Goals} />
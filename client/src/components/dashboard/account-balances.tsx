@@ -0,0 +1,60 @@
+import { Link } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Landmark, ChevronRight } from "lucide-react";
+import { formatCurrency } from "@/lib/currencyUtils";
+
+interface AccountBalancesProps {
+  readonly accounts: any[];
+  readonly currency: string;
+  readonly showBalance: boolean;
+}
+
+const accountTypeLabels: Record<string, string> = {
+  cash: "Cash",
+  bank: "Bank",
+  ewallet: "E-Wallet",
+  credit_card: "Credit Card",
+};
+
+export default function AccountBalances({ accounts, currency, showBalance }: AccountBalancesProps) {
+  const activeAccounts = accounts.filter((account: any) => account.isActive !== false);
+
+  if (activeAccounts.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="shadow border">
+      <CardHeader className="p-4 pb-2">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-sm font-medium text-gray-700 flex items-center gap-2">
+            <Landmark className="h-4 w-4 text-blue-600" />
+            Accounts
+          </CardTitle>
+          <Link href="/accounts" className="text-xs text-blue-600 hover:underline flex items-center">
+            Manage
+            <ChevronRight className="h-3 w-3" />
+          </Link>
+        </div>
+      </CardHeader>
+      <CardContent className="p-4 pt-0">
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-2">
+          {activeAccounts.map((account: any) => (
+            <div key={account.id} className="rounded-lg border border-gray-100 bg-gray-50 p-3">
+              <div className="flex items-center gap-2">
+                <span className="text-lg">{account.icon || "💳"}</span>
+                <div className="min-w-0">
+                  <p className="text-xs font-medium text-gray-800 truncate">{account.name}</p>
+                  <p className="text-[10px] text-gray-500">{accountTypeLabels[account.type] || account.type}</p>
+                </div>
+              </div>
+              <p className={`mt-2 text-sm font-semibold ${account.balance >= 0 ? 'text-gray-800' : 'text-red-600'}`}>
+                {showBalance ? formatCurrency(account.balance, account.currency || currency) : '••••••'}
+              </p>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -68,7 +68,8 @@ export default function LiveCashFlow({ data, currency, showBalance }: LiveCashFl
     burnRate: flowData.burnRate ?? 0,
     currentBalance: flowData.currentBalance ?? 0,
     projectedBalance: flowData.projectedBalance ?? 0,
-    cashFlowTrend: flowData.cashFlowTrend ?? []
+    cashFlowTrend: flowData.cashFlowTrend ?? [],
+    accounts: flowData.accounts ?? []
   };
   
   const displayData = [
@@ -211,6 +212,20 @@ export default function LiveCashFlow({ data, currency, showBalance }: LiveCashFl
               {showBalance ? formatCurrency(safeFlowData.currentBalance, currency) : '••••••'}
             </span>
           </div>
+
+          {/* Per-account balances */}
+          {safeFlowData.accounts.length > 0 && (
+            <div className="mb-3 space-y-1.5 pl-2 border-l-2 border-gray-100">
+              {safeFlowData.accounts.map((account: any) => (
+                <div key={`account-${account.id}`} className="flex items-center justify-between">
+                  <span className="text-xs text-gray-600">{account.icon || '💳'} {account.name}</span>
+                  <span className={`text-xs font-medium ${account.balance >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                    {showBalance ? formatCurrency(account.balance, account.currency || currency) : '••••••'}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
           
           <div className="flex items-center justify-between mb-3">
             <h4 className="text-sm font-medium text-gray-700">Projected in 3 months</h4>
@@ -0,0 +1,61 @@
+import { Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Repeat, ChevronRight } from "lucide-react";
+import { formatCurrency } from "@/lib/currencyUtils";
+
+interface UpcomingRecurringProps {
+  readonly currency: string;
+  readonly showBalance: boolean;
+}
+
+const UPCOMING_DAYS = 14;
+
+export default function UpcomingRecurring({ currency, showBalance }: UpcomingRecurringProps) {
+  const { data: upcoming = [] } = useQuery({
+    queryKey: ["/api/recurring-transactions/upcoming", `?days=${UPCOMING_DAYS}`],
+  });
+
+  const upcomingList = (upcoming as any[]).slice(0, 6);
+
+  if (upcomingList.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="shadow border">
+      <CardHeader className="p-4 pb-2">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-sm font-medium text-gray-700 flex items-center gap-2">
+            <Repeat className="h-4 w-4 text-purple-600" />
+            Upcoming ({UPCOMING_DAYS} days)
+          </CardTitle>
+          <Link href="/recurring" className="text-xs text-blue-600 hover:underline flex items-center">
+            Manage
+            <ChevronRight className="h-3 w-3" />
+          </Link>
+        </div>
+      </CardHeader>
+      <CardContent className="p-4 pt-0">
+        <div className="divide-y divide-gray-100">
+          {upcomingList.map((item: any) => (
+            <div key={`${item.id}-${item.dueDate}`} className="flex items-center justify-between py-2">
+              <div className="flex items-center gap-2 min-w-0">
+                <span className="text-lg">{item.category?.icon || "🔁"}</span>
+                <div className="min-w-0">
+                  <p className="text-xs font-medium text-gray-800 truncate">{item.description}</p>
+                  <p className="text-[10px] text-gray-500">
+                    {new Date(item.dueDate * 1000).toLocaleDateString(undefined, { weekday: "short", day: "numeric", month: "short" })}
+                  </p>
+                </div>
+              </div>
+              <p className={`text-sm font-semibold ${item.type === 'income' ? 'text-green-600' : 'text-red-600'}`}>
+                {showBalance ? `${item.type === 'income' ? '+' : '-'}${formatCurrency(item.amount, item.currency || currency)}` : '••••••'}
+              </p>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,11 +1,15 @@
 import { Link, useLocation } from "wouter";
-import { ChartLine, BarChart3, CreditCard, PieChart, Settings, Grid3X3, Target, MessageCircle } from "lucide-react";
+import { ChartLine, BarChart3, CreditCard, PieChart, Settings, Grid3X3, Target, MessageCircle, Landmark, Repeat, FileUp, ListFilter } from "lucide-react";
 import { cn } from "@/lib/utils";
 
 const navigation = [
   { name: "Dashboard", href: "/dashboard", icon: BarChart3 },
   { name: "Transactions", href: "/transactions", icon: CreditCard },
+  { name: "Accounts", href: "/accounts", icon: Landmark },
+  { name: "Recurring", href: "/recurring", icon: Repeat },
+  { name: "Import", href: "/import", icon: FileUp },
   { name: "Categories", href: "/categories", icon: Grid3X3 },
+  { name: "Rules", href: "/rules", icon: ListFilter },
   { name: "Budgets", href: "/budgets", icon: PieChart },
   { name: "Goals", href: "/goals", icon: Target },
   { name: "Reports", href: "/reports", icon: ChartLine },
@@ -14,6 +14,7 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import {
   Form,
   FormControl,
@@ -33,7 +34,7 @@ import {
 } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent } from "@/components/ui/card";
-import { TrendingUp, TrendingDown, Calendar, DollarSign, Tag, FileText, Loader2 } from "lucide-react";
+import { TrendingUp, TrendingDown, Calendar, DollarSign, Tag, FileText, Loader2, Landmark, Split, Plus, X } from "lucide-react";
 import { DatePicker } from "@/components/ui/date-picker";
 
 const transactionSchema = z.object({
@@ -45,10 +46,18 @@ const transactionSchema = z.object({
   categoryId: z.string().min(1, "Category is required"),
   type: z.enum(["income", "expense"]),
   date: z.string().min(1, "Date is required"),
+  accountId: z.string().optional(),
 });
 
 type TransactionFormData = z.infer<typeof transactionSchema>;
 
+// One category share of a split transaction, kept as strings like the form fields
+interface SplitPart {
+  categoryId: string;
+  amount: string;
+  description: string;
+}
+
 interface AddTransactionModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -63,6 +72,10 @@ export default function AddTransactionModal({
   isEditing = false,
 }: Readonly<AddTransactionModalProps>) {
   const [activeTab, setActiveTab] = useState<"income" | "expense">("expense");
+  const [splitParts, setSplitParts] = useState<SplitPart[]>([]);
+  const isSplit = splitParts.length > 0;
+  // An expense refused by a hard spending limit, waiting for "Save anyway"
+  const [limitWarning, setLimitWarning] = useState<{ message: string; data: TransactionFormData } | null>(null);
   const { toast } = useToast();
 
   // Helper function for better toast notifications
@@ -91,6 +104,7 @@ export default function AddTransactionModal({
       categoryId: "",
       type: "expense",
       date: new Date().toISOString().split('T')[0],
+      accountId: "",
     },
   });
 
@@ -103,8 +117,10 @@ export default function AddTransactionModal({
         categoryId: "",
         type: "expense",
         date: new Date().toISOString().split('T')[0],
+        accountId: "",
       });
       setActiveTab("expense");
+      setSplitParts([]);
     }
   }, [isOpen, form]);
 
@@ -129,10 +145,24 @@ export default function AddTransactionModal({
         date: editingTransaction.date ? 
           parseTransactionDate(editingTransaction.date).toISOString().split('T')[0] : 
           new Date().toISOString().split('T')[0],
+        accountId: editingTransaction.accountId?.toString() || "",
       });
+      setSplitParts((editingTransaction.splits || []).map((split: any) => ({
+        categoryId: split.categoryId.toString(),
+        amount: split.amount.toString(),
+        description: split.description || "",
+      })));
     }
   }, [editingTransaction, isEditing, form]);
 
+  // A split transaction takes its category from the parts - keep the hidden form field valid
+  useEffect(() => {
+    const firstCategoryId = splitParts.find(part => part.categoryId)?.categoryId;
+    if (firstCategoryId) {
+      form.setValue("categoryId", firstCategoryId);
+    }
+  }, [splitParts, form]);
+
   // Watch the active tab and update form type
   useEffect(() => {
     form.setValue("type", activeTab);
@@ -149,6 +179,11 @@ export default function AddTransactionModal({
     enabled: isOpen,
   });
 
+  const { data: accounts } = useQuery({
+    queryKey: ["/api/accounts"],
+    enabled: isOpen,
+  });
+
   // Filter categories based on active tab (transaction type)
   const filteredCategories = Array.isArray(categories) ? categories.filter((category: any) => 
     category.type === activeTab
@@ -158,13 +193,23 @@ export default function AddTransactionModal({
   const currencySymbol = getCurrencySymbol(userCurrency);
 
   const transactionMutation = useMutation({
-    mutationFn: async (data: TransactionFormData) => {
+    mutationFn: async ({ data, overrideLimit }: { data: TransactionFormData; overrideLimit?: boolean }) => {
       const payload = {
         ...data,
         amount: parseFloat(data.amount),
         categoryId: parseInt(data.categoryId),
+        accountId: data.accountId ? parseInt(data.accountId) : undefined, // Empty = default account
         currency: userCurrency, // Use user's preferred currency
         date: new Date(data.date).toISOString(),
+        // Send an empty list when editing so removing the split is saved too
+        splits: isSplit
+          ? splitParts.map(part => ({
+              categoryId: parseInt(part.categoryId),
+              amount: parseFloat(part.amount),
+              description: part.description.trim() || null,
+            }))
+          : isEditing && editingTransaction?.splits?.length ? [] : undefined,
+        overrideLimit,
       };
       
       if (isEditing && editingTransaction) {
@@ -180,6 +225,7 @@ export default function AddTransactionModal({
       queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
       queryClient.invalidateQueries({ queryKey: ["/api/analytics/dashboard"] });
       queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
       
       // Force immediate refetch with fresh data
       queryClient.refetchQueries({ 
@@ -201,15 +247,17 @@ export default function AddTransactionModal({
         categoryId: "",
         type: "expense",
         date: new Date().toISOString().split('T')[0],
+        accountId: "",
       });
       setActiveTab("expense");
+      setSplitParts([]);
       
       // Small delay to ensure data is refreshed before closing
       setTimeout(() => {
         onClose();
       }, 100);
     },
-    onError: (error) => {
+    onError: (error, { data }) => {
       if (isUnauthorizedError(error)) {
         showToast('error', '🔐 Session Expired', 'Please login again to continue');
         setTimeout(() => {
@@ -217,6 +265,19 @@ export default function AddTransactionModal({
         }, 2000);
         return;
       }
+
+      // 409 with the limits the expense would pass - ask before saving it anyway
+      if (error instanceof Error && error.message.startsWith('409: ')) {
+        try {
+          const body = JSON.parse(error.message.slice('409: '.length));
+          if (body.code === 'SPENDING_LIMIT_EXCEEDED') {
+            setLimitWarning({ message: body.message, data });
+            return;
+          }
+        } catch {
+          // Not JSON - shown as is below
+        }
+      }
       
       const errorMessage = error instanceof Error ? error.message : 
         `Failed to ${isEditing ? 'update' : 'create'} transaction`;
@@ -225,9 +286,45 @@ export default function AddTransactionModal({
   });
 
   const onSubmit = (data: TransactionFormData) => {
-    transactionMutation.mutate(data);
+    if (isSplit) {
+      const splitTotal = splitParts.reduce((sum, part) => sum + (parseFloat(part.amount) || 0), 0);
+      if (splitParts.some(part => !part.categoryId || !(parseFloat(part.amount) > 0))) {
+        showToast('error', '❌ Incomplete Split', 'Every part needs a category and a positive amount');
+        return;
+      }
+      if (Math.abs(splitTotal - parseFloat(data.amount)) > 0.01) {
+        showToast('error', '❌ Split Does Not Add Up', `The parts add up to ${currencySymbol}${splitTotal.toFixed(2)} instead of ${currencySymbol}${parseFloat(data.amount).toFixed(2)}`);
+        return;
+      }
+    }
+    transactionMutation.mutate({ data });
+  };
+
+  const startSplit = () => {
+    setSplitParts([
+      { categoryId: form.getValues("categoryId"), amount: form.getValues("amount"), description: "" },
+      { categoryId: "", amount: "", description: "" },
+    ]);
+  };
+
+  const updateSplitPart = (index: number, changes: Partial<SplitPart>) => {
+    setSplitParts(parts => parts.map((part, i) => (i === index ? { ...part, ...changes } : part)));
   };
 
+  // Removing the second-to-last part turns the transaction back into a regular one
+  const removeSplitPart = (index: number) => {
+    const remaining = splitParts.filter((_, i) => i !== index);
+    if (remaining.length < 2) {
+      form.setValue("categoryId", remaining[0]?.categoryId || "");
+      setSplitParts([]);
+    } else {
+      setSplitParts(remaining);
+    }
+  };
+
+  const splitRemainder = (parseFloat(form.watch("amount")) || 0) -
+    splitParts.reduce((sum, part) => sum + (parseFloat(part.amount) || 0), 0);
+
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="sm:max-w-[600px] max-h-[95vh] overflow-hidden bg-white/95 backdrop-blur-xl border-white/20 rounded-3xl shadow-2xl">
@@ -362,6 +459,7 @@ export default function AddTransactionModal({
                           />
                         </div>
 
+                        {!isSplit && (
                         <FormField
                           control={form.control}
                           name="categoryId"
@@ -392,6 +490,7 @@ export default function AddTransactionModal({
                             </FormItem>
                           )}
                         />
+                        )}
                       </div>
                     </CardContent>
                   </Card>
@@ -487,6 +586,7 @@ export default function AddTransactionModal({
                           />
                         </div>
 
+                        {!isSplit && (
                         <FormField
                           control={form.control}
                           name="categoryId"
@@ -517,11 +617,126 @@ export default function AddTransactionModal({
                             </FormItem>
                           )}
                         />
+                        )}
                       </div>
                     </CardContent>
                   </Card>
                 </TabsContent>
 
+                {/* Split across categories (shared by both tabs) */}
+                {isSplit ? (
+                  <div className="space-y-3 rounded-xl border border-slate-200 bg-slate-50/70 p-4">
+                    <div className="flex items-center justify-between">
+                      <span className="flex items-center gap-2 text-slate-700 font-medium text-sm">
+                        <Split className="w-4 h-4" />
+                        Split across categories
+                      </span>
+                      <span className={`text-xs ${Math.abs(splitRemainder) > 0.01 ? 'text-red-600' : 'text-emerald-600'}`}>
+                        {Math.abs(splitRemainder) > 0.01
+                          ? `${currencySymbol}${splitRemainder.toFixed(2)} left to assign`
+                          : 'Fully assigned'}
+                      </span>
+                    </div>
+                    {splitParts.map((part, index) => (
+                      <div key={index} className="grid grid-cols-[1fr_110px_auto] gap-2 items-center">
+                        <Select value={part.categoryId} onValueChange={(value) => updateSplitPart(index, { categoryId: value })}>
+                          <SelectTrigger className="bg-white rounded-xl">
+                            <SelectValue placeholder="Category" />
+                          </SelectTrigger>
+                          <SelectContent className="rounded-xl">
+                            {filteredCategories.map((category: any) => (
+                              <SelectItem key={category.id} value={category.id.toString()}>
+                                <div className="flex items-center gap-3">
+                                  <span className="text-lg">{category.icon}</span>
+                                  <span>{category.name}</span>
+                                </div>
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Input
+                          type="number"
+                          step="0.01"
+                          placeholder="0.00"
+                          value={part.amount}
+                          onChange={(e) => updateSplitPart(index, { amount: e.target.value })}
+                          className="bg-white rounded-xl"
+                        />
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => removeSplitPart(index)}
+                          className="h-8 w-8 p-0 hover:bg-red-100 hover:text-red-600"
+                        >
+                          <X className="w-4 h-4" />
+                        </Button>
+                        <Input
+                          placeholder="Note (optional)"
+                          value={part.description}
+                          onChange={(e) => updateSplitPart(index, { description: e.target.value })}
+                          className="col-span-2 bg-white rounded-xl text-sm"
+                        />
+                      </div>
+                    ))}
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setSplitParts(parts => [...parts, { categoryId: "", amount: splitRemainder > 0 ? splitRemainder.toFixed(2) : "", description: "" }])}
+                      className="rounded-xl"
+                    >
+                      <Plus className="w-4 h-4 mr-1" />
+                      Add part
+                    </Button>
+                  </div>
+                ) : (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={startSplit}
+                    className="text-slate-600 hover:text-slate-900"
+                  >
+                    <Split className="w-4 h-4 mr-2" />
+                    Split across categories
+                  </Button>
+                )}
+
+                {/* Account (shared by both tabs) */}
+                {Array.isArray(accounts) && accounts.length > 0 && (
+                  <FormField
+                    control={form.control}
+                    name="accountId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="flex items-center gap-2 text-slate-700 font-medium">
+                          <Landmark className="w-4 h-4" />
+                          Account
+                        </FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger className="bg-white/70 border-slate-200 rounded-xl">
+                              <SelectValue placeholder="Default account" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent className="rounded-xl">
+                            {accounts.map((account: any) => (
+                              <SelectItem key={account.id} value={account.id.toString()}>
+                                <div className="flex items-center gap-3">
+                                  <span className="text-lg">{account.icon || "💳"}</span>
+                                  <span>{account.name}</span>
+                                </div>
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
                 {/* Action Buttons */}
                 <div className="flex gap-3 pt-4 border-t border-slate-200">
                   <Button
@@ -569,6 +784,26 @@ export default function AddTransactionModal({
           </Tabs>
         </div>
       </DialogContent>
+
+      <AlertDialog open={limitWarning !== null} onOpenChange={(open) => !open && setLimitWarning(null)}>
+        <AlertDialogContent className="max-w-[90vw] sm:max-w-md">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Over Your Spending Limit</AlertDialogTitle>
+            <AlertDialogDescription className="whitespace-pre-line">
+              {limitWarning?.message.replace(/\*/g, '')}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => limitWarning && transactionMutation.mutate({ data: limitWarning.data, overrideLimit: true })}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              Save Anyway
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </Dialog>
   );
 }
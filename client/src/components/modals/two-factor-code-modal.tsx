@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { KeyRound, Loader2, ShieldCheck } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, getApiErrorMessage } from '@/lib/queryClient';
+import type { TwoFactorMethod } from '@/lib/authUtils';
+
+interface TwoFactorCodeModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  method: TwoFactorMethod | null;
+  title: string;
+  description: string;
+  confirmLabel: string;
+  isSubmitting?: boolean;
+  onSubmit: (code: string) => void;
+}
+
+// Asks for a fresh two-factor code before a sensitive change. With WhatsApp as the second factor,
+// a code is sent as the dialog opens.
+export default function TwoFactorCodeModal({
+  isOpen,
+  onClose,
+  method,
+  title,
+  description,
+  confirmLabel,
+  isSubmitting = false,
+  onSubmit
+}: TwoFactorCodeModalProps) {
+  const { toast } = useToast();
+  const [code, setCode] = useState('');
+  const [isSending, setIsSending] = useState(false);
+
+  const sendCode = async () => {
+    setIsSending(true);
+    try {
+      await apiRequest('POST', '/api/auth/2fa/code');
+      toast({
+        title: "📱 Code Sent",
+        description: "Check your linked WhatsApp number",
+      });
+    } catch (error) {
+      toast({
+        title: "❌ Code Not Sent",
+        description: getApiErrorMessage(error, "Failed to send a code. Please try again."),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  React.useEffect(() => {
+    if (isOpen) {
+      setCode('');
+      if (method === 'whatsapp') {
+        sendCode();
+      }
+    }
+  }, [isOpen, method]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (code.trim()) {
+      onSubmit(code.trim());
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[420px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5 text-emerald-600" />
+            {title}
+          </DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="two-factor-code">
+              {method === 'whatsapp' ? 'Code sent to your WhatsApp' : 'Code from your authenticator app'}
+            </Label>
+            <div className="relative">
+              <KeyRound className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+              <Input
+                id="two-factor-code"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                placeholder="123456"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                className="pl-10"
+                autoFocus
+              />
+            </div>
+            {method === 'whatsapp' && (
+              <Button
+                type="button"
+                variant="link"
+                className="p-0 h-auto text-sm"
+                onClick={sendCode}
+                disabled={isSending}
+              >
+                {isSending ? 'Sending...' : 'Send a new code'}
+              </Button>
+            )}
+          </div>
+
+          <DialogFooter className="gap-2">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting || !code.trim()}>
+              {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {confirmLabel}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
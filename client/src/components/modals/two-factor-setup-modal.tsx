@@ -0,0 +1,239 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Copy,
+  KeyRound,
+  Loader2,
+  MessageCircle,
+  ShieldCheck,
+  Smartphone
+} from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, getApiErrorMessage } from '@/lib/queryClient';
+import { copyToClipboard } from '@/lib/clipboardUtils';
+import type { TwoFactorMethod } from '@/lib/authUtils';
+
+type Step = 'choose' | 'verify' | 'codes';
+
+interface TotpEnrollment {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+}
+
+interface TwoFactorSetupModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  whatsappLinked: boolean;
+  onEnabled?: () => void;
+}
+
+interface RecoveryCodesListProps {
+  codes: string[];
+}
+
+// Recovery codes are shown once, right after they're made
+export function RecoveryCodesList({ codes }: RecoveryCodesListProps) {
+  const { toast } = useToast();
+
+  const handleCopy = async () => {
+    const result = await copyToClipboard(codes.join('\n'));
+    toast(result.success
+      ? { title: "📋 Copied", description: "Recovery codes copied to the clipboard" }
+      : { title: "❌ Copy Failed", description: "Select the codes and copy them by hand", variant: "destructive" });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-2 p-4 bg-gray-50 rounded-lg border font-mono text-sm">
+        {codes.map((code) => (
+          <span key={code} className="text-center">{code}</span>
+        ))}
+      </div>
+      <p className="text-sm text-gray-600">
+        Each code signs you in once if you can't get a two-factor code. Keep them somewhere safe - you won't see them again.
+      </p>
+      <Button type="button" variant="outline" size="sm" onClick={handleCopy}>
+        <Copy className="h-4 w-4 mr-2" />
+        Copy Codes
+      </Button>
+    </div>
+  );
+}
+
+// Turns two-factor on: pick a method, prove it works with a first code, then save the recovery codes
+export default function TwoFactorSetupModal({
+  isOpen,
+  onClose,
+  whatsappLinked,
+  onEnabled
+}: TwoFactorSetupModalProps) {
+  const { toast } = useToast();
+  const [step, setStep] = useState<Step>('choose');
+  const [method, setMethod] = useState<TwoFactorMethod>('totp');
+  const [enrollment, setEnrollment] = useState<TotpEnrollment | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  React.useEffect(() => {
+    if (isOpen) {
+      setStep('choose');
+      setEnrollment(null);
+      setCode('');
+      setRecoveryCodes([]);
+    }
+  }, [isOpen]);
+
+  const handleChoose = async (chosen: TwoFactorMethod) => {
+    setIsLoading(true);
+    try {
+      if (chosen === 'totp') {
+        const response = await apiRequest('POST', '/api/auth/2fa/totp');
+        setEnrollment(await response.json());
+      } else {
+        await apiRequest('POST', '/api/auth/2fa/code');
+      }
+      setMethod(chosen);
+      setCode('');
+      setStep('verify');
+    } catch (error) {
+      toast({
+        title: "❌ Setup Failed",
+        description: getApiErrorMessage(error, "Failed to start two-factor setup. Please try again."),
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    try {
+      const response = await apiRequest('POST', '/api/auth/2fa/enable', { method, code: code.trim() });
+      const data = await response.json();
+      setRecoveryCodes(data.recoveryCodes);
+      setStep('codes');
+      onEnabled?.();
+    } catch (error) {
+      toast({
+        title: "❌ Verification Failed",
+        description: getApiErrorMessage(error, "Invalid or expired code"),
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[480px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5 text-emerald-600" />
+            {step === 'codes' ? 'Save Your Recovery Codes' : 'Set Up Two-Factor Authentication'}
+          </DialogTitle>
+          <DialogDescription>
+            {step === 'choose' && 'After your password, you will also need a code from your second factor to sign in.'}
+            {step === 'verify' && (method === 'totp'
+              ? 'Scan the QR code with an authenticator app such as Google Authenticator or Authy, then enter the code it shows.'
+              : 'Enter the code we sent to your linked WhatsApp number.')}
+            {step === 'codes' && 'Two-factor authentication is on.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'choose' && (
+          <div className="grid gap-3">
+            <Button
+              variant="outline"
+              className="h-auto justify-start p-4 text-left"
+              disabled={isLoading}
+              onClick={() => handleChoose('totp')}
+            >
+              <Smartphone className="h-5 w-5 mr-3 text-blue-500 shrink-0" />
+              <div>
+                <div className="font-medium">Authenticator App</div>
+                <div className="text-sm text-gray-600 font-normal">Codes from an app on your phone, even offline</div>
+              </div>
+            </Button>
+            <Button
+              variant="outline"
+              className="h-auto justify-start p-4 text-left"
+              disabled={isLoading || !whatsappLinked}
+              onClick={() => handleChoose('whatsapp')}
+            >
+              <MessageCircle className="h-5 w-5 mr-3 text-green-500 shrink-0" />
+              <div>
+                <div className="font-medium">WhatsApp</div>
+                <div className="text-sm text-gray-600 font-normal">
+                  {whatsappLinked ? 'Codes sent to your linked WhatsApp number' : 'Link a WhatsApp number first'}
+                </div>
+              </div>
+            </Button>
+            {isLoading && (
+              <div className="flex justify-center">
+                <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+              </div>
+            )}
+          </div>
+        )}
+
+        {step === 'verify' && (
+          <form onSubmit={handleVerify} className="space-y-4">
+            {method === 'totp' && enrollment && (
+              <div className="space-y-3 text-center">
+                <img src={enrollment.qrCode} alt="Authenticator QR code" className="mx-auto h-48 w-48" />
+                <div className="space-y-1">
+                  <p className="text-xs text-gray-500">Can't scan it? Enter this key in the app:</p>
+                  <code className="block break-all rounded bg-gray-100 px-2 py-1 text-sm">{enrollment.secret}</code>
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="two-factor-setup-code">Code</Label>
+              <div className="relative">
+                <KeyRound className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                <Input
+                  id="two-factor-setup-code"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  placeholder="123456"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  className="pl-10"
+                  autoFocus
+                />
+              </div>
+            </div>
+
+            <DialogFooter className="gap-2">
+              <Button type="button" variant="outline" onClick={() => setStep('choose')}>
+                Back
+              </Button>
+              <Button type="submit" disabled={isLoading || !code.trim()}>
+                {isLoading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Turn On
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+
+        {step === 'codes' && (
+          <div className="space-y-4">
+            <RecoveryCodesList codes={recoveryCodes} />
+            <DialogFooter>
+              <Button onClick={onClose}>I've Saved Them</Button>
+            </DialogFooter>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,6 +1,6 @@
 import { useQuery } from "@tanstack/react-query";
 import { useState, useEffect } from "react";
-import { clearAuthData, redirectToLogin, handleAuthError, getAuthToken } from "@/lib/authUtils";
+import { clearAuthData, redirectToLogin, handleAuthError, getAuthToken, fetchWithRefresh, startTokenRefresh } from "@/lib/authUtils";
 
 export function useAuth() {
   const [authUser, setAuthUser] = useState(null);
@@ -35,23 +35,23 @@ export function useAuth() {
     checkAuth();
   }, []);
 
+  // Refresh the access token before it expires while signed in
+  useEffect(() => {
+    if (!hasToken) return;
+    return startTokenRefresh();
+  }, [hasToken]);
+
   // Get user from API if we have a token
   const { data: apiUser, isLoading: isApiLoading, error } = useQuery({
     queryKey: ["/api/auth/user"],
     retry: false,
     enabled: hasToken, // Only run query if we have a token
     queryFn: async () => {
-      const authToken = getAuthToken();
-      if (!authToken) {
+      if (!getAuthToken()) {
         throw new Error('No auth token');
       }
 
-      const res = await fetch('/api/auth/user', {
-        headers: {
-          'Authorization': `Bearer ${authToken}`,
-        },
-        credentials: 'include',
-      });
+      const res = await fetchWithRefresh('/api/auth/user');
 
       if (res.status === 401 || res.status === 403 || res.status === 404) {
         // Token is invalid, expired, or user not found - handle auth error
@@ -81,7 +81,14 @@ export function useAuth() {
   const isLoading = isLoadingAuth || (hasToken && isApiLoading);
   const isAuthenticated = !!(hasToken && user);
 
-  const logout = () => {
+  const logout = async () => {
+    // Sign this device's session out on the server too; leave locally either way
+    try {
+      await fetchWithRefresh('/api/auth/logout', { method: 'POST' });
+    } catch (error) {
+      console.error("Error logging out:", error);
+    }
+
     clearAuthData();
     setAuthUser(null);
     setHasToken(false);
@@ -2,8 +2,32 @@ export function isUnauthorizedError(error: Error): boolean {
   return /^401: .*Unauthorized/.test(error.message);
 }
 
+export type TwoFactorMethod = 'totp' | 'whatsapp';
+
+export interface TwoFactorRequirement {
+  method: TwoFactorMethod;
+  invalid: boolean; // A code was sent but it was wrong
+}
+
+// Whether an apiRequest error means the change needs a fresh two-factor code first
+export function getTwoFactorRequirement(error: unknown): TwoFactorRequirement | null {
+  const match = error instanceof Error ? /^(?:400|428): ([\s\S]*)$/.exec(error.message) : null;
+  if (!match) return null;
+
+  try {
+    const body = JSON.parse(match[1]);
+    if (body.code === 'TWO_FACTOR_REQUIRED' || body.code === 'TWO_FACTOR_INVALID') {
+      return { method: body.method, invalid: body.code === 'TWO_FACTOR_INVALID' };
+    }
+  } catch {
+    // Not a JSON body
+  }
+  return null;
+}
+
 export function clearAuthData(): void {
   localStorage.removeItem('auth-token');
+  localStorage.removeItem('auth-refresh-token');
   localStorage.removeItem('auth-user');
 }
 
@@ -26,27 +50,119 @@ export function getAuthToken(): string | null {
   return localStorage.getItem('auth-token');
 }
 
-export function setAuthData(token: string, user: any): void {
+export function getRefreshToken(): string | null {
+  return localStorage.getItem('auth-refresh-token');
+}
+
+export function setAuthData(token: string, user: any, refreshToken?: string): void {
   localStorage.setItem('auth-token', token);
   localStorage.setItem('auth-user', JSON.stringify(user));
+  if (refreshToken) {
+    localStorage.setItem('auth-refresh-token', refreshToken);
+  }
+}
+
+let pendingRefresh: Promise<boolean> | null = null;
+
+// Trade the refresh token for a new access token. A refresh token works once, so concurrent
+// callers share one request.
+export function refreshAuthToken(): Promise<boolean> {
+  if (!pendingRefresh) {
+    pendingRefresh = (async () => {
+      const refreshToken = getRefreshToken();
+      if (!refreshToken) {
+        return false;
+      }
+
+      const response = await fetch('/api/auth/refresh', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ refreshToken }),
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        // Another tab may have just used the same refresh token and stored the new one
+        return getRefreshToken() !== refreshToken;
+      }
+
+      const data = await response.json();
+      setAuthData(data.token, data.user, data.refreshToken);
+      return true;
+    })().finally(() => {
+      pendingRefresh = null;
+    });
+  }
+  return pendingRefresh;
+}
+
+// When the access token runs out, in ms since the epoch
+function getTokenExpiry(token: string): number | null {
+  try {
+    const payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+    return typeof payload.exp === 'number' ? payload.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
+// Keep the stored access token fresh, refreshing a minute before it expires, so requests that
+// read it from localStorage themselves keep working. Returns a function that stops it.
+export function startTokenRefresh(): () => void {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const schedule = () => {
+    const token = getAuthToken();
+    const expiresAt = token ? getTokenExpiry(token) : null;
+    if (!expiresAt) return;
+
+    timer = setTimeout(async () => {
+      try {
+        // A refused refresh means the session is over; the next request sends the user to login
+        if (await refreshAuthToken()) {
+          schedule();
+        }
+      } catch (error) {
+        console.error('Error refreshing auth token:', error);
+        timer = setTimeout(schedule, 60 * 1000);
+      }
+    }, Math.max(expiresAt - Date.now() - 60 * 1000, 0));
+  };
+
+  schedule();
+  return () => clearTimeout(timer);
+}
+
+// fetch with the access token, refreshing it and retrying once when the server answers 401
+export async function fetchWithRefresh(url: string, options: RequestInit = {}): Promise<Response> {
+  const send = () => {
+    const headers = new Headers(options.headers);
+    const token = getAuthToken();
+    if (token) {
+      headers.set('Authorization', `Bearer ${token}`);
+    }
+    return fetch(url, { ...options, headers, credentials: 'include' });
+  };
+
+  const response = await send();
+  if (response.status !== 401 || !getRefreshToken()) {
+    return response;
+  }
+  return (await refreshAuthToken()) ? send() : response;
 }
 
 // Global fetch wrapper that handles auth errors
 export async function authFetch(url: string, options: RequestInit = {}): Promise<Response> {
-  const token = getAuthToken();
-  
   const authOptions: RequestInit = {
     ...options,
     headers: {
       ...options.headers,
-      'Authorization': token ? `Bearer ${token}` : '',
       'Content-Type': 'application/json',
     },
-    credentials: 'include',
   };
 
   try {
-    const response = await fetch(url, authOptions);
+    const response = await fetchWithRefresh(url, authOptions);
     
     // Check for auth errors
     if (response.status === 401 || response.status === 403 || response.status === 404) {
@@ -20,6 +20,13 @@ export interface TransactionData {
     icon?: string;
   };
   currency?: string;
+  splits?: Array<{
+    amount: number;
+    description?: string | null;
+    category?: {
+      name: string;
+    } | null;
+  }>;
 }
 
 export interface ExportOptions {
@@ -68,6 +75,36 @@ const formatFilename = (dateStart: string, dateEnd: string): string => {
 };
 
 // Export to PDF with professional styling
+// One row per transaction; split transactions are followed by one indented row per part
+const buildTransactionRows = (transactions: TransactionData[], options: ExportOptions): (string | number)[][] => {
+  const rows: (string | number)[][] = [];
+
+  transactions.forEach((transaction, index) => {
+    const isSplit = !!transaction.splits?.length;
+    rows.push([
+      index + 1,
+      formatDate(transaction.date),
+      transaction.description,
+      isSplit ? 'Split' : transaction.category?.name || 'Uncategorized',
+      transaction.type.charAt(0).toUpperCase() + transaction.type.slice(1),
+      formatCurrency(transaction.amount, options.userCurrency, options.currencySymbol)
+    ]);
+
+    transaction.splits?.forEach(split => {
+      rows.push([
+        '',
+        '',
+        `  - ${split.description || transaction.description}`,
+        split.category?.name || 'Uncategorized',
+        '',
+        formatCurrency(split.amount, options.userCurrency, options.currencySymbol)
+      ]);
+    });
+  });
+
+  return rows;
+};
+
 export const exportToPDF = (
   transactions: TransactionData[],
   options: ExportOptions
@@ -200,14 +237,7 @@ export const exportToPDF = (
   doc.text(formatCurrency(balance, options.userCurrency, options.currencySymbol), 132, summaryY + 16);
   
   // Prepare table data
-  const tableData = transactions.map((transaction, index) => [
-    index + 1,
-    formatDate(transaction.date),
-    transaction.description,
-    transaction.category?.name || 'Uncategorized',
-    transaction.type.charAt(0).toUpperCase() + transaction.type.slice(1),
-    formatCurrency(transaction.amount, options.userCurrency, options.currencySymbol)
-  ]);
+  const tableData = buildTransactionRows(transactions, options);
   
   // Table
   autoTable(doc, {
@@ -314,14 +344,7 @@ export const exportToExcel = (
   ];
   
   // Prepare transaction data
-  const transactionData = transactions.map((transaction, index) => [
-    index + 1,
-    formatDate(transaction.date),
-    transaction.description,
-    transaction.category?.name || 'Uncategorized',
-    transaction.type.charAt(0).toUpperCase() + transaction.type.slice(1),
-    formatCurrency(transaction.amount, options.userCurrency, options.currencySymbol)
-  ]);
+  const transactionData = buildTransactionRows(transactions, options);
   
   // Combine all data
   const allData = [...summaryData, ...transactionData];
@@ -1,5 +1,5 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
-import { handleAuthError } from "./authUtils";
+import { handleAuthError, fetchWithRefresh } from "./authUtils";
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
@@ -14,26 +14,30 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// apiRequest errors read "400: {"message": ...}"; this pulls out the server's message
+export function getApiErrorMessage(error: unknown, fallback: string): string {
+  const match = error instanceof Error ? /^\d{3}: ([\s\S]*)$/.exec(error.message) : null;
+  if (!match) return fallback;
+
+  try {
+    return JSON.parse(match[1]).message || fallback;
+  } catch {
+    return match[1] || fallback;
+  }
+}
+
 export async function apiRequest(
   method: string,
   url: string,
   data?: unknown,
 ): Promise<Response> {
-  // Get auth token from localStorage
-  const authToken = localStorage.getItem('auth-token');
-  
   const headers: any = data ? { "Content-Type": "application/json" } : {};
   
-  // Add Authorization header if token exists
-  if (authToken) {
-    headers['Authorization'] = `Bearer ${authToken}`;
-  }
-  
-  const res = await fetch(url, {
+  // Adds the auth token, refreshing it once if it has expired
+  const res = await fetchWithRefresh(url, {
     method,
     headers,
     body: data ? JSON.stringify(data) : undefined,
-    credentials: "include",
   });
 
   await throwIfResNotOk(res);
@@ -46,20 +50,8 @@ export const getQueryFn: <T>(options: {
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    // Get auth token from localStorage
-    const authToken = localStorage.getItem('auth-token');
-    
-    const headers: any = {};
-    
-    // Add Authorization header if token exists
-    if (authToken) {
-      headers['Authorization'] = `Bearer ${authToken}`;
-    }
-    
-    const res = await fetch(queryKey.join(""), {
-      credentials: "include",
-      headers,
-    });
+    // Adds the auth token, refreshing it once if it has expired
+    const res = await fetchWithRefresh(queryKey.join(""));
 
     if (unauthorizedBehavior === "returnNull" && res.status === 401) {
       return null;
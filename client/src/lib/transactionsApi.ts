@@ -0,0 +1,116 @@
+import { apiRequest } from "./queryClient";
+
+export interface TransactionQueryParams {
+  startDate?: Date | number;
+  endDate?: Date | number;
+  categoryId?: number[];
+  type?: string[];
+  accountId?: number;
+  minAmount?: number;
+  maxAmount?: number;
+  search?: string;
+  aiGenerated?: boolean;
+  sort?: "date_desc" | "date_asc" | "amount_desc" | "amount_asc";
+  cursor?: string | null;
+  limit?: number;
+}
+
+export interface TransactionTotals {
+  count: number;
+  income: number;
+  expense: number;
+  transfer: number;
+  net: number;
+}
+
+export interface TransactionPage<T = any> {
+  items: T[];
+  nextCursor: string | null;
+  hasMore: boolean;
+  totals: TransactionTotals;
+}
+
+// The API works with Unix seconds
+const toUnixSeconds = (value: Date | number) =>
+  value instanceof Date ? Math.floor(value.getTime() / 1000) : value;
+
+export function buildTransactionQuery(params: TransactionQueryParams = {}): string {
+  const search = new URLSearchParams();
+
+  if (params.startDate != null) search.set("startDate", String(toUnixSeconds(params.startDate)));
+  if (params.endDate != null) search.set("endDate", String(toUnixSeconds(params.endDate)));
+  if (params.categoryId?.length) search.set("categoryId", params.categoryId.join(","));
+  if (params.type?.length) search.set("type", params.type.join(","));
+  if (params.accountId != null) search.set("accountId", String(params.accountId));
+  if (params.minAmount != null) search.set("minAmount", String(params.minAmount));
+  if (params.maxAmount != null) search.set("maxAmount", String(params.maxAmount));
+  if (params.search?.trim()) search.set("search", params.search.trim());
+  if (params.aiGenerated != null) search.set("aiGenerated", String(params.aiGenerated));
+  if (params.sort) search.set("sort", params.sort);
+  if (params.cursor) search.set("cursor", params.cursor);
+  if (params.limit) search.set("limit", String(params.limit));
+
+  const query = search.toString();
+  return query ? `?${query}` : "";
+}
+
+export async function fetchTransactionPage<T = any>(params: TransactionQueryParams = {}): Promise<TransactionPage<T>> {
+  const response = await apiRequest("GET", `/api/transactions${buildTransactionQuery(params)}`);
+  return response.json();
+}
+
+/**
+ * Fetch every transaction matching the filters by following the page cursors.
+ * Use a date range for analytics so this stays bounded for long-time users.
+ */
+export async function fetchAllTransactions<T = any>(params: TransactionQueryParams = {}): Promise<T[]> {
+  const items: T[] = [];
+  let cursor: string | null | undefined = undefined;
+
+  do {
+    const page: TransactionPage<T> = await fetchTransactionPage<T>({ ...params, cursor, limit: 200 });
+    items.push(...page.items);
+    cursor = page.nextCursor;
+  } while (cursor);
+
+  return items;
+}
+
+export interface TransactionSplitPart {
+  id?: number;
+  categoryId: number;
+  amount: number;
+  description?: string | null;
+  category?: { name: string; color: string; icon?: string } | null;
+}
+
+export interface CategoryAllocation {
+  categoryId: number | null;
+  amount: number;
+  category?: TransactionSplitPart["category"];
+}
+
+/**
+ * How much of a transaction lands in each category: one entry per split part,
+ * or the transaction itself when it isn't split. Use this for any per-category total.
+ */
+export function getCategoryAllocations(transaction: {
+  categoryId?: number | null;
+  amount: number;
+  category?: TransactionSplitPart["category"];
+  splits?: TransactionSplitPart[];
+}): CategoryAllocation[] {
+  if (transaction.splits?.length) {
+    return transaction.splits.map(split => ({
+      categoryId: split.categoryId,
+      amount: split.amount,
+      category: split.category,
+    }));
+  }
+
+  return [{
+    categoryId: transaction.categoryId ?? null,
+    amount: transaction.amount || 0,
+    category: transaction.category,
+  }];
+}
@@ -1,4 +1,5 @@
-import { apiRequest } from './queryClient';
+import { apiRequest, getApiErrorMessage } from './queryClient';
+import { getTwoFactorRequirement, type TwoFactorRequirement } from './authUtils';
 
 export interface WhatsAppConnection {
   id: number;
@@ -20,21 +21,27 @@ export interface WhatsAppActivationCode {
 }
 
 /**
- * Generate a new activation code
+ * Generate a new activation code. With two-factor on, linking a number takes a fresh code:
+ * without one the result carries twoFactor, and the caller asks for a code and tries again.
  */
-export const generateActivationCode = async (): Promise<{
+export const generateActivationCode = async (twoFactorCode?: string): Promise<{
   success: boolean;
   code?: string;
   expiresAt?: number;
   message?: string;
+  twoFactor?: TwoFactorRequirement;
 }> => {
   try {
-    const response = await apiRequest('POST', '/api/whatsapp/generate-code');
+    const response = await apiRequest('POST', '/api/whatsapp/generate-code', twoFactorCode ? { twoFactorCode } : undefined);
     if (!response.ok) {
       throw new Error('Failed to generate activation code');
     }
     return await response.json();
   } catch (error) {
+    const twoFactor = getTwoFactorRequirement(error);
+    if (twoFactor) {
+      return { success: false, message: twoFactor.invalid ? 'Invalid or expired two-factor code' : 'Two-factor code required', twoFactor };
+    }
     console.error('Error generating activation code:', error);
     return { success: false, message: 'Failed to generate activation code' };
   }
@@ -81,21 +88,26 @@ export const getActiveActivationCodes = async (): Promise<{
 };
 
 /**
- * Disconnect a WhatsApp integration
+ * Disconnect a WhatsApp integration; like linking, this takes a fresh two-factor code when it's on
  */
-export const disconnectWhatsAppConnection = async (connectionId: number): Promise<{
+export const disconnectWhatsAppConnection = async (connectionId: number, twoFactorCode?: string): Promise<{
   success: boolean;
   message: string;
+  twoFactor?: TwoFactorRequirement;
 }> => {
   try {
-    const response = await apiRequest('DELETE', `/api/whatsapp/connections/${connectionId}`);
+    const response = await apiRequest('DELETE', `/api/whatsapp/connections/${connectionId}`, twoFactorCode ? { twoFactorCode } : undefined);
     if (!response.ok) {
       throw new Error('Failed to disconnect WhatsApp');
     }
     return await response.json();
   } catch (error) {
+    const twoFactor = getTwoFactorRequirement(error);
+    if (twoFactor) {
+      return { success: false, message: twoFactor.invalid ? 'Invalid or expired two-factor code' : 'Two-factor code required', twoFactor };
+    }
     console.error('Error disconnecting WhatsApp:', error);
-    return { success: false, message: 'Failed to disconnect WhatsApp' };
+    return { success: false, message: getApiErrorMessage(error, 'Failed to disconnect WhatsApp') };
   }
 };
 
@@ -0,0 +1,600 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { IconEmojiPicker } from "@/components/ui/icon-emoji-picker";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency, getUserCurrency } from "@/lib/currencyUtils";
+import { Plus, Edit2, Trash2, ArrowRightLeft } from "lucide-react";
+
+const accountTypes = [
+  { value: "cash", label: "Cash", icon: "💵" },
+  { value: "bank", label: "Bank", icon: "🏦" },
+  { value: "ewallet", label: "E-Wallet", icon: "📱" },
+  { value: "credit_card", label: "Credit Card", icon: "💳" },
+];
+
+const getAccountTypeLabel = (type: string) =>
+  accountTypes.find((accountType) => accountType.value === type)?.label || type;
+
+export default function Accounts() {
+  const { isAuthenticated } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isTransferOpen, setIsTransferOpen] = useState(false);
+  const [isIconPickerOpen, setIsIconPickerOpen] = useState(false);
+  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [accountToDelete, setAccountToDelete] = useState<any>(null);
+  const [editingAccount, setEditingAccount] = useState<any>(null);
+
+  const [formData, setFormData] = useState({
+    name: "",
+    type: "cash",
+    icon: "💵",
+    openingBalance: "0",
+    isDefault: false,
+  });
+
+  const [transferData, setTransferData] = useState({
+    fromAccountId: "",
+    toAccountId: "",
+    amount: "",
+    description: "",
+  });
+
+  // Fetch accounts with balances
+  const { data: accounts = [], isLoading } = useQuery({
+    queryKey: ["/api/accounts"],
+    enabled: isAuthenticated,
+  });
+
+  const { data: userPreferences } = useQuery({
+    queryKey: ["/api/user/preferences"],
+    enabled: isAuthenticated,
+  });
+
+  const userCurrency = getUserCurrency(userPreferences);
+
+  const invalidateAccountQueries = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/analytics/dashboard"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/analytics/cash-flow"] });
+  };
+
+  const sendRequest = async (method: string, url: string, data?: any) => {
+    const response = await fetch(url, {
+      method,
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${localStorage.getItem('auth-token')}`
+      },
+      body: data ? JSON.stringify(data) : undefined,
+    });
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(result.message || "Request failed");
+    return result;
+  };
+
+  // Create account mutation
+  const createAccountMutation = useMutation({
+    mutationFn: (data: any) => sendRequest("POST", "/api/accounts", data),
+    onSuccess: () => {
+      invalidateAccountQueries();
+      setIsDialogOpen(false);
+      showToast('success', '✨ Account Created!', `"${formData.name}" has been added to your accounts`);
+      resetForm();
+    },
+    onError: (error: any) => {
+      showToast('error', '❌ Creation Failed', error?.message || 'Failed to create account');
+    },
+  });
+
+  // Update account mutation
+  const updateAccountMutation = useMutation({
+    mutationFn: ({ id, data }: { id: number, data: any }) => sendRequest("PUT", `/api/accounts/${id}`, data),
+    onSuccess: () => {
+      invalidateAccountQueries();
+      setIsDialogOpen(false);
+      showToast('success', '🔄 Account Updated!', `"${formData.name}" has been successfully updated`);
+      setEditingAccount(null);
+      resetForm();
+    },
+    onError: (error: any) => {
+      showToast('error', '❌ Update Failed', error?.message || 'Failed to update account');
+    },
+  });
+
+  // Delete account mutation
+  const deleteAccountMutation = useMutation({
+    mutationFn: (id: number) => sendRequest("DELETE", `/api/accounts/${id}`),
+    onSuccess: () => {
+      invalidateAccountQueries();
+      showToast('success', '🗑️ Account Deleted!', 'The account has been removed');
+    },
+    onError: (error: any) => {
+      showToast('error', '❌ Deletion Failed', error?.message || 'Failed to delete account');
+    },
+  });
+
+  // Transfer mutation
+  const transferMutation = useMutation({
+    mutationFn: (data: any) => sendRequest("POST", "/api/accounts/transfer", data),
+    onSuccess: () => {
+      invalidateAccountQueries();
+      setIsTransferOpen(false);
+      setTransferData({ fromAccountId: "", toAccountId: "", amount: "", description: "" });
+      showToast('success', '🔁 Transfer Recorded!', 'Money has been moved between your accounts');
+    },
+    onError: (error: any) => {
+      showToast('error', '❌ Transfer Failed', error?.message || 'Failed to create transfer');
+    },
+  });
+
+  const showToast = (type: 'success' | 'error' | 'warning', title: string, description: string) => {
+    const variants = {
+      success: undefined,
+      error: "destructive" as const,
+      warning: "default" as const,
+    };
+
+    toast({
+      title,
+      description,
+      variant: variants[type],
+      duration: type === 'error' ? 5000 : 3000,
+      className: type === 'success' ? 'border-green-200 bg-green-50' :
+                 type === 'warning' ? 'border-yellow-200 bg-yellow-50' : '',
+    });
+  };
+
+  const resetForm = () => {
+    setFormData({
+      name: "",
+      type: "cash",
+      icon: "💵",
+      openingBalance: "0",
+      isDefault: false,
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.name.trim()) {
+      showToast('warning', '⚠️ Validation Error', 'Account name is required');
+      return;
+    }
+
+    const openingBalance = parseFloat(formData.openingBalance || "0");
+    if (isNaN(openingBalance)) {
+      showToast('warning', '⚠️ Validation Error', 'Opening balance must be a number');
+      return;
+    }
+
+    const payload = {
+      name: formData.name.trim(),
+      type: formData.type,
+      icon: formData.icon,
+      openingBalance,
+      isDefault: formData.isDefault,
+      currency: editingAccount?.currency || userCurrency,
+    };
+
+    if (editingAccount) {
+      updateAccountMutation.mutate({ id: editingAccount.id, data: payload });
+    } else {
+      createAccountMutation.mutate(payload);
+    }
+  };
+
+  const handleTransfer = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!transferData.fromAccountId || !transferData.toAccountId) {
+      showToast('warning', '⚠️ Validation Error', 'Choose both accounts');
+      return;
+    }
+
+    if (transferData.fromAccountId === transferData.toAccountId) {
+      showToast('warning', '⚠️ Validation Error', 'Source and destination accounts must be different');
+      return;
+    }
+
+    const amount = parseFloat(transferData.amount);
+    if (isNaN(amount) || amount <= 0) {
+      showToast('warning', '⚠️ Validation Error', 'Amount must be a positive number');
+      return;
+    }
+
+    transferMutation.mutate({
+      fromAccountId: parseInt(transferData.fromAccountId),
+      toAccountId: parseInt(transferData.toAccountId),
+      amount,
+      description: transferData.description || undefined,
+    });
+  };
+
+  const handleEdit = (account: any) => {
+    setEditingAccount(account);
+    setFormData({
+      name: account.name,
+      type: account.type,
+      icon: account.icon || "💳",
+      openingBalance: String(account.openingBalance ?? 0),
+      isDefault: !!account.isDefault,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleDelete = (account: any) => {
+    setAccountToDelete(account);
+    setIsDeleteDialogOpen(true);
+  };
+
+  const confirmDelete = () => {
+    if (accountToDelete) {
+      deleteAccountMutation.mutate(accountToDelete.id);
+      setIsDeleteDialogOpen(false);
+      setAccountToDelete(null);
+    }
+  };
+
+  const accountList = accounts as any[];
+  const totalBalance = accountList.reduce((sum: number, account: any) => sum + (account.balance || 0), 0);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-16 w-16 border-4 border-green-600 border-t-transparent"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="px-3 sm:px-4 lg:px-6 space-y-5 sm:space-y-6 md:space-y-8 max-w-[100vw] overflow-x-hidden">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 sm:gap-0">
+        <div>
+          <h1 className="text-xl sm:text-2xl font-bold bg-gradient-to-r from-gray-900 to-gray-600 bg-clip-text text-transparent">Accounts</h1>
+          <p className="text-sm sm:text-base text-gray-600">Track where your money lives: cash, bank, e-wallets and credit cards</p>
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Button
+            variant="outline"
+            onClick={() => setIsTransferOpen(true)}
+            className="w-full sm:w-auto"
+            disabled={accountList.length < 2}
+          >
+            <ArrowRightLeft className="h-4 w-4 mr-2" />
+            Transfer
+          </Button>
+          <Button onClick={() => { resetForm(); setEditingAccount(null); setIsDialogOpen(true); }} className="w-full sm:w-auto">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Account
+          </Button>
+        </div>
+      </div>
+
+      {/* Total */}
+      <Card>
+        <CardContent className="flex items-center justify-between py-4">
+          <span className="text-sm font-medium text-gray-600">Total Balance</span>
+          <span className={`text-lg sm:text-xl font-bold ${totalBalance >= 0 ? 'text-gray-900' : 'text-red-600'}`}>
+            {formatCurrency(totalBalance, userCurrency)}
+          </span>
+        </CardContent>
+      </Card>
+
+      {/* Accounts Grid */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 sm:gap-4">
+        {accountList.length === 0 ? (
+          <Card className="col-span-full">
+            <CardContent className="flex flex-col items-center justify-center py-8 sm:py-12">
+              <div className="text-3xl sm:text-4xl mb-3 sm:mb-4">🏦</div>
+              <h3 className="font-medium text-gray-900 text-center">No accounts yet</h3>
+              <p className="text-gray-500 text-center text-sm sm:text-base mt-1 sm:mt-2">
+                Add your cash, bank accounts and e-wallets to see balances per account
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          accountList.map((account: any) => (
+            <Card key={account.id} className="hover:shadow-md transition-shadow">
+              <CardHeader className="pb-2 sm:pb-3 px-3 sm:px-6 pt-2 sm:pt-3">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2 sm:space-x-3">
+                    <div className="w-8 h-8 sm:w-10 sm:h-10 rounded-full bg-blue-100 flex items-center justify-center">
+                      <span className="text-lg sm:text-xl">{account.icon || "💳"}</span>
+                    </div>
+                    <div>
+                      <CardTitle className="text-xs sm:text-sm font-medium">{account.name}</CardTitle>
+                      <div className="flex items-center gap-1">
+                        <Badge variant="secondary" className="bg-blue-100 text-blue-700 text-xs px-1.5 py-0.5">
+                          {getAccountTypeLabel(account.type)}
+                        </Badge>
+                        {account.isDefault && (
+                          <Badge variant="secondary" className="bg-green-100 text-green-700 text-xs px-1.5 py-0.5">
+                            Default
+                          </Badge>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-0.5 sm:space-x-1">
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-7 w-7 sm:h-8 sm:w-8 p-0"
+                      onClick={() => handleEdit(account)}
+                    >
+                      <Edit2 className="h-3.5 w-3.5 sm:h-4 sm:w-4" />
+                    </Button>
+                    {!account.isDefault && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-7 w-7 sm:h-8 sm:w-8 p-0"
+                        onClick={() => handleDelete(account)}
+                      >
+                        <Trash2 className="h-3.5 w-3.5 sm:h-4 sm:w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="px-3 sm:px-6 pb-3">
+                <p className={`text-lg font-bold ${account.balance >= 0 ? 'text-gray-900' : 'text-red-600'}`}>
+                  {formatCurrency(account.balance, account.currency || userCurrency)}
+                </p>
+                <p className="text-xs text-gray-500">
+                  Opening balance {formatCurrency(account.openingBalance, account.currency || userCurrency)}
+                </p>
+              </CardContent>
+            </Card>
+          ))
+        )}
+      </div>
+
+      {/* Create / Edit Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-md max-w-[90vw] p-4 sm:p-6">
+          <DialogHeader>
+            <DialogTitle className="text-base sm:text-lg">
+              {editingAccount ? "Edit Account" : "Create Account"}
+            </DialogTitle>
+            <DialogDescription className="text-xs sm:text-sm">
+              {editingAccount ? "Edit an existing account" : "Add a place where you keep money"}
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit} className="space-y-3 sm:space-y-4">
+            <div>
+              <Label htmlFor="name" className="text-sm">Account Name</Label>
+              <Input
+                id="name"
+                placeholder="e.g. BCA, GoPay, Dompet"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                className="text-sm"
+                required
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="type" className="text-sm">Account Type</Label>
+              <Select
+                value={formData.type}
+                onValueChange={(value) => {
+                  const accountType = accountTypes.find((item) => item.value === value);
+                  setFormData({ ...formData, type: value, icon: accountType?.icon || formData.icon });
+                }}
+              >
+                <SelectTrigger className="text-sm">
+                  <SelectValue placeholder="Account type" />
+                </SelectTrigger>
+                <SelectContent>
+                  {accountTypes.map((accountType) => (
+                    <SelectItem key={accountType.value} value={accountType.value}>
+                      {accountType.icon} {accountType.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label htmlFor="openingBalance" className="text-sm">Opening Balance</Label>
+              <Input
+                id="openingBalance"
+                type="number"
+                step="0.01"
+                value={formData.openingBalance}
+                onChange={(e) => setFormData({ ...formData, openingBalance: e.target.value })}
+                className="text-sm"
+              />
+              <p className="text-xs text-gray-500 mt-1">Use a negative amount for credit card debt</p>
+            </div>
+
+            <div>
+              <Label htmlFor="icon" className="text-sm">Icon/Emoji</Label>
+              <Button
+                type="button"
+                variant="outline"
+                className="w-full justify-start text-sm"
+                onClick={() => setIsIconPickerOpen(true)}
+              >
+                <span className="text-xl sm:text-2xl mr-2">{formData.icon}</span>
+                Choose Icon/Emoji
+              </Button>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="isDefault" className="text-sm">Default account for new transactions</Label>
+              <Switch
+                id="isDefault"
+                checked={formData.isDefault}
+                onCheckedChange={(checked) => setFormData({ ...formData, isDefault: checked })}
+              />
+            </div>
+
+            <div className="flex flex-col sm:flex-row sm:justify-end gap-2 sm:gap-3 pt-3 sm:pt-4">
+              <Button type="button" variant="outline" className="w-full sm:w-auto order-2 sm:order-1" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                className="w-full sm:w-auto order-1 sm:order-2"
+                disabled={createAccountMutation.isPending || updateAccountMutation.isPending}
+              >
+                {editingAccount ? "Save" : "Create"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Transfer Dialog */}
+      <Dialog open={isTransferOpen} onOpenChange={setIsTransferOpen}>
+        <DialogContent className="sm:max-w-md max-w-[90vw] p-4 sm:p-6">
+          <DialogHeader>
+            <DialogTitle className="text-base sm:text-lg">Transfer Between Accounts</DialogTitle>
+            <DialogDescription className="text-xs sm:text-sm">
+              Transfers move money between your accounts and are not counted as income or expense
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleTransfer} className="space-y-3 sm:space-y-4">
+            <div>
+              <Label className="text-sm">From</Label>
+              <Select
+                value={transferData.fromAccountId}
+                onValueChange={(value) => setTransferData({ ...transferData, fromAccountId: value })}
+              >
+                <SelectTrigger className="text-sm">
+                  <SelectValue placeholder="Source account" />
+                </SelectTrigger>
+                <SelectContent>
+                  {accountList.map((account: any) => (
+                    <SelectItem key={account.id} value={account.id.toString()}>
+                      {account.icon || "💳"} {account.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label className="text-sm">To</Label>
+              <Select
+                value={transferData.toAccountId}
+                onValueChange={(value) => setTransferData({ ...transferData, toAccountId: value })}
+              >
+                <SelectTrigger className="text-sm">
+                  <SelectValue placeholder="Destination account" />
+                </SelectTrigger>
+                <SelectContent>
+                  {accountList
+                    .filter((account: any) => account.id.toString() !== transferData.fromAccountId)
+                    .map((account: any) => (
+                      <SelectItem key={account.id} value={account.id.toString()}>
+                        {account.icon || "💳"} {account.name}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label htmlFor="transferAmount" className="text-sm">Amount</Label>
+              <Input
+                id="transferAmount"
+                type="number"
+                step="0.01"
+                placeholder="0.00"
+                value={transferData.amount}
+                onChange={(e) => setTransferData({ ...transferData, amount: e.target.value })}
+                className="text-sm"
+                required
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="transferDescription" className="text-sm">Note (optional)</Label>
+              <Input
+                id="transferDescription"
+                placeholder="e.g. Top up GoPay"
+                value={transferData.description}
+                onChange={(e) => setTransferData({ ...transferData, description: e.target.value })}
+                className="text-sm"
+              />
+            </div>
+
+            <div className="flex flex-col sm:flex-row sm:justify-end gap-2 sm:gap-3 pt-3 sm:pt-4">
+              <Button type="button" variant="outline" className="w-full sm:w-auto order-2 sm:order-1" onClick={() => setIsTransferOpen(false)}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                className="w-full sm:w-auto order-1 sm:order-2"
+                disabled={transferMutation.isPending}
+              >
+                Transfer
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Icon/Emoji Picker Modal */}
+      <IconEmojiPicker
+        open={isIconPickerOpen}
+        onOpenChange={setIsIconPickerOpen}
+        onSelect={(icon) => setFormData({ ...formData, icon })}
+        value={formData.icon}
+      />
+
+      {/* Delete Confirmation Dialog */}
+      <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
+        <AlertDialogContent className="sm:max-w-md max-w-[90vw] p-4 sm:p-6">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Account</AlertDialogTitle>
+            <AlertDialogDescription className="text-xs sm:text-sm text-gray-600">
+              {accountToDelete && `Are you sure you want to delete "${accountToDelete.name}"? `}
+              Accounts that already have transactions cannot be deleted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter className="flex flex-col sm:flex-row gap-2 sm:gap-0">
+            <AlertDialogCancel
+              className="hover:bg-gray-100 w-full sm:w-auto order-2 sm:order-1"
+              onClick={() => {
+                setIsDeleteDialogOpen(false);
+                setAccountToDelete(null);
+              }}
+            >
+              Cancel
+            </AlertDialogCancel>
+            <AlertDialogAction
+              onClick={confirmDelete}
+              className="bg-red-600 hover:bg-red-700 text-white w-full sm:w-auto order-1 sm:order-2"
+              disabled={deleteAccountMutation.isPending}
+            >
+              Delete Account
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -4,10 +4,17 @@ import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { ArrowRight, Mail, Lock, User, Eye, EyeOff } from "lucide-react";
+import { ArrowRight, Mail, Lock, User, Eye, EyeOff, KeyRound, ShieldCheck } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 
+// What /api/auth/login answers instead of tokens when the account has two-factor on
+interface TwoFactorChallenge {
+  challengeToken: string;
+  method: "totp" | "whatsapp";
+  codeSent: boolean;
+}
+
 export default function Auth() {
   const { isAuthenticated, isLoading: authLoading } = useAuth();
   const { toast } = useToast();
@@ -21,6 +28,8 @@ export default function Auth() {
     name: "",
     confirmPassword: ""
   });
+  const [twoFactor, setTwoFactor] = useState<TwoFactorChallenge | null>(null);
+  const [twoFactorCode, setTwoFactorCode] = useState("");
 
   // Redirect to dashboard if user is already authenticated
   useEffect(() => {
@@ -46,6 +55,110 @@ export default function Auth() {
     return null;
   }
 
+  const post = async (url: string, payload: unknown) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(payload),
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw Object.assign(new Error(data.message || 'Authentication failed'), { code: data.code });
+    }
+    return data;
+  };
+
+  const completeSignIn = (data: { token?: string; refreshToken?: string; user?: unknown }) => {
+    // Store JWT token in localStorage
+    if (data.token) {
+      localStorage.setItem('auth-token', data.token);
+    }
+    if (data.refreshToken) {
+      localStorage.setItem('auth-refresh-token', data.refreshToken);
+    }
+    
+    // Store user data
+    if (data.user) {
+      localStorage.setItem('auth-user', JSON.stringify(data.user));
+    }
+
+    // Show success toast
+    toast({
+      title: isLogin ? "Welcome back!" : "Account created successfully!",
+      description: isLogin ? "You have successfully signed in." : "Your account has been created and you're now signed in.",
+      variant: "default",
+    });
+    
+    // Force reload to ensure useAuth hook picks up the new token
+    window.location.href = "/dashboard";
+  };
+
+  const startTwoFactor = (challenge: TwoFactorChallenge) => {
+    setTwoFactor(challenge);
+    setTwoFactorCode("");
+    if (challenge.method === "whatsapp" && !challenge.codeSent) {
+      toast({
+        title: "Code Not Sent",
+        description: "We couldn't send a code to your WhatsApp right now. You can use a recovery code instead.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleTwoFactorSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!twoFactor) return;
+    setIsLoading(true);
+
+    try {
+      const data = await post('/api/auth/login/2fa', {
+        challengeToken: twoFactor.challengeToken,
+        code: twoFactorCode,
+      });
+      completeSignIn(data);
+    } catch (error: unknown) {
+      // Too many wrong codes, or the step took too long: back to the password
+      if ((error as { code?: string }).code === 'TWO_FACTOR_EXPIRED') {
+        setTwoFactor(null);
+      }
+      toast({
+        title: "Verification Failed",
+        description: error instanceof Error ? error.message : 'Invalid two-factor code',
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleResendCode = async () => {
+    if (!twoFactor) return;
+    setIsLoading(true);
+
+    try {
+      const data = await post('/api/auth/login/2fa/resend', { challengeToken: twoFactor.challengeToken });
+      startTwoFactor(data);
+      if (data.codeSent) {
+        toast({
+          title: "Code Sent",
+          description: "A new code is on its way to your WhatsApp.",
+        });
+      }
+    } catch (error: unknown) {
+      setTwoFactor(null);
+      toast({
+        title: "Verification Failed",
+        description: error instanceof Error ? error.message : 'Please log in again',
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
@@ -95,39 +208,15 @@ export default function Auth() {
         ? { email: formData.email, password: formData.password }
         : { email: formData.email, password: formData.password, name: formData.name };
       
-      const response = await fetch(endpoint, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(payload),
-      });
-      
-      const data = await response.json();
-      
-      if (!response.ok) {
-        throw new Error(data.message || 'Authentication failed');
-      }
-      
-      // Store JWT token in localStorage
-      if (data.token) {
-        localStorage.setItem('auth-token', data.token);
-      }
-      
-      // Store user data
-      if (data.user) {
-        localStorage.setItem('auth-user', JSON.stringify(data.user));
+      const data = await post(endpoint, payload);
+
+      // The password was right; the account wants a second factor before the tokens
+      if (data.twoFactorRequired) {
+        startTwoFactor(data);
+        return;
       }
 
-      // Show success toast
-      toast({
-        title: isLogin ? "Welcome back!" : "Account created successfully!",
-        description: isLogin ? "You have successfully signed in." : "Your account has been created and you're now signed in.",
-        variant: "default",
-      });
-      
-      // Force reload to ensure useAuth hook picks up the new token
-      window.location.href = "/dashboard";
+      completeSignIn(data);
     } catch (error: unknown) {
       console.error("Authentication error:", error);
       
@@ -179,170 +268,251 @@ export default function Auth() {
         </div>
 
         {/* Auth Form */}
-        <Card className="shadow-2xl border-0 bg-white/80 backdrop-blur-sm">
-          <CardHeader className="space-y-1">
-            <Tabs value={isLogin ? "login" : "register"} className="w-full">
-              <TabsList className="grid w-full grid-cols-2">
-                <TabsTrigger value="login" onClick={() => setIsLogin(true)}>
-                  Login
-                </TabsTrigger>
-                <TabsTrigger value="register" onClick={() => setIsLogin(false)}>
-                  Register
-                </TabsTrigger>
-              </TabsList>
-              
-              <TabsContent value="login" className="space-y-4">
-                <div className="text-center">
-                  <CardTitle className="text-2xl">Login</CardTitle>
-                  <CardDescription>
-                    Enter your email and password to access your account
-                  </CardDescription>
+        {twoFactor ? (
+          <Card className="shadow-2xl border-0 bg-white/80 backdrop-blur-sm">
+            <CardHeader className="space-y-1 text-center">
+              <ShieldCheck className="h-10 w-10 text-emerald-600 mx-auto" />
+              <CardTitle className="text-2xl">Two-Step Verification</CardTitle>
+              <CardDescription>
+                {twoFactor.method === "whatsapp"
+                  ? "Enter the 6-digit code we sent to your linked WhatsApp number."
+                  : "Enter the 6-digit code from your authenticator app."}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleTwoFactorSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="twoFactorCode">Code</Label>
+                  <div className="relative">
+                    <KeyRound className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                    <Input
+                      id="twoFactorCode"
+                      name="twoFactorCode"
+                      autoComplete="one-time-code"
+                      placeholder="123456"
+                      value={twoFactorCode}
+                      onChange={(e) => setTwoFactorCode(e.target.value)}
+                      className="pl-10"
+                      autoFocus
+                      required
+                    />
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    Can't get a code? Enter one of your recovery codes instead.
+                  </p>
                 </div>
-              </TabsContent>
+
+                <Button
+                  type="submit"
+                  disabled={isLoading}
+                  className="w-full bg-gradient-to-r from-emerald-600 to-blue-600 hover:from-emerald-700 hover:to-blue-700 text-white shadow-lg hover:shadow-xl transition-all duration-300"
+                >
+                  {isLoading ? (
+                    <div className="flex items-center">
+                      <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin mr-2"></div>
+                      Processing...
+                    </div>
+                  ) : (
+                    <>
+                      Verify
+                      <ArrowRight className="ml-2 h-4 w-4" />
+                    </>
+                  )}
+                </Button>
+              </form>
+
+              <div className="mt-6 flex items-center justify-between">
+                <Button
+                  variant="link"
+                  className="p-0 h-auto text-sm text-gray-600"
+                  onClick={() => setTwoFactor(null)}
+                >
+                  ← Use a different account
+                </Button>
+                {twoFactor.method === "whatsapp" && (
+                  <Button
+                    variant="link"
+                    className="p-0 h-auto text-sm text-emerald-600 hover:text-emerald-700"
+                    disabled={isLoading}
+                    onClick={handleResendCode}
+                  >
+                    Send a new code
+                  </Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card className="shadow-2xl border-0 bg-white/80 backdrop-blur-sm">
+            <CardHeader className="space-y-1">
+              <Tabs value={isLogin ? "login" : "register"} className="w-full">
+                <TabsList className="grid w-full grid-cols-2">
+                  <TabsTrigger value="login" onClick={() => setIsLogin(true)}>
+                    Login
+                  </TabsTrigger>
+                  <TabsTrigger value="register" onClick={() => setIsLogin(false)}>
+                    Register
+                  </TabsTrigger>
+                </TabsList>
               
-              <TabsContent value="register" className="space-y-4">
-                <div className="text-center">
-                  <CardTitle className="text-2xl">Create Account</CardTitle>
-                  <CardDescription>
-                    Sign up to start your financial journey with AI
-                  </CardDescription>
-                </div>
-              </TabsContent>
-            </Tabs>
-          </CardHeader>
+                <TabsContent value="login" className="space-y-4">
+                  <div className="text-center">
+                    <CardTitle className="text-2xl">Login</CardTitle>
+                    <CardDescription>
+                      Enter your email and password to access your account
+                    </CardDescription>
+                  </div>
+                </TabsContent>
+              
+                <TabsContent value="register" className="space-y-4">
+                  <div className="text-center">
+                    <CardTitle className="text-2xl">Create Account</CardTitle>
+                    <CardDescription>
+                      Sign up to start your financial journey with AI
+                    </CardDescription>
+                  </div>
+                </TabsContent>
+              </Tabs>
+            </CardHeader>
           
-          <CardContent>
-            <form onSubmit={handleSubmit} className="space-y-4">
-              {!isLogin && (
+            <CardContent>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                {!isLogin && (
+                  <div className="space-y-2">
+                    <Label htmlFor="name">Full Name</Label>
+                    <div className="relative">
+                      <User className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                      <Input
+                        id="name"
+                        name="name"
+                        type="text"
+                        placeholder="Enter your full name"
+                        value={formData.name}
+                        onChange={handleInputChange}
+                        className="pl-10"
+                        required={!isLogin}
+                      />
+                    </div>
+                  </div>
+                )}
+              
                 <div className="space-y-2">
-                  <Label htmlFor="name">Full Name</Label>
+                  <Label htmlFor="email">Email</Label>
                   <div className="relative">
-                    <User className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                    <Mail className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
                     <Input
-                      id="name"
-                      name="name"
-                      type="text"
-                      placeholder="Enter your full name"
-                      value={formData.name}
+                      id="email"
+                      name="email"
+                      type="email"
+                      placeholder="Enter your email"
+                      value={formData.email}
                       onChange={handleInputChange}
                       className="pl-10"
-                      required={!isLogin}
+                      required
                     />
                   </div>
                 </div>
-              )}
-              
-              <div className="space-y-2">
-                <Label htmlFor="email">Email</Label>
-                <div className="relative">
-                  <Mail className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
-                  <Input
-                    id="email"
-                    name="email"
-                    type="email"
-                    placeholder="Enter your email"
-                    value={formData.email}
-                    onChange={handleInputChange}
-                    className="pl-10"
-                    required
-                  />
-                </div>
-              </div>
               
-              <div className="space-y-2">
-                <Label htmlFor="password">Password</Label>
-                <div className="relative">
-                  <Lock className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
-                  <Input
-                    id="password"
-                    name="password"
-                    type={showPassword ? "text" : "password"}
-                    placeholder="Enter your password"
-                    value={formData.password}
-                    onChange={handleInputChange}
-                    className="pl-10 pr-10"
-                    required
-                  />
-                  <button
-                    type="button"
-                    onClick={() => setShowPassword(!showPassword)}
-                    className="absolute right-3 top-3 h-4 w-4 text-gray-400 hover:text-gray-600"
-                  >
-                    {showPassword ? <EyeOff /> : <Eye />}
-                  </button>
-                </div>
-              </div>
-              
-              {!isLogin && (
                 <div className="space-y-2">
-                  <Label htmlFor="confirmPassword">Confirm Password</Label>
+                  <Label htmlFor="password">Password</Label>
                   <div className="relative">
                     <Lock className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
                     <Input
-                      id="confirmPassword"
-                      name="confirmPassword"
-                      type="password"
-                      placeholder="Confirm your password"
-                      value={formData.confirmPassword}
+                      id="password"
+                      name="password"
+                      type={showPassword ? "text" : "password"}
+                      placeholder="Enter your password"
+                      value={formData.password}
                       onChange={handleInputChange}
-                      className="pl-10"
-                      required={!isLogin}
+                      className="pl-10 pr-10"
+                      required
                     />
+                    <button
+                      type="button"
+                      onClick={() => setShowPassword(!showPassword)}
+                      className="absolute right-3 top-3 h-4 w-4 text-gray-400 hover:text-gray-600"
+                    >
+                      {showPassword ? <EyeOff /> : <Eye />}
+                    </button>
                   </div>
                 </div>
-              )}
               
-              {isLogin && (
-                <div className="flex items-center justify-between">
-                  <label className="flex items-center">
-                    <input type="checkbox" className="mr-2" />
-                    <span className="text-sm text-gray-600">Remember me</span>
-                  </label>
-                  <Button variant="link" className="text-sm p-0 h-auto">
-                    Forgot password?
-                  </Button>
-                </div>
-              )}
+                {!isLogin && (
+                  <div className="space-y-2">
+                    <Label htmlFor="confirmPassword">Confirm Password</Label>
+                    <div className="relative">
+                      <Lock className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                      <Input
+                        id="confirmPassword"
+                        name="confirmPassword"
+                        type="password"
+                        placeholder="Confirm your password"
+                        value={formData.confirmPassword}
+                        onChange={handleInputChange}
+                        className="pl-10"
+                        required={!isLogin}
+                      />
+                    </div>
+                  </div>
+                )}
               
-              <Button
-                type="submit"
-                disabled={isLoading}
-                className="w-full bg-gradient-to-r from-emerald-600 to-blue-600 hover:from-emerald-700 hover:to-blue-700 text-white shadow-lg hover:shadow-xl transform hover:scale-105 transition-all duration-300"
-              >
-                {isLoading ? (
-                  <div className="flex items-center">
-                    <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin mr-2"></div>
-                    Processing...
+                {isLogin && (
+                  <div className="flex items-center justify-between">
+                    <label className="flex items-center">
+                      <input type="checkbox" className="mr-2" />
+                      <span className="text-sm text-gray-600">Remember me</span>
+                    </label>
+                    <Button
+                      type="button"
+                      variant="link"
+                      className="text-sm p-0 h-auto"
+                      onClick={() => window.location.href = "/reset-password"}
+                    >
+                      Forgot password?
+                    </Button>
                   </div>
-                ) : (
-                  <>
-                    {isLogin ? "Sign In" : "Create Account"}
-                    <ArrowRight className="ml-2 h-4 w-4" />
-                  </>
                 )}
-              </Button>
-            </form>
-            
-            <div className="mt-6 text-center">
-              <p className="text-sm text-gray-600">
-                {isLogin ? "Don't have an account?" : "Already have an account?"}
+              
                 <Button
-                  variant="link"
-                  className="ml-1 p-0 h-auto text-emerald-600 hover:text-emerald-700"
-                  onClick={() => setIsLogin(!isLogin)}
+                  type="submit"
+                  disabled={isLoading}
+                  className="w-full bg-gradient-to-r from-emerald-600 to-blue-600 hover:from-emerald-700 hover:to-blue-700 text-white shadow-lg hover:shadow-xl transform hover:scale-105 transition-all duration-300"
                 >
-                  {isLogin ? "Sign up" : "Sign in"}
+                  {isLoading ? (
+                    <div className="flex items-center">
+                      <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin mr-2"></div>
+                      Processing...
+                    </div>
+                  ) : (
+                    <>
+                      {isLogin ? "Sign In" : "Create Account"}
+                      <ArrowRight className="ml-2 h-4 w-4" />
+                    </>
+                  )}
                 </Button>
-              </p>
-            </div>
+              </form>
             
-            <div className="mt-6 pt-6 border-t border-gray-200">
-              <p className="text-xs text-gray-500 text-center">
-                By continuing, you agree to our Terms of Service and Privacy Policy
-              </p>
-            </div>
-          </CardContent>
-        </Card>
+              <div className="mt-6 text-center">
+                <p className="text-sm text-gray-600">
+                  {isLogin ? "Don't have an account?" : "Already have an account?"}
+                  <Button
+                    variant="link"
+                    className="ml-1 p-0 h-auto text-emerald-600 hover:text-emerald-700"
+                    onClick={() => setIsLogin(!isLogin)}
+                  >
+                    {isLogin ? "Sign up" : "Sign in"}
+                  </Button>
+                </p>
+              </div>
+            
+              <div className="mt-6 pt-6 border-t border-gray-200">
+                <p className="text-xs text-gray-500 text-center">
+                  By continuing, you agree to our Terms of Service and Privacy Policy
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+        )}
         
         {/* Back to Home */}
         <div className="text-center mt-6">
@@ -2,6 +2,7 @@ import { useState, useMemo, useEffect } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Plus, Target, TrendingDown, AlertTriangle, Calendar, DollarSign, Edit3, Trash2 } from "lucide-react";
 import { formatCurrency, getUserCurrency } from '@/lib/currencyUtils';
+import { fetchAllTransactions, getCategoryAllocations, type TransactionSplitPart } from '@/lib/transactionsApi';
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
@@ -60,6 +61,7 @@ interface Transaction {
     color: string;
     icon: string;
   };
+  splits?: TransactionSplitPart[];
 }
 
 export default function BudgetsPage() {
@@ -190,35 +192,16 @@ export default function BudgetsPage() {
     retry: false,
   });
 
-  // Fetch transactions for budget analysis
+  // Fetch expenses for budget analysis, from the start of the earliest active budget period
+  const budgetsStart = useMemo(() => {
+    const startDates = budgets.filter(b => b.isActive).map(b => b.startDate);
+    return startDates.length > 0 ? Math.min(...startDates) : null;
+  }, [budgets]);
+
   const { data: transactions = [] } = useQuery<Transaction[]>({
-    queryKey: ["/api/transactions"],
-    queryFn: async () => {
-      const authToken = localStorage.getItem('auth-token');
-      if (!authToken) {
-        throw new Error('No auth token');
-      }
-      
-      const response = await fetch("/api/transactions", {
-        headers: {
-          'Authorization': `Bearer ${authToken}`,
-        },
-        credentials: "include",
-      });
-      if (!response.ok) {
-        if (response.status === 401) {
-          toast({
-            title: "Session Expired",
-            description: "Please log in again.",
-            variant: "destructive",
-          });
-          window.location.href = "/auth";
-        }
-        throw new Error("Failed to fetch transactions");
-      }
-      return response.json();
-    },
-    enabled: isAuthenticated,
+    queryKey: ["/api/transactions", "budgets", budgetsStart],
+    queryFn: () => fetchAllTransactions<Transaction>({ startDate: budgetsStart ?? undefined, type: ["expense"] }),
+    enabled: isAuthenticated && budgetsStart !== null,
     retry: false,
   });
 
@@ -402,14 +385,15 @@ export default function BudgetsPage() {
       const budgetStart = new Date(budget.startDate * 1000);
       const budgetEnd = new Date(budget.endDate * 1000);
       
-      // Calculate spent amount for this budget period
-      const categoryTransactions = transactions.filter(t => 
-        t.categoryId === budget.categoryId && 
-        t.type === "expense" &&
-        isWithinInterval(parseTransactionDate(t.date), { start: budgetStart, end: budgetEnd })
-      );
-      
-      const spent = categoryTransactions.reduce((sum, t) => sum + t.amount, 0);
+      // Calculate spent amount for this budget period - split transactions only count their part in this category
+      const spent = transactions
+        .filter(t => 
+          t.type === "expense" &&
+          isWithinInterval(parseTransactionDate(t.date), { start: budgetStart, end: budgetEnd })
+        )
+        .flatMap(t => getCategoryAllocations(t))
+        .filter(allocation => allocation.categoryId === budget.categoryId)
+        .reduce((sum, allocation) => sum + allocation.amount, 0);
       const remaining = budget.amount - spent;
       const percentUsed = budget.amount > 0 ? (spent / budget.amount) * 100 : 0;
       
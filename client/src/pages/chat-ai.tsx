@@ -1,7 +1,7 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
-import { isUnauthorizedError } from '@/lib/authUtils';
+import { isUnauthorizedError, clearAuthData } from '@/lib/authUtils';
 import { useToast } from '@/hooks/use-toast';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -179,8 +179,7 @@ export function ChatWidget({ isOpen, onToggle }: ChatWidgetProps) {
           variant: 'destructive',
         });
         setTimeout(() => {
-          localStorage.removeItem('auth-token');
-          localStorage.removeItem('auth-user');
+          clearAuthData();
           window.location.href = '/auth';
         }, 2000);
         return;
@@ -271,8 +270,7 @@ export function ChatWidget({ isOpen, onToggle }: ChatWidgetProps) {
           variant: 'destructive',
         });
         setTimeout(() => {
-          localStorage.removeItem('auth-token');
-          localStorage.removeItem('auth-user');
+          clearAuthData();
           window.location.href = '/auth';
         }, 2000);
         return;
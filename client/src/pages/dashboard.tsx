@@ -3,6 +3,7 @@ import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { formatCurrency, getUserCurrency } from "@/lib/currencyUtils";
+import { fetchAllTransactions } from "@/lib/transactionsApi";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
@@ -22,6 +23,8 @@ import AddTransactionModal from "@/components/modals/add-transaction-modal";
 // Real-time components
 
 import LiveCashFlow from "@/components/dashboard/live-cashflow";
+import AccountBalances from "@/components/dashboard/account-balances";
+import UpcomingRecurring from "@/components/dashboard/upcoming-recurring";
 import AIFinancialIntelligence from "@/components/dashboard/ai-financial-intelligence";
 
 // Helper functions
@@ -113,9 +116,15 @@ export default function Dashboard() {
     enabled: isAuthenticated && !isLoading,
   });
 
-  // Real data queries
+  // Real data queries - the widgets only look at this and last month
+  const transactionsSince = useMemo(() => {
+    const now = new Date();
+    return new Date(now.getFullYear(), now.getMonth() - 1, 1);
+  }, []);
+
   const { data: transactions } = useQuery({
-    queryKey: ["/api/transactions"],
+    queryKey: ["/api/transactions", "dashboard", transactionsSince.getTime()],
+    queryFn: () => fetchAllTransactions({ startDate: transactionsSince }),
     enabled: isAuthenticated && !isLoading,
   });
 
@@ -550,6 +559,13 @@ export default function Dashboard() {
         </Card>
       </div>
 
+      {/* Per-account balances */}
+      <AccountBalances
+        accounts={(dashboardData as any)?.accounts || []}
+        currency={userCurrency}
+        showBalance={showBalance}
+      />
+
       {/* Main Dashboard Grid */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
         {/* Left Column - AI Insights & Analytics */}
@@ -569,6 +585,14 @@ export default function Dashboard() {
             currency={userCurrency}
             showBalance={showBalance}
           />
+
+          {/* Upcoming recurring transactions */}
+          <div className="mt-4">
+            <UpcomingRecurring
+              currency={userCurrency}
+              showBalance={showBalance}
+            />
+          </div>
         </div>
       </div>
 
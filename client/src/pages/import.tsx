@@ -0,0 +1,686 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency, getUserCurrency } from "@/lib/currencyUtils";
+import { FileUp, Undo2, Save, ArrowLeft } from "lucide-react";
+
+type StatementFormat = "csv" | "ofx" | "mt940";
+
+const formatLabels: Record<StatementFormat, string> = {
+  csv: "CSV",
+  ofx: "OFX / QFX",
+  mt940: "MT940",
+};
+
+const dateFormats = ["YYYY-MM-DD", "DD/MM/YYYY", "MM/DD/YYYY", "DD-MM-YYYY", "DD.MM.YYYY"];
+
+const delimiters = [
+  { value: ",", label: "Comma (,)" },
+  { value: ";", label: "Semicolon (;)" },
+  { value: "\t", label: "Tab" },
+  { value: "|", label: "Pipe (|)" },
+];
+
+const emptyMapping = () => ({
+  delimiter: ",",
+  hasHeader: true,
+  dateColumn: "",
+  descriptionColumn: "",
+  amountMode: "single" as "single" | "split",
+  amountColumn: "",
+  debitColumn: "",
+  creditColumn: "",
+  dateFormat: "YYYY-MM-DD",
+  decimalSeparator: ".",
+});
+
+const detectFormat = (fileName: string): StatementFormat => {
+  const extension = fileName.split(".").pop()?.toLowerCase();
+  if (extension === "ofx" || extension === "qfx") return "ofx";
+  if (extension === "sta" || extension === "mt940" || extension === "940") return "mt940";
+  return "csv";
+};
+
+// Only used to label the column pickers - the server does the real parsing
+const splitCsvLine = (line: string, delimiter: string) => {
+  const cells: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+  for (const char of line) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (char === delimiter && !inQuotes) {
+      cells.push(cell.trim());
+      cell = "";
+    } else cell += char;
+  }
+  cells.push(cell.trim());
+  return cells;
+};
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp * 1000).toLocaleDateString(undefined, { day: "numeric", month: "short", year: "numeric" });
+
+export default function Import() {
+  const { isAuthenticated } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [file, setFile] = useState<File | null>(null);
+  const [format, setFormat] = useState<StatementFormat>("csv");
+  const [accountId, setAccountId] = useState("");
+  const [sampleLines, setSampleLines] = useState<string[]>([]);
+  const [mapping, setMapping] = useState(emptyMapping());
+  const [selectedMappingId, setSelectedMappingId] = useState("");
+  const [mappingName, setMappingName] = useState("");
+  const [preview, setPreview] = useState<any>(null);
+  const [selectedRows, setSelectedRows] = useState<Record<number, boolean>>({});
+  const [rowCategories, setRowCategories] = useState<Record<number, string>>({});
+  const [batchToRollback, setBatchToRollback] = useState<any>(null);
+
+  const { data: categories = [] } = useQuery({
+    queryKey: ["/api/categories"],
+    enabled: isAuthenticated,
+  });
+
+  const { data: accounts = [] } = useQuery({
+    queryKey: ["/api/accounts"],
+    enabled: isAuthenticated,
+  });
+
+  const { data: savedMappings = [] } = useQuery({
+    queryKey: ["/api/import-mappings"],
+    enabled: isAuthenticated,
+  });
+
+  const { data: importBatches = [] } = useQuery({
+    queryKey: ["/api/imports"],
+    enabled: isAuthenticated,
+  });
+
+  const { data: userPreferences } = useQuery({
+    queryKey: ["/api/user/preferences"],
+    enabled: isAuthenticated,
+  });
+
+  const userCurrency = getUserCurrency(userPreferences);
+  const categoryList = categories as any[];
+  const accountList = (accounts as any[]).filter((account: any) => account.isActive !== false);
+  const mappingList = savedMappings as any[];
+  const batchList = importBatches as any[];
+
+  const headerCells = sampleLines.length > 0 ? splitCsvLine(sampleLines[0], mapping.delimiter) : [];
+  const columnOptions = headerCells.map((cell, index) => ({
+    value: String(index),
+    label: mapping.hasHeader && cell ? `${index + 1}. ${cell}` : `Column ${index + 1}${cell ? ` (${cell.slice(0, 20)})` : ""}`,
+  }));
+
+  const showToast = (type: 'success' | 'error' | 'warning', title: string, description: string) => {
+    const variants = {
+      success: undefined,
+      error: "destructive" as const,
+      warning: "default" as const,
+    };
+
+    toast({
+      title,
+      description,
+      variant: variants[type],
+      duration: type === 'error' ? 5000 : 3000,
+      className: type === 'success' ? 'border-green-200 bg-green-50' :
+                 type === 'warning' ? 'border-yellow-200 bg-yellow-50' : '',
+    });
+  };
+
+  const buildMappingPayload = () => ({
+    delimiter: mapping.delimiter,
+    hasHeader: mapping.hasHeader,
+    dateColumn: parseInt(mapping.dateColumn),
+    descriptionColumn: parseInt(mapping.descriptionColumn),
+    amountColumn: mapping.amountMode === "single" ? parseInt(mapping.amountColumn) : null,
+    debitColumn: mapping.amountMode === "split" ? parseInt(mapping.debitColumn) : null,
+    creditColumn: mapping.amountMode === "split" ? parseInt(mapping.creditColumn) : null,
+    dateFormat: mapping.dateFormat,
+    decimalSeparator: mapping.decimalSeparator,
+  });
+
+  const isMappingComplete = () =>
+    mapping.dateColumn !== "" &&
+    mapping.descriptionColumn !== "" &&
+    (mapping.amountMode === "single"
+      ? mapping.amountColumn !== ""
+      : mapping.debitColumn !== "" && mapping.creditColumn !== "");
+
+  const handleFileChange = async (selectedFile: File | null) => {
+    setFile(selectedFile);
+    setPreview(null);
+    if (!selectedFile) return;
+
+    setFormat(detectFormat(selectedFile.name));
+    const text = await selectedFile.text();
+    setSampleLines(text.split(/\r?\n/).filter((line) => line.trim()).slice(0, 3));
+  };
+
+  const applySavedMapping = (id: string) => {
+    setSelectedMappingId(id);
+    const saved = mappingList.find((item: any) => String(item.id) === id);
+    if (!saved) return;
+
+    setMapping({
+      delimiter: saved.delimiter,
+      hasHeader: saved.hasHeader !== false,
+      dateColumn: String(saved.dateColumn),
+      descriptionColumn: String(saved.descriptionColumn),
+      amountMode: saved.amountColumn != null ? "single" : "split",
+      amountColumn: saved.amountColumn != null ? String(saved.amountColumn) : "",
+      debitColumn: saved.debitColumn != null ? String(saved.debitColumn) : "",
+      creditColumn: saved.creditColumn != null ? String(saved.creditColumn) : "",
+      dateFormat: saved.dateFormat,
+      decimalSeparator: saved.decimalSeparator,
+    });
+    setMappingName(saved.name);
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const formData = new FormData();
+      formData.append("file", file!);
+      formData.append("format", format);
+      if (format === "csv") {
+        formData.append("mapping", JSON.stringify(buildMappingPayload()));
+      }
+
+      // Send file to server - note: don't set Content-Type header with FormData
+      const response = await fetch("/api/imports/preview", {
+        method: "POST",
+        headers: {
+          "Authorization": `Bearer ${localStorage.getItem('auth-token')}`,
+        },
+        body: formData,
+        credentials: "include",
+      });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(result.message || "Failed to read statement");
+      return result;
+    },
+    onSuccess: (data: any) => {
+      setPreview(data);
+      // Probable duplicates start unticked so they are skipped unless the user opts in
+      setSelectedRows(Object.fromEntries(data.rows.map((row: any) => [row.rowNumber, row.duplicateOfId === null])));
+      setRowCategories(Object.fromEntries(data.rows.map((row: any) => [row.rowNumber, row.categoryId ? String(row.categoryId) : ""])));
+      if (data.rows.length === 0) {
+        showToast('warning', '⚠️ No Transactions Found', 'Check the file format and column mapping');
+      }
+    },
+    onError: (error: any) => {
+      showToast('error', '❌ Preview Failed', error?.message || 'Failed to read statement');
+    },
+  });
+
+  const saveMappingMutation = useMutation({
+    mutationFn: async () => {
+      const payload = { ...buildMappingPayload(), name: mappingName.trim() };
+      const existing = mappingList.find((item: any) => item.name.toLowerCase() === payload.name.toLowerCase());
+      const response = existing
+        ? await apiRequest("PUT", `/api/import-mappings/${existing.id}`, payload)
+        : await apiRequest("POST", "/api/import-mappings", payload);
+      return response.json();
+    },
+    onSuccess: (saved: any) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/import-mappings"] });
+      setSelectedMappingId(String(saved.id));
+      showToast('success', '💾 Mapping Saved!', `Use "${saved.name}" next time you import from this bank`);
+    },
+    onError: (error: any) => {
+      showToast('error', '❌ Save Failed', error?.message || 'Failed to save column mapping');
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      const rows = preview.rows
+        .filter((row: any) => selectedRows[row.rowNumber])
+        .map((row: any) => ({
+          date: row.date,
+          amount: row.amount,
+          type: row.type,
+          description: row.description,
+          categoryId: parseInt(rowCategories[row.rowNumber]),
+        }));
+
+      const response = await apiRequest("POST", "/api/imports", {
+        format: preview.format,
+        fileName: preview.fileName,
+        accountId: accountId ? parseInt(accountId) : null,
+        skippedCount: preview.rows.length - rows.length,
+        rows,
+      });
+      return response.json();
+    },
+    onSuccess: (batch: any) => {
+      invalidateImportQueries();
+      showToast('success', '✅ Statement Imported!', `${batch.importedCount} transactions added`);
+      setPreview(null);
+      setFile(null);
+      setSampleLines([]);
+    },
+    onError: (error: any) => {
+      showToast('error', '❌ Import Failed', error?.message || 'Failed to import statement');
+    },
+  });
+
+  const rollbackMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("POST", `/api/imports/${id}/rollback`),
+    onSuccess: () => {
+      invalidateImportQueries();
+      showToast('success', '↩️ Import Rolled Back!', 'Every transaction from this import has been removed');
+    },
+    onError: (error: any) => {
+      showToast('error', '❌ Rollback Failed', error?.message || 'Failed to roll back import');
+    },
+  });
+
+  const invalidateImportQueries = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/imports"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/analytics/dashboard"] });
+  };
+
+  const handlePreview = () => {
+    if (!file) {
+      showToast('warning', '⚠️ Validation Error', 'Choose a statement file first');
+      return;
+    }
+    if (format === "csv" && !isMappingComplete()) {
+      showToast('warning', '⚠️ Validation Error', 'Pick the date, description and amount columns');
+      return;
+    }
+    previewMutation.mutate();
+  };
+
+  const handleImport = () => {
+    const rowsToImport = preview.rows.filter((row: any) => selectedRows[row.rowNumber]);
+    if (rowsToImport.length === 0) {
+      showToast('warning', '⚠️ Nothing To Import', 'Select at least one row');
+      return;
+    }
+    if (rowsToImport.some((row: any) => !rowCategories[row.rowNumber])) {
+      showToast('warning', '⚠️ Validation Error', 'Choose a category for every selected row');
+      return;
+    }
+    importMutation.mutate();
+  };
+
+  const confirmRollback = () => {
+    if (batchToRollback) {
+      rollbackMutation.mutate(batchToRollback.id);
+      setBatchToRollback(null);
+    }
+  };
+
+  const selectedCount = preview ? preview.rows.filter((row: any) => selectedRows[row.rowNumber]).length : 0;
+
+  const renderColumnSelect = (label: string, field: "dateColumn" | "descriptionColumn" | "amountColumn" | "debitColumn" | "creditColumn") => (
+    <div>
+      <Label className="text-sm">{label}</Label>
+      <Select value={mapping[field]} onValueChange={(value) => setMapping({ ...mapping, [field]: value })}>
+        <SelectTrigger className="text-sm">
+          <SelectValue placeholder="Select column" />
+        </SelectTrigger>
+        <SelectContent>
+          {columnOptions.map((option) => (
+            <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <div className="px-3 sm:px-4 lg:px-6 space-y-5 sm:space-y-6 md:space-y-8 max-w-[100vw] overflow-x-hidden">
+      {/* Header */}
+      <div>
+        <h1 className="text-xl sm:text-2xl font-bold bg-gradient-to-r from-gray-900 to-gray-600 bg-clip-text text-transparent">Import Statement</h1>
+        <p className="text-sm sm:text-base text-gray-600">Bring in your bank history from CSV, OFX/QFX or MT940 exports</p>
+      </div>
+
+      {!preview ? (
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base flex items-center gap-2">
+              <FileUp className="h-4 w-4 text-blue-600" />
+              Upload
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              <div>
+                <Label htmlFor="statement-file" className="text-sm">Statement file</Label>
+                <Input
+                  id="statement-file"
+                  type="file"
+                  accept=".csv,.ofx,.qfx,.sta,.mt940,.940,.txt"
+                  onChange={(e) => handleFileChange(e.target.files?.[0] || null)}
+                  className="text-sm"
+                />
+              </div>
+              <div>
+                <Label className="text-sm">Format</Label>
+                <Select value={format} onValueChange={(value) => setFormat(value as StatementFormat)}>
+                  <SelectTrigger className="text-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(formatLabels) as StatementFormat[]).map((key) => (
+                      <SelectItem key={key} value={key}>{formatLabels[key]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label className="text-sm">Account</Label>
+                <Select value={accountId || "default"} onValueChange={(value) => setAccountId(value === "default" ? "" : value)}>
+                  <SelectTrigger className="text-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="default">Default account</SelectItem>
+                    {accountList.map((account: any) => (
+                      <SelectItem key={account.id} value={String(account.id)}>
+                        {account.icon} {account.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {format === "csv" && file && (
+              <div className="space-y-3 rounded-lg border border-gray-100 bg-gray-50 p-3">
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                  <div>
+                    <Label className="text-sm">Saved mapping</Label>
+                    <Select value={selectedMappingId} onValueChange={applySavedMapping}>
+                      <SelectTrigger className="text-sm">
+                        <SelectValue placeholder={mappingList.length ? "Choose a bank" : "No saved mappings"} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {mappingList.map((item: any) => (
+                          <SelectItem key={item.id} value={String(item.id)}>{item.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label className="text-sm">Delimiter</Label>
+                    <Select value={mapping.delimiter} onValueChange={(value) => setMapping({ ...mapping, delimiter: value })}>
+                      <SelectTrigger className="text-sm">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {delimiters.map((delimiter) => (
+                          <SelectItem key={delimiter.label} value={delimiter.value}>{delimiter.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="flex items-center gap-2 pt-6">
+                    <Switch
+                      id="has-header"
+                      checked={mapping.hasHeader}
+                      onCheckedChange={(checked) => setMapping({ ...mapping, hasHeader: checked })}
+                    />
+                    <Label htmlFor="has-header" className="text-sm">First row is a header</Label>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                  {renderColumnSelect("Date column", "dateColumn")}
+                  {renderColumnSelect("Description column", "descriptionColumn")}
+                  <div>
+                    <Label className="text-sm">Amounts</Label>
+                    <Select value={mapping.amountMode} onValueChange={(value) => setMapping({ ...mapping, amountMode: value as "single" | "split" })}>
+                      <SelectTrigger className="text-sm">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="single">One signed amount column</SelectItem>
+                        <SelectItem value="split">Separate debit / credit columns</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                  {mapping.amountMode === "single" ? (
+                    renderColumnSelect("Amount column", "amountColumn")
+                  ) : (
+                    <>
+                      {renderColumnSelect("Debit column", "debitColumn")}
+                      {renderColumnSelect("Credit column", "creditColumn")}
+                    </>
+                  )}
+                  <div>
+                    <Label className="text-sm">Date format</Label>
+                    <Select value={mapping.dateFormat} onValueChange={(value) => setMapping({ ...mapping, dateFormat: value })}>
+                      <SelectTrigger className="text-sm">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {dateFormats.map((dateFormat) => (
+                          <SelectItem key={dateFormat} value={dateFormat}>{dateFormat}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label className="text-sm">Decimal separator</Label>
+                    <Select value={mapping.decimalSeparator} onValueChange={(value) => setMapping({ ...mapping, decimalSeparator: value })}>
+                      <SelectTrigger className="text-sm">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value=".">Dot (1,234.56)</SelectItem>
+                        <SelectItem value=",">Comma (1.234,56)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <div className="flex flex-col sm:flex-row gap-2 sm:items-end">
+                  <div className="flex-1">
+                    <Label htmlFor="mapping-name" className="text-sm">Save this mapping as</Label>
+                    <Input
+                      id="mapping-name"
+                      placeholder="e.g. BCA, Mandiri"
+                      value={mappingName}
+                      onChange={(e) => setMappingName(e.target.value)}
+                      className="text-sm"
+                    />
+                  </div>
+                  <Button
+                    variant="outline"
+                    onClick={() => saveMappingMutation.mutate()}
+                    disabled={!mappingName.trim() || !isMappingComplete() || saveMappingMutation.isPending}
+                  >
+                    <Save className="h-4 w-4 mr-2" />
+                    Save mapping
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            <Button onClick={handlePreview} disabled={!file || previewMutation.isPending} className="w-full sm:w-auto">
+              {previewMutation.isPending ? "Reading statement..." : "Preview"}
+            </Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardHeader className="pb-3">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+              <div>
+                <CardTitle className="text-base">Review {preview.fileName}</CardTitle>
+                <p className="text-xs text-gray-500">
+                  {preview.rows.length} transactions · {preview.duplicateCount} possible duplicates
+                  {preview.errors.length > 0 ? ` · ${preview.errors.length} rows could not be read` : ""}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={() => setPreview(null)}>
+                  <ArrowLeft className="h-4 w-4 mr-2" />
+                  Back
+                </Button>
+                <Button onClick={handleImport} disabled={importMutation.isPending || selectedCount === 0}>
+                  {importMutation.isPending ? "Importing..." : `Import ${selectedCount}`}
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {preview.errors.length > 0 && (
+              <div className="mb-3 rounded-lg border border-yellow-200 bg-yellow-50 p-2 text-xs text-yellow-800">
+                {preview.errors.slice(0, 5).map((error: any) => (
+                  <p key={error.rowNumber}>Row {error.rowNumber}: {error.message}</p>
+                ))}
+                {preview.errors.length > 5 && <p>…and {preview.errors.length - 5} more</p>}
+              </div>
+            )}
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-8"></TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead>Category</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {preview.rows.map((row: any) => (
+                  <TableRow key={row.rowNumber} className={selectedRows[row.rowNumber] ? "" : "opacity-60"}>
+                    <TableCell>
+                      <Checkbox
+                        checked={!!selectedRows[row.rowNumber]}
+                        onCheckedChange={(checked) => setSelectedRows({ ...selectedRows, [row.rowNumber]: checked === true })}
+                      />
+                    </TableCell>
+                    <TableCell className="text-xs whitespace-nowrap">{formatDate(row.date)}</TableCell>
+                    <TableCell className="text-xs">
+                      <div className="flex flex-wrap items-center gap-1">
+                        <span>{row.description}</span>
+                        {row.duplicateOfId !== null && (
+                          <Badge variant="secondary" className="bg-yellow-100 text-yellow-800 text-[10px] px-1.5 py-0">
+                            Possible duplicate
+                          </Badge>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell className={`text-xs text-right font-medium whitespace-nowrap ${row.type === 'income' ? 'text-green-600' : 'text-red-600'}`}>
+                      {row.type === 'income' ? '+' : '-'}{formatCurrency(row.amount, userCurrency)}
+                    </TableCell>
+                    <TableCell className="min-w-[160px]">
+                      <div className="flex items-center gap-1">
+                        <Select
+                          value={rowCategories[row.rowNumber] || ""}
+                          onValueChange={(value) => setRowCategories({ ...rowCategories, [row.rowNumber]: value })}
+                        >
+                          <SelectTrigger className="h-8 text-xs">
+                            <SelectValue placeholder="Category" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {categoryList
+                              .filter((category: any) => category.type === row.type)
+                              .map((category: any) => (
+                                <SelectItem key={category.id} value={String(category.id)}>
+                                  {category.icon} {category.name}
+                                </SelectItem>
+                              ))}
+                          </SelectContent>
+                        </Select>
+                        {row.categorySource === 'ai' && (
+                          <Badge variant="secondary" className="bg-purple-100 text-purple-700 text-[10px] px-1.5 py-0">AI</Badge>
+                        )}
+                        {row.categorySource === 'rule' && (
+                          <Badge variant="secondary" className="bg-blue-100 text-blue-700 text-[10px] px-1.5 py-0">Rule</Badge>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Import history */}
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base">Import history</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {batchList.length === 0 ? (
+            <p className="text-sm text-gray-500">No statements imported yet</p>
+          ) : (
+            <div className="space-y-2">
+              {batchList.map((batch: any) => (
+                <div key={batch.id} className="flex items-center justify-between rounded-lg border border-gray-100 p-3">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <p className="text-sm font-medium text-gray-800 truncate">{batch.fileName || `Import #${batch.id}`}</p>
+                      <Badge variant="secondary" className="text-[10px] px-1.5 py-0">{formatLabels[batch.format as StatementFormat] || batch.format}</Badge>
+                      {batch.status === 'rolled_back' && (
+                        <Badge variant="secondary" className="bg-gray-100 text-gray-600 text-[10px] px-1.5 py-0">Rolled back</Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      {batch.createdAt ? formatDate(batch.createdAt) : ""} · {batch.importedCount} imported · {batch.skippedCount} skipped
+                    </p>
+                  </div>
+                  {batch.status !== 'rolled_back' && (
+                    <Button size="sm" variant="outline" onClick={() => setBatchToRollback(batch)}>
+                      <Undo2 className="h-4 w-4 mr-1" />
+                      Roll back
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Rollback Confirmation Dialog */}
+      <AlertDialog open={!!batchToRollback} onOpenChange={(open) => !open && setBatchToRollback(null)}>
+        <AlertDialogContent className="max-w-[90vw] sm:max-w-md">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Roll back this import?</AlertDialogTitle>
+            <AlertDialogDescription>
+              All {batchToRollback?.importedCount} transactions created by "{batchToRollback?.fileName || `Import #${batchToRollback?.id}`}" will be deleted. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmRollback} className="bg-red-600 hover:bg-red-700">
+              Roll back
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
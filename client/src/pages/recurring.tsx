@@ -0,0 +1,578 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency, getUserCurrency } from "@/lib/currencyUtils";
+import { Plus, Edit2, Trash2, CalendarClock } from "lucide-react";
+
+const frequencies = [
+  { value: "daily", label: "Daily" },
+  { value: "weekly", label: "Weekly" },
+  { value: "monthly", label: "Monthly" },
+  { value: "yearly", label: "Yearly" },
+];
+
+const getFrequencyLabel = (recurring: any) => {
+  const label = frequencies.find((frequency) => frequency.value === recurring.frequency)?.label || recurring.frequency;
+  if (recurring.dayOfMonth && (recurring.frequency === "monthly" || recurring.frequency === "yearly")) {
+    return `${label} on day ${recurring.dayOfMonth}`;
+  }
+  return label;
+};
+
+const toDateInput = (timestamp?: number | null) =>
+  timestamp ? new Date(timestamp * 1000).toISOString().split("T")[0] : "";
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp * 1000).toLocaleDateString(undefined, { day: "numeric", month: "short", year: "numeric" });
+
+const emptyForm = () => ({
+  description: "",
+  amount: "",
+  type: "expense",
+  categoryId: "",
+  accountId: "",
+  frequency: "monthly",
+  dayOfMonth: "",
+  startDate: new Date().toISOString().split("T")[0],
+  endDate: "",
+  maxOccurrences: "",
+  isActive: true,
+});
+
+export default function Recurring() {
+  const { isAuthenticated } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [recurringToDelete, setRecurringToDelete] = useState<any>(null);
+  const [editingRecurring, setEditingRecurring] = useState<any>(null);
+  const [formData, setFormData] = useState(emptyForm());
+
+  const { data: recurringTransactions = [], isLoading } = useQuery({
+    queryKey: ["/api/recurring-transactions"],
+    enabled: isAuthenticated,
+  });
+
+  const { data: categories = [] } = useQuery({
+    queryKey: ["/api/categories"],
+    enabled: isAuthenticated,
+  });
+
+  const { data: accounts = [] } = useQuery({
+    queryKey: ["/api/accounts"],
+    enabled: isAuthenticated,
+  });
+
+  const { data: userPreferences } = useQuery({
+    queryKey: ["/api/user/preferences"],
+    enabled: isAuthenticated,
+  });
+
+  const userCurrency = getUserCurrency(userPreferences);
+
+  const invalidateRecurringQueries = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/recurring-transactions"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/recurring-transactions/upcoming"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/analytics/dashboard"] });
+  };
+
+  const sendRequest = async (method: string, url: string, data?: any) => {
+    const response = await fetch(url, {
+      method,
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${localStorage.getItem('auth-token')}`
+      },
+      body: data ? JSON.stringify(data) : undefined,
+    });
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(result.message || "Request failed");
+    return result;
+  };
+
+  const createRecurringMutation = useMutation({
+    mutationFn: (data: any) => sendRequest("POST", "/api/recurring-transactions", data),
+    onSuccess: () => {
+      invalidateRecurringQueries();
+      setIsDialogOpen(false);
+      showToast('success', '✨ Recurring Transaction Created!', `"${formData.description}" will be recorded automatically`);
+      setFormData(emptyForm());
+    },
+    onError: (error: any) => {
+      showToast('error', '❌ Creation Failed', error?.message || 'Failed to create recurring transaction');
+    },
+  });
+
+  const updateRecurringMutation = useMutation({
+    mutationFn: ({ id, data }: { id: number, data: any }) => sendRequest("PUT", `/api/recurring-transactions/${id}`, data),
+    onSuccess: () => {
+      invalidateRecurringQueries();
+      setIsDialogOpen(false);
+      showToast('success', '🔄 Recurring Transaction Updated!', 'Your schedule has been saved');
+      setEditingRecurring(null);
+      setFormData(emptyForm());
+    },
+    onError: (error: any) => {
+      showToast('error', '❌ Update Failed', error?.message || 'Failed to update recurring transaction');
+    },
+  });
+
+  const deleteRecurringMutation = useMutation({
+    mutationFn: (id: number) => sendRequest("DELETE", `/api/recurring-transactions/${id}`),
+    onSuccess: () => {
+      invalidateRecurringQueries();
+      showToast('success', '🗑️ Recurring Transaction Deleted!', 'Transactions already recorded are kept');
+    },
+    onError: (error: any) => {
+      showToast('error', '❌ Deletion Failed', error?.message || 'Failed to delete recurring transaction');
+    },
+  });
+
+  const showToast = (type: 'success' | 'error' | 'warning', title: string, description: string) => {
+    const variants = {
+      success: undefined,
+      error: "destructive" as const,
+      warning: "default" as const,
+    };
+
+    toast({
+      title,
+      description,
+      variant: variants[type],
+      duration: type === 'error' ? 5000 : 3000,
+      className: type === 'success' ? 'border-green-200 bg-green-50' :
+                 type === 'warning' ? 'border-yellow-200 bg-yellow-50' : '',
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.description.trim()) {
+      showToast('warning', '⚠️ Validation Error', 'Description is required');
+      return;
+    }
+
+    const amount = parseFloat(formData.amount);
+    if (isNaN(amount) || amount <= 0) {
+      showToast('warning', '⚠️ Validation Error', 'Amount must be a positive number');
+      return;
+    }
+
+    if (!formData.categoryId) {
+      showToast('warning', '⚠️ Validation Error', 'Choose a category');
+      return;
+    }
+
+    const payload = {
+      description: formData.description.trim(),
+      amount,
+      type: formData.type,
+      categoryId: parseInt(formData.categoryId),
+      accountId: formData.accountId ? parseInt(formData.accountId) : null,
+      currency: editingRecurring?.currency || userCurrency,
+      frequency: formData.frequency,
+      dayOfMonth: formData.dayOfMonth && (formData.frequency === "monthly" || formData.frequency === "yearly")
+        ? parseInt(formData.dayOfMonth)
+        : null,
+      startDate: formData.startDate,
+      endDate: formData.endDate || null,
+      maxOccurrences: formData.maxOccurrences ? parseInt(formData.maxOccurrences) : null,
+      isActive: formData.isActive,
+    };
+
+    if (editingRecurring) {
+      updateRecurringMutation.mutate({ id: editingRecurring.id, data: payload });
+    } else {
+      createRecurringMutation.mutate(payload);
+    }
+  };
+
+  const handleEdit = (recurring: any) => {
+    setEditingRecurring(recurring);
+    setFormData({
+      description: recurring.description,
+      amount: String(recurring.amount),
+      type: recurring.type,
+      categoryId: String(recurring.categoryId),
+      accountId: recurring.accountId ? String(recurring.accountId) : "",
+      frequency: recurring.frequency,
+      dayOfMonth: recurring.dayOfMonth ? String(recurring.dayOfMonth) : "",
+      startDate: toDateInput(recurring.startDate),
+      endDate: toDateInput(recurring.endDate),
+      maxOccurrences: recurring.maxOccurrences ? String(recurring.maxOccurrences) : "",
+      isActive: recurring.isActive !== false,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleDelete = (recurring: any) => {
+    setRecurringToDelete(recurring);
+    setIsDeleteDialogOpen(true);
+  };
+
+  const confirmDelete = () => {
+    if (recurringToDelete) {
+      deleteRecurringMutation.mutate(recurringToDelete.id);
+      setIsDeleteDialogOpen(false);
+      setRecurringToDelete(null);
+    }
+  };
+
+  const recurringList = recurringTransactions as any[];
+  const categoryList = (categories as any[]).filter((category: any) => category.type === formData.type);
+  const accountList = accounts as any[];
+
+  // Rough monthly commitment so users can see what their subscriptions cost
+  const monthlyFactor: Record<string, number> = { daily: 30, weekly: 52 / 12, monthly: 1, yearly: 1 / 12 };
+  const monthlyExpenses = recurringList
+    .filter((recurring: any) => recurring.isActive && recurring.type === "expense")
+    .reduce((sum: number, recurring: any) => sum + recurring.amount * (monthlyFactor[recurring.frequency] || 1), 0);
+  const monthlyIncome = recurringList
+    .filter((recurring: any) => recurring.isActive && recurring.type === "income")
+    .reduce((sum: number, recurring: any) => sum + recurring.amount * (monthlyFactor[recurring.frequency] || 1), 0);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-16 w-16 border-4 border-green-600 border-t-transparent"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="px-3 sm:px-4 lg:px-6 space-y-5 sm:space-y-6 md:space-y-8 max-w-[100vw] overflow-x-hidden">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 sm:gap-0">
+        <div>
+          <h1 className="text-xl sm:text-2xl font-bold bg-gradient-to-r from-gray-900 to-gray-600 bg-clip-text text-transparent">Recurring</h1>
+          <p className="text-sm sm:text-base text-gray-600">Subscriptions, rent and salary recorded for you automatically</p>
+        </div>
+
+        <Button onClick={() => { setFormData(emptyForm()); setEditingRecurring(null); setIsDialogOpen(true); }} className="w-full sm:w-auto">
+          <Plus className="h-4 w-4 mr-2" />
+          Add Recurring
+        </Button>
+      </div>
+
+      {/* Monthly summary */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
+        <Card>
+          <CardContent className="flex items-center justify-between py-4">
+            <span className="text-sm font-medium text-gray-600">Recurring income / month</span>
+            <span className="text-lg font-bold text-green-600">{formatCurrency(monthlyIncome, userCurrency)}</span>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="flex items-center justify-between py-4">
+            <span className="text-sm font-medium text-gray-600">Recurring expenses / month</span>
+            <span className="text-lg font-bold text-red-600">{formatCurrency(monthlyExpenses, userCurrency)}</span>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Recurring list */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 sm:gap-4">
+        {recurringList.length === 0 ? (
+          <Card className="col-span-full">
+            <CardContent className="flex flex-col items-center justify-center py-8 sm:py-12">
+              <div className="text-3xl sm:text-4xl mb-3 sm:mb-4">🔁</div>
+              <h3 className="font-medium text-gray-900 text-center">No recurring transactions yet</h3>
+              <p className="text-gray-500 text-center text-sm sm:text-base mt-1 sm:mt-2">
+                Add subscriptions, rent or your salary and they will be recorded on schedule
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          recurringList.map((recurring: any) => (
+            <Card key={recurring.id} className={`hover:shadow-md transition-shadow ${recurring.isActive ? '' : 'opacity-60'}`}>
+              <CardHeader className="pb-2 sm:pb-3 px-3 sm:px-6 pt-2 sm:pt-3">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2 sm:space-x-3 min-w-0">
+                    <div className="w-8 h-8 sm:w-10 sm:h-10 rounded-full bg-purple-100 flex items-center justify-center shrink-0">
+                      <span className="text-lg sm:text-xl">{recurring.category?.icon || "🔁"}</span>
+                    </div>
+                    <div className="min-w-0">
+                      <CardTitle className="text-xs sm:text-sm font-medium truncate">{recurring.description}</CardTitle>
+                      <div className="flex items-center gap-1">
+                        <Badge variant="secondary" className="bg-purple-100 text-purple-700 text-xs px-1.5 py-0.5">
+                          {getFrequencyLabel(recurring)}
+                        </Badge>
+                        {!recurring.isActive && (
+                          <Badge variant="secondary" className="bg-gray-100 text-gray-600 text-xs px-1.5 py-0.5">
+                            Ended
+                          </Badge>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-0.5 sm:space-x-1">
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-7 w-7 sm:h-8 sm:w-8 p-0"
+                      onClick={() => handleEdit(recurring)}
+                    >
+                      <Edit2 className="h-3.5 w-3.5 sm:h-4 sm:w-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-7 w-7 sm:h-8 sm:w-8 p-0"
+                      onClick={() => handleDelete(recurring)}
+                    >
+                      <Trash2 className="h-3.5 w-3.5 sm:h-4 sm:w-4" />
+                    </Button>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="px-3 sm:px-6 pb-3">
+                <p className={`text-lg font-bold ${recurring.type === 'income' ? 'text-green-600' : 'text-red-600'}`}>
+                  {recurring.type === 'income' ? '+' : '-'}{formatCurrency(recurring.amount, recurring.currency || userCurrency)}
+                </p>
+                <p className="text-xs text-gray-500 flex items-center gap-1">
+                  <CalendarClock className="h-3 w-3" />
+                  {recurring.isActive ? `Next: ${formatDate(recurring.nextRunDate)}` : 'No further occurrences'}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {recurring.occurrenceCount} recorded
+                  {recurring.maxOccurrences ? ` of ${recurring.maxOccurrences}` : ''}
+                  {recurring.endDate ? ` · ends ${formatDate(recurring.endDate)}` : ''}
+                </p>
+              </CardContent>
+            </Card>
+          ))
+        )}
+      </div>
+
+      {/* Create / Edit Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-md max-w-[90vw] p-4 sm:p-6 max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="text-base sm:text-lg">
+              {editingRecurring ? "Edit Recurring Transaction" : "Create Recurring Transaction"}
+            </DialogTitle>
+            <DialogDescription className="text-xs sm:text-sm">
+              A transaction is recorded automatically on every scheduled date
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit} className="space-y-3 sm:space-y-4">
+            <div>
+              <Label htmlFor="description" className="text-sm">Description</Label>
+              <Input
+                id="description"
+                placeholder="e.g. Netflix, Kos, Gaji"
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                className="text-sm"
+                required
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <Label htmlFor="amount" className="text-sm">Amount</Label>
+                <Input
+                  id="amount"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={formData.amount}
+                  onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                  className="text-sm"
+                  required
+                />
+              </div>
+              <div>
+                <Label className="text-sm">Type</Label>
+                <Select
+                  value={formData.type}
+                  onValueChange={(value) => setFormData({ ...formData, type: value, categoryId: "" })}
+                >
+                  <SelectTrigger className="text-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="expense">Expense</SelectItem>
+                    <SelectItem value="income">Income</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div>
+              <Label className="text-sm">Category</Label>
+              <Select
+                value={formData.categoryId}
+                onValueChange={(value) => setFormData({ ...formData, categoryId: value })}
+              >
+                <SelectTrigger className="text-sm">
+                  <SelectValue placeholder="Choose category" />
+                </SelectTrigger>
+                <SelectContent>
+                  {categoryList.map((category: any) => (
+                    <SelectItem key={category.id} value={category.id.toString()}>
+                      {category.icon} {category.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {accountList.length > 0 && (
+              <div>
+                <Label className="text-sm">Account</Label>
+                <Select
+                  value={formData.accountId}
+                  onValueChange={(value) => setFormData({ ...formData, accountId: value })}
+                >
+                  <SelectTrigger className="text-sm">
+                    <SelectValue placeholder="Default account" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {accountList.map((account: any) => (
+                      <SelectItem key={account.id} value={account.id.toString()}>
+                        {account.icon || "💳"} {account.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <Label className="text-sm">Frequency</Label>
+                <Select
+                  value={formData.frequency}
+                  onValueChange={(value) => setFormData({ ...formData, frequency: value })}
+                >
+                  <SelectTrigger className="text-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {frequencies.map((frequency) => (
+                      <SelectItem key={frequency.value} value={frequency.value}>
+                        {frequency.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {(formData.frequency === "monthly" || formData.frequency === "yearly") && (
+                <div>
+                  <Label htmlFor="dayOfMonth" className="text-sm">Day of month</Label>
+                  <Input
+                    id="dayOfMonth"
+                    type="number"
+                    min="1"
+                    max="31"
+                    placeholder="Same as start"
+                    value={formData.dayOfMonth}
+                    onChange={(e) => setFormData({ ...formData, dayOfMonth: e.target.value })}
+                    className="text-sm"
+                  />
+                </div>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <Label htmlFor="startDate" className="text-sm">Start date</Label>
+                <Input
+                  id="startDate"
+                  type="date"
+                  value={formData.startDate}
+                  onChange={(e) => setFormData({ ...formData, startDate: e.target.value })}
+                  className="text-sm"
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="endDate" className="text-sm">End date</Label>
+                <Input
+                  id="endDate"
+                  type="date"
+                  value={formData.endDate}
+                  onChange={(e) => setFormData({ ...formData, endDate: e.target.value })}
+                  className="text-sm"
+                />
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="maxOccurrences" className="text-sm">Number of occurrences</Label>
+              <Input
+                id="maxOccurrences"
+                type="number"
+                min="1"
+                placeholder="Unlimited"
+                value={formData.maxOccurrences}
+                onChange={(e) => setFormData({ ...formData, maxOccurrences: e.target.value })}
+                className="text-sm"
+              />
+              <p className="text-xs text-gray-500 mt-1">Leave empty to repeat until the end date or forever</p>
+            </div>
+
+            {editingRecurring && (
+              <div className="flex items-center justify-between">
+                <Label htmlFor="isActive" className="text-sm">Active</Label>
+                <Switch
+                  id="isActive"
+                  checked={formData.isActive}
+                  onCheckedChange={(checked) => setFormData({ ...formData, isActive: checked })}
+                />
+              </div>
+            )}
+
+            <div className="flex flex-col sm:flex-row sm:justify-end gap-2 sm:gap-3 pt-3 sm:pt-4">
+              <Button type="button" variant="outline" className="w-full sm:w-auto order-2 sm:order-1" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                className="w-full sm:w-auto order-1 sm:order-2"
+                disabled={createRecurringMutation.isPending || updateRecurringMutation.isPending}
+              >
+                {editingRecurring ? "Save" : "Create"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
+        <AlertDialogContent className="max-w-[90vw] sm:max-w-md">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Recurring Transaction</AlertDialogTitle>
+            <AlertDialogDescription>
+              Stop "{recurringToDelete?.description}"? Transactions that were already recorded are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmDelete} className="bg-red-600 hover:bg-red-700">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { formatCurrency, getUserCurrency } from "@/lib/currencyUtils";
+import { fetchAllTransactions, getCategoryAllocations } from "@/lib/transactionsApi";
 import { DateRangePicker } from "@/components/ui/date-picker";
 import { format } from "date-fns";
 import { DateRange } from "react-day-picker";
@@ -74,9 +75,17 @@ export default function Reports() {
   // Keep analytics data for potential future use
   const _ = analyticsData;
 
-  // Fetch transactions for detailed analysis
+  // Fetch transactions for detailed analysis: the last 6 months for the trends,
+  // extended back to the start of the selected range when it goes further
+  const transactionsSince = useMemo(() => {
+    const now = new Date();
+    const sixMonthsAgo = new Date(now.getFullYear(), now.getMonth() - 5, 1);
+    return dateRange?.from && dateRange.from < sixMonthsAgo ? dateRange.from : sixMonthsAgo;
+  }, [dateRange?.from]);
+
   const { data: transactions } = useQuery({
-    queryKey: ["/api/transactions"],
+    queryKey: ["/api/transactions", "reports", transactionsSince.getTime()],
+    queryFn: () => fetchAllTransactions({ startDate: transactionsSince }),
     retry: false,
     enabled: isAuthenticated,
   });
@@ -138,12 +147,12 @@ export default function Reports() {
     
     const savingsRate = totalIncome > 0 ? ((totalIncome - totalExpenses) / totalIncome) * 100 : 0;
 
-    // Category breakdown
+    // Category breakdown - split transactions contribute each part to its own category
     const categoryMap = new Map();
-    expenseTransactions.forEach((transaction: any) => {
-      const categoryName = transaction.category?.name || 'Uncategorized';
-      const categoryColor = transaction.category?.color || '#6B7280';
-      const amount = transaction.amount || 0;
+    expenseTransactions.flatMap((transaction: any) => getCategoryAllocations(transaction)).forEach(allocation => {
+      const categoryName = allocation.category?.name || 'Uncategorized';
+      const categoryColor = allocation.category?.color || '#6B7280';
+      const amount = allocation.amount || 0;
       
       if (categoryMap.has(categoryName)) {
         categoryMap.set(categoryName, {
@@ -255,13 +264,17 @@ export default function Reports() {
         const transactionDate = parseTransactionDate(transaction.date);
         const isCurrentMonth = transactionDate.getMonth() === currentMonth &&
                               transactionDate.getFullYear() === currentYear;
-        const isSameCategory = transaction.categoryId === budget.categoryId;
+        const isSameCategory = getCategoryAllocations(transaction).some(allocation => allocation.categoryId === budget.categoryId);
         const isExpense = transaction.type === 'expense';
         
         return isSameCategory && isExpense && isCurrentMonth;
       });
 
-      const spent = budgetTransactions.reduce((sum: number, t: any) => sum + (t.amount || 0), 0);
+      // Split transactions only count their part in the budget's category
+      const spent = budgetTransactions
+        .flatMap((transaction: any) => getCategoryAllocations(transaction))
+        .filter(allocation => allocation.categoryId === budget.categoryId)
+        .reduce((sum: number, allocation) => sum + (allocation.amount || 0), 0);
       const percentage = budget.amount > 0 ? (spent / budget.amount) * 100 : 0;
       
       // Determine status based on spending percentage
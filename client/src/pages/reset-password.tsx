@@ -0,0 +1,297 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ArrowRight, Mail, Lock, MessageCircle, KeyRound, CheckCircle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+type Step = "request" | "sent" | "code" | "token" | "done";
+type Channel = "email" | "whatsapp";
+
+// Forgotten password: ask for a link by email or a code by WhatsApp, then choose a new password.
+// The emailed link opens this page with ?token=.
+export default function ResetPassword() {
+  const { toast } = useToast();
+  const token = new URLSearchParams(window.location.search).get("token");
+
+  const [step, setStep] = useState<Step>(token ? "token" : "request");
+  const [channel, setChannel] = useState<Channel>("email");
+  const [isLoading, setIsLoading] = useState(false);
+  const [formData, setFormData] = useState({
+    email: "",
+    code: "",
+    newPassword: "",
+    confirmPassword: ""
+  });
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFormData({
+      ...formData,
+      [e.target.name]: e.target.value
+    });
+  };
+
+  const post = async (url: string, payload: unknown) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(payload),
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.message || 'Request failed');
+    }
+    return data;
+  };
+
+  const handleRequest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+
+    try {
+      await post('/api/auth/password-reset/request', { email: formData.email, channel });
+      setStep(channel === "whatsapp" ? "code" : "sent");
+    } catch (error: unknown) {
+      toast({
+        title: "Request Failed",
+        description: error instanceof Error ? error.message : 'Failed to request a password reset',
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleReset = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (formData.newPassword.length < 6) {
+      toast({
+        title: "Validation Error",
+        description: "Password must be at least 6 characters long.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (formData.newPassword !== formData.confirmPassword) {
+      toast({
+        title: "Validation Error",
+        description: "Passwords do not match.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const payload = step === "token"
+        ? { token, newPassword: formData.newPassword }
+        : { email: formData.email, code: formData.code, newPassword: formData.newPassword };
+      await post('/api/auth/password-reset/confirm', payload);
+      setStep("done");
+    } catch (error: unknown) {
+      toast({
+        title: "Reset Failed",
+        description: error instanceof Error ? error.message : 'Failed to reset password',
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const submitLabel = (label: string) => isLoading ? (
+    <div className="flex items-center">
+      <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin mr-2"></div>
+      Processing...
+    </div>
+  ) : (
+    <>
+      {label}
+      <ArrowRight className="ml-2 h-4 w-4" />
+    </>
+  );
+
+  const submitClassName = "w-full bg-gradient-to-r from-emerald-600 to-blue-600 hover:from-emerald-700 hover:to-blue-700 text-white shadow-lg hover:shadow-xl transition-all duration-300";
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-emerald-50 via-blue-50 to-purple-50 flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        {/* Header */}
+        <div className="text-center mb-8">
+          <div className="flex items-center justify-center space-x-2 mb-4">
+            <div className="w-12 h-12 bg-gradient-to-r from-emerald-600 to-blue-600 rounded-xl flex items-center justify-center shadow-lg">
+              <span className="text-white font-bold text-xl">M</span>
+            </div>
+            <span className="text-2xl font-bold bg-gradient-to-r from-emerald-600 to-blue-600 bg-clip-text text-transparent">
+              Monly AI
+            </span>
+          </div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Reset Password</h1>
+        </div>
+
+        <Card className="shadow-2xl border-0 bg-white/80 backdrop-blur-sm">
+          {step === "request" && (
+            <>
+              <CardHeader className="space-y-1 text-center">
+                <CardTitle className="text-2xl">Forgot your password?</CardTitle>
+                <CardDescription>
+                  We'll send you a reset link by email, or a code to your linked WhatsApp number
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <form onSubmit={handleRequest} className="space-y-4">
+                  <Tabs value={channel} onValueChange={(value) => setChannel(value as Channel)}>
+                    <TabsList className="grid w-full grid-cols-2">
+                      <TabsTrigger value="email" className="flex items-center gap-1">
+                        <Mail className="h-4 w-4" />
+                        Email
+                      </TabsTrigger>
+                      <TabsTrigger value="whatsapp" className="flex items-center gap-1">
+                        <MessageCircle className="h-4 w-4" />
+                        WhatsApp
+                      </TabsTrigger>
+                    </TabsList>
+                  </Tabs>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="email">Account Email</Label>
+                    <div className="relative">
+                      <Mail className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                      <Input
+                        id="email"
+                        name="email"
+                        type="email"
+                        placeholder="Enter your email"
+                        value={formData.email}
+                        onChange={handleInputChange}
+                        className="pl-10"
+                        required
+                      />
+                    </div>
+                  </div>
+
+                  <Button type="submit" disabled={isLoading} className={submitClassName}>
+                    {submitLabel(channel === "whatsapp" ? "Send Code" : "Send Reset Link")}
+                  </Button>
+                </form>
+              </CardContent>
+            </>
+          )}
+
+          {step === "sent" && (
+            <CardHeader className="space-y-2 text-center">
+              <Mail className="h-10 w-10 text-emerald-600 mx-auto" />
+              <CardTitle className="text-2xl">Check your email</CardTitle>
+              <CardDescription>
+                If {formData.email} is registered, a reset link is on its way. It's valid for 1 hour.
+              </CardDescription>
+            </CardHeader>
+          )}
+
+          {(step === "code" || step === "token") && (
+            <>
+              <CardHeader className="space-y-1 text-center">
+                <CardTitle className="text-2xl">Choose a new password</CardTitle>
+                <CardDescription>
+                  {step === "code"
+                    ? "Enter the 6-digit code we sent to your WhatsApp. It's valid for 15 minutes."
+                    : "You'll be signed out on every device once it's changed."}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <form onSubmit={handleReset} className="space-y-4">
+                  {step === "code" && (
+                    <div className="space-y-2">
+                      <Label htmlFor="code">Code</Label>
+                      <div className="relative">
+                        <KeyRound className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                        <Input
+                          id="code"
+                          name="code"
+                          inputMode="numeric"
+                          autoComplete="one-time-code"
+                          placeholder="123456"
+                          value={formData.code}
+                          onChange={handleInputChange}
+                          className="pl-10"
+                          required
+                        />
+                      </div>
+                    </div>
+                  )}
+
+                  <div className="space-y-2">
+                    <Label htmlFor="newPassword">New Password</Label>
+                    <div className="relative">
+                      <Lock className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                      <Input
+                        id="newPassword"
+                        name="newPassword"
+                        type="password"
+                        autoComplete="new-password"
+                        placeholder="Enter a new password"
+                        value={formData.newPassword}
+                        onChange={handleInputChange}
+                        className="pl-10"
+                        required
+                      />
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="confirmPassword">Confirm Password</Label>
+                    <div className="relative">
+                      <Lock className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                      <Input
+                        id="confirmPassword"
+                        name="confirmPassword"
+                        type="password"
+                        autoComplete="new-password"
+                        placeholder="Confirm the new password"
+                        value={formData.confirmPassword}
+                        onChange={handleInputChange}
+                        className="pl-10"
+                        required
+                      />
+                    </div>
+                  </div>
+
+                  <Button type="submit" disabled={isLoading} className={submitClassName}>
+                    {submitLabel("Reset Password")}
+                  </Button>
+                </form>
+              </CardContent>
+            </>
+          )}
+
+          {step === "done" && (
+            <CardHeader className="space-y-2 text-center">
+              <CheckCircle className="h-10 w-10 text-emerald-600 mx-auto" />
+              <CardTitle className="text-2xl">Password reset</CardTitle>
+              <CardDescription>
+                You've been signed out everywhere. Log in with your new password.
+              </CardDescription>
+            </CardHeader>
+          )}
+        </Card>
+
+        <div className="text-center mt-6">
+          <Button
+            variant="ghost"
+            onClick={() => window.location.href = "/auth"}
+            className="text-gray-600 hover:text-gray-900"
+          >
+            ← Back to Login
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,508 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency, getUserCurrency } from "@/lib/currencyUtils";
+import { Plus, Edit2, Trash2, Sparkles } from "lucide-react";
+
+const matchTypes = [
+  { value: "contains", label: "Contains" },
+  { value: "starts_with", label: "Starts with" },
+  { value: "exact", label: "Is exactly" },
+];
+
+const getMatchTypeLabel = (matchType: string) =>
+  matchTypes.find((type) => type.value === matchType)?.label || matchType;
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp * 1000).toLocaleDateString(undefined, { day: "numeric", month: "short", year: "numeric" });
+
+const emptyForm = () => ({
+  pattern: "",
+  matchType: "contains",
+  transactionType: "expense",
+  categoryId: "",
+  minAmount: "",
+  maxAmount: "",
+  priority: "0",
+  isActive: true,
+});
+
+export default function Rules() {
+  const { isAuthenticated } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [ruleToDelete, setRuleToDelete] = useState<any>(null);
+  const [editingRule, setEditingRule] = useState<any>(null);
+  const [formData, setFormData] = useState(emptyForm());
+
+  const { data: rules = [], isLoading } = useQuery({
+    queryKey: ["/api/categorization-rules"],
+    enabled: isAuthenticated,
+  });
+
+  const { data: categories = [] } = useQuery({
+    queryKey: ["/api/categories"],
+    enabled: isAuthenticated,
+  });
+
+  const { data: userPreferences } = useQuery({
+    queryKey: ["/api/user/preferences"],
+    enabled: isAuthenticated,
+  });
+
+  const userCurrency = getUserCurrency(userPreferences);
+
+  const sendRequest = async (method: string, url: string, data?: any) => {
+    const response = await fetch(url, {
+      method,
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${localStorage.getItem('auth-token')}`
+      },
+      body: data ? JSON.stringify(data) : undefined,
+    });
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(result.message || "Request failed");
+    return result;
+  };
+
+  const createRuleMutation = useMutation({
+    mutationFn: (data: any) => sendRequest("POST", "/api/categorization-rules", data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/categorization-rules"] });
+      setIsDialogOpen(false);
+      showToast('success', '✨ Rule Created!', `Transactions matching "${formData.pattern}" will be categorized automatically`);
+      setFormData(emptyForm());
+    },
+    onError: (error: any) => {
+      showToast('error', '❌ Creation Failed', error?.message || 'Failed to create rule');
+    },
+  });
+
+  const updateRuleMutation = useMutation({
+    mutationFn: ({ id, data }: { id: number, data: any }) => sendRequest("PUT", `/api/categorization-rules/${id}`, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/categorization-rules"] });
+      setIsDialogOpen(false);
+      showToast('success', '🔄 Rule Updated!', 'Your rule has been saved');
+      setEditingRule(null);
+      setFormData(emptyForm());
+    },
+    onError: (error: any) => {
+      showToast('error', '❌ Update Failed', error?.message || 'Failed to update rule');
+    },
+  });
+
+  const deleteRuleMutation = useMutation({
+    mutationFn: (id: number) => sendRequest("DELETE", `/api/categorization-rules/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/categorization-rules"] });
+      showToast('success', '🗑️ Rule Deleted!', 'Existing transactions keep their category');
+    },
+    onError: (error: any) => {
+      showToast('error', '❌ Deletion Failed', error?.message || 'Failed to delete rule');
+    },
+  });
+
+  const showToast = (type: 'success' | 'error' | 'warning', title: string, description: string) => {
+    const variants = {
+      success: undefined,
+      error: "destructive" as const,
+      warning: "default" as const,
+    };
+
+    toast({
+      title,
+      description,
+      variant: variants[type],
+      duration: type === 'error' ? 5000 : 3000,
+      className: type === 'success' ? 'border-green-200 bg-green-50' :
+                 type === 'warning' ? 'border-yellow-200 bg-yellow-50' : '',
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (formData.pattern.trim().length < 2) {
+      showToast('warning', '⚠️ Validation Error', 'The pattern needs at least two characters');
+      return;
+    }
+
+    if (!formData.categoryId) {
+      showToast('warning', '⚠️ Validation Error', 'Choose a category');
+      return;
+    }
+
+    const minAmount = formData.minAmount ? parseFloat(formData.minAmount) : null;
+    const maxAmount = formData.maxAmount ? parseFloat(formData.maxAmount) : null;
+    if (minAmount != null && maxAmount != null && minAmount > maxAmount) {
+      showToast('warning', '⚠️ Validation Error', 'Minimum amount must not be greater than maximum amount');
+      return;
+    }
+
+    const payload = {
+      pattern: formData.pattern.trim(),
+      matchType: formData.matchType,
+      transactionType: formData.transactionType,
+      categoryId: parseInt(formData.categoryId),
+      minAmount,
+      maxAmount,
+      priority: parseInt(formData.priority) || 0,
+      isActive: formData.isActive,
+    };
+
+    if (editingRule) {
+      updateRuleMutation.mutate({ id: editingRule.id, data: payload });
+    } else {
+      createRuleMutation.mutate(payload);
+    }
+  };
+
+  const handleEdit = (rule: any) => {
+    setEditingRule(rule);
+    setFormData({
+      pattern: rule.pattern,
+      matchType: rule.matchType,
+      transactionType: rule.transactionType || rule.category?.type || "expense",
+      categoryId: String(rule.categoryId),
+      minAmount: rule.minAmount != null ? String(rule.minAmount) : "",
+      maxAmount: rule.maxAmount != null ? String(rule.maxAmount) : "",
+      priority: String(rule.priority ?? 0),
+      isActive: rule.isActive !== false,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleDelete = (rule: any) => {
+    setRuleToDelete(rule);
+    setIsDeleteDialogOpen(true);
+  };
+
+  const confirmDelete = () => {
+    if (ruleToDelete) {
+      deleteRuleMutation.mutate(ruleToDelete.id);
+      setIsDeleteDialogOpen(false);
+      setRuleToDelete(null);
+    }
+  };
+
+  const ruleList = rules as any[];
+  const userRules = ruleList.filter((rule: any) => rule.source === "user");
+  const learnedRules = ruleList.filter((rule: any) => rule.source === "learned");
+  const categoryList = (categories as any[]).filter((category: any) => category.type === formData.transactionType);
+
+  const describeAmountRange = (rule: any) => {
+    if (rule.minAmount != null && rule.maxAmount != null) {
+      return `${formatCurrency(rule.minAmount, userCurrency)} – ${formatCurrency(rule.maxAmount, userCurrency)}`;
+    }
+    if (rule.minAmount != null) return `From ${formatCurrency(rule.minAmount, userCurrency)}`;
+    if (rule.maxAmount != null) return `Up to ${formatCurrency(rule.maxAmount, userCurrency)}`;
+    return null;
+  };
+
+  const renderRule = (rule: any) => (
+    <Card key={rule.id} className={`hover:shadow-md transition-shadow ${rule.isActive !== false ? '' : 'opacity-60'}`}>
+      <CardHeader className="pb-2 sm:pb-3 px-3 sm:px-6 pt-2 sm:pt-3">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2 sm:space-x-3 min-w-0">
+            <div className="w-8 h-8 sm:w-10 sm:h-10 rounded-full bg-blue-100 flex items-center justify-center shrink-0">
+              <span className="text-lg sm:text-xl">{rule.category?.icon || "📏"}</span>
+            </div>
+            <div className="min-w-0">
+              <CardTitle className="text-xs sm:text-sm font-medium truncate">"{rule.pattern}"</CardTitle>
+              <div className="flex items-center gap-1">
+                <Badge variant="secondary" className="bg-blue-100 text-blue-700 text-xs px-1.5 py-0.5">
+                  {getMatchTypeLabel(rule.matchType)}
+                </Badge>
+                {rule.isActive === false && (
+                  <Badge variant="secondary" className="bg-gray-100 text-gray-600 text-xs px-1.5 py-0.5">
+                    Off
+                  </Badge>
+                )}
+              </div>
+            </div>
+          </div>
+          <div className="flex items-center space-x-0.5 sm:space-x-1">
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-7 w-7 sm:h-8 sm:w-8 p-0"
+              onClick={() => handleEdit(rule)}
+            >
+              <Edit2 className="h-3.5 w-3.5 sm:h-4 sm:w-4" />
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-7 w-7 sm:h-8 sm:w-8 p-0"
+              onClick={() => handleDelete(rule)}
+            >
+              <Trash2 className="h-3.5 w-3.5 sm:h-4 sm:w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="px-3 sm:px-6 pb-3">
+        <p className="text-sm font-medium text-gray-900">
+          → {rule.category?.name || 'Deleted category'}
+        </p>
+        {describeAmountRange(rule) && (
+          <p className="text-xs text-gray-500">{describeAmountRange(rule)}</p>
+        )}
+        <p className="text-xs text-gray-500">
+          Used {rule.hitCount} {rule.hitCount === 1 ? 'time' : 'times'}
+          {rule.lastMatchedAt ? ` · last ${formatDate(rule.lastMatchedAt)}` : ''}
+        </p>
+      </CardContent>
+    </Card>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-16 w-16 border-4 border-green-600 border-t-transparent"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="px-3 sm:px-4 lg:px-6 space-y-5 sm:space-y-6 md:space-y-8 max-w-[100vw] overflow-x-hidden">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 sm:gap-0">
+        <div>
+          <h1 className="text-xl sm:text-2xl font-bold bg-gradient-to-r from-gray-900 to-gray-600 bg-clip-text text-transparent">Rules</h1>
+          <p className="text-sm sm:text-base text-gray-600">Categorize familiar merchants instantly, before the AI is asked</p>
+        </div>
+
+        <Button onClick={() => { setFormData(emptyForm()); setEditingRule(null); setIsDialogOpen(true); }} className="w-full sm:w-auto">
+          <Plus className="h-4 w-4 mr-2" />
+          Add Rule
+        </Button>
+      </div>
+
+      {/* User rules */}
+      <div className="space-y-3">
+        <h2 className="text-base font-semibold text-gray-900">Your rules</h2>
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 sm:gap-4">
+          {userRules.length === 0 ? (
+            <Card className="col-span-full">
+              <CardContent className="flex flex-col items-center justify-center py-8 sm:py-12">
+                <div className="text-3xl sm:text-4xl mb-3 sm:mb-4">📏</div>
+                <h3 className="font-medium text-gray-900 text-center">No rules yet</h3>
+                <p className="text-gray-500 text-center text-sm sm:text-base mt-1 sm:mt-2">
+                  Add a rule like "starbucks" → Food & Dining and it is applied to every new transaction
+                </p>
+              </CardContent>
+            </Card>
+          ) : (
+            userRules.map(renderRule)
+          )}
+        </div>
+      </div>
+
+      {/* Learned rules */}
+      <div className="space-y-3">
+        <h2 className="text-base font-semibold text-gray-900 flex items-center gap-2">
+          <Sparkles className="h-4 w-4 text-purple-600" />
+          Learned from your corrections
+        </h2>
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 sm:gap-4">
+          {learnedRules.length === 0 ? (
+            <Card className="col-span-full">
+              <CardContent className="py-6">
+                <p className="text-gray-500 text-center text-sm">
+                  When you change the category of a transaction, a rule is learned here automatically
+                </p>
+              </CardContent>
+            </Card>
+          ) : (
+            learnedRules.map(renderRule)
+          )}
+        </div>
+      </div>
+
+      {/* Create / Edit Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-md max-w-[90vw] p-4 sm:p-6 max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="text-base sm:text-lg">
+              {editingRule ? "Edit Rule" : "Create Rule"}
+            </DialogTitle>
+            <DialogDescription className="text-xs sm:text-sm">
+              {editingRule?.source === "learned"
+                ? "Saving a learned rule makes it your own - corrections will no longer change it"
+                : "Matching transactions get this category without asking the AI"}
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit} className="space-y-3 sm:space-y-4">
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <Label className="text-sm">Description</Label>
+                <Select
+                  value={formData.matchType}
+                  onValueChange={(value) => setFormData({ ...formData, matchType: value })}
+                >
+                  <SelectTrigger className="text-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {matchTypes.map((type) => (
+                      <SelectItem key={type.value} value={type.value}>
+                        {type.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="pattern" className="text-sm">Text</Label>
+                <Input
+                  id="pattern"
+                  placeholder="e.g. starbucks, grab"
+                  value={formData.pattern}
+                  onChange={(e) => setFormData({ ...formData, pattern: e.target.value })}
+                  className="text-sm"
+                  required
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <Label className="text-sm">Type</Label>
+                <Select
+                  value={formData.transactionType}
+                  onValueChange={(value) => setFormData({ ...formData, transactionType: value, categoryId: "" })}
+                >
+                  <SelectTrigger className="text-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="expense">Expense</SelectItem>
+                    <SelectItem value="income">Income</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label className="text-sm">Category</Label>
+                <Select
+                  value={formData.categoryId}
+                  onValueChange={(value) => setFormData({ ...formData, categoryId: value })}
+                >
+                  <SelectTrigger className="text-sm">
+                    <SelectValue placeholder="Choose category" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {categoryList.map((category: any) => (
+                      <SelectItem key={category.id} value={category.id.toString()}>
+                        {category.icon} {category.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <Label htmlFor="minAmount" className="text-sm">Minimum amount</Label>
+                <Input
+                  id="minAmount"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  placeholder="Any"
+                  value={formData.minAmount}
+                  onChange={(e) => setFormData({ ...formData, minAmount: e.target.value })}
+                  className="text-sm"
+                />
+              </div>
+              <div>
+                <Label htmlFor="maxAmount" className="text-sm">Maximum amount</Label>
+                <Input
+                  id="maxAmount"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  placeholder="Any"
+                  value={formData.maxAmount}
+                  onChange={(e) => setFormData({ ...formData, maxAmount: e.target.value })}
+                  className="text-sm"
+                />
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="priority" className="text-sm">Priority</Label>
+              <Input
+                id="priority"
+                type="number"
+                value={formData.priority}
+                onChange={(e) => setFormData({ ...formData, priority: e.target.value })}
+                className="text-sm"
+              />
+              <p className="text-xs text-gray-500 mt-1">When several rules match, the highest priority wins</p>
+            </div>
+
+            {editingRule && (
+              <div className="flex items-center justify-between">
+                <Label htmlFor="isActive" className="text-sm">Active</Label>
+                <Switch
+                  id="isActive"
+                  checked={formData.isActive}
+                  onCheckedChange={(checked) => setFormData({ ...formData, isActive: checked })}
+                />
+              </div>
+            )}
+
+            <div className="flex flex-col sm:flex-row sm:justify-end gap-2 sm:gap-3 pt-3 sm:pt-4">
+              <Button type="button" variant="outline" className="w-full sm:w-auto order-2 sm:order-1" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                className="w-full sm:w-auto order-1 sm:order-2"
+                disabled={createRuleMutation.isPending || updateRuleMutation.isPending}
+              >
+                {editingRule ? "Save" : "Create"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
+        <AlertDialogContent className="max-w-[90vw] sm:max-w-md">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Rule</AlertDialogTitle>
+            <AlertDialogDescription>
+              Delete the rule for "{ruleToDelete?.pattern}"? Transactions it already categorized keep their category.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmDelete} className="bg-red-600 hover:bg-red-700">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -2,8 +2,10 @@ import { useEffect, useState, useRef } from "react";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
 import { getWhatsAppStatus, generateWhatsAppQR, checkWhatsAppQR, disconnectWhatsApp } from "@/lib/whatsappService";
+import { clearAuthData, type TwoFactorMethod } from "@/lib/authUtils";
+import { formatDistanceToNow } from "date-fns";
 
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -16,6 +18,9 @@ import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import TwoFactorSetupModal, { RecoveryCodesList } from "@/components/modals/two-factor-setup-modal";
+import TwoFactorCodeModal from "@/components/modals/two-factor-code-modal";
 
 // Import all required icons in one statement
 import { 
@@ -41,6 +46,8 @@ import {
   MessageCircle,
   QrCode,
   RefreshCw,
+  Monitor,
+  KeyRound,
   X
 } from "lucide-react";
 
@@ -56,6 +63,49 @@ interface UserPreferences {
   updatedAt: number;
 }
 
+// How long a deleted account is kept, and can be restored, when the user asks for a grace period
+const ACCOUNT_DELETION_GRACE_DAYS = 14;
+
+interface SignedInSession {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: number | null;
+  lastUsedAt: number;
+  current: boolean;
+}
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  method: TwoFactorMethod | null;
+  recoveryCodesRemaining: number;
+  whatsappLinked: boolean;
+}
+
+// Changes to two-factor that take a fresh code
+type TwoFactorAction = 'disable' | 'recovery-codes';
+
+// "Chrome on Windows" from a user agent string, good enough to tell devices apart
+function describeUserAgent(userAgent: string | null): string {
+  if (!userAgent) return "Unknown device";
+
+  const browser = /Edg\//.test(userAgent) ? "Edge"
+    : /OPR\//.test(userAgent) ? "Opera"
+    : /Firefox\//.test(userAgent) ? "Firefox"
+    : /Chrome\//.test(userAgent) ? "Chrome"
+    : /Safari\//.test(userAgent) ? "Safari"
+    : null;
+  const os = /Android/.test(userAgent) ? "Android"
+    : /iPhone|iPad/.test(userAgent) ? "iOS"
+    : /Windows/.test(userAgent) ? "Windows"
+    : /Mac OS X/.test(userAgent) ? "macOS"
+    : /Linux/.test(userAgent) ? "Linux"
+    : null;
+
+  if (browser && os) return `${browser} on ${os}`;
+  return browser || os || userAgent.slice(0, 60);
+}
+
 interface UserProfile {
   firstName: string;
   lastName: string;
@@ -89,6 +139,18 @@ export default function Settings() {
   const [isProfileSaving, setIsProfileSaving] = useState(false);
   const [isFinancialSaving, setIsFinancialSaving] = useState(false);
   const [isPhotoUploading, setIsPhotoUploading] = useState(false);
+  const [passwordData, setPasswordData] = useState({
+    currentPassword: "",
+    newPassword: "",
+    confirmPassword: ""
+  });
+  const [isPasswordSaving, setIsPasswordSaving] = useState(false);
+  const [isTwoFactorSetupOpen, setIsTwoFactorSetupOpen] = useState(false);
+  const [twoFactorAction, setTwoFactorAction] = useState<TwoFactorAction | null>(null);
+  const [newRecoveryCodes, setNewRecoveryCodes] = useState<string[] | null>(null);
+  const [deletePassword, setDeletePassword] = useState("");
+  const [deleteWithGracePeriod, setDeleteWithGracePeriod] = useState(true);
+  const [isDeletingAccount, setIsDeletingAccount] = useState(false);
   const [photoError, setPhotoError] = useState<string | null>(null);
   
   // WhatsApp connection states
@@ -141,6 +203,82 @@ export default function Settings() {
     retryDelay: 1000,
   });
 
+  // Devices signed in to the account
+  const { data: signedInSessions = [], isLoading: sessionsLoading } = useQuery<SignedInSession[]>({
+    queryKey: ['/api/auth/sessions'],
+    enabled: isAuthenticated,
+  });
+
+  const { data: twoFactorStatus } = useQuery<TwoFactorStatus>({
+    queryKey: ['/api/auth/2fa'],
+    enabled: isAuthenticated,
+  });
+
+  const twoFactorActionMutation = useMutation({
+    mutationFn: async ({ action, code }: { action: TwoFactorAction; code: string }) => {
+      const response = await apiRequest('POST', `/api/auth/2fa/${action}`, { twoFactorCode: code });
+      return response.json();
+    },
+    onSuccess: (data, { action }) => {
+      setTwoFactorAction(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/2fa'] });
+      if (action === 'recovery-codes') {
+        setNewRecoveryCodes(data.recoveryCodes);
+      } else {
+        toast({
+          title: "✅ Two-Factor Turned Off",
+          description: "Signing in now takes only your password",
+          className: "bg-green-50 border-green-200 text-green-800",
+        });
+      }
+    },
+    onError: (error: any) => {
+      toast({
+        title: "❌ Verification Failed",
+        description: getApiErrorMessage(error, "Failed to confirm with your two-factor code. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeSessionMutation = useMutation({
+    mutationFn: async (sessionId: string) => {
+      await apiRequest('DELETE', `/api/auth/sessions/${sessionId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/sessions'] });
+      toast({
+        title: "✅ Session Signed Out",
+        description: "That device will need to sign in again",
+        className: "bg-green-50 border-green-200 text-green-800",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "❌ Sign Out Failed",
+        description: error.message || "Failed to sign the session out. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const logoutEverywhereMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('POST', '/api/auth/logout-all');
+    },
+    onSuccess: () => {
+      clearAuthData();
+      window.location.href = '/auth';
+    },
+    onError: (error: any) => {
+      toast({
+        title: "❌ Sign Out Failed",
+        description: error.message || "Failed to sign out everywhere. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
   // Initialize profile data from user
   useEffect(() => {
     if (user) {
@@ -416,6 +554,55 @@ export default function Settings() {
     }
   };
 
+  const handleChangePassword = async () => {
+    if (passwordData.newPassword.length < 6) {
+      toast({
+        title: "❌ Password Too Short",
+        description: "The new password must be at least 6 characters long",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (passwordData.newPassword !== passwordData.confirmPassword) {
+      toast({
+        title: "❌ Passwords Don't Match",
+        description: "Type the same new password twice",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsPasswordSaving(true);
+    try {
+      await apiRequest('PUT', '/api/user/password', {
+        currentPassword: passwordData.currentPassword,
+        newPassword: passwordData.newPassword,
+      });
+
+      setPasswordData({ currentPassword: "", newPassword: "", confirmPassword: "" });
+      // Other devices were signed out
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/sessions'] });
+
+      toast({
+        title: "✅ Password Changed",
+        description: "Your other devices have been signed out",
+        className: "bg-green-50 border-green-200 text-green-800",
+      });
+    } catch (error: any) {
+      console.error('Password change error:', error);
+      toast({
+        title: "❌ Password Change Failed",
+        description: error.message?.includes('incorrect')
+          ? "Current password is incorrect"
+          : "Failed to change password. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsPasswordSaving(false);
+    }
+  };
+
   const handleExportData = () => {
     toast({
       title: "📥 Export Started",
@@ -424,12 +611,59 @@ export default function Settings() {
     });
   };
 
-  const handleDeleteAccount = () => {
-    toast({
-      title: "🗑️ Account Deletion",
-      description: "Account deletion feature coming soon",
-      className: "bg-red-50 border-red-200 text-red-800",
-    });
+  const handleDeleteAccount = async () => {
+    setIsDeletingAccount(true);
+    try {
+      const response = await apiRequest('DELETE', '/api/user/account', {
+        password: deletePassword,
+        graceDays: deleteWithGracePeriod ? ACCOUNT_DELETION_GRACE_DAYS : 0,
+      });
+      const result = await response.json();
+      setDeletePassword("");
+
+      if (result.deleted) {
+        clearAuthData();
+        window.location.href = '/';
+        return;
+      }
+
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/user'] });
+      toast({
+        title: "🗓️ Account Deletion Scheduled",
+        description: `Your account will be deleted on ${new Date(result.scheduledAt * 1000).toLocaleDateString()}. You can cancel until then.`,
+        className: "bg-red-50 border-red-200 text-red-800",
+      });
+    } catch (error: any) {
+      console.error('Account deletion error:', error);
+      toast({
+        title: "❌ Deletion Failed",
+        description: error.message?.includes('Password is incorrect')
+          ? "Password is incorrect"
+          : "Failed to delete your account. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsDeletingAccount(false);
+    }
+  };
+
+  const handleCancelDeletion = async () => {
+    try {
+      await apiRequest('POST', '/api/user/account/cancel-deletion');
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/user'] });
+      toast({
+        title: "✅ Deletion Cancelled",
+        description: "Your account will be kept",
+        className: "bg-green-50 border-green-200 text-green-800",
+      });
+    } catch (error: any) {
+      console.error('Cancel account deletion error:', error);
+      toast({
+        title: "❌ Cancel Failed",
+        description: "Failed to cancel the account deletion. Please try again.",
+        variant: "destructive",
+      });
+    }
   };
 
   const handleGenerateQRCode = async () => {
@@ -1163,19 +1397,197 @@ export default function Settings() {
                     <Switch id="data-sharing" />
                   </div>
                   
-                  <div className="flex items-center justify-between p-4 bg-white rounded-lg border">
+                  <div className="flex items-center justify-between gap-3 p-4 bg-white rounded-lg border">
                     <div className="flex items-center gap-3">
                       <Lock className="h-5 w-5 text-green-500" />
                       <div>
-                        <Label htmlFor="two-factor" className="text-base font-medium">Two-Factor Authentication</Label>
-                        <p className="text-sm text-gray-600">Add an extra layer of security</p>
+                        <div className="flex items-center gap-2">
+                          <Label className="text-base font-medium">Two-Factor Authentication</Label>
+                          {twoFactorStatus?.enabled && (
+                            <Badge variant="secondary" className="bg-green-100 text-green-800">On</Badge>
+                          )}
+                        </div>
+                        <p className="text-sm text-gray-600">
+                          {twoFactorStatus?.enabled
+                            ? `${twoFactorStatus.method === 'whatsapp' ? 'Codes by WhatsApp' : 'Authenticator app'} · ${twoFactorStatus.recoveryCodesRemaining} recovery codes left`
+                            : "Add an extra layer of security"}
+                        </p>
                       </div>
                     </div>
-                    <Button variant="outline" size="sm">
-                      Setup
-                    </Button>
+                    {twoFactorStatus?.enabled ? (
+                      <div className="flex flex-col sm:flex-row gap-2">
+                        <Button variant="outline" size="sm" onClick={() => setTwoFactorAction('recovery-codes')}>
+                          <KeyRound className="h-4 w-4 mr-2" />
+                          New Recovery Codes
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={() => setTwoFactorAction('disable')}>
+                          Turn Off
+                        </Button>
+                      </div>
+                    ) : (
+                      <Button variant="outline" size="sm" onClick={() => setIsTwoFactorSetupOpen(true)}>
+                        Setup
+                      </Button>
+                    )}
                   </div>
+
+                  <TwoFactorSetupModal
+                    isOpen={isTwoFactorSetupOpen}
+                    onClose={() => setIsTwoFactorSetupOpen(false)}
+                    whatsappLinked={twoFactorStatus?.whatsappLinked ?? false}
+                    onEnabled={() => queryClient.invalidateQueries({ queryKey: ['/api/auth/2fa'] })}
+                  />
+
+                  <TwoFactorCodeModal
+                    isOpen={twoFactorAction !== null}
+                    onClose={() => setTwoFactorAction(null)}
+                    method={twoFactorStatus?.method ?? null}
+                    title={twoFactorAction === 'disable' ? "Turn Off Two-Factor" : "New Recovery Codes"}
+                    description={twoFactorAction === 'disable'
+                      ? "Confirm with a fresh code. Your recovery codes will stop working too."
+                      : "Confirm with a fresh code. Your current recovery codes will stop working."}
+                    confirmLabel={twoFactorAction === 'disable' ? "Turn Off" : "Create Codes"}
+                    isSubmitting={twoFactorActionMutation.isPending}
+                    onSubmit={(code) => twoFactorAction && twoFactorActionMutation.mutate({ action: twoFactorAction, code })}
+                  />
+
+                  <Dialog open={newRecoveryCodes !== null} onOpenChange={(open) => !open && setNewRecoveryCodes(null)}>
+                    <DialogContent className="sm:max-w-[480px]">
+                      <DialogHeader>
+                        <DialogTitle>Save Your Recovery Codes</DialogTitle>
+                        <DialogDescription>Your previous recovery codes no longer work.</DialogDescription>
+                      </DialogHeader>
+                      <RecoveryCodesList codes={newRecoveryCodes ?? []} />
+                      <DialogFooter>
+                        <Button onClick={() => setNewRecoveryCodes(null)}>I've Saved Them</Button>
+                      </DialogFooter>
+                    </DialogContent>
+                  </Dialog>
                   
+                  <Separator />
+
+                  <div className="space-y-4">
+                    <h4 className="font-medium text-gray-900">Change Password</h4>
+                    <div className="grid gap-3 p-4 bg-white rounded-lg border">
+                      <div className="space-y-2">
+                        <Label htmlFor="current-password">Current Password</Label>
+                        <Input
+                          id="current-password"
+                          type="password"
+                          autoComplete="current-password"
+                          value={passwordData.currentPassword}
+                          onChange={(e) => setPasswordData({ ...passwordData, currentPassword: e.target.value })}
+                        />
+                      </div>
+                      <div className="grid gap-3 sm:grid-cols-2">
+                        <div className="space-y-2">
+                          <Label htmlFor="new-password">New Password</Label>
+                          <Input
+                            id="new-password"
+                            type="password"
+                            autoComplete="new-password"
+                            value={passwordData.newPassword}
+                            onChange={(e) => setPasswordData({ ...passwordData, newPassword: e.target.value })}
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label htmlFor="confirm-password">Confirm New Password</Label>
+                          <Input
+                            id="confirm-password"
+                            type="password"
+                            autoComplete="new-password"
+                            value={passwordData.confirmPassword}
+                            onChange={(e) => setPasswordData({ ...passwordData, confirmPassword: e.target.value })}
+                          />
+                        </div>
+                      </div>
+                      <div className="flex justify-end">
+                        <Button
+                          onClick={handleChangePassword}
+                          disabled={isPasswordSaving || !passwordData.currentPassword || !passwordData.newPassword}
+                        >
+                          {isPasswordSaving ? (
+                            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                          ) : (
+                            <Lock className="h-4 w-4 mr-2" />
+                          )}
+                          Change Password
+                        </Button>
+                      </div>
+                    </div>
+                  </div>
+
+                  <Separator />
+
+                  <div className="space-y-4">
+                    <div className="flex items-center justify-between">
+                      <h4 className="font-medium text-gray-900">Signed-in Devices</h4>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="outline" size="sm" disabled={logoutEverywhereMutation.isPending}>
+                            {logoutEverywhereMutation.isPending ? (
+                              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                            ) : (
+                              <LogOut className="h-4 w-4 mr-2" />
+                            )}
+                            Log Out Everywhere
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Log out everywhere?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Every device signed in to your account, this one included, will need to sign in again.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => logoutEverywhereMutation.mutate()}>
+                              Log out everywhere
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+
+                    {sessionsLoading ? (
+                      <div className="flex items-center justify-center p-4">
+                        <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+                      </div>
+                    ) : (
+                      signedInSessions.map((session) => (
+                        <div key={session.id} className="flex items-center justify-between p-4 bg-white rounded-lg border">
+                          <div className="flex items-center gap-3 min-w-0">
+                            <Monitor className="h-5 w-5 text-gray-500 shrink-0" />
+                            <div className="min-w-0">
+                              <div className="flex items-center gap-2">
+                                <Label className="text-base font-medium truncate" title={session.userAgent || undefined}>
+                                  {describeUserAgent(session.userAgent)}
+                                </Label>
+                                {session.current && (
+                                  <Badge variant="secondary" className="bg-green-100 text-green-800">This device</Badge>
+                                )}
+                              </div>
+                              <p className="text-sm text-gray-600 truncate">
+                                {session.ipAddress || "Unknown IP"} · Last used {formatDistanceToNow(new Date(session.lastUsedAt * 1000), { addSuffix: true })}
+                              </p>
+                            </div>
+                          </div>
+                          {!session.current && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => revokeSessionMutation.mutate(session.id)}
+                              disabled={revokeSessionMutation.isPending}
+                            >
+                              Sign Out
+                            </Button>
+                          )}
+                        </div>
+                      ))
+                    )}
+                  </div>
+
                   <Separator />
                   
                   <div className="space-y-4">
@@ -1222,38 +1634,78 @@ export default function Settings() {
                   </Button>
                 </div>
 
-                <div className="flex items-center justify-between p-4 bg-white rounded-lg border border-red-200">
-                  <div>
-                    <Label className="text-base font-medium text-red-700">Delete Account</Label>
-                    <p className="text-sm text-gray-600">Permanently delete your account and all data</p>
+                {user?.deletionScheduledAt ? (
+                  <div className="flex items-center justify-between p-4 bg-white rounded-lg border border-red-200">
+                    <div>
+                      <Label className="text-base font-medium text-red-700">Deletion Scheduled</Label>
+                      <p className="text-sm text-gray-600">
+                        Your account and all data will be deleted on {new Date(user.deletionScheduledAt * 1000).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <Button variant="outline" size="sm" onClick={handleCancelDeletion}>
+                      Keep My Account
+                    </Button>
                   </div>
-                  <AlertDialog>
-                    <AlertDialogTrigger asChild>
-                      <Button variant="destructive" size="sm">
-                        <Trash2 className="h-4 w-4 mr-2" />
-                        Delete Account
-                      </Button>
-                    </AlertDialogTrigger>
-                    <AlertDialogContent>
-                      <AlertDialogHeader>
-                        <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
-                        <AlertDialogDescription>
-                          This action cannot be undone. This will permanently delete your account
-                          and remove your data from our servers.
-                        </AlertDialogDescription>
-                      </AlertDialogHeader>
-                      <AlertDialogFooter>
-                        <AlertDialogCancel>Cancel</AlertDialogCancel>
-                        <AlertDialogAction 
-                          onClick={handleDeleteAccount}
-                          className="bg-red-600 hover:bg-red-700"
-                        >
-                          Yes, delete my account
-                        </AlertDialogAction>
-                      </AlertDialogFooter>
-                    </AlertDialogContent>
-                  </AlertDialog>
-                </div>
+                ) : (
+                  <div className="flex items-center justify-between p-4 bg-white rounded-lg border border-red-200">
+                    <div>
+                      <Label className="text-base font-medium text-red-700">Delete Account</Label>
+                      <p className="text-sm text-gray-600">Permanently delete your account and all data</p>
+                    </div>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="destructive" size="sm" disabled={isDeletingAccount}>
+                          {isDeletingAccount ? (
+                            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                          ) : (
+                            <Trash2 className="h-4 w-4 mr-2" />
+                          )}
+                          Delete Account
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            This will permanently delete your account and remove your transactions, budgets,
+                            goals, categories, linked WhatsApp and Telegram chats and all other data from our servers.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <div className="space-y-3">
+                          <div className="space-y-2">
+                            <Label htmlFor="delete-password">Password</Label>
+                            <Input
+                              id="delete-password"
+                              type="password"
+                              autoComplete="current-password"
+                              value={deletePassword}
+                              onChange={(e) => setDeletePassword(e.target.value)}
+                            />
+                          </div>
+                          <div className="flex items-center justify-between gap-3">
+                            <Label htmlFor="delete-grace-period" className="text-sm text-gray-600 font-normal">
+                              Wait {ACCOUNT_DELETION_GRACE_DAYS} days, so I can still change my mind
+                            </Label>
+                            <Switch
+                              id="delete-grace-period"
+                              checked={deleteWithGracePeriod}
+                              onCheckedChange={setDeleteWithGracePeriod}
+                            />
+                          </div>
+                        </div>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction 
+                            onClick={handleDeleteAccount}
+                            className="bg-red-600 hover:bg-red-700"
+                          >
+                            Yes, delete my account
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+                )}
               </CardContent>
             </Card>
           </TabsContent>
@@ -1,4 +1,4 @@
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
@@ -17,6 +17,7 @@ import { Bar, BarChart, ResponsiveContainer, XAxis, YAxis, Tooltip, Legend } fro
 import AddTransactionModal from "@/components/modals/add-transaction-modal";
 import { exportToPDF, exportToExcel } from "@/lib/exportUtils";
 import { getCurrencySymbol, getUserCurrency } from "@/lib/currencyUtils";
+import { fetchAllTransactions, fetchTransactionPage, type TransactionQueryParams } from "@/lib/transactionsApi";
 
 export default function Transactions() {
   const { toast } = useToast();
@@ -59,8 +60,10 @@ export default function Transactions() {
     };
   });
   
-  // Pagination states
+  // Pagination states - pages are fetched from the server, page N starts at pageCursors[N]
   const [currentPage, setCurrentPage] = useState(1);
+  const [pageCursors, setPageCursors] = useState<Record<number, string | null>>({ 1: null });
+  const [debouncedSearch, setDebouncedSearch] = useState("");
   const itemsPerPage = 5;
 
   // Redirect to login if not authenticated
@@ -102,13 +105,58 @@ export default function Transactions() {
     });
   };
 
-  const { data: transactions, isLoading: transactionsLoading } = useQuery({
-    queryKey: ["/api/transactions"],
+  // Wait for the user to stop typing before searching on the server
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchTerm), 300);
+    return () => clearTimeout(timeout);
+  }, [searchTerm]);
+
+  // Filters shared by the list, the totals, the chart and the exports
+  const filters = useMemo<TransactionQueryParams>(() => {
+    const [startYear, startMonth, startDay] = dateRange.start.split('-').map(Number);
+    const [endYear, endMonth, endDay] = dateRange.end.split('-').map(Number);
+    const start = new Date(startYear, startMonth - 1, startDay);
+    const end = new Date(endYear, endMonth - 1, endDay, 23, 59, 59);
+
+    return {
+      startDate: isNaN(start.getTime()) ? undefined : start,
+      endDate: isNaN(end.getTime()) ? undefined : end,
+      categoryId: selectedCategory === "all" ? undefined : [parseInt(selectedCategory)],
+      type: selectedType === "all" ? undefined : [selectedType],
+      search: debouncedSearch || undefined,
+      sort: "date_desc",
+    };
+  }, [dateRange, selectedCategory, selectedType, debouncedSearch]);
+
+  const { data: transactionPage, isLoading: transactionsLoading } = useQuery({
+    queryKey: ["/api/transactions", "page", filters, currentPage, pageCursors[currentPage]],
+    queryFn: () => fetchTransactionPage({ ...filters, cursor: pageCursors[currentPage], limit: itemsPerPage }),
     retry: false,
     enabled: isAuthenticated,
     staleTime: 0, // Always fetch fresh data
   });
 
+  // The chart only covers the last 7 days of the selected range
+  const chartFilters = useMemo<TransactionQueryParams>(() => {
+    const end = filters.endDate instanceof Date ? filters.endDate : new Date();
+    const chartStart = new Date(end.getFullYear(), end.getMonth(), end.getDate() - 6);
+    const start = filters.startDate instanceof Date && filters.startDate > chartStart ? filters.startDate : chartStart;
+    return { ...filters, startDate: start, endDate: end };
+  }, [filters]);
+
+  const { data: chartTransactions = [] } = useQuery({
+    queryKey: ["/api/transactions", "chart", chartFilters],
+    queryFn: () => fetchAllTransactions(chartFilters),
+    retry: false,
+    enabled: isAuthenticated,
+  });
+
+  const { data: categories = [] } = useQuery({
+    queryKey: ["/api/categories"],
+    retry: false,
+    enabled: isAuthenticated,
+  });
+
   const { data: userPreferences } = useQuery({
     queryKey: ["/api/user/preferences"],
     retry: false,
@@ -138,76 +186,28 @@ export default function Transactions() {
     return new Date(date);
   };
 
-  // Helper function untuk validasi date range
-  const isDateInRange = (transactionDate: Date, startDate: Date, endDate: Date): boolean => {
-    if (isNaN(transactionDate.getTime())) {
-      console.warn('Invalid transaction date');
-      return true; // Include invalid dates to avoid hiding transactions
-    }
-    
-    if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
-      return true; // Include all if range is invalid
-    }
-    
-    endDate.setHours(23, 59, 59, 999);
-    return transactionDate >= startDate && transactionDate <= endDate;
-  };
-
-  // Filter and process transactions
-  const filteredTransactions = (transactions as any[])?.filter((transaction: any) => {
-    if (!transaction) return false;
-    
-    const matchesSearch = transaction.description?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         transaction.category?.name?.toLowerCase().includes(searchTerm.toLowerCase());
-    
-    const matchesCategory = selectedCategory === "all" || transaction.category?.name === selectedCategory;
-    const matchesType = selectedType === "all" || transaction.type === selectedType;
-    
-    // Date filtering with error handling
-    let matchesDate = true;
-    try {
-      const transactionDate = parseTransactionDate(transaction.date);
-      const startDate = new Date(dateRange.start);
-      const endDate = new Date(dateRange.end);
-      
-      matchesDate = isDateInRange(transactionDate, startDate, endDate);
-    } catch (error) {
-      console.warn('Date filtering error:', error);
-      matchesDate = true;
-    }
-    
-    return matchesSearch && matchesCategory && matchesType && matchesDate;
-  })?.sort((a: any, b: any) => {
-    // Sort by transaction date from newest to oldest
-    try {
-      const dateA = parseTransactionDate(a.date);
-      const dateB = parseTransactionDate(b.date);
-      return dateB.getTime() - dateA.getTime(); // Newest first
-    } catch (error) {
-      console.warn('Date sorting error:', error);
-      return 0;
-    }
-  }) || [];
-
-  // Debug logging (moved after filteredTransactions definition)
+  // Remember where the next page starts so we can move forward with the cursor
   useEffect(() => {
-    if (transactions && Array.isArray(transactions)) {
-      console.log('Transactions data updated:', transactions.length, 'transactions');
-      console.log('Current date range:', dateRange);
-      console.log('Filtered transactions:', filteredTransactions.length, 'transactions');
+    if (transactionPage?.nextCursor) {
+      setPageCursors(prev => (
+        prev[currentPage + 1] === transactionPage.nextCursor
+          ? prev
+          : { ...prev, [currentPage + 1]: transactionPage.nextCursor }
+      ));
     }
-  }, [transactions, dateRange, filteredTransactions.length]);
+  }, [transactionPage, currentPage]);
 
   // Pagination
-  const totalPages = Math.ceil(filteredTransactions.length / itemsPerPage);
+  const paginatedTransactions = transactionPage?.items || [];
+  const totalCount = transactionPage?.totals.count || 0;
+  const totalPages = Math.ceil(totalCount / itemsPerPage);
   const startIndex = (currentPage - 1) * itemsPerPage;
-  const paginatedTransactions = filteredTransactions.slice(startIndex, startIndex + itemsPerPage);
 
   // Chart data preparation - sort by date first
   const chartDataMap = new Map();
   
   // Group transactions by date
-  filteredTransactions.forEach(transaction => {
+  chartTransactions.forEach((transaction: any) => {
     const transactionDate = parseTransactionDate(transaction.date);
     const dateKey = transactionDate.toISOString().split('T')[0]; // YYYY-MM-DD format for sorting
     const displayDate = transactionDate.toLocaleDateString('en-US', { 
@@ -227,29 +227,23 @@ export default function Transactions() {
     const entry = chartDataMap.get(dateKey);
     if (transaction.type === 'income') {
       entry.income += transaction.amount;
-    } else {
+    } else if (transaction.type === 'expense') {
       entry.expense += transaction.amount;
     }
   });
   
-  // Convert to array and sort by date, then take last 7 days
+  // Convert to array and sort by date
   const chartData = Array.from(chartDataMap.values())
     .sort((a, b) => a.dateKey.localeCompare(b.dateKey))
-    .slice(-7)
     .map(item => ({
       date: item.date,
       income: item.income,
       expense: item.expense,
     }));
 
-  // Calculate totals for current filtered data
-  const totalIncome = filteredTransactions
-    .filter(t => t.type === 'income')
-    .reduce((sum, t) => sum + t.amount, 0);
-  
-  const totalExpense = filteredTransactions
-    .filter(t => t.type === 'expense')
-    .reduce((sum, t) => sum + t.amount, 0);
+  // Totals for the whole filtered set come from the server
+  const totalIncome = transactionPage?.totals.income || 0;
+  const totalExpense = transactionPage?.totals.expense || 0;
 
   const deleteTransactionMutation = useMutation({
     mutationFn: async (id: number) => {
@@ -296,15 +290,20 @@ export default function Transactions() {
   // Reset pagination when filters change
   useEffect(() => {
     setCurrentPage(1);
-  }, [searchTerm, selectedCategory, selectedType, dateRange]);
+    setPageCursors({ 1: null });
+  }, [filters]);
 
   const handlePageChange = (page: number) => {
-    setCurrentPage(page);
+    // Only pages whose starting cursor is known can be opened
+    if (page in pageCursors) {
+      setCurrentPage(page);
+    }
   };
 
-  // Export functions
-  const handleExportPDF = () => {
+  // Export functions - exports cover every transaction matching the filters, not just the current page
+  const handleExportPDF = async () => {
     try {
+      const filteredTransactions = await fetchAllTransactions(filters);
       exportToPDF(filteredTransactions, {
         dateRange,
         userCurrency,
@@ -317,8 +316,9 @@ export default function Transactions() {
     }
   };
 
-  const handleExportExcel = () => {
+  const handleExportExcel = async () => {
     try {
+      const filteredTransactions = await fetchAllTransactions(filters);
       exportToExcel(filteredTransactions, {
         dateRange,
         userCurrency,
@@ -331,14 +331,7 @@ export default function Transactions() {
     }
   };
 
-  const getUniqueCategories = () => {
-    const uniqueCategories = Array.from(
-      new Set((transactions as any[])?.map(t => t.category?.name).filter(Boolean))
-    );
-    return uniqueCategories;
-  };
-
-  if (isLoading || transactionsLoading) {
+  if (isLoading || (transactionsLoading && !transactionPage)) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
         <div className="text-center">
@@ -417,9 +410,9 @@ export default function Transactions() {
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">All Categories</SelectItem>
-                  {getUniqueCategories().map((category) => (
-                    <SelectItem key={category} value={category}>
-                      {category}
+                  {(categories as any[]).map((category: any) => (
+                    <SelectItem key={category.id} value={category.id.toString()}>
+                      {category.icon} {category.name}
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -434,6 +427,7 @@ export default function Transactions() {
                   <SelectItem value="all">All Types</SelectItem>
                   <SelectItem value="income">Income</SelectItem>
                   <SelectItem value="expense">Expense</SelectItem>
+                  <SelectItem value="transfer">Transfer</SelectItem>
                 </SelectContent>
               </Select>
 
@@ -594,7 +588,9 @@ export default function Transactions() {
                           <div className={`w-8 h-8 rounded-lg flex items-center justify-center text-sm flex-shrink-0 ${
                             transaction.type === 'income' 
                               ? 'bg-emerald-100' 
-                              : 'bg-red-100'
+                              : transaction.type === 'transfer'
+                                ? 'bg-slate-100'
+                                : 'bg-red-100'
                           }`}>
                             <span>
                               {transaction.category?.icon || (transaction.type === 'income' ? '💰' : '💸')}
@@ -610,10 +606,14 @@ export default function Transactions() {
                                 className={`border-0 text-xs px-1.5 py-0.5 ${
                                   transaction.type === 'income' 
                                     ? 'bg-emerald-100 text-emerald-700' 
-                                    : 'bg-red-100 text-red-700'
+                                    : transaction.type === 'transfer'
+                                      ? 'bg-slate-100 text-slate-700'
+                                      : 'bg-red-100 text-red-700'
                                 }`}
                               >
-                                {transaction.category?.name || 'Uncategorized'}
+                                {transaction.splits?.length
+                                  ? `Split · ${transaction.splits.length} categories`
+                                  : transaction.category?.name || 'Uncategorized'}
                               </Badge>
                               <span className="hidden sm:inline">
                                 {parseTransactionDate(transaction.date).toLocaleDateString('en-US', {
@@ -622,23 +622,35 @@ export default function Transactions() {
                                 })}
                               </span>
                             </div>
+                            {transaction.splits?.length > 0 && (
+                              <div className="mt-1 space-y-0.5">
+                                {transaction.splits.map((split: any) => (
+                                  <p key={split.id} className="text-xs text-gray-500 truncate">
+                                    {split.category?.icon} {split.category?.name || 'Uncategorized'}
+                                    {split.description ? ` · ${split.description}` : ''}: {formatAmount(split.amount, transaction.currency)}
+                                  </p>
+                                ))}
+                              </div>
+                            )}
                           </div>
                         </div>
                         <div className="text-right flex-shrink-0 ml-2">
                           <p className={`font-semibold text-sm ${
-                            transaction.type === 'income' ? 'text-emerald-600' : 'text-red-600'
+                            transaction.type === 'income' ? 'text-emerald-600' : transaction.type === 'transfer' ? 'text-slate-600' : 'text-red-600'
                           }`}>
-                            {transaction.type === 'income' ? '+' : '-'}{formatAmount(transaction.amount, transaction.currency)}
+                            {transaction.type === 'income' ? '+' : transaction.type === 'transfer' ? '' : '-'}{formatAmount(transaction.amount, transaction.currency)}
                           </p>
                           <div className="flex items-center gap-1 mt-1 justify-end">
-                            <Button 
-                              variant="ghost" 
-                              size="sm"
-                              onClick={() => handleEdit(transaction)}
-                              className="h-6 w-6 p-0 hover:bg-blue-100 hover:text-blue-600"
-                            >
-                              <Edit className="w-3 h-3" />
-                            </Button>
+                            {transaction.type !== 'transfer' && (
+                              <Button 
+                                variant="ghost" 
+                                size="sm"
+                                onClick={() => handleEdit(transaction)}
+                                className="h-6 w-6 p-0 hover:bg-blue-100 hover:text-blue-600"
+                              >
+                                <Edit className="w-3 h-3" />
+                              </Button>
+                            )}
                             <Button 
                               variant="ghost" 
                               size="sm"
@@ -656,7 +668,7 @@ export default function Transactions() {
                     {totalPages > 1 && (
                       <div className="flex flex-col sm:flex-row items-center justify-between pt-3 border-t border-gray-200 gap-2 mt-2">
                         <p className="text-xs text-gray-600 order-2 sm:order-1">
-                          Showing {startIndex + 1}-{Math.min(startIndex + itemsPerPage, filteredTransactions.length)} of {filteredTransactions.length}
+                          Showing {startIndex + 1}-{startIndex + paginatedTransactions.length} of {totalCount}
                         </p>
                         <div className="flex items-center gap-1 order-1 sm:order-2">
                           <Button
@@ -669,36 +681,15 @@ export default function Transactions() {
                             <ChevronLeft className="w-3 h-3" />
                           </Button>
                           
-                          {Array.from({ length: Math.min(totalPages, 5) }, (_, i) => {
-                            let page;
-                            if (totalPages <= 5) {
-                              page = i + 1;
-                            } else if (currentPage <= 3) {
-                              page = i + 1;
-                            } else if (currentPage >= totalPages - 2) {
-                              page = totalPages - 4 + i;
-                            } else {
-                              page = currentPage - 2 + i;
-                            }
-                            
-                            return (
-                              <Button
-                                key={page}
-                                variant={currentPage === page ? "default" : "outline"}
-                                size="sm"
-                                onClick={() => handlePageChange(page)}
-                                className="h-7 w-7 p-0 text-xs"
-                              >
-                                {page}
-                              </Button>
-                            );
-                          })}
+                          <span className="text-xs text-gray-600 px-2">
+                            {currentPage} / {totalPages}
+                          </span>
                           
                           <Button
                             variant="outline"
                             size="sm"
                             onClick={() => handlePageChange(currentPage + 1)}
-                            disabled={currentPage === totalPages}
+                            disabled={!transactionPage?.hasMore}
                             className="h-7 w-7 p-0"
                           >
                             <ChevronRight className="w-3 h-3" />
@@ -726,6 +717,7 @@ export default function Transactions() {
             setEditingTransaction(null);
             // Reset pagination to page 1 to ensure edited transaction is visible
             setCurrentPage(1);
+            setPageCursors({ 1: null });
             // Force refresh transactions data after edit
             queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
             queryClient.refetchQueries({ queryKey: ["/api/transactions"] });
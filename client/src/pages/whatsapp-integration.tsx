@@ -13,6 +13,8 @@ import {
   type WhatsAppActivationCode,
 } from "@/lib/whatsappMultiAccountService";
 import { copyActivationCode } from "@/lib/clipboardUtils";
+import type { TwoFactorMethod } from "@/lib/authUtils";
+import TwoFactorCodeModal from "@/components/modals/two-factor-code-modal";
 
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -39,6 +41,23 @@ export default function WhatsAppIntegration() {
   const queryClient = useQueryClient();
   
   const [timeRemainingUpdater, setTimeRemainingUpdater] = useState(0);
+  // Linking or removing a number with two-factor on: the change waiting for a code
+  const [twoFactorPrompt, setTwoFactorPrompt] = useState<{
+    method: TwoFactorMethod;
+    connectionId?: number; // Set when removing a number
+  } | null>(null);
+
+  // Asks for a two-factor code, or says the one entered was wrong
+  const promptForTwoFactor = (twoFactor: { method: TwoFactorMethod; invalid: boolean }, connectionId?: number) => {
+    if (twoFactor.invalid) {
+      toast({
+        title: "❌ Kode Verifikasi Salah",
+        description: "Kode dua langkah salah atau kedaluwarsa",
+        variant: "destructive",
+      });
+    }
+    setTwoFactorPrompt({ method: twoFactor.method, connectionId });
+  };
 
   // Fetch WhatsApp connections
   const { data: connectionsData, isLoading: connectionsLoading, refetch: refetchConnections } = useQuery({
@@ -58,9 +77,12 @@ export default function WhatsAppIntegration() {
 
   // Generate activation code mutation
   const generateCodeMutation = useMutation({
-    mutationFn: generateActivationCode,
+    mutationFn: (twoFactorCode?: string) => generateActivationCode(twoFactorCode),
     onSuccess: (data) => {
-      if (data.success) {
+      if (data.twoFactor) {
+        promptForTwoFactor(data.twoFactor);
+      } else if (data.success) {
+        setTwoFactorPrompt(null);
         toast({
           title: "✅ Kode Aktivasi Dibuat",
           description: `Kode: ${data.code} - Berlaku 5 menit`,
@@ -86,9 +108,13 @@ export default function WhatsAppIntegration() {
 
   // Disconnect mutation
   const disconnectMutation = useMutation({
-    mutationFn: disconnectWhatsAppConnection,
+    mutationFn: ({ connectionId, twoFactorCode }: { connectionId: number; twoFactorCode?: string }) =>
+      disconnectWhatsAppConnection(connectionId, twoFactorCode),
     onSuccess: (data, variables) => {
-      if (data.success) {
+      if (data.twoFactor) {
+        promptForTwoFactor(data.twoFactor, variables.connectionId);
+      } else if (data.success) {
+        setTwoFactorPrompt(null);
         toast({
           title: "✅ WhatsApp Terputus",
           description: "Koneksi WhatsApp berhasil dihapus",
@@ -122,11 +148,19 @@ export default function WhatsAppIntegration() {
   }, []);
 
   const handleGenerateCode = () => {
-    generateCodeMutation.mutate();
+    generateCodeMutation.mutate(undefined);
   };
 
   const handleDisconnect = (connectionId: number) => {
-    disconnectMutation.mutate(connectionId);
+    disconnectMutation.mutate({ connectionId });
+  };
+
+  const handleTwoFactorSubmit = (twoFactorCode: string) => {
+    if (twoFactorPrompt?.connectionId !== undefined) {
+      disconnectMutation.mutate({ connectionId: twoFactorPrompt.connectionId, twoFactorCode });
+    } else {
+      generateCodeMutation.mutate(twoFactorCode);
+    }
   };
 
   const handleCopyCode = async (code: string) => {
@@ -476,6 +510,19 @@ export default function WhatsAppIntegration() {
           </Card>
         </div>
       </div>
+
+      <TwoFactorCodeModal
+        isOpen={twoFactorPrompt !== null}
+        onClose={() => setTwoFactorPrompt(null)}
+        method={twoFactorPrompt?.method ?? null}
+        title="Verifikasi Dua Langkah"
+        description={twoFactorPrompt?.connectionId !== undefined
+          ? "Masukkan kode verifikasi untuk memutus nomor WhatsApp ini."
+          : "Masukkan kode verifikasi untuk menghubungkan nomor WhatsApp baru."}
+        confirmLabel="Verifikasi"
+        isSubmitting={generateCodeMutation.isPending || disconnectMutation.isPending}
+        onSubmit={handleTwoFactorSubmit}
+      />
     </div>
   );
 }
@@ -0,0 +1,40 @@
+import cron from 'node-cron';
+import { accountDeletionService } from './account-deletion-service';
+
+/**
+ * Account Deletion Scheduler
+ * 
+ * This module purges accounts whose deletion grace period is over.
+ * It runs every hour.
+ */
+
+let schedulerStarted = false;
+
+export function startAccountDeletionScheduler() {
+  if (schedulerStarted) {
+    console.log('⚠️ Account deletion scheduler is already running');
+    return;
+  }
+
+  console.log('🚀 Starting account deletion scheduler...');
+
+  // Cron format: second minute hour day month dayOfWeek
+  // '0 20 * * * *' = Every hour at minute 20
+  const deletionJob = cron.schedule('0 20 * * * *', async () => {
+    try {
+      const deleted = await accountDeletionService.deleteDueAccounts();
+      if (deleted > 0) {
+        console.log(`🗑️ Deleted ${deleted} account(s) at the end of their grace period`);
+      }
+    } catch (error) {
+      console.error('❌ Error in scheduled account deletion:', error);
+    }
+  }, {
+    timezone: process.env.TZ || 'Asia/Jakarta' // Use timezone from environment
+  });
+
+  schedulerStarted = true;
+  console.log('✅ Account deletion scheduler started successfully');
+
+  return deletionJob;
+}
@@ -0,0 +1,96 @@
+import { storage } from './storage';
+import { disconnectUserWhatsApp } from './whatsapp-service';
+import { removeWhatsAppWebLogin } from './whatsapp-web-provider';
+import { conversationStateService } from './conversation-state';
+
+// Account deletion removes the user and everything they own - transactions, budgets, goals and
+// their boosts and savings plans, categories, preferences, linked chats, activation codes,
+// notification logs, sessions and the profile image - in one transaction. Receipts are never kept
+// (uploads are processed in memory). With a grace period the account is only marked, keeps
+// working and can cancel; the scheduler purges it once the period is over.
+
+export const MAX_GRACE_DAYS = 30;
+
+export interface DeletionRequestResult {
+  deleted: boolean;
+  scheduledAt: number | null; // Unix timestamp, with a grace period
+}
+
+interface AccountDeletionService {
+  requestDeletion(userId: string, graceDays: number): Promise<DeletionRequestResult>;
+  cancelDeletion(userId: string): Promise<boolean>;
+  deleteNow(userId: string): Promise<void>;
+  deleteDueAccounts(): Promise<number>;
+}
+
+class AccountDeletionServiceImpl implements AccountDeletionService {
+
+  /**
+   * Delete the account now, or schedule it graceDays from now
+   */
+  async requestDeletion(userId: string, graceDays: number): Promise<DeletionRequestResult> {
+    if (graceDays <= 0) {
+      await this.deleteNow(userId);
+      return { deleted: true, scheduledAt: null };
+    }
+
+    const scheduledAt = Math.floor(Date.now() / 1000) + Math.min(graceDays, MAX_GRACE_DAYS) * 24 * 60 * 60;
+    await storage.updateUser(userId, { deletionScheduledAt: scheduledAt });
+    console.log(`🗓️ Account ${userId} scheduled for deletion at ${new Date(scheduledAt * 1000).toISOString()}`);
+    return { deleted: false, scheduledAt };
+  }
+
+  /**
+   * @returns false when no deletion was scheduled
+   */
+  async cancelDeletion(userId: string): Promise<boolean> {
+    const user = await storage.getUser(userId);
+    if (!user?.deletionScheduledAt) {
+      return false;
+    }
+
+    await storage.updateUser(userId, { deletionScheduledAt: null });
+    console.log(`↩️ Account ${userId} deletion cancelled`);
+    return true;
+  }
+
+  /**
+   * Stop the user's WhatsApp client first, so no message lands while their data goes
+   */
+  async deleteNow(userId: string): Promise<void> {
+    const disconnected = await disconnectUserWhatsApp(userId);
+    if (disconnected.success) {
+      console.log(`📱 Disconnected WhatsApp of account ${userId} before deletion`);
+    }
+    try {
+      await removeWhatsAppWebLogin(userId);
+    } catch (error) {
+      console.error(`Error removing the WhatsApp login of account ${userId}:`, error);
+    }
+    conversationStateService.clearPendingDraft(userId);
+
+    await storage.purgeUser(userId);
+    console.log(`🗑️ Account ${userId} and all its data deleted`);
+  }
+
+  /**
+   * Purge every account whose grace period is over
+   * @returns How many were deleted
+   */
+  async deleteDueAccounts(): Promise<number> {
+    const due = await storage.getUsersDueForDeletion(Math.floor(Date.now() / 1000));
+
+    let deleted = 0;
+    for (const user of due) {
+      try {
+        await this.deleteNow(user.id);
+        deleted++;
+      } catch (error) {
+        console.error(`❌ Error deleting account ${user.id}:`, error);
+      }
+    }
+    return deleted;
+  }
+}
+
+export const accountDeletionService = new AccountDeletionServiceImpl();
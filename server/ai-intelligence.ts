@@ -1,11 +1,7 @@
-import { OpenAI } from 'openai';
 import { db } from './db';
 import { transactions, budgets, goals, users, categories } from '../shared/schema';
 import { eq, and, gte, lte, desc } from 'drizzle-orm';
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY || 'demo-key'
-});
+import { llm } from './llm-provider';
 
 interface TransactionHistory {
   id: number;
@@ -564,14 +560,12 @@ Provide:
 Respond in JSON format: {"reasoning": "...", "tips": ["tip1", "tip2", "tip3"]}
 `;
 
-      const response = await openai.chat.completions.create({
-        model: "gpt-4.1-nano",
+      const content = await llm.complete('insights', {
         messages: [{ role: "user", content: prompt }],
         temperature: 0.7,
-        max_tokens: 300
+        maxTokens: 300
       });
 
-      const content = response.choices[0]?.message?.content;
       if (content) {
         try {
           return JSON.parse(content);
@@ -603,14 +597,13 @@ Budget alert for "${category}":
 Generate a brief, actionable recommendation to stay within budget.
 `;
 
-      const response = await openai.chat.completions.create({
-        model: "gpt-4.1-nano",
+      const content = await llm.complete('insights', {
         messages: [{ role: "user", content: prompt }],
         temperature: 0.5,
-        max_tokens: 100
+        maxTokens: 100
       });
 
-      return response.choices[0]?.message?.content || this.getFallbackBudgetRecommendation(category);
+      return content || this.getFallbackBudgetRecommendation(category);
     } catch {
       return this.getFallbackBudgetRecommendation(category);
     }
@@ -634,14 +627,13 @@ Financial goal "${goal.name}":
 Generate a brief recommendation to achieve this goal.
 `;
 
-      const response = await openai.chat.completions.create({
-        model: "gpt-4.1-nano",
+      const content = await llm.complete('insights', {
         messages: [{ role: "user", content: prompt }],
         temperature: 0.5,
-        max_tokens: 100
+        maxTokens: 100
       });
 
-      return response.choices[0]?.message?.content || this.getFallbackGoalRecommendation(status);
+      return content || this.getFallbackGoalRecommendation(status);
     } catch {
       return this.getFallbackGoalRecommendation(status);
     }
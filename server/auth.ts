@@ -1,10 +1,18 @@
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
 import { Request, Response, NextFunction } from 'express';
+import { storage } from './storage';
 
 const JWT_SECRET = process.env.JWT_SECRET || 'fallback-secret';
 const SALT_ROUNDS = 10;
 
+// Access tokens are short-lived; the client gets a new one from its refresh token (see
+// session-service.ts). Each names its session, which is checked on every request so a
+// signed-out device loses access straight away.
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+// A session's last use is written at most this often
+const SESSION_TOUCH_INTERVAL_SECONDS = 60;
+
 export interface AuthUser {
   id: string;
   email: string;
@@ -14,6 +22,12 @@ export interface AuthUser {
 
 export interface AuthRequest extends Request {
   user?: AuthUser;
+  sessionId?: string; // The sign-in session the access token belongs to
+}
+
+interface AccessTokenPayload {
+  user: AuthUser;
+  sessionId: string;
 }
 
 // Hash password
@@ -26,37 +40,64 @@ export async function verifyPassword(password: string, hashedPassword: string):
   return bcrypt.compare(password, hashedPassword);
 }
 
-// Generate JWT token
-export function generateToken(user: AuthUser): string {
+// Generate JWT access token for a sign-in session
+export function generateToken(user: AuthUser, sessionId: string): string {
   return jwt.sign(
     { 
       id: user.id, 
       email: user.email, 
       firstName: user.firstName, 
-      lastName: user.lastName 
+      lastName: user.lastName,
+      sid: sessionId,
     },
     JWT_SECRET,
-    { expiresIn: '7d' }
+    { expiresIn: ACCESS_TOKEN_TTL_SECONDS }
   );
 }
 
-// Verify JWT token
-export function verifyToken(token: string): AuthUser | null {
+// Verify JWT token. Tokens from before sessions carry no session and are refused.
+export function verifyToken(token: string): AccessTokenPayload | null {
   try {
     const decoded = jwt.verify(token, JWT_SECRET) as any;
+    if (!decoded.sid) {
+      return null;
+    }
+
     return {
-      id: decoded.id,
-      email: decoded.email,
-      firstName: decoded.firstName,
-      lastName: decoded.lastName,
+      user: {
+        id: decoded.id,
+        email: decoded.email,
+        firstName: decoded.firstName,
+        lastName: decoded.lastName,
+      },
+      sessionId: decoded.sid,
     };
   } catch (error) {
     return null;
   }
 }
 
-// Authentication middleware
-export function requireAuth(req: AuthRequest, res: Response, next: NextFunction) {
+/**
+ * Check that the token's session is still signed in, and note its use
+ */
+async function isSessionActive(payload: AccessTokenPayload, req: Request): Promise<boolean> {
+  const session = await storage.getSessionById(payload.sessionId);
+  const now = Math.floor(Date.now() / 1000);
+  if (!session || session.userId !== payload.user.id || session.revokedAt || session.expiresAt < now) {
+    return false;
+  }
+
+  if (now - session.lastUsedAt >= SESSION_TOUCH_INTERVAL_SECONDS) {
+    storage.touchSession(session.id, req.ip || null).catch((error) => {
+      console.error(`Error updating last use of session ${session.id}:`, error);
+    });
+  }
+  return true;
+}
+
+// Authentication middleware. Anything short of a valid token for a live session answers 401,
+// which the client takes as its cue to refresh.
+export async function requireAuth(req: AuthRequest, res: Response, next: NextFunction) {
   const authHeader = req.headers.authorization;
   const token = authHeader && authHeader.split(' ')[1]; // Bearer TOKEN
 
@@ -64,24 +105,39 @@ export function requireAuth(req: AuthRequest, res: Response, next: NextFunction)
     return res.status(401).json({ message: 'Access token required' });
   }
 
-  const user = verifyToken(token);
-  if (!user) {
-    return res.status(403).json({ message: 'Invalid or expired token' });
+  const payload = verifyToken(token);
+  if (!payload) {
+    return res.status(401).json({ message: 'Invalid or expired token' });
+  }
+
+  try {
+    if (!(await isSessionActive(payload, req))) {
+      return res.status(401).json({ message: 'Session has been signed out' });
+    }
+  } catch (error) {
+    console.error('Error checking session:', error);
+    return res.status(500).json({ message: 'Authentication failed' });
   }
 
-  req.user = user;
+  req.user = payload.user;
+  req.sessionId = payload.sessionId;
   next();
 }
 
 // Optional authentication middleware (doesn't block if no token)
-export function optionalAuth(req: AuthRequest, res: Response, next: NextFunction) {
+export async function optionalAuth(req: AuthRequest, res: Response, next: NextFunction) {
   const authHeader = req.headers.authorization;
   const token = authHeader && authHeader.split(' ')[1]; // Bearer TOKEN
 
-  if (token) {
-    const user = verifyToken(token);
-    if (user) {
-      req.user = user;
+  const payload = token ? verifyToken(token) : null;
+  if (payload) {
+    try {
+      if (await isSessionActive(payload, req)) {
+        req.user = payload.user;
+        req.sessionId = payload.sessionId;
+      }
+    } catch (error) {
+      console.error('Error checking session:', error);
     }
   }
 
@@ -0,0 +1,323 @@
+import { storage } from './storage';
+import { sendSingleBotMessage } from './whatsapp-single-bot';
+import { messagingLinkService } from './messaging-link-service';
+import type { MessageTemplate } from './messaging-provider';
+import { Budget, BudgetLimitPeriod, InsertBudgetAlert, InsertNotificationLog } from '@shared/schema';
+
+// Budgets are checked after every transaction write, whatever made it. Each limit a budget has -
+// its own amount over its date range, or the daily/weekly/monthly limits saved through
+// POST /api/budgets/spending-limits - alerts once when spending reaches the warning threshold and
+// once when it reaches 100%, per period. The crossings are recorded in budget_alerts, so the
+// background push and a chat reply never announce the same one twice.
+
+// A write is evaluated this long after it happens, so an import or a multi-item chat message is
+// checked once, and a chat reply (which evaluates straight away) gets to claim its alerts first
+const EVALUATION_DELAY_MS = 2000;
+const DEFAULT_WARNING_THRESHOLD = 80;
+
+/**
+ * Limits saved by POST /api/budgets/spending-limits in the budget's metadata
+ */
+export interface SpendingLimitSettings {
+  dailyLimit: number | null;
+  weeklyLimit: number | null;
+  monthlyLimit: number | null;
+  enableDailyAlerts: boolean;
+  enableWeeklyAlerts: boolean;
+  hardLimit: boolean;
+  warningThreshold: number;
+}
+
+/**
+ * One limit of a budget over the period it currently applies to
+ */
+export interface BudgetLimitWindow {
+  period: BudgetLimitPeriod;
+  limit: number;
+  startDate: number;
+  endDate: number;
+  alertsEnabled: boolean;
+}
+
+export interface BudgetAlertNotice {
+  budgetId: number;
+  categoryId: number;
+  categoryName: string;
+  period: BudgetLimitPeriod;
+  threshold: number;
+  spent: number;
+  limit: number;
+  message: string;
+}
+
+interface BudgetAlertService {
+  scheduleEvaluation(userId: string): void;
+  evaluate(userId: string, inReply?: boolean): Promise<BudgetAlertNotice[]>;
+  getSpendingLimits(budget: Budget): SpendingLimitSettings | null;
+  getLimitWindows(budget: Budget, now?: Date): BudgetLimitWindow[];
+  logNotification(log: InsertNotificationLog): Promise<void>;
+}
+
+class BudgetAlertServiceImpl implements BudgetAlertService {
+  private pendingEvaluations: Map<string, NodeJS.Timeout> = new Map();
+
+  /**
+   * Evaluate the user's budgets shortly, pushing any new alert over WhatsApp
+   */
+  scheduleEvaluation(userId: string): void {
+    const pending = this.pendingEvaluations.get(userId);
+    if (pending) {
+      clearTimeout(pending);
+    }
+
+    this.pendingEvaluations.set(userId, setTimeout(() => {
+      this.pendingEvaluations.delete(userId);
+      this.evaluate(userId).catch((error) => {
+        console.error(`❌ Error evaluating budget alerts for user ${userId}:`, error);
+      });
+    }, EVALUATION_DELAY_MS));
+  }
+
+  /**
+   * Check every active budget of the user for thresholds crossed since the last alert
+   * @param inReply The caller shows the alerts in its own reply instead of having them pushed
+   * @returns The new alerts
+   */
+  async evaluate(userId: string, inReply = false): Promise<BudgetAlertNotice[]> {
+    const budgets = (await storage.getBudgets(userId)).filter(budget => budget.isActive !== false && budget.category);
+    if (budgets.length === 0) {
+      return [];
+    }
+
+    // Without a linked number a crossing stays unclaimed, so nothing is marked as announced unseen
+    const whatsappNumbers = inReply ? [] : await messagingLinkService.getLinkedIds(userId, 'whatsapp');
+    if (!inReply && whatsappNumbers.length === 0) {
+      return [];
+    }
+
+    const userPrefs = await storage.getUserPreferences(userId);
+    const language = userPrefs?.language || 'en';
+    const alerts: Array<{ notice: BudgetAlertNotice; claims: InsertBudgetAlert[] }> = [];
+
+    for (const budget of budgets) {
+      const warningThreshold = this.getSpendingLimits(budget)?.warningThreshold ?? DEFAULT_WARNING_THRESHOLD;
+      const thresholds = warningThreshold < 100 ? [warningThreshold, 100] : [100];
+
+      for (const window of this.getLimitWindows(budget)) {
+        if (!window.alertsEnabled || window.limit <= 0) continue;
+
+        const spent = await storage.getSpentInPeriod(userId, budget.categoryId, window.startDate, window.endDate);
+        const percentage = (spent / window.limit) * 100;
+
+        // Claim every threshold passed, so jumping straight past 100% doesn't send the warning later
+        let crossed: number | null = null;
+        const claims: InsertBudgetAlert[] = [];
+        for (const threshold of thresholds.filter(threshold => percentage >= threshold)) {
+          const claim = {
+            userId,
+            budgetId: budget.id,
+            limitPeriod: window.period,
+            periodStart: window.startDate,
+            threshold,
+          };
+          if (await storage.claimBudgetAlert(claim)) {
+            crossed = threshold;
+            claims.push(claim);
+          }
+        }
+        if (crossed === null) continue;
+
+        const notice = {
+          budgetId: budget.id,
+          categoryId: budget.categoryId,
+          categoryName: budget.category!.name,
+          period: window.period,
+          threshold: crossed,
+          spent,
+          limit: window.limit,
+        };
+        alerts.push({ notice: { ...notice, message: this.createAlertMessage(notice, language, budget.currency) }, claims });
+      }
+    }
+
+    for (const { notice, claims } of alerts) {
+      if (inReply) {
+        await this.logNotification({
+          userId,
+          type: 'budget_alert',
+          message: notice.message,
+          status: 'sent',
+          sentAt: Date.now(),
+        });
+        continue;
+      }
+
+      let delivered = false;
+      for (const whatsappNumber of whatsappNumbers) {
+        const result = await sendSingleBotMessage(whatsappNumber, notice.message, this.createAlertTemplate(notice, language));
+        delivered = delivered || result.success;
+        await this.logNotification({
+          userId,
+          type: 'budget_alert',
+          whatsappNumber,
+          message: notice.message,
+          status: result.success ? 'sent' : 'failed',
+          sentAt: Date.now(),
+          errorMessage: result.success ? undefined : result.message,
+        });
+      }
+
+      // No number got it, so the next evaluation should try again
+      if (!delivered) {
+        await storage.releaseBudgetAlerts(claims);
+      }
+    }
+
+    const notices = alerts.map(alert => alert.notice);
+    if (notices.length > 0) {
+      console.log(`💸 ${notices.length} budget alert(s) for user ${userId}${inReply ? ' (in reply)' : ''}`);
+    }
+    return notices;
+  }
+
+  /**
+   * The spending limits stored on a budget, or null for a plain budget
+   */
+  getSpendingLimits(budget: Budget): SpendingLimitSettings | null {
+    if (!budget.metadata) return null;
+
+    try {
+      const metadata = JSON.parse(budget.metadata);
+      if (metadata?.type !== 'spending_limit') return null;
+
+      return {
+        dailyLimit: Number(metadata.dailyLimit) || null,
+        weeklyLimit: Number(metadata.weeklyLimit) || null,
+        monthlyLimit: Number(metadata.monthlyLimit) || null,
+        enableDailyAlerts: metadata.enableDailyAlerts !== false,
+        enableWeeklyAlerts: metadata.enableWeeklyAlerts !== false,
+        hardLimit: metadata.hardLimit === true,
+        warningThreshold: Number(metadata.warningThreshold) || DEFAULT_WARNING_THRESHOLD,
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * The limits of a budget: a spending limit applies over the current day, week (from Monday) and
+   * month; a plain budget over its own date range
+   */
+  getLimitWindows(budget: Budget, now: Date = new Date()): BudgetLimitWindow[] {
+    const limits = this.getSpendingLimits(budget);
+    if (!limits) {
+      return [{ period: 'budget', limit: budget.amount, startDate: budget.startDate, endDate: budget.endDate, alertsEnabled: true }];
+    }
+
+    const windows: BudgetLimitWindow[] = [];
+    const today = startOfDay(now);
+
+    if (limits.dailyLimit) {
+      windows.push(toWindow('daily', limits.dailyLimit, today, addDays(today, 1), limits.enableDailyAlerts));
+    }
+    if (limits.weeklyLimit) {
+      const weekStart = addDays(today, -((today.getDay() + 6) % 7));
+      windows.push(toWindow('weekly', limits.weeklyLimit, weekStart, addDays(weekStart, 7), limits.enableWeeklyAlerts));
+    }
+    if (limits.monthlyLimit) {
+      const monthStart = new Date(today.getFullYear(), today.getMonth(), 1);
+      const nextMonth = new Date(today.getFullYear(), today.getMonth() + 1, 1);
+      windows.push(toWindow('monthly', limits.monthlyLimit, monthStart, nextMonth, true));
+    }
+
+    return windows;
+  }
+
+  /**
+   * Log notification to database
+   */
+  async logNotification(log: InsertNotificationLog): Promise<void> {
+    try {
+      await storage.createNotificationLog(log);
+    } catch (error) {
+      console.error('Error logging notification:', error);
+    }
+  }
+
+  /**
+   * Create the alert message based on language
+   */
+  private createAlertMessage(notice: Omit<BudgetAlertNotice, 'message'>, language: string, currency: string): string {
+    const locale = language === 'id' ? 'id-ID' : 'en-US';
+    const format = (value: number) => `${currency} ${new Intl.NumberFormat(locale).format(value)}`;
+    const percentage = Math.round((notice.spent / notice.limit) * 100);
+    const remaining = Math.max(0, notice.limit - notice.spent);
+    const { categoryName, period } = notice;
+
+    const labels = {
+      en: { budget: 'budget', daily: 'daily limit', weekly: 'weekly limit', monthly: 'monthly limit' },
+      id: { budget: 'budget', daily: 'limit harian', weekly: 'limit mingguan', monthly: 'limit bulanan' },
+    };
+
+    if (language === 'id') {
+      const label = labels.id[period];
+      return notice.threshold >= 100
+        ? `🚨 *${capitalize(label)} ${categoryName} terlampaui!*\n\nTerpakai ${format(notice.spent)} dari ${format(notice.limit)} (${percentage}%).`
+        : `⚠️ *Peringatan ${label} ${categoryName}*\n\nAnda sudah memakai ${percentage}% (${format(notice.spent)} dari ${format(notice.limit)}). Sisa: ${format(remaining)}.`;
+    }
+
+    const label = labels.en[period];
+    return notice.threshold >= 100
+      ? `🚨 *${categoryName} ${label} exceeded!*\n\nYou've spent ${format(notice.spent)} of ${format(notice.limit)} (${percentage}%).`
+      : `⚠️ *${categoryName} ${label} warning*\n\nYou've used ${percentage}% (${format(notice.spent)} of ${format(notice.limit)}). Remaining: ${format(remaining)}.`;
+  }
+
+  /**
+   * Template for the WhatsApp Cloud API when the user hasn't written in 24 hours. Register
+   * "monly_budget_alert" in WhatsApp Manager, in en and id, with the body variables
+   * {{1}} category and {{2}} percentage used.
+   */
+  private createAlertTemplate(notice: Omit<BudgetAlertNotice, 'message'>, language: string): MessageTemplate {
+    return {
+      name: 'monly_budget_alert',
+      language: language === 'id' ? 'id' : 'en',
+      parameters: [notice.categoryName, `${Math.round((notice.spent / notice.limit) * 100)}%`],
+    };
+  }
+}
+
+function toWindow(period: BudgetLimitPeriod, limit: number, start: Date, end: Date, alertsEnabled: boolean): BudgetLimitWindow {
+  return {
+    period,
+    limit,
+    startDate: Math.floor(start.getTime() / 1000),
+    endDate: Math.floor(end.getTime() / 1000) - 1,
+    alertsEnabled,
+  };
+}
+
+function startOfDay(date: Date): Date {
+  const result = new Date(date);
+  result.setHours(0, 0, 0, 0);
+  return result;
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+export const budgetAlertService = new BudgetAlertServiceImpl();
+
+/**
+ * Evaluate budgets after every transaction write from now on
+ */
+export function startBudgetAlertEvaluator() {
+  storage.onTransactionsWritten((userId) => budgetAlertService.scheduleEvaluation(userId));
+  console.log('✅ Budget alert evaluator started');
+}
@@ -0,0 +1,203 @@
+import { storage } from './storage';
+import {
+  analyzeTransactionText,
+  categorizeTransaction,
+  type TransactionAnalysis,
+  type UserPreferences,
+} from './openai';
+import { isLLMConfigured } from './llm-provider';
+import {
+  AMOUNT_TOKEN,
+  PARSER_FAST_PATH_CONFIDENCE,
+  describeTransaction,
+  parseTransactionText,
+} from './transaction-text-parser';
+import { Category, CategorizationRuleWithCategory, Transaction } from '@shared/schema';
+
+// Learned rules shorter than this ("kopi" is fine, "ok" is not) would match far too much
+const MIN_LEARNED_PATTERN_LENGTH = 3;
+
+interface CategorizationRuleService {
+  normalizeDescription(text: string): string;
+  getActiveRules(userId: string): Promise<CategorizationRuleWithCategory[]>;
+  matchRule(rules: CategorizationRuleWithCategory[], text: string, amount?: number, type?: string): CategorizationRuleWithCategory | null;
+  analyzeTransactionText(userId: string, text: string, categories: Category[], preferences?: UserPreferences): Promise<TransactionAnalysis>;
+  categorizeTransaction(userId: string, description: string, amount: number, type?: string): Promise<{ category: string; categorySource: 'rule' | 'ai'; ruleId?: number }>;
+  learnFromCorrection(userId: string, transaction: Transaction, categoryId: number): Promise<void>;
+}
+
+class CategorizationRuleServiceImpl implements CategorizationRuleService {
+
+  /**
+   * Lowercase, drop amounts, currency and punctuation so "Kopi Kenangan 25rb!" and "kopi kenangan" compare equal
+   */
+  normalizeDescription(text: string): string {
+    return (' ' + text.toLowerCase() + ' ')
+      .replace(AMOUNT_TOKEN, ' ')
+      .replace(/[^a-z0-9\u00c0-\u024f&'\s]/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  async getActiveRules(userId: string): Promise<CategorizationRuleWithCategory[]> {
+    const rules = await storage.getCategorizationRules(userId);
+    // A rule whose category was deleted has nothing to assign
+    return rules.filter(rule => rule.isActive !== false && rule.category);
+  }
+
+  /**
+   * First rule (in evaluation order) that matches the text. Rules with an amount range
+   * or a transaction type only match when that value is known.
+   */
+  matchRule(
+    rules: CategorizationRuleWithCategory[],
+    text: string,
+    amount?: number,
+    type?: string
+  ): CategorizationRuleWithCategory | null {
+    const normalized = this.normalizeDescription(text);
+    if (!normalized) return null;
+
+    for (const rule of rules) {
+      if (rule.transactionType && type && rule.transactionType !== type) continue;
+      if (rule.minAmount != null && (amount == null || amount < rule.minAmount)) continue;
+      if (rule.maxAmount != null && (amount == null || amount > rule.maxAmount)) continue;
+
+      const pattern = this.normalizeDescription(rule.pattern);
+      if (!pattern) continue;
+
+      const matches =
+        rule.matchType === 'exact' ? normalized === pattern :
+        rule.matchType === 'starts_with' ? (normalized + ' ').startsWith(pattern + ' ') :
+        (' ' + normalized + ' ').includes(' ' + pattern + ' ');
+
+      if (matches) return rule;
+    }
+
+    return null;
+  }
+
+  /**
+   * Rules-first version of analyzeTransactionText. When a rule matches and the message has one
+   * unambiguous amount, the AI is skipped entirely, and so it is when the offline parser is
+   * confident. Otherwise the AI extracts the details and a matching rule still overrides the
+   * category it picked. The offline parse is the answer when the AI is unavailable or fails.
+   */
+  async analyzeTransactionText(
+    userId: string,
+    text: string,
+    categories: Category[],
+    preferences?: UserPreferences
+  ): Promise<TransactionAnalysis> {
+    const rules = await this.getActiveRules(userId);
+    const parsed = parseTransactionText(text, categories, preferences);
+
+    const rule = parsed ? this.matchRule(rules, text, parsed.amount) : null;
+    if (rule && parsed) {
+      console.log(`📏 Rule ${rule.id} matched "${text}" for user ${userId}, skipping AI`);
+      await storage.recordCategorizationRuleMatch(rule.id, userId);
+
+      return {
+        ...parsed,
+        description: describeTransaction(text) || rule.category!.name,
+        category: rule.category!.name,
+        type: (rule.transactionType || rule.category!.type) === 'income' ? 'income' : 'expense',
+        confidence: 0.95,
+        categorySource: 'rule',
+        ruleId: rule.id,
+      };
+    }
+
+    if (parsed && (parsed.confidence >= PARSER_FAST_PATH_CONFIDENCE || !isLLMConfigured())) {
+      console.log(`🧮 Parsed "${text}" offline (confidence ${parsed.confidence}), skipping AI`);
+      return { ...parsed, categorySource: 'parser' };
+    }
+
+    let analysis: TransactionAnalysis;
+    try {
+      analysis = await analyzeTransactionText(text, categories, preferences);
+    } catch (error) {
+      if (!parsed) throw error;
+      console.warn(`🧮 AI analysis failed, using the offline parse of "${text}":`, error);
+      return { ...parsed, categorySource: 'parser' };
+    }
+
+    const aiRule = this.matchRule(rules, text, analysis.amount, analysis.type) ||
+      this.matchRule(rules, analysis.description, analysis.amount, analysis.type);
+    if (aiRule) {
+      console.log(`📏 Rule ${aiRule.id} overrides AI category "${analysis.category}" with "${aiRule.category!.name}"`);
+      await storage.recordCategorizationRuleMatch(aiRule.id, userId);
+      return {
+        ...analysis,
+        category: aiRule.category!.name,
+        suggestedNewCategory: undefined,
+        categorySource: 'rule',
+        ruleId: aiRule.id,
+      };
+    }
+
+    return { ...analysis, categorySource: 'ai' };
+  }
+
+  /**
+   * Rules-first version of categorizeTransaction for when description and amount are already known
+   */
+  async categorizeTransaction(
+    userId: string,
+    description: string,
+    amount: number,
+    type: string = 'expense'
+  ): Promise<{ category: string; categorySource: 'rule' | 'ai'; ruleId?: number }> {
+    const rule = this.matchRule(await this.getActiveRules(userId), description, amount, type);
+    if (rule) {
+      await storage.recordCategorizationRuleMatch(rule.id, userId);
+      return { category: rule.category!.name, categorySource: 'rule', ruleId: rule.id };
+    }
+
+    return { category: await categorizeTransaction(description, amount), categorySource: 'ai' };
+  }
+
+  /**
+   * Remember a category correction: the next transaction with the same description gets the
+   * corrected category without asking the AI. Rules the user wrote themselves are never changed.
+   */
+  async learnFromCorrection(userId: string, transaction: Transaction, categoryId: number): Promise<void> {
+    if (transaction.type !== 'income' && transaction.type !== 'expense') return;
+
+    const pattern = this.normalizeDescription(transaction.description || '');
+    if (pattern.length < MIN_LEARNED_PATTERN_LENGTH) return;
+
+    try {
+      const existing = await storage.findCategorizationRule(userId, pattern, 'contains');
+
+      if (existing?.source === 'user') {
+        console.log(`📏 Not learning "${pattern}" for user ${userId}: rule ${existing.id} was written by the user`);
+        return;
+      }
+
+      if (existing) {
+        await storage.updateCategorizationRule(existing.id, userId, {
+          categoryId,
+          transactionType: transaction.type,
+          isActive: true,
+        });
+      } else {
+        await storage.createCategorizationRule({
+          userId,
+          categoryId,
+          pattern,
+          matchType: 'contains',
+          transactionType: transaction.type,
+          source: 'learned',
+        });
+      }
+
+      console.log(`📏 Learned rule "${pattern}" → category ${categoryId} for user ${userId}`);
+    } catch (error) {
+      // Learning is a bonus - never fail the correction itself
+      console.error('Error learning categorization rule:', error);
+    }
+  }
+}
+
+export const categorizationRuleService = new CategorizationRuleServiceImpl();
@@ -0,0 +1,121 @@
+import type { TransactionAnalysis } from './openai';
+
+// Per-user chat memory for follow-ups such as "batal" or "ubah jumlah 45rb": which transactions the
+// bot recorded last, which bot confirmation message recorded which transactions so a quoted reply
+// can target that exact message, and the draft transaction waiting for the user's answer.
+// Kept in memory like the WhatsApp connections themselves - after a restart follow-ups only reach
+// transactions recorded since.
+
+// Confirmation messages remembered per user; older ones can no longer be quoted to edit
+const MAX_TRACKED_MESSAGES = 50;
+
+export type PendingDraftStep = 'choice' | 'amount' | 'type' | 'category' | 'limit_override';
+
+export interface PendingDraft {
+  analysis: TransactionAnalysis;
+  batch?: TransactionAnalysis[]; // Every item, when a multi-item message is held at a hard spending limit
+  awaiting: PendingDraftStep; // What the bot asked for
+  expiresAt: number; // Milliseconds
+}
+
+interface ConversationState {
+  lastTransactionIds: number[];
+  messageTransactions: Map<string, number[]>; // Bot message ID → transactions it confirmed
+  pendingDraft: PendingDraft | null;
+}
+
+interface ConversationStateService {
+  rememberTransactions(userId: string, transactionIds: number[], botMessageId?: string): void;
+  getLastTransactionIds(userId: string): number[];
+  getTransactionIdsForMessage(userId: string, botMessageId: string): number[] | null;
+  forgetTransactions(userId: string, transactionIds: number[]): void;
+  setPendingDraft(userId: string, draft: PendingDraft): void;
+  getPendingDraft(userId: string): PendingDraft | null;
+  clearPendingDraft(userId: string): void;
+}
+
+class ConversationStateServiceImpl implements ConversationStateService {
+  private states = new Map<string, ConversationState>();
+
+  /**
+   * Record the transactions one bot reply confirmed. They become the target of the next "batal" or
+   * "ubah ..." and, with a message ID, of any later reply quoting that message.
+   */
+  rememberTransactions(userId: string, transactionIds: number[], botMessageId?: string): void {
+    if (transactionIds.length === 0) return;
+
+    const state = this.getState(userId);
+    state.lastTransactionIds = [...transactionIds];
+
+    if (botMessageId) {
+      state.messageTransactions.set(botMessageId, [...transactionIds]);
+
+      // Maps keep insertion order, so the first key is the oldest message
+      if (state.messageTransactions.size > MAX_TRACKED_MESSAGES) {
+        const oldest = state.messageTransactions.keys().next().value;
+        if (oldest !== undefined) state.messageTransactions.delete(oldest);
+      }
+    }
+  }
+
+  getLastTransactionIds(userId: string): number[] {
+    return this.states.get(userId)?.lastTransactionIds || [];
+  }
+
+  // Null when the message is not a confirmation the bot remembers
+  getTransactionIdsForMessage(userId: string, botMessageId: string): number[] | null {
+    return this.states.get(userId)?.messageTransactions.get(botMessageId) || null;
+  }
+
+  // Deleted transactions can't be targeted again, whichever way they were referenced
+  forgetTransactions(userId: string, transactionIds: number[]): void {
+    const state = this.states.get(userId);
+    if (!state) return;
+
+    const removed = new Set(transactionIds);
+    state.lastTransactionIds = state.lastTransactionIds.filter(id => !removed.has(id));
+
+    const entries = Array.from(state.messageTransactions.entries());
+    for (const [messageId, ids] of entries) {
+      const remaining = ids.filter(id => !removed.has(id));
+      if (remaining.length > 0) {
+        state.messageTransactions.set(messageId, remaining);
+      } else {
+        state.messageTransactions.delete(messageId);
+      }
+    }
+  }
+
+  // Only one draft at a time - a new one replaces an unanswered one
+  setPendingDraft(userId: string, draft: PendingDraft): void {
+    this.getState(userId).pendingDraft = draft;
+  }
+
+  // Expired drafts are dropped on read
+  getPendingDraft(userId: string): PendingDraft | null {
+    const state = this.states.get(userId);
+    if (!state?.pendingDraft) return null;
+
+    if (state.pendingDraft.expiresAt <= Date.now()) {
+      state.pendingDraft = null;
+      return null;
+    }
+    return state.pendingDraft;
+  }
+
+  clearPendingDraft(userId: string): void {
+    const state = this.states.get(userId);
+    if (state) state.pendingDraft = null;
+  }
+
+  private getState(userId: string): ConversationState {
+    let state = this.states.get(userId);
+    if (!state) {
+      state = { lastTransactionIds: [], messageTransactions: new Map(), pendingDraft: null };
+      this.states.set(userId, state);
+    }
+    return state;
+  }
+}
+
+export const conversationStateService = new ConversationStateServiceImpl();
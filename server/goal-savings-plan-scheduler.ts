@@ -0,0 +1,64 @@
+import cron from 'node-cron';
+import { goalSavingsPlanService } from './goal-savings-plan-service';
+
+/**
+ * Goal Savings Plan Scheduler
+ * 
+ * This module executes goal savings plans on their contribution dates.
+ * It runs every hour, contributes to the goal of every due plan and advances
+ * the plan to its next contribution date.
+ */
+
+let schedulerStarted = false;
+
+export function startGoalSavingsPlanScheduler() {
+  if (schedulerStarted) {
+    console.log('⚠️ Goal savings plan scheduler is already running');
+    return;
+  }
+
+  console.log('🚀 Starting goal savings plan scheduler...');
+
+  // Cron format: second minute hour day month dayOfWeek
+  // '0 10 * * * *' = Every hour at minute 10
+  const savingsPlanJob = cron.schedule('0 10 * * * *', async () => {
+    console.log('⏰ Running goal savings plan check at', new Date().toLocaleString());
+
+    try {
+      await goalSavingsPlanService.executeDuePlans();
+    } catch (error) {
+      console.error('❌ Error in scheduled goal savings plan check:', error);
+    }
+  }, {
+    timezone: process.env.TZ || 'Asia/Jakarta' // Use timezone from environment
+  });
+
+  schedulerStarted = true;
+  console.log('✅ Goal savings plan scheduler started successfully');
+  console.log('📅 Savings plans will be checked every hour');
+
+  return savingsPlanJob;
+}
+
+export function stopGoalSavingsPlanScheduler() {
+  if (!schedulerStarted) {
+    console.log('⚠️ Goal savings plan scheduler is not running');
+    return;
+  }
+
+  schedulerStarted = false;
+  console.log('🛑 Goal savings plan scheduler stopped');
+}
+
+// Manual trigger function for testing
+export async function triggerGoalSavingsPlansManually() {
+  console.log('🧪 Manually triggering goal savings plans...');
+
+  try {
+    await goalSavingsPlanService.executeDuePlans();
+    console.log('✅ Manual goal savings plans completed');
+  } catch (error) {
+    console.error('❌ Error in manual goal savings plans:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,281 @@
+import { storage } from './storage';
+import { sendSingleBotMessage } from './whatsapp-single-bot';
+import type { MessageTemplate } from './messaging-provider';
+import { Goal, InsertNotificationLog } from '@shared/schema';
+
+type PlanRunOutcome = 'contributed' | 'skipped_insufficient_balance' | 'goal_completed';
+
+interface GoalSavingsPlanService {
+  executeDuePlans(): Promise<void>;
+  executePlan(plan: any): Promise<void>;
+  notifyUser(userId: string, message: string, template?: MessageTemplate): Promise<void>;
+  getUserWhatsAppNumbers(userId: string): Promise<string[]>;
+  logNotification(log: InsertNotificationLog): Promise<void>;
+}
+
+class GoalSavingsPlanServiceImpl implements GoalSavingsPlanService {
+
+  /**
+   * Execute every active savings plan whose next contribution date has passed
+   */
+  async executeDuePlans(): Promise<void> {
+    console.log('🎯 Starting goal savings plan execution...');
+
+    try {
+      const now = Math.floor(Date.now() / 1000);
+      const duePlans = await storage.getDueGoalSavingsPlans(now);
+
+      console.log(`Found ${duePlans.length} due goal savings plans`);
+
+      for (const plan of duePlans) {
+        try {
+          await this.executePlan(plan);
+        } catch (error) {
+          console.error(`❌ Error executing savings plan ${plan.id}:`, error);
+        }
+      }
+
+      console.log('✅ Goal savings plan execution completed');
+    } catch (error) {
+      console.error('❌ Error in goal savings plan execution:', error);
+    }
+  }
+
+  /**
+   * Contribute to the plan's goal through the regular goal boost path.
+   * The run is skipped (and the user told) when the available balance can't cover the amount.
+   */
+  async executePlan(plan: any): Promise<void> {
+    const goal = await storage.getGoalById(plan.goalId, plan.userId);
+
+    // Goal was deleted, archived or belongs to someone else - the plan has nothing to do anymore
+    if (!goal || goal.isActive === false) {
+      console.log(`⚠️ Deactivating savings plan ${plan.id}: goal ${plan.goalId} is no longer active`);
+      await storage.updateGoalSavingsPlan(plan.id, plan.userId, { isActive: false });
+      return;
+    }
+
+    const remaining = goal.targetAmount - goal.currentAmount;
+    if (remaining <= 0) {
+      console.log(`🏁 Deactivating savings plan ${plan.id}: goal ${goal.id} already reached its target`);
+      await storage.updateGoalSavingsPlan(plan.id, plan.userId, { isActive: false });
+      return;
+    }
+
+    const userPrefs = await storage.getUserPreferences(plan.userId);
+    const language = userPrefs?.language || 'en';
+    const currency = userPrefs?.defaultCurrency || 'USD';
+
+    // Never put more into the goal than what is still missing
+    const amount = Math.min(plan.amount, remaining);
+    const balance = await storage.getTotalBalance(plan.userId);
+
+    if (balance < amount) {
+      console.log(`💸 Skipping savings plan ${plan.id}: balance ${balance} is below ${amount}`);
+      const updatedPlan = await storage.advanceGoalSavingsPlan(plan.id, plan.userId, plan.nextContributionDate, 'skipped_insufficient_balance');
+      if (!updatedPlan) {
+        console.log(`⚠️ Savings plan ${plan.id} was already handled for this date`);
+        return;
+      }
+      await this.notifyUser(
+        plan.userId,
+        this.createPlanMessage('skipped_insufficient_balance', language, {
+          goal,
+          amount,
+          balance,
+          currency,
+          nextContributionDate: updatedPlan.nextContributionDate,
+        }),
+        this.createPlanTemplate('skipped_insufficient_balance', language, { goal, amount, currency })
+      );
+      return;
+    }
+
+    const updatedPlan = await storage.advanceGoalSavingsPlan(plan.id, plan.userId, plan.nextContributionDate, 'contributed', {
+      goal,
+      amount,
+      description: `Auto savings: ${goal.name}`,
+    });
+    if (!updatedPlan) {
+      console.log(`⚠️ Savings plan ${plan.id} was already handled for this date`);
+      return;
+    }
+
+    const newCurrentAmount = goal.currentAmount + amount;
+    const goalCompleted = newCurrentAmount >= goal.targetAmount;
+    if (goalCompleted) {
+      await storage.updateGoalSavingsPlan(plan.id, plan.userId, { isActive: false });
+    }
+
+    console.log(`✅ Savings plan ${plan.id} contributed ${amount} to goal ${goal.id}`);
+
+    const outcome: PlanRunOutcome = goalCompleted ? 'goal_completed' : 'contributed';
+    await this.notifyUser(
+      plan.userId,
+      this.createPlanMessage(outcome, language, {
+        goal: { ...goal, currentAmount: newCurrentAmount },
+        amount,
+        balance: balance - amount,
+        currency,
+        nextContributionDate: updatedPlan.nextContributionDate,
+      }),
+      this.createPlanTemplate(outcome, language, { goal, amount, currency })
+    );
+  }
+
+  /**
+   * Send a message to all of the user's WhatsApp numbers and log every attempt
+   * @param template Sent instead where the provider only accepts templates
+   */
+  async notifyUser(userId: string, message: string, template?: MessageTemplate): Promise<void> {
+    const whatsappNumbers = await this.getUserWhatsAppNumbers(userId);
+
+    if (whatsappNumbers.length === 0) {
+      console.log(`⚠️ User ${userId} has no WhatsApp numbers connected`);
+      await this.logNotification({
+        userId,
+        type: 'goal_savings_plan',
+        message,
+        status: 'failed',
+        sentAt: Date.now(),
+        errorMessage: 'No active WhatsApp integration',
+      });
+      return;
+    }
+
+    for (const whatsappNumber of whatsappNumbers) {
+      try {
+        const result = await sendSingleBotMessage(whatsappNumber, message, template);
+
+        await this.logNotification({
+          userId,
+          type: 'goal_savings_plan',
+          whatsappNumber,
+          message,
+          status: result.success ? 'sent' : 'failed',
+          sentAt: Date.now(),
+          errorMessage: result.success ? undefined : result.message,
+        });
+      } catch (error) {
+        console.error(`❌ Error sending savings plan notification to ${whatsappNumber}:`, error);
+
+        await this.logNotification({
+          userId,
+          type: 'goal_savings_plan',
+          whatsappNumber,
+          message,
+          status: 'failed',
+          sentAt: Date.now(),
+          errorMessage: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+  }
+
+  /**
+   * Get all WhatsApp numbers connected to a user
+   */
+  async getUserWhatsAppNumbers(userId: string): Promise<string[]> {
+    try {
+      const integrations = await storage.getUserMessagingIntegrations(userId, 'whatsapp');
+      return integrations
+        .filter(integration => integration.status === 'active')
+        .map(integration => integration.externalId);
+    } catch (error) {
+      console.error(`Error getting WhatsApp numbers for user ${userId}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Log notification to database
+   */
+  async logNotification(log: InsertNotificationLog): Promise<void> {
+    try {
+      await storage.createNotificationLog(log);
+    } catch (error) {
+      console.error('Error logging notification:', error);
+    }
+  }
+
+  /**
+   * Create the confirmation / skip message based on language
+   */
+  private createPlanMessage(
+    outcome: PlanRunOutcome,
+    language: string,
+    details: { goal: Goal; amount: number; balance: number; currency: string; nextContributionDate: number }
+  ): string {
+    const { goal, amount, balance, currency, nextContributionDate } = details;
+    const locale = language === 'id' ? 'id-ID' : 'en-US';
+    const format = (value: number) => `${currency} ${new Intl.NumberFormat(locale).format(value)}`;
+    const progress = Math.min(100, Math.round((goal.currentAmount / goal.targetAmount) * 100));
+    const nextDate = new Date(nextContributionDate * 1000).toLocaleDateString(locale, {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+    });
+
+    const messages = {
+      en: {
+        contributed: `🎯 *Savings Plan Executed*
+
+${format(amount)} has been moved to your goal *${goal.name}*.
+
+📊 Progress: ${format(goal.currentAmount)} / ${format(goal.targetAmount)} (${progress}%)
+📅 Next contribution: ${nextDate}`,
+        goal_completed: `🎉 *Goal Reached!*
+
+${format(amount)} has been moved to *${goal.name}* and the goal is now fully funded.
+
+Your savings plan for this goal has been stopped.`,
+        skipped_insufficient_balance: `⚠️ *Savings Plan Skipped*
+
+Your plan to save ${format(amount)} for *${goal.name}* was skipped because your available balance is only ${format(balance)}.
+
+📅 Next attempt: ${nextDate}`,
+      },
+      id: {
+        contributed: `🎯 *Rencana Tabungan Dijalankan*
+
+${format(amount)} telah dipindahkan ke goal *${goal.name}*.
+
+📊 Progres: ${format(goal.currentAmount)} / ${format(goal.targetAmount)} (${progress}%)
+📅 Setoran berikutnya: ${nextDate}`,
+        goal_completed: `🎉 *Goal Tercapai!*
+
+${format(amount)} telah dipindahkan ke *${goal.name}* dan target goal sudah terpenuhi.
+
+Rencana tabungan untuk goal ini telah dihentikan.`,
+        skipped_insufficient_balance: `⚠️ *Rencana Tabungan Dilewati*
+
+Rencana menabung ${format(amount)} untuk *${goal.name}* dilewati karena saldo tersedia hanya ${format(balance)}.
+
+📅 Percobaan berikutnya: ${nextDate}`,
+      },
+    };
+
+    const languageMessages = messages[language as keyof typeof messages] || messages.en;
+    return languageMessages[outcome];
+  }
+
+  /**
+   * Template for the WhatsApp Cloud API when the user hasn't written in 24 hours. Register
+   * "monly_savings_plan_<outcome>" in WhatsApp Manager, in en and id, with the body variables
+   * {{1}} goal name and {{2}} amount.
+   */
+  private createPlanTemplate(
+    outcome: PlanRunOutcome,
+    language: string,
+    details: { goal: Goal; amount: number; currency: string }
+  ): MessageTemplate {
+    const locale = language === 'id' ? 'id-ID' : 'en-US';
+    return {
+      name: `monly_savings_plan_${outcome}`,
+      language: language === 'id' ? 'id' : 'en',
+      parameters: [details.goal.name, `${details.currency} ${new Intl.NumberFormat(locale).format(details.amount)}`],
+    };
+  }
+}
+
+export const goalSavingsPlanService = new GoalSavingsPlanServiceImpl();
@@ -3,10 +3,24 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { initializeSingleWhatsAppBot } from "./whatsapp-single-bot";
+import { initializeTelegramBot, isTelegramBotConfigured } from "./telegram-bot";
 import { startTransactionReminderScheduler } from "./transaction-reminder-scheduler";
+import { startRecurringTransactionScheduler } from "./recurring-transaction-scheduler";
+import { startGoalSavingsPlanScheduler } from "./goal-savings-plan-scheduler";
+import { startAccountDeletionScheduler } from "./account-deletion-scheduler";
+import { startBudgetAlertEvaluator } from "./budget-alert-service";
+import { WHATSAPP_CLOUD_WEBHOOK_PATH, type RawBodyRequest } from "./whatsapp-cloud-routes";
 
 const app = express();
-app.use(express.json());
+app.use(express.json({
+  limit: '5mb', // Reviewed statement imports can carry thousands of rows
+  // The WhatsApp Cloud webhook signature covers the exact bytes Meta sent
+  verify: (req, _res, buf) => {
+    if (req.url?.startsWith(WHATSAPP_CLOUD_WEBHOOK_PATH)) {
+      (req as RawBodyRequest).rawBody = buf;
+    }
+  }
+}));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -84,6 +98,24 @@ app.use((req, res, next) => {
       log(`❌ WhatsApp Bot initialization failed: ${error}`);
     }
 
+    // Telegram bot, when a bot token is configured
+    if (isTelegramBotConfigured()) {
+      log('🤖 Initializing Telegram Bot...');
+      try {
+        initializeTelegramBot();
+        log('✅ Telegram Bot initialization started');
+      } catch (error) {
+        log(`❌ Telegram Bot initialization failed: ${error}`);
+      }
+    }
+
+    // Budget alerts after every transaction write
+    try {
+      startBudgetAlertEvaluator();
+    } catch (error) {
+      log(`❌ Failed to start budget alert evaluator: ${error}`);
+    }
+
     // Start transaction reminder scheduler
     log('⏰ Starting transaction reminder scheduler...');
     try {
@@ -92,5 +124,30 @@ app.use((req, res, next) => {
     } catch (error) {
       log(`❌ Failed to start transaction reminder scheduler: ${error}`);
     }
+
+    // Start recurring transaction scheduler
+    log('🔁 Starting recurring transaction scheduler...');
+    try {
+      startRecurringTransactionScheduler();
+      log('✅ Recurring transaction scheduler started successfully');
+    } catch (error) {
+      log(`❌ Failed to start recurring transaction scheduler: ${error}`);
+    }
+
+    // Start goal savings plan scheduler
+    log('🎯 Starting goal savings plan scheduler...');
+    try {
+      startGoalSavingsPlanScheduler();
+      log('✅ Goal savings plan scheduler started successfully');
+    } catch (error) {
+      log(`❌ Failed to start goal savings plan scheduler: ${error}`);
+    }
+
+    // Purge accounts at the end of their deletion grace period
+    try {
+      startAccountDeletionScheduler();
+    } catch (error) {
+      log(`❌ Failed to start account deletion scheduler: ${error}`);
+    }
   });
 })();
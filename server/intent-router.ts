@@ -0,0 +1,289 @@
+import { parseTransactionText, splitTransactionText } from './transaction-text-parser';
+
+// Decides what a chat message is asking for - record a transaction, manage budgets, goals,
+// categories and so on. Shared by the WhatsApp bots and the web chat so they all agree.
+//
+// Every intent is tried in registry order: an explicit command ("cek budget", "nabung ...") wins
+// outright, otherwise each intent scores the message with weighted signals. When the two best
+// scores are too close to call, the user is asked which one they meant.
+
+export type IntentName =
+  | 'help'
+  | 'balance'
+  | 'status'
+  | 'recurring'
+  | 'budget'
+  | 'savings'
+  | 'category'
+  | 'undo'
+  | 'edit'
+  | 'query'
+  | 'transaction';
+
+export interface IntentContext {
+  language?: string;
+  goalNames?: string[]; // Lets "transfer 500rb dari liburan ke darurat" be recognised as a goal transfer
+}
+
+export interface IntentScore {
+  intent: IntentName;
+  confidence: number; // 0-1
+  source: 'command' | 'classifier';
+}
+
+export interface IntentClassification {
+  intent: IntentName | null; // null when the best candidates tie
+  confidence: number;
+  candidates: IntentScore[]; // Best first
+}
+
+export type IntentRoute =
+  | { type: 'intent'; intent: IntentName; text: string; confidence: number }
+  | { type: 'clarify'; question: string; candidates: IntentName[] };
+
+interface IntentSignal {
+  pattern: RegExp;
+  weight: number;
+}
+
+interface IntentDefinition {
+  name: IntentName;
+  label: { id: string; en: string }; // Used in the clarifying question
+  commands: RegExp[]; // Explicit command grammar, matched against the whole lowercase message
+  signals: IntentSignal[];
+  score?: (text: string, context: IntentContext) => number; // Extra signals that need more than a regex
+}
+
+// Below this the message is treated as a transaction - the transaction flow explains itself when it fails
+const MIN_CLASSIFIER_CONFIDENCE = 0.4;
+
+// Two candidates closer than this are a tie
+const TIE_MARGIN = 0.15;
+
+// How long a clarifying question waits for its answer
+const CLARIFICATION_TTL_MS = 5 * 60 * 1000;
+
+const GOAL_WORDS = 'goal|goals|tabungan|target|tujuan|savings';
+
+// Ordered registry - earlier commands win when several match
+const INTENTS: IntentDefinition[] = [
+  {
+    name: 'undo',
+    label: { id: 'membatalkan transaksi terakhir', en: 'undo the last transaction' },
+    commands: [
+      /^(batal|batalkan|undo|cancel|hapus transaksi terakhir|delete last transaction)$/,
+      // One item of a multi-transaction confirmation: "batal 2", "undo #3"
+      /^(batal|batalkan|undo|cancel|hapus)\s+(no\.?\s*|nomor\s+|item\s+|#)?\d{1,2}$/,
+    ],
+    signals: [{ pattern: /\b(batal|batalkan|undo)\b/, weight: 0.4 }],
+  },
+  {
+    name: 'edit',
+    label: { id: 'mengubah transaksi terakhir', en: 'edit the last transaction' },
+    commands: [
+      /^(ubah|ganti|edit|change)\s+(jumlah|nominal|amount|deskripsi|keterangan|description|tanggal|date)\b/,
+      // "ganti kategori transport" moves the transaction; "ubah kategori makan menjadi kuliner" renames the category
+      /^(ubah|ganti|edit|change)\s+(kategori|category)\s+((ke|to)\s+\S|(?!.*\b(menjadi|jadi|to)\b)\S)/,
+    ],
+    signals: [],
+  },
+  {
+    name: 'help',
+    label: { id: 'melihat bantuan', en: 'see the help' },
+    commands: [/^(bantuan|help|menu)$/],
+    signals: [{ pattern: /\b(bantuan|cara pakai|how to use)\b/, weight: 0.5 }],
+  },
+  {
+    name: 'balance',
+    label: { id: 'melihat ringkasan saldo', en: 'see your balance summary' },
+    commands: [/^(saldo|balance|ringkasan|summary)$/],
+    signals: [{ pattern: /\b(saldo|balance|ringkasan)\b/, weight: 0.4 }],
+  },
+  {
+    name: 'status',
+    label: { id: 'melihat status koneksi', en: 'see the connection status' },
+    commands: [/^status$/],
+    signals: [],
+  },
+  {
+    name: 'recurring',
+    label: { id: 'mengatur transaksi rutin', en: 'manage recurring transactions' },
+    commands: [/^(rutin|langganan|recurring)\b/, /^daftar rutin$/],
+    signals: [
+      { pattern: /\b(rutin|langganan|berlangganan|recurring|subscription)\b/, weight: 0.5 },
+      { pattern: /\b(setiap|tiap) (hari|minggu|bulan|tahun)\b/, weight: 0.2 },
+    ],
+  },
+  {
+    name: 'budget',
+    label: { id: 'mengatur budget', en: 'manage a budget' },
+    commands: [
+      /^budget\b/,
+      /^(set|atur|cek|check|hapus|delete|daftar|list|ubah|edit|lihat)\s+budget\b/,
+    ],
+    signals: [
+      { pattern: /\b(budget|anggaran)\b/, weight: 0.5 },
+      { pattern: /\bbatas (belanja|pengeluaran)\b/, weight: 0.3 },
+    ],
+  },
+  {
+    name: 'savings',
+    label: { id: 'mengatur tabungan / goal', en: 'manage savings goals' },
+    commands: [
+      /^(nabung|menabung|tabung|saving|savings)\b/,
+      new RegExp(`^(buat|create|daftar|list|hapus|delete|cek|check|saldo|lihat)\\s+(${GOAL_WORDS})\\b`),
+      /^(goal|goals|target|tujuan)\b/,
+      /^(kembalikan|tarik)\s+dana\b/,
+      new RegExp(`^(kembalikan|tarik|withdraw|return|refund)\\b.*\\b(${GOAL_WORDS}|ke saldo|to balance)\\b`),
+    ],
+    signals: [
+      { pattern: /\b(nabung|menabung)\b/, weight: 0.7 },
+      { pattern: /\b(tabungan|savings)\b/, weight: 0.5 },
+      { pattern: /\b(goal|goals)\b/, weight: 0.5 },
+      { pattern: /\b(target|tujuan)\b/, weight: 0.3 },
+      { pattern: /\b(tarik dana|kembalikan dana|withdraw)\b/, weight: 0.4 },
+    ],
+    // "transfer 500rb dari liburan ke darurat" moves money between goals, but only when a side names
+    // one - "transfer 1jt dari BCA ke GoPay" is an account transfer
+    score: (text, context) => {
+      const goalNames = (context.goalNames || []).filter(name => name.length >= 3).map(name => name.toLowerCase());
+      const transfer = /^transfer\b.*?\b(?:dari|from) (.+?) (?:ke|to) (.+)$/.exec(text);
+      if (transfer && goalNames.some(name => containsPhrase(transfer[1], name) || containsPhrase(transfer[2], name))) {
+        return 1;
+      }
+      return goalNames.some(name => containsPhrase(text, name)) ? 0.4 : 0;
+    },
+  },
+  {
+    name: 'category',
+    label: { id: 'mengatur kategori', en: 'manage categories' },
+    commands: [
+      /^(kategori|category|categories)\b/,
+      /^(buat|create|tambah|add|ubah|edit|ganti|rename|hapus|delete|daftar|list|lihat)\s+(kategori|category|categories)\b/,
+    ],
+    signals: [{ pattern: /\b(kategori|category)\b/, weight: 0.5 }],
+  },
+  {
+    name: 'query',
+    label: { id: 'bertanya tentang transaksi Anda', en: 'ask about your transactions' },
+    commands: [
+      // Budget and goal questions ("berapa sisa budget makan") belong to those intents
+      /^(berapa|bandingkan|compare|how much|how many)\b(?!.*\b(budget|anggaran|goal|goals|tabungan|target)\b)/,
+      /^(total|rata-rata|average)\s+(pengeluaran|pemasukan|spending|income|expenses?)\b/,
+    ],
+    signals: [
+      { pattern: /\b(berapa|how much|how many)\b/, weight: 0.4 },
+      { pattern: /\b(terbesar|terkecil|termahal|rata-rata|biggest|largest|average|vs|versus|dibanding)\b/, weight: 0.3 },
+      { pattern: /\b(total|pengeluaran|pemasukan|spending|spent)\b/, weight: 0.2 },
+      { pattern: /\b(hari ini|minggu ini|minggu lalu|bulan ini|bulan lalu|tahun ini|per (hari|minggu|bulan|kategori)|this month|last month)\b/, weight: 0.2 },
+      { pattern: /\?$/, weight: 0.2 },
+    ],
+  },
+  {
+    name: 'transaction',
+    label: { id: 'mencatat transaksi', en: 'record a transaction' },
+    commands: [],
+    signals: [
+      { pattern: /\b(beli|bayar|makan|minum|isi|gaji|terima|dapat|jual|spent|bought|paid|buy|pay|received|earned)\b/, weight: 0.2 },
+    ],
+    // An amount is the strongest sign of a transaction, a recognisable category the next one.
+    // A list such as "makan 25rb, parkir 5rb" counts when every item parses.
+    score: text => {
+      const parsed = splitTransactionText(text).map(item => parseTransactionText(item));
+      if (parsed.some(item => !item)) return 0;
+      return parsed.every(item => item!.confidence >= 0.75) ? 0.7 : 0.5;
+    },
+  },
+];
+
+interface PendingClarification {
+  text: string;
+  candidates: IntentName[];
+  expiresAt: number;
+}
+
+interface IntentRouter {
+  classify(text: string, context?: IntentContext): IntentClassification;
+  route(userId: string, text: string, context?: IntentContext): IntentRoute;
+}
+
+class IntentRouterImpl implements IntentRouter {
+  private pendingClarifications = new Map<string, PendingClarification>();
+
+  classify(text: string, context: IntentContext = {}): IntentClassification {
+    const normalized = text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+    const command = INTENTS.find(intent => intent.commands.some(pattern => pattern.test(normalized)));
+    if (command) {
+      const candidates: IntentScore[] = [{ intent: command.name, confidence: 1, source: 'command' }];
+      return { intent: command.name, confidence: 1, candidates };
+    }
+
+    const candidates: IntentScore[] = INTENTS
+      .map(intent => {
+        const signalScore = intent.signals
+          .filter(signal => signal.pattern.test(normalized))
+          .reduce((total, signal) => total + signal.weight, 0);
+        const confidence = Math.min(1, signalScore + (intent.score ? intent.score(normalized, context) : 0));
+        return { intent: intent.name, confidence: Math.round(confidence * 100) / 100, source: 'classifier' as const };
+      })
+      .filter(candidate => candidate.confidence > 0)
+      .sort((a, b) => b.confidence - a.confidence);
+
+    const [best, runnerUp] = candidates;
+    if (!best || best.confidence < MIN_CLASSIFIER_CONFIDENCE) {
+      return { intent: 'transaction', confidence: best?.confidence || 0, candidates };
+    }
+
+    if (runnerUp && runnerUp.confidence >= MIN_CLASSIFIER_CONFIDENCE && best.confidence - runnerUp.confidence < TIE_MARGIN) {
+      return { intent: null, confidence: best.confidence, candidates };
+    }
+
+    return { intent: best.intent, confidence: best.confidence, candidates };
+  }
+
+  /**
+   * Classify a message from a user, asking a clarifying question on a tie. A reply of "1" or "2"
+   * to that question routes the original message to the chosen intent.
+   */
+  route(userId: string, text: string, context: IntentContext = {}): IntentRoute {
+    const pending = this.pendingClarifications.get(userId);
+    this.pendingClarifications.delete(userId);
+
+    if (pending && pending.expiresAt > Date.now()) {
+      const choice = parseInt(text.trim(), 10);
+      if (choice >= 1 && choice <= pending.candidates.length) {
+        return { type: 'intent', intent: pending.candidates[choice - 1], text: pending.text, confidence: 1 };
+      }
+    }
+
+    const classification = this.classify(text, context);
+    if (classification.intent) {
+      console.log(`🧭 Intent "${classification.intent}" (${classification.confidence}) for: ${text}`);
+      return { type: 'intent', intent: classification.intent, text, confidence: classification.confidence };
+    }
+
+    const candidates = classification.candidates.slice(0, 2).map(candidate => candidate.intent);
+    console.log(`🧭 Intent tie between ${candidates.join(' and ')} for: ${text}`);
+
+    this.pendingClarifications.set(userId, { text, candidates, expiresAt: Date.now() + CLARIFICATION_TTL_MS });
+    return { type: 'clarify', question: this.buildQuestion(candidates, context.language || 'id'), candidates };
+  }
+
+  private buildQuestion(candidates: IntentName[], language: string): string {
+    const labels = candidates.map((candidate, index) => {
+      const intent = INTENTS.find(definition => definition.name === candidate)!;
+      return `${index + 1}. ${language === 'id' ? intent.label.id : intent.label.en}`;
+    });
+
+    return language === 'id'
+      ? `🤔 *Maksud Anda yang mana?*\n\n${labels.join('\n')}\n\nBalas dengan nomornya, atau kirim ulang pesan dengan lebih jelas.`
+      : `🤔 *Which one did you mean?*\n\n${labels.join('\n')}\n\nReply with the number, or send the message again more specifically.`;
+  }
+}
+
+function containsPhrase(text: string, phrase: string): boolean {
+  return (' ' + text + ' ').includes(' ' + phrase + ' ');
+}
+
+export const intentRouter = new IntentRouterImpl();
@@ -0,0 +1,241 @@
+import OpenAI from 'openai';
+import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+
+// Provider layer for every AI call in the app. Pick the backend with LLM_PROVIDER:
+//   openai - OpenAI API (OPENAI_API_KEY)
+//   local  - any OpenAI-compatible server such as Ollama or llama.cpp (LLM_BASE_URL, LLM_API_KEY)
+//   mock   - deterministic canned answers, no network - for tests, CI and offline development
+// Models are chosen per task: LLM_MODEL_<TASK> (e.g. LLM_MODEL_OCR), then LLM_MODEL, then the provider default.
+
+export type LLMTask =
+  | 'transaction_parsing'
+  | 'ocr'
+  | 'insights'
+  | 'budget_commands'
+  | 'savings_commands'
+  | 'chat'
+  | 'transcription';
+
+export type LLMProviderName = 'openai' | 'local' | 'mock';
+
+export type LLMMessage = ChatCompletionMessageParam;
+
+export interface LLMCompletionRequest {
+  messages: LLMMessage[];
+  json?: boolean; // Ask for a single JSON object as the answer
+  maxTokens?: number;
+  temperature?: number;
+}
+
+export interface LLMTranscriptionRequest {
+  file: File;
+  language?: string;
+  temperature?: number;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  complete(task: LLMTask, request: LLMCompletionRequest): Promise<string>;
+  transcribe(request: LLMTranscriptionRequest): Promise<string>;
+  getModel(task: LLMTask): string;
+}
+
+const OPENAI_DEFAULT_MODELS: Record<LLMTask, string> = {
+  transaction_parsing: 'gpt-4.1-nano',
+  ocr: 'gpt-4.1-nano',
+  insights: 'gpt-4.1-nano',
+  budget_commands: 'gpt-4.1-nano',
+  savings_commands: 'gpt-4o-mini',
+  chat: 'gpt-4.1-nano',
+  transcription: 'whisper-1',
+};
+
+const LOCAL_DEFAULT_MODELS: Record<LLMTask, string> = {
+  transaction_parsing: 'llama3.1',
+  ocr: 'llava',
+  insights: 'llama3.1',
+  budget_commands: 'llama3.1',
+  savings_commands: 'llama3.1',
+  chat: 'llama3.1',
+  transcription: 'whisper-1',
+};
+
+function resolveModel(task: LLMTask, defaults: Record<LLMTask, string>): string {
+  const taskModel = process.env[`LLM_MODEL_${task.toUpperCase()}`];
+  if (taskModel) return taskModel;
+
+  // A chat model can't transcribe audio, so the global override skips transcription
+  if (task !== 'transcription' && process.env.LLM_MODEL) return process.env.LLM_MODEL;
+
+  return defaults[task];
+}
+
+/**
+ * OpenAI itself and every server that speaks its API (Ollama, llama.cpp, vLLM, LM Studio)
+ */
+class OpenAICompatibleProvider implements LLMProvider {
+  constructor(
+    readonly name: 'openai' | 'local',
+    private client: OpenAI,
+    private defaults: Record<LLMTask, string>
+  ) {}
+
+  getModel(task: LLMTask): string {
+    return resolveModel(task, this.defaults);
+  }
+
+  async complete(task: LLMTask, request: LLMCompletionRequest): Promise<string> {
+    const response = await this.client.chat.completions.create({
+      model: this.getModel(task),
+      messages: request.messages,
+      response_format: request.json ? { type: 'json_object' } : undefined,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+    });
+
+    return response.choices[0]?.message?.content || '';
+  }
+
+  async transcribe(request: LLMTranscriptionRequest): Promise<string> {
+    const transcription = await this.client.audio.transcriptions.create({
+      file: request.file,
+      model: this.getModel('transcription'),
+      language: request.language,
+      response_format: 'text',
+      temperature: request.temperature,
+    });
+
+    return String(transcription).trim();
+  }
+}
+
+type MockResponse = string | ((request: LLMCompletionRequest) => string);
+
+/**
+ * Answers without any network call. The same input always gives the same output, and tests can
+ * pin an answer for a task with setResponse().
+ */
+export class MockLLMProvider implements LLMProvider {
+  readonly name = 'mock' as const;
+  private responses = new Map<LLMTask, MockResponse>();
+  private transcript = process.env.LLM_MOCK_TRANSCRIPT || '';
+
+  getModel(task: LLMTask): string {
+    return `mock-${task}`;
+  }
+
+  setResponse(task: LLMTask, response: MockResponse): void {
+    this.responses.set(task, response);
+  }
+
+  setTranscript(transcript: string): void {
+    this.transcript = transcript;
+  }
+
+  reset(): void {
+    this.responses.clear();
+    this.transcript = process.env.LLM_MOCK_TRANSCRIPT || '';
+  }
+
+  async complete(task: LLMTask, request: LLMCompletionRequest): Promise<string> {
+    const configured = this.responses.get(task);
+    if (configured !== undefined) {
+      return typeof configured === 'function' ? configured(request) : configured;
+    }
+
+    const text = this.getLastUserText(request.messages);
+
+    switch (task) {
+      case 'transaction_parsing':
+        return JSON.stringify(this.parseTransaction(text));
+      case 'ocr':
+        return JSON.stringify({ text: '', transactions: [], confidence: 0 });
+      case 'insights':
+        return request.json
+          ? JSON.stringify({ insights: ['Your spending is being tracked. Keep recording transactions to get better insights.'] })
+          : 'Keep tracking your spending to stay within your budget.';
+      default:
+        return request.json ? JSON.stringify({ action: 'unknown', confidence: 0 }) : 'This is a mock response.';
+    }
+  }
+
+  async transcribe(): Promise<string> {
+    return this.transcript;
+  }
+
+  private getLastUserText(messages: LLMMessage[]): string {
+    const message = [...messages].reverse().find(candidate => candidate.role === 'user');
+    if (!message) return '';
+    if (typeof message.content === 'string') return message.content;
+    return (message.content || [])
+      .map(part => (part.type === 'text' ? part.text : ''))
+      .join(' ');
+  }
+
+  // Just enough parsing for "beli kopi 25rb" style messages to flow through the app
+  private parseTransaction(text: string) {
+    const match = /(\d+(?:[.,]\d+)?)\s*(rb|ribu|k|jt|juta)?\b/i.exec(text);
+    const multipliers: Record<string, number> = { rb: 1e3, ribu: 1e3, k: 1e3, jt: 1e6, juta: 1e6 };
+    const amount = match
+      ? parseFloat(match[1].replace(',', '.')) * (match[2] ? multipliers[match[2].toLowerCase()] : 1)
+      : 0;
+
+    const description = text
+      .replace(/(\d+(?:[.,]\d+)?)\s*(rb|ribu|k|jt|juta)?\b/gi, '')
+      .replace(/\s+/g, ' ')
+      .trim()
+      .replace(/\b[a-z]/g, letter => letter.toUpperCase());
+
+    return {
+      amount,
+      description: description || 'Transaction',
+      category: 'Other',
+      type: /\b(gaji|salary|income|bonus|terima|received)\b/i.test(text) ? 'income' : 'expense',
+      confidence: amount > 0 ? 0.9 : 0.3,
+    };
+  }
+}
+
+function createProvider(): LLMProvider {
+  const configured = (process.env.LLM_PROVIDER || '').toLowerCase();
+  const apiKey = process.env.OPENAI_API_KEY || process.env.OPENAI_KEY;
+
+  if (configured === 'mock') {
+    return new MockLLMProvider();
+  }
+
+  if (configured === 'local') {
+    const baseURL = process.env.LLM_BASE_URL || 'http://localhost:11434/v1';
+    console.log(`🤖 Using local LLM provider at ${baseURL}`);
+    return new OpenAICompatibleProvider(
+      'local',
+      new OpenAI({ apiKey: process.env.LLM_API_KEY || 'local', baseURL }),
+      LOCAL_DEFAULT_MODELS
+    );
+  }
+
+  if (configured && configured !== 'openai') {
+    console.warn(`⚠️ Unknown LLM_PROVIDER "${configured}", falling back to OpenAI`);
+  }
+
+  if (!apiKey) {
+    console.warn('⚠️ OPENAI_API_KEY is not set - AI features use the mock provider');
+    return new MockLLMProvider();
+  }
+
+  return new OpenAICompatibleProvider(
+    'openai',
+    new OpenAI({ apiKey, baseURL: process.env.OPENAI_BASE_URL || undefined }),
+    OPENAI_DEFAULT_MODELS
+  );
+}
+
+export const llm: LLMProvider = createProvider();
+
+/**
+ * False when no real model is available: the mock provider was picked only because no API key is
+ * set. Callers with an offline alternative should use it instead of the mock's canned answers.
+ */
+export function isLLMConfigured(): boolean {
+  return llm.name !== 'mock' || (process.env.LLM_PROVIDER || '').toLowerCase() === 'mock';
+}
@@ -0,0 +1,242 @@
+import net from 'net';
+import tls from 'tls';
+import crypto from 'crypto';
+import os from 'os';
+
+// Outgoing email. With SMTP_HOST set, mail goes to that server (SMTP_PORT, default 587 with
+// STARTTLS; SMTP_SECURE=true for TLS from the start, usually port 465; SMTP_USER/SMTP_PASS for
+// AUTH PLAIN; SMTP_FROM as sender). Without it, outside production, the log mailer stands in: it
+// prints each message and keeps it in memory, for local runs and scripted checks.
+
+const SMTP_TIMEOUT_MS = 30 * 1000;
+const LOG_OUTBOX_SIZE = 50;
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface Mailer {
+  readonly name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean; // TLS from the start instead of STARTTLS
+  user?: string;
+  password?: string;
+  from: string;
+}
+
+interface SmtpReply {
+  code: number;
+  text: string;
+}
+
+/**
+ * One conversation with an SMTP server: replies are read line by line, multi-line replies
+ * ("250-...", then "250 ...") as one
+ */
+class SmtpConnection {
+  private lines: string[] = [];
+  private partial = '';
+  private failure: Error | null = null;
+  private notify: (() => void) | null = null;
+
+  constructor(private socket: net.Socket) {
+    this.attach(socket);
+  }
+
+  static async open(config: SmtpConfig): Promise<SmtpConnection> {
+    const socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host })
+      : net.connect({ host: config.host, port: config.port });
+
+    await new Promise<void>((resolve, reject) => {
+      socket.once(config.secure ? 'secureConnect' : 'connect', () => resolve());
+      socket.once('error', reject);
+    });
+    return new SmtpConnection(socket);
+  }
+
+  async read(): Promise<SmtpReply> {
+    for (;;) {
+      const last = this.lines.findIndex(line => /^\d{3}(?: |$)/.test(line));
+      if (last >= 0) {
+        const reply = this.lines.splice(0, last + 1);
+        return {
+          code: Number(reply[last].slice(0, 3)),
+          text: reply.map(line => line.slice(4)).join('\n'),
+        };
+      }
+      if (this.failure) throw this.failure;
+
+      await new Promise<void>(resolve => { this.notify = resolve; });
+    }
+  }
+
+  /**
+   * Send a command and check the reply code
+   * @param logged What to show in errors instead of the command, for credentials
+   */
+  async command(line: string, expected: number[], logged: string = line): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    const reply = await this.read();
+    if (!expected.includes(reply.code)) {
+      throw new Error(`SMTP ${logged.split(' ')[0]} failed: ${reply.code} ${reply.text}`);
+    }
+    return reply;
+  }
+
+  /**
+   * Switch the connection to TLS after STARTTLS
+   */
+  async upgrade(host: string): Promise<void> {
+    this.socket.removeAllListeners();
+    const secured = tls.connect({ socket: this.socket, servername: host });
+    await new Promise<void>((resolve, reject) => {
+      secured.once('secureConnect', () => resolve());
+      secured.once('error', reject);
+    });
+    this.attach(secured);
+  }
+
+  close(): void {
+    this.socket.end();
+  }
+
+  private attach(socket: net.Socket): void {
+    this.socket = socket;
+    socket.on('data', (chunk: Buffer) => {
+      this.partial += chunk.toString('utf8');
+      const lines = this.partial.split('\r\n');
+      this.partial = lines.pop() || '';
+      this.lines.push(...lines);
+      this.wake();
+    });
+    socket.on('error', (error) => {
+      this.failure = error;
+      this.wake();
+    });
+    socket.on('close', () => {
+      this.failure = this.failure || new Error('SMTP connection closed');
+      this.wake();
+    });
+    socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error('SMTP server timed out')));
+  }
+
+  private wake(): void {
+    const notify = this.notify;
+    this.notify = null;
+    notify?.();
+  }
+}
+
+export class SmtpMailer implements Mailer {
+  readonly name = 'smtp';
+
+  constructor(private config: SmtpConfig) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const connection = await SmtpConnection.open(this.config);
+    try {
+      await this.expect(connection, [220]);
+      const hello = await connection.command(`EHLO ${os.hostname()}`, [250]);
+
+      if (!this.config.secure && /^STARTTLS$/im.test(hello.text)) {
+        await connection.command('STARTTLS', [220]);
+        await connection.upgrade(this.config.host);
+        await connection.command(`EHLO ${os.hostname()}`, [250]);
+      }
+
+      if (this.config.user) {
+        const credentials = Buffer.from(`\0${this.config.user}\0${this.config.password || ''}`).toString('base64');
+        await connection.command(`AUTH PLAIN ${credentials}`, [235], 'AUTH PLAIN');
+      }
+
+      await connection.command(`MAIL FROM:<${addressOf(this.config.from)}>`, [250]);
+      await connection.command(`RCPT TO:<${message.to}>`, [250, 251]);
+      await connection.command('DATA', [354]);
+      // A line starting with "." is escaped by doubling it; "." alone ends the message
+      const body = this.format(message).replace(/^\./gm, '..');
+      await connection.command(`${body}\r\n.`, [250], 'DATA');
+      await connection.command('QUIT', [221]).catch(() => undefined);
+    } finally {
+      connection.close();
+    }
+  }
+
+  private async expect(connection: SmtpConnection, expected: number[]): Promise<void> {
+    const reply = await connection.read();
+    if (!expected.includes(reply.code)) {
+      throw new Error(`SMTP server refused the connection: ${reply.code} ${reply.text}`);
+    }
+  }
+
+  private format(message: MailMessage): string {
+    const domain = addressOf(this.config.from).split('@')[1] || os.hostname();
+    const headers = [
+      `From: ${this.config.from}`,
+      `To: ${message.to}`,
+      `Subject: =?UTF-8?B?${Buffer.from(message.subject).toString('base64')}?=`,
+      `Date: ${new Date().toUTCString()}`,
+      `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+      'MIME-Version: 1.0',
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: base64',
+    ];
+    const body = Buffer.from(message.text).toString('base64').match(/.{1,76}/g) || [];
+    return [...headers, '', ...body].join('\r\n');
+  }
+}
+
+/**
+ * Stand-in for a mail server: prints the message and keeps the latest ones in outbox
+ */
+export class LogMailer implements Mailer {
+  readonly name = 'log';
+  readonly outbox: MailMessage[] = [];
+
+  async send(message: MailMessage): Promise<void> {
+    this.outbox.push(message);
+    if (this.outbox.length > LOG_OUTBOX_SIZE) {
+      this.outbox.shift();
+    }
+    console.log(`📧 [log mailer] To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}`);
+  }
+}
+
+function addressOf(mailbox: string): string {
+  const match = /<([^>]+)>/.exec(mailbox);
+  return (match ? match[1] : mailbox).trim();
+}
+
+let mailer: Mailer | null | undefined;
+
+/**
+ * The configured mailer, or null when email can't be sent (production without SMTP_HOST)
+ */
+export const getMailer = (): Mailer | null => {
+  if (mailer !== undefined) {
+    return mailer;
+  }
+
+  const host = process.env.SMTP_HOST;
+  if (host) {
+    const secure = process.env.SMTP_SECURE === 'true';
+    mailer = new SmtpMailer({
+      host,
+      port: Number(process.env.SMTP_PORT) || (secure ? 465 : 587),
+      secure,
+      user: process.env.SMTP_USER,
+      password: process.env.SMTP_PASS,
+      from: process.env.SMTP_FROM || `Monly AI <no-reply@${host}>`,
+    });
+  } else {
+    mailer = process.env.NODE_ENV === 'production' ? null : new LogMailer();
+  }
+  return mailer;
+};
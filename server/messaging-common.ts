@@ -0,0 +1,45 @@
+import type { IncomingMessage, MessageHandler } from './messaging-provider';
+
+// Pieces shared by the providers that receive messages in batches (Telegram polling, Cloud API
+// webhooks) rather than as one event per message.
+
+/**
+ * Thrown by sendText when the channel only accepts a template right now - the WhatsApp Cloud API
+ * outside the 24 hour customer service window.
+ */
+export class MessagingWindowClosedError extends Error {
+  constructor(readonly to: string) {
+    super(`Conversation window with ${to} is closed; a template message is required`);
+    this.name = 'MessagingWindowClosedError';
+  }
+}
+
+/**
+ * Runs the handlers for messages one chat at a time: messages from one chat are handled in order,
+ * so "batal" never overtakes the transaction it undoes, while different chats don't wait for each other.
+ */
+export class ChatMessageQueue {
+  private chats: Map<string, Promise<void>> = new Map();
+
+  constructor(private label: string, private handlers: MessageHandler[]) {}
+
+  enqueue(message: IncomingMessage): void {
+    const previous = this.chats.get(message.from) || Promise.resolve();
+    const next = previous.then(async () => {
+      for (const handler of this.handlers) {
+        try {
+          await handler(message);
+        } catch (error) {
+          console.error(`Error handling ${this.label} message from ${message.from}:`, error);
+        }
+      }
+    });
+
+    this.chats.set(message.from, next);
+    next.finally(() => {
+      if (this.chats.get(message.from) === next) {
+        this.chats.delete(message.from);
+      }
+    });
+  }
+}
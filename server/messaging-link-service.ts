@@ -0,0 +1,144 @@
+import { db } from './db';
+import { messagingIntegrations, whatsappActivationCodes, type MessagingChannel } from '@shared/schema';
+import { eq, and, gt, isNull } from 'drizzle-orm';
+
+// Linking a chat account to a Monly account works the same on every channel: the user creates an
+// activation code in the app and sends it to the bot from WhatsApp or Telegram. The code says
+// which account; the channel and the sender's id say which chat account gets linked.
+
+export type ActivationResult =
+  | { status: 'linked'; userId: string }
+  | { status: 'invalid_code' }
+  | { status: 'already_linked'; userId: string };
+
+interface MessagingLinkService {
+  findUserId(channel: MessagingChannel, externalId: string): Promise<string | null>;
+  getLinkedIds(userId: string, channel: MessagingChannel): Promise<string[]>;
+  activate(channel: MessagingChannel, externalId: string, code: string, displayName?: string | null): Promise<ActivationResult>;
+}
+
+class MessagingLinkServiceImpl implements MessagingLinkService {
+
+  /**
+   * The account an active chat account is linked to, or null when it isn't linked.
+   */
+  async findUserId(channel: MessagingChannel, externalId: string): Promise<string | null> {
+    try {
+      const [integration] = await db.select()
+        .from(messagingIntegrations)
+        .where(
+          and(
+            eq(messagingIntegrations.channel, channel),
+            eq(messagingIntegrations.externalId, externalId),
+            eq(messagingIntegrations.status, 'active')
+          )
+        )
+        .limit(1);
+
+      return integration ? integration.userId : null;
+    } catch (error) {
+      console.error(`Error getting user ID for ${channel} ${externalId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * The active chat accounts a user has linked on a channel - phone numbers on WhatsApp.
+   */
+  async getLinkedIds(userId: string, channel: MessagingChannel): Promise<string[]> {
+    try {
+      const integrations = await db.select({ externalId: messagingIntegrations.externalId })
+        .from(messagingIntegrations)
+        .where(
+          and(
+            eq(messagingIntegrations.userId, userId),
+            eq(messagingIntegrations.channel, channel),
+            eq(messagingIntegrations.status, 'active')
+          )
+        );
+
+      return integrations.map(integration => integration.externalId);
+    } catch (error) {
+      console.error(`Error getting linked ${channel} accounts for user ${userId}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Redeem an activation code for a chat account. A chat account belongs to one Monly account at
+   * a time; the code is only used up when the link is made.
+   */
+  async activate(
+    channel: MessagingChannel,
+    externalId: string,
+    code: string,
+    displayName?: string | null
+  ): Promise<ActivationResult> {
+    console.log(`Processing activation code: ${code} for ${channel}: ${externalId}`);
+
+    // One transaction, so two senders can't both redeem the same code
+    const result = db.transaction((tx): ActivationResult => {
+      // Check if activation code exists and is still valid
+      const activationCode = tx.select()
+        .from(whatsappActivationCodes)
+        .where(
+          and(
+            eq(whatsappActivationCodes.code, code.toUpperCase()),
+            gt(whatsappActivationCodes.expiresAt, Date.now()),
+            isNull(whatsappActivationCodes.usedAt)
+          )
+        )
+        .get();
+
+      if (!activationCode) {
+        return { status: 'invalid_code' };
+      }
+
+      // Check if this chat account is already connected
+      const existing = tx.select()
+        .from(messagingIntegrations)
+        .where(
+          and(
+            eq(messagingIntegrations.channel, channel),
+            eq(messagingIntegrations.externalId, externalId)
+          )
+        )
+        .get();
+
+      if (existing) {
+        return { status: 'already_linked', userId: existing.userId };
+      }
+
+      // Mark activation code as used, unless it already was
+      const now = Date.now();
+      const consumed = tx.update(whatsappActivationCodes)
+        .set({ usedAt: now })
+        .where(and(eq(whatsappActivationCodes.id, activationCode.id), isNull(whatsappActivationCodes.usedAt)))
+        .returning({ id: whatsappActivationCodes.id })
+        .all();
+
+      if (consumed.length === 0) {
+        return { status: 'invalid_code' };
+      }
+
+      tx.insert(messagingIntegrations).values({
+        userId: activationCode.userId,
+        channel,
+        externalId,
+        displayName: displayName || null,
+        status: 'active',
+        activatedAt: now,
+        createdAt: now,
+      }).run();
+
+      return { status: 'linked', userId: activationCode.userId };
+    });
+
+    if (result.status === 'linked') {
+      console.log(`${channel} ${externalId} successfully activated for user ${result.userId}`);
+    }
+    return result;
+  }
+}
+
+export const messagingLinkService = new MessagingLinkServiceImpl();
@@ -0,0 +1,114 @@
+import { WhatsAppWebProvider } from './whatsapp-web-provider';
+import { WhatsAppCloudProvider, getWhatsAppCloudConfig } from './whatsapp-cloud-provider';
+import { TelegramProvider, DEFAULT_TELEGRAM_API_BASE_URL } from './telegram-provider';
+import { messagingSimulator } from './messaging-simulator';
+import type { MessagingChannel } from '@shared/schema';
+
+// The bots talk to a chat network only through a MessagingProvider: whatsapp-web.js, the WhatsApp
+// Cloud API or the Telegram Bot API in production, the in-memory simulator for local consoles and
+// scripted conversations. A provider owns the transport (browser session, QR login, polling,
+// webhooks); what to do with a message and when to retry a lost connection stay with the bot that
+// created it.
+
+export type ConnectionStatus = 'initializing' | 'loading_screen' | 'qr_received' | 'authenticated' | 'ready' | 'disconnected';
+
+export type IncomingMessageType = 'chat' | 'ptt' | 'audio' | 'image' | 'other';
+
+export interface MediaAttachment {
+  data: string; // base64
+  mimetype: string;
+  filename?: string | null;
+}
+
+export interface SentMessage {
+  id: string;
+}
+
+/**
+ * A message pre-approved by the network, for channels that only allow those outside a conversation
+ * (WhatsApp Cloud API: more than 24 hours after the person's last message).
+ */
+export interface MessageTemplate {
+  name: string;
+  language: string;
+  parameters: string[]; // Body variables {{1}}, {{2}}, ... in order
+}
+
+/**
+ * A direct message from a person to the bot. Group chats and status updates never reach the
+ * handlers - providers drop them.
+ */
+export interface IncomingMessage {
+  id: string;
+  from: string; // Sender's number without any network suffix, e.g. "6281234567890"
+  senderName: string | null;
+  type: IncomingMessageType;
+  body: string;
+  hasQuotedMsg: boolean;
+  getQuotedMsg(): Promise<{ id: string } | null>;
+  downloadMedia(): Promise<MediaAttachment | null>;
+  reply(text: string): Promise<SentMessage | undefined>;
+}
+
+export type MessagingEvent =
+  | { type: 'qr'; qrCode: string }
+  | { type: 'authenticated' }
+  | { type: 'ready' }
+  | { type: 'auth_failure'; reason: string }
+  | { type: 'disconnected'; reason: string };
+
+export type MessageHandler = (message: IncomingMessage) => Promise<void>;
+export type MessagingEventListener = (event: MessagingEvent) => void;
+
+export interface MessagingConnectionState {
+  status: ConnectionStatus;
+  qrCode: string | null; // Data URL while waiting for a scan
+}
+
+export interface MessagingProvider {
+  readonly name: string;
+  readonly sessionId: string;
+  getState(): MessagingConnectionState;
+  /** Start the session. Resolves once the transport is up; login continues through events. */
+  initialize(): Promise<void>;
+  destroy(): Promise<void>;
+  /** Whether a session that reports ready can still deliver messages. */
+  isHealthy(): Promise<boolean>;
+  sendText(to: string, text: string): Promise<SentMessage>;
+  sendMedia(to: string, media: MediaAttachment, caption?: string): Promise<SentMessage>;
+  /** Only on channels with templates; sendText throws MessagingWindowClosedError when one is needed. */
+  sendTemplate?(to: string, template: MessageTemplate): Promise<SentMessage>;
+  onMessage(handler: MessageHandler): void;
+  onEvent(listener: MessagingEventListener): void;
+}
+
+export const isMessagingSimulatorEnabled = (): boolean => process.env.MESSAGING_PROVIDER === 'simulator';
+
+// The official API serves every user from one business number, so there are no per-user sessions
+export const isWhatsAppCloudEnabled = (): boolean => process.env.MESSAGING_PROVIDER === 'whatsapp-cloud';
+
+/**
+ * A provider for one bot session. MESSAGING_PROVIDER picks the WhatsApp transport: whatsapp-web
+ * (default, headless Chrome) or whatsapp-cloud; simulator swaps every session, on every channel,
+ * for an in-memory one that the simulator console can talk to.
+ * @param sessionId Stable id of the session - a WhatsApp login is stored under it
+ */
+export const createMessagingProvider = (sessionId: string, channel: MessagingChannel = 'whatsapp'): MessagingProvider => {
+  if (isMessagingSimulatorEnabled()) {
+    return messagingSimulator.createSession(sessionId);
+  }
+
+  if (channel === 'telegram') {
+    const token = process.env.TELEGRAM_BOT_TOKEN;
+    if (!token) {
+      throw new Error('TELEGRAM_BOT_TOKEN is not set');
+    }
+    return new TelegramProvider(sessionId, token, process.env.TELEGRAM_API_BASE_URL || DEFAULT_TELEGRAM_API_BASE_URL);
+  }
+
+  if (isWhatsAppCloudEnabled()) {
+    return new WhatsAppCloudProvider(sessionId, getWhatsAppCloudConfig());
+  }
+
+  return new WhatsAppWebProvider(sessionId);
+};
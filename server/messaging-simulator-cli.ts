@@ -0,0 +1,174 @@
+#!/usr/bin/env node
+
+// Chat with the WhatsApp or Telegram bot from a terminal, or replay a scripted conversation against it.
+//
+//   npm run simulator                                   interactive, as 6281234567890
+//   npm run simulator -- --from 628111 conversation.txt run a script, exit 1 on a failed expectation
+//   npm run simulator -- --telegram                     talk to the Telegram bot instead
+//
+// Every line is a message to the bot, except:
+//   # comment
+//   < text            the bot's reply to the previous message must contain this text (scripts)
+//   :from <number>    talk as another number
+//   :quote <text>     reply to the bot's last message, like swiping a message on the phone
+//   :image <path>     send a photo (a receipt)
+//   :voice <path>     send a voice note
+//   :transcript       print the whole conversation
+//   :quit
+//
+// The bot runs against the configured database, so the number must be linked to an account
+// (or send "AKTIVASI: <code>" first).
+
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import type { SimulatorProvider, TranscriptEntry } from './messaging-simulator';
+import type { MediaAttachment } from './messaging-provider';
+
+const IMAGE_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+};
+
+interface ConsoleState {
+  from: string;
+  lastReplies: TranscriptEntry[];
+  failures: number;
+}
+
+const readMedia = (file: string, mimetype: string): MediaAttachment => ({
+  data: fs.readFileSync(file).toString('base64'),
+  mimetype,
+  filename: path.basename(file),
+});
+
+const printReplies = (replies: TranscriptEntry[]) => {
+  if (replies.length === 0) {
+    console.log('   (no reply)');
+  }
+  for (const reply of replies) {
+    console.log(`🤖 ${reply.body.split('\n').join('\n   ')}\n`);
+  }
+};
+
+async function handleLine(session: SimulatorProvider, state: ConsoleState, line: string): Promise<boolean> {
+  const input = line.trim();
+  if (!input || input.startsWith('#')) return true;
+
+  if (input.startsWith('<')) {
+    const expected = input.slice(1).trim().toLowerCase();
+    const matched = state.lastReplies.some(reply => reply.body.toLowerCase().includes(expected));
+    if (!matched) {
+      state.failures++;
+      console.log(`❌ Expected a reply containing "${input.slice(1).trim()}"`);
+    }
+    return true;
+  }
+
+  const [command, ...rest] = input.split(' ');
+  const argument = rest.join(' ').trim();
+
+  switch (command) {
+    case ':quit':
+    case ':exit':
+      return false;
+
+    case ':from':
+      state.from = argument.replace(/\D/g, '') || state.from;
+      console.log(`📱 Talking as ${state.from}`);
+      return true;
+
+    case ':transcript':
+      for (const entry of session.getTranscript(state.from)) {
+        console.log(`${entry.direction === 'in' ? '👤' : '🤖'} ${entry.body}`);
+      }
+      return true;
+
+    case ':quote': {
+      const quoted = state.lastReplies[state.lastReplies.length - 1];
+      state.lastReplies = await session.receive({ from: state.from, body: argument, quotedMessageId: quoted?.id });
+      break;
+    }
+
+    case ':image': {
+      const mimetype = IMAGE_TYPES[path.extname(argument).toLowerCase()] || 'image/jpeg';
+      state.lastReplies = await session.receive({ from: state.from, type: 'image', media: readMedia(argument, mimetype) });
+      break;
+    }
+
+    case ':voice':
+      state.lastReplies = await session.receive({ from: state.from, type: 'ptt', media: readMedia(argument, 'audio/ogg') });
+      break;
+
+    default:
+      state.lastReplies = await session.receive({ from: state.from, body: input });
+  }
+
+  printReplies(state.lastReplies);
+  return true;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const fromIndex = args.indexOf('--from');
+  const from = fromIndex >= 0 ? args.splice(fromIndex, 2)[1] : '6281234567890';
+  const telegramIndex = args.indexOf('--telegram');
+  const telegram = telegramIndex >= 0 && args.splice(telegramIndex, 1).length > 0;
+  const scriptFile = args[0];
+
+  // Before the bot modules load, so every session they create is simulated
+  process.env.MESSAGING_PROVIDER = 'simulator';
+  const { messagingSimulator } = await import('./messaging-simulator');
+
+  let sessionId: string;
+  if (telegram) {
+    const { initializeTelegramBot, TELEGRAM_BOT_SESSION_ID } = await import('./telegram-bot');
+    initializeTelegramBot();
+    sessionId = TELEGRAM_BOT_SESSION_ID;
+  } else {
+    const { initializeSingleWhatsAppBot, SINGLE_BOT_SESSION_ID } = await import('./whatsapp-single-bot');
+    initializeSingleWhatsAppBot();
+    sessionId = SINGLE_BOT_SESSION_ID;
+  }
+
+  const session = messagingSimulator.getSession(sessionId)!;
+  session.scan();
+
+  const state: ConsoleState = { from, lastReplies: [], failures: 0 };
+
+  if (scriptFile) {
+    const lines = fs.readFileSync(scriptFile, 'utf-8').split('\n');
+    for (const line of lines) {
+      if (!line.trim().startsWith('<') && line.trim() && !line.trim().startsWith('#')) {
+        console.log(`👤 ${line.trim()}`);
+      }
+      if (!(await handleLine(session, state, line))) break;
+    }
+
+    console.log(state.failures === 0 ? '✅ Conversation passed' : `❌ ${state.failures} expectation(s) failed`);
+    process.exit(state.failures === 0 ? 0 : 1);
+  }
+
+  console.log(`💬 Monly ${telegram ? 'Telegram' : 'WhatsApp'} bot simulator - talking as ${from}. Type :quit to leave.\n`);
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout, prompt: '👤 ' });
+  rl.prompt();
+
+  for await (const line of rl) {
+    try {
+      if (!(await handleLine(session, state, line))) break;
+    } catch (error) {
+      console.error('❌', error instanceof Error ? error.message : error);
+    }
+    rl.prompt();
+  }
+
+  rl.close();
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error('❌ Simulator failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,117 @@
+import express from 'express';
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { messagingSimulator } from './messaging-simulator';
+import { SINGLE_BOT_SESSION_ID } from './whatsapp-single-bot';
+
+// HTTP console for the messaging simulator, mounted only with MESSAGING_PROVIDER=simulator.
+// Scripts post messages as any number and get back what the bot replied, e.g.
+//   POST /api/simulator/sessions/monly-single-bot/messages { "from": "6281234567890", "body": "kopi 25rb" }
+
+const router = express.Router();
+
+const mediaSchema = z.object({
+  data: z.string().min(1),
+  mimetype: z.string().min(1),
+  filename: z.string().nullish(),
+});
+
+const simulatedMessageSchema = z.object({
+  from: z.string().min(1),
+  body: z.string().optional(),
+  type: z.enum(['chat', 'ptt', 'audio', 'image', 'other']).optional(),
+  senderName: z.string().nullish(),
+  media: mediaSchema.nullish(),
+  quotedMessageId: z.string().nullish(),
+});
+
+const sendSchema = z.object({
+  to: z.string().min(1),
+  body: z.string().min(1),
+});
+
+const getSession = (req: Request, res: Response) => {
+  const sessionId = req.params.sessionId === 'default' ? SINGLE_BOT_SESSION_ID : req.params.sessionId;
+  const session = messagingSimulator.getSession(sessionId);
+  if (!session) {
+    res.status(404).json({ message: `Simulator session ${sessionId} not found` });
+  }
+  return session;
+};
+
+// List simulated sessions: the shared bot and any per-user clients
+router.get('/simulator/sessions', (_req, res: Response) => {
+  res.json(messagingSimulator.listSessions());
+});
+
+// Send a message to the bot and wait for its replies
+router.post('/simulator/sessions/:sessionId/messages', async (req: Request, res: Response) => {
+  try {
+    const session = getSession(req, res);
+    if (!session) return;
+
+    const input = simulatedMessageSchema.parse(req.body);
+    const replies = await session.receive(input);
+    res.json({ replies });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid message', errors: error.errors });
+    }
+    console.error('Error simulating message:', error);
+    res.status(500).json({ message: error instanceof Error ? error.message : 'Failed to simulate message' });
+  }
+});
+
+// Send a message from the bot, as notifications do
+router.post('/simulator/sessions/:sessionId/send', async (req: Request, res: Response) => {
+  try {
+    const session = getSession(req, res);
+    if (!session) return;
+
+    const { to, body } = sendSchema.parse(req.body);
+    res.json(await session.sendText(to, body));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid message', errors: error.errors });
+    }
+    console.error('Error sending simulated message:', error);
+    res.status(500).json({ message: error instanceof Error ? error.message : 'Failed to send message' });
+  }
+});
+
+// Everything sent and received, optionally for one number
+router.get('/simulator/sessions/:sessionId/transcript', (req: Request, res: Response) => {
+  const session = getSession(req, res);
+  if (!session) return;
+
+  const chat = typeof req.query.chat === 'string' ? req.query.chat : undefined;
+  res.json(session.getTranscript(chat));
+});
+
+router.delete('/simulator/sessions/:sessionId/transcript', (req: Request, res: Response) => {
+  const session = getSession(req, res);
+  if (!session) return;
+
+  const chat = typeof req.query.chat === 'string' ? req.query.chat : undefined;
+  session.clearTranscript(chat);
+  res.json({ success: true });
+});
+
+// QR lifecycle: scan a waiting QR code, or drop the connection to exercise reconnects
+router.post('/simulator/sessions/:sessionId/scan', (req: Request, res: Response) => {
+  const session = getSession(req, res);
+  if (!session) return;
+
+  session.scan();
+  res.json(session.getState());
+});
+
+router.post('/simulator/sessions/:sessionId/disconnect', (req: Request, res: Response) => {
+  const session = getSession(req, res);
+  if (!session) return;
+
+  session.simulateDisconnect(typeof req.body?.reason === 'string' ? req.body.reason : undefined);
+  res.json(session.getState());
+});
+
+export default router;
@@ -0,0 +1,112 @@
+import { after, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { Server } from 'http';
+
+// Talks to the WhatsApp bot through the simulator console the way a person on a phone would: link
+// the number, record a transaction, ask about it and take it back. Runs the real bot handlers
+// against a throwaway SQLite file.
+
+const FROM = '6281234567890';
+
+let dbDir: string;
+let server: Server;
+let baseUrl: string;
+let token: string;
+
+async function api(method: string, url: string, body?: unknown): Promise<any> {
+  const response = await fetch(`${baseUrl}${url}`, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${token}`,
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  assert.ok(response.status < 300, `${method} ${url} answered ${response.status}`);
+  return response.json();
+}
+
+// Sends a message as FROM and returns everything the bot replied, in one string
+async function say(body: string): Promise<string> {
+  const response = await fetch(`${baseUrl}/api/simulator/sessions/default/messages`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ from: FROM, body }),
+  });
+  assert.equal(response.status, 200);
+  const { replies } = await response.json();
+  return replies.map((reply: { body: string }) => reply.body).join('\n');
+}
+
+async function transactions(): Promise<any[]> {
+  return (await api('GET', '/api/transactions')).items;
+}
+
+before(async () => {
+  // The bot logs every step of every message; that much output trips up the test runner's protocol
+  mock.method(console, 'log', () => {});
+
+  dbDir = fs.mkdtempSync(path.join(os.tmpdir(), 'simulator-test-'));
+  process.env.DATABASE_URL = `file:${path.join(dbDir, 'test.db')}`;
+  process.env.MESSAGING_PROVIDER = 'simulator';
+  delete process.env.SIMULATOR_REQUIRE_SCAN;
+  execFileSync('npx', ['--no-install', 'drizzle-kit', 'push', '--force'], { stdio: 'ignore', env: process.env });
+
+  // Loaded only now: the database connection opens on import
+  const express = (await import('express')).default;
+  const { registerRoutes } = await import('./routes');
+  const { initializeSingleWhatsAppBot } = await import('./whatsapp-single-bot');
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const address = server.address();
+  assert.ok(address && typeof address === 'object');
+  baseUrl = `http://127.0.0.1:${address.port}`;
+  initializeSingleWhatsAppBot();
+
+  const registerResponse = await fetch(`${baseUrl}/api/auth/register`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email: 'chat@example.com', password: 'correct-horse-battery', name: 'chat' }),
+  });
+  assert.equal(registerResponse.status, 201);
+  token = (await registerResponse.json()).token;
+  // What the app does on first load: the default categories the bot files transactions under
+  await api('GET', '/api/auth/user');
+});
+
+after(() => {
+  server?.close();
+  if (dbDir) {
+    fs.rmSync(dbDir, { recursive: true, force: true });
+  }
+});
+
+describe('a conversation with the bot', () => {
+  it('links the number with an activation code', async () => {
+    const { code } = await api('POST', '/api/whatsapp/generate-code');
+    assert.match(await say(`AKTIVASI: ${code}`), /telah terhubung/);
+  });
+
+  it('records a transaction', async () => {
+    assert.match(await say('beli kopi 25rb'), /Transaksi Berhasil Dicatat/);
+    const [transaction] = await transactions();
+    assert.equal(transaction.amount, 25000);
+    assert.equal(transaction.type, 'expense');
+  });
+
+  it('answers a question about the spending', async () => {
+    assert.match(await say('berapa pengeluaran hari ini'), /25\.000/);
+  });
+
+  it('undoes the transaction', async () => {
+    assert.match(await say('batal'), /Transaksi Dibatalkan/);
+    assert.equal((await transactions()).length, 0);
+    assert.match(await say('berapa pengeluaran hari ini'), /belum ada transaksi/);
+  });
+});
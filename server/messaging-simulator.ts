@@ -0,0 +1,208 @@
+import qrcode from 'qrcode';
+import type {
+  ConnectionStatus,
+  IncomingMessage,
+  IncomingMessageType,
+  MediaAttachment,
+  MessageHandler,
+  MessagingConnectionState,
+  MessagingEvent,
+  MessagingEventListener,
+  MessagingProvider,
+  SentMessage,
+} from './messaging-provider';
+
+// An in-memory chat network. With MESSAGING_PROVIDER=simulator every bot session is a
+// SimulatorProvider: messages are typed into the HTTP or CLI console instead of a phone, run
+// through the same handlers as real WhatsApp messages, and everything the bot sends is kept in a
+// transcript that a script can check.
+
+export interface SimulatedMessage {
+  from: string;
+  body?: string;
+  type?: IncomingMessageType;
+  senderName?: string | null;
+  media?: MediaAttachment | null;
+  quotedMessageId?: string | null; // Reply to one of the bot's earlier messages
+}
+
+export interface TranscriptEntry {
+  id: string;
+  chat: string; // The person's number
+  direction: 'in' | 'out';
+  type: IncomingMessageType;
+  body: string;
+  mimetype?: string;
+  quotedMessageId?: string | null;
+  timestamp: number;
+}
+
+export class SimulatorProvider implements MessagingProvider {
+  readonly name = 'simulator';
+  private status: ConnectionStatus = 'disconnected';
+  private qrCode: string | null = null;
+  private transcript: TranscriptEntry[] = [];
+  private nextMessageId = 1;
+  private messageHandlers: MessageHandler[] = [];
+  private eventListeners: MessagingEventListener[] = [];
+
+  /**
+   * @param requireScan Wait in 'qr_received' until scan() is called instead of logging straight in
+   */
+  constructor(readonly sessionId: string, private requireScan = false) {}
+
+  getState(): MessagingConnectionState {
+    return { status: this.status, qrCode: this.qrCode };
+  }
+
+  async initialize(): Promise<void> {
+    this.status = 'initializing';
+
+    if (this.requireScan) {
+      this.qrCode = await qrcode.toDataURL(`monly-simulator:${this.sessionId}:${Date.now()}`);
+      this.status = 'qr_received';
+      this.emit({ type: 'qr', qrCode: this.qrCode });
+      return;
+    }
+
+    this.scan();
+  }
+
+  /** What scanning the QR code on a phone does: log in and become ready. */
+  scan(): void {
+    if (this.status === 'ready') return;
+
+    this.qrCode = null;
+    this.status = 'authenticated';
+    this.emit({ type: 'authenticated' });
+    this.status = 'ready';
+    this.emit({ type: 'ready' });
+  }
+
+  /** Drop the connection the way a logged-out phone would, so reconnect handling can be exercised. */
+  simulateDisconnect(reason = 'SIMULATED'): void {
+    this.status = 'disconnected';
+    this.qrCode = null;
+    this.emit({ type: 'disconnected', reason });
+  }
+
+  async destroy(): Promise<void> {
+    this.status = 'disconnected';
+    this.qrCode = null;
+  }
+
+  async isHealthy(): Promise<boolean> {
+    return this.status === 'ready';
+  }
+
+  async sendText(to: string, text: string): Promise<SentMessage> {
+    this.ensureReady();
+    return this.record({ chat: to, direction: 'out', type: 'chat', body: text });
+  }
+
+  async sendMedia(to: string, media: MediaAttachment, caption?: string): Promise<SentMessage> {
+    this.ensureReady();
+    const type: IncomingMessageType = media.mimetype.startsWith('image/') ? 'image' : 'other';
+    return this.record({ chat: to, direction: 'out', type, body: caption || '', mimetype: media.mimetype });
+  }
+
+  onMessage(handler: MessageHandler): void {
+    this.messageHandlers.push(handler);
+  }
+
+  onEvent(listener: MessagingEventListener): void {
+    this.eventListeners.push(listener);
+  }
+
+  /**
+   * Deliver a message from a person to the bot and wait until every handler is done.
+   * @returns What the bot sent back to that person while handling it
+   */
+  async receive(input: SimulatedMessage): Promise<TranscriptEntry[]> {
+    this.ensureReady();
+
+    const chat = input.from.replace('@c.us', '');
+    const type = input.type || (input.media ? 'image' : 'chat');
+    const body = input.body || '';
+    const media = input.media || null;
+    const quotedMessageId = input.quotedMessageId || null;
+    const start = this.transcript.length;
+
+    const { id } = this.record({ chat, direction: 'in', type, body, mimetype: media?.mimetype, quotedMessageId });
+
+    const message: IncomingMessage = {
+      id,
+      from: chat,
+      senderName: input.senderName ?? null,
+      type,
+      body,
+      hasQuotedMsg: quotedMessageId !== null,
+      getQuotedMsg: async () => quotedMessageId ? { id: quotedMessageId } : null,
+      downloadMedia: async () => media,
+      reply: async (text: string) => this.record({ chat, direction: 'out', type: 'chat', body: text, quotedMessageId: id }),
+    };
+
+    for (const handler of this.messageHandlers) {
+      await handler(message);
+    }
+
+    return this.transcript.slice(start).filter(entry => entry.direction === 'out' && entry.chat === chat);
+  }
+
+  getTranscript(chat?: string): TranscriptEntry[] {
+    const normalized = chat?.replace('@c.us', '');
+    return normalized ? this.transcript.filter(entry => entry.chat === normalized) : [...this.transcript];
+  }
+
+  clearTranscript(chat?: string): void {
+    const normalized = chat?.replace('@c.us', '');
+    this.transcript = normalized ? this.transcript.filter(entry => entry.chat !== normalized) : [];
+  }
+
+  private ensureReady() {
+    if (this.status !== 'ready') {
+      throw new Error(`Simulator session ${this.sessionId} is not ready (${this.status})`);
+    }
+  }
+
+  private record(entry: Omit<TranscriptEntry, 'id' | 'timestamp'>): SentMessage {
+    const id = `sim-${this.sessionId}-${this.nextMessageId++}`;
+    this.transcript.push({
+      ...entry,
+      chat: entry.chat.replace('@c.us', ''),
+      id,
+      timestamp: Math.floor(Date.now() / 1000),
+    });
+    return { id };
+  }
+
+  private emit(event: MessagingEvent) {
+    for (const listener of this.eventListeners) {
+      listener(event);
+    }
+  }
+}
+
+class MessagingSimulator {
+  private sessions: Map<string, SimulatorProvider> = new Map();
+
+  /** A new session replaces an old one with the same id, as a reconnect does. */
+  createSession(sessionId: string): SimulatorProvider {
+    const session = new SimulatorProvider(sessionId, process.env.SIMULATOR_REQUIRE_SCAN === 'true');
+    this.sessions.set(sessionId, session);
+    return session;
+  }
+
+  getSession(sessionId: string): SimulatorProvider | undefined {
+    return this.sessions.get(sessionId);
+  }
+
+  listSessions() {
+    return Array.from(this.sessions.values()).map(session => ({
+      sessionId: session.sessionId,
+      ...session.getState(),
+    }));
+  }
+}
+
+export const messagingSimulator = new MessagingSimulator();
@@ -0,0 +1,43 @@
+-- Migration: Add Accounts and Inter-Account Transfers
+-- Created: 2026-10-18
+-- Description: Add accounts table (cash, bank, e-wallet, credit card), link transactions to accounts and support transfers
+
+-- Accounts table - where money lives
+CREATE TABLE IF NOT EXISTS accounts (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    type TEXT NOT NULL DEFAULT 'cash',
+    currency TEXT NOT NULL DEFAULT 'USD',
+    opening_balance REAL NOT NULL DEFAULT 0,
+    icon TEXT,
+    color TEXT,
+    is_default INTEGER DEFAULT 0,
+    is_active INTEGER DEFAULT 1,
+    created_at INTEGER,
+    updated_at INTEGER,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_accounts_user_id ON accounts(user_id);
+
+-- Source account for every transaction, destination account for transfers
+ALTER TABLE transactions ADD COLUMN account_id INTEGER REFERENCES accounts(id);
+ALTER TABLE transactions ADD COLUMN to_account_id INTEGER REFERENCES accounts(id);
+
+-- Give every existing user a default cash account and move their history into it
+INSERT INTO accounts (user_id, name, type, currency, opening_balance, icon, color, is_default, is_active, created_at, updated_at)
+SELECT u.id, 'Cash', 'cash', COALESCE(p.default_currency, 'USD'), 0, '💵', '#10B981', 1, 1, strftime('%s', 'now'), strftime('%s', 'now')
+FROM users u
+LEFT JOIN user_preferences p ON p.user_id = u.id;
+
+UPDATE transactions
+SET account_id = (
+    SELECT a.id FROM accounts a
+    WHERE a.user_id = transactions.user_id AND a.is_default = 1
+    LIMIT 1
+)
+WHERE account_id IS NULL;
+
+CREATE INDEX idx_transactions_account_id ON transactions(account_id);
+CREATE INDEX idx_transactions_to_account_id ON transactions(to_account_id);
@@ -0,0 +1,34 @@
+-- Migration: Add Recurring Transactions
+-- Created: 2026-10-18
+-- Description: Add recurring transaction templates (subscriptions, rent, salary) and link generated transactions to them
+
+CREATE TABLE IF NOT EXISTS recurring_transactions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id TEXT NOT NULL,
+    category_id INTEGER NOT NULL,
+    account_id INTEGER,
+    amount REAL NOT NULL,
+    currency TEXT NOT NULL DEFAULT 'USD',
+    description TEXT NOT NULL,
+    type TEXT NOT NULL,
+    frequency TEXT NOT NULL,
+    day_of_month INTEGER,
+    start_date INTEGER NOT NULL,
+    end_date INTEGER,
+    max_occurrences INTEGER,
+    occurrence_count INTEGER NOT NULL DEFAULT 0,
+    next_run_date INTEGER NOT NULL,
+    last_run_date INTEGER,
+    is_active INTEGER DEFAULT 1,
+    created_at INTEGER,
+    updated_at INTEGER,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (category_id) REFERENCES categories(id),
+    FOREIGN KEY (account_id) REFERENCES accounts(id)
+);
+
+CREATE INDEX idx_recurring_transactions_user_id ON recurring_transactions(user_id);
+CREATE INDEX idx_recurring_transactions_next_run ON recurring_transactions(next_run_date);
+
+-- Link materialized transactions back to their template
+ALTER TABLE transactions ADD COLUMN recurring_transaction_id INTEGER;
@@ -0,0 +1,8 @@
+-- Migration: Track Goal Savings Plan Runs
+-- Created: 2026-10-18
+-- Description: Record when a savings plan was last executed and whether the contribution was made or skipped
+
+ALTER TABLE goal_savings_plans ADD COLUMN last_run_date INTEGER;
+ALTER TABLE goal_savings_plans ADD COLUMN last_run_status TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_goal_savings_plans_next_contribution ON goal_savings_plans(next_contribution_date);
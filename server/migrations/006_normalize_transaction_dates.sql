@@ -0,0 +1,11 @@
+-- Migration: Normalize Transaction Dates and Add Date Indexes
+-- Created: 2026-10-18
+-- Description: Convert millisecond transaction dates to Unix seconds so date ranges can be filtered in SQL, and index transactions by user and date
+
+-- Older rows were stored in milliseconds (13 digits), everything else uses seconds (10 digits)
+UPDATE transactions SET date = CAST(date / 1000 AS INTEGER) WHERE date > 9999999999;
+UPDATE transactions SET created_at = CAST(created_at / 1000 AS INTEGER) WHERE created_at > 9999999999;
+UPDATE transactions SET updated_at = CAST(updated_at / 1000 AS INTEGER) WHERE updated_at > 9999999999;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_user_date ON transactions(user_id, date);
+CREATE INDEX IF NOT EXISTS idx_transactions_user_category_date ON transactions(user_id, category_id, date);
@@ -0,0 +1,46 @@
+-- Migration: Add Bank Statement Imports
+-- Created: 2026-10-18
+-- Description: Record statement import batches so they can be rolled back, and save CSV column mappings per bank
+
+CREATE TABLE IF NOT EXISTS import_batches (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id TEXT NOT NULL,
+    account_id INTEGER,
+    format TEXT NOT NULL,
+    file_name TEXT,
+    imported_count INTEGER NOT NULL DEFAULT 0,
+    skipped_count INTEGER NOT NULL DEFAULT 0,
+    status TEXT NOT NULL DEFAULT 'completed',
+    rolled_back_at INTEGER,
+    created_at INTEGER,
+    updated_at INTEGER,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (account_id) REFERENCES accounts(id)
+);
+
+CREATE INDEX idx_import_batches_user_id ON import_batches(user_id);
+
+CREATE TABLE IF NOT EXISTS import_mappings (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    delimiter TEXT NOT NULL DEFAULT ',',
+    has_header INTEGER DEFAULT 1,
+    date_column INTEGER NOT NULL,
+    description_column INTEGER NOT NULL,
+    amount_column INTEGER,
+    debit_column INTEGER,
+    credit_column INTEGER,
+    date_format TEXT NOT NULL DEFAULT 'YYYY-MM-DD',
+    decimal_separator TEXT NOT NULL DEFAULT '.',
+    created_at INTEGER,
+    updated_at INTEGER,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_import_mappings_user_id ON import_mappings(user_id);
+
+-- Link imported transactions back to their batch
+ALTER TABLE transactions ADD COLUMN import_batch_id INTEGER;
+
+CREATE INDEX idx_transactions_import_batch_id ON transactions(import_batch_id);
@@ -0,0 +1,25 @@
+-- Migration: Add Categorization Rules
+-- Created: 2026-10-18
+-- Description: Per-user rules that pick a category from the description before asking the AI
+
+CREATE TABLE IF NOT EXISTS categorization_rules (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id TEXT NOT NULL,
+    category_id INTEGER NOT NULL,
+    pattern TEXT NOT NULL,
+    match_type TEXT NOT NULL DEFAULT 'contains',
+    transaction_type TEXT,
+    min_amount REAL,
+    max_amount REAL,
+    source TEXT NOT NULL DEFAULT 'user',
+    priority INTEGER NOT NULL DEFAULT 0,
+    is_active INTEGER DEFAULT 1,
+    hit_count INTEGER NOT NULL DEFAULT 0,
+    last_matched_at INTEGER,
+    created_at INTEGER,
+    updated_at INTEGER,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (category_id) REFERENCES categories(id)
+);
+
+CREATE INDEX idx_categorization_rules_user_id ON categorization_rules(user_id);
@@ -0,0 +1,26 @@
+-- Migration: Add Messaging Integrations
+-- Created: 2026-10-18
+-- Description: Channel-agnostic linked chat accounts (WhatsApp, Telegram), replacing whatsapp_integrations
+
+CREATE TABLE IF NOT EXISTS messaging_integrations (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id TEXT NOT NULL,
+    channel TEXT NOT NULL,
+    external_id TEXT NOT NULL,
+    display_name TEXT,
+    activated_at INTEGER,
+    status TEXT NOT NULL DEFAULT 'active',
+    created_at INTEGER,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_messaging_integrations_user_id ON messaging_integrations(user_id);
+CREATE UNIQUE INDEX idx_messaging_integrations_channel_external_id ON messaging_integrations(channel, external_id);
+
+-- A number linked to several accounts keeps its oldest link, the one the bot already answered for
+INSERT OR IGNORE INTO messaging_integrations (user_id, channel, external_id, display_name, activated_at, status, created_at)
+SELECT user_id, 'whatsapp', whatsapp_number, display_name, activated_at, COALESCE(status, 'active'), created_at
+FROM whatsapp_integrations
+ORDER BY id;
+
+DROP TABLE whatsapp_integrations;
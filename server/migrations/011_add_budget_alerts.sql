@@ -0,0 +1,18 @@
+-- Migration: Add Budget Alerts
+-- Created: 2026-10-18
+-- Description: Budget and spending limit thresholds already announced, one row per crossing per period
+
+CREATE TABLE IF NOT EXISTS budget_alerts (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id TEXT NOT NULL,
+    budget_id INTEGER NOT NULL,
+    limit_period TEXT NOT NULL,
+    period_start INTEGER NOT NULL,
+    threshold INTEGER NOT NULL,
+    created_at INTEGER,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (budget_id) REFERENCES budgets(id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_budget_alerts_user_id ON budget_alerts(user_id);
+CREATE UNIQUE INDEX idx_budget_alerts_crossing ON budget_alerts(budget_id, limit_period, period_start, threshold);
@@ -0,0 +1,22 @@
+-- Migration: Add Spending Limit Breaches
+-- Created: 2026-10-18
+-- Description: Expenses saved past a hard spending limit with an explicit override, for reporting
+
+CREATE TABLE IF NOT EXISTS spending_limit_breaches (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id TEXT NOT NULL,
+    budget_id INTEGER NOT NULL,
+    transaction_id INTEGER,
+    limit_period TEXT NOT NULL,
+    limit_amount REAL NOT NULL,
+    spent_before REAL NOT NULL,
+    amount REAL NOT NULL,
+    source TEXT NOT NULL,
+    created_at INTEGER,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (budget_id) REFERENCES budgets(id) ON DELETE CASCADE,
+    FOREIGN KEY (transaction_id) REFERENCES transactions(id) ON DELETE SET NULL
+);
+
+CREATE INDEX idx_spending_limit_breaches_user_id ON spending_limit_breaches(user_id);
+CREATE INDEX idx_spending_limit_breaches_budget_id ON spending_limit_breaches(budget_id);
@@ -0,0 +1,5 @@
+-- Migration: Add Account Deletion Schedule
+-- Created: 2026-10-18
+-- Description: When an account asked to be deleted with a grace period gets purged
+
+ALTER TABLE users ADD COLUMN deletion_scheduled_at INTEGER;
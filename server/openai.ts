@@ -1,9 +1,4 @@
-import OpenAI from "openai";
-
-// the newest OpenAI model is "gpt-4.1-nano" which was released May 13, 2024. do not change this unless explicitly requested by the user
-const openai = new OpenAI({ 
-  apiKey: process.env.OPENAI_API_KEY || process.env.OPENAI_KEY || "default_key"
-});
+import { llm } from "./llm-provider";
 
 // Helper function to get currency symbol
 function getCurrencySymbol(currency: string): string {
@@ -24,7 +19,7 @@ function getCurrencySymbol(currency: string): string {
 }
 
 // Helper function to parse Indonesian amount formats
-function parseIndonesianAmount(text: string): number {
+export function parseIndonesianAmount(text: string): number {
   // Remove common prefixes and normalize
   const cleanText = text.toLowerCase()
     .replace(/bayar|beli|transfer|gaji|biaya|pendaftaran|kuliah|sekolah|dari|untuk|ke|di|dengan/g, '')
@@ -75,6 +70,14 @@ export interface TransactionAnalysis {
     color: string;
     type: "income" | "expense";
   };
+  categorySource?: "rule" | "parser" | "ai"; // Whether a categorization rule, the offline parser or the AI picked the category
+  ruleId?: number;
+  // Receipt line items grouped by category when one purchase covers several categories
+  splits?: Array<{
+    amount: number;
+    category: string;
+    description?: string;
+  }>;
 }
 
 export interface UserPreferences {
@@ -118,7 +121,7 @@ function getCurrentDateContext(language: string = 'id'): string {
 }
 
 // Helper function to parse relative dates to Unix timestamp
-function parseRelativeDate(text: string, language: string = 'id'): number | null {
+export function parseRelativeDate(text: string, language: string = 'id'): number | null {
   const timezone = getTimezone();
   
   // Get current date in the specific timezone
@@ -220,7 +223,7 @@ function parseRelativeDate(text: string, language: string = 'id'): number | null
 }
 
 // Helper function to parse specific dates to Unix timestamp
-function parseSpecificDate(text: string, language: string = 'id'): number | null {
+export function parseSpecificDate(text: string, language: string = 'id'): number | null {
   const now = new Date();
   const currentYear = now.getFullYear();
   
@@ -375,8 +378,7 @@ export async function analyzeTransactionText(
     // Get current date context for AI
     const dateContext = getCurrentDateContext(language);
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-4.1-nano",
+    const content = await llm.complete('transaction_parsing', {
       messages: [
         {
           role: "system",
@@ -468,10 +470,10 @@ export async function analyzeTransactionText(
           content: text,
         },
       ],
-      response_format: { type: "json_object" },
+      json: true,
     });
 
-    const result = JSON.parse(response.choices[0].message.content || "{}");
+    const result = JSON.parse(content || "{}");
     
     // Fallback parsing for Indonesian number formats if AI fails
     let amount = Math.abs(parseFloat(result.amount || "0"));
@@ -573,8 +575,7 @@ export async function processReceiptImage(
     const currencySymbol = getCurrencySymbol(currency);
     const autoCategorize = userPreferences?.autoCategorize ?? true;
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-4.1-nano",
+    const content = await llm.complete('ocr', {
       messages: [
         {
           role: "user",
@@ -596,6 +597,9 @@ export async function processReceiptImage(
               4. Choose the most appropriate category from the list above
               5. All transactions should be "expense" type unless clearly income
               6. Set confidence based on image clarity and text readability
+              7. If the line items of one receipt belong to different categories (e.g. groceries and household items),
+                 keep ONE transaction for the receipt total and add "splits": one entry per category with the summed
+                 line item amounts. Split amounts must add up exactly to the transaction amount. Omit "splits" otherwise.
               
               ${autoCategorize ? `
               AUTO-CATEGORIZATION ENABLED:
@@ -607,7 +611,7 @@ export async function processReceiptImage(
               
               Return JSON with:
               - text: extracted text from receipt (merchant, items, total)
-              - transactions: array of {amount, description, category, type, confidence${autoCategorize ? ', suggestedNewCategory (if needed)' : ''}}
+              - transactions: array of {amount, description, category, type, confidence, splits (if needed)${autoCategorize ? ', suggestedNewCategory (if needed)' : ''}}
               - confidence: overall confidence (0-1)
               
               Example format:
@@ -640,11 +644,11 @@ export async function processReceiptImage(
           ],
         },
       ],
-      response_format: { type: "json_object" },
-      max_tokens: 1500,
+      json: true,
+      maxTokens: 1500,
     });
 
-    const result = JSON.parse(response.choices[0].message.content || "{}");
+    const result = JSON.parse(content || "{}");
     console.log('Receipt analysis result:', result);
     
     return {
@@ -660,8 +664,7 @@ export async function processReceiptImage(
 
 export async function categorizeTransaction(description: string, amount: number): Promise<string> {
   try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-4.1-nano",
+    const content = await llm.complete('transaction_parsing', {
       messages: [
         {
           role: "system",
@@ -684,10 +687,10 @@ export async function categorizeTransaction(description: string, amount: number)
           content: `Transaction: ${description}, Amount: $${amount}`,
         },
       ],
-      response_format: { type: "json_object" },
+      json: true,
     });
 
-    const result = JSON.parse(response.choices[0].message.content || "{}");
+    const result = JSON.parse(content || "{}");
     return result.category || "Other";
   } catch (error) {
     console.error("Failed to categorize transaction:", error);
@@ -700,8 +703,7 @@ export async function generateFinancialInsights(
   budgets: any[]
 ): Promise<string[]> {
   try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-4.1-nano",
+    const content = await llm.complete('insights', {
       messages: [
         {
           role: "system",
@@ -718,10 +720,10 @@ export async function generateFinancialInsights(
           Budgets: ${JSON.stringify(budgets)}`,
         },
       ],
-      response_format: { type: "json_object" },
+      json: true,
     });
 
-    const result = JSON.parse(response.choices[0].message.content || "{}");
+    const result = JSON.parse(content || "{}");
     return result.insights || [];
   } catch (error) {
     console.error("Failed to generate insights:", error);
@@ -770,8 +772,7 @@ export async function analyzeBudgetCommand(
     const currency = userPreferences?.defaultCurrency || 'USD';
     const currencySymbol = getCurrencySymbol(currency);
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-4.1-nano",
+    const content = await llm.complete('budget_commands', {
       messages: [
         {
           role: "system",
@@ -819,10 +820,10 @@ export async function analyzeBudgetCommand(
           content: text,
         },
       ],
-      response_format: { type: "json_object" },
+      json: true,
     });
 
-    const result = JSON.parse(response.choices[0].message.content || "{}");
+    const result = JSON.parse(content || "{}");
     
     return {
       action: result.action || "check",
@@ -858,8 +859,7 @@ export async function analyzeCategoryCommand(
     // Set language and currency from preferences
     const language = userPreferences?.language === 'id' ? 'Indonesian' : 'English';
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-4.1-nano",
+    const content = await llm.complete('budget_commands', {
       messages: [
         {
           role: "system",
@@ -903,10 +903,10 @@ export async function analyzeCategoryCommand(
           content: text,
         },
       ],
-      response_format: { type: "json_object" },
+      json: true,
     });
 
-    const result = JSON.parse(response.choices[0].message.content || "{}");
+    const result = JSON.parse(content || "{}");
     
     return {
       action: result.action || "list",
@@ -1121,8 +1121,7 @@ export async function generateBudgetRecommendations(
       prompt = `As a financial advisor AI, recommend budgets for ALL available categories based on this user's financial profile.`;
     }
     
-    const response = await openai.chat.completions.create({
-      model: "gpt-4.1-nano",
+    const content = await llm.complete('insights', {
       messages: [
         {
           role: "system",
@@ -1208,17 +1207,17 @@ export async function generateBudgetRecommendations(
             : `Please recommend budgets for all available categories. Return valid JSON with "recommendations" array.`
         },
       ],
-      response_format: { type: "json_object" },
+      json: true,
       temperature: 0.3, // Lower temperature for more consistent JSON
     });
     
-    console.log(`[BUDGET AI DEBUG] AI Response for category ${missingCategory}:`, response.choices[0].message.content);
+    console.log(`[BUDGET AI DEBUG] AI Response for category ${missingCategory}:`, content);
 
     let result;
     try {
-      result = JSON.parse(response.choices[0].message.content || "{}");
+      result = JSON.parse(content || "{}");
     } catch (parseError) {
-      console.error(`[BUDGET AI ERROR] Invalid JSON response:`, response.choices[0].message.content);
+      console.error(`[BUDGET AI ERROR] Invalid JSON response:`, content);
       console.error(`[BUDGET AI ERROR] Parse error:`, parseError);
       
       // Fallback: create a simple recommendation based on transaction amounts
@@ -1290,8 +1289,7 @@ export async function analyzeSavingsCommand(
     
     const goalsList = userGoals.map(g => `- ${g.name}: ${g.currentAmount}/${g.targetAmount} (${g.category || 'general'})`).join('\n');
     
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
+    const content = await llm.complete('savings_commands', {
       messages: [
         {
           role: "system",
@@ -1375,10 +1373,10 @@ export async function analyzeSavingsCommand(
           content: text
         }
       ],
-      response_format: { type: "json_object" },
+      json: true,
     });
 
-    const result = JSON.parse(response.choices[0].message.content || "{}");
+    const result = JSON.parse(content || "{}");
     console.log('Savings command analysis result:', result);
     
     return {
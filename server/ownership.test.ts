@@ -0,0 +1,286 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { Server } from 'http';
+
+// Every /:id route and every body that points at a category or account must treat another
+// user's rows as if they did not exist. Runs the real routes against a throwaway SQLite file.
+
+interface ApiResult {
+  status: number;
+  body: any;
+}
+
+interface Owner {
+  token: string;
+  categoryId: number;
+  accountId: number;
+  transactionId: number;
+  budgetId: number;
+  goalId: number;
+  recurringId: number;
+  importBatchId: number;
+  importMappingId: number;
+  ruleId: number;
+  sessionId: string;
+}
+
+const DAY = 24 * 60 * 60;
+
+let dbDir: string;
+let server: Server;
+let baseUrl: string;
+let alice: Owner;
+let bob: Owner;
+
+async function api(token: string, method: string, url: string, body?: unknown): Promise<ApiResult> {
+  const response = await fetch(`${baseUrl}${url}`, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${token}`,
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const text = await response.text();
+  return { status: response.status, body: text ? JSON.parse(text) : null };
+}
+
+async function created(token: string, url: string, body: unknown): Promise<any> {
+  const result = await api(token, 'POST', url, body);
+  assert.ok(result.status < 300, `POST ${url} answered ${result.status}: ${JSON.stringify(result.body)}`);
+  return result.body;
+}
+
+// Signs a user up and gives them one of everything that has an owner
+async function createOwner(email: string): Promise<Owner> {
+  const registerResponse = await fetch(`${baseUrl}/api/auth/register`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email, password: 'correct-horse-battery', name: email.split('@')[0] }),
+  });
+  assert.equal(registerResponse.status, 201);
+  const { token } = await registerResponse.json();
+
+  const now = Math.floor(Date.now() / 1000);
+  const category = await created(token, '/api/categories', { name: 'Groceries', icon: '🛒', color: '#10B981', type: 'expense' });
+  const account = await created(token, '/api/accounts', { name: 'Bank', type: 'bank' });
+  const transaction = await created(token, '/api/transactions', {
+    categoryId: category.id,
+    accountId: account.id,
+    amount: 25,
+    description: 'Weekly shop',
+    type: 'expense',
+    date: new Date().toISOString(),
+  });
+  const budget = await created(token, '/api/budgets', {
+    categoryId: category.id,
+    amount: 500,
+    period: 'monthly',
+    startDate: new Date().toISOString(),
+    endDate: new Date(Date.now() + 30 * DAY * 1000).toISOString(),
+  });
+  const goal = await created(token, '/api/goals', { name: 'Holiday', targetAmount: 1000, deadline: now + 365 * DAY });
+  const recurring = await created(token, '/api/recurring-transactions', {
+    categoryId: category.id,
+    accountId: account.id,
+    amount: 15,
+    description: 'Streaming',
+    type: 'expense',
+    frequency: 'monthly',
+    startDate: new Date(Date.now() + 30 * DAY * 1000).toISOString(),
+  });
+  const importBatch = await created(token, '/api/imports', {
+    format: 'csv',
+    accountId: account.id,
+    rows: [{ date: now, amount: 12, type: 'expense', description: 'Imported coffee', categoryId: category.id }],
+  });
+  const importMapping = await created(token, '/api/import-mappings', { name: 'My bank', dateColumn: 0, descriptionColumn: 1, amountColumn: 2 });
+  const rule = await created(token, '/api/categorization-rules', { categoryId: category.id, pattern: 'supermarket' });
+
+  const sessions = await api(token, 'GET', '/api/auth/sessions');
+  assert.equal(sessions.status, 200);
+
+  return {
+    token,
+    categoryId: category.id,
+    accountId: account.id,
+    transactionId: transaction.id,
+    budgetId: budget.id,
+    goalId: goal.id,
+    recurringId: recurring.id,
+    importBatchId: importBatch.id,
+    importMappingId: importMapping.id,
+    ruleId: rule.id,
+    sessionId: sessions.body[0].id,
+  };
+}
+
+before(async () => {
+  dbDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ownership-test-'));
+  process.env.DATABASE_URL = `file:${path.join(dbDir, 'test.db')}`;
+  execFileSync('npx', ['--no-install', 'drizzle-kit', 'push', '--force'], { stdio: 'ignore', env: process.env });
+
+  // Loaded only now: the database connection opens on import
+  const express = (await import('express')).default;
+  const { registerRoutes } = await import('./routes');
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const address = server.address();
+  assert.ok(address && typeof address === 'object');
+  baseUrl = `http://127.0.0.1:${address.port}`;
+
+  alice = await createOwner('alice@example.com');
+  bob = await createOwner('bob@example.com');
+});
+
+after(() => {
+  server?.close();
+  if (dbDir) {
+    fs.rmSync(dbDir, { recursive: true, force: true });
+  }
+});
+
+describe("another user's ids", () => {
+  const routes: Array<[method: string, route: string, id: () => number | string, body?: () => unknown]> = [
+    ['PUT', '/api/categories/:id', () => alice.categoryId, () => ({ name: 'Taken', icon: '🛒', color: '#000000', type: 'expense' })],
+    ['DELETE', '/api/categories/:id', () => alice.categoryId],
+    ['PUT', '/api/accounts/:id', () => alice.accountId, () => ({ name: 'Taken' })],
+    ['DELETE', '/api/accounts/:id', () => alice.accountId],
+    ['PUT', '/api/transactions/:id', () => alice.transactionId, () => ({ amount: 1 })],
+    ['PUT', '/api/transactions/:id/splits', () => alice.transactionId, () => ({ splits: [] })],
+    ['DELETE', '/api/transactions/:id', () => alice.transactionId],
+    ['PUT', '/api/budgets/:id', () => alice.budgetId, () => ({ amount: 1 })],
+    ['DELETE', '/api/budgets/:id', () => alice.budgetId],
+    ['GET', '/api/goals/:id', () => alice.goalId],
+    ['PUT', '/api/goals/:id', () => alice.goalId, () => ({ name: 'Taken' })],
+    ['DELETE', '/api/goals/:id', () => alice.goalId],
+    ['POST', '/api/goals/:id/boost', () => alice.goalId, () => ({ boostAmount: 10 })],
+    ['POST', '/api/goals/:id/savings-plan', () => alice.goalId, () => ({ additionalAmount: 10, frequency: 'monthly', isActive: true })],
+    ['PUT', '/api/recurring-transactions/:id', () => alice.recurringId, () => ({ amount: 1 })],
+    ['DELETE', '/api/recurring-transactions/:id', () => alice.recurringId],
+    ['POST', '/api/imports/:id/rollback', () => alice.importBatchId],
+    ['PUT', '/api/import-mappings/:id', () => alice.importMappingId, () => ({ name: 'Taken', dateColumn: 0, descriptionColumn: 1, amountColumn: 2 })],
+    ['DELETE', '/api/import-mappings/:id', () => alice.importMappingId],
+    ['PUT', '/api/categorization-rules/:id', () => alice.ruleId, () => ({ categoryId: bob.categoryId, pattern: 'taken' })],
+    ['DELETE', '/api/categorization-rules/:id', () => alice.ruleId],
+    ['DELETE', '/api/auth/sessions/:id', () => alice.sessionId],
+  ];
+
+  for (const [method, route, id, body] of routes) {
+    it(`${method} ${route} answers 404`, async () => {
+      const result = await api(bob.token, method, route.replace(':id', String(id())), body?.());
+      assert.equal(result.status, 404, JSON.stringify(result.body));
+    });
+  }
+
+  it('leaves the owner\'s data untouched', async () => {
+    const goal = await api(alice.token, 'GET', `/api/goals/${alice.goalId}`);
+    assert.equal(goal.status, 200);
+    assert.equal(goal.body.name, 'Holiday');
+    assert.equal(goal.body.currentAmount, 0);
+
+    const transactions = await api(alice.token, 'GET', '/api/transactions');
+    const transaction = transactions.body.items.find((row: any) => row.id === alice.transactionId);
+    assert.equal(transaction?.amount, 25);
+
+    const budgets = await api(alice.token, 'GET', '/api/budgets');
+    assert.equal(budgets.body.find((row: any) => row.id === alice.budgetId)?.amount, 500);
+
+    const categories = await api(alice.token, 'GET', '/api/categories');
+    assert.equal(categories.body.find((row: any) => row.id === alice.categoryId)?.name, 'Groceries');
+
+    const rules = await api(alice.token, 'GET', '/api/categorization-rules');
+    assert.ok(rules.body.some((row: any) => row.id === alice.ruleId));
+
+    const sessions = await api(alice.token, 'GET', '/api/auth/sessions');
+    assert.ok(sessions.body.some((row: any) => row.id === alice.sessionId));
+  });
+});
+
+describe("bodies that point at another user's category or account", () => {
+  const newTransaction = () => ({
+    categoryId: bob.categoryId,
+    accountId: bob.accountId,
+    amount: 10,
+    description: 'Lunch',
+    type: 'expense',
+    date: new Date().toISOString(),
+  });
+  const newRecurring = () => ({
+    categoryId: bob.categoryId,
+    accountId: bob.accountId,
+    amount: 10,
+    description: 'Gym',
+    type: 'expense',
+    frequency: 'monthly',
+    startDate: new Date(Date.now() + 30 * DAY * 1000).toISOString(),
+  });
+  const newBudget = () => ({
+    categoryId: bob.categoryId,
+    amount: 100,
+    period: 'monthly',
+    startDate: new Date().toISOString(),
+    endDate: new Date(Date.now() + 30 * DAY * 1000).toISOString(),
+  });
+
+  const requests: Array<[name: string, method: string, url: () => string, body: () => unknown]> = [
+    ['POST /api/transactions with a foreign category', 'POST', () => '/api/transactions', () => ({ ...newTransaction(), categoryId: alice.categoryId })],
+    ['POST /api/transactions with a foreign account', 'POST', () => '/api/transactions', () => ({ ...newTransaction(), accountId: alice.accountId })],
+    ['POST /api/transactions with a foreign transfer destination', 'POST', () => '/api/transactions', () => ({ ...newTransaction(), type: 'transfer', toAccountId: alice.accountId })],
+    ['PUT /api/transactions/:id with a foreign category', 'PUT', () => `/api/transactions/${bob.transactionId}`, () => ({ categoryId: alice.categoryId })],
+    ['PUT /api/transactions/:id with a foreign account', 'PUT', () => `/api/transactions/${bob.transactionId}`, () => ({ accountId: alice.accountId })],
+    ['PUT /api/transactions/:id with a foreign transfer destination', 'PUT', () => `/api/transactions/${bob.transactionId}`, () => ({ toAccountId: alice.accountId })],
+    ['POST /api/budgets with a foreign category', 'POST', () => '/api/budgets', () => ({ ...newBudget(), categoryId: alice.categoryId })],
+    ['PUT /api/budgets/:id with a foreign category', 'PUT', () => `/api/budgets/${bob.budgetId}`, () => ({ categoryId: alice.categoryId })],
+    ['POST /api/recurring-transactions with a foreign category', 'POST', () => '/api/recurring-transactions', () => ({ ...newRecurring(), categoryId: alice.categoryId })],
+    ['POST /api/recurring-transactions with a foreign account', 'POST', () => '/api/recurring-transactions', () => ({ ...newRecurring(), accountId: alice.accountId })],
+    ['PUT /api/recurring-transactions/:id with a foreign category', 'PUT', () => `/api/recurring-transactions/${bob.recurringId}`, () => ({ categoryId: alice.categoryId })],
+    ['PUT /api/recurring-transactions/:id with a foreign account', 'PUT', () => `/api/recurring-transactions/${bob.recurringId}`, () => ({ accountId: alice.accountId })],
+    ['POST /api/imports with a foreign account', 'POST', () => '/api/imports', () => ({
+      format: 'csv',
+      accountId: alice.accountId,
+      rows: [{ date: Math.floor(Date.now() / 1000), amount: 5, type: 'expense', description: 'Snack', categoryId: bob.categoryId }],
+    })],
+    ['POST /api/imports with a foreign category', 'POST', () => '/api/imports', () => ({
+      format: 'csv',
+      rows: [{ date: Math.floor(Date.now() / 1000), amount: 5, type: 'expense', description: 'Snack', categoryId: alice.categoryId }],
+    })],
+    ['POST /api/categorization-rules with a foreign category', 'POST', () => '/api/categorization-rules', () => ({ categoryId: alice.categoryId, pattern: 'bakery' })],
+    ['PUT /api/categorization-rules/:id with a foreign category', 'PUT', () => `/api/categorization-rules/${bob.ruleId}`, () => ({ categoryId: alice.categoryId, pattern: 'bakery' })],
+  ];
+
+  for (const [name, method, url, body] of requests) {
+    it(`${name} is refused`, async () => {
+      const result = await api(bob.token, method, url(), body());
+      assert.equal(result.status, 404, JSON.stringify(result.body));
+    });
+  }
+
+  it('PUT /api/transactions/:id/splits with a foreign category is refused', async () => {
+    const result = await api(bob.token, 'PUT', `/api/transactions/${bob.transactionId}/splits`, {
+      splits: [
+        { categoryId: bob.categoryId, amount: 15 },
+        { categoryId: alice.categoryId, amount: 10 },
+      ],
+    });
+    assert.equal(result.status, 400, JSON.stringify(result.body));
+  });
+
+  it('never attaches a foreign category or account to the user\'s own rows', async () => {
+    const transactions = await api(bob.token, 'GET', '/api/transactions');
+    for (const transaction of transactions.body.items) {
+      assert.notEqual(transaction.categoryId, alice.categoryId);
+      assert.notEqual(transaction.accountId, alice.accountId);
+      assert.notEqual(transaction.toAccountId, alice.accountId);
+    }
+
+    const budgets = await api(bob.token, 'GET', '/api/budgets');
+    assert.ok(budgets.body.every((budget: any) => budget.categoryId !== alice.categoryId));
+  });
+});
@@ -0,0 +1,50 @@
+import type { Response, NextFunction } from 'express';
+import type { AuthRequest } from './auth';
+import { storage } from './storage';
+
+// Route guards for /:id routes: the record is loaded for the signed-in user only, so another
+// user's record answers 404 exactly like one that doesn't exist - ids can't be probed.
+
+export interface OwnedRequest<T> extends AuthRequest {
+  owned?: T; // The record named by :id, set by the guard
+}
+
+type OwnedLoader<T> = (id: number, userId: string) => Promise<T | undefined>;
+
+/**
+ * Load the record named by req.params.id for req.user into req.owned, or answer 404
+ * @param name Used in the 404 message, e.g. "Transaction not found"
+ */
+export function requireOwnership<T>(load: OwnedLoader<T>, name: string) {
+  return async (req: OwnedRequest<T>, res: Response, next: NextFunction) => {
+    if (!req.user) return res.status(401).json({ message: 'Unauthorized' });
+
+    // Not an id: let a later route on the same path match, like PUT /api/budgets/adjust
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id)) {
+      return next('route');
+    }
+
+    try {
+      const owned = await load(id, req.user.id);
+      if (!owned) {
+        return res.status(404).json({ message: `${name} not found` });
+      }
+      req.owned = owned;
+      next();
+    } catch (error) {
+      console.error(`Error loading ${name.toLowerCase()} ${id}:`, error);
+      res.status(500).json({ message: `Failed to load ${name.toLowerCase()}` });
+    }
+  };
+}
+
+export const ownsCategory = requireOwnership((id, userId) => storage.getCategoryById(id, userId), 'Category');
+export const ownsAccount = requireOwnership((id, userId) => storage.getAccountById(id, userId), 'Account');
+export const ownsTransaction = requireOwnership((id, userId) => storage.getTransactionById(id, userId), 'Transaction');
+export const ownsRecurringTransaction = requireOwnership((id, userId) => storage.getRecurringTransactionById(id, userId), 'Recurring transaction');
+export const ownsImportBatch = requireOwnership((id, userId) => storage.getImportBatchById(id, userId), 'Import');
+export const ownsImportMapping = requireOwnership((id, userId) => storage.getImportMappingById(id, userId), 'Import mapping');
+export const ownsCategorizationRule = requireOwnership((id, userId) => storage.getCategorizationRuleById(id, userId), 'Categorization rule');
+export const ownsBudget = requireOwnership((id, userId) => storage.getBudgetById(id, userId), 'Budget');
+export const ownsGoal = requireOwnership((id, userId) => storage.getGoalById(id, userId), 'Goal');
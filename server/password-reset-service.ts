@@ -0,0 +1,194 @@
+import crypto from 'crypto';
+import { storage } from './storage';
+import { hashPassword, verifyPassword } from './auth';
+import { getMailer } from './mailer';
+import { sendToLinkedWhatsApp } from './whatsapp-delivery';
+import { sessionService } from './session-service';
+import type { PasswordResetChannel, User } from '@shared/schema';
+
+// Forgotten passwords: the user asks for a reset by email, which sends a link, or by WhatsApp,
+// which sends a 6-digit code to their linked number. Either secret is stored hashed, expires, works
+// once, and a new request voids the previous ones. A successful reset signs out every session.
+
+const MAX_REQUESTS_PER_WINDOW = 3;
+const REQUEST_WINDOW_SECONDS = 15 * 60;
+const MAX_CODE_ATTEMPTS = 5;
+
+export type PasswordResetResult = 'reset' | 'invalid' | 'expired';
+
+/**
+ * A way to get a reset secret to the user
+ */
+interface PasswordResetDelivery {
+  readonly channel: PasswordResetChannel;
+  readonly ttlSeconds: number;
+  createSecret(): string;
+  deliver(user: User, secret: string, language: string, appUrl: string): Promise<boolean>;
+}
+
+// A link with a long random token
+const emailDelivery: PasswordResetDelivery = {
+  channel: 'email',
+  ttlSeconds: 60 * 60,
+  createSecret: () => crypto.randomBytes(32).toString('base64url'),
+  async deliver(user, secret, language, appUrl) {
+    const mailer = getMailer();
+    if (!mailer || !user.email) {
+      return false;
+    }
+
+    const link = `${appUrl}/reset-password?token=${encodeURIComponent(secret)}`;
+    const name = user.firstName || '';
+    await mailer.send(language === 'id'
+      ? {
+          to: user.email,
+          subject: 'Atur ulang kata sandi Monly AI',
+          text: `Halo ${name},\n\nBuka tautan ini untuk membuat kata sandi baru (berlaku 1 jam):\n${link}\n\nAbaikan email ini jika Anda tidak memintanya.`,
+        }
+      : {
+          to: user.email,
+          subject: 'Reset your Monly AI password',
+          text: `Hi ${name},\n\nOpen this link to choose a new password (valid for 1 hour):\n${link}\n\nIf you didn't ask for this, you can ignore this email.`,
+        });
+    return true;
+  },
+};
+
+// A short code typed in on the reset page, sent to the user's linked WhatsApp number
+const whatsappDelivery: PasswordResetDelivery = {
+  channel: 'whatsapp',
+  ttlSeconds: 15 * 60,
+  createSecret: () => crypto.randomInt(0, 1000000).toString().padStart(6, '0'),
+  async deliver(user, secret, language) {
+    const message = language === 'id'
+      ? `🔐 Kode atur ulang kata sandi Monly AI Anda: *${secret}*\n\nBerlaku 15 menit. Jangan bagikan kode ini kepada siapa pun.`
+      : `🔐 Your Monly AI password reset code: *${secret}*\n\nValid for 15 minutes. Don't share this code with anyone.`;
+    return sendToLinkedWhatsApp(user.id, message);
+  },
+};
+
+const deliveries: Record<PasswordResetChannel, PasswordResetDelivery> = {
+  email: emailDelivery,
+  whatsapp: whatsappDelivery,
+};
+
+interface PasswordResetService {
+  changePassword(userId: string, currentPassword: string, newPassword: string, currentSessionId?: string): Promise<boolean>;
+  requestReset(email: string, channel: PasswordResetChannel, appUrl: string): Promise<void>;
+  resetWithToken(token: string, newPassword: string): Promise<PasswordResetResult>;
+  resetWithCode(email: string, code: string, newPassword: string): Promise<PasswordResetResult>;
+}
+
+class PasswordResetServiceImpl implements PasswordResetService {
+
+  /**
+   * Change the password of a signed-in user, signing out their other sessions
+   * @returns false when the current password is wrong
+   */
+  async changePassword(userId: string, currentPassword: string, newPassword: string, currentSessionId?: string): Promise<boolean> {
+    const user = await storage.getUser(userId);
+    if (!user?.password || !(await verifyPassword(currentPassword, user.password))) {
+      return false;
+    }
+
+    await storage.updateUser(userId, { password: await hashPassword(newPassword) });
+    await storage.invalidatePasswordResetTokens(userId);
+    await sessionService.revokeAll(userId, currentSessionId);
+    return true;
+  }
+
+  /**
+   * Send a reset secret over the channel. Says nothing about whether the email is registered or
+   * the channel reached the user, so it can't be used to probe accounts.
+   */
+  async requestReset(email: string, channel: PasswordResetChannel, appUrl: string): Promise<void> {
+    const user = await storage.getUserByEmail(email);
+    if (!user) {
+      return;
+    }
+
+    // Not awaited: the token writes and the send would make the response slower when the account exists
+    this.sendReset(user, channel, appUrl).catch((error) => {
+      console.error(`❌ Error sending password reset by ${channel} to user ${user.id}:`, error);
+    });
+  }
+
+  private async sendReset(user: User, channel: PasswordResetChannel, appUrl: string): Promise<void> {
+    const now = Math.floor(Date.now() / 1000);
+    if (await storage.countPasswordResetTokensSince(user.id, now - REQUEST_WINDOW_SECONDS) >= MAX_REQUESTS_PER_WINDOW) {
+      console.warn(`⚠️ Too many password reset requests for user ${user.id}`);
+      return;
+    }
+
+    const delivery = deliveries[channel];
+    const secret = delivery.createSecret();
+    await storage.invalidatePasswordResetTokens(user.id);
+    await storage.createPasswordResetToken({
+      userId: user.id,
+      tokenHash: this.hash(secret),
+      channel,
+      expiresAt: now + delivery.ttlSeconds,
+    });
+
+    const preferences = await storage.getUserPreferences(user.id);
+    const delivered = await delivery.deliver(user, secret, preferences?.language || 'en', appUrl);
+    console.log(`🔐 Password reset for user ${user.id} by ${channel}: ${delivered ? 'sent' : 'not delivered'}`);
+  }
+
+  /**
+   * Reset with the token from an emailed link
+   */
+  async resetWithToken(token: string, newPassword: string): Promise<PasswordResetResult> {
+    const resetToken = await storage.getPasswordResetTokenByHash(this.hash(token));
+    if (!resetToken || resetToken.channel !== 'email' || resetToken.usedAt) {
+      return 'invalid';
+    }
+    if (resetToken.expiresAt < Math.floor(Date.now() / 1000)) {
+      return 'expired';
+    }
+
+    return this.complete(resetToken.id, resetToken.userId, newPassword);
+  }
+
+  /**
+   * Reset with a WhatsApp code. A code is short, so it stops working after a few wrong tries.
+   */
+  async resetWithCode(email: string, code: string, newPassword: string): Promise<PasswordResetResult> {
+    const user = await storage.getUserByEmail(email);
+    const resetToken = user ? await storage.getActivePasswordResetToken(user.id, 'whatsapp') : undefined;
+    if (!resetToken) {
+      return 'invalid';
+    }
+
+    const expected = Buffer.from(resetToken.tokenHash, 'hex');
+    const received = Buffer.from(this.hash(code.trim()), 'hex');
+    if (!crypto.timingSafeEqual(expected, received)) {
+      const attempts = await storage.recordPasswordResetAttempt(resetToken.id);
+      if (attempts >= MAX_CODE_ATTEMPTS) {
+        await storage.consumePasswordResetToken(resetToken.id);
+      }
+      return 'invalid';
+    }
+
+    return this.complete(resetToken.id, resetToken.userId, newPassword);
+  }
+
+  private async complete(tokenId: number, userId: string, newPassword: string): Promise<PasswordResetResult> {
+    // Two requests with the same token: only one gets to use it
+    if (!(await storage.consumePasswordResetToken(tokenId))) {
+      return 'invalid';
+    }
+
+    await storage.updateUser(userId, { password: await hashPassword(newPassword) });
+    await storage.invalidatePasswordResetTokens(userId);
+    await sessionService.revokeAll(userId);
+    console.log(`🔐 Password reset for user ${userId}; all sessions signed out`);
+    return 'reset';
+  }
+
+  private hash(secret: string): string {
+    return crypto.createHash('sha256').update(secret).digest('hex');
+  }
+}
+
+export const passwordResetService = new PasswordResetServiceImpl();
@@ -0,0 +1,74 @@
+import cron from 'node-cron';
+import { recurringTransactionService } from './recurring-transaction-service';
+
+/**
+ * Recurring Transaction Scheduler
+ * 
+ * This module materializes recurring transaction templates (subscriptions, rent, salary)
+ * into real transactions. It runs every hour and creates a transaction for every
+ * template whose next run date has passed.
+ */
+
+let schedulerStarted = false;
+
+export function startRecurringTransactionScheduler() {
+  if (schedulerStarted) {
+    console.log('⚠️ Recurring transaction scheduler is already running');
+    return;
+  }
+
+  console.log('🚀 Starting recurring transaction scheduler...');
+
+  // Cron format: second minute hour day month dayOfWeek
+  // '0 5 * * * *' = Every hour at minute 5
+  const recurringJob = cron.schedule('0 5 * * * *', async () => {
+    console.log('⏰ Running recurring transaction check at', new Date().toLocaleString());
+
+    try {
+      await recurringTransactionService.processDueRecurringTransactions();
+    } catch (error) {
+      console.error('❌ Error in scheduled recurring transaction check:', error);
+    }
+  }, {
+    timezone: process.env.TZ || 'Asia/Jakarta' // Use timezone from environment
+  });
+
+  // Catch up on anything that became due while the server was down
+  setTimeout(async () => {
+    try {
+      await recurringTransactionService.processDueRecurringTransactions();
+    } catch (error) {
+      console.error('❌ Error in initial recurring transaction check:', error);
+    }
+  }, 5000); // Wait 5 seconds after startup
+
+  schedulerStarted = true;
+  console.log('✅ Recurring transaction scheduler started successfully');
+  console.log('📅 Recurring transactions will be checked every hour');
+
+  return recurringJob;
+}
+
+export function stopRecurringTransactionScheduler() {
+  if (!schedulerStarted) {
+    console.log('⚠️ Recurring transaction scheduler is not running');
+    return;
+  }
+
+  schedulerStarted = false;
+  console.log('🛑 Recurring transaction scheduler stopped');
+}
+
+// Manual trigger function for testing
+export async function triggerRecurringTransactionsManually() {
+  console.log('🧪 Manually triggering recurring transactions...');
+
+  try {
+    const created = await recurringTransactionService.processDueRecurringTransactions();
+    console.log(`✅ Manual recurring transactions completed, ${created} transactions created`);
+    return created;
+  } catch (error) {
+    console.error('❌ Error in manual recurring transactions:', error);
+    throw error;
+  }
+}
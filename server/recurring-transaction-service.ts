@@ -0,0 +1,72 @@
+import { storage } from './storage';
+import { RecurringTransaction, Transaction } from '@shared/schema';
+
+// Upper bound on occurrences created in one pass, so a daily template that was
+// paused for a long time can't flood the ledger in a single run
+const MAX_CATCH_UP_OCCURRENCES = 366;
+
+interface RecurringTransactionService {
+  processDueRecurringTransactions(): Promise<number>;
+  processRecurringTransaction(recurring: RecurringTransaction): Promise<Transaction[]>;
+}
+
+class RecurringTransactionServiceImpl implements RecurringTransactionService {
+
+  /**
+   * Materialize every recurring template whose next run date has passed.
+   * Returns the number of transactions created.
+   */
+  async processDueRecurringTransactions(): Promise<number> {
+    console.log('🔁 Starting recurring transactions check...');
+
+    let created = 0;
+
+    try {
+      const now = Math.floor(Date.now() / 1000);
+      const dueTemplates = await storage.getDueRecurringTransactions(now);
+
+      console.log(`Found ${dueTemplates.length} due recurring transactions`);
+
+      for (const recurring of dueTemplates) {
+        try {
+          const transactions = await this.processRecurringTransaction(recurring);
+          created += transactions.length;
+        } catch (error) {
+          console.error(`❌ Error processing recurring transaction ${recurring.id}:`, error);
+        }
+      }
+
+      console.log(`✅ Recurring transactions check completed, ${created} transactions created`);
+    } catch (error) {
+      console.error('❌ Error in recurring transactions check:', error);
+    }
+
+    return created;
+  }
+
+  /**
+   * Create all occurrences of a single template that are due up to now, catching up
+   * on runs that were missed while the server was down.
+   */
+  async processRecurringTransaction(recurring: RecurringTransaction): Promise<Transaction[]> {
+    const now = Math.floor(Date.now() / 1000);
+    const created: Transaction[] = [];
+    let current = recurring;
+
+    while (current.isActive && current.nextRunDate <= now && created.length < MAX_CATCH_UP_OCCURRENCES) {
+      const result = await storage.materializeRecurringTransaction(current);
+      // Another run got to this occurrence first
+      if (!result) break;
+      created.push(result.transaction);
+      current = result.recurring;
+    }
+
+    if (created.length > 0) {
+      console.log(`📝 Recurring transaction ${recurring.id} (${recurring.description}) created ${created.length} transaction(s) for user ${recurring.userId}`);
+    }
+
+    return created;
+  }
+}
+
+export const recurringTransactionService = new RecurringTransactionServiceImpl();
@@ -1,18 +1,36 @@
 import type { Express, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { analyzeTransactionText, processReceiptImage } from "./openai";
-import { insertTransactionSchema, insertBudgetSchema, insertCategorySchema, insertGoalSchema, updateUserPreferencesSchema } from "@shared/schema";
-import { requireAuth, hashPassword, verifyPassword, generateToken, type AuthRequest } from "./auth";
+import { processReceiptImage, type TransactionAnalysis } from "./openai";
+import { insertTransactionSchema, insertBudgetSchema, insertCategorySchema, insertGoalSchema, insertAccountSchema, insertRecurringTransactionSchema, insertImportMappingSchema, insertCategorizationRuleSchema, updateUserPreferencesSchema, type InsertTransaction, type InsertCategorizationRule, type Category, type Transaction, type Account, type RecurringTransaction, type ImportBatch, type ImportMapping, type CategorizationRule, type TransactionWithCategory, type BudgetWithCategory, type Goal, type User } from "@shared/schema";
+import { requireAuth, hashPassword, verifyPassword, type AuthRequest } from "./auth";
+import { ownsAccount, ownsBudget, ownsCategorizationRule, ownsCategory, ownsGoal, ownsImportBatch, ownsImportMapping, ownsRecurringTransaction, ownsTransaction, type OwnedRequest } from "./ownership";
 import { AIFinancialIntelligenceEngine } from './ai-intelligence';
 import whatsappSingleBotRoutes from './whatsapp-single-bot-routes';
 import whatsappMultiAccountRoutes from './whatsapp-multi-account-routes';
+import telegramRoutes from './telegram-routes';
+import whatsappCloudRoutes from './whatsapp-cloud-routes';
+import messagingSimulatorRoutes from './messaging-simulator-routes';
+import { isMessagingSimulatorEnabled, isWhatsAppCloudEnabled } from './messaging-provider';
 import { triggerTransactionRemindersManually } from './transaction-reminder-scheduler';
+import { recurringTransactionService } from './recurring-transaction-service';
+import { statementImportService } from './statement-import-service';
+import { categorizationRuleService } from './categorization-rule-service';
+import { detectStatementFormat, type CsvColumnMapping } from './statement-parser';
+import { intentRouter, type IntentName } from './intent-router';
+import { conversationStateService } from './conversation-state';
+import { transactionDraftService } from './transaction-draft-service';
+import { transactionBatchService } from './transaction-batch-service';
+import { spendingLimitService, type SpendingLimitViolation } from './spending-limit-service';
+import { sessionService } from './session-service';
+import { passwordResetService } from './password-reset-service';
+import { accountDeletionService, MAX_GRACE_DAYS } from './account-deletion-service';
+import { twoFactorService, requireFreshSecondFactor } from './two-factor-service';
 import multer from "multer";
 import { z } from "zod";
 import session from "express-session";
 import MemoryStore from "memorystore";
-import OpenAI from "openai";
+import { llm } from "./llm-provider";
 
 // Helper function to get currency symbol
 function getCurrencySymbol(currency: string): string {
@@ -32,9 +50,160 @@ function getCurrencySymbol(currency: string): string {
   return symbols[currency] || currency;
 }
 
-const openai = new OpenAI({ 
-  apiKey: process.env.OPENAI_API_KEY || process.env.OPENAI_KEY || "default_key"
-});
+// Sign the user in on the requesting device and answer with their tokens
+async function respondWithSession(user: User, req: AuthRequest, res: Response) {
+  const { token, refreshToken } = await sessionService.start({
+    id: user.id,
+    email: user.email || '',
+    firstName: user.firstName || undefined,
+    lastName: user.lastName || undefined,
+  }, req);
+
+  res.json({
+    message: 'Login successful',
+    user: {
+      id: user.id,
+      email: user.email || '',
+      firstName: user.firstName,
+      lastName: user.lastName,
+    },
+    token,
+    refreshToken,
+  });
+}
+
+type SplitInput = { categoryId: number; amount: number; description?: string | null };
+
+// Split parts must use the user's own categories of the transaction's type and add up to its amount
+async function validateTransactionSplits(
+  userId: string,
+  transaction: Pick<Transaction, "amount" | "type">,
+  splits: SplitInput[]
+): Promise<string | null> {
+  if (splits.length === 0) return null;
+  if (transaction.type === 'transfer') {
+    return 'Transfers cannot be split';
+  }
+
+  const categories = await storage.getCategories(userId);
+  for (const split of splits) {
+    const category = categories.find(c => c.id === split.categoryId);
+    if (!category || category.type !== transaction.type) {
+      return `Category ${split.categoryId} not found`;
+    }
+  }
+
+  const total = splits.reduce((sum, split) => sum + split.amount, 0);
+  if (Math.abs(total - transaction.amount) > 0.01) {
+    return `Split amounts (${total}) must add up to the transaction amount (${transaction.amount})`;
+  }
+
+  return null;
+}
+
+// Turn the receipt line item groups proposed by the AI into splits on the created transaction.
+// Anything that does not resolve cleanly leaves the transaction unsplit.
+async function applyReceiptSplits(
+  userId: string,
+  transaction: Transaction,
+  analysis: TransactionAnalysis,
+  categories: Category[]
+): Promise<Transaction> {
+  if (!analysis.splits || analysis.splits.length < 2) return transaction;
+
+  const partsByCategory = new Map<number, SplitInput>();
+  for (const split of analysis.splits) {
+    const amount = Number(split.amount);
+    if (!(amount > 0)) continue;
+
+    const category = categories.find(c =>
+      c.type === transaction.type && c.name.toLowerCase() === String(split.category).toLowerCase()
+    );
+    const categoryId = category?.id ?? transaction.categoryId;
+    if (!categoryId) continue;
+
+    const part = partsByCategory.get(categoryId);
+    if (part) {
+      part.amount += amount;
+    } else {
+      partsByCategory.set(categoryId, { categoryId, amount, description: split.description || null });
+    }
+  }
+
+  const splits = Array.from(partsByCategory.values());
+  if (splits.length < 2 || await validateTransactionSplits(userId, transaction, splits)) {
+    return transaction;
+  }
+
+  await storage.setTransactionSplits(transaction.id, userId, splits);
+  return (await storage.getTransactionById(transaction.id, userId)) || transaction;
+}
+
+// Hold chat transactions that would pass a hard spending limit as the pending draft until the user
+// replies "tetap simpan" in the chat. The limits are those of the categories the transactions will be
+// saved in (`resolved`, one per analysis). Returns the limits to record as breached once they are
+// saved, and the reply to send instead of saving when they are held.
+async function checkChatSpendingLimits(
+  userId: string,
+  analyses: TransactionAnalysis[],
+  resolved: Array<Category | undefined>,
+  categories: Category[],
+  language: string,
+  formatAmount: (amount: number) => string,
+  overrideLimit = false
+): Promise<{ violations: SpendingLimitViolation[]; heldMessage: string | null }> {
+  const violations = await spendingLimitService.checkAnalyses(userId, analyses, resolved);
+  if (violations.length === 0 || overrideLimit) {
+    return { violations, heldMessage: null };
+  }
+
+  const held = transactionDraftService.holdForLimit(userId, analyses);
+  return {
+    violations,
+    heldMessage: `${spendingLimitService.buildViolationMessage(violations, language, formatAmount)}\n\n${transactionDraftService.buildPrompt(held, categories, language, formatAmount)}`
+  };
+}
+
+// The rule's category must be the user's own and fit the rule's transaction type
+async function validateCategorizationRule(
+  userId: string,
+  rule: Pick<InsertCategorizationRule, "categoryId" | "pattern" | "transactionType">
+): Promise<{ status: number; message: string } | null> {
+  const category = await storage.getCategoryById(rule.categoryId, userId);
+  if (!category) {
+    return { status: 404, message: 'Category not found' };
+  }
+  if (rule.transactionType && category.type !== rule.transactionType) {
+    return { status: 400, message: `Category "${category.name}" is not an ${rule.transactionType} category` };
+  }
+  if (categorizationRuleService.normalizeDescription(rule.pattern).length < 2) {
+    return { status: 400, message: 'The pattern needs at least two letters or digits' };
+  }
+  return null;
+}
+
+type ChatCommandResult =
+  | { handled: true; intent: IntentName | null; reply: string }
+  | { handled: false; text: string };
+
+// Web chat goes through the same intent router as WhatsApp. Anything but a transaction is answered
+// by the WhatsApp command handlers; a transaction is left to the caller with the text to record.
+async function handleChatCommand(userId: string, text: string, language: string): Promise<ChatCommandResult> {
+  const goals = await storage.getGoals(userId);
+  const route = intentRouter.route(userId, text, { language, goalNames: goals.map(goal => goal.name) });
+
+  if (route.type === 'clarify') {
+    return { handled: true, intent: null, reply: route.question };
+  }
+  if (route.intent === 'transaction') {
+    return { handled: false, text: route.text };
+  }
+
+  const replies: string[] = [];
+  const { dispatchIntent } = await import('./whatsapp-service');
+  await dispatchIntent({ body: route.text, reply: async (reply: string) => { replies.push(reply); } }, userId, route.intent);
+  return { handled: true, intent: route.intent, reply: replies.join('\n\n') };
+}
 
 const upload = multer({ storage: multer.memoryStorage() });
 const MemStore = MemoryStore(session);
@@ -51,11 +220,143 @@ const loginSchema = z.object({
   password: z.string().min(1),
 });
 
+// The second login step: the token from the password step and a two-factor or recovery code
+const twoFactorLoginSchema = z.object({
+  challengeToken: z.string().min(1),
+  code: z.string().min(1).max(32),
+});
+
+const twoFactorChallengeSchema = z.object({
+  challengeToken: z.string().min(1),
+});
+
+const twoFactorEnableSchema = z.object({
+  method: z.enum(['totp', 'whatsapp']),
+  code: z.string().min(1).max(32),
+});
+
+const refreshSchema = z.object({
+  refreshToken: z.string().min(1),
+});
+
+const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1),
+  newPassword: z.string().min(6),
+});
+
+const deleteAccountSchema = z.object({
+  password: z.string().optional(),
+  // Days the account stays, cancellable, before it's purged; ACCOUNT_DELETION_GRACE_DAYS when missing
+  graceDays: z.number().int().min(0).max(MAX_GRACE_DAYS).optional(),
+});
+
+const passwordResetRequestSchema = z.object({
+  email: z.string().email(),
+  channel: z.enum(['email', 'whatsapp']).default('email'),
+});
+
+// The token from an emailed link, or the email and the code sent by WhatsApp
+const passwordResetConfirmSchema = z.object({
+  token: z.string().min(1).optional(),
+  email: z.string().email().optional(),
+  code: z.string().min(1).optional(),
+  newPassword: z.string().min(6),
+}).refine(data => data.token || (data.email && data.code), {
+  message: 'Provide either a reset token, or the email and the code',
+});
+
+const transferSchema = z.object({
+  fromAccountId: z.coerce.number().int().positive(),
+  toAccountId: z.coerce.number().int().positive(),
+  amount: z.coerce.number().positive(),
+  description: z.string().optional(),
+  date: z.string().optional(),
+});
+
+// Comma separated lists in query strings, e.g. ?categoryId=1,2,3
+const csvList = z.string().transform((value) => value.split(',').map((item) => item.trim()).filter(Boolean));
+
+const transactionQuerySchema = z.object({
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  startDate: z.coerce.number().int().optional(), // Unix timestamp (seconds)
+  endDate: z.coerce.number().int().optional(), // Unix timestamp (seconds)
+  categoryId: csvList.pipe(z.array(z.coerce.number().int().positive())).optional(),
+  type: csvList.pipe(z.array(z.enum(['income', 'expense', 'transfer']))).optional(),
+  accountId: z.coerce.number().int().positive().optional(),
+  minAmount: z.coerce.number().optional(),
+  maxAmount: z.coerce.number().optional(),
+  search: z.string().trim().optional(),
+  aiGenerated: z.enum(['true', 'false']).transform((value) => value === 'true').optional(),
+  sort: z.enum(['date_desc', 'date_asc', 'amount_desc', 'amount_asc']).default('date_desc'),
+});
+
+const statementFormatSchema = z.enum(["csv", "ofx", "mt940"]);
+
+// Ad-hoc CSV column mapping sent with a preview when no saved mapping is used
+const csvMappingSchema = z.object({
+  delimiter: z.string().length(1).default(","),
+  hasHeader: z.boolean().default(true),
+  dateColumn: z.number().int().min(0),
+  descriptionColumn: z.number().int().min(0),
+  amountColumn: z.number().int().min(0).nullish(),
+  debitColumn: z.number().int().min(0).nullish(),
+  creditColumn: z.number().int().min(0).nullish(),
+  dateFormat: z.enum(["YYYY-MM-DD", "DD/MM/YYYY", "MM/DD/YYYY", "DD-MM-YYYY", "DD.MM.YYYY"]).default("YYYY-MM-DD"),
+  decimalSeparator: z.enum([".", ","]).default("."),
+}).refine(
+  (mapping) => mapping.amountColumn != null || (mapping.debitColumn != null && mapping.creditColumn != null),
+  { message: "Map either an amount column or both debit and credit columns", path: ["amountColumn"] }
+);
+
+// Multipart fields arrive as strings
+const importPreviewSchema = z.object({
+  format: statementFormatSchema.optional(),
+  mappingId: z.coerce.number().int().positive().optional(),
+  mapping: z.string().optional(), // JSON encoded csvMappingSchema
+});
+
+const transactionSplitSchema = z.object({
+  categoryId: z.number().int().positive(),
+  amount: z.number().positive(),
+  description: z.string().max(255).nullish(),
+});
+
+// An empty list removes the split, a single part would just be the transaction itself
+const transactionSplitsSchema = z.array(transactionSplitSchema)
+  .max(20)
+  .refine(splits => splits.length !== 1, { message: "A split needs at least two parts" });
+
+const importCommitSchema = z.object({
+  format: statementFormatSchema,
+  fileName: z.string().max(255).optional(),
+  accountId: z.number().int().positive().nullish(),
+  skippedCount: z.number().int().min(0).default(0),
+  rows: z.array(z.object({
+    date: z.number().int().positive(),
+    amount: z.number().positive(),
+    type: z.enum(["income", "expense"]),
+    description: z.string().min(1).max(500),
+    categoryId: z.number().int().positive(),
+  })).min(1).max(5000),
+});
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Register WhatsApp routes
   // WhatsApp routes (Single Bot System)
   app.use('/api', whatsappSingleBotRoutes);
   app.use('/api', whatsappMultiAccountRoutes);
+  app.use('/api', telegramRoutes);
+
+  // Webhook for the official WhatsApp Cloud API, when it replaces whatsapp-web.js
+  if (isWhatsAppCloudEnabled()) {
+    app.use('/api', whatsappCloudRoutes);
+  }
+
+  // Simulator console, only when the bots run on the simulator instead of WhatsApp
+  if (isMessagingSimulatorEnabled()) {
+    app.use('/api', messagingSimulatorRoutes);
+  }
   
   // Session middleware
   app.use(session({
@@ -93,13 +394,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         password: hashedPassword,
       });
 
-      // Generate token
-      const token = generateToken({
+      // Sign the new user in on this device
+      const { token, refreshToken } = await sessionService.start({
         id: user.id,
         email: user.email || '',
         firstName: user.firstName || undefined,
         lastName: user.lastName || undefined,
-      });
+      }, req);
 
       res.status(201).json({
         message: 'User registered successfully',
@@ -110,6 +411,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           lastName: user.lastName,
         },
         token,
+        refreshToken,
       });
     } catch (error) {
       console.error('Registration error:', error);
@@ -136,26 +438,298 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ message: 'Invalid email or password' });
       }
 
-      // Generate token
-      const token = generateToken({
-        id: user.id,
-        email: user.email || '',
-        firstName: user.firstName || undefined,
-        lastName: user.lastName || undefined,
-      });
+      // With two-factor on, the password only opens the second step
+      const twoFactorMethod = await twoFactorService.getMethod(user.id);
+      if (twoFactorMethod) {
+        const challenge = await twoFactorService.startLogin(user.id, twoFactorMethod);
+        return res.json({
+          message: 'Two-factor code required',
+          twoFactorRequired: true,
+          ...challenge,
+        });
+      }
+
+      // Start a session for this device
+      await respondWithSession(user, req, res);
+    } catch (error) {
+      console.error('Login error:', error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input data', errors: error.errors });
+      }
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Finish a login with a code from the second factor or a recovery code
+  app.post('/api/auth/login/2fa', async (req: AuthRequest, res) => {
+    try {
+      const { challengeToken, code } = twoFactorLoginSchema.parse(req.body);
+
+      const result = await twoFactorService.completeLogin(challengeToken, code);
+      if (result.status === 'expired') {
+        return res.status(400).json({ code: 'TWO_FACTOR_EXPIRED', message: 'This login has expired. Please log in again.' });
+      }
+      if (result.status === 'invalid') {
+        return res.status(400).json({ code: 'TWO_FACTOR_INVALID', message: 'Invalid two-factor code' });
+      }
+
+      const user = await storage.getUser(result.userId);
+      if (!user) {
+        return res.status(400).json({ code: 'TWO_FACTOR_EXPIRED', message: 'This login has expired. Please log in again.' });
+      }
+
+      await respondWithSession(user, req, res);
+    } catch (error) {
+      console.error('Two-factor login error:', error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input data', errors: error.errors });
+      }
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Send another WhatsApp code for a login; the answer carries a new challenge token
+  app.post('/api/auth/login/2fa/resend', async (req: AuthRequest, res) => {
+    try {
+      const { challengeToken } = twoFactorChallengeSchema.parse(req.body);
+
+      const challenge = await twoFactorService.resendLoginCode(challengeToken);
+      if (!challenge) {
+        return res.status(400).json({ code: 'TWO_FACTOR_EXPIRED', message: 'This login has expired. Please log in again.' });
+      }
+
+      res.json({ message: 'Two-factor code required', twoFactorRequired: true, ...challenge });
+    } catch (error) {
+      console.error('Two-factor code resend error:', error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input data', errors: error.errors });
+      }
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Trade a refresh token for new tokens; the old refresh token stops working
+  app.post('/api/auth/refresh', async (req: AuthRequest, res) => {
+    try {
+      const { refreshToken } = refreshSchema.parse(req.body);
+
+      const refreshed = await sessionService.refresh(refreshToken, req);
+      if (!refreshed) {
+        return res.status(401).json({ message: 'Invalid or expired refresh token' });
+      }
+
+      res.json(refreshed);
+    } catch (error) {
+      console.error('Token refresh error:', error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input data', errors: error.errors });
+      }
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Sign this device out
+  app.post('/api/auth/logout', requireAuth, async (req: AuthRequest, res) => {
+    try {
+      if (!req.user) return res.status(401).json({ message: 'Unauthorized' });
+
+      await sessionService.revoke(req.sessionId!, req.user.id);
+      res.json({ message: 'Logged out' });
+    } catch (error) {
+      console.error('Logout error:', error);
+      res.status(500).json({ message: 'Failed to log out' });
+    }
+  });
+
+  // Sign every device out, this one included
+  app.post('/api/auth/logout-all', requireAuth, async (req: AuthRequest, res) => {
+    try {
+      if (!req.user) return res.status(401).json({ message: 'Unauthorized' });
+
+      const revoked = await sessionService.revokeAll(req.user.id);
+      res.json({ message: 'Logged out everywhere', revoked });
+    } catch (error) {
+      console.error('Logout everywhere error:', error);
+      res.status(500).json({ message: 'Failed to log out everywhere' });
+    }
+  });
+
+  // Devices signed in to the account
+  app.get('/api/auth/sessions', requireAuth, async (req: AuthRequest, res) => {
+    try {
+      if (!req.user) return res.status(401).json({ message: 'Unauthorized' });
+
+      const sessions = await sessionService.list(req.user.id, req.sessionId);
+      res.json(sessions);
+    } catch (error) {
+      console.error('Error fetching sessions:', error);
+      res.status(500).json({ message: 'Failed to fetch sessions' });
+    }
+  });
+
+  app.delete('/api/auth/sessions/:id', requireAuth, async (req: AuthRequest, res) => {
+    try {
+      if (!req.user) return res.status(401).json({ message: 'Unauthorized' });
+
+      const revoked = await sessionService.revoke(req.params.id, req.user.id);
+      if (!revoked) {
+        return res.status(404).json({ message: 'Session not found' });
+      }
+      res.json({ message: 'Session signed out' });
+    } catch (error) {
+      console.error('Error revoking session:', error);
+      res.status(500).json({ message: 'Failed to sign session out' });
+    }
+  });
+
+  // Two-factor settings as shown in Settings → Security
+  app.get('/api/auth/2fa', requireAuth, async (req: AuthRequest, res) => {
+    try {
+      if (!req.user) return res.status(401).json({ message: 'Unauthorized' });
+
+      res.json(await twoFactorService.getStatus(req.user.id));
+    } catch (error) {
+      console.error('Error fetching two-factor status:', error);
+      res.status(500).json({ message: 'Failed to fetch two-factor status' });
+    }
+  });
+
+  // Start authenticator app enrollment: a new secret and its QR code
+  app.post('/api/auth/2fa/totp', requireAuth, async (req: AuthRequest, res) => {
+    try {
+      if (!req.user) return res.status(401).json({ message: 'Unauthorized' });
+
+      const user = await storage.getUser(req.user.id);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+
+      const enrollment = await twoFactorService.beginTotpEnrollment(user);
+      if (!enrollment) {
+        return res.status(409).json({ message: 'Two-factor authentication is already on' });
+      }
+      res.json(enrollment);
+    } catch (error) {
+      console.error('Error starting two-factor enrollment:', error);
+      res.status(500).json({ message: 'Failed to start two-factor setup' });
+    }
+  });
+
+  // Send a WhatsApp code: to enroll WhatsApp as the second factor, or to confirm a change with it
+  app.post('/api/auth/2fa/code', requireAuth, async (req: AuthRequest, res) => {
+    try {
+      if (!req.user) return res.status(401).json({ message: 'Unauthorized' });
+
+      if (await twoFactorService.getMethod(req.user.id) === 'totp') {
+        return res.status(400).json({ message: 'Use the code from your authenticator app' });
+      }
+
+      const sent = await twoFactorService.sendVerificationCode(req.user.id);
+      if (!sent) {
+        return res.status(400).json({ message: 'Could not send a code. Check that a WhatsApp number is linked, or try again later.' });
+      }
+      res.json({ message: 'Code sent to your linked WhatsApp number' });
+    } catch (error) {
+      console.error('Error sending two-factor code:', error);
+      res.status(500).json({ message: 'Failed to send two-factor code' });
+    }
+  });
+
+  // Turn two-factor on with a first code; answers with the recovery codes, shown only this once
+  app.post('/api/auth/2fa/enable', requireAuth, async (req: AuthRequest, res) => {
+    try {
+      if (!req.user) return res.status(401).json({ message: 'Unauthorized' });
+
+      const { method, code } = twoFactorEnableSchema.parse(req.body);
+
+      if (await twoFactorService.getMethod(req.user.id)) {
+        return res.status(409).json({ message: 'Two-factor authentication is already on' });
+      }
+
+      const recoveryCodes = await twoFactorService.enable(req.user.id, method, code);
+      if (!recoveryCodes) {
+        return res.status(400).json({ message: 'Invalid or expired code' });
+      }
+      res.json({ message: 'Two-factor authentication turned on', method, recoveryCodes });
+    } catch (error) {
+      console.error('Error enabling two-factor:', error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input data', errors: error.errors });
+      }
+      res.status(500).json({ message: 'Failed to turn on two-factor authentication' });
+    }
+  });
+
+  app.post('/api/auth/2fa/disable', requireAuth, requireFreshSecondFactor, async (req: AuthRequest, res) => {
+    try {
+      if (!req.user) return res.status(401).json({ message: 'Unauthorized' });
+
+      await twoFactorService.disable(req.user.id);
+      res.json({ message: 'Two-factor authentication turned off' });
+    } catch (error) {
+      console.error('Error disabling two-factor:', error);
+      res.status(500).json({ message: 'Failed to turn off two-factor authentication' });
+    }
+  });
+
+  // New recovery codes; the old ones stop working
+  app.post('/api/auth/2fa/recovery-codes', requireAuth, requireFreshSecondFactor, async (req: AuthRequest, res) => {
+    try {
+      if (!req.user) return res.status(401).json({ message: 'Unauthorized' });
+
+      if (!(await twoFactorService.getMethod(req.user.id))) {
+        return res.status(400).json({ message: 'Two-factor authentication is off' });
+      }
+
+      const recoveryCodes = await twoFactorService.regenerateRecoveryCodes(req.user.id);
+      res.json({ recoveryCodes });
+    } catch (error) {
+      console.error('Error regenerating recovery codes:', error);
+      res.status(500).json({ message: 'Failed to regenerate recovery codes' });
+    }
+  });
+
+  // Send a password reset link by email or a code by WhatsApp. Answers the same whether or not the
+  // email is registered.
+  app.post('/api/auth/password-reset/request', async (req: AuthRequest, res) => {
+    try {
+      const { email, channel } = passwordResetRequestSchema.parse(req.body);
+
+      const appUrl = process.env.APP_URL || `${req.protocol}://${req.get('host')}`;
+      await passwordResetService.requestReset(email, channel, appUrl);
 
       res.json({
-        message: 'Login successful',
-        user: {
-          id: user.id,
-          email: user.email || '',
-          firstName: user.firstName,
-          lastName: user.lastName,
-        },
-        token,
+        message: channel === 'whatsapp'
+          ? 'If the account has a linked WhatsApp number, a reset code is on its way'
+          : 'If the email is registered, a reset link is on its way',
       });
     } catch (error) {
-      console.error('Login error:', error);
+      console.error('Password reset request error:', error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input data', errors: error.errors });
+      }
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.post('/api/auth/password-reset/confirm', async (req: AuthRequest, res) => {
+    try {
+      const { token, email, code, newPassword } = passwordResetConfirmSchema.parse(req.body);
+
+      const result = token
+        ? await passwordResetService.resetWithToken(token, newPassword)
+        : await passwordResetService.resetWithCode(email!, code!, newPassword);
+
+      if (result === 'expired') {
+        return res.status(400).json({ message: 'This reset link has expired. Please request a new one.' });
+      }
+      if (result === 'invalid') {
+        return res.status(400).json({ message: 'Invalid or already used reset link or code' });
+      }
+
+      res.json({ message: 'Password reset. Please log in with your new password.' });
+    } catch (error) {
+      console.error('Password reset error:', error);
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: 'Invalid input data', errors: error.errors });
       }
@@ -185,6 +759,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!preferences) {
         preferences = await storage.initializeDefaultUserPreferences(req.user.id);
       }
+
+      // Make sure the user has a default account for their transactions
+      await storage.getOrCreateDefaultAccount(req.user.id);
       
       res.json(user);
     } catch (error) {
@@ -232,21 +809,91 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // User profile image upload
-  app.post('/api/user/upload-profile-image', requireAuth, upload.single('profileImage'), async (req: AuthRequest, res) => {
+  // Change password; other devices are signed out
+  app.put('/api/user/password', requireAuth, async (req: AuthRequest, res) => {
     try {
-      console.log("Profile image upload request received");
-      
-      if (!req.user) {
-        console.log("Unauthorized - No user in request");
-        return res.status(401).json({ message: 'Unauthorized' });
-      }
-      
-      if (!req.file) {
-        console.log("No file in request");
-        return res.status(400).json({ message: "Profile image is required" });
+      if (!req.user) return res.status(401).json({ message: 'Unauthorized' });
+
+      const { currentPassword, newPassword } = changePasswordSchema.parse(req.body);
+
+      const changed = await passwordResetService.changePassword(req.user.id, currentPassword, newPassword, req.sessionId);
+      if (!changed) {
+        return res.status(400).json({ message: 'Current password is incorrect' });
       }
-      
+
+      res.json({ message: 'Password changed successfully' });
+    } catch (error) {
+      console.error('Error changing password:', error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input data', errors: error.errors });
+      }
+      res.status(500).json({ message: 'Failed to change password' });
+    }
+  });
+
+  // Delete the account and all its data, right away or after a grace period
+  app.delete('/api/user/account', requireAuth, async (req: AuthRequest, res) => {
+    try {
+      if (!req.user) return res.status(401).json({ message: 'Unauthorized' });
+
+      const { password, graceDays } = deleteAccountSchema.parse(req.body);
+
+      const user = await storage.getUser(req.user.id);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      if (user.password && (!password || !(await verifyPassword(password, user.password)))) {
+        return res.status(400).json({ message: 'Password is incorrect' });
+      }
+
+      const result = await accountDeletionService.requestDeletion(
+        req.user.id,
+        graceDays ?? (Number(process.env.ACCOUNT_DELETION_GRACE_DAYS) || 0)
+      );
+
+      res.json({
+        message: result.deleted ? 'Account deleted' : 'Account scheduled for deletion',
+        ...result,
+      });
+    } catch (error) {
+      console.error('Error deleting account:', error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input data', errors: error.errors });
+      }
+      res.status(500).json({ message: 'Failed to delete account' });
+    }
+  });
+
+  app.post('/api/user/account/cancel-deletion', requireAuth, async (req: AuthRequest, res) => {
+    try {
+      if (!req.user) return res.status(401).json({ message: 'Unauthorized' });
+
+      const cancelled = await accountDeletionService.cancelDeletion(req.user.id);
+      if (!cancelled) {
+        return res.status(400).json({ message: 'No account deletion is scheduled' });
+      }
+      res.json({ message: 'Account deletion cancelled' });
+    } catch (error) {
+      console.error('Error cancelling account deletion:', error);
+      res.status(500).json({ message: 'Failed to cancel account deletion' });
+    }
+  });
+
+  // User profile image upload
+  app.post('/api/user/upload-profile-image', requireAuth, upload.single('profileImage'), async (req: AuthRequest, res) => {
+    try {
+      console.log("Profile image upload request received");
+      
+      if (!req.user) {
+        console.log("Unauthorized - No user in request");
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+      
+      if (!req.file) {
+        console.log("No file in request");
+        return res.status(400).json({ message: "Profile image is required" });
+      }
+      
       console.log("File received:", {
         filename: req.file.originalname,
         mimetype: req.file.mimetype,
@@ -359,23 +1006,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put('/api/categories/:id', requireAuth, async (req: AuthRequest, res: Response) => {
+  app.put('/api/categories/:id', requireAuth, ownsCategory, async (req: OwnedRequest<Category>, res: Response) => {
     try {
       if (!req.user) return res.status(401).json({ message: 'Unauthorized' });
-      const categoryId = parseInt(req.params.id);
-      
-      // Verify category belongs to user
-      const existingCategory = await storage.getCategoryById(categoryId, req.user.id);
-      if (!existingCategory) {
-        return res.status(404).json({ message: 'Category not found' });
-      }
+      const categoryId = req.owned!.id;
       
       const categoryData = insertCategorySchema.parse({
         ...req.body,
         userId: req.user.id,
       });
       
-      const updatedCategory = await storage.updateCategory(categoryId, categoryData);
+      const updatedCategory = await storage.updateCategory(categoryId, req.user.id, categoryData);
       res.json(updatedCategory);
     } catch (error) {
       console.error("Error updating category:", error);
@@ -383,16 +1024,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/categories/:id', requireAuth, async (req: AuthRequest, res: Response) => {
+  app.delete('/api/categories/:id', requireAuth, ownsCategory, async (req: OwnedRequest<Category>, res: Response) => {
     try {
       if (!req.user) return res.status(401).json({ message: 'Unauthorized' });
-      const categoryId = parseInt(req.params.id);
-      
-      // Verify category belongs to user
-      const existingCategory = await storage.getCategoryById(categoryId, req.user.id);
-      if (!existingCategory) {
-        return res.status(404).json({ message: 'Category not found' });
-      }
+      const categoryId = req.owned!.id;
       
       // Check if category is used in transactions
       const transactions = await storage.getTransactionsByCategory(categoryId, req.user.id);
@@ -402,24 +1037,571 @@ export async function registerRoutes(app: Express): Promise<Server> {
           usedInTransactions: transactions.length
         });
       }
+
+      // Parts of split transactions count too
+      const splitCount = await storage.countCategorySplits(categoryId, req.user.id);
+      if (splitCount > 0) {
+        return res.status(400).json({
+          message: 'Cannot delete category that is used in split transactions',
+          usedInSplits: splitCount
+        });
+      }
+
+      const recurringCount = await storage.countCategoryRecurringTransactions(categoryId, req.user.id);
+      if (recurringCount > 0) {
+        return res.status(400).json({
+          message: 'Cannot delete category that is used by recurring transactions',
+          usedInRecurringTransactions: recurringCount
+        });
+      }
       
       await storage.deleteCategory(categoryId, req.user.id);
       res.json({ message: 'Category deleted successfully' });
     } catch (error) {
-      console.error("Error deleting category:", error);
-      res.status(500).json({ message: "Failed to delete category" });
+      console.error("Error deleting category:", error);
+      res.status(500).json({ message: "Failed to delete category" });
+    }
+  });
+
+  // Account routes
+  app.get('/api/accounts', requireAuth, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) return res.status(401).json({ message: 'Unauthorized' });
+      await storage.getOrCreateDefaultAccount(req.user.id);
+      const accounts = await storage.getAccountBalances(req.user.id);
+      res.json(accounts);
+    } catch (error) {
+      console.error("Error fetching accounts:", error);
+      res.status(500).json({ message: "Failed to fetch accounts" });
+    }
+  });
+
+  app.post('/api/accounts', requireAuth, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) return res.status(401).json({ message: 'Unauthorized' });
+      const accountData = insertAccountSchema.parse({
+        ...req.body,
+        userId: req.user.id,
+      });
+      
+      const account = await storage.createAccount(accountData);
+      res.json(account);
+    } catch (error) {
+      console.error("Error creating account:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid account data', errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create account" });
+    }
+  });
+
+  app.put('/api/accounts/:id', requireAuth, ownsAccount, async (req: OwnedRequest<Account>, res: Response) => {
+    try {
+      if (!req.user) return res.status(401).json({ message: 'Unauthorized' });
+      const accountId = req.owned!.id;
+      
+      const accountData = insertAccountSchema.partial().parse(req.body);
+      const updatedAccount = await storage.updateAccount(accountId, req.user.id, { ...accountData, userId: req.user.id });
+      res.json(updatedAccount);
+    } catch (error) {
+      console.error("Error updating account:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid account data', errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update account" });
+    }
+  });
+
+  app.delete('/api/accounts/:id', requireAuth, ownsAccount, async (req: OwnedRequest<Account>, res: Response) => {
+    try {
+      if (!req.user) return res.status(401).json({ message: 'Unauthorized' });
+      const existingAccount = req.owned!;
+      const accountId = existingAccount.id;
+
+      if (existingAccount.isDefault) {
+        return res.status(400).json({ message: 'Cannot delete the default account' });
+      }
+      
+      // Check if account is used in transactions
+      const transactionCount = await storage.countAccountTransactions(accountId, req.user.id);
+      if (transactionCount > 0) {
+        return res.status(400).json({ 
+          message: 'Cannot delete account that is used in transactions',
+          usedInTransactions: transactionCount
+        });
+      }
+
+      const recurringCount = await storage.countAccountRecurringTransactions(accountId, req.user.id);
+      if (recurringCount > 0) {
+        return res.status(400).json({
+          message: 'Cannot delete account that is used by recurring transactions',
+          usedInRecurringTransactions: recurringCount
+        });
+      }
+
+      // A rolled-back import still records which account it went into
+      const importCount = await storage.countAccountImportBatches(accountId, req.user.id);
+      if (importCount > 0) {
+        return res.status(400).json({
+          message: 'Cannot delete account that statements were imported into',
+          usedInImports: importCount
+        });
+      }
+      
+      await storage.deleteAccount(accountId, req.user.id);
+      res.json({ message: 'Account deleted successfully' });
+    } catch (error) {
+      console.error("Error deleting account:", error);
+      res.status(500).json({ message: "Failed to delete account" });
+    }
+  });
+
+  // Transfer money between two of the user's accounts
+  app.post('/api/accounts/transfer', requireAuth, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) return res.status(401).json({ message: 'Unauthorized' });
+      const transferData = transferSchema.parse(req.body);
+      
+      if (transferData.fromAccountId === transferData.toAccountId) {
+        return res.status(400).json({ message: 'Source and destination accounts must be different' });
+      }
+
+      const [fromAccount, toAccount] = await Promise.all([
+        storage.getAccountById(transferData.fromAccountId, req.user.id),
+        storage.getAccountById(transferData.toAccountId, req.user.id),
+      ]);
+      if (!fromAccount || !toAccount) {
+        return res.status(404).json({ message: 'Account not found' });
+      }
+      
+      const transfer = await storage.createTransfer(req.user.id, {
+        fromAccountId: transferData.fromAccountId,
+        toAccountId: transferData.toAccountId,
+        amount: transferData.amount,
+        description: transferData.description,
+        date: transferData.date ? Math.floor(new Date(transferData.date).getTime() / 1000) : undefined,
+      });
+      res.json(transfer);
+    } catch (error) {
+      console.error("Error creating transfer:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid transfer data', errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create transfer" });
+    }
+  });
+
+  // Recurring transaction routes
+  app.get('/api/recurring-transactions', requireAuth, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) return res.status(401).json({ message: 'Unauthorized' });
+      const recurringTransactions = await storage.getRecurringTransactions(req.user.id);
+      res.json(recurringTransactions);
+    } catch (error) {
+      console.error("Error fetching recurring transactions:", error);
+      res.status(500).json({ message: "Failed to fetch recurring transactions" });
+    }
+  });
+
+  app.get('/api/recurring-transactions/upcoming', requireAuth, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) return res.status(401).json({ message: 'Unauthorized' });
+      const days = Math.min(parseInt(req.query.days as string) || 30, 365);
+      const upcoming = await storage.getUpcomingRecurringTransactions(req.user.id, days);
+      res.json(upcoming);
+    } catch (error) {
+      console.error("Error fetching upcoming recurring transactions:", error);
+      res.status(500).json({ message: "Failed to fetch upcoming recurring transactions" });
+    }
+  });
+
+  app.post('/api/recurring-transactions', requireAuth, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) return res.status(401).json({ message: 'Unauthorized' });
+
+      const recurringData = insertRecurringTransactionSchema.parse({
+        ...req.body,
+        userId: req.user.id,
+        startDate: req.body.startDate ? Math.floor(new Date(req.body.startDate).getTime() / 1000) : Math.floor(Date.now() / 1000),
+        endDate: req.body.endDate ? Math.floor(new Date(req.body.endDate).getTime() / 1000) : null,
+      });
+
+      if (recurringData.type !== 'income' && recurringData.type !== 'expense') {
+        return res.status(400).json({ message: 'Recurring transactions must be income or expense' });
+      }
+
+      // Verify category and account belong to user
+      const category = await storage.getCategoryById(recurringData.categoryId, req.user.id);
+      if (!category) {
+        return res.status(404).json({ message: 'Category not found' });
+      }
+      if (recurringData.accountId != null) {
+        const account = await storage.getAccountById(recurringData.accountId, req.user.id);
+        if (!account) {
+          return res.status(404).json({ message: 'Account not found' });
+        }
+      }
+
+      const recurring = await storage.createRecurringTransaction(recurringData);
+
+      // A start date in the past (or today) produces its first transactions right away
+      await recurringTransactionService.processRecurringTransaction(recurring);
+
+      res.json(await storage.getRecurringTransactionById(recurring.id, req.user.id));
+    } catch (error) {
+      console.error("Error creating recurring transaction:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid recurring transaction data', errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create recurring transaction" });
+    }
+  });
+
+  app.put('/api/recurring-transactions/:id', requireAuth, ownsRecurringTransaction, async (req: OwnedRequest<RecurringTransaction>, res: Response) => {
+    try {
+      if (!req.user) return res.status(401).json({ message: 'Unauthorized' });
+      const recurringId = req.owned!.id;
+
+      const updateData = { ...req.body };
+      if (req.body.startDate) {
+        updateData.startDate = Math.floor(new Date(req.body.startDate).getTime() / 1000);
+      }
+      if (req.body.endDate !== undefined) {
+        updateData.endDate = req.body.endDate ? Math.floor(new Date(req.body.endDate).getTime() / 1000) : null;
+      }
+
+      const recurringData = insertRecurringTransactionSchema.partial().parse(updateData);
+
+      if (recurringData.type && recurringData.type !== 'income' && recurringData.type !== 'expense') {
+        return res.status(400).json({ message: 'Recurring transactions must be income or expense' });
+      }
+      if (recurringData.categoryId) {
+        const category = await storage.getCategoryById(recurringData.categoryId, req.user.id);
+        if (!category) {
+          return res.status(404).json({ message: 'Category not found' });
+        }
+      }
+      if (recurringData.accountId != null) {
+        const account = await storage.getAccountById(recurringData.accountId, req.user.id);
+        if (!account) {
+          return res.status(404).json({ message: 'Account not found' });
+        }
+      }
+
+      const updatedRecurring = await storage.updateRecurringTransaction(recurringId, req.user.id, { ...recurringData, userId: req.user.id });
+      await recurringTransactionService.processRecurringTransaction(updatedRecurring);
+
+      res.json(await storage.getRecurringTransactionById(recurringId, req.user.id));
+    } catch (error) {
+      console.error("Error updating recurring transaction:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid recurring transaction data', errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update recurring transaction" });
+    }
+  });
+
+  app.delete('/api/recurring-transactions/:id', requireAuth, ownsRecurringTransaction, async (req: OwnedRequest<RecurringTransaction>, res: Response) => {
+    try {
+      if (!req.user) return res.status(401).json({ message: 'Unauthorized' });
+
+      await storage.deleteRecurringTransaction(req.owned!.id, req.user.id);
+      res.json({ message: 'Recurring transaction deleted successfully' });
+    } catch (error) {
+      console.error("Error deleting recurring transaction:", error);
+      res.status(500).json({ message: "Failed to delete recurring transaction" });
+    }
+  });
+
+  // Statement import routes
+  // Parse an uploaded statement and return the rows with suggested categories and duplicate flags.
+  // Nothing is saved until the reviewed rows are posted to /api/imports.
+  app.post('/api/imports/preview', requireAuth, upload.single('file'), async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) return res.status(401).json({ message: 'Unauthorized' });
+
+      if (!req.file) {
+        return res.status(400).json({ message: "Statement file is required" });
+      }
+
+      const body = importPreviewSchema.parse(req.body);
+      const content = req.file.buffer.toString('utf-8');
+      const format = body.format || detectStatementFormat(req.file.originalname, content);
+
+      let mapping: CsvColumnMapping | undefined;
+      if (format === 'csv') {
+        if (body.mappingId) {
+          const savedMapping = await storage.getImportMappingById(body.mappingId, req.user.id);
+          if (!savedMapping) {
+            return res.status(404).json({ message: 'Import mapping not found' });
+          }
+          mapping = savedMapping;
+        } else if (body.mapping) {
+          mapping = csvMappingSchema.parse(JSON.parse(body.mapping));
+        } else {
+          return res.status(400).json({ message: 'Map the CSV columns before previewing' });
+        }
+      }
+
+      const preview = await statementImportService.previewImport(req.user.id, format, content, mapping);
+      res.json({ ...preview, fileName: req.file.originalname });
+    } catch (error) {
+      console.error("Error previewing statement import:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid import data', errors: error.errors });
+      }
+      if (error instanceof SyntaxError) {
+        return res.status(400).json({ message: 'Invalid column mapping' });
+      }
+      res.status(500).json({ message: "Failed to read statement" });
+    }
+  });
+
+  app.get('/api/imports', requireAuth, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) return res.status(401).json({ message: 'Unauthorized' });
+      const batches = await storage.getImportBatches(req.user.id);
+      res.json(batches);
+    } catch (error) {
+      console.error("Error fetching import batches:", error);
+      res.status(500).json({ message: "Failed to fetch imports" });
+    }
+  });
+
+  // Commit the reviewed rows as one import batch
+  app.post('/api/imports', requireAuth, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) return res.status(401).json({ message: 'Unauthorized' });
+      const importData = importCommitSchema.parse(req.body);
+
+      let currency: string | undefined;
+      if (importData.accountId != null) {
+        const account = await storage.getAccountById(importData.accountId, req.user.id);
+        if (!account) {
+          return res.status(404).json({ message: 'Account not found' });
+        }
+        currency = account.currency;
+      }
+
+      // Verify every category belongs to user
+      const userCategories = await storage.getCategories(req.user.id);
+      const categoryIds = new Set(userCategories.map(category => category.id));
+      if (importData.rows.some(row => !categoryIds.has(row.categoryId))) {
+        return res.status(404).json({ message: 'Category not found' });
+      }
+
+      if (!currency) {
+        const userPreferences = await storage.getUserPreferences(req.user.id);
+        currency = userPreferences?.defaultCurrency || "USD";
+      }
+
+      const rows: InsertTransaction[] = importData.rows.map(row => ({
+        userId: req.user!.id,
+        categoryId: row.categoryId,
+        amount: row.amount,
+        currency,
+        description: row.description,
+        type: row.type,
+        date: row.date,
+        aiGenerated: false,
+      }));
+
+      const batch = await storage.createImportBatch({
+        userId: req.user.id,
+        accountId: importData.accountId ?? null,
+        format: importData.format,
+        fileName: importData.fileName,
+        skippedCount: importData.skippedCount,
+      }, rows);
+
+      res.json(batch);
+    } catch (error) {
+      console.error("Error importing statement:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid import data', errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to import statement" });
+    }
+  });
+
+  // Roll back a whole import: removes every transaction the batch created
+  app.post('/api/imports/:id/rollback', requireAuth, ownsImportBatch, async (req: OwnedRequest<ImportBatch>, res: Response) => {
+    try {
+      if (!req.user) return res.status(401).json({ message: 'Unauthorized' });
+      const existingBatch = req.owned!;
+      if (existingBatch.status === 'rolled_back') {
+        return res.status(400).json({ message: 'Import has already been rolled back' });
+      }
+
+      const batch = await storage.rollbackImportBatch(existingBatch.id, req.user.id);
+      res.json(batch);
+    } catch (error) {
+      console.error("Error rolling back import:", error);
+      res.status(500).json({ message: "Failed to roll back import" });
+    }
+  });
+
+  // Saved CSV column mappings
+  app.get('/api/import-mappings', requireAuth, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) return res.status(401).json({ message: 'Unauthorized' });
+      const mappings = await storage.getImportMappings(req.user.id);
+      res.json(mappings);
+    } catch (error) {
+      console.error("Error fetching import mappings:", error);
+      res.status(500).json({ message: "Failed to fetch import mappings" });
+    }
+  });
+
+  app.post('/api/import-mappings', requireAuth, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) return res.status(401).json({ message: 'Unauthorized' });
+      const mappingData = insertImportMappingSchema.parse({ ...req.body, userId: req.user.id });
+      const mapping = await storage.createImportMapping(mappingData);
+      res.json(mapping);
+    } catch (error) {
+      console.error("Error creating import mapping:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid import mapping data', errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create import mapping" });
+    }
+  });
+
+  app.put('/api/import-mappings/:id', requireAuth, ownsImportMapping, async (req: OwnedRequest<ImportMapping>, res: Response) => {
+    try {
+      if (!req.user) return res.status(401).json({ message: 'Unauthorized' });
+
+      const mappingData = insertImportMappingSchema.parse({ ...req.body, userId: req.user.id });
+      const mapping = await storage.updateImportMapping(req.owned!.id, req.user.id, mappingData);
+      res.json(mapping);
+    } catch (error) {
+      console.error("Error updating import mapping:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid import mapping data', errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update import mapping" });
+    }
+  });
+
+  app.delete('/api/import-mappings/:id', requireAuth, ownsImportMapping, async (req: OwnedRequest<ImportMapping>, res: Response) => {
+    try {
+      if (!req.user) return res.status(401).json({ message: 'Unauthorized' });
+
+      await storage.deleteImportMapping(req.owned!.id, req.user.id);
+      res.json({ message: 'Import mapping deleted successfully' });
+    } catch (error) {
+      console.error("Error deleting import mapping:", error);
+      res.status(500).json({ message: "Failed to delete import mapping" });
+    }
+  });
+
+  // Categorization rule routes
+  app.get('/api/categorization-rules', requireAuth, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) return res.status(401).json({ message: 'Unauthorized' });
+      const rules = await storage.getCategorizationRules(req.user.id);
+      res.json(rules);
+    } catch (error) {
+      console.error("Error fetching categorization rules:", error);
+      res.status(500).json({ message: "Failed to fetch categorization rules" });
+    }
+  });
+
+  // Rules created or edited here belong to the user, learning never overwrites them
+  app.post('/api/categorization-rules', requireAuth, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) return res.status(401).json({ message: 'Unauthorized' });
+      const ruleData = insertCategorizationRuleSchema.parse({ ...req.body, userId: req.user.id, source: 'user' });
+
+      const ruleError = await validateCategorizationRule(req.user.id, ruleData);
+      if (ruleError) {
+        return res.status(ruleError.status).json({ message: ruleError.message });
+      }
+
+      const rule = await storage.createCategorizationRule({
+        ...ruleData,
+        pattern: categorizationRuleService.normalizeDescription(ruleData.pattern),
+      });
+      res.json(rule);
+    } catch (error) {
+      console.error("Error creating categorization rule:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid categorization rule data', errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create categorization rule" });
+    }
+  });
+
+  app.put('/api/categorization-rules/:id', requireAuth, ownsCategorizationRule, async (req: OwnedRequest<CategorizationRule>, res: Response) => {
+    try {
+      if (!req.user) return res.status(401).json({ message: 'Unauthorized' });
+      const ruleId = req.owned!.id;
+
+      const ruleData = insertCategorizationRuleSchema.parse({ ...req.body, userId: req.user.id, source: 'user' });
+
+      const ruleError = await validateCategorizationRule(req.user.id, ruleData);
+      if (ruleError) {
+        return res.status(ruleError.status).json({ message: ruleError.message });
+      }
+
+      const rule = await storage.updateCategorizationRule(ruleId, req.user.id, {
+        ...ruleData,
+        pattern: categorizationRuleService.normalizeDescription(ruleData.pattern),
+      });
+      res.json(rule);
+    } catch (error) {
+      console.error("Error updating categorization rule:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid categorization rule data', errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update categorization rule" });
+    }
+  });
+
+  app.delete('/api/categorization-rules/:id', requireAuth, ownsCategorizationRule, async (req: OwnedRequest<CategorizationRule>, res: Response) => {
+    try {
+      if (!req.user) return res.status(401).json({ message: 'Unauthorized' });
+
+      await storage.deleteCategorizationRule(req.owned!.id, req.user.id);
+      res.json({ message: 'Categorization rule deleted successfully' });
+    } catch (error) {
+      console.error("Error deleting categorization rule:", error);
+      res.status(500).json({ message: "Failed to delete categorization rule" });
     }
   });
 
   // Transaction routes
+  // Paginated transaction list: filters apply to both the page and the returned totals.
+  // Follow `nextCursor` to fetch the next page.
   app.get('/api/transactions', requireAuth, async (req: AuthRequest, res: Response) => {
     try {
       if (!req.user) return res.status(401).json({ message: 'Unauthorized' });
-      const limit = parseInt(req.query.limit as string) || 50;
-      const transactions = await storage.getTransactions(req.user.id, limit);
-      res.json(transactions);
+      const query = transactionQuerySchema.parse(req.query);
+
+      const page = await storage.queryTransactions(req.user.id, {
+        cursor: query.cursor,
+        limit: query.limit,
+        startDate: query.startDate,
+        endDate: query.endDate,
+        categoryIds: query.categoryId,
+        types: query.type,
+        accountId: query.accountId,
+        minAmount: query.minAmount,
+        maxAmount: query.maxAmount,
+        search: query.search || undefined,
+        aiGenerated: query.aiGenerated,
+        sort: query.sort,
+      });
+      res.json(page);
     } catch (error) {
       console.error("Error fetching transactions:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid transaction query', errors: error.errors });
+      }
+      if (error instanceof Error && error.message === 'Invalid cursor') {
+        return res.status(400).json({ message: 'Invalid cursor' });
+      }
       res.status(500).json({ message: "Failed to fetch transactions" });
     }
   });
@@ -437,45 +1619,156 @@ export async function registerRoutes(app: Express): Promise<Server> {
         dateTimestamp = Math.floor(Date.now() / 1000);
       }
       
+      const { splits: rawSplits, overrideLimit, ...body } = req.body;
       const transactionData = insertTransactionSchema.parse({
-        ...req.body,
+        ...body,
         userId: req.user.id,
         date: dateTimestamp,
       });
+      const splits = transactionSplitsSchema.parse(rawSplits ?? []);
+
+      // Verify the category, account and transfer destination belong to user
+      const category = await storage.getCategoryById(transactionData.categoryId, req.user.id);
+      if (!category) {
+        return res.status(404).json({ message: 'Category not found' });
+      }
+      for (const accountId of [transactionData.accountId, transactionData.toAccountId]) {
+        if (accountId == null) continue;
+        const account = await storage.getAccountById(accountId, req.user.id);
+        if (!account) {
+          return res.status(404).json({ message: 'Account not found' });
+        }
+      }
+      if (transactionData.type === 'transfer' && !transactionData.toAccountId) {
+        return res.status(400).json({ message: 'Transfers require a destination account' });
+      }
+      const splitError = await validateTransactionSplits(req.user.id, transactionData, splits);
+      if (splitError) {
+        return res.status(400).json({ message: splitError });
+      }
+
+      // Hard spending limits refuse the expense unless the user confirms it with overrideLimit
+      const parts = splits.length > 0 ? splits : [{ categoryId: transactionData.categoryId, amount: transactionData.amount }];
+      const violations = transactionData.type === 'expense'
+        ? await spendingLimitService.check(req.user.id, parts.map(part => ({ ...part, date: transactionData.date })))
+        : [];
+      if (violations.length > 0 && overrideLimit !== true) {
+        const userPreferences = await storage.getUserPreferences(req.user.id);
+        const currencySymbol = getCurrencySymbol(userPreferences?.defaultCurrency || 'USD');
+        return res.status(409).json({
+          code: 'SPENDING_LIMIT_EXCEEDED',
+          message: spendingLimitService.buildViolationMessage(violations, userPreferences?.language || 'en', amount => `${currencySymbol}${amount}`),
+          violations,
+        });
+      }
       
       const transaction = await storage.createTransaction(transactionData);
+      if (violations.length > 0) {
+        await spendingLimitService.recordBreaches(req.user.id, violations, parts.map(part => ({ id: transaction.id, categoryId: part.categoryId })), 'web');
+      }
+      if (splits.length > 0) {
+        await storage.setTransactionSplits(transaction.id, req.user.id, splits);
+        return res.json(await storage.getTransactionById(transaction.id, req.user.id));
+      }
       res.json(transaction);
     } catch (error) {
       console.error("Error creating transaction:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid transaction data', errors: error.errors });
+      }
       res.status(500).json({ message: "Failed to create transaction" });
     }
   });
 
-  app.put('/api/transactions/:id', requireAuth, async (req: AuthRequest, res: Response) => {
+  app.put('/api/transactions/:id', requireAuth, ownsTransaction, async (req: OwnedRequest<TransactionWithCategory>, res: Response) => {
     try {
       if (!req.user) return res.status(401).json({ message: 'Unauthorized' });
-      const id = parseInt(req.params.id);
+      const existing = req.owned!;
+      const id = existing.id;
       
       // Parse dan normalize tanggal ke Unix timestamp (seconds) jika ada
-      let updateData = { ...req.body };
+      const { splits: rawSplits, ...body } = req.body;
       if (req.body.date) {
         const dateObj = new Date(req.body.date);
-        updateData.date = Math.floor(dateObj.getTime() / 1000);
+        body.date = Math.floor(dateObj.getTime() / 1000);
+      }
+      const updateData = insertTransactionSchema.partial().omit({ userId: true }).parse(body);
+
+      // Verify a new category, account or transfer destination belongs to user
+      if (updateData.categoryId != null) {
+        const category = await storage.getCategoryById(updateData.categoryId, req.user.id);
+        if (!category) {
+          return res.status(404).json({ message: 'Category not found' });
+        }
+      }
+      for (const accountId of [updateData.accountId, updateData.toAccountId]) {
+        if (accountId == null) continue;
+        const account = await storage.getAccountById(accountId, req.user.id);
+        if (!account) {
+          return res.status(404).json({ message: 'Account not found' });
+        }
+      }
+
+      // Changing the amount or type of a split transaction needs parts that still fit
+      const splits = rawSplits !== undefined ? transactionSplitsSchema.parse(rawSplits) : undefined;
+      const updated = {
+        amount: updateData.amount ?? existing.amount,
+        type: updateData.type ?? existing.type,
+      };
+      const splitsToCheck = splits ?? (existing.splits || []).map(split => ({ categoryId: split.categoryId, amount: split.amount }));
+      const splitError = await validateTransactionSplits(req.user.id, updated, splitsToCheck);
+      if (splitError) {
+        return res.status(400).json({ message: splitError });
       }
       
-      const transaction = await storage.updateTransaction(id, updateData);
+      const transaction = await storage.updateTransaction(id, req.user.id, updateData);
+
+      // A changed category is a correction - remember it for the next transaction like this one
+      if (updateData.categoryId != null && updateData.categoryId !== existing.categoryId && !splits?.length) {
+        await categorizationRuleService.learnFromCorrection(req.user.id, transaction, updateData.categoryId);
+      }
+
+      if (splits) {
+        await storage.setTransactionSplits(id, req.user.id, splits);
+        return res.json(await storage.getTransactionById(id, req.user.id));
+      }
       res.json(transaction);
     } catch (error) {
       console.error("Error updating transaction:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid transaction data', errors: error.errors });
+      }
       res.status(500).json({ message: "Failed to update transaction" });
     }
   });
 
-  app.delete('/api/transactions/:id', requireAuth, async (req: AuthRequest, res: Response) => {
+  // Replace how a transaction is divided across categories. An empty list removes the split.
+  app.put('/api/transactions/:id/splits', requireAuth, ownsTransaction, async (req: OwnedRequest<TransactionWithCategory>, res: Response) => {
+    try {
+      if (!req.user) return res.status(401).json({ message: 'Unauthorized' });
+      const transaction = req.owned!;
+      const { splits } = z.object({ splits: transactionSplitsSchema }).parse(req.body);
+
+      const splitError = await validateTransactionSplits(req.user.id, transaction, splits);
+      if (splitError) {
+        return res.status(400).json({ message: splitError });
+      }
+
+      await storage.setTransactionSplits(transaction.id, req.user.id, splits);
+      res.json(await storage.getTransactionById(transaction.id, req.user.id));
+    } catch (error) {
+      console.error("Error updating transaction splits:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid splits', errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update transaction splits" });
+    }
+  });
+
+  app.delete('/api/transactions/:id', requireAuth, ownsTransaction, async (req: OwnedRequest<TransactionWithCategory>, res: Response) => {
     try {
       if (!req.user) return res.status(401).json({ message: 'Unauthorized' });
-      const id = parseInt(req.params.id);
-      await storage.deleteTransaction(id);
+      await storage.deleteTransaction(req.owned!.id, req.user.id);
       res.json({ message: "Transaction deleted successfully" });
     } catch (error) {
       console.error("Error deleting transaction:", error);
@@ -487,16 +1780,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post('/api/transactions/analyze', requireAuth, async (req: AuthRequest, res: Response) => {
     try {
       if (!req.user) return res.status(401).json({ message: 'Unauthorized' });
-      const { text } = req.body;
+      const { text, overrideLimit } = req.body;
       
       if (!text) {
         return res.status(400).json({ message: "Text is required" });
       }
       
-      const analysis = await analyzeTransactionText(text);
-      
       // Find matching category
       const categories = await storage.getCategories(req.user.id);
+      const analysis = await categorizationRuleService.analyzeTransactionText(req.user.id, text, categories);
       const matchingCategory = categories.find(c => 
         c.name.toLowerCase() === analysis.category.toLowerCase()
       );
@@ -505,15 +1797,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const transactionData = insertTransactionSchema.parse({
           userId: req.user.id,
           categoryId: matchingCategory.id,
-          amount: analysis.amount.toString(),
+          amount: analysis.amount,
           currency: "USD",
           description: analysis.description,
           type: analysis.type,
           date: Math.floor(Date.now() / 1000),
           aiGenerated: true,
         });
+
+        // Hard spending limits refuse the expense unless the request repeats it with overrideLimit
+        const violations = analysis.type === 'expense'
+          ? await spendingLimitService.check(req.user.id, [{ categoryId: matchingCategory.id, amount: analysis.amount, date: transactionData.date }])
+          : [];
+        if (violations.length > 0 && overrideLimit !== true) {
+          return res.status(409).json({
+            code: 'SPENDING_LIMIT_EXCEEDED',
+            message: spendingLimitService.buildViolationMessage(violations, 'en', amount => `$${amount}`),
+            violations,
+            analysis
+          });
+        }
         
         const transaction = await storage.createTransaction(transactionData);
+        if (violations.length > 0) {
+          await spendingLimitService.recordBreaches(req.user.id, violations, [transaction], 'chat');
+        }
         res.json({ transaction, analysis });
       } else {
         res.json({ analysis, message: "Category not found, transaction not created" });
@@ -587,7 +1895,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           const transactionData = insertTransactionSchema.parse({
             userId: req.user.id,
             categoryId: matchingCategory.id,
-            amount: analysis.amount.toString(),
+            amount: analysis.amount,
             currency: userPreferences?.defaultCurrency || "USD",
             description: analysis.description,
             type: analysis.type,
@@ -596,7 +1904,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           });
           
           const transaction = await storage.createTransaction(transactionData);
-          createdTransactions.push(transaction);
+          createdTransactions.push(await applyReceiptSplits(req.user.id, transaction, analysis, categories));
         }
       }
       
@@ -650,42 +1958,62 @@ export async function registerRoutes(app: Express): Promise<Server> {
         startDate: Math.floor((new Date(req.body.startDate)).getTime() / 1000),
         endDate: Math.floor((new Date(req.body.endDate)).getTime() / 1000),
       });
+
+      // Verify the category belongs to user
+      const category = await storage.getCategoryById(budgetData.categoryId, req.user.id);
+      if (!category) {
+        return res.status(404).json({ message: 'Category not found' });
+      }
       
       const budget = await storage.createBudget(budgetData);
       res.json(budget);
     } catch (error) {
       console.error("Error creating budget:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid budget data', errors: error.errors });
+      }
       res.status(500).json({ message: "Failed to create budget" });
     }
   });
 
-  app.put('/api/budgets/:id', requireAuth, async (req: AuthRequest, res: Response) => {
+  app.put('/api/budgets/:id', requireAuth, ownsBudget, async (req: OwnedRequest<BudgetWithCategory>, res: Response) => {
     try {
       if (!req.user) return res.status(401).json({ message: 'Unauthorized' });
-      const id = parseInt(req.params.id);
+      const id = req.owned!.id;
       
       // Parse dan normalize tanggal ke Unix timestamp (seconds) jika ada
-      let updateData = { ...req.body };
+      const body = { ...req.body };
       if (req.body.startDate) {
-        updateData.startDate = Math.floor((new Date(req.body.startDate)).getTime() / 1000);
+        body.startDate = Math.floor((new Date(req.body.startDate)).getTime() / 1000);
       }
       if (req.body.endDate) {
-        updateData.endDate = Math.floor((new Date(req.body.endDate)).getTime() / 1000);
+        body.endDate = Math.floor((new Date(req.body.endDate)).getTime() / 1000);
+      }
+      const updateData = insertBudgetSchema.partial().omit({ userId: true }).parse(body);
+
+      // Verify a new category belongs to user
+      if (updateData.categoryId != null) {
+        const category = await storage.getCategoryById(updateData.categoryId, req.user.id);
+        if (!category) {
+          return res.status(404).json({ message: 'Category not found' });
+        }
       }
       
-      const budget = await storage.updateBudget(id, updateData);
+      const budget = await storage.updateBudget(id, req.user.id, updateData);
       res.json(budget);
     } catch (error) {
       console.error("Error updating budget:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid budget data', errors: error.errors });
+      }
       res.status(500).json({ message: "Failed to update budget" });
     }
   });
 
-  app.delete('/api/budgets/:id', requireAuth, async (req: AuthRequest, res: Response) => {
+  app.delete('/api/budgets/:id', requireAuth, ownsBudget, async (req: OwnedRequest<BudgetWithCategory>, res: Response) => {
     try {
       if (!req.user) return res.status(401).json({ message: 'Unauthorized' });
-      const id = parseInt(req.params.id);
-      await storage.deleteBudget(id);
+      await storage.deleteBudget(req.owned!.id, req.user.id);
       res.json({ message: "Budget deleted successfully" });
     } catch (error) {
       console.error("Error deleting budget:", error);
@@ -759,7 +2087,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Update the existing budget
-      const updatedBudget = await storage.updateBudget(existingBudget.id, {
+      const updatedBudget = await storage.updateBudget(existingBudget.id, req.user.id, {
         amount: newAmount,
         period: period
       });
@@ -859,7 +2187,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       if (existingBudget) {
         // Update existing budget with spending limit
-        const updatedBudget = await storage.updateBudget(existingBudget.id, {
+        const updatedBudget = await storage.updateBudget(existingBudget.id, req.user.id, {
           amount: monthlyAmount,
           metadata: JSON.stringify(limitMetadata)
         });
@@ -923,6 +2251,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Expenses saved past a hard spending limit, newest first
+  app.get('/api/budgets/spending-limits/breaches', requireAuth, async (req: AuthRequest, res: Response) => {
+    try {
+      if (!req.user) return res.status(401).json({ message: 'Unauthorized' });
+
+      const since = req.query.since ? parseInt(req.query.since as string) : undefined;
+      if (since !== undefined && isNaN(since)) {
+        return res.status(400).json({ message: 'Invalid since timestamp' });
+      }
+
+      const breaches = await storage.getSpendingLimitBreaches(req.user.id, since);
+      res.json(breaches);
+    } catch (error) {
+      console.error("Error fetching spending limit breaches:", error);
+      res.status(500).json({ message: "Failed to fetch spending limit breaches" });
+    }
+  });
+
   // Goals routes
   app.get('/api/goals', requireAuth, async (req: AuthRequest, res: Response) => {
     try {
@@ -935,23 +2281,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.get('/api/goals/:id', requireAuth, async (req: AuthRequest, res: Response) => {
+  app.get('/api/goals/:id', requireAuth, ownsGoal, async (req: OwnedRequest<Goal>, res: Response) => {
     try {
       if (!req.user) return res.status(401).json({ message: 'Unauthorized' });
       
-      const goalId = parseInt(req.params.id);
-      const goal = await storage.getGoalById(goalId);
-      
-      if (!goal) {
-        return res.status(404).json({ message: "Goal not found" });
-      }
-      
-      // Ensure the goal belongs to the authenticated user
-      if (goal.userId !== req.user.id) {
-        return res.status(403).json({ message: "Unauthorized access to this goal" });
-      }
-      
-      res.json(goal);
+      res.json(req.owned);
     } catch (error) {
       console.error("Error fetching goal:", error);
       res.status(500).json({ message: "Failed to fetch goal details" });
@@ -996,10 +2330,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put('/api/goals/:id', requireAuth, async (req: AuthRequest, res: Response) => {
+  app.put('/api/goals/:id', requireAuth, ownsGoal, async (req: OwnedRequest<Goal>, res: Response) => {
     try {
       if (!req.user) return res.status(401).json({ message: 'Unauthorized' });
-      const id = parseInt(req.params.id);
+      const id = req.owned!.id;
       
       const { name, targetAmount, currentAmount, deadline, category, description, isActive } = req.body;
       
@@ -1012,7 +2346,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (description !== undefined) updateData.description = description;
       if (isActive !== undefined) updateData.isActive = isActive;
       
-      const goal = await storage.updateGoal(id, updateData);
+      const goal = await storage.updateGoal(id, req.user.id, updateData);
       res.json(goal);
     } catch (error) {
       console.error("Error updating goal:", error);
@@ -1020,11 +2354,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/goals/:id', requireAuth, async (req: AuthRequest, res: Response) => {
+  app.delete('/api/goals/:id', requireAuth, ownsGoal, async (req: OwnedRequest<Goal>, res: Response) => {
     try {
       if (!req.user) return res.status(401).json({ message: 'Unauthorized' });
-      const id = parseInt(req.params.id);
-      await storage.deleteGoal(id);
+      await storage.deleteGoal(req.owned!.id, req.user.id);
       res.json({ message: "Goal deleted successfully" });
     } catch (error) {
       console.error("Error deleting goal:", error);
@@ -1054,35 +2387,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
   }
   
   // Goal boost endpoint - add a one-time amount to the current goal amount
-  app.post('/api/goals/:id/boost', requireAuth, async (req: AuthRequest, res: Response) => {
+  app.post('/api/goals/:id/boost', requireAuth, ownsGoal, async (req: OwnedRequest<Goal>, res: Response) => {
     try {
       if (!req.user) return res.status(401).json({ message: 'Unauthorized' });
       
-      const goalId = parseInt(req.params.id);
+      const goal = req.owned!;
+      const goalId = goal.id;
       const { boostAmount } = req.body;
       
       if (!boostAmount || boostAmount <= 0) {
         return res.status(400).json({ message: "Boost amount must be a positive number" });
       }
       
-      // Get current goal
-      const goal = await storage.getGoalById(goalId);
-      
-      if (!goal) {
-        return res.status(404).json({ message: "Goal not found" });
-      }
-      
-      if (goal.userId !== req.user.id) {
-        return res.status(403).json({ message: "Unauthorized access to this goal" });
-      }
-      
       // Update the goal with new current amount
       const newCurrentAmount = goal.currentAmount + parseFloat(boostAmount);
       
       // Make sure we don't exceed the target amount
       const finalCurrentAmount = Math.min(newCurrentAmount, goal.targetAmount);
       
-      const updatedGoal = await storage.updateGoal(goalId, {
+      const updatedGoal = await storage.updateGoal(goalId, req.user.id, {
         currentAmount: finalCurrentAmount
       });
       
@@ -1106,11 +2429,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Goal savings plan endpoint - set up recurring savings plan
-  app.post('/api/goals/:id/savings-plan', requireAuth, async (req: AuthRequest, res: Response) => {
+  app.post('/api/goals/:id/savings-plan', requireAuth, ownsGoal, async (req: OwnedRequest<Goal>, res: Response) => {
     try {
       if (!req.user) return res.status(401).json({ message: 'Unauthorized' });
       
-      const goalId = parseInt(req.params.id);
+      const goalId = req.owned!.id;
       const { additionalAmount, frequency, isActive } = req.body;
       
       if (!additionalAmount || additionalAmount <= 0) {
@@ -1122,17 +2445,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid frequency. Must be 'weekly', 'biweekly', or 'monthly'" });
       }
       
-      // Get current goal
-      const goal = await storage.getGoalById(goalId);
-      
-      if (!goal) {
-        return res.status(404).json({ message: "Goal not found" });
-      }
-      
-      if (goal.userId !== req.user.id) {
-        return res.status(403).json({ message: "Unauthorized access to this goal" });
-      }
-      
       // Create a new savings plan
       const savingsPlan = await storage.createGoalSavingsPlan(
         goalId,
@@ -1233,15 +2545,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid messages format" });
       }
       
-      // Call OpenAI chat completion API
-      const response = await openai.chat.completions.create({
-        model: 'gpt-4.1-nano', // Use the latest model
+      const response = await llm.complete('chat', {
         messages: messages,
         temperature: 0.7,
-        max_tokens: 150,
+        maxTokens: 150,
       });
       
-      const completion = response.choices[0]?.message?.content?.trim();
+      const completion = response.trim();
       
       res.json({
         success: true,
@@ -1261,14 +2571,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post('/api/whatsapp/chat', requireAuth, async (req: AuthRequest, res: Response) => {
     try {
       if (!req.user) return res.status(401).json({ message: 'Unauthorized' });
-      const { message } = req.body;
+      const { message, overrideLimit } = req.body;
+
+      const command = await handleChatCommand(req.user.id, message, 'en');
+      if (command.handled) {
+        return res.json({ message: command.reply, intent: command.intent });
+      }
       
       // Analyze the message for transaction data
-      const analysis = await analyzeTransactionText(message);
+      const categories = await storage.getCategories(req.user.id);
+      const analysis = await categorizationRuleService.analyzeTransactionText(req.user.id, command.text, categories);
       
       if (analysis.amount > 0) {
         // Try to find matching category
-        const categories = await storage.getCategories(req.user.id);
         const matchingCategory = categories.find(c => 
           c.name.toLowerCase() === analysis.category.toLowerCase()
         );
@@ -1278,15 +2593,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
           const transactionData = insertTransactionSchema.parse({
             userId: req.user.id,
             categoryId: matchingCategory.id,
-            amount: analysis.amount.toString(),
+            amount: analysis.amount,
             currency: "USD",
             description: analysis.description,
             type: analysis.type,
             date: Math.floor(Date.now() / 1000), // Use seconds timestamp
             aiGenerated: true,
           });
+
+          // Hard spending limits refuse the expense unless the request repeats it with overrideLimit
+          const violations = analysis.type === 'expense'
+            ? await spendingLimitService.check(req.user.id, [{ categoryId: matchingCategory.id, amount: analysis.amount, date: transactionData.date }])
+            : [];
+          if (violations.length > 0 && overrideLimit !== true) {
+            return res.status(409).json({
+              code: 'SPENDING_LIMIT_EXCEEDED',
+              message: spendingLimitService.buildViolationMessage(violations, 'en', amount => `$${amount}`),
+              violations,
+              analysis
+            });
+          }
           
           const transaction = await storage.createTransaction(transactionData);
+          if (violations.length > 0) {
+            await spendingLimitService.recordBreaches(req.user.id, violations, [transaction], 'chat');
+          }
           
           res.json({
             message: `Transaction recorded: ${analysis.description} - $${analysis.amount} in ${analysis.category}`,
@@ -1367,84 +2698,129 @@ export async function registerRoutes(app: Express): Promise<Server> {
         autoCategorize: userPreferences.autoCategorize || false
       } : undefined;
       
-      // Use existing AI analysis function with categories and preferences
-      const analysis = await analyzeTransactionText(message, categories, aiPreferences);
-      console.log('AI Analysis result:', analysis);
+      const language = userPreferences?.language || 'en';
+      const currencySymbol = getCurrencySymbol(userPreferences?.defaultCurrency || 'USD');
       
-      if (analysis.confidence > 0.7) {
-        // Find matching category or create new one if auto-categorize is enabled
-        let matchingCategory = categories.find(c => 
-          c.name.toLowerCase() === analysis.category.toLowerCase()
-        );
-        
-        // Auto-categorization: create new category if none exists and auto-categorize is enabled
-        if (!matchingCategory && userPreferences?.autoCategorize && analysis.suggestedNewCategory) {
-          console.log('Creating new category:', analysis.suggestedNewCategory);
-          
-          try {
-            const newCategory = await storage.createCategory({
-              name: analysis.suggestedNewCategory.name,
-              icon: analysis.suggestedNewCategory.icon,
-              color: analysis.suggestedNewCategory.color,
-              type: analysis.suggestedNewCategory.type,
-              userId: req.user!.id,
-              isDefault: false
-            });
-            
-            matchingCategory = newCategory;
-            console.log('New category created:', newCategory);
-          } catch (categoryError) {
-            console.error('Failed to create new category:', categoryError);
-          }
+      // A reply to the draft the chat asked about last ("1", "makan", "25rb") comes before anything else
+      let decision = transactionDraftService.answer(req.user!.id, message, categories);
+      
+      if (!decision) {
+        // Budget, goal, category and other commands are answered like on WhatsApp
+        const command = await handleChatCommand(req.user!.id, message, language);
+        if (command.handled) {
+          return res.json({
+            success: false, // No transaction was created
+            intent: command.intent,
+            message: command.reply
+          });
         }
         
-        // Fallback to "Other" category if still no match
-        if (!matchingCategory) {
-          matchingCategory = categories.find(c => c.name.toLowerCase() === 'other');
+        // Use existing AI analysis function with categories and preferences - one analysis per listed transaction
+        const analyses = await transactionBatchService.analyze(req.user!.id, command.text, categories, aiPreferences);
+        console.log('AI Analysis result:', analyses);
+
+        // Several listed transactions are saved together; one is saved right away, shown as a draft
+        // to confirm, or asked about - see transaction-draft-service
+        decision = analyses.length > 1
+          ? { action: 'save', analysis: analyses[0], batch: analyses }
+          : transactionDraftService.evaluate(req.user!.id, analyses[0], categories);
+      }
+      
+      if (decision.action === 'unknown') {
+        return res.json({
+          success: false,
+          message: language === 'id'
+            ? 'Saya tidak menemukan transaksi dalam pesan itu. Coba seperti "beli kopi 25rb" atau "gaji 5jt".'
+            : 'I couldn\'t find a transaction in that message. Try something like "coffee 5" or "salary 3000".'
+        });
+      }
+      
+      if (decision.action !== 'save') {
+        // The draft or question waits for the next chat message
+        return res.json({
+          success: false,
+          analysis: decision.action === 'ask' ? decision.analysis : undefined,
+          awaiting: decision.action === 'ask' ? decision.awaiting : undefined,
+          message: transactionDraftService.buildPrompt(decision, categories, language, amount => `${currencySymbol}${amount}`)
+        });
+      }
+      
+      // An expense past a hard spending limit waits for "tetap simpan"
+      const formatAmount = (amount: number) => `${currencySymbol}${amount}`;
+      const toSave = decision.batch || [decision.analysis];
+      const resolved = await transactionBatchService.resolveCategories(req.user!.id, toSave, categories, aiPreferences);
+      const { violations, heldMessage } = await checkChatSpendingLimits(req.user!.id, toSave, resolved, categories, language, formatAmount, decision.overrideLimit);
+      if (heldMessage) {
+        return res.json({
+          success: false,
+          awaiting: 'limit_override',
+          violations,
+          message: heldMessage
+        });
+      }
+
+      if (decision.batch) {
+        const saved = await transactionBatchService.save(req.user!.id, decision.batch, categories, aiPreferences);
+        // "batal 2" removes the second item, "batal" all of them
+        conversationStateService.rememberTransactions(req.user!.id, saved.map(item => item.transaction.id));
+        if (violations.length > 0) {
+          await spendingLimitService.recordBreaches(req.user!.id, violations, saved.map(item => item.transaction), 'chat');
         }
-        
-        if (matchingCategory) {
-          const validatedData = insertTransactionSchema.parse({
-            userId: req.user!.id,
-            categoryId: matchingCategory.id,
-            amount: analysis.amount,
-            currency: userPreferences?.defaultCurrency || "USD",
-            description: analysis.description,
-            type: analysis.type,
-            date: Math.floor(Date.now() / 1000),
-            aiGenerated: true,
-          });
 
-          const transaction = await storage.createTransaction(validatedData);
-          
-          const currencySymbol = getCurrencySymbol(userPreferences?.defaultCurrency || 'USD');
-          const successMessage = userPreferences?.language === 'id' 
-            ? `Berhasil! Saya telah membuat transaksi ${analysis.type}: "${analysis.description}" sebesar ${currencySymbol}${analysis.amount}. 💰`
-            : `Great! I've created a ${analysis.type} transaction: "${analysis.description}" for ${currencySymbol}${analysis.amount}. 💰`;
-          
-          return res.json({
-            success: true,
-            transaction,
-            message: successMessage,
-            newCategoryCreated: analysis.suggestedNewCategory ? true : false
-          });
-        } else {
-          const currencySymbol = getCurrencySymbol(userPreferences?.defaultCurrency || 'USD');
-          const errorMessage = userPreferences?.language === 'id'
-            ? `Saya menemukan ${analysis.type} sebesar ${currencySymbol}${analysis.amount} untuk "${analysis.description}", tetapi tidak dapat menemukan kategori yang cocok.`
-            : `I found a ${analysis.type} of ${currencySymbol}${analysis.amount} for "${analysis.description}", but couldn't find a matching category.`;
-            
-          return res.json({
-            success: false,
-            message: errorMessage
-          });
+        const lines = saved.map(({ transaction, category }, index) =>
+          `${index + 1}. ${transaction.description} - ${currencySymbol}${transaction.amount} (${category.name})`
+        );
+        return res.json({
+          success: true,
+          transactions: saved.map(item => item.transaction),
+          message: language === 'id'
+            ? `Berhasil! Saya telah membuat ${saved.length} transaksi:\n${lines.join('\n')}\n\nBalas "batal 2" untuk menghapus item nomor 2, atau "batal" untuk menghapus semuanya. 💰`
+            : `Great! I've created ${saved.length} transactions:\n${lines.join('\n')}\n\nReply "undo 2" to remove item 2, or "undo" to remove all of them. 💰`
+        });
+      }
+      
+      const { analysis } = decision;
+      
+      // The named category, a new one when auto-categorize is on, or "Other" - resolved above
+      const matchingCategory = resolved[0];
+      
+      if (matchingCategory) {
+        const validatedData = insertTransactionSchema.parse({
+          userId: req.user!.id,
+          categoryId: matchingCategory.id,
+          amount: analysis.amount,
+          currency: userPreferences?.defaultCurrency || "USD",
+          description: analysis.description,
+          type: analysis.type,
+          date: analysis.date ?? Math.floor(Date.now() / 1000), // "kemarin", "tanggal 15" and the like
+          aiGenerated: true,
+        });
+
+        const transaction = await storage.createTransaction(validatedData);
+        // "batal" / "ubah jumlah ..." in the chat apply to this transaction next
+        conversationStateService.rememberTransactions(req.user!.id, [transaction.id]);
+        if (violations.length > 0) {
+          await spendingLimitService.recordBreaches(req.user!.id, violations, [transaction], 'chat');
         }
+        
+        const successMessage = language === 'id' 
+          ? `Berhasil! Saya telah membuat transaksi ${analysis.type}: "${analysis.description}" sebesar ${currencySymbol}${analysis.amount}. 💰`
+          : `Great! I've created a ${analysis.type} transaction: "${analysis.description}" for ${currencySymbol}${analysis.amount}. 💰`;
+        
+        return res.json({
+          success: true,
+          transaction,
+          message: successMessage,
+          newCategoryCreated: analysis.suggestedNewCategory ? true : false
+        });
       } else {
-        // Return analysis for user to review
+        const errorMessage = language === 'id'
+          ? `Saya menemukan ${analysis.type} sebesar ${currencySymbol}${analysis.amount} untuk "${analysis.description}", tetapi tidak dapat menemukan kategori yang cocok.`
+          : `I found a ${analysis.type} of ${currencySymbol}${analysis.amount} for "${analysis.description}", but couldn't find a matching category.`;
+          
         return res.json({
           success: false,
-          analysis: analysis,
-          message: `I found a ${analysis.type} of $${analysis.amount} for "${analysis.description}". Should I create this transaction?`
+          message: errorMessage
         });
       }
     } catch (error) {
@@ -1474,21 +2850,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Get user preferences first for language-aware transcription
       const userPreferences = await storage.getUserPreferences(req.user!.id);
       
-      // Create a proper file-like object for OpenAI Whisper
+      // Create a proper file-like object for the transcription API
       const audioFile = new File([req.file.buffer], req.file.originalname || 'audio.webm', { 
         type: req.file.mimetype || 'audio/webm' 
       });
 
-      // Use OpenAI Whisper for speech-to-text
-      const transcription = await openai.audio.transcriptions.create({
+      // Speech-to-text with the configured transcription model (Whisper by default)
+      const transcribedText = await llm.transcribe({
         file: audioFile,
-        model: 'whisper-1',
         language: userPreferences?.language || 'en', // Use user's preferred language
-        response_format: 'text',
         temperature: 0.2,
       });
-
-      const transcribedText = transcription.trim();
       console.log('Transcribed text:', transcribedText);
 
       if (!transcribedText || transcribedText.length === 0) {
@@ -1514,42 +2886,67 @@ export async function registerRoutes(app: Express): Promise<Server> {
       };
       
       // Analyze the transcribed text with user preferences
-      const analysis = await analyzeTransactionText(transcribedText, categories, aiPreferences);
-      console.log('Voice analysis result:', analysis);
+      const analyses = await transactionBatchService.analyze(req.user!.id, transcribedText, categories, aiPreferences);
+      console.log('Voice analysis result:', analyses);
+
+      // An expense past a hard spending limit waits for "tetap simpan" in the chat
+      const formatAmount = (amount: number) => `${getCurrencySymbol(aiPreferences.defaultCurrency)}${amount}`;
+      const heardPrefix = aiPreferences.language === 'id'
+        ? `🎤 Saya mendengar: "${transcribedText}"`
+        : `🎤 I heard: "${transcribedText}"`;
+
+      if (analyses.length > 1) {
+        const resolved = await transactionBatchService.resolveCategories(req.user!.id, analyses, categories, aiPreferences);
+        const { violations, heldMessage } = await checkChatSpendingLimits(req.user!.id, analyses, resolved, categories, aiPreferences.language, formatAmount);
+        if (heldMessage) {
+          return res.json({
+            success: false,
+            awaiting: 'limit_override',
+            violations,
+            transcription: transcribedText,
+            message: `${heardPrefix}\n\n${heldMessage}`
+          });
+        }
 
-      if (analysis.confidence > 0.6) {
-        // Create transaction directly for reasonable confidence
-        let matchingCategory = categories.find(c => 
-          c.name.toLowerCase() === analysis.category.toLowerCase()
+        const saved = await transactionBatchService.save(req.user!.id, analyses, categories, aiPreferences);
+        conversationStateService.rememberTransactions(req.user!.id, saved.map(item => item.transaction.id));
+        if (violations.length > 0) {
+          await spendingLimitService.recordBreaches(req.user!.id, violations, saved.map(item => item.transaction), 'chat');
+        }
+
+        const currencySymbol = getCurrencySymbol(userPreferences?.defaultCurrency || 'USD');
+        const lines = saved.map(({ transaction, category }, index) =>
+          `${index + 1}. ${transaction.description} - ${currencySymbol}${transaction.amount} (${category.name})`
         );
+        return res.json({
+          success: true,
+          transactions: saved.map(item => item.transaction),
+          transcription: transcribedText,
+          message: userPreferences?.language === 'id'
+            ? `🎤 Saya mendengar: "${transcribedText}"\n\n✅ Dibuat ${saved.length} transaksi:\n${lines.join('\n')}\n\nTransaksi berhasil ditambahkan! 🎉`
+            : `🎤 I heard: "${transcribedText}"\n\n✅ Created ${saved.length} transactions:\n${lines.join('\n')}\n\nTransactions added successfully! 🎉`
+        });
+      }
+      const [analysis] = analyses;
+
+      if (analysis.confidence > 0.6) {
+        // Create transaction directly for reasonable confidence - in the named category, a new one
+        // when auto-categorize is on, or "Other"
+        const [matchingCategory] = await transactionBatchService.resolveCategories(req.user!.id, [analysis], categories, aiPreferences);
         
-        // Auto-categorization: create new category if none exists and auto-categorize is enabled
-        if (!matchingCategory && userPreferences?.autoCategorize && analysis.suggestedNewCategory) {
-          console.log('Creating new category from voice:', analysis.suggestedNewCategory);
-          
-          try {
-            const newCategory = await storage.createCategory({
-              name: analysis.suggestedNewCategory.name,
-              icon: analysis.suggestedNewCategory.icon,
-              color: analysis.suggestedNewCategory.color,
-              type: analysis.suggestedNewCategory.type,
-              userId: req.user!.id,
-              isDefault: false
+        if (matchingCategory && analysis.amount > 0) {
+          const { violations, heldMessage } = await checkChatSpendingLimits(req.user!.id, [analysis], [matchingCategory], categories, aiPreferences.language, formatAmount);
+          if (heldMessage) {
+            return res.json({
+              success: false,
+              awaiting: 'limit_override',
+              violations,
+              transcription: transcribedText,
+              analysisResult: analysis,
+              message: `${heardPrefix}\n\n${heldMessage}`
             });
-            
-            matchingCategory = newCategory;
-            console.log('New category created from voice:', newCategory);
-          } catch (categoryError) {
-            console.error('Failed to create new category from voice:', categoryError);
           }
-        }
-        
-        // Fallback to "Other" category if still no match
-        if (!matchingCategory) {
-          matchingCategory = categories.find(c => c.name.toLowerCase() === 'other');
-        }
-        
-        if (matchingCategory && analysis.amount > 0) {
+
           try {
             const validatedData = insertTransactionSchema.parse({
               userId: req.user!.id,
@@ -1564,6 +2961,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
             const transaction = await storage.createTransaction(validatedData);
             console.log('Created transaction from voice:', transaction);
+            if (violations.length > 0) {
+              await spendingLimitService.recordBreaches(req.user!.id, violations, [transaction], 'chat');
+            }
             
             const currencySymbol = getCurrencySymbol(userPreferences?.defaultCurrency || 'USD');
             const successMessage = userPreferences?.language === 'id'
@@ -1669,42 +3069,36 @@ export async function registerRoutes(app: Express): Promise<Server> {
       console.log('Image analysis result:', result);
       
       if (result.transactions && result.transactions.length > 0) {
+        // The named category, a new one when auto-categorize is on, or "Other" for every item
+        const knownCategoryIds = new Set(categories.map(category => category.id));
+        const resolved = await transactionBatchService.resolveCategories(req.user!.id, result.transactions, categories, aiPreferences);
+
+        // A receipt past a hard spending limit waits for "tetap simpan" in the chat
+        const { violations, heldMessage } = await checkChatSpendingLimits(
+          req.user!.id,
+          result.transactions,
+          resolved,
+          categories,
+          aiPreferences.language,
+          amount => `${getCurrencySymbol(aiPreferences.defaultCurrency)}${amount}`
+        );
+        if (heldMessage) {
+          return res.json({
+            success: false,
+            awaiting: 'limit_override',
+            violations,
+            analysisResult: result,
+            message: heldMessage
+          });
+        }
+
         // Create transactions from the image
         const createdTransactions = [];
-        const newCategoriesCreated = [];
+        const newCategoriesCreated = categories.filter(category => !knownCategoryIds.has(category.id));
         
-        for (const analysis of result.transactions) {
-          // Find matching category (case-insensitive)
-          let matchingCategory = categories.find(c => 
-            c.name.toLowerCase() === analysis.category.toLowerCase()
-          );
-          
-          // Auto-categorization: create new category if none exists and auto-categorize is enabled
-          if (!matchingCategory && userPreferences?.autoCategorize && analysis.suggestedNewCategory) {
-            console.log('Creating new category from image:', analysis.suggestedNewCategory);
-            
-            try {
-              const newCategory = await storage.createCategory({
-                name: analysis.suggestedNewCategory.name,
-                icon: analysis.suggestedNewCategory.icon,
-                color: analysis.suggestedNewCategory.color,
-                type: analysis.suggestedNewCategory.type,
-                userId: req.user!.id,
-                isDefault: false
-              });
-              
-              matchingCategory = newCategory;
-              newCategoriesCreated.push(newCategory);
-              console.log('New category created from image:', newCategory);
-            } catch (categoryError) {
-              console.error('Failed to create new category from image:', categoryError);
-            }
-          }
-          
-          // Fallback to "Other" category if still no match
-          if (!matchingCategory) {
-            matchingCategory = categories.find(c => c.name.toLowerCase() === 'other');
-          }
+        for (let index = 0; index < result.transactions.length; index++) {
+          const analysis = result.transactions[index];
+          const matchingCategory = resolved[index];
           
           if (matchingCategory && analysis.amount > 0) {
             try {
@@ -1719,7 +3113,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
                 aiGenerated: true,
               });
               
-              const transaction = await storage.createTransaction(validatedData);
+              const transaction = await applyReceiptSplits(
+                req.user!.id,
+                await storage.createTransaction(validatedData),
+                analysis,
+                categories
+              );
               createdTransactions.push(transaction);
               console.log('Created transaction from image:', transaction);
             } catch (validationError) {
@@ -1732,6 +3131,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
         
         if (createdTransactions.length > 0) {
+          if (violations.length > 0) {
+            await spendingLimitService.recordBreaches(req.user!.id, violations, createdTransactions, 'chat');
+          }
+
           const currencySymbol = getCurrencySymbol(userPreferences?.defaultCurrency || 'USD');
           const successMessage = userPreferences?.language === 'id'
             ? `📸 Sempurna! Saya menganalisis struk Anda dan menemukan ${createdTransactions.length} transaksi:\n\n${createdTransactions.map(t => `✅ ${t.description} - ${currencySymbol}${t.amount}`).join('\n')}\n\nSemua transaksi telah ditambahkan ke akun Anda! 🎉`
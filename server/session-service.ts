@@ -0,0 +1,142 @@
+import crypto from 'crypto';
+import type { Request } from 'express';
+import { storage } from './storage';
+import { generateToken, type AuthUser } from './auth';
+import type { Session } from '@shared/schema';
+
+// Sign-in sessions: a login starts one, handing out a short-lived access token and a refresh
+// token. Only a SHA-256 of the refresh token is stored, and every refresh swaps it for a new
+// one, so a refresh token works once. Sessions left unused for the refresh lifetime expire.
+
+const REFRESH_TOKEN_TTL_SECONDS = 30 * 24 * 60 * 60;
+const MAX_USER_AGENT_LENGTH = 512;
+
+export interface AuthTokens {
+  token: string; // Access token
+  refreshToken: string;
+}
+
+/**
+ * A session as listed in Settings → Security
+ */
+export interface SessionSummary {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: number | null;
+  lastUsedAt: number;
+  current: boolean;
+}
+
+interface SessionService {
+  start(user: AuthUser, req: Request): Promise<AuthTokens>;
+  refresh(refreshToken: string, req: Request): Promise<(AuthTokens & { user: AuthUser }) | null>;
+  list(userId: string, currentSessionId?: string): Promise<SessionSummary[]>;
+  revoke(id: string, userId: string): Promise<boolean>;
+  revokeAll(userId: string, exceptId?: string): Promise<number>;
+}
+
+class SessionServiceImpl implements SessionService {
+
+  /**
+   * Sign a user in on the requesting device
+   */
+  async start(user: AuthUser, req: Request): Promise<AuthTokens> {
+    // Expired and signed-out sessions are only kept until the next login
+    await storage.deleteStaleSessions(user.id);
+
+    const refreshToken = this.createRefreshToken();
+    const now = Math.floor(Date.now() / 1000);
+    const session = await storage.createSession({
+      id: crypto.randomUUID(),
+      userId: user.id,
+      refreshTokenHash: this.hash(refreshToken),
+      userAgent: req.get('user-agent')?.slice(0, MAX_USER_AGENT_LENGTH) || null,
+      ipAddress: req.ip || null,
+      lastUsedAt: now,
+      expiresAt: now + REFRESH_TOKEN_TTL_SECONDS,
+    });
+
+    return { token: generateToken(user, session.id), refreshToken };
+  }
+
+  /**
+   * Trade a refresh token for a new access token and refresh token
+   * @returns null when the token is unknown, already used, or its session is over
+   */
+  async refresh(refreshToken: string, req: Request): Promise<(AuthTokens & { user: AuthUser }) | null> {
+    const currentHash = this.hash(refreshToken);
+    const session = await storage.getSessionByRefreshTokenHash(currentHash);
+    const now = Math.floor(Date.now() / 1000);
+    if (!session || session.revokedAt || session.expiresAt < now) {
+      return null;
+    }
+
+    const user = await storage.getUser(session.userId);
+    if (!user) {
+      return null;
+    }
+
+    const nextRefreshToken = this.createRefreshToken();
+    const rotated = await storage.rotateSessionRefreshToken(session.id, currentHash, {
+      refreshTokenHash: this.hash(nextRefreshToken),
+      ipAddress: req.ip || session.ipAddress,
+      lastUsedAt: now,
+      expiresAt: now + REFRESH_TOKEN_TTL_SECONDS,
+    });
+    // Another request refreshed with the same token first
+    if (!rotated) {
+      return null;
+    }
+
+    const authUser: AuthUser = {
+      id: user.id,
+      email: user.email || '',
+      firstName: user.firstName || undefined,
+      lastName: user.lastName || undefined,
+    };
+    return { token: generateToken(authUser, session.id), refreshToken: nextRefreshToken, user: authUser };
+  }
+
+  /**
+   * The user's signed-in sessions, most recently used first
+   */
+  async list(userId: string, currentSessionId?: string): Promise<SessionSummary[]> {
+    const sessions = await storage.getActiveSessions(userId);
+    return sessions.map((session: Session) => ({
+      id: session.id,
+      userAgent: session.userAgent,
+      ipAddress: session.ipAddress,
+      createdAt: session.createdAt,
+      lastUsedAt: session.lastUsedAt,
+      current: session.id === currentSessionId,
+    }));
+  }
+
+  /**
+   * Sign one session out
+   * @returns false when the user has no such signed-in session
+   */
+  async revoke(id: string, userId: string): Promise<boolean> {
+    return storage.revokeSession(id, userId);
+  }
+
+  /**
+   * Sign the user out everywhere, or everywhere but exceptId
+   */
+  async revokeAll(userId: string, exceptId?: string): Promise<number> {
+    const count = await storage.revokeUserSessions(userId, exceptId);
+    console.log(`🔒 Signed out ${count} session(s) of user ${userId}`);
+    return count;
+  }
+
+  private createRefreshToken(): string {
+    return crypto.randomBytes(32).toString('base64url');
+  }
+
+  private hash(refreshToken: string): string {
+    return crypto.createHash('sha256').update(refreshToken).digest('hex');
+  }
+}
+
+export const sessionService = new SessionServiceImpl();
@@ -0,0 +1,159 @@
+import { storage } from './storage';
+import { budgetAlertService } from './budget-alert-service';
+import type { TransactionAnalysis } from './openai';
+import type { BudgetLimitPeriod, BudgetWithCategory } from '@shared/schema';
+
+// Hard spending limits (hardLimit in the limits saved by POST /api/budgets/spending-limits): an
+// expense that would take its category past the daily, weekly or monthly limit is refused by the
+// API and held by the chats until the user explicitly saves it anyway. Every expense saved that
+// way is recorded in spending_limit_breaches.
+
+// Where a breach was confirmed: the transaction form/API, the web chat, or a WhatsApp/Telegram bot
+export type BreachSource = 'web' | 'chat' | 'messaging';
+
+export interface PlannedExpense {
+  categoryId: number;
+  amount: number;
+  date?: number; // Unix timestamp, now when missing
+}
+
+export interface SpendingLimitViolation {
+  budgetId: number;
+  categoryId: number;
+  categoryName: string;
+  period: Exclude<BudgetLimitPeriod, 'budget'>;
+  limit: number;
+  spent: number; // Already spent in the period
+  amount: number; // What the new expenses add
+  remaining: number;
+}
+
+type AnalysisCategory = { id: number; name: string };
+
+interface SpendingLimitService {
+  check(userId: string, expenses: PlannedExpense[]): Promise<SpendingLimitViolation[]>;
+  checkAnalyses(userId: string, analyses: TransactionAnalysis[], categories: Array<AnalysisCategory | undefined>): Promise<SpendingLimitViolation[]>;
+  recordBreaches(
+    userId: string,
+    violations: SpendingLimitViolation[],
+    transactions: Array<{ id: number; categoryId: number }>,
+    source: BreachSource
+  ): Promise<void>;
+  buildViolationMessage(violations: SpendingLimitViolation[], language: string, formatAmount: (amount: number) => string): string;
+}
+
+class SpendingLimitServiceImpl implements SpendingLimitService {
+
+  /**
+   * The hard limits the expenses would pass, together - two expenses in one category each within
+   * the limit can still pass it between them
+   */
+  async check(userId: string, expenses: PlannedExpense[]): Promise<SpendingLimitViolation[]> {
+    const planned = expenses.filter(expense => expense.amount > 0);
+    if (planned.length === 0) return [];
+
+    const budgets = (await storage.getBudgets(userId)).filter(budget =>
+      budget.isActive !== false && budgetAlertService.getSpendingLimits(budget)?.hardLimit
+    );
+    if (budgets.length === 0) return [];
+
+    // Expenses on different days can fall into different periods of the same limit
+    const totals = new Map<string, { budget: BudgetWithCategory; period: SpendingLimitViolation['period']; limit: number; startDate: number; endDate: number; amount: number }>();
+    for (const expense of planned) {
+      const budget = budgets.find(b => b.categoryId === expense.categoryId);
+      if (!budget) continue;
+
+      const date = expense.date ? new Date(expense.date * 1000) : new Date();
+      for (const window of budgetAlertService.getLimitWindows(budget, date)) {
+        if (window.period === 'budget') continue;
+
+        const key = `${budget.id}:${window.period}:${window.startDate}`;
+        const total = totals.get(key) || { budget, period: window.period, limit: window.limit, startDate: window.startDate, endDate: window.endDate, amount: 0 };
+        total.amount += expense.amount;
+        totals.set(key, total);
+      }
+    }
+
+    const violations: SpendingLimitViolation[] = [];
+    for (const total of Array.from(totals.values())) {
+      const spent = await storage.getSpentInPeriod(userId, total.budget.categoryId, total.startDate, total.endDate);
+      if (spent + total.amount <= total.limit) continue;
+
+      violations.push({
+        budgetId: total.budget.id,
+        categoryId: total.budget.categoryId,
+        categoryName: total.budget.category?.name || '',
+        period: total.period,
+        limit: total.limit,
+        spent,
+        amount: total.amount,
+        remaining: Math.max(0, total.limit - spent),
+      });
+    }
+
+    return violations;
+  }
+
+  /**
+   * Same check for parsed chat transactions
+   * @param categories The category each analysis will be saved in, see transactionBatchService.resolveCategories
+   */
+  async checkAnalyses(userId: string, analyses: TransactionAnalysis[], categories: Array<AnalysisCategory | undefined>): Promise<SpendingLimitViolation[]> {
+    const expenses: PlannedExpense[] = [];
+    analyses.forEach((analysis, index) => {
+      const category = categories[index];
+      if (analysis.type === 'expense' && category) {
+        expenses.push({ categoryId: category.id, amount: analysis.amount, date: analysis.date });
+      }
+    });
+    return this.check(userId, expenses);
+  }
+
+  /**
+   * Record expenses saved past their limit on purpose
+   * @param transactions The saved transactions, or one entry per split part
+   */
+  async recordBreaches(
+    userId: string,
+    violations: SpendingLimitViolation[],
+    transactions: Array<{ id: number; categoryId: number }>,
+    source: BreachSource
+  ): Promise<void> {
+    try {
+      await storage.createSpendingLimitBreaches(violations.map(violation => ({
+        userId,
+        budgetId: violation.budgetId,
+        transactionId: transactions.find(t => t.categoryId === violation.categoryId)?.id ?? null,
+        limitPeriod: violation.period,
+        limitAmount: violation.limit,
+        spentBefore: violation.spent,
+        amount: violation.amount,
+        source,
+      })));
+      console.log(`🛑 User ${userId} saved past ${violations.length} hard spending limit(s) (${source})`);
+    } catch (error) {
+      console.error('Error recording spending limit breaches:', error);
+    }
+  }
+
+  /**
+   * Which limits the expense would pass and how much is still allowed
+   */
+  buildViolationMessage(violations: SpendingLimitViolation[], language: string, formatAmount: (amount: number) => string): string {
+    const id = language === 'id';
+    const labels = id
+      ? { daily: 'Limit harian', weekly: 'Limit mingguan', monthly: 'Limit bulanan' }
+      : { daily: 'Daily limit', weekly: 'Weekly limit', monthly: 'Monthly limit' };
+
+    const lines = violations.map(violation => id
+      ? `• ${labels[violation.period]} ${violation.categoryName} ${formatAmount(violation.limit)}: terpakai ${formatAmount(violation.spent)}, sisa ${formatAmount(violation.remaining)}`
+      : `• ${labels[violation.period]} for ${violation.categoryName} ${formatAmount(violation.limit)}: ${formatAmount(violation.spent)} spent, ${formatAmount(violation.remaining)} left`
+    );
+
+    return id
+      ? `🛑 *Melewati Limit Pengeluaran*\n\nTransaksi ini akan melewati limit yang Anda kunci:\n${lines.join('\n')}`
+      : `🛑 *Over Your Spending Limit*\n\nThis would go past a hard limit you set:\n${lines.join('\n')}`;
+  }
+}
+
+export const spendingLimitService = new SpendingLimitServiceImpl();
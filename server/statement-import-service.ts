@@ -0,0 +1,136 @@
+import { storage } from './storage';
+import { categorizeTransaction } from './openai';
+import { categorizationRuleService } from './categorization-rule-service';
+import {
+  parseStatement,
+  type CsvColumnMapping,
+  type ParsedStatementRow,
+  type StatementFormat,
+} from './statement-parser';
+import { Category } from '@shared/schema';
+
+// AI categorization is slow and costs money - only the first unknown descriptions of a file are sent
+const MAX_AI_CATEGORIZATIONS = 20;
+
+type CategorySource = 'rule' | 'history' | 'ai' | 'default';
+
+export interface StatementImportPreviewRow extends ParsedStatementRow {
+  categoryId: number | null;
+  categorySource: CategorySource;
+  duplicateOfId: number | null; // Existing transaction this row probably duplicates
+}
+
+export interface StatementImportPreview {
+  format: StatementFormat;
+  rows: StatementImportPreviewRow[];
+  errors: Array<{ rowNumber: number; message: string }>;
+  duplicateCount: number;
+}
+
+interface StatementImportService {
+  previewImport(userId: string, format: StatementFormat, content: string, mapping?: CsvColumnMapping): Promise<StatementImportPreview>;
+  suggestCategories(userId: string, rows: ParsedStatementRow[], categories: Category[]): Promise<Array<{ categoryId: number | null; categorySource: CategorySource }>>;
+}
+
+class StatementImportServiceImpl implements StatementImportService {
+
+  /**
+   * Parse a statement and prepare it for review: suggest a category for every row and
+   * flag rows that probably already exist. Nothing is written to the database.
+   */
+  async previewImport(
+    userId: string,
+    format: StatementFormat,
+    content: string,
+    mapping?: CsvColumnMapping
+  ): Promise<StatementImportPreview> {
+    const { rows, errors } = parseStatement(format, content, mapping);
+
+    const categories = (await storage.getCategories(userId))
+      .filter(category => category.type === 'income' || category.type === 'expense');
+
+    const [suggestions, duplicates] = await Promise.all([
+      this.suggestCategories(userId, rows, categories),
+      storage.findDuplicateTransactions(userId, rows),
+    ]);
+
+    const previewRows = rows.map((row, index) => ({
+      ...row,
+      ...suggestions[index],
+      duplicateOfId: duplicates[index],
+    }));
+
+    console.log(`📥 Statement preview for user ${userId}: ${rows.length} rows, ${errors.length} errors`);
+
+    return {
+      format,
+      rows: previewRows,
+      errors,
+      duplicateCount: duplicates.filter(duplicate => duplicate !== null).length,
+    };
+  }
+
+  /**
+   * Pick a category for each row: the user's categorization rules, then the category the user used
+   * last time for the same description, then AI categorization mapped onto the user's own
+   * categories, then a sensible default.
+   */
+  async suggestCategories(
+    userId: string,
+    rows: ParsedStatementRow[],
+    categories: Category[]
+  ): Promise<Array<{ categoryId: number | null; categorySource: CategorySource }>> {
+    const learned = await storage.getCategoriesByDescription(userId, rows.map(row => row.description));
+    const categoriesById = new Map(categories.map(category => [category.id, category]));
+    const rules = await categorizationRuleService.getActiveRules(userId);
+
+    const ruleMatches = rows.map(row => {
+      const rule = categorizationRuleService.matchRule(rules, row.description, row.amount, row.type);
+      return rule && categoriesById.get(rule.categoryId)?.type === row.type ? rule : null;
+    });
+
+    // Categorize each unknown expense description once
+    const unknownDescriptions = Array.from(new Set(
+      rows
+        .filter((row, index) => row.type === 'expense' && !ruleMatches[index] && !learned.has(row.description.toLowerCase()))
+        .map(row => row.description)
+    )).slice(0, MAX_AI_CATEGORIZATIONS);
+
+    const aiCategories = new Map<string, number>();
+    for (const description of unknownDescriptions) {
+      const row = rows.find(candidate => candidate.description === description)!;
+      const categoryName = await categorizeTransaction(description, row.amount);
+      const match = categories.find(category =>
+        category.type === 'expense' && category.name.toLowerCase() === categoryName.toLowerCase()
+      );
+      if (match) {
+        aiCategories.set(description, match.id);
+      }
+    }
+
+    const defaultCategory = (type: string) =>
+      categories.find(category => category.type === type && category.name.toLowerCase().includes('other')) ||
+      categories.find(category => category.type === type);
+
+    return rows.map((row, index) => {
+      const rule = ruleMatches[index];
+      if (rule) {
+        return { categoryId: rule.categoryId, categorySource: 'rule' as const };
+      }
+
+      const learnedCategoryId = learned.get(row.description.toLowerCase());
+      if (learnedCategoryId && categoriesById.get(learnedCategoryId)?.type === row.type) {
+        return { categoryId: learnedCategoryId, categorySource: 'history' as const };
+      }
+
+      const aiCategoryId = aiCategories.get(row.description);
+      if (aiCategoryId) {
+        return { categoryId: aiCategoryId, categorySource: 'ai' as const };
+      }
+
+      return { categoryId: defaultCategory(row.type)?.id ?? null, categorySource: 'default' as const };
+    });
+  }
+}
+
+export const statementImportService = new StatementImportServiceImpl();
@@ -0,0 +1,338 @@
+// Parsers for exported bank statements (CSV, OFX/QFX and MT940)
+
+export type StatementFormat = 'csv' | 'ofx' | 'mt940';
+
+export type StatementDateFormat = 'YYYY-MM-DD' | 'DD/MM/YYYY' | 'MM/DD/YYYY' | 'DD-MM-YYYY' | 'DD.MM.YYYY';
+
+export interface CsvColumnMapping {
+  delimiter: string;
+  hasHeader: boolean | null;
+  dateColumn: number;
+  descriptionColumn: number;
+  amountColumn?: number | null;
+  debitColumn?: number | null;
+  creditColumn?: number | null;
+  dateFormat: StatementDateFormat;
+  decimalSeparator: '.' | ',';
+}
+
+export interface ParsedStatementRow {
+  rowNumber: number; // 1-based position in the file, used to point at problems in the preview
+  date: number; // Unix timestamp
+  amount: number; // Always positive, the direction is in `type`
+  type: 'income' | 'expense';
+  description: string;
+  reference?: string; // Bank reference (OFX FITID, MT940 bank reference) when the format has one
+}
+
+export interface StatementParseResult {
+  rows: ParsedStatementRow[];
+  errors: Array<{ rowNumber: number; message: string }>;
+}
+
+/**
+ * Guess the statement format from the file name, falling back to the content
+ */
+export function detectStatementFormat(fileName: string, content: string): StatementFormat {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'ofx' || extension === 'qfx') return 'ofx';
+  if (extension === 'sta' || extension === 'mt940' || extension === '940') return 'mt940';
+  if (extension === 'csv') return 'csv';
+
+  if (/<OFX>|OFXHEADER/i.test(content)) return 'ofx';
+  if (/^:20:/m.test(content) && /^:61:/m.test(content)) return 'mt940';
+  return 'csv';
+}
+
+export function parseStatement(format: StatementFormat, content: string, mapping?: CsvColumnMapping): StatementParseResult {
+  switch (format) {
+    case 'csv':
+      if (!mapping) {
+        throw new Error('A column mapping is required for CSV statements');
+      }
+      return parseCsvStatement(content, mapping);
+    case 'ofx':
+      return parseOfxStatement(content);
+    case 'mt940':
+      return parseMt940Statement(content);
+    default:
+      throw new Error(`Unsupported statement format: ${format}`);
+  }
+}
+
+/**
+ * Split CSV content into rows of cells, honouring quoted cells with embedded delimiters, quotes and newlines
+ */
+export function parseCsvRows(content: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  const text = content.replace(/^\uFEFF/, ''); // Strip the BOM Excel likes to add
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell.trim());
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell.trim());
+      if (row.some(value => value.length > 0)) rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  row.push(cell.trim());
+  if (row.some(value => value.length > 0)) rows.push(row);
+
+  return rows;
+}
+
+function parseCsvStatement(content: string, mapping: CsvColumnMapping): StatementParseResult {
+  const result: StatementParseResult = { rows: [], errors: [] };
+  const rows = parseCsvRows(content, mapping.delimiter || ',');
+  const firstDataRow = mapping.hasHeader === false ? 0 : 1;
+
+  for (let index = firstDataRow; index < rows.length; index++) {
+    const cells = rows[index];
+    const rowNumber = index + 1;
+
+    try {
+      const date = parseStatementDate(cells[mapping.dateColumn], mapping.dateFormat);
+      const description = (cells[mapping.descriptionColumn] || '').replace(/\s+/g, ' ').trim();
+
+      let signedAmount: number;
+      if (mapping.amountColumn != null) {
+        signedAmount = parseStatementAmount(cells[mapping.amountColumn], mapping.decimalSeparator);
+      } else {
+        const debit = cells[mapping.debitColumn ?? -1] ? Math.abs(parseStatementAmount(cells[mapping.debitColumn!], mapping.decimalSeparator)) : 0;
+        const credit = cells[mapping.creditColumn ?? -1] ? Math.abs(parseStatementAmount(cells[mapping.creditColumn!], mapping.decimalSeparator)) : 0;
+        signedAmount = credit - debit;
+      }
+
+      if (signedAmount === 0) {
+        // Balance lines and zero-value holds are not transactions
+        continue;
+      }
+
+      result.rows.push({
+        rowNumber,
+        date,
+        amount: Math.abs(signedAmount),
+        type: signedAmount > 0 ? 'income' : 'expense',
+        description: description || 'Imported transaction',
+      });
+    } catch (error) {
+      result.errors.push({ rowNumber, message: error instanceof Error ? error.message : 'Invalid row' });
+    }
+  }
+
+  return result;
+}
+
+function parseOfxStatement(content: string): StatementParseResult {
+  const result: StatementParseResult = { rows: [], errors: [] };
+
+  // OFX 1.x is SGML without closing tags, OFX 2.x is XML - split on the opening tags so both work
+  const blocks = content.split(/<STMTTRN>/i).slice(1);
+
+  blocks.forEach((rawBlock, index) => {
+    const block = rawBlock.split(/<\/STMTTRN>|<\/BANKTRANLIST>/i)[0];
+    const rowNumber = index + 1;
+
+    try {
+      const postedAt = getOfxField(block, 'DTPOSTED');
+      const rawAmount = getOfxField(block, 'TRNAMT');
+      if (!postedAt || !rawAmount) {
+        throw new Error('Missing DTPOSTED or TRNAMT');
+      }
+
+      const match = /^(\d{4})(\d{2})(\d{2})/.exec(postedAt);
+      if (!match) {
+        throw new Error(`Invalid date "${postedAt}"`);
+      }
+
+      const signedAmount = parseStatementAmount(rawAmount, rawAmount.includes(',') && !rawAmount.includes('.') ? ',' : '.');
+      if (signedAmount === 0) return;
+
+      const name = getOfxField(block, 'NAME');
+      const memo = getOfxField(block, 'MEMO');
+      const description = [name, memo && memo !== name ? memo : undefined].filter(Boolean).join(' - ');
+
+      result.rows.push({
+        rowNumber,
+        date: toStatementTimestamp(parseInt(match[1]), parseInt(match[2]), parseInt(match[3])),
+        amount: Math.abs(signedAmount),
+        type: signedAmount > 0 ? 'income' : 'expense',
+        description: description || getOfxField(block, 'TRNTYPE') || 'Imported transaction',
+        reference: getOfxField(block, 'FITID'),
+      });
+    } catch (error) {
+      result.errors.push({ rowNumber, message: error instanceof Error ? error.message : 'Invalid transaction' });
+    }
+  });
+
+  return result;
+}
+
+function getOfxField(block: string, tag: string): string | undefined {
+  const match = new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i').exec(block);
+  if (!match) return undefined;
+
+  const value = match[1]
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .trim();
+  return value || undefined;
+}
+
+function parseMt940Statement(content: string): StatementParseResult {
+  const result: StatementParseResult = { rows: [], errors: [] };
+
+  // Join continuation lines onto their tag so every field is a single string
+  const fields: Array<{ tag: string; value: string }> = [];
+  for (const line of content.split(/\r?\n/)) {
+    const tagMatch = /^:(\d{2}[A-Z]?):(.*)$/.exec(line);
+    if (tagMatch) {
+      fields.push({ tag: tagMatch[1], value: tagMatch[2] });
+    } else if (fields.length > 0 && line.trim() && !line.startsWith('-}') && line.trim() !== '-') {
+      fields[fields.length - 1].value += ` ${line.trim()}`;
+    }
+  }
+
+  let rowNumber = 0;
+  for (let i = 0; i < fields.length; i++) {
+    if (fields[i].tag !== '61') continue;
+    rowNumber++;
+
+    // :61:YYMMDD[MMDD](C|D|RC|RD)[funds code]amount N<type><reference>[//bank reference]
+    const match = /^(\d{2})(\d{2})(\d{2})(\d{4})?(RC|RD|C|D)[A-Z]?(\d+,\d*)(.*)$/.exec(fields[i].value.trim());
+    if (!match) {
+      result.errors.push({ rowNumber, message: `Invalid statement line "${fields[i].value}"` });
+      continue;
+    }
+
+    const [, year, month, day, , mark, rawAmount, rest] = match;
+    const amount = parseFloat(rawAmount.replace(',', '.'));
+    if (!amount) continue;
+
+    // Reversals flip the direction: RC reverses a credit, RD reverses a debit
+    const isCredit = mark === 'C' || mark === 'RD';
+    const information = fields[i + 1]?.tag === '86' ? fields[i + 1].value : '';
+    const reference = rest.split('//')[1]?.trim() || rest.replace(/^N[A-Z0-9]{3}/, '').trim() || undefined;
+
+    result.rows.push({
+      rowNumber,
+      date: toStatementTimestamp(2000 + parseInt(year), parseInt(month), parseInt(day)),
+      amount,
+      type: isCredit ? 'income' : 'expense',
+      description: cleanMt940Information(information) || reference || 'Imported transaction',
+      reference,
+    });
+  }
+
+  return result;
+}
+
+// Structured :86: fields look like "?20PAYMENT?21REF" - keep the readable parts only
+function cleanMt940Information(information: string): string {
+  return information
+    .split(/\?\d{2}/)
+    .map(part => part.trim())
+    .filter(Boolean)
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function parseStatementDate(value: string | undefined, format: StatementDateFormat): number {
+  const raw = (value || '').trim().split(/[ T]/)[0];
+  const parts = raw.split(/[-/.]/).map(part => parseInt(part, 10));
+
+  if (parts.length !== 3 || parts.some(isNaN)) {
+    throw new Error(`Invalid date "${value || ''}"`);
+  }
+
+  let year: number, month: number, day: number;
+  switch (format) {
+    case 'YYYY-MM-DD':
+      [year, month, day] = parts;
+      break;
+    case 'MM/DD/YYYY':
+      [month, day, year] = parts;
+      break;
+    default:
+      [day, month, year] = parts;
+  }
+
+  if (year < 100) year += 2000;
+  if (month < 1 || month > 12 || day < 1 || day > 31) {
+    throw new Error(`Invalid date "${value}" for format ${format}`);
+  }
+
+  return toStatementTimestamp(year, month, day);
+}
+
+/**
+ * Parse amounts like "-1,234.56", "1.234,56", "(45.00)", "Rp 50.000" or "150,000.00 DB"
+ */
+function parseStatementAmount(value: string | undefined, decimalSeparator: '.' | ','): number {
+  let raw = (value || '').trim().toUpperCase();
+  if (!raw) {
+    throw new Error('Missing amount');
+  }
+
+  let negative = false;
+  if (/^\(.*\)$/.test(raw)) {
+    negative = true;
+    raw = raw.slice(1, -1);
+  }
+  // Debit / credit suffixes, but not currency codes such as IDR
+  if (/(^|[\s\d])(DB|DR)$/.test(raw)) {
+    negative = true;
+    raw = raw.slice(0, -2);
+  } else if (/(^|[\s\d])CR$/.test(raw)) {
+    raw = raw.slice(0, -2);
+  }
+  if (raw.includes('-')) {
+    negative = true;
+  }
+
+  const thousandsSeparator = decimalSeparator === '.' ? ',' : '.';
+  const digits = raw
+    .replace(/[^0-9.,]/g, '')
+    .split(thousandsSeparator).join('')
+    .replace(decimalSeparator, '.');
+
+  const amount = parseFloat(digits);
+  if (isNaN(amount)) {
+    throw new Error(`Invalid amount "${value}"`);
+  }
+
+  return negative ? -amount : amount;
+}
+
+// Statements only carry a calendar date - store it at midday so it shows on the same day in every timezone
+function toStatementTimestamp(year: number, month: number, day: number): number {
+  return Math.floor(Date.UTC(year, month - 1, day, 12) / 1000);
+}
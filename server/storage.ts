@@ -1,35 +1,96 @@
 import {
   users,
+  sessions,
+  passwordResetTokens,
+  twoFactorSettings,
+  twoFactorRecoveryCodes,
+  twoFactorChallenges,
   userPreferences,
   categories,
+  accounts,
   transactions,
+  transactionSplits,
+  recurringTransactions,
+  importBatches,
+  importMappings,
+  categorizationRules,
   budgets,
+  budgetAlerts,
+  spendingLimitBreaches,
   goals,
   goalBoosts,
   goalSavingsPlans,
-  whatsappIntegrations,
+  messagingIntegrations,
+  whatsappActivationCodes,
   notificationLogs,
   type User,
   type UpsertUser,
+  type Session,
+  type InsertSession,
+  type PasswordResetToken,
+  type InsertPasswordResetToken,
+  type PasswordResetChannel,
+  type TwoFactorSettings,
+  type InsertTwoFactorSettings,
+  type InsertTwoFactorChallenge,
+  type TwoFactorChallenge,
   type UserPreferences,
   type InsertUserPreferences,
   type UpdateUserPreferences,
   type Category,
   type InsertCategory,
+  type Account,
+  type InsertAccount,
+  type AccountWithBalance,
   type Transaction,
   type TransactionWithCategory,
+  type TransactionFilters,
+  type TransactionPage,
+  type TransactionAllocation,
   type InsertTransaction,
+  type TransactionSplitWithCategory,
+  type InsertTransactionSplit,
+  type RecurringTransaction,
+  type RecurringTransactionWithCategory,
+  type InsertRecurringTransaction,
+  type ImportBatch,
+  type InsertImportBatch,
+  type ImportMapping,
+  type InsertImportMapping,
+  type CategorizationRule,
+  type CategorizationRuleWithCategory,
+  type InsertCategorizationRule,
   type Budget,
   type BudgetWithCategory,
   type InsertBudget,
+  type InsertBudgetAlert,
+  type SpendingLimitBreach,
+  type InsertSpendingLimitBreach,
   type Goal,
   type InsertGoal,
-  type WhatsappIntegration,
+  type MessagingIntegration,
+  type MessagingChannel,
   type NotificationLog,
   type InsertNotificationLog,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, desc, sum, gte, lte, sql } from "drizzle-orm";
+import { eq, ne, and, or, asc, desc, sum, gte, lt, lte, inArray, isNull, isNotNull, exists, sql, type SQL } from "drizzle-orm";
+
+// Told the user whose transactions were just created or changed, whatever wrote them (web, chat,
+// import, recurring run). Listeners must not throw and should not hold up the write.
+export type TransactionWriteListener = (userId: string) => void;
+
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// A goal boost with its lookups done, ready to be written in one transaction
+interface GoalBoostWrite {
+  goal: Goal;
+  amount: number;
+  description?: string;
+  categoryId: number;
+  accountId: number;
+  currency: string;
+}
 
 export interface IStorage {
   // User operations (IMPORTANT: mandatory for Replit Auth)
@@ -41,6 +102,46 @@ export interface IStorage {
   getUserByEmail(email: string): Promise<User | undefined>;
   createDemoUser(userData: { email: string; name: string; password: string }): Promise<User>;
 
+  // Account deletion
+  getUsersDueForDeletion(now: number): Promise<User[]>;
+  purgeUser(userId: string): Promise<void>;
+
+  // Sign-in session operations
+  createSession(session: InsertSession): Promise<Session>;
+  getSessionById(id: string): Promise<Session | undefined>;
+  getSessionByRefreshTokenHash(refreshTokenHash: string): Promise<Session | undefined>;
+  getActiveSessions(userId: string): Promise<Session[]>;
+  rotateSessionRefreshToken(id: string, currentHash: string, session: Partial<InsertSession>): Promise<Session | undefined>;
+  touchSession(id: string, ipAddress: string | null): Promise<void>;
+  revokeSession(id: string, userId: string): Promise<boolean>;
+  revokeUserSessions(userId: string, exceptId?: string): Promise<number>;
+  deleteStaleSessions(userId: string): Promise<void>;
+
+  // Password reset operations
+  createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken>;
+  getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined>;
+  getActivePasswordResetToken(userId: string, channel: PasswordResetChannel): Promise<PasswordResetToken | undefined>;
+  countPasswordResetTokensSince(userId: string, since: number): Promise<number>;
+  recordPasswordResetAttempt(id: number): Promise<number>;
+  consumePasswordResetToken(id: number): Promise<boolean>;
+  invalidatePasswordResetTokens(userId: string): Promise<void>;
+
+  // Two-factor authentication operations
+  getTwoFactorSettings(userId: string): Promise<TwoFactorSettings | undefined>;
+  saveTwoFactorSettings(userId: string, settings: Partial<InsertTwoFactorSettings>): Promise<TwoFactorSettings>;
+  claimTotpStep(userId: string, step: number): Promise<boolean>;
+  replaceRecoveryCodes(userId: string, codeHashes: string[]): Promise<void>;
+  useRecoveryCode(userId: string, codeHash: string): Promise<boolean>;
+  countUnusedRecoveryCodes(userId: string): Promise<number>;
+  deleteRecoveryCodes(userId: string): Promise<void>;
+  createTwoFactorChallenge(challenge: InsertTwoFactorChallenge): Promise<TwoFactorChallenge>;
+  getTwoFactorChallengeByTokenHash(tokenHash: string): Promise<TwoFactorChallenge | undefined>;
+  getActiveVerifyChallenge(userId: string): Promise<TwoFactorChallenge | undefined>;
+  countTwoFactorCodesSince(userId: string, since: number): Promise<number>;
+  recordTwoFactorChallengeAttempt(id: number): Promise<number>;
+  consumeTwoFactorChallenge(id: number): Promise<boolean>;
+  invalidateTwoFactorChallenges(userId: string, purpose?: TwoFactorChallenge['purpose']): Promise<void>;
+
   // User preferences operations
   getUserPreferences(userId: string): Promise<UserPreferences | undefined>;
   createUserPreferences(preferences: InsertUserPreferences): Promise<UserPreferences>;
@@ -51,50 +152,128 @@ export interface IStorage {
   getCategories(userId: string): Promise<Category[]>;
   createCategory(category: InsertCategory): Promise<Category>;
   getCategoryById(id: number, userId: string): Promise<Category | undefined>;
-  updateCategory(id: number, category: Partial<InsertCategory>): Promise<Category>;
+  updateCategory(id: number, userId: string, category: Partial<InsertCategory>): Promise<Category>;
   deleteCategory(id: number, userId: string): Promise<void>;
   initializeDefaultCategories(userId: string): Promise<void>;
 
+  // Account operations
+  getAccounts(userId: string): Promise<Account[]>;
+  getAccountById(id: number, userId: string): Promise<Account | undefined>;
+  createAccount(account: InsertAccount): Promise<Account>;
+  updateAccount(id: number, userId: string, account: Partial<InsertAccount>): Promise<Account>;
+  deleteAccount(id: number, userId: string): Promise<void>;
+  getOrCreateDefaultAccount(userId: string): Promise<Account>;
+  getAccountBalances(userId: string): Promise<AccountWithBalance[]>;
+  countAccountTransactions(accountId: number, userId: string): Promise<number>;
+  countAccountRecurringTransactions(accountId: number, userId: string): Promise<number>;
+  countAccountImportBatches(accountId: number, userId: string): Promise<number>;
+  createTransfer(userId: string, transfer: {
+    fromAccountId: number;
+    toAccountId: number;
+    amount: number;
+    description?: string;
+    date?: number;
+  }): Promise<Transaction>;
+
+  // Recurring transaction operations
+  getRecurringTransactions(userId: string): Promise<RecurringTransactionWithCategory[]>;
+  getRecurringTransactionById(id: number, userId: string): Promise<RecurringTransaction | undefined>;
+  createRecurringTransaction(recurring: InsertRecurringTransaction): Promise<RecurringTransaction>;
+  updateRecurringTransaction(id: number, userId: string, recurring: Partial<InsertRecurringTransaction>): Promise<RecurringTransaction>;
+  deleteRecurringTransaction(id: number, userId: string): Promise<void>;
+  getDueRecurringTransactions(asOf: number): Promise<RecurringTransaction[]>;
+  materializeRecurringTransaction(recurring: RecurringTransaction): Promise<{ transaction: Transaction; recurring: RecurringTransaction } | null>;
+  getUpcomingRecurringTransactions(userId: string, days: number): Promise<Array<RecurringTransactionWithCategory & { dueDate: number }>>;
+
+  // Statement import operations
+  getImportBatches(userId: string): Promise<ImportBatch[]>;
+  getImportBatchById(id: number, userId: string): Promise<ImportBatch | undefined>;
+  createImportBatch(batch: InsertImportBatch, rows: InsertTransaction[]): Promise<ImportBatch>;
+  rollbackImportBatch(id: number, userId: string): Promise<ImportBatch>;
+  findDuplicateTransactions(
+    userId: string,
+    candidates: Array<{ date: number; amount: number; type: string }>
+  ): Promise<Array<number | null>>;
+  getCategoriesByDescription(userId: string, descriptions: string[]): Promise<Map<string, number>>;
+  getImportMappings(userId: string): Promise<ImportMapping[]>;
+  getImportMappingById(id: number, userId: string): Promise<ImportMapping | undefined>;
+  createImportMapping(mapping: InsertImportMapping): Promise<ImportMapping>;
+  updateImportMapping(id: number, userId: string, mapping: Partial<InsertImportMapping>): Promise<ImportMapping>;
+  deleteImportMapping(id: number, userId: string): Promise<void>;
+
+  // Categorization rule operations
+  getCategorizationRules(userId: string): Promise<CategorizationRuleWithCategory[]>;
+  getCategorizationRuleById(id: number, userId: string): Promise<CategorizationRule | undefined>;
+  findCategorizationRule(userId: string, pattern: string, matchType: CategorizationRule["matchType"]): Promise<CategorizationRule | undefined>;
+  createCategorizationRule(rule: InsertCategorizationRule): Promise<CategorizationRule>;
+  updateCategorizationRule(id: number, userId: string, rule: Partial<InsertCategorizationRule>): Promise<CategorizationRule>;
+  deleteCategorizationRule(id: number, userId: string): Promise<void>;
+  recordCategorizationRuleMatch(id: number, userId: string): Promise<void>;
+
   // Transaction operations
   getTransactions(userId: string, limit?: number): Promise<TransactionWithCategory[]>;
+  queryTransactions(userId: string, filters: TransactionFilters): Promise<TransactionPage>;
+  getTransactionAllocations(userId: string, filters: TransactionFilters): Promise<TransactionAllocation[]>;
   getTransactionsByDateRange(
     userId: string,
     startDate: Date,
     endDate: Date
   ): Promise<TransactionWithCategory[]>;
   getTransactionsByCategory(categoryId: number, userId: string): Promise<TransactionWithCategory[]>;
+  countCategorySplits(categoryId: number, userId: string): Promise<number>;
+  countCategoryRecurringTransactions(categoryId: number, userId: string): Promise<number>;
   createTransaction(transaction: InsertTransaction): Promise<Transaction>;
-  updateTransaction(id: number, transaction: Partial<InsertTransaction>): Promise<Transaction>;
-  deleteTransaction(id: number): Promise<void>;
-  getTransactionById(id: number): Promise<TransactionWithCategory | undefined>;
+  createTransactions(transactions: InsertTransaction[]): Promise<Transaction[]>;
+  updateTransaction(id: number, userId: string, transaction: Partial<InsertTransaction>): Promise<Transaction>;
+  deleteTransaction(id: number, userId: string): Promise<void>;
+  getTransactionById(id: number, userId: string): Promise<TransactionWithCategory | undefined>;
+  getTransactionSplits(transactionId: number, userId: string): Promise<TransactionSplitWithCategory[]>;
+  setTransactionSplits(
+    transactionId: number,
+    userId: string,
+    splits: Array<Omit<InsertTransactionSplit, "transactionId">>
+  ): Promise<TransactionSplitWithCategory[]>;
+  onTransactionsWritten(listener: TransactionWriteListener): void;
 
   // Budget operations
   getBudgets(userId: string): Promise<BudgetWithCategory[]>;
   createBudget(budget: InsertBudget): Promise<Budget>;
-  updateBudget(id: number, budget: Partial<InsertBudget>): Promise<Budget>;
-  deleteBudget(id: number): Promise<void>;
-  getBudgetById(id: number): Promise<BudgetWithCategory | undefined>;
+  updateBudget(id: number, userId: string, budget: Partial<InsertBudget>): Promise<Budget>;
+  deleteBudget(id: number, userId: string): Promise<void>;
+  getBudgetById(id: number, userId: string): Promise<BudgetWithCategory | undefined>;
   createOrUpdateBudget(budgetData: any): Promise<Budget>;
   getUserBudgets(userId: string): Promise<Budget[]>;
   getBudgetByCategory(userId: string, categoryId: number): Promise<Budget | undefined>;
   getSpentInPeriod(userId: string, categoryId: number, startDate: number, endDate: number): Promise<number>;
+  claimBudgetAlert(alert: InsertBudgetAlert): Promise<boolean>;
+  releaseBudgetAlerts(alerts: InsertBudgetAlert[]): Promise<void>;
+  createSpendingLimitBreaches(breaches: InsertSpendingLimitBreach[]): Promise<SpendingLimitBreach[]>;
+  getSpendingLimitBreaches(userId: string, since?: number): Promise<SpendingLimitBreach[]>;
 
   // Goal operations
   getGoals(userId: string): Promise<Goal[]>;
   createGoal(goal: InsertGoal): Promise<Goal>;
-  updateGoal(id: number, goal: Partial<InsertGoal>): Promise<Goal>;
-  deleteGoal(id: number): Promise<void>;
-  getGoalById(id: number): Promise<Goal | undefined>;
+  updateGoal(id: number, userId: string, goal: Partial<InsertGoal>): Promise<Goal>;
+  deleteGoal(id: number, userId: string): Promise<void>;
+  getGoalById(id: number, userId: string): Promise<Goal | undefined>;
   
   // Goal boost operations
   createGoalBoost(goalId: number, userId: string, amount: number, description?: string): Promise<any>;
-  getGoalBoosts(goalId: number): Promise<any[]>;
+  getGoalBoosts(goalId: number, userId: string): Promise<any[]>;
   
   // Goal savings plan operations
   createGoalSavingsPlan(goalId: number, userId: string, amount: number, frequency: string): Promise<any>;
-  updateGoalSavingsPlan(id: number, updates: any): Promise<any>;
+  updateGoalSavingsPlan(id: number, userId: string, updates: any): Promise<any>;
   getActiveGoalSavingsPlans(userId: string): Promise<any[]>;
-  getGoalSavingsPlansByGoalId(goalId: number): Promise<any[]>;
+  getGoalSavingsPlansByGoalId(goalId: number, userId: string): Promise<any[]>;
+  getDueGoalSavingsPlans(asOf: number): Promise<any[]>;
+  advanceGoalSavingsPlan(
+    id: number,
+    userId: string,
+    dueDate: number,
+    status: "contributed" | "skipped_insufficient_balance",
+    contribution?: { goal: Goal; amount: number; description?: string }
+  ): Promise<any>;
 
   // Analytics operations
   getMonthlyExpenses(userId: string, months: number): Promise<any[]>;
@@ -106,7 +285,7 @@ export interface IStorage {
   // Transaction reminder operations
   getUsersWithTransactionReminders(): Promise<User[]>;
   getUserTransactionsInDateRange(userId: string, startTimestamp: number, endTimestamp: number): Promise<Transaction[]>;
-  getUserWhatsAppIntegrations(userId: string): Promise<any[]>;
+  getUserMessagingIntegrations(userId: string, channel?: MessagingChannel): Promise<MessagingIntegration[]>;
   createNotificationLog(log: any): Promise<any>;
   getNotificationLogs(userId: string, limit?: number): Promise<NotificationLog[]>;
 
@@ -141,6 +320,7 @@ export interface IStorage {
     projectedBalance: number;
     burnRate: number; // days until balance reaches zero
     cashFlowTrend: Array<{ date: string; amount: number; weekStart: string; weekEnd: string }>;
+    accounts: AccountWithBalance[];
   }>;
 
   // Comprehensive Dashboard Analytics - all calculations done in backend
@@ -176,12 +356,22 @@ export interface IStorage {
       investmentChange: string;
     };
     investmentGrowth: string;
+
+    // Per-account balances
+    accounts: AccountWithBalance[];
   }>;
 
 }
 
 export class DatabaseStorage implements IStorage {
-  // Utility functions for handling mixed timestamp formats
+  private transactionWriteListeners: TransactionWriteListener[] = [];
+
+  // With transaction_splits LEFT JOINed, a split transaction yields one row per part and an unsplit
+  // one yields itself - these pick the part's category/amount when there is one
+  private readonly allocatedCategoryId = sql<number>`COALESCE(${transactionSplits.categoryId}, ${transactions.categoryId})`;
+  private readonly allocatedAmount = sql<number>`COALESCE(${transactionSplits.amount}, ${transactions.amount})`;
+
+  // Transaction dates are stored in Unix seconds - convert millisecond input before writing
   private normalizeTimestamp(timestamp: number): number {
     // If timestamp has more than 10 digits, it's in milliseconds, convert to seconds
     // Unix seconds: ~10 digits (e.g., 1751328000)
@@ -192,9 +382,30 @@ export class DatabaseStorage implements IStorage {
     return timestamp;
   }
 
-  private isDateInRange(timestamp: number, startSeconds: number, endSeconds: number): boolean {
-    const normalizedTimestamp = this.normalizeTimestamp(timestamp);
-    return normalizedTimestamp >= startSeconds && normalizedTimestamp <= endSeconds;
+  // Sum income and expenses within a date range (Unix seconds, inclusive) in a single aggregate query
+  private async getTransactionTotalsInRange(
+    userId: string,
+    startSeconds: number,
+    endSeconds: number
+  ): Promise<{ income: number; expense: number }> {
+    const [result] = await db
+      .select({
+        income: sql<number>`COALESCE(SUM(CASE WHEN ${transactions.type} = 'income' THEN ${transactions.amount} ELSE 0 END), 0)`,
+        expense: sql<number>`COALESCE(SUM(CASE WHEN ${transactions.type} = 'expense' THEN ${transactions.amount} ELSE 0 END), 0)`,
+      })
+      .from(transactions)
+      .where(
+        and(
+          eq(transactions.userId, userId),
+          gte(transactions.date, startSeconds),
+          lte(transactions.date, endSeconds)
+        )
+      );
+
+    return {
+      income: Number(result?.income || 0),
+      expense: Number(result?.expense || 0),
+    };
   }
 
   // User operations (IMPORTANT: mandatory for Replit Auth)
@@ -251,6 +462,350 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  // Account deletion
+  async getUsersDueForDeletion(now: number): Promise<User[]> {
+    return await db
+      .select()
+      .from(users)
+      .where(and(isNotNull(users.deletionScheduledAt), lte(users.deletionScheduledAt, now)));
+  }
+
+  /**
+   * Delete the user and everything they own in one transaction - all of it or, on any error,
+   * none of it. Children go before the rows they reference.
+   */
+  async purgeUser(userId: string): Promise<void> {
+    db.transaction((tx) => {
+      const userTransactionIds = tx.select({ id: transactions.id }).from(transactions).where(eq(transactions.userId, userId));
+
+      tx.delete(transactionSplits).where(inArray(transactionSplits.transactionId, userTransactionIds)).run();
+      tx.delete(spendingLimitBreaches).where(eq(spendingLimitBreaches.userId, userId)).run();
+      tx.delete(budgetAlerts).where(eq(budgetAlerts.userId, userId)).run();
+      tx.delete(goalBoosts).where(eq(goalBoosts.userId, userId)).run();
+      tx.delete(goalSavingsPlans).where(eq(goalSavingsPlans.userId, userId)).run();
+      tx.delete(transactions).where(eq(transactions.userId, userId)).run();
+      tx.delete(budgets).where(eq(budgets.userId, userId)).run();
+      tx.delete(goals).where(eq(goals.userId, userId)).run();
+      tx.delete(recurringTransactions).where(eq(recurringTransactions.userId, userId)).run();
+      tx.delete(importBatches).where(eq(importBatches.userId, userId)).run();
+      tx.delete(importMappings).where(eq(importMappings.userId, userId)).run();
+      tx.delete(categorizationRules).where(eq(categorizationRules.userId, userId)).run();
+      tx.delete(categories).where(eq(categories.userId, userId)).run();
+      tx.delete(accounts).where(eq(accounts.userId, userId)).run();
+      tx.delete(messagingIntegrations).where(eq(messagingIntegrations.userId, userId)).run();
+      tx.delete(whatsappActivationCodes).where(eq(whatsappActivationCodes.userId, userId)).run();
+      tx.delete(notificationLogs).where(eq(notificationLogs.userId, userId)).run();
+      tx.delete(userPreferences).where(eq(userPreferences.userId, userId)).run();
+      tx.delete(sessions).where(eq(sessions.userId, userId)).run();
+      tx.delete(passwordResetTokens).where(eq(passwordResetTokens.userId, userId)).run();
+      tx.delete(twoFactorChallenges).where(eq(twoFactorChallenges.userId, userId)).run();
+      tx.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId)).run();
+      tx.delete(twoFactorSettings).where(eq(twoFactorSettings.userId, userId)).run();
+      // The profile image is stored on the user row
+      tx.delete(users).where(eq(users.id, userId)).run();
+    });
+  }
+
+  // Sign-in session operations
+  async createSession(session: InsertSession): Promise<Session> {
+    const [newSession] = await db
+      .insert(sessions)
+      .values({ ...session, createdAt: Math.floor(Date.now() / 1000) })
+      .returning();
+    return newSession;
+  }
+
+  async getSessionById(id: string): Promise<Session | undefined> {
+    const [session] = await db.select().from(sessions).where(eq(sessions.id, id));
+    return session;
+  }
+
+  async getSessionByRefreshTokenHash(refreshTokenHash: string): Promise<Session | undefined> {
+    const [session] = await db.select().from(sessions).where(eq(sessions.refreshTokenHash, refreshTokenHash));
+    return session;
+  }
+
+  async getActiveSessions(userId: string): Promise<Session[]> {
+    return await db
+      .select()
+      .from(sessions)
+      .where(and(
+        eq(sessions.userId, userId),
+        isNull(sessions.revokedAt),
+        gte(sessions.expiresAt, Math.floor(Date.now() / 1000))
+      ))
+      .orderBy(desc(sessions.lastUsedAt));
+  }
+
+  /**
+   * Swap the session's refresh token, only if it still holds currentHash - of two refreshes with the
+   * same token, one wins
+   */
+  async rotateSessionRefreshToken(id: string, currentHash: string, session: Partial<InsertSession>): Promise<Session | undefined> {
+    const [rotated] = await db
+      .update(sessions)
+      .set(session)
+      .where(and(
+        eq(sessions.id, id),
+        eq(sessions.refreshTokenHash, currentHash),
+        isNull(sessions.revokedAt)
+      ))
+      .returning();
+    return rotated;
+  }
+
+  async touchSession(id: string, ipAddress: string | null): Promise<void> {
+    await db
+      .update(sessions)
+      .set({ lastUsedAt: Math.floor(Date.now() / 1000), ipAddress })
+      .where(eq(sessions.id, id));
+  }
+
+  async revokeSession(id: string, userId: string): Promise<boolean> {
+    const revoked = await db
+      .update(sessions)
+      .set({ revokedAt: Math.floor(Date.now() / 1000) })
+      .where(and(eq(sessions.id, id), eq(sessions.userId, userId), isNull(sessions.revokedAt)))
+      .returning({ id: sessions.id });
+    return revoked.length > 0;
+  }
+
+  async revokeUserSessions(userId: string, exceptId?: string): Promise<number> {
+    const conditions = [eq(sessions.userId, userId), isNull(sessions.revokedAt)];
+    if (exceptId) {
+      conditions.push(ne(sessions.id, exceptId));
+    }
+
+    const revoked = await db
+      .update(sessions)
+      .set({ revokedAt: Math.floor(Date.now() / 1000) })
+      .where(and(...conditions))
+      .returning({ id: sessions.id });
+    return revoked.length;
+  }
+
+  async deleteStaleSessions(userId: string): Promise<void> {
+    await db
+      .delete(sessions)
+      .where(and(
+        eq(sessions.userId, userId),
+        or(isNotNull(sessions.revokedAt), lt(sessions.expiresAt, Math.floor(Date.now() / 1000)))
+      ));
+  }
+
+  // Password reset operations
+  async createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken> {
+    const [newToken] = await db
+      .insert(passwordResetTokens)
+      .values({ ...token, createdAt: Math.floor(Date.now() / 1000) })
+      .returning();
+    return newToken;
+  }
+
+  async getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    const [token] = await db.select().from(passwordResetTokens).where(eq(passwordResetTokens.tokenHash, tokenHash));
+    return token;
+  }
+
+  async getActivePasswordResetToken(userId: string, channel: PasswordResetChannel): Promise<PasswordResetToken | undefined> {
+    const [token] = await db
+      .select()
+      .from(passwordResetTokens)
+      .where(and(
+        eq(passwordResetTokens.userId, userId),
+        eq(passwordResetTokens.channel, channel),
+        isNull(passwordResetTokens.usedAt),
+        gte(passwordResetTokens.expiresAt, Math.floor(Date.now() / 1000))
+      ))
+      .orderBy(desc(passwordResetTokens.createdAt))
+      .limit(1);
+    return token;
+  }
+
+  async countPasswordResetTokensSince(userId: string, since: number): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)` })
+      .from(passwordResetTokens)
+      .where(and(eq(passwordResetTokens.userId, userId), gte(passwordResetTokens.createdAt, since)));
+    return Number(result?.count || 0);
+  }
+
+  async recordPasswordResetAttempt(id: number): Promise<number> {
+    const [token] = await db
+      .update(passwordResetTokens)
+      .set({ attempts: sql`${passwordResetTokens.attempts} + 1` })
+      .where(eq(passwordResetTokens.id, id))
+      .returning({ attempts: passwordResetTokens.attempts });
+    return token?.attempts ?? 0;
+  }
+
+  /**
+   * Mark the token used, only if nothing used it first
+   */
+  async consumePasswordResetToken(id: number): Promise<boolean> {
+    const consumed = await db
+      .update(passwordResetTokens)
+      .set({ usedAt: Math.floor(Date.now() / 1000) })
+      .where(and(eq(passwordResetTokens.id, id), isNull(passwordResetTokens.usedAt)))
+      .returning({ id: passwordResetTokens.id });
+    return consumed.length > 0;
+  }
+
+  async invalidatePasswordResetTokens(userId: string): Promise<void> {
+    await db
+      .update(passwordResetTokens)
+      .set({ usedAt: Math.floor(Date.now() / 1000) })
+      .where(and(eq(passwordResetTokens.userId, userId), isNull(passwordResetTokens.usedAt)));
+  }
+
+  // Two-factor authentication operations
+  async getTwoFactorSettings(userId: string): Promise<TwoFactorSettings | undefined> {
+    const [settings] = await db.select().from(twoFactorSettings).where(eq(twoFactorSettings.userId, userId));
+    return settings;
+  }
+
+  async saveTwoFactorSettings(userId: string, settings: Partial<InsertTwoFactorSettings>): Promise<TwoFactorSettings> {
+    const now = Math.floor(Date.now() / 1000);
+    const [saved] = await db
+      .insert(twoFactorSettings)
+      .values({ ...settings, userId, createdAt: now, updatedAt: now })
+      .onConflictDoUpdate({
+        target: twoFactorSettings.userId,
+        set: { ...settings, updatedAt: now },
+      })
+      .returning();
+    return saved;
+  }
+
+  /**
+   * Record a TOTP code's time step as used, only if it's later than the last one used
+   */
+  async claimTotpStep(userId: string, step: number): Promise<boolean> {
+    const claimed = await db
+      .update(twoFactorSettings)
+      .set({ totpLastStep: step })
+      .where(and(
+        eq(twoFactorSettings.userId, userId),
+        or(isNull(twoFactorSettings.totpLastStep), lt(twoFactorSettings.totpLastStep, step))
+      ))
+      .returning({ id: twoFactorSettings.id });
+    return claimed.length > 0;
+  }
+
+  async replaceRecoveryCodes(userId: string, codeHashes: string[]): Promise<void> {
+    const now = Math.floor(Date.now() / 1000);
+    db.transaction((tx) => {
+      tx.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId)).run();
+      tx.insert(twoFactorRecoveryCodes)
+        .values(codeHashes.map(codeHash => ({ userId, codeHash, createdAt: now })))
+        .run();
+    });
+  }
+
+  /**
+   * Mark an unused recovery code used
+   * @returns false when the user has no such unused code
+   */
+  async useRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+    const used = await db
+      .update(twoFactorRecoveryCodes)
+      .set({ usedAt: Math.floor(Date.now() / 1000) })
+      .where(and(
+        eq(twoFactorRecoveryCodes.userId, userId),
+        eq(twoFactorRecoveryCodes.codeHash, codeHash),
+        isNull(twoFactorRecoveryCodes.usedAt)
+      ))
+      .returning({ id: twoFactorRecoveryCodes.id });
+    return used.length > 0;
+  }
+
+  async countUnusedRecoveryCodes(userId: string): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)` })
+      .from(twoFactorRecoveryCodes)
+      .where(and(eq(twoFactorRecoveryCodes.userId, userId), isNull(twoFactorRecoveryCodes.usedAt)));
+    return Number(result?.count || 0);
+  }
+
+  async deleteRecoveryCodes(userId: string): Promise<void> {
+    await db.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId));
+  }
+
+  async createTwoFactorChallenge(challenge: InsertTwoFactorChallenge): Promise<TwoFactorChallenge> {
+    const [newChallenge] = await db
+      .insert(twoFactorChallenges)
+      .values({ ...challenge, createdAt: Math.floor(Date.now() / 1000) })
+      .returning();
+    return newChallenge;
+  }
+
+  async getTwoFactorChallengeByTokenHash(tokenHash: string): Promise<TwoFactorChallenge | undefined> {
+    const [challenge] = await db.select().from(twoFactorChallenges).where(eq(twoFactorChallenges.tokenHash, tokenHash));
+    return challenge;
+  }
+
+  async getActiveVerifyChallenge(userId: string): Promise<TwoFactorChallenge | undefined> {
+    const [challenge] = await db
+      .select()
+      .from(twoFactorChallenges)
+      .where(and(
+        eq(twoFactorChallenges.userId, userId),
+        eq(twoFactorChallenges.purpose, 'verify'),
+        isNull(twoFactorChallenges.usedAt),
+        gte(twoFactorChallenges.expiresAt, Math.floor(Date.now() / 1000))
+      ))
+      .orderBy(desc(twoFactorChallenges.createdAt))
+      .limit(1);
+    return challenge;
+  }
+
+  /**
+   * Challenges created since the given time that came with a WhatsApp code
+   */
+  async countTwoFactorCodesSince(userId: string, since: number): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)` })
+      .from(twoFactorChallenges)
+      .where(and(
+        eq(twoFactorChallenges.userId, userId),
+        isNotNull(twoFactorChallenges.codeHash),
+        gte(twoFactorChallenges.createdAt, since)
+      ));
+    return Number(result?.count || 0);
+  }
+
+  async recordTwoFactorChallengeAttempt(id: number): Promise<number> {
+    const [challenge] = await db
+      .update(twoFactorChallenges)
+      .set({ attempts: sql`${twoFactorChallenges.attempts} + 1` })
+      .where(eq(twoFactorChallenges.id, id))
+      .returning({ attempts: twoFactorChallenges.attempts });
+    return challenge?.attempts ?? 0;
+  }
+
+  /**
+   * Mark the challenge used, only if nothing used it first
+   */
+  async consumeTwoFactorChallenge(id: number): Promise<boolean> {
+    const consumed = await db
+      .update(twoFactorChallenges)
+      .set({ usedAt: Math.floor(Date.now() / 1000) })
+      .where(and(eq(twoFactorChallenges.id, id), isNull(twoFactorChallenges.usedAt)))
+      .returning({ id: twoFactorChallenges.id });
+    return consumed.length > 0;
+  }
+
+  async invalidateTwoFactorChallenges(userId: string, purpose?: TwoFactorChallenge['purpose']): Promise<void> {
+    await db
+      .update(twoFactorChallenges)
+      .set({ usedAt: Math.floor(Date.now() / 1000) })
+      .where(and(
+        eq(twoFactorChallenges.userId, userId),
+        isNull(twoFactorChallenges.usedAt),
+        purpose ? eq(twoFactorChallenges.purpose, purpose) : undefined
+      ));
+  }
+
   // User preferences operations
   async getUserPreferences(userId: string): Promise<UserPreferences | undefined> {
     const [preferences] = await db
@@ -310,11 +865,11 @@ export class DatabaseStorage implements IStorage {
     return newCategory;
   }
 
-  async updateCategory(id: number, category: Partial<InsertCategory>): Promise<Category> {
+  async updateCategory(id: number, userId: string, category: Partial<InsertCategory>): Promise<Category> {
     const [updatedCategory] = await db
       .update(categories)
       .set(category)
-      .where(eq(categories.id, id))
+      .where(and(eq(categories.id, id), eq(categories.userId, userId)))
       .returning();
     return updatedCategory;
   }
@@ -328,6 +883,10 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteCategory(id: number, userId: string): Promise<void> {
+    // Rules pointing at the category would otherwise keep assigning it
+    await db
+      .delete(categorizationRules)
+      .where(and(eq(categorizationRules.categoryId, id), eq(categorizationRules.userId, userId)));
     await db
       .delete(categories)
       .where(and(eq(categories.id, id), eq(categories.userId, userId)));
@@ -357,6 +916,242 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // Account operations
+  async getAccounts(userId: string): Promise<Account[]> {
+    return await db
+      .select()
+      .from(accounts)
+      .where(eq(accounts.userId, userId))
+      .orderBy(desc(accounts.isDefault), accounts.name);
+  }
+
+  async getAccountById(id: number, userId: string): Promise<Account | undefined> {
+    const [account] = await db
+      .select()
+      .from(accounts)
+      .where(and(eq(accounts.id, id), eq(accounts.userId, userId)));
+    return account;
+  }
+
+  async createAccount(account: InsertAccount): Promise<Account> {
+    const now = Math.floor(Date.now() / 1000);
+
+    // Only one default account per user
+    if (account.isDefault) {
+      await db
+        .update(accounts)
+        .set({ isDefault: false, updatedAt: now })
+        .where(eq(accounts.userId, account.userId));
+    }
+
+    const [newAccount] = await db
+      .insert(accounts)
+      .values({ ...account, createdAt: now, updatedAt: now })
+      .returning();
+    return newAccount;
+  }
+
+  async updateAccount(id: number, userId: string, account: Partial<InsertAccount>): Promise<Account> {
+    const now = Math.floor(Date.now() / 1000);
+
+    if (account.isDefault) {
+      const existing = await this.getAccountById(id, userId);
+      if (existing) {
+        await db
+          .update(accounts)
+          .set({ isDefault: false, updatedAt: now })
+          .where(eq(accounts.userId, userId));
+      }
+    }
+
+    const [updatedAccount] = await db
+      .update(accounts)
+      .set({ ...account, updatedAt: now })
+      .where(and(eq(accounts.id, id), eq(accounts.userId, userId)))
+      .returning();
+    return updatedAccount;
+  }
+
+  async deleteAccount(id: number, userId: string): Promise<void> {
+    await db.delete(accounts).where(and(eq(accounts.id, id), eq(accounts.userId, userId)));
+  }
+
+  /**
+   * Get the user's default account, creating a "Cash" account when the user has none yet.
+   * Transactions without an explicit account are booked against this account.
+   */
+  async getOrCreateDefaultAccount(userId: string): Promise<Account> {
+    const userAccounts = await this.getAccounts(userId);
+    const defaultAccount = userAccounts.find(account => account.isDefault) || userAccounts[0];
+    if (defaultAccount) {
+      return defaultAccount;
+    }
+
+    const preferences = await this.getUserPreferences(userId);
+    return await this.createAccount({
+      userId,
+      name: "Cash",
+      type: "cash",
+      currency: preferences?.defaultCurrency || "USD",
+      openingBalance: 0,
+      icon: "💵",
+      color: "#10B981",
+      isDefault: true,
+      isActive: true,
+    });
+  }
+
+  /**
+   * Balance of every account: opening balance + income - expense - transfers out + transfers in.
+   * Transactions that predate accounts (no account_id) are counted against the default account.
+   */
+  async getAccountBalances(userId: string): Promise<AccountWithBalance[]> {
+    const userAccounts = await this.getAccounts(userId);
+    if (userAccounts.length === 0) {
+      return [];
+    }
+
+    const defaultAccount = userAccounts.find(account => account.isDefault) || userAccounts[0];
+
+    const outgoing = await db
+      .select({
+        accountId: transactions.accountId,
+        type: transactions.type,
+        total: sum(transactions.amount),
+      })
+      .from(transactions)
+      .where(eq(transactions.userId, userId))
+      .groupBy(transactions.accountId, transactions.type);
+
+    const incomingTransfers = await db
+      .select({
+        accountId: transactions.toAccountId,
+        total: sum(transactions.amount),
+      })
+      .from(transactions)
+      .where(
+        and(
+          eq(transactions.userId, userId),
+          eq(transactions.type, "transfer")
+        )
+      )
+      .groupBy(transactions.toAccountId);
+
+    const movements = new Map<number, number>();
+    const addMovement = (accountId: number | null, amount: number) => {
+      const id = accountId ?? defaultAccount.id;
+      movements.set(id, (movements.get(id) || 0) + amount);
+    };
+
+    for (const row of outgoing) {
+      const total = parseFloat(row.total || "0");
+      addMovement(row.accountId, row.type === "income" ? total : -total);
+    }
+
+    for (const row of incomingTransfers) {
+      if (row.accountId !== null) {
+        addMovement(row.accountId, parseFloat(row.total || "0"));
+      }
+    }
+
+    return userAccounts.map(account => ({
+      ...account,
+      balance: account.openingBalance + (movements.get(account.id) || 0),
+    }));
+  }
+
+  async countAccountTransactions(accountId: number, userId: string): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`COUNT(*)` })
+      .from(transactions)
+      .where(and(
+        eq(transactions.userId, userId),
+        or(eq(transactions.accountId, accountId), eq(transactions.toAccountId, accountId))
+      ));
+    return result?.count || 0;
+  }
+
+  /**
+   * Recurring templates that book into the account, paused or ended ones included
+   */
+  async countAccountRecurringTransactions(accountId: number, userId: string): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`COUNT(*)` })
+      .from(recurringTransactions)
+      .where(and(
+        eq(recurringTransactions.userId, userId),
+        eq(recurringTransactions.accountId, accountId)
+      ));
+    return result?.count || 0;
+  }
+
+  /**
+   * Statement imports made into the account, rolled back ones included
+   */
+  async countAccountImportBatches(accountId: number, userId: string): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`COUNT(*)` })
+      .from(importBatches)
+      .where(and(
+        eq(importBatches.userId, userId),
+        eq(importBatches.accountId, accountId)
+      ));
+    return result?.count || 0;
+  }
+
+  /**
+   * Move money between two of the user's accounts. Stored as a single 'transfer' transaction
+   * so it never counts as income or expense.
+   */
+  async createTransfer(userId: string, transfer: {
+    fromAccountId: number;
+    toAccountId: number;
+    amount: number;
+    description?: string;
+    date?: number;
+  }): Promise<Transaction> {
+    const [fromAccount, toAccount] = await Promise.all([
+      this.getAccountById(transfer.fromAccountId, userId),
+      this.getAccountById(transfer.toAccountId, userId),
+    ]);
+
+    if (!fromAccount || !toAccount) {
+      throw new Error("Account not found");
+    }
+
+    if (fromAccount.id === toAccount.id) {
+      throw new Error("Cannot transfer to the same account");
+    }
+
+    // Transfers still need a category because category_id is required
+    const allCategories = await this.getCategories(userId);
+    let transferCategory = allCategories.find(cat => cat.type === "transfer");
+
+    if (!transferCategory) {
+      transferCategory = await this.createCategory({
+        userId,
+        name: "Transfer",
+        type: "transfer",
+        icon: "🔁",
+        color: "#64748B"
+      });
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+
+    return await this.createTransaction({
+      userId,
+      categoryId: transferCategory.id,
+      accountId: fromAccount.id,
+      toAccountId: toAccount.id,
+      amount: transfer.amount,
+      currency: fromAccount.currency,
+      description: transfer.description || `Transfer ${fromAccount.name} → ${toAccount.name}`,
+      type: "transfer",
+      date: transfer.date || now,
+    });
+  }
+
   // Transaction operations
   async getTransactions(userId: string, limit = 50): Promise<TransactionWithCategory[]> {
     const results = await db
@@ -373,86 +1168,877 @@ export class DatabaseStorage implements IStorage {
     }));
   }
 
-  async getTransactionsByDateRange(
-    userId: string,
-    startDate: Date,
-    endDate: Date
-  ): Promise<TransactionWithCategory[]> {
-    const startTimestamp = startDate.getTime() / 1000; // Convert to Unix seconds
-    const endTimestamp = endDate.getTime() / 1000; // Convert to Unix seconds
+  /**
+   * Page through a user's transactions with server-side filters. Pagination is keyset based
+   * (sort value + id encoded in an opaque cursor) and totals cover the whole filtered set,
+   * not just the returned page.
+   */
+  async queryTransactions(userId: string, filters: TransactionFilters): Promise<TransactionPage> {
+    const limit = Math.min(Math.max(filters.limit || 50, 1), 200);
+
+    const conditions: SQL[] = [eq(transactions.userId, userId)];
+
+    if (filters.startDate != null) conditions.push(gte(transactions.date, filters.startDate));
+    if (filters.endDate != null) conditions.push(lte(transactions.date, filters.endDate));
+    if (filters.categoryIds?.length) {
+      // A split transaction matches when any of its parts is in one of the categories
+      conditions.push(or(
+        inArray(transactions.categoryId, filters.categoryIds),
+        exists(
+          db.select({ id: transactionSplits.id })
+            .from(transactionSplits)
+            .where(and(
+              eq(transactionSplits.transactionId, transactions.id),
+              inArray(transactionSplits.categoryId, filters.categoryIds)
+            ))
+        )
+      )!);
+    }
+    if (filters.types?.length) conditions.push(inArray(transactions.type, filters.types));
+    if (filters.minAmount != null) conditions.push(gte(transactions.amount, filters.minAmount));
+    if (filters.maxAmount != null) conditions.push(lte(transactions.amount, filters.maxAmount));
+    if (filters.aiGenerated === true) conditions.push(eq(transactions.aiGenerated, true));
+    if (filters.aiGenerated === false) conditions.push(or(eq(transactions.aiGenerated, false), isNull(transactions.aiGenerated))!);
+    if (filters.accountId != null) {
+      conditions.push(or(eq(transactions.accountId, filters.accountId), eq(transactions.toAccountId, filters.accountId))!);
+    }
 
-    // Get all user transactions and filter by date range
-    const allTransactions = await db
-      .select()
-      .from(transactions)
+    // Every search word has to appear in the description or the category name
+    if (filters.search) {
+      for (const term of filters.search.trim().split(/\s+/).filter(Boolean)) {
+        const pattern = `%${term.replace(/[\\%_]/g, (ch) => `\\${ch}`)}%`;
+        conditions.push(sql`(${transactions.description} LIKE ${pattern} ESCAPE '\\' OR ${categories.name} LIKE ${pattern} ESCAPE '\\')`);
+      }
+    }
+
+    const [totalsRow] = await db
+      .select({
+        count: sql<number>`count(*)`,
+        income: sql<number>`coalesce(sum(CASE WHEN ${transactions.type} = 'income' THEN ${transactions.amount} ELSE 0 END), 0)`,
+        expense: sql<number>`coalesce(sum(CASE WHEN ${transactions.type} = 'expense' THEN ${transactions.amount} ELSE 0 END), 0)`,
+        transfer: sql<number>`coalesce(sum(CASE WHEN ${transactions.type} = 'transfer' THEN ${transactions.amount} ELSE 0 END), 0)`,
+      })
+      .from(transactions)
       .leftJoin(categories, eq(transactions.categoryId, categories.id))
-      .where(eq(transactions.userId, userId))
+      .where(and(...conditions));
+
+    const sort = filters.sort || "date_desc";
+    const sortColumn = sort.startsWith("amount") ? sql<number>`${transactions.amount}` : sql<number>`${transactions.date}`;
+    const descending = sort.endsWith("desc");
+
+    const pageConditions = [...conditions];
+    if (filters.cursor) {
+      const cursor = this.decodeTransactionCursor(filters.cursor);
+      pageConditions.push(
+        descending
+          ? sql`(${sortColumn} < ${cursor.value} OR (${sortColumn} = ${cursor.value} AND ${transactions.id} < ${cursor.id}))`
+          : sql`(${sortColumn} > ${cursor.value} OR (${sortColumn} = ${cursor.value} AND ${transactions.id} > ${cursor.id}))`
+      );
+    }
+
+    const rows = await db
+      .select({ row: transactions, category: categories, sortValue: sortColumn })
+      .from(transactions)
+      .leftJoin(categories, eq(transactions.categoryId, categories.id))
+      .where(and(...pageConditions))
+      .orderBy(
+        descending ? desc(sortColumn) : asc(sortColumn),
+        descending ? desc(transactions.id) : asc(transactions.id)
+      )
+      .limit(limit + 1);
+
+    const hasMore = rows.length > limit;
+    const pageRows = hasMore ? rows.slice(0, limit) : rows;
+    const lastRow = pageRows[pageRows.length - 1];
+
+    const income = Number(totalsRow?.income || 0);
+    const expense = Number(totalsRow?.expense || 0);
+
+    return {
+      items: await this.attachTransactionSplits(pageRows.map(({ row, category }) => ({ ...row, category }))),
+      nextCursor: hasMore && lastRow ? this.encodeTransactionCursor(Number(lastRow.sortValue), lastRow.row.id) : null,
+      hasMore,
+      totals: {
+        count: Number(totalsRow?.count || 0),
+        income,
+        expense,
+        transfer: Number(totalsRow?.transfer || 0),
+        net: income - expense,
+      },
+    };
+  }
+
+  /**
+   * Every transaction matching the filters with split transactions broken into their parts, so
+   * amounts can be added up per category. Honors the date, type, category and search filters.
+   */
+  async getTransactionAllocations(userId: string, filters: TransactionFilters): Promise<TransactionAllocation[]> {
+    const conditions: SQL[] = [eq(transactions.userId, userId)];
+
+    if (filters.startDate != null) conditions.push(gte(transactions.date, filters.startDate));
+    if (filters.endDate != null) conditions.push(lte(transactions.date, filters.endDate));
+    if (filters.types?.length) conditions.push(inArray(transactions.type, filters.types));
+    if (filters.categoryIds?.length) conditions.push(inArray(this.allocatedCategoryId, filters.categoryIds));
+
+    if (filters.search) {
+      for (const term of filters.search.trim().split(/\s+/).filter(Boolean)) {
+        const pattern = `%${term.replace(/[\\%_]/g, (ch) => `\\${ch}`)}%`;
+        conditions.push(sql`(${transactions.description} LIKE ${pattern} ESCAPE '\\' OR ${categories.name} LIKE ${pattern} ESCAPE '\\')`);
+      }
+    }
+
+    const rows = await db
+      .select({
+        transactionId: transactions.id,
+        description: transactions.description,
+        date: transactions.date,
+        type: transactions.type,
+        amount: this.allocatedAmount,
+        categoryId: categories.id,
+        categoryName: categories.name,
+      })
+      .from(transactions)
+      .leftJoin(transactionSplits, eq(transactionSplits.transactionId, transactions.id))
+      .leftJoin(categories, eq(this.allocatedCategoryId, categories.id))
+      .where(and(...conditions))
+      .orderBy(desc(transactions.date), desc(transactions.id));
+
+    return rows.map(row => ({ ...row, amount: Number(row.amount) }));
+  }
+
+  async getTransactionsByDateRange(
+    userId: string,
+    startDate: Date,
+    endDate: Date
+  ): Promise<TransactionWithCategory[]> {
+    const startTimestamp = Math.floor(startDate.getTime() / 1000); // Convert to Unix seconds
+    const endTimestamp = Math.floor(endDate.getTime() / 1000); // Convert to Unix seconds
+
+    const results = await db
+      .select()
+      .from(transactions)
+      .leftJoin(categories, eq(transactions.categoryId, categories.id))
+      .where(
+        and(
+          eq(transactions.userId, userId),
+          gte(transactions.date, startTimestamp),
+          lte(transactions.date, endTimestamp)
+        )
+      )
       .orderBy(desc(transactions.date));
+      
+    return await this.attachTransactionSplits(results.map(row => ({
+      ...row.transactions,
+      category: row.categories
+    })));
+  }
 
-    // Filter transactions within date range using normalized timestamps
-    const filteredResults = allTransactions.filter(row => 
-      this.isDateInRange(row.transactions.date, startTimestamp, endTimestamp)
-    );
+  async getTransactionsByCategory(categoryId: number, userId: string): Promise<TransactionWithCategory[]> {
+    const results = await db
+      .select()
+      .from(transactions)
+      .leftJoin(categories, eq(transactions.categoryId, categories.id))
+      .where(
+        and(
+          eq(transactions.userId, userId),
+          eq(transactions.categoryId, categoryId)
+        )
+      )
+      .orderBy(desc(transactions.date));
       
-    return filteredResults.map(row => ({
+    return results.map(row => ({
       ...row.transactions,
       category: row.categories
     }));
   }
 
-  async getTransactionsByCategory(categoryId: number, userId: string): Promise<TransactionWithCategory[]> {
+  /**
+   * Split parts of the user's transactions that put money in the category
+   */
+  async countCategorySplits(categoryId: number, userId: string): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`COUNT(*)` })
+      .from(transactionSplits)
+      .innerJoin(transactions, eq(transactionSplits.transactionId, transactions.id))
+      .where(and(
+        eq(transactions.userId, userId),
+        eq(transactionSplits.categoryId, categoryId)
+      ));
+    return result?.count || 0;
+  }
+
+  /**
+   * Recurring templates in the category, paused or ended ones included
+   */
+  async countCategoryRecurringTransactions(categoryId: number, userId: string): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`COUNT(*)` })
+      .from(recurringTransactions)
+      .where(and(
+        eq(recurringTransactions.userId, userId),
+        eq(recurringTransactions.categoryId, categoryId)
+      ));
+    return result?.count || 0;
+  }
+
+  async createTransaction(transaction: InsertTransaction): Promise<Transaction> {
+    // Every transaction lives in an account - fall back to the user's default one
+    const accountId = transaction.accountId ?? (await this.getOrCreateDefaultAccount(transaction.userId)).id;
+
+    const [newTransaction] = await db
+      .insert(transactions)
+      .values({ ...transaction, accountId, date: this.normalizeTimestamp(transaction.date) })
+      .returning();
+    this.notifyTransactionsWritten(newTransaction.userId);
+    return newTransaction;
+  }
+
+  /**
+   * Create several transactions of one user in a single insert, so either all of them are saved
+   * or none is. Meant for the handful of items in one chat message, not for statement imports.
+   */
+  async createTransactions(items: InsertTransaction[]): Promise<Transaction[]> {
+    if (items.length === 0) return [];
+
+    const defaultAccountId = items.some(item => item.accountId == null)
+      ? (await this.getOrCreateDefaultAccount(items[0].userId)).id
+      : undefined;
+
+    const created = await db
+      .insert(transactions)
+      .values(items.map(item => ({
+        ...item,
+        accountId: item.accountId ?? defaultAccountId,
+        date: this.normalizeTimestamp(item.date),
+      })))
+      .returning();
+    this.notifyTransactionsWritten(items[0].userId);
+    return created;
+  }
+
+  async updateTransaction(id: number, userId: string, transaction: Partial<InsertTransaction>): Promise<Transaction> {
+    const updates = transaction.date != null
+      ? { ...transaction, date: this.normalizeTimestamp(transaction.date) }
+      : transaction;
+
+    const [updatedTransaction] = await db
+      .update(transactions)
+      .set({ ...updates, updatedAt: Math.floor(Date.now() / 1000) }) // Use Unix seconds
+      .where(and(eq(transactions.id, id), eq(transactions.userId, userId)))
+      .returning();
+    if (updatedTransaction) {
+      this.notifyTransactionsWritten(userId);
+    }
+    return updatedTransaction;
+  }
+
+  onTransactionsWritten(listener: TransactionWriteListener): void {
+    this.transactionWriteListeners.push(listener);
+  }
+
+  private notifyTransactionsWritten(userId: string) {
+    for (const listener of this.transactionWriteListeners) {
+      try {
+        listener(userId);
+      } catch (error) {
+        console.error('Error in transaction write listener:', error);
+      }
+    }
+  }
+
+  async deleteTransaction(id: number, userId: string): Promise<void> {
+    await db.delete(transactionSplits).where(inArray(
+      transactionSplits.transactionId,
+      this.ownedTransactionIds(id, userId)
+    ));
+    await db.delete(transactions).where(and(eq(transactions.id, id), eq(transactions.userId, userId)));
+  }
+
+  // The transaction's id when it belongs to the user, as a subquery for its child rows
+  private ownedTransactionIds(id: number, userId: string) {
+    return db
+      .select({ id: transactions.id })
+      .from(transactions)
+      .where(and(eq(transactions.id, id), eq(transactions.userId, userId)));
+  }
+
+  async getTransactionById(id: number, userId: string): Promise<TransactionWithCategory | undefined> {
+    const [result] = await db
+      .select()
+      .from(transactions)
+      .leftJoin(categories, eq(transactions.categoryId, categories.id))
+      .where(and(eq(transactions.id, id), eq(transactions.userId, userId)));
+    
+    if (!result) return undefined;
+    
+    const [transaction] = await this.attachTransactionSplits([{
+      ...result.transactions,
+      category: result.categories
+    }]);
+    return transaction;
+  }
+
+  async getTransactionSplits(transactionId: number, userId: string): Promise<TransactionSplitWithCategory[]> {
+    const results = await db
+      .select()
+      .from(transactionSplits)
+      .leftJoin(categories, eq(transactionSplits.categoryId, categories.id))
+      .where(inArray(transactionSplits.transactionId, this.ownedTransactionIds(transactionId, userId)))
+      .orderBy(desc(transactionSplits.amount), transactionSplits.id);
+
+    return results.map(row => ({
+      ...row.transaction_splits,
+      category: row.categories
+    }));
+  }
+
+  /**
+   * Replace the parts of a transaction. An empty list removes the split. The parent's category
+   * follows its largest part so screens that only show one category stay meaningful.
+   * Callers are responsible for checking that the parts add up to the transaction amount.
+   */
+  async setTransactionSplits(
+    transactionId: number,
+    userId: string,
+    splits: Array<Omit<InsertTransactionSplit, "transactionId">>
+  ): Promise<TransactionSplitWithCategory[]> {
+    const [owned] = await this.ownedTransactionIds(transactionId, userId);
+    if (!owned) {
+      throw new Error("Transaction not found");
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    db.transaction((tx) => {
+      tx.delete(transactionSplits).where(eq(transactionSplits.transactionId, transactionId)).run();
+      if (splits.length === 0) {
+        return;
+      }
+
+      tx.insert(transactionSplits)
+        .values(splits.map(split => ({ ...split, transactionId, createdAt: now })))
+        .run();
+
+      const largest = splits.reduce((max, split) => (split.amount > max.amount ? split : max), splits[0]);
+      tx.update(transactions)
+        .set({ categoryId: largest.categoryId, updatedAt: now })
+        .where(eq(transactions.id, transactionId))
+        .run();
+    });
+
+    if (splits.length === 0) {
+      return [];
+    }
+    this.notifyTransactionsWritten(userId);
+
+    return await this.getTransactionSplits(transactionId, userId);
+  }
+
+  // Load the parts of every split transaction in one query and attach them to their parents
+  private async attachTransactionSplits(items: TransactionWithCategory[]): Promise<TransactionWithCategory[]> {
+    if (items.length === 0) return items;
+
+    const splitsByTransaction = new Map<number, TransactionSplitWithCategory[]>();
+    const ids = items.map(item => item.id);
+
+    for (let i = 0; i < ids.length; i += 500) {
+      const rows = await db
+        .select()
+        .from(transactionSplits)
+        .leftJoin(categories, eq(transactionSplits.categoryId, categories.id))
+        .where(inArray(transactionSplits.transactionId, ids.slice(i, i + 500)))
+        .orderBy(desc(transactionSplits.amount), transactionSplits.id);
+
+      for (const row of rows) {
+        const parts = splitsByTransaction.get(row.transaction_splits.transactionId) || [];
+        parts.push({ ...row.transaction_splits, category: row.categories });
+        splitsByTransaction.set(row.transaction_splits.transactionId, parts);
+      }
+    }
+
+    return items.map(item => {
+      const splits = splitsByTransaction.get(item.id);
+      return splits ? { ...item, splits } : item;
+    });
+  }
+
+  // Recurring transaction operations
+  async getRecurringTransactions(userId: string): Promise<RecurringTransactionWithCategory[]> {
+    const results = await db
+      .select()
+      .from(recurringTransactions)
+      .leftJoin(categories, eq(recurringTransactions.categoryId, categories.id))
+      .where(eq(recurringTransactions.userId, userId))
+      .orderBy(desc(recurringTransactions.isActive), recurringTransactions.nextRunDate);
+
+    return results.map(row => ({
+      ...row.recurring_transactions,
+      category: row.categories
+    }));
+  }
+
+  async getRecurringTransactionById(id: number, userId: string): Promise<RecurringTransaction | undefined> {
+    const [recurring] = await db
+      .select()
+      .from(recurringTransactions)
+      .where(and(eq(recurringTransactions.id, id), eq(recurringTransactions.userId, userId)));
+    return recurring;
+  }
+
+  async createRecurringTransaction(recurring: InsertRecurringTransaction): Promise<RecurringTransaction> {
+    const now = Math.floor(Date.now() / 1000);
+    const dayOfMonth = recurring.dayOfMonth ?? this.getRecurringAnchorDay(recurring.frequency, recurring.startDate);
+    const nextRunDate = this.calculateFirstRecurringDate(recurring.startDate, recurring.frequency, dayOfMonth);
+
+    const [newRecurring] = await db
+      .insert(recurringTransactions)
+      .values({
+        ...recurring,
+        dayOfMonth,
+        nextRunDate,
+        isActive: (recurring.isActive ?? true) && !this.isRecurringExhausted(recurring, nextRunDate, 0),
+        createdAt: now,
+        updatedAt: now,
+      })
+      .returning();
+    return newRecurring;
+  }
+
+  /**
+   * Update a recurring template. When the schedule changes the next run date is recalculated
+   * from the start date, or from today when the template has already produced transactions.
+   */
+  async updateRecurringTransaction(id: number, userId: string, recurring: Partial<InsertRecurringTransaction>): Promise<RecurringTransaction> {
+    const existing = await this.getRecurringTransactionById(id, userId);
+    if (!existing) {
+      throw new Error("Recurring transaction not found");
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const merged = { ...existing, ...recurring };
+    const scheduleChanged =
+      (recurring.frequency !== undefined && recurring.frequency !== existing.frequency) ||
+      (recurring.dayOfMonth !== undefined && recurring.dayOfMonth !== existing.dayOfMonth) ||
+      (recurring.startDate !== undefined && recurring.startDate !== existing.startDate);
+
+    let nextRunDate = existing.nextRunDate;
+    let dayOfMonth = merged.dayOfMonth;
+    if (scheduleChanged) {
+      dayOfMonth = merged.dayOfMonth ?? this.getRecurringAnchorDay(merged.frequency, merged.startDate);
+      const from = existing.occurrenceCount > 0 ? Math.max(merged.startDate, now) : merged.startDate;
+      nextRunDate = this.calculateFirstRecurringDate(from, merged.frequency, dayOfMonth);
+    }
+
+    const isActive = (merged.isActive ?? true) && !this.isRecurringExhausted(merged, nextRunDate, existing.occurrenceCount);
+
+    const [updatedRecurring] = await db
+      .update(recurringTransactions)
+      .set({ ...recurring, dayOfMonth, nextRunDate, isActive, updatedAt: now })
+      .where(and(eq(recurringTransactions.id, id), eq(recurringTransactions.userId, userId)))
+      .returning();
+    return updatedRecurring;
+  }
+
+  async deleteRecurringTransaction(id: number, userId: string): Promise<void> {
+    // Keep the generated transactions, just detach them from the template
+    await db
+      .update(transactions)
+      .set({ recurringTransactionId: null })
+      .where(and(eq(transactions.recurringTransactionId, id), eq(transactions.userId, userId)));
+    await db
+      .delete(recurringTransactions)
+      .where(and(eq(recurringTransactions.id, id), eq(recurringTransactions.userId, userId)));
+  }
+
+  async getDueRecurringTransactions(asOf: number): Promise<RecurringTransaction[]> {
+    try {
+      return await db
+        .select()
+        .from(recurringTransactions)
+        .where(
+          and(
+            eq(recurringTransactions.isActive, true),
+            lte(recurringTransactions.nextRunDate, asOf)
+          )
+        )
+        .orderBy(recurringTransactions.nextRunDate);
+    } catch (error) {
+      console.error('Error getting due recurring transactions:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Create the real transaction for the template's current run date and advance the template
+   * to its next occurrence, deactivating it once the end date or occurrence limit is reached.
+   * Both happen in one transaction, and only if the template still has that run date.
+   * @returns null when another run already materialized this occurrence
+   */
+  async materializeRecurringTransaction(
+    recurring: RecurringTransaction
+  ): Promise<{ transaction: Transaction; recurring: RecurringTransaction } | null> {
+    const now = Math.floor(Date.now() / 1000);
+    const accountId = recurring.accountId ?? (await this.getOrCreateDefaultAccount(recurring.userId)).id;
+    const occurrenceCount = recurring.occurrenceCount + 1;
+    const nextRunDate = this.calculateNextRecurringDate(recurring.nextRunDate, recurring.frequency, recurring.dayOfMonth);
+
+    const result = db.transaction((tx) => {
+      const [updatedRecurring] = tx
+        .update(recurringTransactions)
+        .set({
+          occurrenceCount,
+          lastRunDate: recurring.nextRunDate,
+          nextRunDate,
+          isActive: !this.isRecurringExhausted(recurring, nextRunDate, occurrenceCount),
+          updatedAt: now,
+        })
+        .where(and(
+          eq(recurringTransactions.id, recurring.id),
+          eq(recurringTransactions.nextRunDate, recurring.nextRunDate),
+          eq(recurringTransactions.isActive, true)
+        ))
+        .returning()
+        .all();
+      if (!updatedRecurring) {
+        return null;
+      }
+
+      const transaction = tx
+        .insert(transactions)
+        .values({
+          userId: recurring.userId,
+          categoryId: recurring.categoryId,
+          accountId,
+          amount: recurring.amount,
+          currency: recurring.currency,
+          description: recurring.description,
+          type: recurring.type,
+          date: this.normalizeTimestamp(recurring.nextRunDate),
+          aiGenerated: false,
+          recurringTransactionId: recurring.id,
+        })
+        .returning()
+        .get();
+      return { transaction, recurring: updatedRecurring };
+    });
+
+    if (result) {
+      this.notifyTransactionsWritten(recurring.userId);
+    }
+    return result;
+  }
+
+  /**
+   * List every occurrence of the user's active templates that falls within the next `days` days.
+   */
+  async getUpcomingRecurringTransactions(
+    userId: string,
+    days: number
+  ): Promise<Array<RecurringTransactionWithCategory & { dueDate: number }>> {
+    const until = Math.floor(Date.now() / 1000) + days * 24 * 60 * 60;
+    const templates = await this.getRecurringTransactions(userId);
+    const upcoming: Array<RecurringTransactionWithCategory & { dueDate: number }> = [];
+
+    for (const template of templates) {
+      if (!template.isActive) continue;
+
+      let dueDate = template.nextRunDate;
+      let count = template.occurrenceCount;
+      // Cap per template so daily schedules over long windows stay bounded
+      for (let i = 0; i < 62 && dueDate <= until; i++) {
+        if (template.maxOccurrences && count >= template.maxOccurrences) break;
+        if (template.endDate && dueDate > template.endDate) break;
+
+        upcoming.push({ ...template, dueDate });
+        count++;
+        dueDate = this.calculateNextRecurringDate(dueDate, template.frequency, template.dayOfMonth);
+      }
+    }
+
+    return upcoming.sort((a, b) => a.dueDate - b.dueDate);
+  }
+
+  // Statement import operations
+  async getImportBatches(userId: string): Promise<ImportBatch[]> {
+    return await db
+      .select()
+      .from(importBatches)
+      .where(eq(importBatches.userId, userId))
+      .orderBy(desc(importBatches.createdAt), desc(importBatches.id));
+  }
+
+  async getImportBatchById(id: number, userId: string): Promise<ImportBatch | undefined> {
+    const [batch] = await db
+      .select()
+      .from(importBatches)
+      .where(and(eq(importBatches.id, id), eq(importBatches.userId, userId)));
+    return batch;
+  }
+
+  /**
+   * Record an import batch and create its transactions in one transaction, so a batch is
+   * either fully imported or not at all.
+   */
+  async createImportBatch(batch: InsertImportBatch, rows: InsertTransaction[]): Promise<ImportBatch> {
+    const now = Math.floor(Date.now() / 1000);
+    const accountId = batch.accountId ?? (await this.getOrCreateDefaultAccount(batch.userId)).id;
+
+    const newBatch = db.transaction((tx) => {
+      const created = tx
+        .insert(importBatches)
+        .values({
+          ...batch,
+          accountId,
+          importedCount: rows.length,
+          createdAt: now,
+          updatedAt: now,
+        })
+        .returning()
+        .get();
+
+      // Insert in chunks to stay well below SQLite's bound parameter limit
+      for (let i = 0; i < rows.length; i += 50) {
+        const chunk = rows.slice(i, i + 50).map(row => ({
+          ...row,
+          accountId,
+          date: this.normalizeTimestamp(row.date),
+          importBatchId: created.id,
+          createdAt: now,
+          updatedAt: now,
+        }));
+        tx.insert(transactions).values(chunk).run();
+      }
+      return created;
+    });
+
+    this.notifyTransactionsWritten(batch.userId);
+    return newBatch;
+  }
+
+  /**
+   * Delete every transaction created by the batch and mark the batch as rolled back, in one
+   * transaction
+   */
+  async rollbackImportBatch(id: number, userId: string): Promise<ImportBatch> {
+    const batchTransactions = and(eq(transactions.importBatchId, id), eq(transactions.userId, userId));
+    const now = Math.floor(Date.now() / 1000);
+
+    return db.transaction((tx) => {
+      tx.delete(transactionSplits).where(inArray(
+        transactionSplits.transactionId,
+        tx.select({ id: transactions.id }).from(transactions).where(batchTransactions)
+      )).run();
+      tx.delete(transactions).where(batchTransactions).run();
+
+      const [batch] = tx
+        .update(importBatches)
+        .set({ status: "rolled_back", rolledBackAt: now, updatedAt: now })
+        .where(and(eq(importBatches.id, id), eq(importBatches.userId, userId)))
+        .returning()
+        .all();
+      return batch;
+    });
+  }
+
+  /**
+   * For every candidate find an existing transaction with the same type and amount booked within
+   * two days of it (banks often post a day or two after the purchase). Each existing transaction
+   * can only match one candidate, so repeated identical purchases are not all flagged.
+   */
+  async findDuplicateTransactions(
+    userId: string,
+    candidates: Array<{ date: number; amount: number; type: string }>
+  ): Promise<Array<number | null>> {
+    if (candidates.length === 0) return [];
+
+    const tolerance = 2 * 24 * 60 * 60;
+    const dates = candidates.map(candidate => candidate.date);
+    const existing = await db
+      .select({
+        id: transactions.id,
+        date: transactions.date,
+        amount: transactions.amount,
+        type: transactions.type,
+      })
+      .from(transactions)
+      .where(
+        and(
+          eq(transactions.userId, userId),
+          gte(transactions.date, Math.min(...dates) - tolerance),
+          lte(transactions.date, Math.max(...dates) + tolerance)
+        )
+      );
+
+    const matched = new Set<number>();
+    return candidates.map(candidate => {
+      let best: { id: number; distance: number } | null = null;
+      for (const transaction of existing) {
+        if (matched.has(transaction.id)) continue;
+        if (transaction.type !== candidate.type) continue;
+        if (Math.abs(transaction.amount - candidate.amount) >= 0.005) continue;
+
+        const distance = Math.abs(transaction.date - candidate.date);
+        if (distance <= tolerance && (!best || distance < best.distance)) {
+          best = { id: transaction.id, distance };
+        }
+      }
+
+      if (!best) return null;
+      matched.add(best.id);
+      return best.id;
+    });
+  }
+
+  /**
+   * Category the user last used for each description (case-insensitive), keyed by lowercased description
+   */
+  async getCategoriesByDescription(userId: string, descriptions: string[]): Promise<Map<string, number>> {
+    const categoryByDescription = new Map<string, number>();
+    const uniqueDescriptions = Array.from(new Set(descriptions.map(description => description.toLowerCase())));
+
+    for (let i = 0; i < uniqueDescriptions.length; i += 500) {
+      const chunk = uniqueDescriptions.slice(i, i + 500);
+      const rows = await db
+        .select({
+          description: sql<string>`LOWER(${transactions.description})`,
+          categoryId: transactions.categoryId,
+        })
+        .from(transactions)
+        .where(
+          and(
+            eq(transactions.userId, userId),
+            inArray(sql`LOWER(${transactions.description})`, chunk),
+            or(eq(transactions.type, "income"), eq(transactions.type, "expense"))
+          )
+        )
+        .orderBy(desc(transactions.date));
+
+      // Rows are newest first - keep the most recent category for each description
+      for (const row of rows) {
+        if (!categoryByDescription.has(row.description)) {
+          categoryByDescription.set(row.description, row.categoryId);
+        }
+      }
+    }
+
+    return categoryByDescription;
+  }
+
+  async getImportMappings(userId: string): Promise<ImportMapping[]> {
+    return await db
+      .select()
+      .from(importMappings)
+      .where(eq(importMappings.userId, userId))
+      .orderBy(importMappings.name);
+  }
+
+  async getImportMappingById(id: number, userId: string): Promise<ImportMapping | undefined> {
+    const [mapping] = await db
+      .select()
+      .from(importMappings)
+      .where(and(eq(importMappings.id, id), eq(importMappings.userId, userId)));
+    return mapping;
+  }
+
+  async createImportMapping(mapping: InsertImportMapping): Promise<ImportMapping> {
+    const now = Math.floor(Date.now() / 1000);
+    const [newMapping] = await db
+      .insert(importMappings)
+      .values({ ...mapping, createdAt: now, updatedAt: now })
+      .returning();
+    return newMapping;
+  }
+
+  async updateImportMapping(id: number, userId: string, mapping: Partial<InsertImportMapping>): Promise<ImportMapping> {
+    const [updatedMapping] = await db
+      .update(importMappings)
+      .set({ ...mapping, updatedAt: Math.floor(Date.now() / 1000) })
+      .where(and(eq(importMappings.id, id), eq(importMappings.userId, userId)))
+      .returning();
+    return updatedMapping;
+  }
+
+  async deleteImportMapping(id: number, userId: string): Promise<void> {
+    await db.delete(importMappings).where(and(eq(importMappings.id, id), eq(importMappings.userId, userId)));
+  }
+
+  // Categorization rule operations
+  // Ordered the way they are evaluated: the user's own rules first, then priority, then the most specific pattern
+  async getCategorizationRules(userId: string): Promise<CategorizationRuleWithCategory[]> {
     const results = await db
       .select()
-      .from(transactions)
-      .leftJoin(categories, eq(transactions.categoryId, categories.id))
-      .where(
-        and(
-          eq(transactions.userId, userId),
-          eq(transactions.categoryId, categoryId)
-        )
-      )
-      .orderBy(desc(transactions.date));
-      
+      .from(categorizationRules)
+      .leftJoin(categories, eq(categorizationRules.categoryId, categories.id))
+      .where(eq(categorizationRules.userId, userId))
+      .orderBy(
+        sql`CASE WHEN ${categorizationRules.source} = 'user' THEN 0 ELSE 1 END`,
+        desc(categorizationRules.priority),
+        desc(sql`length(${categorizationRules.pattern})`),
+        desc(categorizationRules.updatedAt)
+      );
+
     return results.map(row => ({
-      ...row.transactions,
+      ...row.categorization_rules,
       category: row.categories
     }));
   }
 
-  async createTransaction(transaction: InsertTransaction): Promise<Transaction> {
-    const [newTransaction] = await db
-      .insert(transactions)
-      .values(transaction)
+  async getCategorizationRuleById(id: number, userId: string): Promise<CategorizationRule | undefined> {
+    const [rule] = await db
+      .select()
+      .from(categorizationRules)
+      .where(and(eq(categorizationRules.id, id), eq(categorizationRules.userId, userId)));
+    return rule;
+  }
+
+  async findCategorizationRule(
+    userId: string,
+    pattern: string,
+    matchType: CategorizationRule["matchType"]
+  ): Promise<CategorizationRule | undefined> {
+    const [rule] = await db
+      .select()
+      .from(categorizationRules)
+      .where(and(
+        eq(categorizationRules.userId, userId),
+        eq(categorizationRules.pattern, pattern),
+        eq(categorizationRules.matchType, matchType)
+      ))
+      .limit(1);
+    return rule;
+  }
+
+  async createCategorizationRule(rule: InsertCategorizationRule): Promise<CategorizationRule> {
+    const now = Math.floor(Date.now() / 1000);
+    const [newRule] = await db
+      .insert(categorizationRules)
+      .values({ ...rule, createdAt: now, updatedAt: now })
       .returning();
-    return newTransaction;
+    return newRule;
   }
 
-  async updateTransaction(id: number, transaction: Partial<InsertTransaction>): Promise<Transaction> {
-    const [updatedTransaction] = await db
-      .update(transactions)
-      .set({ ...transaction, updatedAt: Math.floor(Date.now() / 1000) }) // Use Unix seconds
-      .where(eq(transactions.id, id))
+  async updateCategorizationRule(id: number, userId: string, rule: Partial<InsertCategorizationRule>): Promise<CategorizationRule> {
+    const [updatedRule] = await db
+      .update(categorizationRules)
+      .set({ ...rule, updatedAt: Math.floor(Date.now() / 1000) })
+      .where(and(eq(categorizationRules.id, id), eq(categorizationRules.userId, userId)))
       .returning();
-    return updatedTransaction;
+    return updatedRule;
   }
 
-  async deleteTransaction(id: number): Promise<void> {
-    await db.delete(transactions).where(eq(transactions.id, id));
+  async deleteCategorizationRule(id: number, userId: string): Promise<void> {
+    await db
+      .delete(categorizationRules)
+      .where(and(eq(categorizationRules.id, id), eq(categorizationRules.userId, userId)));
   }
 
-  async getTransactionById(id: number): Promise<TransactionWithCategory | undefined> {
-    const [result] = await db
-      .select()
-      .from(transactions)
-      .leftJoin(categories, eq(transactions.categoryId, categories.id))
-      .where(eq(transactions.id, id));
-    
-    if (!result) return undefined;
-    
-    return {
-      ...result.transactions,
-      category: result.categories
-    };
+  async recordCategorizationRuleMatch(id: number, userId: string): Promise<void> {
+    await db
+      .update(categorizationRules)
+      .set({
+        hitCount: sql`${categorizationRules.hitCount} + 1`,
+        lastMatchedAt: Math.floor(Date.now() / 1000),
+      })
+      .where(and(eq(categorizationRules.id, id), eq(categorizationRules.userId, userId)));
   }
 
   // Budget operations
@@ -478,7 +2064,7 @@ export class DatabaseStorage implements IStorage {
     return newBudget;
   }
 
-  async updateBudget(id: number, budget: Partial<InsertBudget>): Promise<Budget> {
+  async updateBudget(id: number, userId: string, budget: Partial<InsertBudget>): Promise<Budget> {
     const updateData = {
       ...budget,
       updatedAt: Math.floor(Date.now() / 1000) // Always set current timestamp
@@ -487,7 +2073,7 @@ export class DatabaseStorage implements IStorage {
     const [updatedBudget] = await db
       .update(budgets)
       .set(updateData)
-      .where(eq(budgets.id, id))
+      .where(and(eq(budgets.id, id), eq(budgets.userId, userId)))
       .returning();
       
     if (!updatedBudget) {
@@ -497,16 +2083,20 @@ export class DatabaseStorage implements IStorage {
     return updatedBudget;
   }
 
-  async deleteBudget(id: number): Promise<void> {
-    await db.delete(budgets).where(eq(budgets.id, id));
+  async deleteBudget(id: number, userId: string): Promise<void> {
+    await db.delete(budgetAlerts).where(and(eq(budgetAlerts.budgetId, id), eq(budgetAlerts.userId, userId)));
+    await db
+      .delete(spendingLimitBreaches)
+      .where(and(eq(spendingLimitBreaches.budgetId, id), eq(spendingLimitBreaches.userId, userId)));
+    await db.delete(budgets).where(and(eq(budgets.id, id), eq(budgets.userId, userId)));
   }
 
-  async getBudgetById(id: number): Promise<BudgetWithCategory | undefined> {
+  async getBudgetById(id: number, userId: string): Promise<BudgetWithCategory | undefined> {
     const [result] = await db
       .select()
       .from(budgets)
       .leftJoin(categories, eq(budgets.categoryId, categories.id))
-      .where(eq(budgets.id, id));
+      .where(and(eq(budgets.id, id), eq(budgets.userId, userId)));
     
     if (!result) return undefined;
     
@@ -522,7 +2112,7 @@ export class DatabaseStorage implements IStorage {
     
     if (existingBudget) {
       // Update existing budget
-      return await this.updateBudget(existingBudget.id, {
+      return await this.updateBudget(existingBudget.id, budgetData.userId, {
         amount: budgetData.amount,
         period: budgetData.period,
         startDate: budgetData.startDate,
@@ -560,12 +2150,14 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getSpentInPeriod(userId: string, categoryId: number, startDate: number, endDate: number): Promise<number> {
+    // Split transactions count each part towards its own category
     const result = await db
-      .select({ total: sum(transactions.amount) })
+      .select({ total: sql<number>`sum(${this.allocatedAmount})` })
       .from(transactions)
+      .leftJoin(transactionSplits, eq(transactionSplits.transactionId, transactions.id))
       .where(and(
         eq(transactions.userId, userId),
-        eq(transactions.categoryId, categoryId),
+        eq(this.allocatedCategoryId, categoryId),
         eq(transactions.type, 'expense'),
         gte(transactions.date, startDate),
         lte(transactions.date, endDate)
@@ -574,6 +2166,59 @@ export class DatabaseStorage implements IStorage {
     return Number(result[0]?.total || 0);
   }
 
+  /**
+   * Record that a budget threshold was announced for a period
+   * @returns false when it already was - someone else is sending this alert
+   */
+  async claimBudgetAlert(alert: InsertBudgetAlert): Promise<boolean> {
+    const claimed = await db
+      .insert(budgetAlerts)
+      .values({ ...alert, createdAt: Math.floor(Date.now() / 1000) })
+      .onConflictDoNothing()
+      .returning({ id: budgetAlerts.id });
+    return claimed.length > 0;
+  }
+
+  /**
+   * Forget claimed thresholds whose alert never went out, so the next evaluation sends them again
+   */
+  async releaseBudgetAlerts(alerts: InsertBudgetAlert[]): Promise<void> {
+    for (const alert of alerts) {
+      await db
+        .delete(budgetAlerts)
+        .where(and(
+          eq(budgetAlerts.userId, alert.userId),
+          eq(budgetAlerts.budgetId, alert.budgetId),
+          eq(budgetAlerts.limitPeriod, alert.limitPeriod),
+          eq(budgetAlerts.periodStart, alert.periodStart),
+          eq(budgetAlerts.threshold, alert.threshold)
+        ));
+    }
+  }
+
+  async createSpendingLimitBreaches(breaches: InsertSpendingLimitBreach[]): Promise<SpendingLimitBreach[]> {
+    if (breaches.length === 0) return [];
+
+    const now = Math.floor(Date.now() / 1000);
+    return await db
+      .insert(spendingLimitBreaches)
+      .values(breaches.map(breach => ({ ...breach, createdAt: now })))
+      .returning();
+  }
+
+  async getSpendingLimitBreaches(userId: string, since?: number): Promise<SpendingLimitBreach[]> {
+    const conditions = [eq(spendingLimitBreaches.userId, userId)];
+    if (since != null) {
+      conditions.push(gte(spendingLimitBreaches.createdAt, since));
+    }
+
+    return await db
+      .select()
+      .from(spendingLimitBreaches)
+      .where(and(...conditions))
+      .orderBy(desc(spendingLimitBreaches.createdAt));
+  }
+
   // Goal operations
   async getGoals(userId: string): Promise<Goal[]> {
     return await db
@@ -596,7 +2241,7 @@ export class DatabaseStorage implements IStorage {
     return newGoal;
   }
 
-  async updateGoal(id: number, goal: Partial<InsertGoal>): Promise<Goal> {
+  async updateGoal(id: number, userId: string, goal: Partial<InsertGoal>): Promise<Goal> {
     const now = Math.floor(Date.now() / 1000);
     const [updatedGoal] = await db
       .update(goals)
@@ -604,46 +2249,53 @@ export class DatabaseStorage implements IStorage {
         ...goal,
         updatedAt: now,
       })
-      .where(eq(goals.id, id))
+      .where(and(eq(goals.id, id), eq(goals.userId, userId)))
       .returning();
     return updatedGoal;
   }
 
-  async deleteGoal(id: number): Promise<void> {
+  async deleteGoal(id: number, userId: string): Promise<void> {
+    if (!(await this.getGoalById(id, userId))) return;
+
     // First delete related records to avoid foreign key constraint errors
     await db.delete(goalBoosts).where(eq(goalBoosts.goalId, id));
     await db.delete(goalSavingsPlans).where(eq(goalSavingsPlans.goalId, id));
     
     // Now safe to delete the goal
-    await db.delete(goals).where(eq(goals.id, id));
+    await db.delete(goals).where(and(eq(goals.id, id), eq(goals.userId, userId)));
   }
 
-  async getGoalById(id: number): Promise<Goal | undefined> {
+  async getGoalById(id: number, userId: string): Promise<Goal | undefined> {
     const [result] = await db
       .select()
       .from(goals)
-      .where(eq(goals.id, id));
+      .where(and(eq(goals.id, id), eq(goals.userId, userId)));
     
     return result;
   }
   
   // Goal boost operations
   async createGoalBoost(goalId: number, userId: string, amount: number, description?: string): Promise<any> {
-    // First update the goal's current amount
-    const goal = await this.getGoalById(goalId);
+    const goal = await this.getGoalById(goalId, userId);
     if (!goal) {
       throw new Error("Goal not found");
     }
-    
-    const newCurrentAmount = goal.currentAmount + amount;
-    await this.updateGoal(goalId, { currentAmount: newCurrentAmount });
-    
-    // Get user preferences for currency
-    const userPreferences = await this.getUserPreferences(userId);
-    
-    // Create expense transaction to deduct from available balance
-    // This is CRITICAL for proper balance calculation
-    const allCategories = await this.getCategories(userId);
+
+    const contribution = await this.prepareGoalBoost(goal, amount, description);
+    const boost = db.transaction((tx) => this.writeGoalBoost(tx, contribution));
+    this.notifyTransactionsWritten(userId);
+    return boost;
+  }
+
+  /**
+   * Everything a goal boost writes that has to be looked up or created first: the savings
+   * category its expense transaction goes into and the user's currency
+   */
+  private async prepareGoalBoost(goal: Goal, amount: number, description?: string): Promise<GoalBoostWrite> {
+    const userPreferences = await this.getUserPreferences(goal.userId);
+    const account = await this.getOrCreateDefaultAccount(goal.userId);
+
+    const allCategories = await this.getCategories(goal.userId);
     let savingsCategory = allCategories.find(cat => 
       cat.name.toLowerCase() === "savings" || cat.name.toLowerCase() === "tabungan"
     );
@@ -651,52 +2303,80 @@ export class DatabaseStorage implements IStorage {
     if (!savingsCategory) {
       // Create savings category if it doesn't exist (in Indonesian)
       savingsCategory = await this.createCategory({
-        userId,
+        userId: goal.userId,
         name: "Tabungan",
         type: "expense",
         icon: "🏦",
         color: "#0891B2"
       });
     }
-    
-    const now = Math.floor(Date.now() / 1000);
-    
-    await this.createTransaction({
-      userId,
+
+    return {
+      goal,
       amount,
-      description: description || `Transfer to Goal: ${goal.name}`,
+      description,
       categoryId: savingsCategory.id,
-      type: "expense",
-      date: now,
-      currency: userPreferences?.defaultCurrency || "USD"
-    });
-    
-    // Then record the boost
-    const [boost] = await db
+      accountId: account.id,
+      currency: userPreferences?.defaultCurrency || "USD",
+    };
+  }
+
+  /**
+   * Add the amount to the goal, book it as an expense so it leaves the available balance,
+   * and record the boost - inside the caller's transaction
+   */
+  private writeGoalBoost(tx: DbTransaction, contribution: GoalBoostWrite): any {
+    const { goal, amount, description } = contribution;
+    const now = Math.floor(Date.now() / 1000);
+
+    tx.update(goals)
+      .set({ currentAmount: sql`${goals.currentAmount} + ${amount}`, updatedAt: now })
+      .where(and(eq(goals.id, goal.id), eq(goals.userId, goal.userId)))
+      .run();
+
+    // Create expense transaction to deduct from available balance
+    // This is CRITICAL for proper balance calculation
+    tx.insert(transactions)
+      .values({
+        userId: goal.userId,
+        accountId: contribution.accountId,
+        amount,
+        description: description || `Transfer to Goal: ${goal.name}`,
+        categoryId: contribution.categoryId,
+        type: "expense",
+        date: now,
+        currency: contribution.currency,
+      })
+      .run();
+
+    return tx
       .insert(goalBoosts)
       .values({
-        goalId,
-        userId,
+        goalId: goal.id,
+        userId: goal.userId,
         amount,
         description,
         date: now,
         createdAt: now,
       })
-      .returning();
-    
-    return boost;
+      .returning()
+      .get();
   }
   
-  async getGoalBoosts(goalId: number): Promise<any[]> {
+  async getGoalBoosts(goalId: number, userId: string): Promise<any[]> {
     return await db
       .select()
       .from(goalBoosts)
-      .where(eq(goalBoosts.goalId, goalId))
+      .where(and(eq(goalBoosts.goalId, goalId), eq(goalBoosts.userId, userId)))
       .orderBy(desc(goalBoosts.date));
   }
   
   // Goal savings plan operations
   async createGoalSavingsPlan(goalId: number, userId: string, amount: number, frequency: string): Promise<any> {
+    if (!(await this.getGoalById(goalId, userId))) {
+      throw new Error("Goal not found");
+    }
+
     const now = Math.floor(Date.now() / 1000);
     
     // Calculate next contribution date based on frequency
@@ -719,7 +2399,7 @@ export class DatabaseStorage implements IStorage {
     return plan;
   }
   
-  async updateGoalSavingsPlan(id: number, updates: any): Promise<any> {
+  async updateGoalSavingsPlan(id: number, userId: string, updates: any): Promise<any> {
     const now = Math.floor(Date.now() / 1000);
     
     // If we're updating frequency, recalculate next contribution date
@@ -736,7 +2416,7 @@ export class DatabaseStorage implements IStorage {
         ...(nextContributionDate && { nextContributionDate }),
         updatedAt: now,
       })
-      .where(eq(goalSavingsPlans.id, id))
+      .where(and(eq(goalSavingsPlans.id, id), eq(goalSavingsPlans.userId, userId)))
       .returning();
     
     return plan;
@@ -755,17 +2435,101 @@ export class DatabaseStorage implements IStorage {
       .orderBy(goalSavingsPlans.nextContributionDate);
   }
   
-  async getGoalSavingsPlansByGoalId(goalId: number): Promise<any[]> {
+  async getGoalSavingsPlansByGoalId(goalId: number, userId: string): Promise<any[]> {
     return await db
       .select()
       .from(goalSavingsPlans)
-      .where(eq(goalSavingsPlans.goalId, goalId))
+      .where(and(eq(goalSavingsPlans.goalId, goalId), eq(goalSavingsPlans.userId, userId)))
       .orderBy(desc(goalSavingsPlans.createdAt));
   }
   
+  async getDueGoalSavingsPlans(asOf: number): Promise<any[]> {
+    try {
+      return await db
+        .select()
+        .from(goalSavingsPlans)
+        .where(
+          and(
+            eq(goalSavingsPlans.isActive, true),
+            lte(goalSavingsPlans.nextContributionDate, asOf)
+          )
+        )
+        .orderBy(goalSavingsPlans.nextContributionDate);
+    } catch (error) {
+      console.error('Error getting due goal savings plans:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Record the outcome of a scheduled run and move the plan to its next contribution date.
+   * Missed periods are not replayed - the date is advanced until it lies in the future.
+   * A contribution is written in the same transaction, and nothing is written unless the plan
+   * is still due on `dueDate`.
+   * @returns the advanced plan, or null when another run already handled this due date
+   */
+  async advanceGoalSavingsPlan(
+    id: number,
+    userId: string,
+    dueDate: number,
+    status: "contributed" | "skipped_insufficient_balance",
+    contribution?: { goal: Goal; amount: number; description?: string }
+  ): Promise<any> {
+    const [existing] = await db
+      .select()
+      .from(goalSavingsPlans)
+      .where(and(eq(goalSavingsPlans.id, id), eq(goalSavingsPlans.userId, userId)));
+
+    if (!existing) {
+      throw new Error("Savings plan not found");
+    }
+
+    const boost = contribution
+      ? await this.prepareGoalBoost(contribution.goal, contribution.amount, contribution.description)
+      : undefined;
+
+    const now = Math.floor(Date.now() / 1000);
+    let nextDate = new Date(dueDate * 1000);
+    do {
+      nextDate = this.calculateNextContributionDate(existing.frequency, nextDate);
+    } while (nextDate.getTime() / 1000 <= now);
+
+    const plan = db.transaction((tx) => {
+      const [advanced] = tx
+        .update(goalSavingsPlans)
+        .set({
+          nextContributionDate: Math.floor(nextDate.getTime() / 1000),
+          lastRunDate: now,
+          lastRunStatus: status,
+          updatedAt: now,
+        })
+        .where(and(
+          eq(goalSavingsPlans.id, id),
+          eq(goalSavingsPlans.userId, userId),
+          eq(goalSavingsPlans.isActive, true),
+          eq(goalSavingsPlans.nextContributionDate, dueDate)
+        ))
+        .returning()
+        .all();
+      if (!advanced) {
+        return null;
+      }
+
+      if (boost) {
+        this.writeGoalBoost(tx, boost);
+      }
+      return advanced;
+    });
+
+    if (plan && boost) {
+      this.notifyTransactionsWritten(userId);
+    }
+    return plan;
+  }
+  
   // Helper for calculating next contribution date based on frequency
-  private calculateNextContributionDate(frequency: string): Date {
-    const now = new Date();
+  private calculateNextContributionDate(frequency: string, from: Date = new Date()): Date {
+    const now = new Date(from);
     
     switch(frequency) {
       case 'weekly':
@@ -784,16 +2548,104 @@ export class DatabaseStorage implements IStorage {
     return now;
   }
 
+  // Helper for calculating the first run date of a recurring template, on or after its start date
+  private calculateFirstRecurringDate(startDate: number, frequency: string, dayOfMonth?: number | null): number {
+    if (!dayOfMonth || (frequency !== 'monthly' && frequency !== 'yearly')) {
+      return startDate;
+    }
+
+    const start = new Date(startDate * 1000);
+    const candidate = new Date(start);
+    candidate.setDate(1);
+    candidate.setDate(Math.min(dayOfMonth, this.getDaysInMonth(candidate.getFullYear(), candidate.getMonth())));
+
+    if (candidate.getTime() >= start.getTime()) {
+      return Math.floor(candidate.getTime() / 1000);
+    }
+
+    return this.calculateNextRecurringDate(Math.floor(candidate.getTime() / 1000), frequency, dayOfMonth);
+  }
+
+  // Helper for calculating the next run date of a recurring template based on frequency
+  private calculateNextRecurringDate(fromDate: number, frequency: string, dayOfMonth?: number | null): number {
+    const date = new Date(fromDate * 1000);
+
+    switch (frequency) {
+      case 'daily':
+        date.setDate(date.getDate() + 1);
+        break;
+      case 'weekly':
+        date.setDate(date.getDate() + 7);
+        break;
+      case 'monthly':
+      case 'yearly': {
+        // Move to the 1st first so short months don't overflow into the following month
+        const day = dayOfMonth || date.getDate();
+        date.setDate(1);
+        if (frequency === 'monthly') {
+          date.setMonth(date.getMonth() + 1);
+        } else {
+          date.setFullYear(date.getFullYear() + 1);
+        }
+        date.setDate(Math.min(day, this.getDaysInMonth(date.getFullYear(), date.getMonth())));
+        break;
+      }
+      default:
+        date.setMonth(date.getMonth() + 1);
+    }
+
+    return Math.floor(date.getTime() / 1000);
+  }
+
+  // Monthly and yearly templates without an explicit day keep the day of their start date
+  private getRecurringAnchorDay(frequency: string, startDate: number): number | null {
+    if (frequency !== 'monthly' && frequency !== 'yearly') {
+      return null;
+    }
+    return new Date(startDate * 1000).getDate();
+  }
+
+  private getDaysInMonth(year: number, month: number): number {
+    return new Date(year, month + 1, 0).getDate();
+  }
+
+  private isRecurringExhausted(
+    recurring: { endDate?: number | null; maxOccurrences?: number | null },
+    nextRunDate: number,
+    occurrenceCount: number
+  ): boolean {
+    if (recurring.maxOccurrences && occurrenceCount >= recurring.maxOccurrences) return true;
+    if (recurring.endDate && nextRunDate > recurring.endDate) return true;
+    return false;
+  }
+
+  // Cursors are opaque to clients: base64url of the last row's sort value and id
+  private encodeTransactionCursor(value: number, id: number): string {
+    return Buffer.from(JSON.stringify({ v: value, id })).toString("base64url");
+  }
+
+  private decodeTransactionCursor(cursor: string): { value: number; id: number } {
+    try {
+      const parsed = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+      if (typeof parsed.v !== "number" || typeof parsed.id !== "number") {
+        throw new Error();
+      }
+      return { value: parsed.v, id: parsed.id };
+    } catch {
+      throw new Error("Invalid cursor");
+    }
+  }
+
   // Analytics operations
   async getMonthlyExpenses(userId: string, months: number): Promise<any[]> {
     // Calculate timestamp for X months ago
     const monthsAgo = new Date();
     monthsAgo.setMonth(monthsAgo.getMonth() - months);
-    const startTimestamp = monthsAgo.getTime();
+    const startTimestamp = Math.floor(monthsAgo.getTime() / 1000); // Unix seconds
 
     const result = await db
       .select({
-        month: sql<string>`strftime('%Y-%m', datetime(date/1000, 'unixepoch'))`,
+        month: sql<string>`strftime('%Y-%m', datetime(date, 'unixepoch'))`,
         total: sum(transactions.amount),
         count: sql<number>`COUNT(*)`
       })
@@ -805,24 +2657,25 @@ export class DatabaseStorage implements IStorage {
           gte(transactions.date, startTimestamp)
         )
       )
-      .groupBy(sql`strftime('%Y-%m', datetime(date/1000, 'unixepoch'))`)
-      .orderBy(sql`strftime('%Y-%m', datetime(date/1000, 'unixepoch'))`);
+      .groupBy(sql`strftime('%Y-%m', datetime(date, 'unixepoch'))`)
+      .orderBy(sql`strftime('%Y-%m', datetime(date, 'unixepoch'))`);
     
     return result;
   }
 
   async getCategoryExpenses(userId: string, startDate: Date, endDate: Date): Promise<any[]> {
-    const startTimestamp = startDate.getTime(); // Convert to timestamp
-    const endTimestamp = endDate.getTime(); // Convert to timestamp
+    const startTimestamp = Math.floor(startDate.getTime() / 1000); // Convert to Unix seconds
+    const endTimestamp = Math.floor(endDate.getTime() / 1000); // Convert to Unix seconds
     
     const result = await db
       .select({
         categoryName: categories.name,
         categoryColor: categories.color,
-        total: sum(transactions.amount),
+        total: sql<string>`sum(${this.allocatedAmount})`,
       })
       .from(transactions)
-      .leftJoin(categories, eq(transactions.categoryId, categories.id))
+      .leftJoin(transactionSplits, eq(transactionSplits.transactionId, transactions.id))
+      .leftJoin(categories, eq(this.allocatedCategoryId, categories.id))
       .where(
         and(
           eq(transactions.userId, userId),
@@ -832,7 +2685,7 @@ export class DatabaseStorage implements IStorage {
         )
       )
       .groupBy(categories.name, categories.color)
-      .orderBy(desc(sum(transactions.amount)));
+      .orderBy(desc(sql`sum(${this.allocatedAmount})`));
     
     return result;
   }
@@ -858,86 +2711,33 @@ export class DatabaseStorage implements IStorage {
         )
       );
 
+    // Opening balances of all accounts - transfers between accounts net out to zero
+    const openingBalances = await db
+      .select({ total: sum(accounts.openingBalance) })
+      .from(accounts)
+      .where(eq(accounts.userId, userId));
+
     const totalIncome = parseFloat(income[0]?.total || "0");
     const totalExpenses = parseFloat(expenses[0]?.total || "0");
+    const totalOpening = parseFloat(openingBalances[0]?.total || "0");
     
-    return totalIncome - totalExpenses;
+    return totalOpening + totalIncome - totalExpenses;
   }
 
   async getMonthlyIncome(userId: string, year: number, month: number): Promise<number> {
-    const startDate = new Date(year, month, 1).getTime() / 1000; // Convert to Unix seconds
-    const endDate = new Date(year, month + 1, 0).getTime() / 1000; // Convert to Unix seconds
-
-    console.log(`getMonthlyIncome: ${year}-${month + 1}, range: ${startDate} to ${endDate}`);
-
-    // Get all user income transactions and filter by date range
-    const allTransactions = await db
-      .select()
-      .from(transactions)
-      .where(
-        and(
-          eq(transactions.userId, userId),
-          eq(transactions.type, "income")
-        )
-      );
-
-    console.log(`Found ${allTransactions.length} income transactions for user ${userId}`);
-    allTransactions.forEach(t => {
-      const normalizedDate = this.normalizeTimestamp(t.date);
-      const dateObj = new Date(normalizedDate * 1000);
-      console.log(`Transaction ${t.id}: ${t.amount} IDR on ${dateObj.toLocaleDateString()} (raw: ${t.date}, normalized: ${normalizedDate})`);
-    });
+    const startDate = Math.floor(new Date(year, month, 1).getTime() / 1000); // Convert to Unix seconds
+    const endDate = Math.floor(new Date(year, month + 1, 1).getTime() / 1000) - 1; // Last second of the month
 
-    // Filter transactions within date range using normalized timestamps
-    const filteredTransactions = allTransactions.filter(transaction => 
-      this.isDateInRange(transaction.date, startDate, endDate)
-    );
-
-    console.log(`Filtered to ${filteredTransactions.length} transactions in range`);
-
-    // Calculate total income
-    const total = filteredTransactions.reduce((sum, transaction) => sum + transaction.amount, 0);
-    
-    console.log(`Total monthly income: ${total}`);
-    return total;
+    const { income } = await this.getTransactionTotalsInRange(userId, startDate, endDate);
+    return income;
   }
 
   async getMonthlyExpenseTotal(userId: string, year: number, month: number): Promise<number> {
-    const startDate = new Date(year, month, 1).getTime() / 1000; // Convert to Unix seconds
-    const endDate = new Date(year, month + 1, 0).getTime() / 1000; // Convert to Unix seconds
-
-    console.log(`getMonthlyExpenseTotal: ${year}-${month + 1}, range: ${startDate} to ${endDate}`);
-
-    // Get all user expense transactions and filter by date range
-    const allTransactions = await db
-      .select()
-      .from(transactions)
-      .where(
-        and(
-          eq(transactions.userId, userId),
-          eq(transactions.type, "expense")
-        )
-      );
-
-    console.log(`Found ${allTransactions.length} expense transactions for user ${userId}`);
-    allTransactions.forEach(t => {
-      const normalizedDate = this.normalizeTimestamp(t.date);
-      const dateObj = new Date(normalizedDate * 1000);
-      console.log(`Transaction ${t.id}: ${t.amount} IDR on ${dateObj.toLocaleDateString()} (raw: ${t.date}, normalized: ${normalizedDate})`);
-    });
+    const startDate = Math.floor(new Date(year, month, 1).getTime() / 1000); // Convert to Unix seconds
+    const endDate = Math.floor(new Date(year, month + 1, 1).getTime() / 1000) - 1; // Last second of the month
 
-    // Filter transactions within date range using normalized timestamps
-    const filteredTransactions = allTransactions.filter(transaction => 
-      this.isDateInRange(transaction.date, startDate, endDate)
-    );
-
-    console.log(`Filtered to ${filteredTransactions.length} transactions in range`);
-
-    // Calculate total expenses
-    const total = filteredTransactions.reduce((sum, transaction) => sum + transaction.amount, 0);
-    
-    console.log(`Total monthly expenses: ${total}`);
-    return total;
+    const { expense } = await this.getTransactionTotalsInRange(userId, startDate, endDate);
+    return expense;
   }
 
   // Get previous month data for comparison
@@ -965,42 +2765,17 @@ export class DatabaseStorage implements IStorage {
   // Get today's spending from database
   async getTodaySpending(userId: string): Promise<number> {
     const now = new Date();
-    const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime() / 1000;
-    const endOfToday = (startOfToday * 1000 + (24 * 60 * 60 * 1000) - 1) / 1000;
-
-    console.log(`getTodaySpending: range ${startOfToday} to ${endOfToday}`);
-
-    // Get all user expense transactions and filter by today's date
-    const allTransactions = await db
-      .select()
-      .from(transactions)
-      .where(
-        and(
-          eq(transactions.userId, userId),
-          eq(transactions.type, "expense")
-        )
-      );
-
-    console.log(`Found ${allTransactions.length} expense transactions for user ${userId}`);
-
-    // Filter transactions for today using normalized timestamps
-    const todayTransactions = allTransactions.filter(transaction => 
-      this.isDateInRange(transaction.date, startOfToday, endOfToday)
-    );
-
-    console.log(`Filtered to ${todayTransactions.length} transactions for today`);
+    const startOfToday = Math.floor(new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime() / 1000);
+    const endOfToday = startOfToday + 24 * 60 * 60 - 1;
 
-    // Calculate total spending for today
-    const total = todayTransactions.reduce((sum, transaction) => sum + transaction.amount, 0);
-    
-    console.log(`Total today spending: ${total}`);
-    return total;
+    const { expense } = await this.getTransactionTotalsInRange(userId, startOfToday, endOfToday);
+    return expense;
   }
 
   // Get weekly spending from database  
   async getWeeklySpending(userId: string): Promise<number> {
     const now = new Date();
-    const startOfWeek = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000).getTime();
+    const startOfWeek = Math.floor((now.getTime() - 7 * 24 * 60 * 60 * 1000) / 1000); // Unix seconds
 
     const result = await db
       .select({ total: sum(transactions.amount) })
@@ -1033,9 +2808,12 @@ export class DatabaseStorage implements IStorage {
     const expenseRatio = monthlyIncome > 0 ? (monthlyExpenses / monthlyIncome * 100) : 100;
     
     // Get recent transaction activity (last 30 days)
-    const thirtyDaysAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-    const recentTransactions = await this.getTransactionsByDateRange(userId, thirtyDaysAgo, now);
-    const hasRecentActivity = recentTransactions.length > 0;
+    const thirtyDaysAgo = Math.floor((now.getTime() - 30 * 24 * 60 * 60 * 1000) / 1000);
+    const [recentActivity] = await db
+      .select({ count: sql<number>`COUNT(*)` })
+      .from(transactions)
+      .where(and(eq(transactions.userId, userId), gte(transactions.date, thirtyDaysAgo)));
+    const hasRecentActivity = Number(recentActivity?.count || 0) > 0;
     
     // Calculate financial score (0-100)
     let score = 50; // Base score
@@ -1109,6 +2887,7 @@ export class DatabaseStorage implements IStorage {
       investmentChange: string;
     };
     investmentGrowth: string;
+    accounts: AccountWithBalance[];
   }> {
     const now = new Date();
     const currentMonth = now.getMonth();
@@ -1125,7 +2904,8 @@ export class DatabaseStorage implements IStorage {
       todaySpending,
       weeklySpending,
       monthlyExpenses,
-      previousMonthData
+      previousMonthData,
+      accountBalances
     ] = await Promise.all([
       this.calculateFinancialScore(userId),
       this.getTotalBalance(userId),
@@ -1134,7 +2914,8 @@ export class DatabaseStorage implements IStorage {
       this.getTodaySpending(userId),
       this.getWeeklySpending(userId),
       this.getMonthlyExpenses(userId, 6),
-      this.getPreviousMonthData(userId)
+      this.getPreviousMonthData(userId),
+      this.getAccountBalances(userId)
     ]);
 
     // Get current month category breakdown
@@ -1196,7 +2977,8 @@ export class DatabaseStorage implements IStorage {
         savingsRateChange: savingsRateChange.toFixed(1),
         investmentChange: investmentChange.toFixed(1)
       },
-      investmentGrowth: investmentGrowth.toFixed(1)
+      investmentGrowth: investmentGrowth.toFixed(1),
+      accounts: accountBalances
     };
   }
 
@@ -1215,6 +2997,7 @@ export class DatabaseStorage implements IStorage {
     projectedBalance: number;
     burnRate: number;
     cashFlowTrend: Array<{ date: string; amount: number; weekStart: string; weekEnd: string }>;
+    accounts: AccountWithBalance[];
   }> {
     const now = new Date();
     const currentMonth = now.getMonth();
@@ -1223,10 +3006,11 @@ export class DatabaseStorage implements IStorage {
     console.log(`Live Cash Flow: Calculating for ${currentYear}-${currentMonth + 1}`);
 
     // Get basic financial data
-    const [currentBalance, monthlyIncome, monthlyExpenses] = await Promise.all([
+    const [currentBalance, monthlyIncome, monthlyExpenses, accountBalances] = await Promise.all([
       this.getTotalBalance(userId),
       this.getMonthlyIncome(userId, currentYear, currentMonth),
-      this.getMonthlyExpenseTotal(userId, currentYear, currentMonth)
+      this.getMonthlyExpenseTotal(userId, currentYear, currentMonth),
+      this.getAccountBalances(userId)
     ]);
     
     const monthlyCashFlow = monthlyIncome - monthlyExpenses;
@@ -1237,20 +3021,11 @@ export class DatabaseStorage implements IStorage {
     const nowTimestamp = Math.floor(now.getTime() / 1000); // Convert to Unix seconds
     
     // Use precise start/end dates with Unix seconds
-    const last30DaysTransactions = await this.getTransactionsByDateRange(
-      userId,
-      new Date(thirtyDaysAgoTimestamp * 1000),
-      new Date(nowTimestamp * 1000)
-    );
+    const last30DaysTotals = await this.getTransactionTotalsInRange(userId, thirtyDaysAgoTimestamp, nowTimestamp);
     
     // Calculate daily averages
-    const dailyIncomeTotal = last30DaysTransactions
-      .filter(t => t.type === 'income')
-      .reduce((sum, t) => sum + t.amount, 0) / 30;
-    
-    const dailyExpenseTotal = last30DaysTransactions
-      .filter(t => t.type === 'expense')
-      .reduce((sum, t) => sum + t.amount, 0) / 30;
+    const dailyIncomeTotal = last30DaysTotals.income / 30;
+    const dailyExpenseTotal = last30DaysTotals.expense / 30;
     
     const dailyCashFlow = dailyIncomeTotal - dailyExpenseTotal;
 
@@ -1291,34 +3066,18 @@ export class DatabaseStorage implements IStorage {
       // Log for debugging
       console.log(`Week ${5-i}: ${weekStartFormatted} to ${weekEndFormatted} [${weekStartTimestamp}-${weekEndTimestamp}]`);
       
-      // Get transactions for this week using precise timestamp ranges
-      const weekTransactions = await this.getTransactionsByDateRange(
-        userId, 
-        weekStartTime,
-        weekEndTime
+      // Aggregate this week's cash flow in SQL using precise timestamp ranges
+      const { income: weekIncome, expense: weekExpense } = await this.getTransactionTotalsInRange(
+        userId,
+        weekStartTimestamp,
+        weekEndTimestamp
       );
       
-      // Calculate net cash flow for the week
-      const weekIncome = weekTransactions
-        .filter(t => t.type === 'income')
-        .reduce((sum, t) => sum + t.amount, 0);
-        
-      const weekExpense = weekTransactions
-        .filter(t => t.type === 'expense')
-        .reduce((sum, t) => sum + t.amount, 0);
-      
       const weekNetFlow = weekIncome - weekExpense;
       
       // Use a more descriptive label format for the week
       const weekLabel = `${weekStartFormatted}`;
       
-      // Log transactions for debugging
-      console.log(`Week ${5-i} transactions: ${weekTransactions.length}`);
-      weekTransactions.forEach(t => {
-        const date = new Date(this.normalizeTimestamp(t.date) * 1000);
-        console.log(`  - ${t.type}: ${t.amount} (${date.toISOString().split('T')[0]})`);
-      });
-      
       // Add to trend data with better labeling
       cashFlowTrend.push({
         date: weekLabel,
@@ -1354,7 +3113,8 @@ export class DatabaseStorage implements IStorage {
       monthlyCashFlow,
       projectedBalance,
       burnRate,
-      cashFlowTrend
+      cashFlowTrend,
+      accounts: accountBalances
     };
   }
 
@@ -1394,23 +3154,31 @@ export class DatabaseStorage implements IStorage {
     // Group by category and month
     const categoryMonthlySpending: Record<number, Record<string, number>> = {};
     
+    const categoryNames: Record<number, string> = {};
+    
     expenseTransactions.forEach(transaction => {
-      if (!transaction.categoryId) return;
-      
-      // Use normalized timestamp for consistent date handling
-      const normalizedTimestamp = this.normalizeTimestamp(transaction.date);
-      const transactionDate = new Date(normalizedTimestamp * 1000);
+      const transactionDate = new Date(transaction.date * 1000);
       const monthKey = `${transactionDate.getFullYear()}-${transactionDate.getMonth()}`;
       
-      if (!categoryMonthlySpending[transaction.categoryId]) {
-        categoryMonthlySpending[transaction.categoryId] = {};
-      }
+      // Split transactions contribute each part to its own category
+      const parts = transaction.splits?.length
+        ? transaction.splits.map(split => ({ categoryId: split.categoryId, amount: split.amount, category: split.category }))
+        : [{ categoryId: transaction.categoryId, amount: transaction.amount, category: transaction.category }];
       
-      if (!categoryMonthlySpending[transaction.categoryId][monthKey]) {
-        categoryMonthlySpending[transaction.categoryId][monthKey] = 0;
+      for (const part of parts) {
+        if (!part.categoryId) continue;
+        
+        if (!categoryMonthlySpending[part.categoryId]) {
+          categoryMonthlySpending[part.categoryId] = {};
+        }
+        
+        if (!categoryMonthlySpending[part.categoryId][monthKey]) {
+          categoryMonthlySpending[part.categoryId][monthKey] = 0;
+        }
+        
+        categoryMonthlySpending[part.categoryId][monthKey] += part.amount;
+        if (part.category?.name) categoryNames[part.categoryId] = part.category.name;
       }
-      
-      categoryMonthlySpending[transaction.categoryId][monthKey] += transaction.amount;
     });
 
     // Calculate patterns for each category
@@ -1440,7 +3208,7 @@ export class DatabaseStorage implements IStorage {
       const volatility = monthlyAverage > 0 ? standardDeviation / monthlyAverage : 0;
       
       // Get category name
-      const categoryName = expenseTransactions.find(t => t.categoryId === categoryId)?.category?.name || 'Unknown';
+      const categoryName = categoryNames[categoryId] || 'Unknown';
       
       return {
         categoryId,
@@ -1500,18 +3268,22 @@ export class DatabaseStorage implements IStorage {
   }
 
   /**
-   * Get all active WhatsApp integrations for a user
+   * Get the chat accounts linked to a user, optionally for one channel
    */
-  async getUserWhatsAppIntegrations(userId: string): Promise<WhatsappIntegration[]> {
+  async getUserMessagingIntegrations(userId: string, channel?: MessagingChannel): Promise<MessagingIntegration[]> {
     try {
-      const integrations = await db
+      const conditions = [eq(messagingIntegrations.userId, userId)];
+      if (channel) {
+        conditions.push(eq(messagingIntegrations.channel, channel));
+      }
+
+      return await db
         .select()
-        .from(whatsappIntegrations)
-        .where(eq(whatsappIntegrations.userId, userId));
-      
-      return integrations;
+        .from(messagingIntegrations)
+        .where(and(...conditions))
+        .orderBy(messagingIntegrations.createdAt);
     } catch (error) {
-      console.error('Error getting user WhatsApp integrations:', error);
+      console.error('Error getting user messaging integrations:', error);
       return [];
     }
   }
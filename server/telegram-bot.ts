@@ -0,0 +1,137 @@
+import { createMessagingProvider, isMessagingSimulatorEnabled, type MessagingEvent, type MessagingProvider } from './messaging-provider';
+import { TelegramProvider } from './telegram-provider';
+import { handleIncomingMessage } from './whatsapp-service';
+
+// One Telegram bot for all users, answering with the same handlers as the WhatsApp bot. It only
+// runs when TELEGRAM_BOT_TOKEN is set (or on the simulator, as session "monly-telegram-bot").
+
+export const TELEGRAM_BOT_SESSION_ID = 'monly-telegram-bot';
+
+interface TelegramBotConnection {
+  provider: MessagingProvider;
+  reconnectAttempts: number;
+  maxReconnectAttempts: number;
+}
+
+let telegramBot: TelegramBotConnection | null = null;
+
+export const isTelegramBotConfigured = (): boolean => Boolean(process.env.TELEGRAM_BOT_TOKEN) || isMessagingSimulatorEnabled();
+
+/**
+ * Start the Telegram bot, unless it is already running or not configured
+ * @returns The bot connection, or null without a bot token
+ */
+export const initializeTelegramBot = (): TelegramBotConnection | null => {
+  if (!isTelegramBotConfigured()) {
+    return null;
+  }
+  if (telegramBot && telegramBot.provider.getState().status !== 'disconnected') {
+    return telegramBot;
+  }
+
+  const provider = createMessagingProvider(TELEGRAM_BOT_SESSION_ID, 'telegram');
+  const connection: TelegramBotConnection = {
+    provider,
+    reconnectAttempts: telegramBot?.reconnectAttempts ?? 0,
+    maxReconnectAttempts: 5
+  };
+  telegramBot = connection;
+
+  provider.onMessage((message) => handleIncomingMessage(message, 'telegram'));
+  provider.onEvent((event) => handleBotEvent(connection, event));
+
+  provider.initialize().catch((error) => {
+    console.error('❌ Failed to initialize Telegram Bot:', error);
+  });
+
+  return connection;
+};
+
+const handleBotEvent = (connection: TelegramBotConnection, event: MessagingEvent) => {
+  switch (event.type) {
+    case 'ready':
+      console.log(`✅ Monly Telegram Bot is ready! (${connection.provider.name})`);
+      connection.reconnectAttempts = 0;
+      break;
+
+    case 'auth_failure':
+      // A wrong token won't get better by retrying
+      console.error(`❌ Telegram Bot token rejected: ${event.reason}`);
+      break;
+
+    case 'disconnected': {
+      console.log(`📱 Telegram Bot disconnected: ${event.reason}`);
+      if (connection !== telegramBot || connection.reconnectAttempts >= connection.maxReconnectAttempts) {
+        console.log('❌ Max reconnection attempts reached for Telegram Bot');
+        break;
+      }
+
+      connection.reconnectAttempts++;
+      const backoffDelay = Math.min(30000 * Math.pow(2, connection.reconnectAttempts - 1), 300000); // Max 5 minutes
+      console.log(`🔄 Reconnecting Telegram Bot in ${backoffDelay / 1000}s (attempt ${connection.reconnectAttempts}/${connection.maxReconnectAttempts})`);
+      setTimeout(() => {
+        if (connection === telegramBot) {
+          initializeTelegramBot();
+        }
+      }, backoffDelay);
+      break;
+    }
+  }
+};
+
+/**
+ * Get the current Telegram bot state
+ */
+export const getTelegramBotState = () => {
+  const provider = telegramBot?.provider;
+  const status = provider ? provider.getState().status : 'disconnected';
+  const username = provider instanceof TelegramProvider ? provider.getUsername() : null;
+
+  return {
+    enabled: isTelegramBotConfigured(),
+    connected: status === 'ready',
+    status,
+    username,
+    // Opening this link sends "/start <code>", which links the chat in one tap
+    linkUrl: username ? `https://t.me/${username}` : null
+  };
+};
+
+/**
+ * Send a message to a linked Telegram chat
+ * @param chatId The Telegram chat id
+ * @param message The message to send
+ */
+export const sendTelegramMessage = async (
+  chatId: string,
+  message: string
+): Promise<{ success: boolean; message?: string }> => {
+  try {
+    if (!telegramBot || telegramBot.provider.getState().status !== 'ready') {
+      return {
+        success: false,
+        message: 'Telegram Bot not ready'
+      };
+    }
+
+    await telegramBot.provider.sendText(chatId, message);
+    return { success: true };
+  } catch (error) {
+    console.error('Error sending Telegram Bot message:', error);
+    return {
+      success: false,
+      message: 'Failed to send message'
+    };
+  }
+};
+
+/**
+ * Stop the Telegram bot
+ */
+export const stopTelegramBot = async (): Promise<void> => {
+  if (!telegramBot) return;
+
+  const { provider } = telegramBot;
+  telegramBot = null;
+  await provider.destroy();
+};
@@ -0,0 +1,306 @@
+import type {
+  ConnectionStatus,
+  IncomingMessage,
+  IncomingMessageType,
+  MediaAttachment,
+  MessageHandler,
+  MessagingConnectionState,
+  MessagingEvent,
+  MessagingEventListener,
+  MessagingProvider,
+  SentMessage,
+} from './messaging-provider';
+import { ChatMessageQueue } from './messaging-common';
+
+// Telegram Bot API over long polling - no public webhook URL needed, and the base URL can point at
+// a local fake of the Bot API. Telegram has no QR login: the bot token is the session, so a
+// provider goes straight from initializing to ready, or to auth_failure for a rejected token.
+
+export const DEFAULT_TELEGRAM_API_BASE_URL = 'https://api.telegram.org';
+
+interface TelegramResponse<T> {
+  ok: boolean;
+  result: T;
+  error_code?: number;
+  description?: string;
+}
+
+interface TelegramUser {
+  id: number;
+  first_name?: string;
+  last_name?: string;
+  username?: string;
+}
+
+interface TelegramFileRef {
+  file_id: string;
+  mime_type?: string;
+  file_name?: string;
+}
+
+interface TelegramMessage {
+  message_id: number;
+  from?: TelegramUser;
+  chat: { id: number; type: string };
+  text?: string;
+  caption?: string;
+  voice?: TelegramFileRef;
+  audio?: TelegramFileRef;
+  photo?: TelegramFileRef[]; // Every size, smallest first
+  document?: TelegramFileRef;
+  reply_to_message?: { message_id: number };
+}
+
+interface TelegramUpdate {
+  update_id: number;
+  message?: TelegramMessage;
+}
+
+class TelegramApiError extends Error {
+  constructor(readonly method: string, readonly code: number, description?: string) {
+    super(`Telegram ${method} failed (${code}): ${description || 'unknown error'}`);
+    this.name = 'TelegramApiError';
+  }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Message ids are only unique within a chat
+const toMessageId = (chatId: number | string, messageId: number) => `${chatId}:${messageId}`;
+
+export class TelegramProvider implements MessagingProvider {
+  readonly name = 'telegram';
+  private status: ConnectionStatus = 'disconnected';
+  private username: string | null = null;
+  private offset = 0;
+  private polling = false;
+  private pollAbort: AbortController | null = null;
+  private messageHandlers: MessageHandler[] = [];
+  private queue = new ChatMessageQueue('Telegram', this.messageHandlers);
+  private eventListeners: MessagingEventListener[] = [];
+
+  /**
+   * @param pollTimeout Seconds a getUpdates request waits for new messages
+   */
+  constructor(
+    readonly sessionId: string,
+    private token: string,
+    private baseUrl: string = DEFAULT_TELEGRAM_API_BASE_URL,
+    private pollTimeout = 30
+  ) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  getState(): MessagingConnectionState {
+    return { status: this.status, qrCode: null };
+  }
+
+  /** The bot's @username, known once it is ready - for t.me links */
+  getUsername(): string | null {
+    return this.username;
+  }
+
+  async initialize(): Promise<void> {
+    this.status = 'initializing';
+
+    try {
+      const me = await this.call<TelegramUser>('getMe');
+      this.username = me.username || null;
+    } catch (error) {
+      this.status = 'disconnected';
+      if (error instanceof TelegramApiError && error.code === 401) {
+        this.emit({ type: 'auth_failure', reason: error.message });
+        return;
+      }
+      this.emit({ type: 'disconnected', reason: error instanceof Error ? error.message : String(error) });
+      return;
+    }
+
+    this.status = 'authenticated';
+    this.emit({ type: 'authenticated' });
+    this.status = 'ready';
+    this.emit({ type: 'ready' });
+
+    this.poll();
+  }
+
+  async destroy(): Promise<void> {
+    this.polling = false;
+    this.pollAbort?.abort();
+    this.status = 'disconnected';
+  }
+
+  async isHealthy(): Promise<boolean> {
+    return this.polling && this.status === 'ready';
+  }
+
+  async sendText(to: string, text: string): Promise<SentMessage> {
+    return this.sendMessage(to, text);
+  }
+
+  async sendMedia(to: string, media: MediaAttachment, caption?: string): Promise<SentMessage> {
+    const isImage = media.mimetype.startsWith('image/');
+    const form = new FormData();
+    form.append('chat_id', to);
+    if (caption) form.append('caption', caption);
+    form.append(
+      isImage ? 'photo' : 'document',
+      new Blob([Buffer.from(media.data, 'base64')], { type: media.mimetype }),
+      media.filename || (isImage ? 'image' : 'file')
+    );
+
+    const sent = await this.call<TelegramMessage>(isImage ? 'sendPhoto' : 'sendDocument', form);
+    return { id: toMessageId(to, sent.message_id) };
+  }
+
+  onMessage(handler: MessageHandler): void {
+    this.messageHandlers.push(handler);
+  }
+
+  onEvent(listener: MessagingEventListener): void {
+    this.eventListeners.push(listener);
+  }
+
+  private emit(event: MessagingEvent) {
+    for (const listener of this.eventListeners) {
+      listener(event);
+    }
+  }
+
+  private async call<T>(method: string, body?: Record<string, unknown> | FormData, signal?: AbortSignal): Promise<T> {
+    const isForm = body instanceof FormData;
+    const response = await fetch(`${this.baseUrl}/bot${this.token}/${method}`, {
+      method: 'POST',
+      headers: isForm ? undefined : { 'Content-Type': 'application/json' },
+      body: isForm ? body : JSON.stringify(body || {}),
+      signal,
+    });
+
+    const payload = await response.json() as TelegramResponse<T>;
+    if (!payload.ok) {
+      throw new TelegramApiError(method, payload.error_code || response.status, payload.description);
+    }
+    return payload.result;
+  }
+
+  /**
+   * Replies are written with WhatsApp's *bold* and _italic_, which Telegram's legacy Markdown
+   * reads the same way. Text that isn't valid Markdown (a lone "_" in a name) goes out plain.
+   */
+  private async sendMessage(chatId: string, text: string, replyTo?: number): Promise<SentMessage> {
+    const body: Record<string, unknown> = { chat_id: chatId, text, parse_mode: 'Markdown' };
+    if (replyTo) {
+      body.reply_parameters = { message_id: replyTo, allow_sending_without_reply: true };
+    }
+
+    let sent: TelegramMessage;
+    try {
+      sent = await this.call<TelegramMessage>('sendMessage', body);
+    } catch (error) {
+      if (!(error instanceof TelegramApiError) || error.code !== 400) throw error;
+      delete body.parse_mode;
+      sent = await this.call<TelegramMessage>('sendMessage', body);
+    }
+    return { id: toMessageId(chatId, sent.message_id) };
+  }
+
+  private async poll() {
+    this.polling = true;
+    let failures = 0;
+
+    while (this.polling) {
+      try {
+        this.pollAbort = new AbortController();
+        const updates = await this.call<TelegramUpdate[]>('getUpdates', {
+          offset: this.offset,
+          timeout: this.pollTimeout,
+          allowed_updates: ['message'],
+        }, this.pollAbort.signal);
+        failures = 0;
+
+        for (const update of updates) {
+          this.offset = update.update_id + 1;
+          const message = update.message && this.toIncomingMessage(update.message);
+          if (message) {
+            this.queue.enqueue(message);
+          }
+        }
+      } catch (error) {
+        if (!this.polling) break;
+
+        // A rejected token, or another process polling with the same one
+        if (error instanceof TelegramApiError && (error.code === 401 || error.code === 409)) {
+          this.polling = false;
+          this.status = 'disconnected';
+          this.emit({ type: 'disconnected', reason: error.message });
+          break;
+        }
+
+        failures++;
+        const delay = Math.min(1000 * Math.pow(2, failures), 60000);
+        console.error(`Telegram polling failed, retrying in ${delay / 1000}s:`, error instanceof Error ? error.message : error);
+        await sleep(delay);
+      }
+    }
+  }
+
+  private toIncomingMessage(message: TelegramMessage): IncomingMessage | null {
+    // Skip groups and channels, like WhatsApp group chats
+    if (message.chat.type !== 'private') {
+      return null;
+    }
+
+    const chatId = String(message.chat.id);
+    const file = this.getFile(message);
+    const sender = message.from;
+    const senderName = [sender?.first_name, sender?.last_name].filter(Boolean).join(' ') || sender?.username || null;
+    const replyTo = message.reply_to_message;
+
+    return {
+      id: toMessageId(chatId, message.message_id),
+      from: chatId,
+      senderName,
+      type: file ? file.type : (message.text ? 'chat' : 'other'),
+      body: message.text || message.caption || '',
+      hasQuotedMsg: Boolean(replyTo),
+      getQuotedMsg: async () => replyTo ? { id: toMessageId(chatId, replyTo.message_id) } : null,
+      downloadMedia: async () => file ? this.download(file.ref, file.mimetype) : null,
+      reply: (text: string) => this.sendMessage(chatId, text, message.message_id),
+    };
+  }
+
+  private getFile(message: TelegramMessage): { type: IncomingMessageType; ref: TelegramFileRef; mimetype: string } | null {
+    if (message.voice) {
+      return { type: 'ptt', ref: message.voice, mimetype: message.voice.mime_type || 'audio/ogg' };
+    }
+    if (message.audio) {
+      return { type: 'audio', ref: message.audio, mimetype: message.audio.mime_type || 'audio/mpeg' };
+    }
+    if (message.photo && message.photo.length > 0) {
+      return { type: 'image', ref: message.photo[message.photo.length - 1], mimetype: 'image/jpeg' };
+    }
+    // A receipt sent "as file" to keep its quality
+    if (message.document?.mime_type?.startsWith('image/')) {
+      return { type: 'image', ref: message.document, mimetype: message.document.mime_type };
+    }
+    return null;
+  }
+
+  private async download(ref: TelegramFileRef, mimetype: string): Promise<MediaAttachment> {
+    const file = await this.call<{ file_path?: string }>('getFile', { file_id: ref.file_id });
+    if (!file.file_path) {
+      throw new Error('Telegram did not return a file path');
+    }
+
+    const response = await fetch(`${this.baseUrl}/file/bot${this.token}/${file.file_path}`);
+    if (!response.ok) {
+      throw new Error(`Telegram file download failed (${response.status})`);
+    }
+
+    return {
+      data: Buffer.from(await response.arrayBuffer()).toString('base64'),
+      mimetype,
+      filename: ref.file_name || file.file_path.split('/').pop() || null,
+    };
+  }
+}
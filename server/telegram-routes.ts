@@ -0,0 +1,96 @@
+import express from 'express';
+import { Response } from 'express';
+import { requireAuth, AuthRequest } from './auth';
+import { db } from './db';
+import { messagingIntegrations } from '@shared/schema';
+import { eq, and } from 'drizzle-orm';
+import { storage } from './storage';
+import { getTelegramBotState } from './telegram-bot';
+
+// Telegram chats are linked with the same activation codes as WhatsApp (POST /whatsapp/generate-code):
+// the user sends "AKTIVASI: <code>" to the bot, or opens t.me/<bot>?start=<code>.
+
+const router = express.Router();
+
+// Get Telegram Bot status
+router.get('/telegram/status', requireAuth, async (_req: AuthRequest, res: Response) => {
+  try {
+    res.json(getTelegramBotState());
+  } catch (error) {
+    console.error('Error getting Telegram Bot status:', error);
+    res.status(500).json({
+      connected: false,
+      status: 'error',
+      message: 'Failed to get Telegram Bot status'
+    });
+  }
+});
+
+// Get user's linked Telegram chats
+router.get('/telegram/connections', requireAuth, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated' });
+    }
+
+    const connections = await storage.getUserMessagingIntegrations(userId, 'telegram');
+    res.json({
+      success: true,
+      connections
+    });
+  } catch (error) {
+    console.error('Error fetching Telegram connections:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch Telegram connections'
+    });
+  }
+});
+
+// Unlink a Telegram chat
+router.delete('/telegram/connections/:id', requireAuth, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user?.id;
+    const connectionId = parseInt(req.params.id);
+
+    if (!userId) {
+      return res.status(401).json({ success: false, message: 'User not authenticated' });
+    }
+
+    if (!connectionId) {
+      return res.status(400).json({ success: false, message: 'Invalid connection ID' });
+    }
+
+    const deleted = await db
+      .delete(messagingIntegrations)
+      .where(
+        and(
+          eq(messagingIntegrations.id, connectionId),
+          eq(messagingIntegrations.userId, userId),
+          eq(messagingIntegrations.channel, 'telegram')
+        )
+      )
+      .returning();
+
+    if (deleted.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Telegram connection not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Telegram connection removed successfully'
+    });
+  } catch (error) {
+    console.error('Error disconnecting Telegram:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to disconnect Telegram'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,149 @@
+import { storage } from './storage';
+import { categorizationRuleService } from './categorization-rule-service';
+import { splitTransactionText } from './transaction-text-parser';
+import type { TransactionAnalysis, UserPreferences } from './openai';
+import { insertTransactionSchema, type Category, type InsertTransaction, type Transaction } from '@shared/schema';
+
+// Messages that list several transactions at once - "makan 25rb, parkir 5rb, kopi 30rb" or one per
+// line. Every item is analyzed on its own, so it gets its own category and date, and the items are
+// saved together: all of them or, when one can't be saved, none.
+
+export interface SavedBatchItem {
+  transaction: Transaction;
+  analysis: TransactionAnalysis;
+  category: Category;
+}
+
+interface TransactionBatchService {
+  analyze(userId: string, text: string, categories: Category[], preferences?: UserPreferences): Promise<TransactionAnalysis[]>;
+  save(userId: string, analyses: TransactionAnalysis[], categories: Category[], preferences?: UserPreferences): Promise<SavedBatchItem[]>;
+  resolveCategories(userId: string, analyses: TransactionAnalysis[], categories: Category[], preferences?: UserPreferences): Promise<Array<Category | undefined>>;
+}
+
+class TransactionBatchServiceImpl implements TransactionBatchService {
+
+  /**
+   * One analysis per transaction in the message. A message with a single transaction gives a
+   * single analysis, exactly what analyzeTransactionText returns for it.
+   */
+  async analyze(
+    userId: string,
+    text: string,
+    categories: Category[],
+    preferences?: UserPreferences
+  ): Promise<TransactionAnalysis[]> {
+    const items = splitTransactionText(text);
+    if (items.length > 1) {
+      console.log(`🧾 Message from user ${userId} lists ${items.length} transactions`);
+    }
+
+    // One at a time - the items may each need the LLM and their order is the order of the reply
+    const analyses: TransactionAnalysis[] = [];
+    for (const item of items) {
+      analyses.push(await categorizationRuleService.analyzeTransactionText(userId, item, categories, preferences));
+    }
+    return analyses;
+  }
+
+  /**
+   * Save every analyzed item in one insert. Throws, without saving anything, when an item has no
+   * amount or no category to put it in.
+   */
+  async save(
+    userId: string,
+    analyses: TransactionAnalysis[],
+    categories: Category[],
+    preferences?: UserPreferences
+  ): Promise<SavedBatchItem[]> {
+    const available = [...categories];
+    const resolved: Category[] = [];
+
+    for (const analysis of analyses) {
+      if (!(analysis.amount > 0)) {
+        throw new Error(`No amount found for "${analysis.description}"`);
+      }
+
+      const category = await this.resolveCategory(userId, analysis, available, preferences);
+      if (!category) {
+        throw new Error(`No category found for "${analysis.description}"`);
+      }
+      resolved.push(category);
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const rows: InsertTransaction[] = analyses.map((analysis, index) => insertTransactionSchema.parse({
+      userId,
+      categoryId: resolved[index].id,
+      amount: analysis.amount,
+      currency: preferences?.defaultCurrency || 'USD',
+      description: analysis.description,
+      type: analysis.type,
+      date: analysis.date || now,
+      aiGenerated: true,
+    }));
+
+    const transactions = await storage.createTransactions(rows);
+    console.log(`🧾 Saved ${transactions.length} transactions from one message for user ${userId}`);
+
+    return transactions.map((transaction, index) => ({
+      transaction,
+      analysis: analyses[index],
+      category: resolved[index],
+    }));
+  }
+
+  /**
+   * The category each analysis is saved in, the way save picks it. Categories created on the way
+   * are added to the list, so saving with the same list afterwards puts the items in them too.
+   */
+  async resolveCategories(
+    userId: string,
+    analyses: TransactionAnalysis[],
+    categories: Category[],
+    preferences?: UserPreferences
+  ): Promise<Array<Category | undefined>> {
+    const resolved: Array<Category | undefined> = [];
+    for (const analysis of analyses) {
+      resolved.push(await this.resolveCategory(userId, analysis, categories, preferences));
+    }
+    return resolved;
+  }
+
+  // Same order as a single chat transaction: the named category, a new one when auto-categorize
+  // is on, then "Other". New categories are added to the list so later items reuse them.
+  private async resolveCategory(
+    userId: string,
+    analysis: TransactionAnalysis,
+    categories: Category[],
+    preferences?: UserPreferences
+  ): Promise<Category | undefined> {
+    const name = analysis.category.toLowerCase();
+    const existing = categories.find(category => category.name.toLowerCase() === name);
+    if (existing) return existing;
+
+    const suggested = analysis.suggestedNewCategory;
+    if (suggested && preferences?.autoCategorize) {
+      const created = categories.find(category => category.name.toLowerCase() === suggested.name.toLowerCase());
+      if (created) return created;
+
+      try {
+        const category = await storage.createCategory({
+          name: suggested.name,
+          icon: suggested.icon,
+          color: suggested.color,
+          type: suggested.type,
+          userId,
+          isDefault: false,
+        });
+        categories.push(category);
+        return category;
+      } catch (error) {
+        console.error('Failed to create new category:', error);
+      }
+    }
+
+    return categories.find(category => category.name.toLowerCase() === 'other');
+  }
+}
+
+export const transactionBatchService = new TransactionBatchServiceImpl();
@@ -0,0 +1,256 @@
+import type { TransactionAnalysis } from './openai';
+import { conversationStateService, type PendingDraft, type PendingDraftStep } from './conversation-state';
+import { extractAmount } from './transaction-text-parser';
+
+// Decides what happens to a parsed chat transaction, for WhatsApp and the web chat alike:
+//   high confidence   - saved right away
+//   medium confidence - shown as a draft: "1 = simpan, 2 = ubah kategori, 3 = batal"
+//   low confidence    - one targeted question about the field that is missing or unsure
+// An expense past a hard spending limit is held the same way until the user replies "tetap simpan".
+// Drafts wait in the conversation state until answered or expired.
+
+export const AUTO_SAVE_CONFIDENCE = 0.85;
+export const DRAFT_CONFIDENCE = 0.6;
+
+// Below this the message most likely wasn't a transaction at all, so no question is asked
+const MIN_QUESTION_CONFIDENCE = 0.3;
+
+const DRAFT_TTL_MS = 10 * 60 * 1000;
+
+type DraftCategory = { id: number; name: string; type: string };
+
+export type DraftDecision =
+  | { action: 'save'; analysis: TransactionAnalysis; batch?: TransactionAnalysis[]; overrideLimit?: boolean }
+  | { action: 'ask'; analysis: TransactionAnalysis; batch?: TransactionAnalysis[]; awaiting: PendingDraftStep }
+  | { action: 'cancel' }
+  | { action: 'unknown' };
+
+interface TransactionDraftService {
+  evaluate(userId: string, analysis: TransactionAnalysis, categories: DraftCategory[]): DraftDecision;
+  answer(userId: string, text: string, categories: DraftCategory[]): DraftDecision | null;
+  holdForLimit(userId: string, analyses: TransactionAnalysis[]): DraftDecision;
+  buildPrompt(decision: DraftDecision, categories: DraftCategory[], language: string, formatAmount: (amount: number) => string): string;
+}
+
+class TransactionDraftServiceImpl implements TransactionDraftService {
+
+  /**
+   * Pick the tier for a fresh analysis. Anything that needs an answer is stored as the user's
+   * pending draft, replacing an older one.
+   */
+  evaluate(userId: string, analysis: TransactionAnalysis, categories: DraftCategory[]): DraftDecision {
+    if (analysis.confidence < MIN_QUESTION_CONFIDENCE && !(analysis.amount > 0)) {
+      return { action: 'unknown' };
+    }
+
+    const missing = this.getMissingStep(analysis, categories);
+
+    let decision: DraftDecision;
+    if (analysis.confidence >= AUTO_SAVE_CONFIDENCE && missing !== 'amount') {
+      decision = { action: 'save', analysis };
+    } else if (analysis.confidence >= DRAFT_CONFIDENCE && missing !== 'amount') {
+      decision = { action: 'ask', analysis, awaiting: 'choice' };
+    } else {
+      // Nothing is missing but the parse is still unsure - the direction is the usual mix-up
+      decision = { action: 'ask', analysis, awaiting: missing || 'type' };
+    }
+
+    this.store(userId, decision);
+    return decision;
+  }
+
+  /**
+   * Keep transactions that would pass a hard spending limit as the pending draft, until the user
+   * confirms them anyway or cancels
+   */
+  holdForLimit(userId: string, analyses: TransactionAnalysis[]): DraftDecision {
+    const decision: DraftDecision = {
+      action: 'ask',
+      analysis: analyses[0],
+      batch: analyses.length > 1 ? analyses : undefined,
+      awaiting: 'limit_override',
+    };
+    this.store(userId, decision);
+    return decision;
+  }
+
+  /**
+   * Apply a reply to the user's pending draft. Returns null when there is no draft or the message
+   * doesn't answer it - the draft is dropped and the message should be handled as a new one.
+   */
+  answer(userId: string, text: string, categories: DraftCategory[]): DraftDecision | null {
+    const draft = conversationStateService.getPendingDraft(userId);
+    if (!draft) return null;
+
+    const reply = text.toLowerCase().trim();
+    const analysis = { ...draft.analysis };
+    let decision: DraftDecision | null = null;
+
+    switch (draft.awaiting) {
+      case 'choice':
+        if (/^(1|simpan|ya|iya|ok|oke|save|yes)$/.test(reply)) {
+          decision = { action: 'save', analysis };
+        } else if (/^(2|ubah kategori|ganti kategori|change category)$/.test(reply)) {
+          decision = { action: 'ask', analysis, awaiting: 'category' };
+        } else if (/^(3|batal|tidak|gak|nggak|no|cancel)$/.test(reply)) {
+          decision = { action: 'cancel' };
+        }
+        break;
+
+      case 'amount': {
+        const amount = extractAmount(reply);
+        if (amount != null) {
+          analysis.amount = amount;
+          decision = this.next(analysis, categories);
+        }
+        break;
+      }
+
+      case 'type':
+        if (/^(1|pengeluaran|keluar|expense|out)$/.test(reply)) {
+          analysis.type = 'expense';
+          decision = this.next(analysis, categories);
+        } else if (/^(2|pemasukan|masuk|income|in)$/.test(reply)) {
+          analysis.type = 'income';
+          decision = this.next(analysis, categories);
+        }
+        break;
+
+      case 'category': {
+        const category = this.findCategory(reply, this.getCategoryOptions(analysis, categories));
+        if (category) {
+          analysis.category = category.name;
+          analysis.type = category.type === 'income' ? 'income' : 'expense';
+          analysis.suggestedNewCategory = undefined;
+          decision = this.next(analysis, categories);
+        } else if (extractAmount(reply) == null && !/^(3|batal|cancel)$/.test(reply)) {
+          // Probably a typo rather than a new transaction - ask again
+          decision = { action: 'ask', analysis, awaiting: 'category' };
+        } else if (/^(3|batal|cancel)$/.test(reply)) {
+          decision = { action: 'cancel' };
+        }
+        break;
+      }
+
+      case 'limit_override':
+        if (/^(tetap simpan|simpan saja|tetap catat|save anyway|save it anyway)$/.test(reply)) {
+          decision = { action: 'save', analysis, batch: draft.batch, overrideLimit: true };
+        } else if (/^(batal|tidak|gak|nggak|no|cancel)$/.test(reply)) {
+          decision = { action: 'cancel' };
+        }
+        break;
+    }
+
+    if (!decision) {
+      conversationStateService.clearPendingDraft(userId);
+      return null;
+    }
+
+    this.store(userId, decision);
+    return decision;
+  }
+
+  /**
+   * The reply for a decision that needs the user: the draft with its options, or the question.
+   */
+  buildPrompt(
+    decision: DraftDecision,
+    categories: DraftCategory[],
+    language: string,
+    formatAmount: (amount: number) => string
+  ): string {
+    const id = language === 'id';
+
+    if (decision.action === 'cancel') {
+      return id ? '🗑️ Oke, transaksi tidak disimpan.' : "🗑️ Okay, the transaction wasn't saved.";
+    }
+    if (decision.action !== 'ask') {
+      return '';
+    }
+
+    const { analysis } = decision;
+    const typeLabel = analysis.type === 'income' ? (id ? 'Pemasukan' : 'Income') : (id ? 'Pengeluaran' : 'Expense');
+    const summary = [
+      analysis.amount > 0 ? `💰 ${id ? 'Jumlah' : 'Amount'}: ${formatAmount(analysis.amount)}` : null,
+      `📝 ${id ? 'Deskripsi' : 'Description'}: ${analysis.description}`,
+      decision.awaiting === 'choice' ? `📂 ${id ? 'Kategori' : 'Category'}: ${analysis.category}` : null,
+      decision.awaiting === 'choice' ? `📊 ${id ? 'Jenis' : 'Type'}: ${typeLabel}` : null,
+    ].filter(Boolean).join('\n');
+
+    switch (decision.awaiting) {
+      case 'choice':
+        return id
+          ? `📝 *Konfirmasi Transaksi*\n\n${summary}\n\nBalas:\n1 = simpan\n2 = ubah kategori\n3 = batal`
+          : `📝 *Confirm Transaction*\n\n${summary}\n\nReply:\n1 = save\n2 = change category\n3 = cancel`;
+      case 'amount':
+        return id
+          ? `💰 *Berapa jumlahnya?*\n\n${summary}\n\nBalas dengan jumlahnya, misalnya "25rb" atau "150000".`
+          : `💰 *How much was it?*\n\n${summary}\n\nReply with the amount, for example "25000".`;
+      case 'type':
+        return id
+          ? `📊 *Pengeluaran atau pemasukan?*\n\n${summary}\n\nBalas:\n1 = pengeluaran\n2 = pemasukan`
+          : `📊 *Is this an expense or income?*\n\n${summary}\n\nReply:\n1 = expense\n2 = income`;
+      case 'category': {
+        const options = this.getCategoryOptions(analysis, categories)
+          .map((category, index) => `${index + 1}. ${category.name}`)
+          .join('\n');
+        return id
+          ? `📂 *Masuk kategori apa?*\n\n${summary}\n\n${options}\n\nBalas dengan nomor atau nama kategori.`
+          : `📂 *Which category?*\n\n${summary}\n\n${options}\n\nReply with the number or the category name.`;
+      }
+      // Follows the explanation of which limit would be passed
+      case 'limit_override':
+        return id
+          ? `Balas *"tetap simpan"* untuk tetap mencatatnya, atau *"batal"*.`
+          : `Reply *"save anyway"* to record it anyway, or *"cancel"*.`;
+    }
+  }
+
+  // After an answer: ask for whatever is still missing, otherwise the draft is complete
+  private next(analysis: TransactionAnalysis, categories: DraftCategory[]): DraftDecision {
+    const missing = this.getMissingStep(analysis, categories);
+    return missing ? { action: 'ask', analysis, awaiting: missing } : { action: 'save', analysis };
+  }
+
+  private getMissingStep(analysis: TransactionAnalysis, categories: DraftCategory[]): PendingDraftStep | null {
+    if (!(analysis.amount > 0)) return 'amount';
+
+    const hasCategory = categories.some(category =>
+      category.name.toLowerCase() === analysis.category.toLowerCase() && category.type === analysis.type
+    );
+    // A suggested new category is created when the transaction is saved
+    if (!hasCategory && !analysis.suggestedNewCategory) return 'category';
+
+    return null;
+  }
+
+  private getCategoryOptions(analysis: TransactionAnalysis, categories: DraftCategory[]): DraftCategory[] {
+    const sameType = categories.filter(category => category.type === analysis.type);
+    return sameType.length > 0 ? sameType : categories.filter(category => category.type === 'income' || category.type === 'expense');
+  }
+
+  private findCategory(reply: string, options: DraftCategory[]): DraftCategory | undefined {
+    const index = parseInt(reply, 10);
+    if (/^\d+$/.test(reply) && index >= 1 && index <= options.length) {
+      return options[index - 1];
+    }
+    return options.find(category => category.name.toLowerCase() === reply) ||
+      options.find(category => category.name.toLowerCase().includes(reply) && reply.length >= 3);
+  }
+
+  private store(userId: string, decision: DraftDecision): void {
+    if (decision.action === 'ask') {
+      const draft: PendingDraft = {
+        analysis: decision.analysis,
+        batch: decision.batch,
+        awaiting: decision.awaiting,
+        expiresAt: Date.now() + DRAFT_TTL_MS,
+      };
+      conversationStateService.setPendingDraft(userId, draft);
+    } else {
+      conversationStateService.clearPendingDraft(userId);
+    }
+  }
+}
+
+export const transactionDraftService = new TransactionDraftServiceImpl();
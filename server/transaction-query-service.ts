@@ -0,0 +1,457 @@
+import { storage } from './storage';
+import { findUserCategory } from './transaction-text-parser';
+import type { Category, TransactionAllocation } from '@shared/schema';
+
+// Answers questions about the user's own transactions from the chat: "berapa total makan bulan ini?",
+// "pengeluaran terbesar minggu lalu apa?", "compare transport juni vs juli".
+// A question is turned into a fixed query structure - metric, type, categories, grouping and up to
+// two periods - and run through storage for the asking user only. Nothing the user types ever
+// reaches the database as SQL.
+
+export type QueryMetric = 'total' | 'count' | 'average' | 'largest' | 'smallest';
+export type QueryGrouping = 'category' | 'day' | 'week' | 'month';
+
+export interface QueryPeriod {
+  label: string;
+  startDate: number; // Unix seconds, inclusive
+  endDate: number; // Unix seconds, inclusive
+}
+
+export interface TransactionQuery {
+  metric: QueryMetric;
+  type: 'expense' | 'income';
+  categories: Array<{ id: number; name: string }>;
+  search: string | null; // Merchant or place: "di indomaret"
+  groupBy: QueryGrouping | null;
+  periods: QueryPeriod[]; // Two when comparing
+}
+
+export interface QueryGroup {
+  label: string;
+  total: number;
+  count: number;
+}
+
+export interface QueryPeriodResult {
+  period: QueryPeriod;
+  total: number;
+  count: number; // Transactions, a split one counts once
+  average: number;
+  extreme: TransactionAllocation | null; // Largest or smallest item, for those metrics
+  groups: QueryGroup[]; // Biggest first
+}
+
+// Rows of the breakdown under the figure
+const MAX_BREAKDOWN_ROWS = 5;
+
+const MONTH_LABELS = {
+  id: ['Januari', 'Februari', 'Maret', 'April', 'Mei', 'Juni', 'Juli', 'Agustus', 'September', 'Oktober', 'November', 'Desember'],
+  en: ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'],
+};
+
+const MONTH_NAMES: Record<string, number> = {
+  januari: 0, january: 0, jan: 0,
+  februari: 1, february: 1, feb: 1,
+  maret: 2, march: 2, mar: 2,
+  april: 3, apr: 3,
+  mei: 4, may: 4,
+  juni: 5, june: 5, jun: 5,
+  juli: 6, july: 6, jul: 6,
+  agustus: 7, august: 7, agu: 7, agt: 7, aug: 7,
+  september: 8, sept: 8, sep: 8,
+  oktober: 9, october: 9, okt: 9, oct: 9,
+  november: 10, nov: 10,
+  desember: 11, december: 11, des: 11, dec: 11,
+};
+
+const MONTH_PATTERN = new RegExp(`\\b(${Object.keys(MONTH_NAMES).join('|')})(?:\\s+(\\d{4}))?\\b`, 'g');
+
+const ROLLING_UNITS: Record<string, 'day' | 'week' | 'month'> = {
+  hari: 'day', day: 'day', days: 'day',
+  minggu: 'week', week: 'week', weeks: 'week',
+  bulan: 'month', month: 'month', months: 'month',
+};
+const ROLLING_UNIT_LABELS = { day: 'hari', week: 'minggu', month: 'bulan' };
+
+interface PeriodPhrase {
+  pattern: RegExp;
+  build: (match: RegExpExecArray, now: Date, language: 'id' | 'en') => QueryPeriod;
+}
+
+// Relative periods, most specific first - "2 minggu terakhir" must not be read as "minggu lalu"
+const PERIOD_PHRASES: PeriodPhrase[] = [
+  {
+    pattern: /\b(?:(\d{1,3})\s*(hari|minggu|bulan)\s+(?:terakhir|belakangan)|(?:last|past)\s+(\d{1,3})\s+(days?|weeks?|months?))\b/g,
+    build: (match, now, language) => {
+      const count = parseInt(match[1] || match[3], 10);
+      const unit = ROLLING_UNITS[match[2] || match[4]];
+      const start = startOfDay(now);
+      if (unit === 'day') start.setDate(start.getDate() - count + 1);
+      if (unit === 'week') start.setDate(start.getDate() - count * 7 + 1);
+      if (unit === 'month') start.setMonth(start.getMonth() - count);
+
+      const label = language === 'id'
+        ? `${count} ${ROLLING_UNIT_LABELS[unit]} terakhir`
+        : `last ${count} ${unit}${count === 1 ? '' : 's'}`;
+      return toPeriod(label, start, endOfDay(now));
+    },
+  },
+  {
+    pattern: /\b(?:hari ini|today)\b/g,
+    build: (_match, now, language) => toPeriod(language === 'id' ? 'hari ini' : 'today', startOfDay(now), endOfDay(now)),
+  },
+  {
+    pattern: /\b(?:kemarin|kemaren|yesterday)\b/g,
+    build: (_match, now, language) => {
+      const day = addDays(now, -1);
+      return toPeriod(language === 'id' ? 'kemarin' : 'yesterday', startOfDay(day), endOfDay(day));
+    },
+  },
+  {
+    pattern: /\b(?:minggu ini|pekan ini|this week)\b/g,
+    build: (_match, now, language) => toPeriod(language === 'id' ? 'minggu ini' : 'this week', startOfWeek(now), endOfDay(now)),
+  },
+  {
+    pattern: /\b(?:minggu lalu|minggu kemarin|pekan lalu|last week)\b/g,
+    build: (_match, now, language) => {
+      const start = addDays(startOfWeek(now), -7);
+      return toPeriod(language === 'id' ? 'minggu lalu' : 'last week', start, endOfDay(addDays(start, 6)));
+    },
+  },
+  {
+    pattern: /\b(?:bulan ini|this month)\b/g,
+    build: (_match, now, language) =>
+      toPeriod(language === 'id' ? 'bulan ini' : 'this month', new Date(now.getFullYear(), now.getMonth(), 1), endOfDay(now)),
+  },
+  {
+    pattern: /\b(?:bulan lalu|bulan kemarin|last month)\b/g,
+    build: (_match, now, language) => toPeriod(
+      language === 'id' ? 'bulan lalu' : 'last month',
+      new Date(now.getFullYear(), now.getMonth() - 1, 1),
+      endOfDay(new Date(now.getFullYear(), now.getMonth(), 0))
+    ),
+  },
+  {
+    pattern: /\b(?:tahun ini|this year)\b/g,
+    build: (_match, now, language) =>
+      toPeriod(language === 'id' ? 'tahun ini' : 'this year', new Date(now.getFullYear(), 0, 1), endOfDay(now)),
+  },
+  {
+    pattern: /\b(?:tahun lalu|last year)\b/g,
+    build: (_match, now, language) => toPeriod(
+      language === 'id' ? 'tahun lalu' : 'last year',
+      new Date(now.getFullYear() - 1, 0, 1),
+      endOfDay(new Date(now.getFullYear() - 1, 11, 31))
+    ),
+  },
+];
+
+const METRIC_PATTERNS: Array<{ metric: QueryMetric; pattern: RegExp }> = [
+  { metric: 'largest', pattern: /\b(terbesar|tertinggi|paling besar|paling mahal|termahal|biggest|largest|highest|most expensive)\b/ },
+  { metric: 'smallest', pattern: /\b(terkecil|terendah|paling kecil|termurah|smallest|lowest|cheapest)\b/ },
+  { metric: 'average', pattern: /\b(rata-rata|rata rata|rerata|average|avg)\b/ },
+  { metric: 'count', pattern: /\b(berapa kali|berapa transaksi|jumlah transaksi|banyak transaksi|how many|how often)\b/ },
+];
+
+const GROUPING_PATTERNS: Array<{ groupBy: QueryGrouping; pattern: RegExp }> = [
+  { groupBy: 'category', pattern: /\b(?:(?:per|tiap|setiap|by|each)\s+(?:kategori|category)|rincian|breakdown)\b/ },
+  { groupBy: 'day', pattern: /\b(?:(?:per|tiap|setiap|by)\s+(?:hari|day)|harian|daily)\b/ },
+  { groupBy: 'week', pattern: /\b(?:(?:per|tiap|setiap|by)\s+(?:minggu|pekan|week)|mingguan|weekly)\b/ },
+  { groupBy: 'month', pattern: /\b(?:(?:per|tiap|setiap|by)\s+(?:bulan|month)|bulanan|monthly)\b/ },
+];
+
+const INCOME_WORDS = /\b(pemasukan|pendapatan|penghasilan|income|earned|earnings)\b/;
+
+// "belanja di indomaret", "spent at starbucks" - the merchant to search descriptions for
+const PLACE_PATTERN = /\b(?:di|at)\s+(?!kategori\b|category\b)([a-z0-9][a-z0-9&'.-]*)/;
+
+interface TransactionQueryService {
+  parse(text: string, categories: Category[], language: string, now?: Date): TransactionQuery;
+  run(userId: string, query: TransactionQuery): Promise<QueryPeriodResult[]>;
+  formatAnswer(query: TransactionQuery, results: QueryPeriodResult[], language: string, formatAmount: (amount: number) => string): string;
+}
+
+class TransactionQueryServiceImpl implements TransactionQueryService {
+
+  /**
+   * Turn a question into a query. Anything the question doesn't say falls back to a default:
+   * the total of this month's expenses.
+   */
+  parse(text: string, categories: Category[], language: string, now: Date = new Date()): TransactionQuery {
+    const lang = language === 'id' ? 'id' : 'en';
+    let remaining = text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+    // Periods in the order they are mentioned, so "juni vs juli" compares June with July
+    const found: Array<{ index: number; period: QueryPeriod }> = [];
+    const mask = (match: RegExpExecArray) => {
+      remaining = remaining.slice(0, match.index) + ' '.repeat(match[0].length) + remaining.slice(match.index + match[0].length);
+    };
+
+    for (const phrase of PERIOD_PHRASES) {
+      const pattern = new RegExp(phrase.pattern.source, 'g');
+      let match: RegExpExecArray | null;
+      while ((match = pattern.exec(remaining)) !== null) {
+        found.push({ index: match.index, period: phrase.build(match, now, lang) });
+        mask(match);
+      }
+    }
+
+    const monthPattern = new RegExp(MONTH_PATTERN.source, 'g');
+    let monthMatch: RegExpExecArray | null;
+    while ((monthMatch = monthPattern.exec(remaining)) !== null) {
+      found.push({ index: monthMatch.index, period: this.monthPeriod(monthMatch, now, lang) });
+      mask(monthMatch);
+    }
+
+    const periods = found
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.period)
+      .filter((period, index, all) => all.findIndex(other => other.label === period.label) === index)
+      .slice(0, 2);
+    if (periods.length === 0) {
+      periods.push(toPeriod(lang === 'id' ? 'bulan ini' : 'this month', new Date(now.getFullYear(), now.getMonth(), 1), endOfDay(now)));
+    }
+
+    const metric = METRIC_PATTERNS.find(candidate => candidate.pattern.test(remaining))?.metric || 'total';
+    const groupBy = GROUPING_PATTERNS.find(candidate => candidate.pattern.test(remaining))?.groupBy || null;
+
+    const placeMatch = remaining.match(PLACE_PATTERN);
+    const search = placeMatch ? placeMatch[1].trim() : null;
+    const withoutPlace = placeMatch ? remaining.replace(placeMatch[0], ' ') : remaining;
+
+    const usable = categories.filter(category => category.type === 'income' || category.type === 'expense');
+    const category = findUserCategory(withoutPlace, usable);
+    const type = category ? (category.type as 'income' | 'expense') : INCOME_WORDS.test(remaining) ? 'income' : 'expense';
+
+    return {
+      metric,
+      type,
+      categories: category ? [{ id: category.id, name: category.name }] : [],
+      search,
+      groupBy,
+      periods,
+    };
+  }
+
+  /**
+   * Run the query for one user, once per period
+   */
+  async run(userId: string, query: TransactionQuery): Promise<QueryPeriodResult[]> {
+    const results: QueryPeriodResult[] = [];
+
+    for (const period of query.periods) {
+      const rows = await storage.getTransactionAllocations(userId, {
+        startDate: period.startDate,
+        endDate: period.endDate,
+        types: [query.type],
+        categoryIds: query.categories.length > 0 ? query.categories.map(category => category.id) : undefined,
+        search: query.search || undefined,
+      });
+
+      const total = rows.reduce((sum, row) => sum + row.amount, 0);
+      const count = new Set(rows.map(row => row.transactionId)).size;
+
+      let extreme: TransactionAllocation | null = null;
+      if (query.metric === 'largest' || query.metric === 'smallest') {
+        for (const row of rows) {
+          const better = query.metric === 'largest' ? row.amount > (extreme?.amount ?? -Infinity) : row.amount < (extreme?.amount ?? Infinity);
+          if (better) extreme = row;
+        }
+      }
+
+      results.push({
+        period,
+        total,
+        count,
+        average: count > 0 ? total / count : 0,
+        extreme,
+        groups: this.group(rows, this.getGrouping(query)),
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * The reply: the figure for each period, the change between two periods, and a short breakdown
+   */
+  formatAnswer(
+    query: TransactionQuery,
+    results: QueryPeriodResult[],
+    language: string,
+    formatAmount: (amount: number) => string
+  ): string {
+    const id = language === 'id';
+    const subject = [
+      query.type === 'income' ? (id ? 'Pemasukan' : 'Income') : (id ? 'Pengeluaran' : 'Spending'),
+      query.categories.length > 0 ? query.categories.map(category => category.name).join(', ') : null,
+      query.search ? (id ? `di ${query.search}` : `at ${query.search}`) : null,
+    ].filter(Boolean).join(' ');
+    const title = `📊 *${subject}: ${results.map(result => result.period.label).join(' vs ')}*`;
+
+    const transactionsLabel = (count: number) => id ? `${count} transaksi` : `${count} transaction${count === 1 ? '' : 's'}`;
+    const figure = (result: QueryPeriodResult): string => {
+      if (result.count === 0) {
+        return id ? 'belum ada transaksi' : 'no transactions';
+      }
+      switch (query.metric) {
+        case 'count':
+          return `${transactionsLabel(result.count)} (${formatAmount(result.total)})`;
+        case 'average':
+          return `${formatAmount(Math.round(result.average))} ${id ? 'per transaksi' : 'per transaction'} (${transactionsLabel(result.count)})`;
+        case 'largest':
+        case 'smallest': {
+          const item = result.extreme!;
+          const date = new Date(item.date * 1000).toLocaleDateString(id ? 'id-ID' : 'en-US', { day: 'numeric', month: 'short' });
+          return `${item.description} - ${formatAmount(item.amount)} (${item.categoryName || '-'}, ${date})`;
+        }
+        default:
+          return `${formatAmount(result.total)} (${transactionsLabel(result.count)})`;
+      }
+    };
+
+    const metricLabel: Record<QueryMetric, string> = {
+      total: '💰 Total',
+      count: id ? '🔢 Jumlah' : '🔢 Count',
+      average: id ? '📐 Rata-rata' : '📐 Average',
+      largest: id ? '🔝 Terbesar' : '🔝 Largest',
+      smallest: id ? '🔻 Terkecil' : '🔻 Smallest',
+    };
+
+    const lines: string[] = [title, ''];
+
+    if (results.length === 1) {
+      lines.push(`${metricLabel[query.metric]}: ${figure(results[0])}`);
+    } else {
+      lines.push(`${metricLabel[query.metric]}:`);
+      for (const result of results) {
+        lines.push(`• ${result.period.label}: ${figure(result)}`);
+      }
+
+      const [first, second] = results;
+      const value = (result: QueryPeriodResult) =>
+        query.metric === 'count' ? result.count : query.metric === 'average' ? result.average : result.total;
+      if (query.metric !== 'largest' && query.metric !== 'smallest' && value(first) > 0) {
+        const difference = value(second) - value(first);
+        const percent = Math.round((difference / value(first)) * 1000) / 10;
+        const amount = query.metric === 'count' ? String(Math.abs(difference)) : formatAmount(Math.round(Math.abs(difference)));
+        lines.push('');
+        lines.push(difference === 0
+          ? (id ? `➡️ Sama dengan ${first.period.label}` : `➡️ Same as ${first.period.label}`)
+          : `${difference > 0 ? '📈' : '📉'} ${id ? (difference > 0 ? 'Naik' : 'Turun') : (difference > 0 ? 'Up' : 'Down')} ${amount} ` +
+            `(${difference > 0 ? '+' : ''}${percent}%) ${id ? 'dibanding' : 'compared to'} ${first.period.label}`);
+      }
+    }
+
+    // The breakdown of the last period - the one the user most likely cares about
+    const latest = results[results.length - 1];
+    if (latest.groups.length > 1) {
+      lines.push('');
+      lines.push(id ? '*Rincian:*' : '*Breakdown:*');
+      for (const group of latest.groups.slice(0, MAX_BREAKDOWN_ROWS)) {
+        const share = latest.total > 0 ? Math.round((group.total / latest.total) * 100) : 0;
+        lines.push(`• ${group.label}: ${formatAmount(group.total)} (${share}%)`);
+      }
+      if (latest.groups.length > MAX_BREAKDOWN_ROWS) {
+        const others = latest.groups.length - MAX_BREAKDOWN_ROWS;
+        lines.push(id ? `• ...dan ${others} lainnya` : `• ...and ${others} more`);
+      }
+    }
+
+    return lines.join('\n');
+  }
+
+  // Without an explicit grouping, a question over all categories is broken down by category
+  private getGrouping(query: TransactionQuery): QueryGrouping | null {
+    if (query.groupBy) return query.groupBy;
+    return query.categories.length === 0 ? 'category' : null;
+  }
+
+  private group(rows: TransactionAllocation[], groupBy: QueryGrouping | null): QueryGroup[] {
+    if (!groupBy) return [];
+
+    const groups = new Map<string, QueryGroup & { transactionIds: Set<number>; sortKey: number }>();
+    for (const row of rows) {
+      const date = new Date(row.date * 1000);
+      let key: string;
+      let label: string;
+      let sortKey = 0;
+
+      switch (groupBy) {
+        case 'category':
+          key = String(row.categoryId ?? 'none');
+          label = row.categoryName || '-';
+          break;
+        case 'day':
+          key = date.toDateString();
+          label = date.toLocaleDateString('id-ID', { day: 'numeric', month: 'short' });
+          sortKey = startOfDay(date).getTime();
+          break;
+        case 'week': {
+          const start = startOfWeek(date);
+          key = start.toDateString();
+          label = `${start.toLocaleDateString('id-ID', { day: 'numeric', month: 'short' })} - ` +
+            addDays(start, 6).toLocaleDateString('id-ID', { day: 'numeric', month: 'short' });
+          sortKey = start.getTime();
+          break;
+        }
+        default:
+          key = `${date.getFullYear()}-${date.getMonth()}`;
+          label = date.toLocaleDateString('id-ID', { month: 'short', year: 'numeric' });
+          sortKey = new Date(date.getFullYear(), date.getMonth(), 1).getTime();
+      }
+
+      const group = groups.get(key) || { label, total: 0, count: 0, transactionIds: new Set<number>(), sortKey };
+      group.total += row.amount;
+      group.transactionIds.add(row.transactionId);
+      group.count = group.transactionIds.size;
+      groups.set(key, group);
+    }
+
+    // Categories by size, dates in calendar order
+    const sorted = Array.from(groups.values()).sort((a, b) =>
+      groupBy === 'category' ? b.total - a.total : a.sortKey - b.sortKey
+    );
+    return sorted.map(({ label, total, count }) => ({ label, total, count }));
+  }
+
+  // "juli" is the last July that has started, "juli 2025" that exact month
+  private monthPeriod(match: RegExpExecArray, now: Date, language: 'id' | 'en'): QueryPeriod {
+    const month = MONTH_NAMES[match[1]];
+    let year = match[2] ? parseInt(match[2], 10) : now.getFullYear();
+    if (!match[2] && month > now.getMonth()) year -= 1;
+
+    const start = new Date(year, month, 1);
+    const end = endOfDay(new Date(year, month + 1, 0));
+    return toPeriod(`${MONTH_LABELS[language][month]} ${year}`, start, end);
+  }
+}
+
+function toPeriod(label: string, start: Date, end: Date): QueryPeriod {
+  return { label, startDate: Math.floor(start.getTime() / 1000), endDate: Math.floor(end.getTime() / 1000) };
+}
+
+function startOfDay(date: Date): Date {
+  const result = new Date(date);
+  result.setHours(0, 0, 0, 0);
+  return result;
+}
+
+function endOfDay(date: Date): Date {
+  const result = new Date(date);
+  result.setHours(23, 59, 59, 999);
+  return result;
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+// Weeks start on Monday
+function startOfWeek(date: Date): Date {
+  return addDays(startOfDay(date), -((date.getDay() + 6) % 7));
+}
+
+export const transactionQueryService = new TransactionQueryServiceImpl();
@@ -1,5 +1,6 @@
 import { storage } from './storage';
 import { sendSingleBotMessage } from './whatsapp-single-bot';
+import type { MessageTemplate } from './messaging-provider';
 import { NotificationLog, InsertNotificationLog } from '@shared/schema';
 
 interface TransactionReminderService {
@@ -69,7 +70,7 @@ class TransactionReminderServiceImpl implements TransactionReminderService {
       // Send message to all connected WhatsApp numbers
       for (const whatsappNumber of whatsappNumbers) {
         try {
-          const result = await sendSingleBotMessage(whatsappNumber, message);
+          const result = await sendSingleBotMessage(whatsappNumber, message, this.createReminderTemplate(language));
           
           // Log the notification
           await this.logNotification({
@@ -138,10 +139,10 @@ class TransactionReminderServiceImpl implements TransactionReminderService {
    */
   async getUserWhatsAppNumbers(userId: string): Promise<string[]> {
     try {
-      const integrations = await storage.getUserWhatsAppIntegrations(userId);
+      const integrations = await storage.getUserMessagingIntegrations(userId, 'whatsapp');
       return integrations
         .filter(integration => integration.status === 'active')
-        .map(integration => integration.whatsappNumber);
+        .map(integration => integration.externalId);
     } catch (error) {
       console.error(`Error getting WhatsApp numbers for user ${userId}:`, error);
       return [];
@@ -195,6 +196,18 @@ Terus pertahankan kebiasaan baik mencatat keuangan! 📊✨`
 
     return messages[language as keyof typeof messages] || messages.en;
   }
+
+  /**
+   * Template sent instead when the WhatsApp Cloud API refuses free text (no message from the user
+   * in the last 24 hours). Register "monly_transaction_reminder" in WhatsApp Manager, in en and id.
+   */
+  private createReminderTemplate(language: string): MessageTemplate {
+    return {
+      name: 'monly_transaction_reminder',
+      language: language === 'id' ? 'id' : 'en',
+      parameters: []
+    };
+  }
 }
 
 export const transactionReminderService = new TransactionReminderServiceImpl();
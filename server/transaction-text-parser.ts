@@ -0,0 +1,323 @@
+import {
+  parseRelativeDate,
+  parseSpecificDate,
+  type TransactionAnalysis,
+  type UserPreferences,
+} from './openai';
+
+// Deterministic parser for short transaction messages such as "makan siang 25rb kemarin",
+// "gaji 8jt" or "bensin 50k". It needs no network, so it keeps chat and WhatsApp entry working
+// when the LLM is down or not configured, and answers confident cases without calling it at all.
+
+// Parses at or above this confidence are used as-is, without asking the LLM
+export const PARSER_FAST_PATH_CONFIDENCE = 0.85;
+
+// A single amount token: "25000", "25.000", "25rb", "1,5jt", "Rp50.000", "$12.50", "12k"
+export const AMOUNT_TOKEN = /(?:^|\s)(?:rp\.?\s?|\$)?(\d{1,3}(?:[.,]\d{3})+|\d+(?:[.,]\d+)?)\s?(rb|ribu|k|jt|juta)?(?=[^a-z0-9]|$)/gi;
+
+const MONTHS = 'januari|februari|maret|april|mei|juni|juli|agustus|september|oktober|november|desember|' +
+  'january|february|march|may|june|july|august|october|december';
+
+// Date phrases parseRelativeDate / parseSpecificDate understand. They are removed before looking for
+// the amount so the "15" in "tanggal 15 juli" is not mistaken for one.
+const DATE_PHRASES = [
+  new RegExp(`\\b(?:tanggal|tgl)\\s+\\d{1,2}(?:st|nd|rd|th)?(?:\\s+(?:${MONTHS}))?(?:\\s+\\d{4})?\\b`, 'gi'),
+  new RegExp(`\\b\\d{1,2}(?:st|nd|rd|th)?\\s+(?:${MONTHS})(?:\\s+\\d{4})?\\b`, 'gi'),
+  new RegExp(`\\b(?:${MONTHS})\\s+\\d{1,2}(?:st|nd|rd|th)?(?:\\s+\\d{4})?\\b`, 'gi'),
+  /\b\d{4}[-\/]\d{1,2}[-\/]\d{1,2}\b/g,
+  /\b\d{1,2}[-\/]\d{1,2}(?:[-\/]\d{2,4})?\b/g,
+  /\b\d+\s*(?:hari|days?)\s*(?:yang\s*)?(?:lalu|ago)\b/gi,
+  /\b(?:minggu\s+(?:lalu|kemarin)|last\s+week|day\s+after\s+tomorrow|hari\s+ini|tadi(?:\s+(?:pagi|siang|sore|malam))?|kemarin|kemaren|yesterday|lusa|besok|tomorrow|today|tonight|barusan|semalam)\b/gi,
+];
+
+// Words that only carry the amount ("50rb rupiah", "sebesar 2jt")
+const AMOUNT_WORDS = /\b(?:rupiah|idr|sebesar|seharga|senilai)\b/gi;
+
+// Connectors that stay lowercase in a title-cased description ("Transfer dari Ayah", "Lunch at KFC")
+const LOWERCASE_WORDS = new Set(['dari', 'di', 'ke', 'untuk', 'dan', 'yang', 'at', 'to', 'from', 'for', 'of', 'and', 'the']);
+
+const AMOUNT_MULTIPLIERS: Record<string, number> = { rb: 1e3, ribu: 1e3, k: 1e3, jt: 1e6, juta: 1e6 };
+
+interface CategoryKeywordGroup {
+  type: 'income' | 'expense';
+  fallbackName: string; // Default category name, used when the user has no categories to match against
+  names: string[]; // Words that identify the group in a category name
+  keywords: string[]; // Words and phrases in a message that point at the group
+}
+
+const CATEGORY_KEYWORD_GROUPS: CategoryKeywordGroup[] = [
+  {
+    type: 'expense',
+    fallbackName: 'Food & Dining',
+    names: ['food', 'dining', 'makan', 'makanan', 'kuliner', 'restaurant', 'restoran', 'groceries'],
+    keywords: [
+      'makan', 'makanan', 'makan siang', 'makan malam', 'sarapan', 'minum', 'jajan', 'cemilan', 'snack',
+      'lunch', 'dinner', 'breakfast', 'kopi', 'coffee', 'teh', 'bakso', 'baso', 'nasi', 'mie', 'soto', 'sate',
+      'ayam', 'pizza', 'burger', 'resto', 'restoran', 'restaurant', 'cafe', 'warung', 'gofood', 'grabfood',
+      'mcd', 'mcdonald', 'kfc', 'starbucks', 'groceries', 'sayur', 'buah',
+    ],
+  },
+  {
+    type: 'expense',
+    fallbackName: 'Transportation',
+    names: ['transport', 'transportation', 'transportasi', 'kendaraan', 'travel'],
+    keywords: [
+      'bensin', 'bbm', 'pertalite', 'pertamax', 'solar', 'parkir', 'tol', 'ojek', 'ojol', 'gojek', 'grab',
+      'gocar', 'grabcar', 'taxi', 'taksi', 'bus', 'busway', 'transjakarta', 'krl', 'kereta', 'mrt', 'lrt',
+      'fuel', 'gasoline', 'petrol', 'parking', 'toll', 'uber', 'train', 'flight', 'tiket pesawat', 'servis motor',
+      'servis mobil',
+    ],
+  },
+  {
+    type: 'expense',
+    fallbackName: 'Shopping',
+    names: ['shopping', 'belanja'],
+    keywords: [
+      'belanja', 'baju', 'kaos', 'celana', 'sepatu', 'sandal', 'tas', 'shopee', 'tokopedia', 'lazada',
+      'indomaret', 'alfamart', 'supermarket', 'mall', 'clothes', 'shoes', 'shopping',
+    ],
+  },
+  {
+    type: 'expense',
+    fallbackName: 'Entertainment',
+    names: ['entertainment', 'hiburan', 'leisure'],
+    keywords: [
+      'nonton', 'bioskop', 'film', 'movie', 'cinema', 'netflix', 'spotify', 'youtube premium', 'game',
+      'konser', 'concert', 'karaoke', 'liburan', 'vacation', 'hiburan',
+    ],
+  },
+  {
+    type: 'expense',
+    fallbackName: 'Bills & Utilities',
+    names: ['bill', 'bills', 'utilities', 'utility', 'tagihan'],
+    keywords: [
+      'listrik', 'pln', 'token listrik', 'pdam', 'air pdam', 'internet', 'wifi', 'indihome', 'pulsa', 'kuota',
+      'paket data', 'tagihan', 'electricity', 'water bill', 'phone bill', 'bill', 'rent', 'sewa', 'kos', 'kost',
+      'cicilan', 'asuransi', 'bpjs', 'insurance',
+    ],
+  },
+  {
+    type: 'expense',
+    fallbackName: 'Healthcare',
+    names: ['health', 'healthcare', 'kesehatan', 'medical'],
+    keywords: [
+      'obat', 'dokter', 'rumah sakit', 'klinik', 'apotek', 'vitamin', 'medicine', 'doctor', 'hospital',
+      'pharmacy', 'dentist', 'dokter gigi',
+    ],
+  },
+  {
+    type: 'expense',
+    fallbackName: 'Education',
+    names: ['education', 'pendidikan', 'sekolah'],
+    keywords: [
+      'sekolah', 'kuliah', 'kursus', 'buku', 'spp', 'les', 'uang sekolah', 'tuition', 'course', 'book', 'books',
+      'school', 'seminar', 'pendaftaran',
+    ],
+  },
+  {
+    type: 'income',
+    fallbackName: 'Salary',
+    names: ['salary', 'gaji', 'wage', 'payroll'],
+    keywords: ['gaji', 'gajian', 'salary', 'payroll', 'thr', 'upah', 'wage', 'paycheck'],
+  },
+  {
+    type: 'income',
+    fallbackName: 'Freelance',
+    names: ['freelance', 'proyek', 'project', 'side'],
+    keywords: ['freelance', 'proyek', 'project', 'honor', 'fee', 'komisi', 'commission'],
+  },
+  {
+    type: 'income',
+    fallbackName: 'Investment',
+    names: ['investment', 'investasi', 'dividend', 'dividen'],
+    keywords: ['dividen', 'dividend', 'bunga deposito', 'interest', 'investasi', 'saham', 'reksadana', 'profit'],
+  },
+  {
+    type: 'income',
+    fallbackName: 'Other',
+    names: ['other', 'lain', 'lainnya', 'bonus', 'gift', 'hadiah'],
+    keywords: [
+      'bonus', 'hadiah', 'gift', 'terima', 'diterima', 'dapat', 'dapet', 'dikasih', 'transfer dari', 'refund',
+      'cashback', 'pemasukan', 'income', 'received',
+    ],
+  },
+];
+
+interface CategoryMatch {
+  name: string;
+  type: 'income' | 'expense';
+  matchedUserCategory: boolean;
+}
+
+/**
+ * Parse a transaction message without the LLM. Returns null when the message has no single
+ * unambiguous amount - the one thing that can't be guessed.
+ */
+export function parseTransactionText(
+  text: string,
+  categories: Array<{ name: string; type: string }> = [],
+  preferences?: UserPreferences
+): TransactionAnalysis | null {
+  const language = preferences?.language || 'id';
+  const withoutDates = stripDatePhrases(text);
+
+  const amount = extractAmount(withoutDates);
+  if (amount == null) return null;
+
+  const description = describeTransaction(withoutDates);
+  const category = matchCategory(description, categories);
+  const type = category?.type || 'expense';
+
+  const otherCategory = categories.find(candidate =>
+    candidate.type === type && /\b(other|lain|lainnya)\b/i.test(candidate.name)
+  );
+
+  // An amount alone is a guess; a category the user actually has makes the parse trustworthy
+  const confidence = category?.matchedUserCategory ? 0.9 : category ? 0.75 : 0.6;
+
+  const analysis: TransactionAnalysis = {
+    amount,
+    description: description || category?.name || 'Transaction',
+    category: category?.name || otherCategory?.name || 'Other',
+    type,
+    confidence,
+  };
+
+  const date = parseRelativeDate(text, language) || parseSpecificDate(text, language);
+  if (date) {
+    analysis.date = date;
+  }
+
+  return analysis;
+}
+
+// The amount when the message contains exactly one amount-like token, otherwise null
+export function extractAmount(text: string): number | null {
+  const matches = Array.from((' ' + text + ' ').matchAll(AMOUNT_TOKEN));
+  if (matches.length !== 1) return null;
+
+  const [, rawNumber, suffix] = matches[0];
+
+  // "25.000" / "25,000" are thousands groups, "1,5" / "12.50" are decimals
+  const number = /^\d{1,3}([.,]\d{3})+$/.test(rawNumber) && !suffix
+    ? parseFloat(rawNumber.replace(/[.,]/g, ''))
+    : parseFloat(rawNumber.replace(',', '.'));
+
+  const amount = number * (suffix ? AMOUNT_MULTIPLIERS[suffix.toLowerCase()] : 1);
+  return amount > 0 ? amount : null;
+}
+
+/**
+ * Split a message listing several transactions - "makan 25rb, parkir 5rb, kopi 30rb", one per line,
+ * or "bensin 50rb dan tol 20rb" - into one text per transaction. Parts without an amount stay with
+ * the next one ("kemarin, makan 25rb" is a single item). A message with one amount comes back whole.
+ */
+export function splitTransactionText(text: string): string[] {
+  const parts = text
+    // A comma before a digit belongs to an amount such as "1,5jt"
+    .split(/\n|;|,(?!\d)/)
+    // List markers: "- makan 25rb", "2. parkir 5rb"
+    .map(part => part.replace(/^\s*(?:[-*•]|\d{1,2}[.)])\s+/, ''))
+    .reduce<string[]>((result, part) =>
+      result.concat(countAmounts(part) > 1 ? part.split(/\s+(?:dan|and|plus|&|\+)\s+/i) : [part]), [])
+    .map(part => part.trim())
+    .filter(part => part.length > 0);
+
+  const items: string[] = [];
+  let pending = '';
+  for (const part of parts) {
+    if (countAmounts(part) === 0) {
+      pending = pending ? `${pending} ${part}` : part;
+      continue;
+    }
+    items.push(pending ? `${pending} ${part}` : part);
+    pending = '';
+  }
+  if (pending && items.length > 0) {
+    items[items.length - 1] += ` ${pending}`;
+  }
+
+  return items.length > 1 ? items : [text.trim()];
+}
+
+// "beli kopi kenangan 25rb kemarin" → "Beli Kopi Kenangan"
+export function describeTransaction(text: string): string {
+  return stripDatePhrases(' ' + text + ' ')
+    .replace(AMOUNT_TOKEN, ' ')
+    .replace(AMOUNT_WORDS, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/(^|\s)([a-z]+)/g, (match, space: string, word: string) =>
+      space + (space && LOWERCASE_WORDS.has(word) ? word : word.charAt(0).toUpperCase() + word.slice(1))
+    );
+}
+
+/**
+ * The user's own category a text names or clearly points at - "makan" finds a "Food & Dining"
+ * category. Null when it only matches a default category the user doesn't have.
+ */
+export function findUserCategory<T extends { name: string; type: string }>(text: string, categories: T[]): T | null {
+  const match = matchCategory(text, categories);
+  if (match?.matchedUserCategory) {
+    return categories.find(category => category.name === match.name && category.type === match.type) || null;
+  }
+
+  // A shortened name: "transport" for "Transportation"
+  const words = normalize(text).split(' ').filter(word => word.length >= 4);
+  return categories.find(category =>
+    normalize(category.name).split(' ').some(nameWord => words.some(word => nameWord.startsWith(word)))
+  ) || null;
+}
+
+function countAmounts(text: string): number {
+  return Array.from((' ' + stripDatePhrases(text) + ' ').matchAll(AMOUNT_TOKEN)).length;
+}
+
+function stripDatePhrases(text: string): string {
+  return DATE_PHRASES.reduce((result, pattern) => result.replace(pattern, ' '), text);
+}
+
+/**
+ * A user category named in the message wins ("kopi 25rb" with a "Kopi" category), then the
+ * keyword groups mapped onto the user's categories, then the group's default category name.
+ */
+function matchCategory(description: string, categories: Array<{ name: string; type: string }>): CategoryMatch | null {
+  const words = ' ' + normalize(description) + ' ';
+  const usable = categories.filter(category => category.type === 'income' || category.type === 'expense');
+
+  const named = usable
+    .filter(category => {
+      const name = normalize(category.name);
+      return name.length >= 3 && words.includes(' ' + name + ' ');
+    })
+    .sort((a, b) => b.name.length - a.name.length)[0];
+  if (named) {
+    return { name: named.name, type: named.type as 'income' | 'expense', matchedUserCategory: true };
+  }
+
+  // The group with the longest matching keyword - "makan siang" is more specific than "makan"
+  let best: { group: CategoryKeywordGroup; length: number } | null = null;
+  for (const group of CATEGORY_KEYWORD_GROUPS) {
+    for (const keyword of group.keywords) {
+      if (words.includes(' ' + keyword + ' ') && (!best || keyword.length > best.length)) {
+        best = { group, length: keyword.length };
+      }
+    }
+  }
+  if (!best) return null;
+
+  const { group } = best;
+  const userCategory = usable.find(category => {
+    if (category.type !== group.type) return false;
+    const nameWords = normalize(category.name).split(' ');
+    return group.names.some(name => nameWords.includes(name));
+  });
+
+  return userCategory
+    ? { name: userCategory.name, type: group.type, matchedUserCategory: true }
+    : { name: group.fallbackName, type: group.type, matchedUserCategory: false };
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9\s]/g, ' ').replace(/\s+/g, ' ').trim();
+}
@@ -0,0 +1,373 @@
+import crypto from 'crypto';
+import qrcode from 'qrcode';
+import type { Response, NextFunction } from 'express';
+import { storage } from './storage';
+import type { AuthRequest } from './auth';
+import { generateTotpSecret, verifyTotp, buildOtpAuthUrl } from './totp';
+import { sendToLinkedWhatsApp } from './whatsapp-delivery';
+import { messagingLinkService } from './messaging-link-service';
+import type { TwoFactorChallenge, TwoFactorMethod, User } from '@shared/schema';
+
+// Optional second sign-in step: a code from an authenticator app (TOTP), or one sent to the user's
+// linked WhatsApp number. With it on, a correct password only earns a short-lived challenge token,
+// traded for a session together with a code or one of the recovery codes handed out at enrollment.
+// Turning it off or changing linked WhatsApp numbers takes a fresh code too.
+
+const ISSUER = 'Monly AI';
+const LOGIN_CHALLENGE_TTL_SECONDS = 10 * 60;
+const WHATSAPP_CODE_TTL_SECONDS = 5 * 60;
+const MAX_CODE_ATTEMPTS = 5;
+const MAX_CODES_PER_WINDOW = 5;
+const CODE_WINDOW_SECONDS = 15 * 60;
+const RECOVERY_CODE_COUNT = 10;
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  method: TwoFactorMethod | null;
+  recoveryCodesRemaining: number;
+  whatsappLinked: boolean; // Whether WhatsApp can be used as the second factor
+}
+
+export interface TotpEnrollment {
+  secret: string; // For typing into the app by hand
+  otpauthUrl: string;
+  qrCode: string; // Data URL of the otpauth URL as a QR code
+}
+
+export interface LoginChallenge {
+  challengeToken: string;
+  method: TwoFactorMethod;
+  codeSent: boolean; // WhatsApp: whether the code reached a linked number
+}
+
+export type TwoFactorLoginResult =
+  | { status: 'verified'; userId: string; usedRecoveryCode: boolean }
+  | { status: 'invalid' } // Wrong code; try again
+  | { status: 'expired' }; // The challenge is over; sign in with the password again
+
+interface TwoFactorService {
+  getMethod(userId: string): Promise<TwoFactorMethod | null>;
+  getStatus(userId: string): Promise<TwoFactorStatus>;
+  beginTotpEnrollment(user: User): Promise<TotpEnrollment | null>;
+  enable(userId: string, method: TwoFactorMethod, code: string): Promise<string[] | null>;
+  disable(userId: string): Promise<void>;
+  regenerateRecoveryCodes(userId: string): Promise<string[]>;
+  sendVerificationCode(userId: string): Promise<boolean>;
+  verify(userId: string, code: string): Promise<boolean>;
+  startLogin(userId: string, method: TwoFactorMethod): Promise<LoginChallenge>;
+  resendLoginCode(challengeToken: string): Promise<LoginChallenge | null>;
+  completeLogin(challengeToken: string, code: string): Promise<TwoFactorLoginResult>;
+}
+
+class TwoFactorServiceImpl implements TwoFactorService {
+
+  /**
+   * The second factor the user has turned on, or null when two-factor is off
+   */
+  async getMethod(userId: string): Promise<TwoFactorMethod | null> {
+    const settings = await storage.getTwoFactorSettings(userId);
+    return settings?.method ?? null;
+  }
+
+  async getStatus(userId: string): Promise<TwoFactorStatus> {
+    const method = await this.getMethod(userId);
+    const numbers = await messagingLinkService.getLinkedIds(userId, 'whatsapp');
+    return {
+      enabled: method !== null,
+      method,
+      recoveryCodesRemaining: method ? await storage.countUnusedRecoveryCodes(userId) : 0,
+      whatsappLinked: numbers.length > 0,
+    };
+  }
+
+  /**
+   * Give the user a new TOTP secret to add to their authenticator app. It only counts once
+   * enable() gets a code made from it.
+   * @returns null when two-factor is already on
+   */
+  async beginTotpEnrollment(user: User): Promise<TotpEnrollment | null> {
+    if (await this.getMethod(user.id)) {
+      return null;
+    }
+
+    const secret = generateTotpSecret();
+    await storage.saveTwoFactorSettings(user.id, { totpSecret: secret, totpLastStep: null });
+
+    const otpauthUrl = buildOtpAuthUrl(secret, user.email || user.id, ISSUER);
+    return { secret, otpauthUrl, qrCode: await qrcode.toDataURL(otpauthUrl) };
+  }
+
+  /**
+   * Turn two-factor on once the user proves the factor works: a code from the app they just set
+   * up, or the code sent by sendVerificationCode()
+   * @returns the new recovery codes, or null when the code is wrong
+   */
+  async enable(userId: string, method: TwoFactorMethod, code: string): Promise<string[] | null> {
+    const settings = await storage.getTwoFactorSettings(userId);
+    if (settings?.method) {
+      return null;
+    }
+
+    if (method === 'totp') {
+      const step = settings?.totpSecret ? verifyTotp(settings.totpSecret, this.normalizeCode(code)) : null;
+      if (step === null) {
+        return null;
+      }
+      await storage.saveTwoFactorSettings(userId, { method, totpLastStep: step, enabledAt: Math.floor(Date.now() / 1000) });
+    } else {
+      if (!(await this.verifyWhatsAppCode(userId, code))) {
+        return null;
+      }
+      await storage.saveTwoFactorSettings(userId, { method, totpSecret: null, totpLastStep: null, enabledAt: Math.floor(Date.now() / 1000) });
+    }
+
+    console.log(`🔐 Two-factor (${method}) turned on for user ${userId}`);
+    return this.regenerateRecoveryCodes(userId);
+  }
+
+  /**
+   * Turn two-factor off. The caller checks a fresh code first.
+   */
+  async disable(userId: string): Promise<void> {
+    await storage.saveTwoFactorSettings(userId, { method: null, totpSecret: null, totpLastStep: null, enabledAt: null });
+    await storage.deleteRecoveryCodes(userId);
+    await storage.invalidateTwoFactorChallenges(userId);
+    console.log(`🔓 Two-factor turned off for user ${userId}`);
+  }
+
+  /**
+   * Hand out a new set of recovery codes; the old ones stop working. Only their hashes are kept,
+   * so this is the one time they can be shown.
+   */
+  async regenerateRecoveryCodes(userId: string): Promise<string[]> {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const raw = crypto.randomBytes(5).toString('hex');
+      return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+    await storage.replaceRecoveryCodes(userId, codes.map(code => this.hash(this.normalizeRecoveryCode(code))));
+    return codes;
+  }
+
+  /**
+   * Send a code to the linked WhatsApp numbers, for enrolling WhatsApp as the second factor or for
+   * confirming a change while it is. A new code voids the previous one.
+   * @returns false when there's no linked number, too many codes were sent lately, or none got through
+   */
+  async sendVerificationCode(userId: string): Promise<boolean> {
+    if (!(await this.canSendCode(userId))) {
+      return false;
+    }
+
+    const code = this.createCode();
+    await storage.invalidateTwoFactorChallenges(userId, 'verify');
+    await storage.createTwoFactorChallenge({
+      userId,
+      purpose: 'verify',
+      codeHash: this.hash(code),
+      expiresAt: Math.floor(Date.now() / 1000) + WHATSAPP_CODE_TTL_SECONDS,
+    });
+    return this.deliverCode(userId, code);
+  }
+
+  /**
+   * Check a fresh code from the user's second factor. Recovery codes don't count here: they're
+   * for getting in, not for changing how you get in.
+   */
+  async verify(userId: string, code: string): Promise<boolean> {
+    const settings = await storage.getTwoFactorSettings(userId);
+    if (settings?.method === 'totp') {
+      return this.verifyTotpCode(userId, settings.totpSecret, code);
+    }
+    if (settings?.method === 'whatsapp') {
+      return this.verifyWhatsAppCode(userId, code);
+    }
+    return false;
+  }
+
+  /**
+   * Open the second sign-in step after a correct password; for WhatsApp this sends the code
+   */
+  async startLogin(userId: string, method: TwoFactorMethod): Promise<LoginChallenge> {
+    const challengeToken = crypto.randomBytes(32).toString('base64url');
+    const code = method === 'whatsapp' && await this.canSendCode(userId) ? this.createCode() : null;
+
+    await storage.createTwoFactorChallenge({
+      userId,
+      purpose: 'login',
+      tokenHash: this.hash(challengeToken),
+      codeHash: code ? this.hash(code) : null,
+      expiresAt: Math.floor(Date.now() / 1000) + (code ? WHATSAPP_CODE_TTL_SECONDS : LOGIN_CHALLENGE_TTL_SECONDS),
+    });
+
+    const codeSent = code ? await this.deliverCode(userId, code) : false;
+    return { challengeToken, method, codeSent };
+  }
+
+  /**
+   * Send another WhatsApp code for a login. The old challenge is swapped for a new one, so the
+   * send limit covers resends too.
+   */
+  async resendLoginCode(challengeToken: string): Promise<LoginChallenge | null> {
+    const challenge = await this.getOpenLoginChallenge(challengeToken);
+    const method = challenge ? await this.getMethod(challenge.userId) : null;
+    if (!challenge || method !== 'whatsapp' || !(await storage.consumeTwoFactorChallenge(challenge.id))) {
+      return null;
+    }
+    return this.startLogin(challenge.userId, method);
+  }
+
+  /**
+   * Finish a login with a code from the second factor or a recovery code
+   */
+  async completeLogin(challengeToken: string, code: string): Promise<TwoFactorLoginResult> {
+    const challenge = await this.getOpenLoginChallenge(challengeToken);
+    const settings = challenge ? await storage.getTwoFactorSettings(challenge.userId) : undefined;
+    if (!challenge || !settings?.method) {
+      return { status: 'expired' };
+    }
+
+    let usedRecoveryCode = false;
+    let verified = settings.method === 'totp'
+      ? await this.verifyTotpCode(challenge.userId, settings.totpSecret, code)
+      : this.matchesCode(challenge, code);
+    if (!verified) {
+      verified = usedRecoveryCode = await storage.useRecoveryCode(challenge.userId, this.hash(this.normalizeRecoveryCode(code)));
+    }
+
+    if (!verified) {
+      const attempts = await storage.recordTwoFactorChallengeAttempt(challenge.id);
+      if (attempts >= MAX_CODE_ATTEMPTS) {
+        await storage.consumeTwoFactorChallenge(challenge.id);
+        return { status: 'expired' };
+      }
+      return { status: 'invalid' };
+    }
+
+    // Two requests with the same token: only one gets the session
+    if (!(await storage.consumeTwoFactorChallenge(challenge.id))) {
+      return { status: 'expired' };
+    }
+    if (usedRecoveryCode) {
+      console.log(`🔐 User ${challenge.userId} signed in with a recovery code`);
+    }
+    return { status: 'verified', userId: challenge.userId, usedRecoveryCode };
+  }
+
+  private async getOpenLoginChallenge(challengeToken: string): Promise<TwoFactorChallenge | undefined> {
+    const challenge = await storage.getTwoFactorChallengeByTokenHash(this.hash(challengeToken));
+    if (!challenge || challenge.purpose !== 'login' || challenge.usedAt || challenge.expiresAt < Math.floor(Date.now() / 1000)) {
+      return undefined;
+    }
+    return challenge;
+  }
+
+  private async verifyTotpCode(userId: string, secret: string | null, code: string): Promise<boolean> {
+    const step = secret ? verifyTotp(secret, this.normalizeCode(code)) : null;
+    // A code works once, even within its 30 seconds
+    return step !== null && storage.claimTotpStep(userId, step);
+  }
+
+  private async verifyWhatsAppCode(userId: string, code: string): Promise<boolean> {
+    const challenge = await storage.getActiveVerifyChallenge(userId);
+    if (!challenge) {
+      return false;
+    }
+
+    if (!this.matchesCode(challenge, code)) {
+      const attempts = await storage.recordTwoFactorChallengeAttempt(challenge.id);
+      if (attempts >= MAX_CODE_ATTEMPTS) {
+        await storage.consumeTwoFactorChallenge(challenge.id);
+      }
+      return false;
+    }
+    return storage.consumeTwoFactorChallenge(challenge.id);
+  }
+
+  private matchesCode(challenge: TwoFactorChallenge, code: string): boolean {
+    if (!challenge.codeHash) {
+      return false;
+    }
+    const expected = Buffer.from(challenge.codeHash, 'hex');
+    const received = Buffer.from(this.hash(this.normalizeCode(code)), 'hex');
+    return crypto.timingSafeEqual(expected, received);
+  }
+
+  private async canSendCode(userId: string): Promise<boolean> {
+    const since = Math.floor(Date.now() / 1000) - CODE_WINDOW_SECONDS;
+    if (await storage.countTwoFactorCodesSince(userId, since) >= MAX_CODES_PER_WINDOW) {
+      console.warn(`⚠️ Too many two-factor codes sent to user ${userId}`);
+      return false;
+    }
+    return true;
+  }
+
+  private async deliverCode(userId: string, code: string): Promise<boolean> {
+    const preferences = await storage.getUserPreferences(userId);
+    const message = preferences?.language === 'id'
+      ? `🔐 Kode verifikasi Monly AI Anda: *${code}*\n\nBerlaku 5 menit. Jangan bagikan kode ini kepada siapa pun.`
+      : `🔐 Your Monly AI verification code: *${code}*\n\nValid for 5 minutes. Don't share this code with anyone.`;
+
+    try {
+      return await sendToLinkedWhatsApp(userId, message);
+    } catch (error) {
+      console.error(`❌ Error sending two-factor code to user ${userId}:`, error);
+      return false;
+    }
+  }
+
+  private createCode(): string {
+    return crypto.randomInt(0, 1000000).toString().padStart(6, '0');
+  }
+
+  private normalizeCode(code: string): string {
+    return code.replace(/\s/g, '');
+  }
+
+  private normalizeRecoveryCode(code: string): string {
+    return code.toLowerCase().replace(/[^0-9a-z]/g, '');
+  }
+
+  private hash(secret: string): string {
+    return crypto.createHash('sha256').update(secret).digest('hex');
+  }
+}
+
+export const twoFactorService = new TwoFactorServiceImpl();
+
+/**
+ * Route guard for sensitive changes: with two-factor on, the request body needs a fresh code in
+ * twoFactorCode. Without one it answers 428 so the client can ask for it - not 401/403, which
+ * would sign the client out.
+ */
+export async function requireFreshSecondFactor(req: AuthRequest, res: Response, next: NextFunction) {
+  if (!req.user) return res.status(401).json({ message: 'Unauthorized' });
+
+  try {
+    const method = await twoFactorService.getMethod(req.user.id);
+    if (!method) {
+      return next();
+    }
+
+    const code = typeof req.body?.twoFactorCode === 'string' ? req.body.twoFactorCode.trim() : '';
+    if (!code) {
+      return res.status(428).json({
+        success: false,
+        code: 'TWO_FACTOR_REQUIRED',
+        method,
+        message: 'Enter a two-factor code to confirm this change',
+      });
+    }
+    if (!(await twoFactorService.verify(req.user.id, code))) {
+      return res.status(400).json({
+        success: false,
+        code: 'TWO_FACTOR_INVALID',
+        method,
+        message: 'Invalid or expired two-factor code',
+      });
+    }
+    next();
+  } catch (error) {
+    console.error('Error checking two-factor code:', error);
+    res.status(500).json({ message: 'Failed to check two-factor code' });
+  }
+}
@@ -0,0 +1,335 @@
+import type {
+  ConnectionStatus,
+  IncomingMessage,
+  IncomingMessageType,
+  MediaAttachment,
+  MessageHandler,
+  MessageTemplate,
+  MessagingConnectionState,
+  MessagingEvent,
+  MessagingEventListener,
+  MessagingProvider,
+  SentMessage,
+} from './messaging-provider';
+import { ChatMessageQueue, MessagingWindowClosedError } from './messaging-common';
+
+// The official WhatsApp Business Cloud API: no browser and no QR login - an access token and a
+// business phone number id are the session. Messages arrive on the webhook (whatsapp-cloud-routes)
+// and are handed to the provider for that phone number; replies go out through the Graph API.
+// The bot may only send free text within 24 hours of the person's last message - after that,
+// only pre-approved templates.
+
+export const DEFAULT_WHATSAPP_CLOUD_API_BASE_URL = 'https://graph.facebook.com';
+export const DEFAULT_WHATSAPP_CLOUD_API_VERSION = 'v21.0';
+
+// Graph API error codes
+const OAUTH_ERROR_CODE = 190; // Access token expired or revoked
+const REENGAGEMENT_ERROR_CODE = 131047; // More than 24 hours since the person's last message
+
+// Webhooks are delivered at least once; a redelivered message must not be recorded twice
+const SEEN_MESSAGE_LIMIT = 1000;
+
+export interface WhatsAppCloudConfig {
+  accessToken: string;
+  phoneNumberId: string;
+  baseUrl: string;
+  apiVersion: string;
+}
+
+/**
+ * Read the Cloud API settings from the environment
+ * @throws When the access token or phone number id is missing
+ */
+export const getWhatsAppCloudConfig = (): WhatsAppCloudConfig => {
+  const accessToken = process.env.WHATSAPP_CLOUD_ACCESS_TOKEN;
+  const phoneNumberId = process.env.WHATSAPP_CLOUD_PHONE_NUMBER_ID;
+  if (!accessToken || !phoneNumberId) {
+    throw new Error('WHATSAPP_CLOUD_ACCESS_TOKEN and WHATSAPP_CLOUD_PHONE_NUMBER_ID must be set');
+  }
+
+  return {
+    accessToken,
+    phoneNumberId,
+    baseUrl: process.env.WHATSAPP_CLOUD_API_BASE_URL || DEFAULT_WHATSAPP_CLOUD_API_BASE_URL,
+    apiVersion: process.env.WHATSAPP_CLOUD_API_VERSION || DEFAULT_WHATSAPP_CLOUD_API_VERSION,
+  };
+};
+
+interface CloudMediaRef {
+  id: string;
+  mime_type?: string;
+  filename?: string;
+  caption?: string;
+  voice?: boolean;
+}
+
+interface CloudMessage {
+  id: string;
+  from: string;
+  timestamp: string;
+  type: string;
+  text?: { body: string };
+  audio?: CloudMediaRef; // voice: true for voice notes
+  image?: CloudMediaRef;
+  document?: CloudMediaRef;
+  context?: { from?: string; id: string };
+}
+
+interface CloudWebhookValue {
+  messaging_product: string;
+  metadata?: { display_phone_number?: string; phone_number_id: string };
+  contacts?: { wa_id: string; profile?: { name?: string } }[];
+  messages?: CloudMessage[];
+}
+
+export interface WhatsAppCloudWebhookPayload {
+  object?: string;
+  entry?: { id: string; changes?: { field: string; value: CloudWebhookValue }[] }[];
+}
+
+class WhatsAppCloudApiError extends Error {
+  constructor(readonly path: string, readonly status: number, readonly code?: number, description?: string) {
+    super(`WhatsApp Cloud API ${path} failed (${code ?? status}): ${description || 'unknown error'}`);
+    this.name = 'WhatsAppCloudApiError';
+  }
+}
+
+// Providers by business phone number id, so the webhook can find the one a message was sent to
+const providers: Map<string, WhatsAppCloudProvider> = new Map();
+
+export class WhatsAppCloudProvider implements MessagingProvider {
+  readonly name = 'whatsapp-cloud';
+  private status: ConnectionStatus = 'disconnected';
+  private displayNumber: string | null = null;
+  private seenMessageIds: Set<string> = new Set();
+  private messageHandlers: MessageHandler[] = [];
+  private queue = new ChatMessageQueue('WhatsApp Cloud', this.messageHandlers);
+  private eventListeners: MessagingEventListener[] = [];
+  private apiUrl: string;
+
+  constructor(readonly sessionId: string, private config: WhatsAppCloudConfig) {
+    this.apiUrl = `${config.baseUrl.replace(/\/+$/, '')}/${config.apiVersion}`;
+  }
+
+  getState(): MessagingConnectionState {
+    return { status: this.status, qrCode: null };
+  }
+
+  /** The business number people write to, known once it is ready */
+  getDisplayNumber(): string | null {
+    return this.displayNumber;
+  }
+
+  async initialize(): Promise<void> {
+    this.status = 'initializing';
+
+    try {
+      const phone = await this.call<{ display_phone_number?: string }>(
+        'GET',
+        `${this.config.phoneNumberId}?fields=display_phone_number`
+      );
+      this.displayNumber = phone.display_phone_number?.replace(/\D/g, '') || null;
+    } catch (error) {
+      this.status = 'disconnected';
+      if (error instanceof WhatsAppCloudApiError && (error.status === 401 || error.code === OAUTH_ERROR_CODE)) {
+        this.emit({ type: 'auth_failure', reason: error.message });
+        return;
+      }
+      this.emit({ type: 'disconnected', reason: error instanceof Error ? error.message : String(error) });
+      return;
+    }
+
+    providers.set(this.config.phoneNumberId, this);
+    this.status = 'authenticated';
+    this.emit({ type: 'authenticated' });
+    this.status = 'ready';
+    this.emit({ type: 'ready' });
+  }
+
+  async destroy(): Promise<void> {
+    if (providers.get(this.config.phoneNumberId) === this) {
+      providers.delete(this.config.phoneNumberId);
+    }
+    this.status = 'disconnected';
+  }
+
+  async isHealthy(): Promise<boolean> {
+    return this.status === 'ready';
+  }
+
+  async sendText(to: string, text: string): Promise<SentMessage> {
+    return this.sendMessage(to, { type: 'text', text: { body: text, preview_url: false } });
+  }
+
+  async sendMedia(to: string, media: MediaAttachment, caption?: string): Promise<SentMessage> {
+    const isImage = media.mimetype.startsWith('image/');
+    const form = new FormData();
+    form.append('messaging_product', 'whatsapp');
+    form.append('type', media.mimetype);
+    form.append(
+      'file',
+      new Blob([Buffer.from(media.data, 'base64')], { type: media.mimetype }),
+      media.filename || (isImage ? 'image' : 'file')
+    );
+    const uploaded = await this.call<{ id: string }>('POST', `${this.config.phoneNumberId}/media`, form);
+
+    return isImage
+      ? this.sendMessage(to, { type: 'image', image: { id: uploaded.id, caption } })
+      : this.sendMessage(to, { type: 'document', document: { id: uploaded.id, caption, filename: media.filename || undefined } });
+  }
+
+  async sendTemplate(to: string, template: MessageTemplate): Promise<SentMessage> {
+    return this.sendMessage(to, {
+      type: 'template',
+      template: {
+        name: template.name,
+        language: { code: template.language },
+        components: template.parameters.length > 0
+          ? [{ type: 'body', parameters: template.parameters.map(text => ({ type: 'text', text })) }]
+          : [],
+      },
+    });
+  }
+
+  onMessage(handler: MessageHandler): void {
+    this.messageHandlers.push(handler);
+  }
+
+  onEvent(listener: MessagingEventListener): void {
+    this.eventListeners.push(listener);
+  }
+
+  /** Hand the messages of one webhook change to the handlers */
+  receive(value: CloudWebhookValue): void {
+    for (const message of value.messages || []) {
+      if (this.seenMessageIds.has(message.id)) continue;
+      this.seenMessageIds.add(message.id);
+      if (this.seenMessageIds.size > SEEN_MESSAGE_LIMIT) {
+        this.seenMessageIds.delete(this.seenMessageIds.values().next().value!);
+      }
+
+      const contact = value.contacts?.find(c => c.wa_id === message.from);
+      this.queue.enqueue(this.toIncomingMessage(message, contact?.profile?.name || null));
+    }
+  }
+
+  private emit(event: MessagingEvent) {
+    for (const listener of this.eventListeners) {
+      listener(event);
+    }
+  }
+
+  private async call<T>(method: 'GET' | 'POST', path: string, body?: Record<string, unknown> | FormData): Promise<T> {
+    const isForm = body instanceof FormData;
+    const headers: Record<string, string> = { Authorization: `Bearer ${this.config.accessToken}` };
+    if (body && !isForm) headers['Content-Type'] = 'application/json';
+
+    const response = await fetch(`${this.apiUrl}/${path}`, {
+      method,
+      headers,
+      body: isForm ? body : (body ? JSON.stringify(body) : undefined),
+    });
+
+    const payload = await response.json().catch(() => ({})) as T & { error?: { code?: number; message?: string } };
+    if (!response.ok || payload.error) {
+      throw new WhatsAppCloudApiError(path, response.status, payload.error?.code, payload.error?.message);
+    }
+    return payload;
+  }
+
+  private async sendMessage(to: string, content: Record<string, unknown>, replyTo?: string): Promise<SentMessage> {
+    const body: Record<string, unknown> = { messaging_product: 'whatsapp', recipient_type: 'individual', to, ...content };
+    if (replyTo) {
+      body.context = { message_id: replyTo };
+    }
+
+    try {
+      const sent = await this.call<{ messages: { id: string }[] }>('POST', `${this.config.phoneNumberId}/messages`, body);
+      return { id: sent.messages[0].id };
+    } catch (error) {
+      if (error instanceof WhatsAppCloudApiError && error.code === REENGAGEMENT_ERROR_CODE) {
+        throw new MessagingWindowClosedError(to);
+      }
+      throw error;
+    }
+  }
+
+  private toIncomingMessage(message: CloudMessage, senderName: string | null): IncomingMessage {
+    const file = this.getFile(message);
+    const quotedId = message.context?.id;
+
+    return {
+      id: message.id,
+      from: message.from,
+      senderName,
+      type: file ? file.type : (message.type === 'text' ? 'chat' : 'other'),
+      body: message.text?.body || file?.ref.caption || '',
+      hasQuotedMsg: Boolean(quotedId),
+      getQuotedMsg: async () => quotedId ? { id: quotedId } : null,
+      downloadMedia: async () => file ? this.download(file.ref) : null,
+      reply: (text: string) => this.sendMessage(message.from, { type: 'text', text: { body: text, preview_url: false } }, message.id),
+    };
+  }
+
+  private getFile(message: CloudMessage): { type: IncomingMessageType; ref: CloudMediaRef } | null {
+    if (message.audio) {
+      return { type: message.audio.voice ? 'ptt' : 'audio', ref: message.audio };
+    }
+    if (message.image) {
+      return { type: 'image', ref: message.image };
+    }
+    // A receipt sent "as document" to keep its quality
+    if (message.document?.mime_type?.startsWith('image/')) {
+      return { type: 'image', ref: message.document };
+    }
+    return null;
+  }
+
+  /**
+   * Media comes in two steps: the media id resolves to a short-lived URL, which needs the access
+   * token as well
+   */
+  private async download(ref: CloudMediaRef): Promise<MediaAttachment> {
+    const media = await this.call<{ url?: string; mime_type?: string }>('GET', ref.id);
+    if (!media.url) {
+      throw new Error('WhatsApp Cloud API did not return a media URL');
+    }
+
+    const response = await fetch(media.url, {
+      headers: { Authorization: `Bearer ${this.config.accessToken}` },
+    });
+    if (!response.ok) {
+      throw new Error(`WhatsApp Cloud media download failed (${response.status})`);
+    }
+
+    return {
+      data: Buffer.from(await response.arrayBuffer()).toString('base64'),
+      mimetype: media.mime_type || ref.mime_type || 'application/octet-stream',
+      filename: ref.filename || null,
+    };
+  }
+}
+
+/**
+ * Dispatch a verified webhook delivery to the provider for each business number in it
+ */
+export const handleWhatsAppCloudWebhook = (payload: WhatsAppCloudWebhookPayload): void => {
+  if (payload.object !== 'whatsapp_business_account') {
+    return;
+  }
+
+  for (const entry of payload.entry || []) {
+    for (const change of entry.changes || []) {
+      // Delivery and read receipts come as "statuses" on the same field, without messages
+      if (change.field !== 'messages' || !change.value.messages?.length) continue;
+
+      const phoneNumberId = change.value.metadata?.phone_number_id;
+      const provider = phoneNumberId ? providers.get(phoneNumberId) : undefined;
+      if (!provider) {
+        console.warn(`⚠️ WhatsApp Cloud webhook for unknown phone number id ${phoneNumberId}`);
+        continue;
+      }
+      provider.receive(change.value);
+    }
+  }
+};
@@ -0,0 +1,69 @@
+import express from 'express';
+import { Request, Response } from 'express';
+import crypto from 'crypto';
+import { handleWhatsAppCloudWebhook, type WhatsAppCloudWebhookPayload } from './whatsapp-cloud-provider';
+
+// Webhook for the WhatsApp Cloud API (MESSAGING_PROVIDER=whatsapp-cloud). Configure its callback
+// URL as https://<host>/api/whatsapp-cloud/webhook with WHATSAPP_CLOUD_VERIFY_TOKEN, and subscribe
+// to the "messages" field. Meta signs every delivery with the app secret.
+
+export const WHATSAPP_CLOUD_WEBHOOK_PATH = '/api/whatsapp-cloud/webhook';
+
+/** A request whose JSON body was kept as received, for signature checks */
+export interface RawBodyRequest extends Request {
+  rawBody?: Buffer;
+}
+
+/**
+ * Check the X-Hub-Signature-256 header: an HMAC-SHA256 of the exact request bytes with the app secret
+ */
+const isValidSignature = (rawBody: Buffer, signature: string | undefined, appSecret: string): boolean => {
+  if (!signature?.startsWith('sha256=')) {
+    return false;
+  }
+
+  const expected = crypto.createHmac('sha256', appSecret).update(rawBody).digest();
+  const received = Buffer.from(signature.slice('sha256='.length), 'hex');
+  return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+};
+
+const router = express.Router();
+
+// Subscription check: Meta echoes back hub.challenge when the verify token matches
+router.get('/whatsapp-cloud/webhook', (req: Request, res: Response) => {
+  const verifyToken = process.env.WHATSAPP_CLOUD_VERIFY_TOKEN;
+  const mode = req.query['hub.mode'];
+  const token = req.query['hub.verify_token'];
+  const challenge = req.query['hub.challenge'];
+
+  if (verifyToken && mode === 'subscribe' && token === verifyToken && typeof challenge === 'string') {
+    return res.status(200).send(challenge);
+  }
+  res.sendStatus(403);
+});
+
+// Incoming messages
+router.post('/whatsapp-cloud/webhook', (req: RawBodyRequest, res: Response) => {
+  const appSecret = process.env.WHATSAPP_CLOUD_APP_SECRET;
+  if (!appSecret) {
+    console.error('❌ WhatsApp Cloud webhook received but WHATSAPP_CLOUD_APP_SECRET is not set');
+    return res.sendStatus(503);
+  }
+
+  if (!req.rawBody || !isValidSignature(req.rawBody, req.get('x-hub-signature-256'), appSecret)) {
+    console.warn('⚠️ Rejected WhatsApp Cloud webhook with an invalid signature');
+    return res.sendStatus(401);
+  }
+
+  // Acknowledge straight away: Meta retries deliveries that take too long, and the handlers
+  // (transcription, OCR) can take a while
+  res.sendStatus(200);
+
+  try {
+    handleWhatsAppCloudWebhook(req.body as WhatsAppCloudWebhookPayload);
+  } catch (error) {
+    console.error('Error handling WhatsApp Cloud webhook:', error);
+  }
+});
+
+export default router;
@@ -0,0 +1,23 @@
+import { sendWhatsAppMessage } from './whatsapp-service';
+import { sendSingleBotMessage } from './whatsapp-single-bot';
+import { messagingLinkService } from './messaging-link-service';
+
+// Messages meant only for the account owner, like one-time codes, sent to the WhatsApp numbers
+// they've linked.
+
+/**
+ * Send to each linked number: through the user's own WhatsApp session when it's connected,
+ * otherwise through the shared bot
+ * @returns false when the user has no linked number or no message got through
+ */
+export const sendToLinkedWhatsApp = async (userId: string, message: string): Promise<boolean> => {
+  const numbers = await messagingLinkService.getLinkedIds(userId, 'whatsapp');
+
+  let delivered = false;
+  for (const number of numbers) {
+    const result = await sendWhatsAppMessage(userId, number, message);
+    const sent = result.success || (await sendSingleBotMessage(number, message)).success;
+    delivered = delivered || sent;
+  }
+  return delivered;
+};
@@ -1,7 +1,7 @@
 import { initializeUserWhatsAppClient, getAllConnections } from './whatsapp-service';
 import { db } from './db';
-import { whatsappIntegrations } from '@shared/schema';
-import { eq } from 'drizzle-orm';
+import { messagingIntegrations } from '@shared/schema';
+import { eq, and } from 'drizzle-orm';
 
 /**
  * Initialize WhatsApp clients for all active integrations on server startup
@@ -13,12 +13,15 @@ export const initializeAllWhatsAppClients = async () => {
     // Get all active WhatsApp integrations
     const activeIntegrations = await db
       .select({
-        userId: whatsappIntegrations.userId,
-        whatsappNumber: whatsappIntegrations.whatsappNumber,
-        displayName: whatsappIntegrations.displayName
+        userId: messagingIntegrations.userId,
+        whatsappNumber: messagingIntegrations.externalId,
+        displayName: messagingIntegrations.displayName
       })
-      .from(whatsappIntegrations)
-      .where(eq(whatsappIntegrations.status, 'active'));
+      .from(messagingIntegrations)
+      .where(and(
+        eq(messagingIntegrations.channel, 'whatsapp'),
+        eq(messagingIntegrations.status, 'active')
+      ));
 
     console.log(`Found ${activeIntegrations.length} active WhatsApp integrations`);
 
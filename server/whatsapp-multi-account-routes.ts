@@ -2,8 +2,11 @@ import express from 'express';
 import { Response } from 'express';
 import { requireAuth, AuthRequest } from './auth';
 import { db } from './db';
-import { whatsappIntegrations, whatsappActivationCodes } from '@shared/schema';
+import { messagingIntegrations, whatsappActivationCodes, type MessagingIntegration } from '@shared/schema';
 import { eq, and, gt, isNull } from 'drizzle-orm';
+import { storage } from './storage';
+import { messagingLinkService } from './messaging-link-service';
+import { twoFactorService, requireFreshSecondFactor } from './two-factor-service';
 import { 
   initializeUserWhatsAppClient, 
   disconnectUserWhatsApp, 
@@ -17,8 +20,20 @@ import {
 
 const router = express.Router();
 
-// Generate activation code
-router.post('/whatsapp/generate-code', requireAuth, async (req: AuthRequest, res: Response) => {
+// The app still calls a linked WhatsApp account's id its number
+const toWhatsAppConnection = (integration: MessagingIntegration) => ({
+  ...integration,
+  whatsappNumber: integration.externalId,
+});
+
+const isWhatsAppIntegration = (userId: string, connectionId: number) => and(
+  eq(messagingIntegrations.id, connectionId),
+  eq(messagingIntegrations.userId, userId),
+  eq(messagingIntegrations.channel, 'whatsapp')
+);
+
+// Generate activation code. Linking a number takes a fresh two-factor code when two-factor is on.
+router.post('/whatsapp/generate-code', requireAuth, requireFreshSecondFactor, async (req: AuthRequest, res: Response) => {
   try {
     const userId = req.user?.id;
     if (!userId) {
@@ -66,63 +81,22 @@ router.post('/whatsapp/activate', async (req, res: Response) => {
       });
     }
 
-    // Find the activation code
-    const activationCode = await db
-      .select()
-      .from(whatsappActivationCodes)
-      .where(
-        and(
-          eq(whatsappActivationCodes.code, code),
-          gt(whatsappActivationCodes.expiresAt, Date.now()), // Not expired
-          isNull(whatsappActivationCodes.usedAt) // Not used
-        )
-      )
-      .limit(1);
+    const result = await messagingLinkService.activate('whatsapp', whatsapp_number, code, name);
 
-    if (activationCode.length === 0) {
+    if (result.status === 'invalid_code') {
       return res.status(400).json({
         success: false,
         message: 'Invalid or expired activation code'
       });
     }
 
-    const codeData = activationCode[0];
-
-    // Check if this WhatsApp number is already connected to this user
-    const existingIntegration = await db
-      .select()
-      .from(whatsappIntegrations)
-      .where(
-        and(
-          eq(whatsappIntegrations.userId, codeData.userId),
-          eq(whatsappIntegrations.whatsappNumber, whatsapp_number)
-        )
-      )
-      .limit(1);
-
-    if (existingIntegration.length > 0) {
+    if (result.status === 'already_linked') {
       return res.status(400).json({
         success: false,
-        message: 'This WhatsApp number is already connected to your account'
+        message: 'This WhatsApp number is already connected to an account'
       });
     }
 
-    // Mark the code as used
-    await db
-      .update(whatsappActivationCodes)
-      .set({ usedAt: Date.now() })
-      .where(eq(whatsappActivationCodes.id, codeData.id));
-
-    // Create WhatsApp integration
-    await db.insert(whatsappIntegrations).values({
-      userId: codeData.userId,
-      whatsappNumber: whatsapp_number,
-      displayName: name || null,
-      activatedAt: Date.now(),
-      status: 'active',
-      createdAt: Date.now(),
-    });
-
     res.json({
       success: true,
       message: 'WhatsApp account successfully connected to Monly AI'
@@ -144,15 +118,11 @@ router.get('/whatsapp/connections', requireAuth, async (req: AuthRequest, res: R
       return res.status(401).json({ success: false, message: 'User not authenticated' });
     }
 
-    const connections = await db
-      .select()
-      .from(whatsappIntegrations)
-      .where(eq(whatsappIntegrations.userId, userId))
-      .orderBy(whatsappIntegrations.createdAt);
+    const integrations = await storage.getUserMessagingIntegrations(userId, 'whatsapp');
 
     res.json({
       success: true,
-      connections
+      connections: integrations.map(toWhatsAppConnection)
     });
   } catch (error) {
     console.error('Error fetching WhatsApp connections:', error);
@@ -196,8 +166,8 @@ router.get('/whatsapp/active-codes', requireAuth, async (req: AuthRequest, res:
   }
 });
 
-// Disconnect WhatsApp integration
-router.delete('/whatsapp/connections/:id', requireAuth, async (req: AuthRequest, res: Response) => {
+// Disconnect WhatsApp integration; like linking, this takes a fresh two-factor code when it's on
+router.delete('/whatsapp/connections/:id', requireAuth, requireFreshSecondFactor, async (req: AuthRequest, res: Response) => {
   try {
     const userId = req.user?.id;
     const connectionId = parseInt(req.params.id);
@@ -213,13 +183,8 @@ router.delete('/whatsapp/connections/:id', requireAuth, async (req: AuthRequest,
     // First get the connection details
     const connection = await db
       .select()
-      .from(whatsappIntegrations)
-      .where(
-        and(
-          eq(whatsappIntegrations.id, connectionId),
-          eq(whatsappIntegrations.userId, userId)
-        )
-      )
+      .from(messagingIntegrations)
+      .where(isWhatsAppIntegration(userId, connectionId))
       .limit(1);
 
     if (connection.length === 0) {
@@ -229,18 +194,27 @@ router.delete('/whatsapp/connections/:id', requireAuth, async (req: AuthRequest,
       });
     }
 
+    // The last number can't go while it's the second factor, or the user couldn't log in with it
+    if (await twoFactorService.getMethod(userId) === 'whatsapp') {
+      const linked = await db
+        .select({ id: messagingIntegrations.id })
+        .from(messagingIntegrations)
+        .where(and(eq(messagingIntegrations.userId, userId), eq(messagingIntegrations.channel, 'whatsapp')));
+      if (linked.length <= 1) {
+        return res.status(409).json({
+          success: false,
+          message: 'This number is your two-factor method. Turn off two-factor authentication first.'
+        });
+      }
+    }
+
     // Disconnect the WhatsApp client if it's active
     await disconnectUserWhatsApp(userId);
 
     // Delete the integration from database
     await db
-      .delete(whatsappIntegrations)
-      .where(
-        and(
-          eq(whatsappIntegrations.id, connectionId),
-          eq(whatsappIntegrations.userId, userId)
-        )
-      );
+      .delete(messagingIntegrations)
+      .where(isWhatsAppIntegration(userId, connectionId));
 
     res.json({
       success: true,
@@ -264,11 +238,7 @@ router.post('/whatsapp/initialize', requireAuth, async (req: AuthRequest, res: R
     }
 
     // Check if user has any WhatsApp integrations
-    const integrations = await db
-      .select()
-      .from(whatsappIntegrations)
-      .where(eq(whatsappIntegrations.userId, userId))
-      .limit(1);
+    const integrations = await storage.getUserMessagingIntegrations(userId, 'whatsapp');
 
     if (integrations.length === 0) {
       return res.status(400).json({
@@ -340,18 +310,9 @@ router.post('/whatsapp/send-test', requireAuth, async (req: AuthRequest, res: Re
     }
 
     // Check if the WhatsApp number belongs to the user
-    const integration = await db
-      .select()
-      .from(whatsappIntegrations)
-      .where(
-        and(
-          eq(whatsappIntegrations.userId, userId),
-          eq(whatsappIntegrations.whatsappNumber, whatsappNumber)
-        )
-      )
-      .limit(1);
+    const integrations = await storage.getUserMessagingIntegrations(userId, 'whatsapp');
 
-    if (integration.length === 0) {
+    if (!integrations.some(integration => integration.externalId === whatsappNumber)) {
       return res.status(403).json({
         success: false,
         message: 'WhatsApp number not connected to your account'
@@ -1,28 +1,26 @@
-import pkg from 'whatsapp-web.js';
-const { Client, LocalAuth, MessageMedia } = pkg;
-import qrcode from 'qrcode';
-import OpenAI from 'openai';
-import { analyzeTransactionText, processReceiptImage } from './openai';
+import { createMessagingProvider, isWhatsAppCloudEnabled, type IncomingMessage, type MessagingEvent, type MessagingProvider } from './messaging-provider';
+import { llm } from './llm-provider';
+import { intentRouter, type IntentName } from './intent-router';
+import { conversationStateService } from './conversation-state';
+import { transactionDraftService, type DraftDecision } from './transaction-draft-service';
+import { transactionBatchService, type SavedBatchItem } from './transaction-batch-service';
+import { transactionQueryService } from './transaction-query-service';
+import { extractAmount } from './transaction-text-parser';
+import { parseRelativeDate, parseSpecificDate, processReceiptImage, type TransactionAnalysis } from './openai';
+import { categorizationRuleService } from './categorization-rule-service';
+import { budgetAlertService } from './budget-alert-service';
+import { spendingLimitService, type SpendingLimitViolation } from './spending-limit-service';
 import { storage } from './storage';
+import { messagingLinkService } from './messaging-link-service';
+import type { MessagingChannel } from '@shared/schema';
 
 // Helper function to get timezone from environment
 function getTimezone(): string {
   return process.env.TZ || 'Asia/Jakarta';
 }
 
-// Initialize OpenAI client
-const openai = new OpenAI({ 
-  apiKey: process.env.OPENAI_API_KEY || process.env.OPENAI_KEY || "default_key"
-});
-
-// Type definitions for WhatsApp Web.js
-type WAClient = InstanceType<typeof Client>;
-type WAMessage = any; // WhatsApp message type
-
 interface WhatsAppConnection {
-  client: WAClient;
-  status: 'initializing' | 'loading_screen' | 'qr_received' | 'authenticated' | 'ready' | 'disconnected';
-  qrCode: string | null;
+  provider: MessagingProvider;
   userId: string;
   reconnectAttempts: number;
   lastReconnectTime: number;
@@ -33,18 +31,18 @@ interface WhatsAppConnection {
 // Store WhatsApp connections by user ID
 const connections: Map<string, WhatsAppConnection> = new Map();
 
+const getStatus = (connection: WhatsAppConnection) => connection.provider.getState().status;
+
 // Health check interval for connections
 const healthCheckInterval = setInterval(async () => {
   const entries = Array.from(connections.entries());
   for (const [userId, connection] of entries) {
-    if (connection.status === 'ready') {
+    if (getStatus(connection) === 'ready') {
       try {
-        // Simple health check by trying to get state
-        const state = await connection.client.getState();
-        if (state !== 'CONNECTED') {
-          console.log(`⚠️ WhatsApp connection unhealthy for user ${userId}, state: ${state}`);
-          connection.status = 'disconnected';
-          
+        if (!(await connection.provider.isHealthy())) {
+          console.log(`⚠️ WhatsApp connection unhealthy for user ${userId}`);
+          await connection.provider.destroy();
+
           // Trigger reconnection if enabled
           if (connection.autoReconnect && connection.reconnectAttempts < connection.maxReconnectAttempts) {
             console.log(`🔄 Health check triggered reconnection for user ${userId}`);
@@ -59,7 +57,7 @@ const healthCheckInterval = setInterval(async () => {
         }
       } catch (error) {
         console.error(`Health check failed for user ${userId}:`, error);
-        connection.status = 'disconnected';
+        await connection.provider.destroy().catch(() => undefined);
       }
     }
   }
@@ -82,52 +80,12 @@ export const initializeWhatsAppClient = (userId: string): WhatsAppConnection =>
     return existingConnection;
   }
 
-  // Create a new client with local authentication
-  const client = new Client({
-    authStrategy: new LocalAuth({ clientId: userId }),
-    puppeteer: {
-      headless: true,
-      args: [
-        '--no-sandbox', 
-        '--disable-setuid-sandbox',
-        '--disable-dev-shm-usage',
-        '--disable-accelerated-2d-canvas',
-        '--no-first-run',
-        '--no-zygote',
-        '--single-process',
-        '--disable-gpu',
-        '--disable-background-timer-throttling',
-        '--disable-backgrounding-occluded-windows',
-        '--disable-renderer-backgrounding',
-        '--disable-features=TranslateUI',
-        '--disable-ipc-flooding-protection',
-        '--disable-extensions',
-        '--disable-default-apps',
-        '--disable-sync',
-        '--disable-translate',
-        '--hide-scrollbars',
-        '--metrics-recording-only',
-        '--mute-audio',
-        '--no-default-browser-check',
-        '--safebrowsing-disable-auto-update',
-        '--disable-web-security',
-        '--disable-features=VizDisplayCompositor'
-      ],
-      executablePath: process.env.NODE_ENV === 'production' ? 
-        (process.env.CHROME_PATH || '/usr/bin/google-chrome-stable') : undefined,
-      timeout: 30000
-    },
-    webVersionCache: {
-      type: 'remote',
-      remotePath: 'https://raw.githubusercontent.com/wppconnect-team/wa-version/main/html/2.2412.54.html'
-    }
-  });
+  // The user id doubles as the session id, so a saved login survives restarts
+  const provider = createMessagingProvider(userId);
 
   // Create connection object
   const connection: WhatsAppConnection = {
-    client,
-    status: 'initializing',
-    qrCode: null,
+    provider,
     userId,
     reconnectAttempts: 0,
     lastReconnectTime: 0,
@@ -135,148 +93,91 @@ export const initializeWhatsAppClient = (userId: string): WhatsAppConnection =>
     maxReconnectAttempts: 5
   };
 
-  // Set up event handlers
-  client.on('qr', async (qr) => {
-    console.log(`QR Code received for user ${userId}`);
-    try {
-      // Generate QR code as data URL
-      connection.qrCode = await qrcode.toDataURL(qr);
-      connection.status = 'qr_received';
-    } catch (err) {
-      console.error('Error generating QR code:', err);
-      connection.qrCode = qr; // Fallback to raw QR string
-      connection.status = 'qr_received';
-    }
-  });
+  provider.onMessage(handleIncomingMessage);
+  provider.onEvent((event) => handleConnectionEvent(connection, event));
 
-  client.on('ready', () => {
-    console.log(`✅ WhatsApp client ready for user ${userId}`);
-    connection.status = 'ready';
-    connection.qrCode = null;
-    connection.reconnectAttempts = 0; // Reset reconnection attempts on successful connection
-    
-    // Register message handlers when client is ready
-    registerMessageHandlers(userId);
-    
-    // Send welcome message to user's own number if possible
-    client.getChats().then(chats => {
-      console.log(`User ${userId} has ${chats.length} chats available`);
-    }).catch(console.error);
-  });
+  // Store the connection
+  connections.set(userId, connection);
 
-  client.on('authenticated', () => {
-    console.log(`✅ WhatsApp client authenticated for user ${userId}`);
-    connection.status = 'authenticated';
-    connection.reconnectAttempts = 0; // Reset reconnection attempts on successful authentication
+  provider.initialize().catch((error) => {
+    console.error(`❌ Failed to initialize WhatsApp client for user ${userId}:`, error);
   });
 
-  client.on('auth_failure', (msg) => {
-    console.error(`WhatsApp authentication failed for user ${userId}: ${msg}`);
-    connection.status = 'disconnected';
-    
-    // Attempt auto-reconnection for auth failures too
-    if (connection.autoReconnect && connection.reconnectAttempts < connection.maxReconnectAttempts) {
-      const now = Date.now();
-      const timeSinceLastReconnect = now - connection.lastReconnectTime;
-      const minReconnectInterval = 60000; // 1 minute minimum for auth failures
-      
-      if (timeSinceLastReconnect >= minReconnectInterval) {
-        connection.reconnectAttempts++;
-        connection.lastReconnectTime = now;
-        
-        console.log(`🔄 Auto-reconnecting after auth failure for user ${userId} (attempt ${connection.reconnectAttempts}/${connection.maxReconnectAttempts})`);
-        
-        // Schedule reconnection with longer delay for auth failures
-        const backoffDelay = Math.min(60000 * Math.pow(2, connection.reconnectAttempts - 1), 600000); // Max 10 minutes
-        
-        setTimeout(async () => {
-          try {
-            await reconnectWhatsAppClient(userId);
-          } catch (error) {
-            console.error(`Failed to reconnect WhatsApp after auth failure for user ${userId}:`, error);
-          }
-        }, backoffDelay);
-      }
-    }
-  });
+  return connection;
+};
 
-  client.on('disconnected', (reason) => {
-    console.log(`WhatsApp client disconnected for user ${userId}: ${reason}`);
-    connection.status = 'disconnected';
-    
-    // Attempt auto-reconnection if enabled
-    if (connection.autoReconnect && connection.reconnectAttempts < connection.maxReconnectAttempts) {
-      const now = Date.now();
-      const timeSinceLastReconnect = now - connection.lastReconnectTime;
-      const minReconnectInterval = 30000; // 30 seconds minimum between reconnection attempts
-      
-      if (timeSinceLastReconnect >= minReconnectInterval) {
-        connection.reconnectAttempts++;
-        connection.lastReconnectTime = now;
-        
-        console.log(`🔄 Auto-reconnecting WhatsApp for user ${userId} (attempt ${connection.reconnectAttempts}/${connection.maxReconnectAttempts})`);
-        
-        // Schedule reconnection with exponential backoff
-        const backoffDelay = Math.min(30000 * Math.pow(2, connection.reconnectAttempts - 1), 300000); // Max 5 minutes
-        
-        setTimeout(async () => {
-          try {
-            await reconnectWhatsAppClient(userId);
-          } catch (error) {
-            console.error(`Failed to reconnect WhatsApp for user ${userId}:`, error);
-          }
-        }, backoffDelay);
+const handleConnectionEvent = (connection: WhatsAppConnection, event: MessagingEvent) => {
+  const { userId } = connection;
+
+  switch (event.type) {
+    case 'qr':
+      console.log(`QR Code received for user ${userId}`);
+      break;
+
+    case 'authenticated':
+      console.log(`✅ WhatsApp client authenticated for user ${userId}`);
+      connection.reconnectAttempts = 0; // Reset reconnection attempts on successful authentication
+      break;
+
+    case 'ready':
+      console.log(`✅ WhatsApp client ready for user ${userId}`);
+      connection.reconnectAttempts = 0; // Reset reconnection attempts on successful connection
+      break;
+
+    case 'auth_failure':
+      console.error(`WhatsApp authentication failed for user ${userId}: ${event.reason}`);
+      // 1 minute minimum for auth failures, max 10 minutes
+      scheduleReconnect(connection, 60000, 600000);
+      break;
+
+    case 'disconnected':
+      console.log(`WhatsApp client disconnected for user ${userId}: ${event.reason}`);
+      // 30 seconds minimum between reconnection attempts, max 5 minutes
+      if (!scheduleReconnect(connection, 30000, 300000)) {
+        console.log(`❌ Max reconnection attempts reached for user ${userId}, cleaning up connection`);
+        // Clean up connection after max attempts
+        if (connections.get(userId) === connection) {
+          connections.delete(userId);
+        }
       }
-    } else {
-      console.log(`❌ Max reconnection attempts reached for user ${userId}, cleaning up connection`);
-      // Clean up connection after max attempts
-      connections.delete(userId);
-    }
-  });
+      break;
+  }
+};
 
-  client.on('message_create', (message) => {
-    // Log outgoing messages for debugging
-    if (message.fromMe) {
-      console.log(`Sent message to ${message.to}: ${message.body}`);
-    }
-  });
+/**
+ * Reconnect with exponential backoff, at most once per minInterval
+ * @returns false when auto-reconnect is off or out of attempts
+ */
+const scheduleReconnect = (connection: WhatsAppConnection, minInterval: number, maxDelay: number): boolean => {
+  const { userId } = connection;
 
-  // Store the connection
-  connections.set(userId, connection);
+  // A connection that has been replaced is not ours to reconnect
+  if (connections.get(userId) !== connection) {
+    return true;
+  }
+  if (!connection.autoReconnect || connection.reconnectAttempts >= connection.maxReconnectAttempts) {
+    return false;
+  }
+
+  const now = Date.now();
+  if (now - connection.lastReconnectTime < minInterval) {
+    return true;
+  }
+
+  connection.reconnectAttempts++;
+  connection.lastReconnectTime = now;
+  console.log(`🔄 Auto-reconnecting WhatsApp for user ${userId} (attempt ${connection.reconnectAttempts}/${connection.maxReconnectAttempts})`);
 
-  // Initialize the client with retry logic
-  const initializeWithRetry = async (attempt = 1) => {
+  const backoffDelay = Math.min(minInterval * Math.pow(2, connection.reconnectAttempts - 1), maxDelay);
+  setTimeout(async () => {
     try {
-      await client.initialize();
-      console.log(`✅ WhatsApp client initialized successfully for user ${userId}`);
-      connection.reconnectAttempts = 0; // Reset counter on successful connection
+      await reconnectWhatsAppClient(userId);
     } catch (error) {
-      console.error(`❌ Failed to initialize WhatsApp client for user ${userId} (attempt ${attempt}):`, error);
-      connection.status = 'disconnected';
-      
-      // Handle specific errors
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      if (errorMessage.includes('ERR_INSUFFICIENT_RESOURCES') || 
-          errorMessage.includes('net::ERR_') ||
-          errorMessage.includes('Target closed')) {
-        
-        if (attempt < 3) { // Retry up to 3 times for network errors
-          console.log(`🔄 Retrying WhatsApp initialization for user ${userId} in ${attempt * 10} seconds...`);
-          setTimeout(() => {
-            initializeWithRetry(attempt + 1);
-          }, attempt * 10000); // Exponential backoff: 10s, 20s, 30s
-          return;
-        }
-      }
-      
-      // If max retries reached or other error, mark as failed
-      console.error(`❌ Failed to initialize WhatsApp client for user ${userId}: Connection failed`);
+      console.error(`Failed to reconnect WhatsApp for user ${userId}:`, error);
     }
-  };
+  }, backoffDelay);
 
-  initializeWithRetry();
-
-  return connection;
+  return true;
 };
 
 /**
@@ -290,10 +191,7 @@ export const getConnectionState = (userId: string) => {
     return null;
   }
 
-  return {
-    status: connection.status,
-    qrCode: connection.qrCode
-  };
+  return connection.provider.getState();
 };
 
 /**
@@ -306,8 +204,7 @@ export const getAllConnections = () => {
   for (const [userId, connection] of entries) {
     result.push({
       userId,
-      status: connection.status,
-      qrCode: connection.qrCode
+      ...connection.provider.getState()
     });
   }
   return result;
@@ -324,22 +221,28 @@ export const reconnectWhatsAppClient = async (userId: string): Promise<{ success
     
     // Cleanup existing connection
     if (existingConnection) {
+      connections.delete(userId);
       try {
-        await existingConnection.client.destroy();
+        await existingConnection.provider.destroy();
       } catch (error) {
         console.error(`Error destroying existing connection for user ${userId}:`, error);
       }
-      connections.delete(userId);
     }
     
     console.log(`🔄 Starting reconnection process for user ${userId}...`);
     
-    // Create new connection
+    // Create new connection, keeping the reconnect bookkeeping of the old one
     const connection = initializeWhatsAppClient(userId);
+    if (existingConnection) {
+      connection.reconnectAttempts = existingConnection.reconnectAttempts;
+      connection.lastReconnectTime = existingConnection.lastReconnectTime;
+      connection.autoReconnect = existingConnection.autoReconnect;
+    }
     
     // Wait for connection result with timeout
     return new Promise((resolve) => {
       const timeout = setTimeout(() => {
+        clearInterval(checkInterval);
         resolve({
           success: false,
           status: 'timeout',
@@ -360,29 +263,30 @@ export const reconnectWhatsAppClient = async (userId: string): Promise<{ success
           return;
         }
         
-        if (currentConnection.qrCode && currentConnection.status === 'qr_received') {
+        const { status, qrCode } = currentConnection.provider.getState();
+        if (qrCode && status === 'qr_received') {
           clearTimeout(timeout);
           clearInterval(checkInterval);
           resolve({
             success: true,
-            status: currentConnection.status,
+            status,
             message: 'QR code generated for reconnection',
-            qrCode: currentConnection.qrCode
+            qrCode
           });
-        } else if (currentConnection.status === 'ready' || currentConnection.status === 'authenticated') {
+        } else if (status === 'ready' || status === 'authenticated') {
           clearTimeout(timeout);
           clearInterval(checkInterval);
           resolve({
             success: true,
-            status: currentConnection.status,
+            status,
             message: 'WhatsApp reconnected successfully'
           });
-        } else if (currentConnection.status === 'disconnected') {
+        } else if (status === 'disconnected') {
           clearTimeout(timeout);
           clearInterval(checkInterval);
           resolve({
             success: false,
-            status: currentConnection.status,
+            status,
             message: 'Reconnection failed'
           });
         }
@@ -430,22 +334,32 @@ export const setAutoReconnect = (userId: string, autoReconnect: boolean): { succ
  */
 export const initializeUserWhatsAppClient = async (userId: string): Promise<{ success: boolean; status: string; qrCode?: string; message?: string }> => {
   try {
+    // The Cloud API has one business number for everyone; users link with an activation code instead
+    if (isWhatsAppCloudEnabled()) {
+      return {
+        success: false,
+        status: 'unsupported',
+        message: 'Personal WhatsApp sessions are not available with the WhatsApp Cloud API. Link your number with an activation code instead.'
+      };
+    }
+
     // Check if user already has an active connection
     const existingConnection = connections.get(userId);
     if (existingConnection) {
-      if (existingConnection.status === 'ready' || existingConnection.status === 'authenticated') {
+      const { status, qrCode } = existingConnection.provider.getState();
+      if (status === 'ready' || status === 'authenticated') {
         return {
           success: true,
-          status: existingConnection.status,
+          status,
           message: 'WhatsApp already connected'
         };
-      } else if (existingConnection.status === 'qr_received' && existingConnection.qrCode) {
+      } else if (status === 'qr_received' && qrCode) {
         return {
           success: true,
-          status: existingConnection.status,
-          qrCode: existingConnection.qrCode
+          status,
+          qrCode
         };
-      } else if (existingConnection.status === 'disconnected') {
+      } else if (status === 'disconnected') {
         // If connection is disconnected, try to reconnect
         console.log(`🔄 Existing connection is disconnected, attempting reconnection for user ${userId}...`);
         return await reconnectWhatsAppClient(userId);
@@ -458,6 +372,7 @@ export const initializeUserWhatsAppClient = async (userId: string): Promise<{ su
     // Wait for QR code or ready state
     return new Promise((resolve) => {
       const timeout = setTimeout(() => {
+        clearInterval(checkInterval);
         resolve({
           success: false,
           status: 'timeout',
@@ -466,28 +381,29 @@ export const initializeUserWhatsAppClient = async (userId: string): Promise<{ su
       }, 60000); // 60 second timeout
       
       const checkInterval = setInterval(() => {
-        if (connection.qrCode && connection.status === 'qr_received') {
+        const { status, qrCode } = connection.provider.getState();
+        if (qrCode && status === 'qr_received') {
           clearTimeout(timeout);
           clearInterval(checkInterval);
           resolve({
             success: true,
-            status: connection.status,
-            qrCode: connection.qrCode
+            status,
+            qrCode
           });
-        } else if (connection.status === 'ready' || connection.status === 'authenticated') {
+        } else if (status === 'ready' || status === 'authenticated') {
           clearTimeout(timeout);
           clearInterval(checkInterval);
           resolve({
             success: true,
-            status: connection.status,
+            status,
             message: 'WhatsApp connected successfully'
           });
-        } else if (connection.status === 'disconnected') {
+        } else if (status === 'disconnected') {
           clearTimeout(timeout);
           clearInterval(checkInterval);
           resolve({
             success: false,
-            status: connection.status,
+            status,
             message: 'Connection failed'
           });
         }
@@ -519,8 +435,8 @@ export const disconnectUserWhatsApp = async (userId: string): Promise<{ success:
       };
     }
     
-    await connection.client.destroy();
     connections.delete(userId);
+    await connection.provider.destroy();
     
     return {
       success: true,
@@ -549,17 +465,14 @@ export const sendWhatsAppMessage = async (
 ): Promise<{ success: boolean; message?: string }> => {
   try {
     const connection = connections.get(userId);
-    if (!connection || connection.status !== 'ready') {
+    if (!connection || getStatus(connection) !== 'ready') {
       return {
         success: false,
         message: 'WhatsApp client not ready'
       };
     }
     
-    // Format the number correctly
-    const chatId = whatsappNumber.includes('@c.us') ? whatsappNumber : `${whatsappNumber}@c.us`;
-    
-    await connection.client.sendMessage(chatId, message);
+    await connection.provider.sendText(whatsappNumber, message);
     
     return {
       success: true
@@ -587,11 +500,11 @@ export const getWhatsAppConnectionStatus = () => {
     };
   }
 
-  const firstConnection = Array.from(connections.values())[0];
+  const { status, qrCode } = Array.from(connections.values())[0].provider.getState();
   return {
-    connected: firstConnection.status === 'ready' || firstConnection.status === 'authenticated',
-    status: firstConnection.status,
-    qrCode: firstConnection.qrCode
+    connected: status === 'ready' || status === 'authenticated',
+    status,
+    qrCode
   };
 };
 
@@ -641,236 +554,188 @@ export const disconnectWhatsApp = async (): Promise<{ success: boolean; message:
 };
 
 /**
- * Register message handlers for financial operations with full AI integration
- * @param userId The user ID to register handlers for
+ * Whether a user's client is ready to handle messages. The handler is attached when the client is
+ * created, so there is nothing left to register.
+ * @param userId The user ID to check
  */
 export const registerMessageHandlers = (userId: string): boolean => {
   const connection = connections.get(userId);
-  if (!connection || connection.status !== 'ready') {
-    return false;
+  return Boolean(connection && getStatus(connection) === 'ready');
+};
+
+// Who a message came from, for replies that depend on the chat channel
+export interface MessageSender {
+  channel: MessagingChannel;
+  externalId: string;
+}
+
+const CHANNEL_NAMES: Record<MessagingChannel, string> = {
+  whatsapp: 'WhatsApp',
+  telegram: 'Telegram',
+};
+
+// "AKTIVASI: ABC123" on any channel, or Telegram's "/start ABC123" from a t.me deep link
+const ACTIVATION_PATTERN = /^(?:AKTIVASI:|\/start)\s*([A-Z0-9]{6})$/i;
+
+/**
+ * Handle a message from any provider: link unknown chat accounts with an activation code, then
+ * hand text, voice and receipt photos of linked users to their handlers. Every bot registers this.
+ */
+export const handleIncomingMessage = async (message: IncomingMessage, channel: MessagingChannel = 'whatsapp') => {
+  console.log(`📥 ${CHANNEL_NAMES[channel]} message received from ${message.from}: ${message.body}`);
+  const sender: MessageSender = { channel, externalId: message.from };
+
+  // Get user ID from the chat account
+  const messageUserId = await messagingLinkService.findUserId(channel, message.from);
+  
+  if (!messageUserId) {
+    // Check for activation command first
+    const activationMatch = message.body.trim().match(ACTIVATION_PATTERN);
+
+    if (activationMatch) {
+      await handleActivationCode(message, activationMatch[1].toUpperCase(), sender);
+    } else {
+      const account = channel === 'whatsapp' ? 'Nomor WhatsApp Anda' : `Akun ${CHANNEL_NAMES[channel]} Anda`;
+      await message.reply(
+        `🔒 *Akun Belum Terhubung*\n\n` +
+        `${account} belum terhubung ke akun Monly AI.\n\n` +
+        `📱 *Cara Menghubungkan:*\n` +
+        `1. Buka aplikasi Monly AI\n` +
+        `2. Masuk ke menu "Integrasi WhatsApp"\n` +
+        `3. Buat kode aktivasi\n` +
+        `4. Kirim pesan: AKTIVASI: [KODE]\n\n` +
+        `💡 Contoh: AKTIVASI: ABC123`
+      );
+    }
+    return;
   }
 
-  // Handle incoming messages with comprehensive AI processing
-  connection.client.on('message', async (message: WAMessage) => {
-    console.log(`Message received from ${message.from}: ${message.body}`);
-    
-    // Get WhatsApp number without suffix
-    const whatsappNumber = message.from.replace('@c.us', '');
-    
-    // Skip messages from groups or status updates
-    if (message.from.includes('@g.us') || message.from.includes('status@broadcast')) {
-      return;
+  // Handle different message types for authenticated users
+  try {
+    // Handle text commands
+    if (message.type === 'chat' && message.body) {
+      await routeTextMessage(message, messageUserId, sender);
     }
     
-    // Get user ID from WhatsApp number
-    const messageUserId = await getUserIdFromWhatsApp(whatsappNumber);
+    // Handle voice messages
+    else if (message.type === 'ptt' || message.type === 'audio') {
+      await message.reply('🎤 Memproses pesan suara...');
+      await processVoiceMessage(message, messageUserId);
+    }
     
-    if (!messageUserId) {
-      // Check for activation command first
-      const activationPattern = /^AKTIVASI:\s*([A-Z0-9]{6})$/i;
-      const activationMatch = message.body.match(activationPattern);
-
-      if (activationMatch) {
-        await handleActivationCode(message, activationMatch[1].toUpperCase(), whatsappNumber);
-      } else {
-        await message.reply(
-          `🔒 *Akun Belum Terhubung*\n\n` +
-          `Nomor WhatsApp Anda belum terhubung ke akun Monly AI.\n\n` +
-          `📱 *Cara Menghubungkan:*\n` +
-          `1. Buka aplikasi Monly AI\n` +
-          `2. Masuk ke menu "Integrasi WhatsApp"\n` +
-          `3. Buat kode aktivasi\n` +
-          `4. Kirim pesan: AKTIVASI: [KODE]\n\n` +
-          `💡 Contoh: AKTIVASI: ABC123`
-        );
-      }
-      return;
+    // Handle image messages (receipts)
+    else if (message.type === 'image') {
+      await message.reply('📸 Memproses gambar struk...');
+      await processImageMessage(message, messageUserId);
     }
-
-    // Handle different message types for authenticated users
-    try {
-      // Handle text commands
-      if (message.type === 'chat' && message.body) {
-        const messageText = message.body.toLowerCase().trim();
-        
-        // Special commands
-        if (messageText === 'bantuan' || messageText === 'help') {
-          await showHelpMessage(message);
-          return;
-        }
-        
-        if (messageText === 'saldo' || messageText === 'balance' || messageText === 'ringkasan') {
-          await showBalanceSummary(message, messageUserId);
-          return;
-        }
-        
-        if (messageText === 'status') {
-          await message.reply(
-            `✅ *Status Koneksi*\n\n` +
-            `🔗 WhatsApp terhubung dengan akun Monly AI\n` +
-            `📱 Nomor: ${whatsappNumber}\n` +
-            `🤖 Bot aktif dan siap mencatat transaksi\n\n` +
-            `Kirim "bantuan" untuk melihat cara penggunaan.`
-          );
-          return;
-        }
-        
-        // Check if it's a budget command
-        if (messageText.includes('budget') || 
-            messageText.includes('set budget') || 
-            messageText.includes('atur budget') ||
-            messageText.includes('cek budget') ||
-            messageText.includes('hapus budget') ||
-            messageText.includes('daftar budget') ||
-            messageText.includes('list budget')) {
-          await processBudgetCommand(message, messageUserId);
-          return;
-        }
-        
-        // Check if it's a savings/goals command
-        if (messageText.includes('nabung') || 
-            messageText.includes('menabung') ||
-            messageText.includes('saving') ||
-            messageText.includes('tabung') ||
-            messageText.includes('goal') ||
-            messageText.includes('tujuan') ||
-            messageText.includes('target') ||
-            messageText.includes('buat goal') ||
-            messageText.includes('create goal') ||
-            messageText.includes('daftar goal') ||
-            messageText.includes('list goal') ||
-            messageText.includes('cek tabungan') ||
-            messageText.includes('check savings') ||
-            messageText.includes('saldo goal') ||
-            messageText.includes('goal balance') ||
-            messageText.includes('kembalikan') ||
-            messageText.includes('kembalikan dana') ||
-            messageText.includes('tarik dana') ||
-            messageText.includes('return') ||
-            messageText.includes('refund') ||
-            messageText.includes('withdraw') ||
-            messageText.includes('hapus goal') ||
-            messageText.includes('delete goal') ||
-            messageText.includes('transfer') && (messageText.includes('dari') || messageText.includes('from'))) {
-          await processSavingsCommand(message, messageUserId);
-          return;
-        }
-        
-        // Check if it's a category command
-        if (messageText.includes('kategori') || 
-            messageText.includes('category') ||
-            messageText.includes('buat kategori') ||
-            messageText.includes('create category') ||
-            messageText.includes('tambah kategori') ||
-            messageText.includes('add category') ||
-            messageText.includes('ubah kategori') ||
-            messageText.includes('edit category') ||
-            messageText.includes('hapus kategori') ||
-            messageText.includes('delete category') ||
-            messageText.includes('daftar kategori') ||
-            messageText.includes('list category')) {
-          await processCategoryCommand(message, messageUserId);
-          return;
-        }
-        
-        // Process as transaction text
-        await processTextMessage(message, messageUserId);
-      }
-      
-      // Handle voice messages
-      else if (message.type === 'ptt' || message.type === 'audio') {
-        await message.reply('🎤 Memproses pesan suara...');
-        await processVoiceMessage(message, messageUserId);
-      }
-      
-      // Handle image messages (receipts)
-      else if (message.type === 'image') {
-        await message.reply('📸 Memproses gambar struk...');
-        await processImageMessage(message, messageUserId);
-      }
-      
-      // Handle unsupported message types
-      else {
-        await message.reply(
-          `🤖 *Jenis Pesan Tidak Didukung*\n\n` +
-          `Saya dapat memproses:\n` +
-          `• 📝 Pesan teks (untuk transaksi)\n` +
-          `• 🎤 Pesan suara (untuk transaksi)\n` +
-          `• 📸 Foto struk/nota\n\n` +
-          `Kirim "bantuan" untuk panduan lengkap.`
-        );
-      }
-      
-    } catch (error) {
-      console.error('Error processing WhatsApp message:', error);
+    
+    // Handle unsupported message types
+    else {
       await message.reply(
-        `❌ *Terjadi Kesalahan*\n\n` +
-        `Maaf, terjadi kesalahan dalam memproses pesan Anda. Silakan coba lagi nanti atau hubungi support.`
+        `🤖 *Jenis Pesan Tidak Didukung*\n\n` +
+        `Saya dapat memproses:\n` +
+        `• 📝 Pesan teks (untuk transaksi)\n` +
+        `• 🎤 Pesan suara (untuk transaksi)\n` +
+        `• 📸 Foto struk/nota\n\n` +
+        `Kirim "bantuan" untuk panduan lengkap.`
       );
     }
+    
+  } catch (error) {
+    console.error('Error processing WhatsApp message:', error);
+    await message.reply(
+      `❌ *Terjadi Kesalahan*\n\n` +
+      `Maaf, terjadi kesalahan dalam memproses pesan Anda. Silakan coba lagi nanti atau hubungi support.`
+    );
+  }
+};
+
+/**
+ * Route a text message to the right handler with the shared intent router, asking a clarifying
+ * question when the message could mean two things. Used by both WhatsApp bots.
+ */
+export const routeTextMessage = async (message: any, userId: string, sender?: MessageSender) => {
+  // An answer to a pending draft ("1", "25rb", "transport") continues that draft
+  const categories = await getUserCategories(userId);
+  const draftDecision = transactionDraftService.answer(userId, message.body, categories);
+  if (draftDecision) {
+    const userPreferences = await getUserPreferences(userId);
+    await replyToDraftDecision(message, userId, draftDecision, userPreferences, categories);
+    return;
+  }
+
+  const goals = await getUserGoals(userId);
+  const route = intentRouter.route(userId, message.body, {
+    language: 'id',
+    goalNames: goals.map(goal => goal.name),
   });
 
-  return true;
+  if (route.type === 'clarify') {
+    await message.reply(route.question);
+    return;
+  }
+
+  // An answer to a clarifying question routes the original message, so handlers see that text
+  message.body = route.text;
+  await dispatchIntent(message, userId, route.intent, sender);
+};
+
+/**
+ * Run the handler for an intent. Handlers only use message.body and message.reply, so the web chat
+ * can call this with a stand-in message object.
+ */
+export const dispatchIntent = async (message: any, userId: string, intent: IntentName, sender?: MessageSender) => {
+  switch (intent) {
+    case 'help':
+      return showHelpMessage(message);
+    case 'balance':
+      return showBalanceSummary(message, userId);
+    case 'status':
+      return message.reply(
+        `✅ *Status Koneksi*\n\n` +
+        `🔗 ${CHANNEL_NAMES[sender?.channel || 'whatsapp']} terhubung dengan akun Monly AI\n` +
+        (sender?.channel === 'whatsapp' ? `📱 Nomor: ${sender.externalId}\n` : '') +
+        `🤖 Bot aktif dan siap mencatat transaksi\n\n` +
+        `Kirim "bantuan" untuk melihat cara penggunaan.`
+      );
+    case 'recurring':
+      return processRecurringCommand(message, userId);
+    case 'budget':
+      return processBudgetCommand(message, userId);
+    case 'savings':
+      return processSavingsCommand(message, userId);
+    case 'category':
+      return processCategoryCommand(message, userId);
+    case 'undo':
+      return processUndoCommand(message, userId);
+    case 'edit':
+      return processEditCommand(message, userId);
+    case 'query':
+      return processQueryCommand(message, userId);
+    default:
+      return processTextMessage(message, userId);
+  }
 };
 
 // Helper function to handle activation code
-const handleActivationCode = async (message: any, code: string, whatsappNumber: string) => {
+const handleActivationCode = async (message: IncomingMessage, code: string, sender: MessageSender) => {
   try {
-    // Import needed modules
-    const { db } = await import('./db');
-    const { whatsappActivationCodes, whatsappIntegrations } = await import('@shared/schema');
-    const { eq, and, gt, isNull } = await import('drizzle-orm');
-    
-    console.log(`Processing activation code: ${code} for WhatsApp: ${whatsappNumber}`);
-    
-    // Check if activation code exists and is still valid
-    const currentTime = Date.now();
-    const activationCode = await db.select()
-      .from(whatsappActivationCodes)
-      .where(
-        and(
-          eq(whatsappActivationCodes.code, code),
-          gt(whatsappActivationCodes.expiresAt, currentTime),
-          isNull(whatsappActivationCodes.usedAt)
-        )
-      )
-      .limit(1);
-
-    if (activationCode.length === 0) {
+    const result = await messagingLinkService.activate(sender.channel, sender.externalId, code, message.senderName);
+
+    if (result.status === 'invalid_code') {
       await message.reply('❌ Kode aktivasi tidak valid atau sudah kadaluarsa.');
       return;
     }
-
-    const codeData = activationCode[0];
-
-    // Check if this WhatsApp number is already connected
-    const existingConnection = await db.select()
-      .from(whatsappIntegrations)
-      .where(eq(whatsappIntegrations.whatsappNumber, whatsappNumber))
-      .limit(1);
-
-    if (existingConnection.length > 0) {
-      await message.reply('❌ Nomor WhatsApp ini sudah terhubung ke akun lain.');
+    if (result.status === 'already_linked') {
+      const account = sender.channel === 'whatsapp' ? 'Nomor WhatsApp ini' : `Akun ${CHANNEL_NAMES[sender.channel]} ini`;
+      await message.reply(`❌ ${account} sudah terhubung ke akun lain.`);
       return;
     }
 
-    // Create new WhatsApp integration
-    await db.insert(whatsappIntegrations).values({
-      userId: codeData.userId,
-      whatsappNumber,
-      displayName: message._data.notifyName || null,
-      status: 'active',
-      activatedAt: Date.now(),
-    });
-
-    // Mark activation code as used
-    await db.update(whatsappActivationCodes)
-      .set({ usedAt: Date.now() })
-      .where(eq(whatsappActivationCodes.id, codeData.id));
-
+    const channelName = CHANNEL_NAMES[sender.channel];
     await message.reply(
-      `✅ *Akun WhatsApp Berhasil Terhubung!*\n\n` +
-      `🎉 Selamat! WhatsApp Anda telah terhubung ke Monly AI.\n\n` +
+      `✅ *Akun ${channelName} Berhasil Terhubung!*\n\n` +
+      `🎉 Selamat! ${channelName} Anda telah terhubung ke Monly AI.\n\n` +
       `🤖 *Fitur yang Tersedia:*\n` +
       `• 📝 Catat transaksi via teks\n` +
       `• 🎤 Catat transaksi via suara\n` +
@@ -880,33 +745,12 @@ const handleActivationCode = async (message: any, code: string, whatsappNumber:
       `"Makan siang 50000"`
     );
     
-    console.log(`WhatsApp ${whatsappNumber} successfully activated for user ${codeData.userId}`);
-    
   } catch (error) {
     console.error('Error processing activation:', error);
     await message.reply('❌ Terjadi kesalahan saat memproses aktivasi. Silakan coba lagi.');
   }
 };
 
-// Helper function to get user ID from WhatsApp number
-const getUserIdFromWhatsApp = async (whatsappNumber: string): Promise<string | null> => {
-  try {
-    const { db } = await import('./db');
-    const { whatsappIntegrations } = await import('@shared/schema');
-    const { eq } = await import('drizzle-orm');
-    
-    const connection = await db.select()
-      .from(whatsappIntegrations)
-      .where(eq(whatsappIntegrations.whatsappNumber, whatsappNumber))
-      .limit(1);
-      
-    return connection.length > 0 ? connection[0].userId : null;
-  } catch (error) {
-    console.error('Error getting user ID from WhatsApp:', error);
-    return null;
-  }
-};
-
 // Helper function to get user preferences
 const getUserPreferences = async (userId: string) => {
   try {
@@ -920,7 +764,9 @@ const getUserPreferences = async (userId: string) => {
 // Helper function to get user categories
 const getUserCategories = async (userId: string) => {
   try {
-    return await storage.getCategories(userId);
+    // Transfer categories are internal bookkeeping, don't offer them to the AI
+    const categories = await storage.getCategories(userId);
+    return categories.filter(category => category.type !== 'transfer');
   } catch (error) {
     console.error('Error getting user categories:', error);
     return [];
@@ -945,35 +791,8 @@ const createTransactionFromAnalysis = async (
   categories: any[]
 ) => {
   try {
-    let matchingCategory = categories.find(c => 
-      c.name.toLowerCase() === analysis.category.toLowerCase()
-    );
-    
-    // Auto-categorization: create new category if none exists and auto-categorize is enabled
-    if (!matchingCategory && userPreferences?.autoCategorize && analysis.suggestedNewCategory) {
-      console.log('Creating new category:', analysis.suggestedNewCategory);
-      
-      try {
-        const newCategory = await storage.createCategory({
-          name: analysis.suggestedNewCategory.name,
-          icon: analysis.suggestedNewCategory.icon,
-          color: analysis.suggestedNewCategory.color,
-          type: analysis.suggestedNewCategory.type,
-          userId: userId,
-          isDefault: false
-        });
-        
-        matchingCategory = newCategory;
-        console.log('New category created:', newCategory);
-      } catch (categoryError) {
-        console.error('Failed to create new category:', categoryError);
-      }
-    }
-    
-    // Fallback to "Other" category if still no match
-    if (!matchingCategory) {
-      matchingCategory = categories.find(c => c.name.toLowerCase() === 'other');
-    }
+    // The named category, a new one when auto-categorize is on, or "Other"
+    const [matchingCategory] = await transactionBatchService.resolveCategories(userId, [analysis], categories, userPreferences);
     
     if (matchingCategory && analysis.amount > 0) {
       const { insertTransactionSchema } = await import('@shared/schema');
@@ -992,24 +811,10 @@ const createTransactionFromAnalysis = async (
       const transaction = await storage.createTransaction(validatedData);
       console.log('Transaction created from WhatsApp:', transaction);
       
-      // Check for budget alerts after creating expense transaction
-      let budgetAlert = null;
-      
-      if (analysis.type === 'expense') {
-        // Check if category has existing budget for alerts only
-        const existingBudget = await storage.getBudgetByCategory(userId, matchingCategory.id);
-        
-        if (existingBudget) {
-          // Check for budget alerts on existing budget
-          budgetAlert = await checkBudgetAlerts(userId, matchingCategory.id, userPreferences);
-        }
-      }
-      
       return {
         success: true,
         transaction,
-        analysis,
-        budgetAlert
+        analysis
       };
     }
     
@@ -1027,6 +832,9 @@ const createTransactionFromAnalysis = async (
   }
 };
 
+// Appended to every transaction confirmation so users know they can fix it from the chat
+const FOLLOW_UP_HINT = `_Salah? Balas "batal", "ubah jumlah 45rb" atau "ganti kategori transport"_`;
+
 // Helper function to format currency
 const formatCurrency = (amount: number, currency: string = 'USD') => {
   const symbols: Record<string, string> = {
@@ -1049,6 +857,200 @@ const formatCurrency = (amount: number, currency: string = 'USD') => {
   return `${symbol}${formatter.format(amount)}`;
 };
 
+// Helper function to act on a draft decision: save and confirm, ask the user, or explain
+const replyToDraftDecision = async (
+  message: any,
+  userId: string,
+  decision: DraftDecision,
+  userPreferences: any,
+  categories: any[]
+) => {
+  if (decision.action === 'save') {
+    if (decision.batch) {
+      await recordAnalyzedBatch(message, userId, decision.batch, userPreferences, categories, undefined, decision.overrideLimit);
+      return;
+    }
+
+    const violations = await checkSpendingLimits(message, userId, [decision.analysis], userPreferences, categories, decision.overrideLimit);
+    if (violations) {
+      await recordAnalyzedTransaction(message, userId, decision.analysis, userPreferences, categories, violations);
+    }
+    return;
+  }
+
+  if (decision.action === 'unknown') {
+    await message.reply(
+      `🤔 *Pesan Tidak Dipahami*\n\n` +
+      `Maaf, saya tidak dapat memahami pesan Anda sebagai transaksi keuangan.\n\n` +
+      `Contoh format yang bisa dipahami:\n` +
+      `• "Makan siang di McD 75000"\n` +
+      `• "Kemarin beli bensin 50000"\n` +
+      `• "Tanggal 15 Juli gaji bulan ini 5000000"\n` +
+      `• "2 hari lalu transfer dari ayah 200000"\n` +
+      `• "Minggu lalu beli groceries 150000"\n\n` +
+      `💡 *Tips tanggal:*\n` +
+      `• Gunakan kata seperti "kemarin", "2 hari lalu", "minggu lalu"\n` +
+      `• Atau sebutkan tanggal spesifik "15 Juli", "1 Agustus"\n\n` +
+      `Atau ketik *"bantuan"* untuk melihat daftar perintah.`
+    );
+    return;
+  }
+
+  await message.reply(
+    transactionDraftService.buildPrompt(decision, categories, 'id', amount => formatCurrency(amount, userPreferences?.defaultCurrency))
+  );
+};
+
+// Helper function to hold transactions that would pass a hard spending limit until the user replies
+// "tetap simpan". The limits are those of the categories the transactions will be saved in. Returns
+// the limits to record as breached once they are saved, or null when held.
+const checkSpendingLimits = async (
+  message: any,
+  userId: string,
+  analyses: TransactionAnalysis[],
+  userPreferences: any,
+  categories: any[],
+  overrideLimit = false
+): Promise<SpendingLimitViolation[] | null> => {
+  const resolved = await transactionBatchService.resolveCategories(userId, analyses, categories, userPreferences);
+  const violations = await spendingLimitService.checkAnalyses(userId, analyses, resolved);
+  if (violations.length === 0 || overrideLimit) {
+    return violations;
+  }
+
+  const formatAmount = (amount: number) => formatCurrency(amount, userPreferences?.defaultCurrency);
+  const held = transactionDraftService.holdForLimit(userId, analyses);
+  await message.reply(
+    spendingLimitService.buildViolationMessage(violations, 'id', formatAmount) + `\n\n` +
+    transactionDraftService.buildPrompt(held, categories, 'id', formatAmount)
+  );
+  return null;
+};
+
+// Helper function to save an analyzed transaction and confirm it
+const recordAnalyzedTransaction = async (
+  message: any,
+  userId: string,
+  analysis: TransactionAnalysis,
+  userPreferences: any,
+  categories: any[],
+  violations: SpendingLimitViolation[] = []
+) => {
+  const result = await createTransactionFromAnalysis(userId, analysis, userPreferences, categories);
+  
+  if (result.success) {
+    if (violations.length > 0) {
+      await spendingLimitService.recordBreaches(userId, violations, [result.transaction!], 'messaging');
+    }
+    const formattedAmount = formatCurrency(analysis.amount, userPreferences?.defaultCurrency);
+    
+    // Format date if transaction is not for today
+    let dateInfo = '';
+    if (analysis.date && analysis.date !== Math.floor(Date.now() / 1000)) {
+      const transactionDate = new Date(analysis.date * 1000);
+      const today = new Date();
+      
+      // Check if it's today
+      const isToday = transactionDate.toDateString() === today.toDateString();
+      
+      if (!isToday) {
+        const options: Intl.DateTimeFormatOptions = { 
+          year: 'numeric', 
+          month: 'long', 
+          day: 'numeric',
+          timeZone: getTimezone()
+        };
+        dateInfo = `📅 Tanggal: ${transactionDate.toLocaleDateString('id-ID', options)}\n`;
+      }
+    }
+    
+    let replyMessage = `✅ *Transaksi Berhasil Dicatat!*\n\n` +
+      `💰 Jumlah: ${formattedAmount}\n` +
+      `📝 Deskripsi: ${analysis.description}\n` +
+      `📂 Kategori: ${analysis.category}${analysis.categorySource === 'rule' ? ' _(aturan)_' : ''}\n` +
+      `📊 Jenis: ${analysis.type === 'expense' ? 'Pengeluaran' : 'Pemasukan'}\n` +
+      dateInfo +
+      `\n_Transaksi telah disimpan dalam akun Anda_\n` +
+      FOLLOW_UP_HINT;
+    
+    replyMessage += await getBudgetAlertText(userId);
+
+    const sent = await message.reply(replyMessage);
+    conversationStateService.rememberTransactions(userId, [result.transaction!.id], sent?.id);
+  } else {
+    await message.reply(
+      `❌ *Gagal Mencatat Transaksi*\n\n` +
+      `${result.message}\n\n` +
+      `Silakan coba lagi atau hubungi support.`
+    );
+  }
+};
+
+// Helper function to save the transactions of a multi-item message and confirm them in one reply
+const recordAnalyzedBatch = async (
+  message: any,
+  userId: string,
+  analyses: TransactionAnalysis[],
+  userPreferences: any,
+  categories: any[],
+  transcribedText?: string,
+  overrideLimit = false
+) => {
+  const violations = await checkSpendingLimits(message, userId, analyses, userPreferences, categories, overrideLimit);
+  if (!violations) return;
+
+  let saved: SavedBatchItem[];
+  try {
+    saved = await transactionBatchService.save(userId, analyses, categories, {
+      defaultCurrency: userPreferences?.defaultCurrency || 'USD',
+      language: userPreferences?.language || 'id',
+      autoCategorize: userPreferences?.autoCategorize || false
+    });
+  } catch (error) {
+    console.error('Error saving transaction batch:', error);
+    await message.reply(
+      `❌ *Gagal Mencatat Transaksi*\n\n` +
+      `Tidak ada transaksi yang disimpan - salah satu item tidak punya jumlah atau kategori yang sesuai.\n\n` +
+      `Kirim ulang dengan satu jumlah per item, misalnya "makan 25rb, parkir 5rb".`
+    );
+    return;
+  }
+  if (violations.length > 0) {
+    await spendingLimitService.recordBreaches(userId, violations, saved.map(item => item.transaction), 'messaging');
+  }
+
+  const currency = userPreferences?.defaultCurrency;
+  const dateOptions: Intl.DateTimeFormatOptions = { day: 'numeric', month: 'short', timeZone: getTimezone() };
+  const today = new Date().toDateString();
+
+  const lines = saved.map(({ transaction, category }, index) => {
+    const date = new Date(transaction.date * 1000);
+    const dateInfo = date.toDateString() !== today ? ` 📅 ${date.toLocaleDateString('id-ID', dateOptions)}` : '';
+    const sign = transaction.type === 'income' ? '+' : '';
+    return `${index + 1}. ${transaction.description} - ${sign}${formatCurrency(transaction.amount, currency)} (${category.name})${dateInfo}`;
+  });
+
+  const totalExpense = saved
+    .filter(item => item.transaction.type === 'expense')
+    .reduce((total, item) => total + item.transaction.amount, 0);
+  const totalIncome = saved
+    .filter(item => item.transaction.type === 'income')
+    .reduce((total, item) => total + item.transaction.amount, 0);
+
+  let replyMessage = (transcribedText ? `🎤 *Pesan Suara Berhasil Diproses!*\n\n📝 Saya dengar: "${transcribedText}"\n\n` : '') +
+    `✅ *${saved.length} Transaksi Berhasil Dicatat!*\n\n` +
+    lines.join('\n') + `\n\n` +
+    (totalExpense > 0 ? `💸 Total pengeluaran: ${formatCurrency(totalExpense, currency)}\n` : '') +
+    (totalIncome > 0 ? `💰 Total pemasukan: ${formatCurrency(totalIncome, currency)}\n` : '') +
+    `\n_Ada yang salah? Balas "batal 2" untuk menghapus item nomor 2, atau "batal" untuk menghapus semuanya_`;
+
+  // One alert per threshold crossed, however many items landed in its category
+  replyMessage += await getBudgetAlertText(userId);
+
+  const sent = await message.reply(replyMessage);
+  conversationStateService.rememberTransactions(userId, saved.map(item => item.transaction.id), sent?.id);
+};
+
 // Helper function to process text message
 export const processTextMessage = async (message: any, userId: string) => {
   try {
@@ -1064,74 +1066,18 @@ export const processTextMessage = async (message: any, userId: string) => {
     
     console.log(`Analyzing text message for user ${userId}: ${message.body}`);
     
-    // Analyze the message with AI
-    const analysis = await analyzeTransactionText(message.body, categories, aiPreferences);
-    console.log('WhatsApp text analysis result:', analysis);
+    // Analyze the message with AI - one analysis per transaction it lists
+    const analyses = await transactionBatchService.analyze(userId, message.body, categories, aiPreferences);
+    console.log('WhatsApp text analysis result:', analyses);
     
-    if (analysis.confidence > 0.7) {
-      const result = await createTransactionFromAnalysis(userId, analysis, userPreferences, categories);
-      
-      if (result.success) {
-        const formattedAmount = formatCurrency(analysis.amount, userPreferences?.defaultCurrency);
-        
-        // Format date if transaction is not for today
-        let dateInfo = '';
-        if (analysis.date && analysis.date !== Math.floor(Date.now() / 1000)) {
-          const transactionDate = new Date(analysis.date * 1000);
-          const today = new Date();
-          
-          // Check if it's today
-          const isToday = transactionDate.toDateString() === today.toDateString();
-          
-          if (!isToday) {
-            const options: Intl.DateTimeFormatOptions = { 
-              year: 'numeric', 
-              month: 'long', 
-              day: 'numeric',
-              timeZone: getTimezone()
-            };
-            dateInfo = `📅 Tanggal: ${transactionDate.toLocaleDateString('id-ID', options)}\n`;
-          }
-        }
-        
-        let replyMessage = `✅ *Transaksi Berhasil Dicatat!*\n\n` +
-          `💰 Jumlah: ${formattedAmount}\n` +
-          `📝 Deskripsi: ${analysis.description}\n` +
-          `📂 Kategori: ${analysis.category}\n` +
-          `📊 Jenis: ${analysis.type === 'expense' ? 'Pengeluaran' : 'Pemasukan'}\n` +
-          dateInfo +
-          `\n_Transaksi telah disimpan dalam akun Anda_`;
-        
-        // Add budget alert if exists
-        if (result.budgetAlert) {
-          replyMessage += `\n\n` + result.budgetAlert.message;
-        }
-
-        await message.reply(replyMessage);
-      } else {
-        await message.reply(
-          `❌ *Gagal Mencatat Transaksi*\n\n` +
-          `${result.message}\n\n` +
-          `Silakan coba lagi atau hubungi support.`
-        );
-      }
-    } else {
-      await message.reply(
-        `🤔 *Pesan Tidak Dipahami*\n\n` +
-        `Maaf, saya tidak dapat memahami pesan Anda sebagai transaksi keuangan.\n\n` +
-        `Contoh format yang bisa dipahami:\n` +
-        `• "Makan siang di McD 75000"\n` +
-        `• "Kemarin beli bensin 50000"\n` +
-        `• "Tanggal 15 Juli gaji bulan ini 5000000"\n` +
-        `• "2 hari lalu transfer dari ayah 200000"\n` +
-        `• "Minggu lalu beli groceries 150000"\n\n` +
-        `💡 *Tips tanggal:*\n` +
-        `• Gunakan kata seperti "kemarin", "2 hari lalu", "minggu lalu"\n` +
-        `• Atau sebutkan tanggal spesifik "15 Juli", "1 Agustus"\n\n` +
-        `Atau ketik *"bantuan"* untuk melihat daftar perintah.`
-      );
+    if (analyses.length > 1) {
+      await recordAnalyzedBatch(message, userId, analyses, userPreferences, categories);
+      return;
     }
     
+    const decision = transactionDraftService.evaluate(userId, analyses[0], categories);
+    await replyToDraftDecision(message, userId, decision, userPreferences, categories);
+    
   } catch (error) {
     console.error('Error processing text message:', error);
     await message.reply(
@@ -1163,23 +1109,18 @@ export const processVoiceMessage = async (message: any, userId: string) => {
     // Convert base64 to buffer
     const audioBuffer = Buffer.from(media.data, 'base64');
     
-    // Create a file-like object for OpenAI Whisper
+    // Create a file-like object for the transcription API
     const audioFile = new File([audioBuffer], 'audio.ogg', { 
       type: media.mimetype || 'audio/ogg' 
     });
 
-    console.log('Transcribing audio with OpenAI Whisper...');
+    console.log(`Transcribing audio with ${llm.name} (${llm.getModel('transcription')})...`);
     
-    // Use OpenAI Whisper for speech-to-text
-    const transcription = await openai.audio.transcriptions.create({
+    const transcribedText = await llm.transcribe({
       file: audioFile,
-      model: 'whisper-1',
       language: userPreferences?.language || 'id',
-      response_format: 'text',
       temperature: 0.2,
     });
-
-    const transcribedText = transcription.trim();
     console.log('Transcribed text:', transcribedText);
 
     if (!transcribedText || transcribedText.length === 0) {
@@ -1198,13 +1139,25 @@ export const processVoiceMessage = async (message: any, userId: string) => {
     };
     
     // Analyze the transcribed text
-    const analysis = await analyzeTransactionText(transcribedText, categories, aiPreferences);
-    console.log('Voice analysis result:', analysis);
+    const analyses = await transactionBatchService.analyze(userId, transcribedText, categories, aiPreferences);
+    console.log('Voice analysis result:', analyses);
+
+    if (analyses.length > 1) {
+      await recordAnalyzedBatch(message, userId, analyses, userPreferences, categories, transcribedText);
+      return;
+    }
+    const [analysis] = analyses;
 
     if (analysis.confidence > 0.6) {
+      const violations = await checkSpendingLimits(message, userId, [analysis], userPreferences, categories);
+      if (!violations) return;
+
       const result = await createTransactionFromAnalysis(userId, analysis, userPreferences, categories);
       
       if (result.success) {
+        if (violations.length > 0) {
+          await spendingLimitService.recordBreaches(userId, violations, [result.transaction!], 'messaging');
+        }
         const formattedAmount = formatCurrency(analysis.amount, userPreferences?.defaultCurrency);
         
         // Format date if transaction is not for today
@@ -1234,14 +1187,13 @@ export const processVoiceMessage = async (message: any, userId: string) => {
           `📝 Deskripsi: ${analysis.description}\n` +
           `📂 Kategori: ${analysis.category}\n` +
           `📊 Jenis: ${analysis.type === 'expense' ? 'Pengeluaran' : 'Pemasukan'}\n` +
-          dateInfo;
+          dateInfo +
+          `\n` + FOLLOW_UP_HINT;
         
-        // Add budget alert if exists
-        if (result.budgetAlert) {
-          replyMessage += `\n\n` + result.budgetAlert.message;
-        }
+        replyMessage += await getBudgetAlertText(userId);
 
-        await message.reply(replyMessage);
+        const sent = await message.reply(replyMessage);
+        conversationStateService.rememberTransactions(userId, [result.transaction!.id], sent?.id);
       } else {
         await message.reply(
           `🎤 *Pesan Suara Diproses, Tapi...*\n\n` +
@@ -1312,8 +1264,13 @@ export const processImageMessage = async (message: any, userId: string) => {
     console.log('Image analysis result:', result);
     
     if (result.confidence > 0.6 && result.transactions.length > 0) {
+      const violations = await checkSpendingLimits(message, userId, result.transactions, userPreferences, categories);
+      if (!violations) return;
+
       let successCount = 0;
       let responses: string[] = [];
+      const createdIds: number[] = [];
+      const created: Array<{ id: number; categoryId: number }> = [];
       
       for (const transaction of result.transactions) {
         const transactionResult = await createTransactionFromAnalysis(
@@ -1325,6 +1282,8 @@ export const processImageMessage = async (message: any, userId: string) => {
         
         if (transactionResult.success) {
           successCount++;
+          createdIds.push(transactionResult.transaction!.id);
+          created.push(transactionResult.transaction!);
           const formattedAmount = formatCurrency(transaction.amount, userPreferences?.defaultCurrency);
           
           // Format date if transaction is not for today
@@ -1355,12 +1314,19 @@ export const processImageMessage = async (message: any, userId: string) => {
       }
       
       if (successCount > 0) {
+        if (violations.length > 0) {
+          await spendingLimitService.recordBreaches(userId, violations, created, 'messaging');
+        }
+
         let replyMessage = `📸 *Struk Berhasil Diproses!*\n\n` +
           `📝 Teks yang ditemukan:\n"${result.text}"\n\n` +
           `✅ *${successCount} Transaksi Dicatat:*\n\n` +
-          responses.join('\n\n');
+          responses.join('\n\n') +
+          `\n\n_Balas "batal" untuk membatalkan semua transaksi dari struk ini_` +
+          await getBudgetAlertText(userId);
 
-        await message.reply(replyMessage);
+        const sent = await message.reply(replyMessage);
+        conversationStateService.rememberTransactions(userId, createdIds, sent?.id);
       } else {
         await message.reply(
           `📸 *Struk Diproses, Tapi...*\n\n` +
@@ -1402,7 +1368,8 @@ export const showHelpMessage = async (message: any) => {
     `• "Transfer dari ayah 200000"\n\n` +
     `• "Kemarin beli bensin 50000"\n` +
     `• "Tanggal 15 Juli gaji 5000000"\n` +
-    `• "2 hari lalu transfer dari ayah 200000"\n\n` +
+    `• "2 hari lalu transfer dari ayah 200000"\n` +
+    `• "Makan 25rb, parkir 5rb, kopi 30rb" - Beberapa transaksi sekaligus\n\n` +
     `2️⃣ *Pesan Suara:*\n` +
     `Tekan dan tahan tombol mikrofon, lalu ucapkan transaksi Anda\n\n` +
     `3️⃣ *Kirim Foto:*\n` +
@@ -1427,6 +1394,23 @@ export const showHelpMessage = async (message: any) => {
     `• "daftar kategori" - Lihat semua kategori\n` +
     `• "ubah kategori [nama lama] menjadi [nama baru]" - Ubah nama\n` +
     `• "hapus kategori [nama]" - Hapus kategori\n\n` +
+    `🔎 *Tanya Data Anda:*\n` +
+    `• "berapa total makan bulan ini?"\n` +
+    `• "pengeluaran terbesar minggu lalu apa?"\n` +
+    `• "bandingkan transport juni vs juli"\n` +
+    `• "rata-rata pengeluaran 7 hari terakhir"\n\n` +
+    `↩️ *Koreksi Transaksi:*\n` +
+    `• "batal" - Batalkan transaksi terakhir yang dicatat bot\n` +
+    `• "batal 2" - Batalkan item nomor 2 dari beberapa transaksi sekaligus\n` +
+    `• "ubah jumlah 45rb" - Ubah jumlahnya\n` +
+    `• "ganti kategori transport" - Pindahkan ke kategori lain\n` +
+    `• "ubah deskripsi makan malam" / "ubah tanggal kemarin"\n` +
+    `• Balas (quote) pesan konfirmasi bot untuk mengoreksi transaksi itu\n\n` +
+    `🔁 *Transaksi Rutin:*\n` +
+    `• "rutin netflix 54rb bulanan tanggal 5" - Tambah langganan\n` +
+    `• "rutin gaji 8jt tiap bulan tanggal 25" - Tambah pemasukan rutin\n` +
+    `• "rutin" - Lihat daftar transaksi rutin\n` +
+    `• "rutin hapus [nomor]" - Hentikan transaksi rutin\n\n` +
     `�📱 *Perintah Lain:*\n` +
     `• ketik "bantuan" - Lihat pesan ini\n` +
     `• ketik "saldo" - Cek ringkasan keuangan\n` +
@@ -1441,10 +1425,19 @@ export const showBalanceSummary = async (message: any, userId: string) => {
     // Get recent transactions and summary
     const transactions = await storage.getTransactions(userId);
     const userPreferences = await getUserPreferences(userId);
+    const accountBalances = await storage.getAccountBalances(userId);
+    
+    // Per-account balances (cash, bank, e-wallet, credit card)
+    const accountList = accountBalances
+      .filter(account => account.isActive !== false)
+      .map(account => `${account.icon || '💳'} ${account.name}: ${formatCurrency(account.balance, account.currency)}`)
+      .join('\n');
+    const totalBalance = accountBalances.reduce((sum, account) => sum + account.balance, 0);
     
     if (!transactions || transactions.length === 0) {
       await message.reply(
         `📊 *Ringkasan Keuangan*\n\n` +
+        (accountList ? `🏦 *Saldo per Akun:*\n${accountList}\n\n` : '') +
         `Belum ada transaksi yang tercatat.\n\n` +
         `Mulai catat transaksi Anda dengan mengirim pesan seperti:\n` +
         `"Makan siang 50000" atau foto struk belanja.`
@@ -1473,7 +1466,7 @@ export const showBalanceSummary = async (message: any, userId: string) => {
     // Format recent transactions
     const recentList = transactions.slice(0, 3).map(t => {
       const amount = formatCurrency(t.amount, currency);
-      const type = t.type === 'expense' ? '📤' : '📥';
+      const type = t.type === 'transfer' ? '🔁' : t.type === 'expense' ? '📤' : '📥';
       return `${type} ${amount} - ${t.description}`;
     }).join('\n');
     
@@ -1482,6 +1475,8 @@ export const showBalanceSummary = async (message: any, userId: string) => {
       `📥 *Pemasukan:* ${formatCurrency(monthlyIncome, currency)}\n` +
       `📤 *Pengeluaran:* ${formatCurrency(monthlyExpense, currency)}\n` +
       `💰 *Saldo:* ${formatCurrency(balance, currency)}\n\n` +
+      (accountList ? `🏦 *Saldo per Akun:*\n${accountList}\n` +
+        `💼 *Total Saldo:* ${formatCurrency(totalBalance, currency)}\n\n` : '') +
       `📋 *Transaksi Terbaru:*\n${recentList}\n\n` +
       `_Akses dashboard lengkap di aplikasi Monly AI_`
     );
@@ -1668,6 +1663,408 @@ const processSavingsCommand = async (message: any, userId: string) => {
   }
 };
 
+/**
+ * The transactions a follow-up refers to: the ones confirmed by the bot message the user quoted,
+ * otherwise the ones the bot recorded last. Null when a quoted message is not a known confirmation.
+ */
+const resolveFollowUpTargets = async (message: any, userId: string): Promise<number[] | null> => {
+  if (message.hasQuotedMsg) {
+    const quoted = await message.getQuotedMsg();
+    return conversationStateService.getTransactionIdsForMessage(userId, quoted?.id || '');
+  }
+  return conversationStateService.getLastTransactionIds(userId);
+};
+
+// Helper function to undo the transactions the bot recorded last ("batal" / "undo"), or one item of
+// a multi-transaction confirmation ("batal 2")
+export const processUndoCommand = async (message: any, userId: string) => {
+  try {
+    const userPreferences = await getUserPreferences(userId);
+    const targetIds = await resolveFollowUpTargets(message, userId);
+    const itemMatch = message.body.trim().match(/(\d{1,2})$/);
+
+    if (!targetIds || targetIds.length === 0) {
+      await message.reply(
+        `🤔 *Tidak Ada yang Dibatalkan*\n\n` +
+        (targetIds ? `Belum ada transaksi yang baru dicatat lewat chat.` : `Pesan yang Anda balas bukan konfirmasi transaksi yang saya ingat.`) +
+        `\n\nHapus transaksi lama lewat aplikasi Monly AI.`
+      );
+      return;
+    }
+
+    let undoIds = targetIds;
+    if (itemMatch) {
+      const item = parseInt(itemMatch[1], 10);
+      if (item < 1 || item > targetIds.length) {
+        await message.reply(
+          `🤔 Tidak ada item nomor ${item}. ` +
+          (targetIds.length > 1 ? `Pilih nomor 1 sampai ${targetIds.length}.` : `Balas "batal" untuk menghapus transaksi terakhir.`)
+        );
+        return;
+      }
+      undoIds = [targetIds[item - 1]];
+    }
+
+    const removed: string[] = [];
+    for (const id of undoIds) {
+      const transaction = await storage.getTransactionById(id, userId);
+      if (!transaction) continue;
+
+      await storage.deleteTransaction(id, userId);
+      removed.push(`• ${transaction.description} - ${formatCurrency(transaction.amount, userPreferences?.defaultCurrency)}`);
+    }
+    // A single item stays in the list so the numbers of the other items in the summary still match
+    if (!itemMatch) {
+      conversationStateService.forgetTransactions(userId, targetIds);
+    }
+
+    if (removed.length === 0) {
+      await message.reply(`🤔 Transaksi tersebut sudah tidak ada. Mungkin sudah dihapus lewat aplikasi.`);
+      return;
+    }
+
+    console.log(`↩️ Undid ${removed.length} WhatsApp transaction(s) for user ${userId}`);
+    await message.reply(
+      `↩️ *Transaksi Dibatalkan*\n\n` +
+      removed.join('\n') +
+      `\n\n_Transaksi telah dihapus dari akun Anda_`
+    );
+  } catch (error) {
+    console.error('Error undoing transaction:', error);
+    await message.reply(
+      `❌ *Terjadi Kesalahan*\n\n` +
+      `Maaf, transaksi tidak dapat dibatalkan. Silakan coba lagi nanti.`
+    );
+  }
+};
+
+// Helper function to answer a question about the user's transactions ("berapa total makan bulan ini?")
+export const processQueryCommand = async (message: any, userId: string) => {
+  try {
+    const userPreferences = await getUserPreferences(userId);
+    const categories = await getUserCategories(userId);
+    const language = userPreferences?.language || 'id';
+
+    const query = transactionQueryService.parse(message.body, categories, language);
+    console.log(`🔎 Query for user ${userId}:`, JSON.stringify(query));
+
+    const results = await transactionQueryService.run(userId, query);
+    await message.reply(
+      transactionQueryService.formatAnswer(query, results, language, amount => formatCurrency(amount, userPreferences?.defaultCurrency))
+    );
+  } catch (error) {
+    console.error('Error answering transaction query:', error);
+    await message.reply(
+      `❌ *Terjadi Kesalahan*\n\n` +
+      `Maaf, pertanyaan Anda tidak dapat dijawab saat ini. Silakan coba lagi nanti.`
+    );
+  }
+};
+
+// "ubah jumlah 45rb", "ganti kategori transport", "ubah deskripsi ...", "ubah tanggal kemarin"
+const EDIT_COMMAND = /^(?:ubah|ganti|edit|change)\s+(jumlah|nominal|amount|kategori|category|deskripsi|keterangan|description|tanggal|date)\s+(?:(?:jadi|menjadi|ke|to)\s+)?(.+)$/i;
+
+// Helper function to patch the transaction the bot recorded last
+export const processEditCommand = async (message: any, userId: string) => {
+  try {
+    const userPreferences = await getUserPreferences(userId);
+    const match = message.body.trim().match(EDIT_COMMAND);
+    if (!match) {
+      await message.reply(
+        `🤔 *Perintah Tidak Lengkap*\n\n` +
+        `Contoh: "ubah jumlah 45rb", "ganti kategori transport", "ubah deskripsi makan malam" atau "ubah tanggal kemarin".`
+      );
+      return;
+    }
+
+    const targetIds = await resolveFollowUpTargets(message, userId);
+    if (!targetIds || targetIds.length === 0) {
+      await message.reply(
+        `🤔 *Transaksi Tidak Ditemukan*\n\n` +
+        (targetIds ? `Belum ada transaksi yang baru dicatat lewat chat.` : `Pesan yang Anda balas bukan konfirmasi transaksi yang saya ingat.`) +
+        `\n\nUbah transaksi lama lewat aplikasi Monly AI.`
+      );
+      return;
+    }
+    if (targetIds.length > 1) {
+      await message.reply(
+        `🤔 Pesan itu mencatat ${targetIds.length} transaksi sekaligus. Ubah satu per satu lewat aplikasi Monly AI, atau balas "batal 2" untuk menghapus item nomor 2 lalu kirim ulang item itu.`
+      );
+      return;
+    }
+
+    const transaction = await storage.getTransactionById(targetIds[0], userId);
+    if (!transaction) {
+      conversationStateService.forgetTransactions(userId, targetIds);
+      await message.reply(`🤔 Transaksi tersebut sudah tidak ada. Mungkin sudah dihapus lewat aplikasi.`);
+      return;
+    }
+
+    const field = match[1].toLowerCase();
+    const value = match[2].trim();
+    const currency = userPreferences?.defaultCurrency;
+    let change: string;
+
+    if (field === 'jumlah' || field === 'nominal' || field === 'amount') {
+      const amount = extractAmount(value);
+      if (amount == null) {
+        await message.reply(`🤔 Jumlah "${value}" tidak dapat dipahami. Contoh: "ubah jumlah 45rb".`);
+        return;
+      }
+      if (transaction.splits?.length) {
+        await message.reply(`🤔 Transaksi ini dibagi ke beberapa kategori. Ubah jumlahnya lewat aplikasi Monly AI agar pembagiannya tetap sesuai.`);
+        return;
+      }
+
+      await storage.updateTransaction(transaction.id, userId, { amount });
+      change = `💰 Jumlah: ${formatCurrency(transaction.amount, currency)} → ${formatCurrency(amount, currency)}`;
+    } else if (field === 'kategori' || field === 'category') {
+      if (transaction.splits?.length) {
+        await message.reply(`🤔 Transaksi ini dibagi ke beberapa kategori. Ubah pembagiannya lewat aplikasi Monly AI.`);
+        return;
+      }
+
+      const categories = await getUserCategories(userId);
+      const wanted = value.toLowerCase();
+      const candidates = categories.filter(category => category.name.toLowerCase() === wanted);
+      const matches = candidates.length > 0
+        ? candidates
+        : categories.filter(category =>
+            category.name.toLowerCase().includes(wanted) || wanted.includes(category.name.toLowerCase())
+          );
+      // Prefer a category of the same type when the name fits both
+      const category = matches.find(candidate => candidate.type === transaction.type) || matches[0];
+
+      if (!category) {
+        await message.reply(
+          `🤔 Kategori "${value}" tidak ditemukan.\n\n` +
+          `Kirim "daftar kategori" untuk melihat kategori Anda.`
+        );
+        return;
+      }
+
+      const updated = await storage.updateTransaction(transaction.id, userId, {
+        categoryId: category.id,
+        type: category.type,
+      });
+      // Same as a correction in the app - the next similar message gets this category
+      await categorizationRuleService.learnFromCorrection(userId, updated, category.id);
+      change = `📂 Kategori: ${transaction.category?.name || '-'} → ${category.name}`;
+    } else if (field === 'tanggal' || field === 'date') {
+      const language = userPreferences?.language || 'id';
+      const date = parseRelativeDate(value, language) || parseSpecificDate(value, language);
+      if (!date) {
+        await message.reply(`🤔 Tanggal "${value}" tidak dapat dipahami. Contoh: "ubah tanggal kemarin" atau "ubah tanggal 15 juli".`);
+        return;
+      }
+
+      await storage.updateTransaction(transaction.id, userId, { date });
+      const options: Intl.DateTimeFormatOptions = { year: 'numeric', month: 'long', day: 'numeric', timeZone: getTimezone() };
+      change = `📅 Tanggal: ${new Date(date * 1000).toLocaleDateString('id-ID', options)}`;
+    } else {
+      const description = value.charAt(0).toUpperCase() + value.slice(1);
+      await storage.updateTransaction(transaction.id, userId, { description });
+      change = `📝 Deskripsi: ${transaction.description} → ${description}`;
+    }
+
+    console.log(`✏️ Edited WhatsApp transaction ${transaction.id} (${field}) for user ${userId}`);
+    await message.reply(
+      `✏️ *Transaksi Diperbarui*\n\n` +
+      `${change}\n\n` +
+      `_Balas "batal" untuk menghapus transaksi ini_`
+    );
+  } catch (error) {
+    console.error('Error editing transaction:', error);
+    await message.reply(
+      `❌ *Terjadi Kesalahan*\n\n` +
+      `Maaf, transaksi tidak dapat diubah. Silakan coba lagi nanti.`
+    );
+  }
+};
+
+const recurringFrequencyLabels: Record<string, string> = {
+  daily: 'Harian',
+  weekly: 'Mingguan',
+  monthly: 'Bulanan',
+  yearly: 'Tahunan'
+};
+
+type RecurringFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+// Extract the schedule from a recurring command and return the remaining transaction text
+const parseRecurringSchedule = (text: string) => {
+  let frequency: RecurringFrequency = 'monthly';
+  let dayOfMonth: number | null = null;
+  let cleaned = text.replace(/^(rutin|langganan|recurring)\b\s*(tambah|add)?\s*/i, '');
+
+  const patterns: Array<{ regex: RegExp; frequency: RecurringFrequency }> = [
+    { regex: /\b(harian|setiap hari|tiap hari|per hari|daily)\b/i, frequency: 'daily' },
+    { regex: /\b(mingguan|setiap minggu|tiap minggu|per minggu|weekly)\b/i, frequency: 'weekly' },
+    { regex: /\b(tahunan|setiap tahun|tiap tahun|per tahun|yearly)\b/i, frequency: 'yearly' },
+    { regex: /\b(bulanan|setiap bulan|tiap bulan|per bulan|monthly)\b/i, frequency: 'monthly' },
+  ];
+
+  for (const pattern of patterns) {
+    if (pattern.regex.test(cleaned)) {
+      frequency = pattern.frequency;
+      cleaned = cleaned.replace(pattern.regex, ' ');
+      break;
+    }
+  }
+
+  const dayMatch = cleaned.match(/\b(?:tanggal|tgl)\s+(\d{1,2})\b/i);
+  if (dayMatch) {
+    const day = parseInt(dayMatch[1]);
+    if (day >= 1 && day <= 31) {
+      dayOfMonth = day;
+      if (frequency !== 'yearly') frequency = 'monthly';
+    }
+    cleaned = cleaned.replace(dayMatch[0], ' ');
+  }
+
+  return { frequency, dayOfMonth, text: cleaned.replace(/\s+/g, ' ').trim() };
+};
+
+// Helper function to process recurring transaction commands
+export const processRecurringCommand = async (message: any, userId: string) => {
+  try {
+    const userPreferences = await getUserPreferences(userId);
+    const currency = userPreferences?.defaultCurrency || 'USD';
+    const messageText = message.body.toLowerCase().trim();
+    const recurringList = await storage.getRecurringTransactions(userId);
+    const activeRecurring = recurringList.filter(recurring => recurring.isActive);
+
+    const formatRunDate = (timestamp: number) =>
+      new Date(timestamp * 1000).toLocaleDateString('id-ID', {
+        year: 'numeric',
+        month: 'long',
+        day: 'numeric',
+        timeZone: getTimezone()
+      });
+
+    // List: "rutin", "daftar rutin", "rutin daftar"
+    if (/^(rutin|langganan|recurring)$/.test(messageText) ||
+        messageText === 'daftar rutin' ||
+        /^(rutin|langganan|recurring)\s+(daftar|list)$/.test(messageText)) {
+      if (activeRecurring.length === 0) {
+        await message.reply(
+          `🔁 *Transaksi Rutin*\n\n` +
+          `Belum ada transaksi rutin yang aktif.\n\n` +
+          `Contoh: "rutin netflix 54rb bulanan tanggal 5"`
+        );
+        return;
+      }
+
+      let reply = `🔁 *Transaksi Rutin Aktif*\n\n`;
+      activeRecurring.forEach((recurring, index) => {
+        const sign = recurring.type === 'income' ? '+' : '-';
+        const day = recurring.dayOfMonth && recurring.frequency !== 'daily' && recurring.frequency !== 'weekly'
+          ? ` tgl ${recurring.dayOfMonth}`
+          : '';
+        reply += `${index + 1}. ${recurring.category?.icon || '🔁'} *${recurring.description}*\n` +
+          `   ${sign}${formatCurrency(recurring.amount, recurring.currency || currency)} • ${recurringFrequencyLabels[recurring.frequency] || recurring.frequency}${day}\n` +
+          `   📅 Berikutnya: ${formatRunDate(recurring.nextRunDate)}\n\n`;
+      });
+      reply += `Ketik "rutin hapus [nomor]" untuk menghentikan.`;
+
+      await message.reply(reply);
+      return;
+    }
+
+    // Remove: "rutin hapus 2", "rutin stop 2"
+    const removeMatch = messageText.match(/^(?:rutin|langganan|recurring)\s+(?:hapus|stop|berhenti|delete)\s+(\d+)$/);
+    if (removeMatch) {
+      const target = activeRecurring[parseInt(removeMatch[1]) - 1];
+      if (!target) {
+        await message.reply(`❌ Nomor transaksi rutin tidak ditemukan. Ketik "rutin" untuk melihat daftar.`);
+        return;
+      }
+
+      await storage.deleteRecurringTransaction(target.id, userId);
+      await message.reply(
+        `🛑 *Transaksi Rutin Dihentikan*\n\n` +
+        `📝 ${target.description}\n\n` +
+        `_Transaksi yang sudah tercatat tetap tersimpan_`
+      );
+      return;
+    }
+
+    // Add: "rutin netflix 54rb bulanan tanggal 5", "langganan gaji 5jt tiap bulan tanggal 25"
+    const schedule = parseRecurringSchedule(message.body.trim());
+    const categories = await getUserCategories(userId);
+    const aiPreferences = {
+      defaultCurrency: currency,
+      language: userPreferences?.language || 'id',
+      autoCategorize: userPreferences?.autoCategorize || false
+    };
+
+    const analysis = await categorizationRuleService.analyzeTransactionText(userId, schedule.text, categories, aiPreferences);
+    console.log('Recurring command analysis result:', analysis);
+
+    if (analysis.confidence <= 0.7 || !(analysis.amount > 0)) {
+      await message.reply(
+        `🤔 *Perintah Transaksi Rutin Tidak Dipahami*\n\n` +
+        `Contoh perintah yang bisa dipahami:\n` +
+        `• "rutin netflix 54rb bulanan tanggal 5"\n` +
+        `• "rutin gaji 8jt tiap bulan tanggal 25"\n` +
+        `• "rutin kos 1,5jt bulanan"\n` +
+        `• "rutin parkir 5rb harian"\n` +
+        `• "rutin" - Lihat daftar transaksi rutin\n` +
+        `• "rutin hapus 2" - Hentikan transaksi rutin nomor 2\n\n` +
+        `Atau ketik *"bantuan"* untuk panduan lengkap.`
+      );
+      return;
+    }
+
+    const matchingCategory =
+      categories.find(c => c.name.toLowerCase() === analysis.category.toLowerCase()) ||
+      categories.find(c => c.name.toLowerCase() === 'other');
+
+    if (!matchingCategory) {
+      await message.reply(`❌ Tidak dapat menemukan kategori yang sesuai untuk transaksi rutin ini.`);
+      return;
+    }
+
+    const { insertRecurringTransactionSchema } = await import('@shared/schema');
+    const { recurringTransactionService } = await import('./recurring-transaction-service');
+
+    const recurringData = insertRecurringTransactionSchema.parse({
+      userId,
+      categoryId: matchingCategory.id,
+      amount: parseFloat(analysis.amount.toString()),
+      currency,
+      description: analysis.description,
+      type: analysis.type,
+      frequency: schedule.frequency,
+      dayOfMonth: schedule.dayOfMonth,
+      startDate: Math.floor(Date.now() / 1000),
+    });
+
+    const recurring = await storage.createRecurringTransaction(recurringData);
+    const created = await recurringTransactionService.processRecurringTransaction(recurring);
+    const updated = await storage.getRecurringTransactionById(recurring.id, userId);
+
+    await message.reply(
+      `✅ *Transaksi Rutin Ditambahkan!*\n\n` +
+      `💰 Jumlah: ${formatCurrency(recurring.amount, currency)}\n` +
+      `📝 Deskripsi: ${recurring.description}\n` +
+      `📂 Kategori: ${matchingCategory.name}\n` +
+      `📊 Jenis: ${recurring.type === 'expense' ? 'Pengeluaran' : 'Pemasukan'}\n` +
+      `🔁 Frekuensi: ${recurringFrequencyLabels[recurring.frequency]}${recurring.dayOfMonth && recurring.frequency !== 'daily' && recurring.frequency !== 'weekly' ? ` (tanggal ${recurring.dayOfMonth})` : ''}\n` +
+      (created.length > 0 ? `📝 Tercatat hari ini: ${created.length} transaksi\n` : '') +
+      (updated?.isActive ? `📅 Berikutnya: ${formatRunDate(updated.nextRunDate)}\n` : '') +
+      `\n_Transaksi akan dicatat otomatis sesuai jadwal_`
+    );
+
+  } catch (error) {
+    console.error('Error processing recurring command:', error);
+    await message.reply(
+      `❌ *Terjadi Kesalahan*\n\n` +
+      `Maaf, terjadi kesalahan dalam memproses perintah transaksi rutin Anda. Silakan coba lagi nanti.`
+    );
+  }
+};
+
 // Helper function to handle budget actions
 const handleBudgetAction = async (
   userId: string,
@@ -1743,7 +2140,15 @@ const handleBudgetAction = async (
           };
         }
         
-        await storage.deleteBudget(categoryToDelete.id);
+        const budgetToDelete = await storage.getBudgetByCategory(userId, categoryToDelete.id);
+        if (!budgetToDelete) {
+          return {
+            success: false,
+            message: `Tidak ada budget untuk kategori "${categoryToDelete.name}"`
+          };
+        }
+        
+        await storage.deleteBudget(budgetToDelete.id, userId);
         
         return {
           success: true,
@@ -1867,7 +2272,7 @@ const handleCategoryAction = async (
         }
         
         // Update category
-        await storage.updateCategory(categoryToUpdate.id, {
+        await storage.updateCategory(categoryToUpdate.id, userId, {
           name: analysis.newCategoryName
         });
         
@@ -2014,7 +2419,7 @@ const handleSavingsAction = async (
           `Nabung ke ${targetGoal.name}`
         );
         
-        const updatedGoal = await storage.getGoalById(targetGoal.id);
+        const updatedGoal = await storage.getGoalById(targetGoal.id, userId);
         if (!updatedGoal) {
           return {
             success: false,
@@ -2033,7 +2438,7 @@ const handleSavingsAction = async (
         let statusMessage = '';
         if (progress >= 100) {
           // Auto-archive completed goal to preserve history
-          await storage.updateGoal(updatedGoal.id, { 
+          await storage.updateGoal(updatedGoal.id, userId, { 
             isActive: false,
             description: updatedGoal.description + ' [COMPLETED]'
           });
@@ -2224,8 +2629,8 @@ const handleSavingsAction = async (
         const newTargetAmount = Math.min(destinationGoal.currentAmount + analysis.amount, destinationGoal.targetAmount);
         const actualTransfer = newTargetAmount - destinationGoal.currentAmount;
         
-        await storage.updateGoal(sourceGoal.id, { currentAmount: newSourceAmount });
-        await storage.updateGoal(destinationGoal.id, { currentAmount: newTargetAmount });
+        await storage.updateGoal(sourceGoal.id, userId, { currentAmount: newSourceAmount });
+        await storage.updateGoal(destinationGoal.id, userId, { currentAmount: newTargetAmount });
         
         // Record transfer transactions
         const transferAmount = formatCurrency(actualTransfer, userPreferences?.defaultCurrency);
@@ -2302,7 +2707,7 @@ const handleSavingsAction = async (
         
         // Update goal amount (subtract the returned amount)
         const newGoalAmount = goalToReturn.currentAmount - returnAmount;
-        await storage.updateGoal(goalToReturn.id, {
+        await storage.updateGoal(goalToReturn.id, userId, {
           currentAmount: newGoalAmount
         });
         
@@ -2484,7 +2889,7 @@ const handleGoalDeletion = async (
         await createRefundTransaction(userId, goalToDelete, userPreferences);
         
         // Now safe to delete the goal
-        await storage.deleteGoal(goalToDelete.id);
+        await storage.deleteGoal(goalToDelete.id, userId);
         
         return {
           success: true,
@@ -2496,7 +2901,7 @@ const handleGoalDeletion = async (
       }
     } else {
       // No money saved, safe to delete
-      await storage.deleteGoal(goalToDelete.id);
+      await storage.deleteGoal(goalToDelete.id, userId);
       
       return {
         success: true,
@@ -2830,41 +3235,16 @@ const getBudgetList = async (userId: string, userPreferences: any) => {
   }
 };
 
-// Helper function to check budget alerts after transaction
-const checkBudgetAlerts = async (userId: string, categoryId: number, userPreferences: any) => {
+/**
+ * Budget thresholds the transactions just recorded crossed, to append to the reply. Claiming them
+ * here keeps the background evaluation from pushing the same alert as a separate message.
+ */
+const getBudgetAlertText = async (userId: string): Promise<string> => {
   try {
-    const { storage } = await import('./storage');
-    const { generateBudgetAlert } = await import('./openai');
-    
-    // Get active budget for this category
-    const budget = await storage.getBudgetByCategory(userId, categoryId);
-    if (!budget) return null;
-    
-    // Get category info
-    const category = await storage.getCategoryById(categoryId, userId);
-    if (!category) return null;
-    
-    // Calculate spent amount for current period
-    const spent = await storage.getSpentInPeriod(userId, categoryId, budget.startDate, budget.endDate);
-    
-    // Generate alert
-    const alert = await generateBudgetAlert(
-      category.name,
-      spent,
-      budget.amount,
-      userPreferences?.defaultCurrency || 'USD',
-      userPreferences?.language || 'id'
-    );
-    
-    // Only return alert if it's warning level or above
-    if (alert.percentage >= 60) {
-      return alert;
-    }
-    
-    return null;
-    
+    const notices = await budgetAlertService.evaluate(userId, true);
+    return notices.map(notice => `\n\n` + notice.message).join('');
   } catch (error) {
     console.error('Error checking budget alerts:', error);
-    return null;
+    return '';
   }
 };
@@ -0,0 +1,248 @@
+import pkg from 'whatsapp-web.js';
+const { Client, LocalAuth, MessageMedia } = pkg;
+import qrcode from 'qrcode';
+import fs from 'fs';
+import path from 'path';
+import type {
+  ConnectionStatus,
+  IncomingMessage,
+  IncomingMessageType,
+  MediaAttachment,
+  MessageHandler,
+  MessagingConnectionState,
+  MessagingEvent,
+  MessagingEventListener,
+  MessagingProvider,
+  SentMessage,
+} from './messaging-provider';
+
+type WAClient = InstanceType<typeof Client>;
+type WAMessage = any; // WhatsApp message type
+
+const SUPPORTED_TYPES: IncomingMessageType[] = ['chat', 'ptt', 'audio', 'image'];
+
+// Where LocalAuth keeps each session's login (the whatsapp-web.js default)
+const LOCAL_AUTH_DATA_PATH = '.wwebjs_auth';
+
+const PUPPETEER_ARGS = [
+  '--no-sandbox',
+  '--disable-setuid-sandbox',
+  '--disable-dev-shm-usage',
+  '--disable-accelerated-2d-canvas',
+  '--no-first-run',
+  '--no-zygote',
+  '--single-process',
+  '--disable-gpu',
+  '--disable-background-timer-throttling',
+  '--disable-backgrounding-occluded-windows',
+  '--disable-renderer-backgrounding',
+  '--disable-features=TranslateUI',
+  '--disable-ipc-flooding-protection',
+  '--disable-extensions',
+  '--disable-default-apps',
+  '--disable-sync',
+  '--disable-translate',
+  '--hide-scrollbars',
+  '--metrics-recording-only',
+  '--mute-audio',
+  '--no-default-browser-check',
+  '--safebrowsing-disable-auto-update',
+  '--disable-web-security',
+  '--disable-features=VizDisplayCompositor'
+];
+
+// "6281234567890" or "6281234567890@c.us" -> chat id
+const toChatId = (to: string) => to.includes('@') ? to : `${to}@c.us`;
+
+/**
+ * WhatsApp Web through a headless browser. The login is kept by LocalAuth under the session id,
+ * so a restarted server reconnects without a new QR scan.
+ */
+export class WhatsAppWebProvider implements MessagingProvider {
+  readonly name = 'whatsapp-web';
+  private client: WAClient;
+  private status: ConnectionStatus = 'initializing';
+  private qrCode: string | null = null;
+  private messageHandlers: MessageHandler[] = [];
+  private eventListeners: MessagingEventListener[] = [];
+
+  constructor(readonly sessionId: string) {
+    this.client = new Client({
+      authStrategy: new LocalAuth({ clientId: sessionId, dataPath: LOCAL_AUTH_DATA_PATH }),
+      puppeteer: {
+        headless: true,
+        args: PUPPETEER_ARGS,
+        executablePath: process.env.NODE_ENV === 'production' ?
+          (process.env.CHROME_PATH || '/usr/bin/google-chrome-stable') : undefined,
+        timeout: 30000
+      },
+      webVersionCache: {
+        type: 'remote',
+        remotePath: 'https://raw.githubusercontent.com/wppconnect-team/wa-version/main/html/2.2412.54.html'
+      }
+    });
+
+    this.client.on('qr', async (qr) => {
+      try {
+        // Generate QR code as data URL
+        this.qrCode = await qrcode.toDataURL(qr);
+      } catch (err) {
+        console.error('Error generating QR code:', err);
+        this.qrCode = qr; // Fallback to raw QR string
+      }
+      this.status = 'qr_received';
+      this.emit({ type: 'qr', qrCode: this.qrCode });
+    });
+
+    this.client.on('ready', () => {
+      this.status = 'ready';
+      this.qrCode = null;
+      this.emit({ type: 'ready' });
+
+      this.client.getChats().then(chats => {
+        console.log(`📱 WhatsApp session ${sessionId} has access to ${chats.length} chats`);
+      }).catch(console.error);
+    });
+
+    this.client.on('authenticated', () => {
+      this.status = 'authenticated';
+      this.emit({ type: 'authenticated' });
+    });
+
+    this.client.on('auth_failure', (msg) => {
+      this.status = 'disconnected';
+      this.emit({ type: 'auth_failure', reason: String(msg) });
+    });
+
+    this.client.on('disconnected', (reason) => {
+      this.status = 'disconnected';
+      this.emit({ type: 'disconnected', reason: String(reason) });
+    });
+
+    this.client.on('message_create', (message) => {
+      // Log outgoing messages for debugging
+      if (message.fromMe) {
+        console.log(`📤 Sent message to ${message.to}: ${message.body}`);
+      }
+    });
+
+    this.client.on('message', async (message: WAMessage) => {
+      const incoming = this.toIncomingMessage(message);
+      if (!incoming) return;
+
+      for (const handler of this.messageHandlers) {
+        await handler(incoming);
+      }
+    });
+  }
+
+  getState(): MessagingConnectionState {
+    return { status: this.status, qrCode: this.qrCode };
+  }
+
+  /**
+   * Start the browser session. Network failures are retried up to three times; a session that
+   * still can't start ends up 'disconnected'.
+   */
+  async initialize(attempt = 1): Promise<void> {
+    try {
+      await this.client.initialize();
+      console.log(`✅ WhatsApp session ${this.sessionId} initialized successfully`);
+    } catch (error) {
+      console.error(`❌ Failed to initialize WhatsApp session ${this.sessionId} (attempt ${attempt}):`, error);
+      this.status = 'disconnected';
+
+      // Handle specific errors
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      if (errorMessage.includes('ERR_INSUFFICIENT_RESOURCES') ||
+          errorMessage.includes('net::ERR_') ||
+          errorMessage.includes('Target closed')) {
+
+        if (attempt < 3) { // Retry up to 3 times for network errors
+          console.log(`🔄 Retrying WhatsApp session ${this.sessionId} in ${attempt * 10} seconds...`);
+          setTimeout(() => {
+            this.initialize(attempt + 1);
+          }, attempt * 10000); // Exponential backoff: 10s, 20s, 30s
+          return;
+        }
+      }
+
+      console.error(`❌ Failed to initialize WhatsApp session ${this.sessionId}: Connection failed`);
+    }
+  }
+
+  async destroy(): Promise<void> {
+    this.status = 'disconnected';
+    this.qrCode = null;
+    await this.client.destroy();
+  }
+
+  async isHealthy(): Promise<boolean> {
+    const state = await this.client.getState();
+    if (state !== 'CONNECTED') {
+      console.log(`⚠️ WhatsApp session ${this.sessionId} unhealthy, state: ${state}`);
+      return false;
+    }
+    return true;
+  }
+
+  async sendText(to: string, text: string): Promise<SentMessage> {
+    const sent = await this.client.sendMessage(toChatId(to), text);
+    return { id: sent.id._serialized };
+  }
+
+  async sendMedia(to: string, media: MediaAttachment, caption?: string): Promise<SentMessage> {
+    const attachment = new MessageMedia(media.mimetype, media.data, media.filename ?? undefined);
+    const sent = await this.client.sendMessage(toChatId(to), attachment, { caption });
+    return { id: sent.id._serialized };
+  }
+
+  onMessage(handler: MessageHandler): void {
+    this.messageHandlers.push(handler);
+  }
+
+  onEvent(listener: MessagingEventListener): void {
+    this.eventListeners.push(listener);
+  }
+
+  private emit(event: MessagingEvent) {
+    for (const listener of this.eventListeners) {
+      listener(event);
+    }
+  }
+
+  private toIncomingMessage(message: WAMessage): IncomingMessage | null {
+    // Skip messages from groups or status updates
+    if (message.from.includes('@g.us') || message.from.includes('status@broadcast')) {
+      return null;
+    }
+
+    return {
+      id: message.id._serialized,
+      from: message.from.replace('@c.us', ''),
+      senderName: message._data?.notifyName || null,
+      type: SUPPORTED_TYPES.includes(message.type) ? message.type : 'other',
+      body: message.body || '',
+      hasQuotedMsg: Boolean(message.hasQuotedMsg),
+      getQuotedMsg: async () => {
+        const quoted = await message.getQuotedMsg();
+        return quoted ? { id: quoted.id._serialized } : null;
+      },
+      downloadMedia: async () => {
+        const media = await message.downloadMedia();
+        return media ? { data: media.data, mimetype: media.mimetype, filename: media.filename } : null;
+      },
+      reply: async (text: string) => {
+        const sent = await message.reply(text);
+        return sent ? { id: sent.id._serialized } : undefined;
+      },
+    };
+  }
+}
+
+/**
+ * Delete the stored login of a session, so it can't reconnect without a new QR scan
+ */
+export const removeWhatsAppWebLogin = async (sessionId: string): Promise<void> => {
+  await fs.promises.rm(path.resolve(LOCAL_AUTH_DATA_PATH, `session-${sessionId}`), { recursive: true, force: true });
+};
@@ -4,22 +4,12 @@ import {
   integer,
   real,
   index,
+  uniqueIndex,
 } from "drizzle-orm/sqlite-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
-// Session storage table.
-export const sessions = sqliteTable(
-  "sessions",
-  {
-    sid: text("sid").primaryKey(),
-    sess: text("sess").notNull(), // JSON as text in SQLite
-    expire: integer("expire").notNull(), // Unix timestamp
-  },
-  (table) => [index("IDX_session_expire").on(table.expire)],
-);
-
 // User storage table.
 export const users = sqliteTable("users", {
   id: text("id").primaryKey().notNull(),
@@ -28,10 +18,82 @@ export const users = sqliteTable("users", {
   lastName: text("last_name"),
   profileImageUrl: text("profile_image_url"),
   password: text("password"), // For demo authentication
+  deletionScheduledAt: integer("deletion_scheduled_at"), // Unix timestamp the account is purged at, cancellable until then
+  createdAt: integer("created_at"), // Unix timestamp
+  updatedAt: integer("updated_at"), // Unix timestamp
+});
+
+// Signed-in devices: each login gets a session holding its current refresh token. Access tokens
+// name their session, so revoking it signs that device out.
+export const sessions = sqliteTable("sessions", {
+  id: text("id").primaryKey(), // Random id, carried in the access token
+  userId: text("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  refreshTokenHash: text("refresh_token_hash").notNull().unique(), // SHA-256 of the current refresh token
+  userAgent: text("user_agent"),
+  ipAddress: text("ip_address"), // Last seen
+  lastUsedAt: integer("last_used_at").notNull(), // Unix timestamp
+  expiresAt: integer("expires_at").notNull(), // Unix timestamp, pushed back on every refresh
+  revokedAt: integer("revoked_at"), // Unix timestamp, set on logout or revocation
+  createdAt: integer("created_at"), // Unix timestamp
+}, (table) => [
+  index("idx_sessions_user_id").on(table.userId),
+]);
+
+// Password reset secrets: a link token by email or a short code by WhatsApp. Only a SHA-256 is
+// stored, and each works once.
+export const passwordResetTokens = sqliteTable("password_reset_tokens", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  userId: text("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  channel: text("channel", { enum: ["email", "whatsapp"] }).notNull(),
+  attempts: integer("attempts").notNull().default(0), // Wrong codes entered against it
+  expiresAt: integer("expires_at").notNull(), // Unix timestamp
+  usedAt: integer("used_at"), // Unix timestamp, set once used or superseded
+  createdAt: integer("created_at"), // Unix timestamp
+}, (table) => [
+  index("idx_password_reset_tokens_user_id").on(table.userId),
+]);
+
+// Two-factor sign-in: the second factor a user has turned on, an authenticator app (TOTP) or a
+// code sent to their linked WhatsApp number. A row without a method is off, or mid-enrollment.
+export const twoFactorSettings = sqliteTable("two_factor_settings", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  userId: text("user_id").references(() => users.id, { onDelete: "cascade" }).notNull().unique(),
+  method: text("method", { enum: ["totp", "whatsapp"] }), // Null while two-factor is off
+  totpSecret: text("totp_secret"), // Base32 TOTP key; set at enrollment, before the method is
+  totpLastStep: integer("totp_last_step"), // Time step of the last accepted TOTP code, so each works once
+  enabledAt: integer("enabled_at"), // Unix timestamp
   createdAt: integer("created_at"), // Unix timestamp
   updatedAt: integer("updated_at"), // Unix timestamp
 });
 
+// One-time codes for signing in when the second factor is out of reach. Only a SHA-256 is stored.
+export const twoFactorRecoveryCodes = sqliteTable("two_factor_recovery_codes", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  userId: text("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  codeHash: text("code_hash").notNull(),
+  usedAt: integer("used_at"), // Unix timestamp
+  createdAt: integer("created_at"), // Unix timestamp
+}, (table) => [
+  index("idx_two_factor_recovery_codes_user_id").on(table.userId),
+]);
+
+// Pending second-factor checks: a login waiting for its code after the password, or a WhatsApp code
+// sent to confirm a sensitive change. Tokens and codes are stored as SHA-256.
+export const twoFactorChallenges = sqliteTable("two_factor_challenges", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  userId: text("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  purpose: text("purpose", { enum: ["login", "verify"] }).notNull(),
+  tokenHash: text("token_hash").unique(), // Login challenges: the token handed out after the password
+  codeHash: text("code_hash"), // The WhatsApp code sent, if any
+  attempts: integer("attempts").notNull().default(0), // Wrong codes entered against it
+  expiresAt: integer("expires_at").notNull(), // Unix timestamp
+  usedAt: integer("used_at"), // Unix timestamp, set once used or superseded
+  createdAt: integer("created_at"), // Unix timestamp
+}, (table) => [
+  index("idx_two_factor_challenges_user_id").on(table.userId),
+]);
+
 // User preferences table
 export const userPreferences = sqliteTable("user_preferences", {
   id: integer("id").primaryKey({ autoIncrement: true }),
@@ -62,21 +124,22 @@ export const notificationLogs = sqliteTable("notification_logs", {
   index("idx_notification_logs_sent_at").on(table.sentAt),
 ]);
 
-// WhatsApp integrations table
-export const whatsappIntegrations = sqliteTable("whatsapp_integrations", {
+// Chat accounts linked to a user, one row per WhatsApp number or Telegram chat
+export const messagingIntegrations = sqliteTable("messaging_integrations", {
   id: integer("id").primaryKey({ autoIncrement: true }),
   userId: text("user_id").references(() => users.id).notNull(),
-  whatsappNumber: text("whatsapp_number").notNull(),
+  channel: text("channel", { enum: ["whatsapp", "telegram"] }).notNull(),
+  externalId: text("external_id").notNull(), // WhatsApp number or Telegram chat id
   displayName: text("display_name"),
   activatedAt: integer("activated_at"), // Unix timestamp
   status: text("status", { enum: ["active", "inactive"] }).notNull().default("active"),
   createdAt: integer("created_at"), // Unix timestamp
 }, (table) => [
-  index("idx_whatsapp_integrations_user_id").on(table.userId),
-  index("idx_whatsapp_integrations_number").on(table.whatsappNumber),
+  index("idx_messaging_integrations_user_id").on(table.userId),
+  uniqueIndex("idx_messaging_integrations_channel_external_id").on(table.channel, table.externalId),
 ]);
 
-// WhatsApp activation codes table
+// Activation codes, redeemed from any chat channel to link it to the account
 export const whatsappActivationCodes = sqliteTable("whatsapp_activation_codes", {
   id: integer("id").primaryKey({ autoIncrement: true }),
   userId: text("user_id").references(() => users.id).notNull(),
@@ -102,21 +165,144 @@ export const categories = sqliteTable("categories", {
   createdAt: integer("created_at"), // Unix timestamp
 });
 
+// Accounts table - where money lives (cash, bank, e-wallet, credit card)
+export const accounts = sqliteTable("accounts", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  userId: text("user_id").references(() => users.id).notNull(),
+  name: text("name").notNull(),
+  type: text("type", { enum: ["cash", "bank", "ewallet", "credit_card"] }).notNull().default("cash"),
+  currency: text("currency").notNull().default("USD"),
+  openingBalance: real("opening_balance").notNull().default(0),
+  icon: text("icon"),
+  color: text("color"),
+  isDefault: integer("is_default", { mode: 'boolean' }).default(false),
+  isActive: integer("is_active", { mode: 'boolean' }).default(true),
+  createdAt: integer("created_at"), // Unix timestamp
+  updatedAt: integer("updated_at"), // Unix timestamp
+}, (table) => [
+  index("idx_accounts_user_id").on(table.userId),
+]);
+
 // Transactions table
 export const transactions = sqliteTable("transactions", {
   id: integer("id").primaryKey({ autoIncrement: true }),
   userId: text("user_id").references(() => users.id).notNull(),
   categoryId: integer("category_id").references(() => categories.id).notNull(),
+  accountId: integer("account_id").references(() => accounts.id), // Source account (falls back to the user's default account)
+  toAccountId: integer("to_account_id").references(() => accounts.id), // Destination account, only for transfers
   amount: real("amount").notNull(), // Use real for decimal numbers in SQLite
   currency: text("currency").notNull().default("USD"),
   description: text("description").notNull(),
-  type: text("type").notNull(), // 'income' or 'expense'
-  date: integer("date").notNull(), // Unix timestamp
+  type: text("type").notNull(), // 'income', 'expense' or 'transfer'
+  date: integer("date").notNull(), // Unix timestamp in seconds
   receiptUrl: text("receipt_url"),
   aiGenerated: integer("ai_generated", { mode: 'boolean' }).default(false),
+  recurringTransactionId: integer("recurring_transaction_id"), // Set when materialized from a recurring template
+  importBatchId: integer("import_batch_id"), // Set when created by a bank statement import
   createdAt: integer("created_at"), // Unix timestamp
   updatedAt: integer("updated_at"), // Unix timestamp
-});
+}, (table) => [
+  index("idx_transactions_user_date").on(table.userId, table.date),
+  index("idx_transactions_user_category_date").on(table.userId, table.categoryId, table.date),
+]);
+
+// Category-tagged parts of a single transaction (e.g. one supermarket receipt covering groceries and
+// household goods). The parent keeps the total amount; its parts add up to it and category analytics use them.
+export const transactionSplits = sqliteTable("transaction_splits", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  transactionId: integer("transaction_id").references(() => transactions.id, { onDelete: "cascade" }).notNull(),
+  categoryId: integer("category_id").references(() => categories.id).notNull(),
+  amount: real("amount").notNull(),
+  description: text("description"), // Optional note, e.g. the receipt line items
+  createdAt: integer("created_at"), // Unix timestamp
+}, (table) => [
+  index("idx_transaction_splits_transaction_id").on(table.transactionId),
+  index("idx_transaction_splits_category_id").on(table.categoryId),
+]);
+
+// Recurring transaction templates (subscriptions, rent, salary) materialized by the scheduler
+export const recurringTransactions = sqliteTable("recurring_transactions", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  userId: text("user_id").references(() => users.id).notNull(),
+  categoryId: integer("category_id").references(() => categories.id).notNull(),
+  accountId: integer("account_id").references(() => accounts.id),
+  amount: real("amount").notNull(),
+  currency: text("currency").notNull().default("USD"),
+  description: text("description").notNull(),
+  type: text("type").notNull(), // 'income' or 'expense'
+  frequency: text("frequency", { enum: ["daily", "weekly", "monthly", "yearly"] }).notNull(),
+  dayOfMonth: integer("day_of_month"), // 1-31, monthly/yearly only - clamped to the last day of short months
+  startDate: integer("start_date").notNull(), // Unix timestamp
+  endDate: integer("end_date"), // Unix timestamp, optional
+  maxOccurrences: integer("max_occurrences"), // Optional limit on generated transactions
+  occurrenceCount: integer("occurrence_count").notNull().default(0),
+  nextRunDate: integer("next_run_date").notNull(), // Unix timestamp
+  lastRunDate: integer("last_run_date"), // Unix timestamp
+  isActive: integer("is_active", { mode: 'boolean' }).default(true),
+  createdAt: integer("created_at"), // Unix timestamp
+  updatedAt: integer("updated_at"), // Unix timestamp
+}, (table) => [
+  index("idx_recurring_transactions_user_id").on(table.userId),
+  index("idx_recurring_transactions_next_run").on(table.nextRunDate),
+]);
+
+// Bank statement imports - every imported transaction points back to its batch so the import can be rolled back
+export const importBatches = sqliteTable("import_batches", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  userId: text("user_id").references(() => users.id).notNull(),
+  accountId: integer("account_id").references(() => accounts.id),
+  format: text("format", { enum: ["csv", "ofx", "mt940"] }).notNull(),
+  fileName: text("file_name"),
+  importedCount: integer("imported_count").notNull().default(0),
+  skippedCount: integer("skipped_count").notNull().default(0), // Rows left out in the preview (duplicates, unwanted rows)
+  status: text("status", { enum: ["completed", "rolled_back"] }).notNull().default("completed"),
+  rolledBackAt: integer("rolled_back_at"), // Unix timestamp
+  createdAt: integer("created_at"), // Unix timestamp
+  updatedAt: integer("updated_at"), // Unix timestamp
+}, (table) => [
+  index("idx_import_batches_user_id").on(table.userId),
+]);
+
+// Saved CSV column layouts, one per bank export format
+export const importMappings = sqliteTable("import_mappings", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  userId: text("user_id").references(() => users.id).notNull(),
+  name: text("name").notNull(), // Usually the bank name, e.g. "BCA", "Mandiri"
+  delimiter: text("delimiter").notNull().default(","),
+  hasHeader: integer("has_header", { mode: 'boolean' }).default(true),
+  dateColumn: integer("date_column").notNull(), // 0-based column indexes
+  descriptionColumn: integer("description_column").notNull(),
+  amountColumn: integer("amount_column"), // Single signed amount column...
+  debitColumn: integer("debit_column"), // ...or separate debit / credit columns
+  creditColumn: integer("credit_column"),
+  dateFormat: text("date_format", { enum: ["YYYY-MM-DD", "DD/MM/YYYY", "MM/DD/YYYY", "DD-MM-YYYY", "DD.MM.YYYY"] }).notNull().default("YYYY-MM-DD"),
+  decimalSeparator: text("decimal_separator", { enum: [".", ","] }).notNull().default("."),
+  createdAt: integer("created_at"), // Unix timestamp
+  updatedAt: integer("updated_at"), // Unix timestamp
+}, (table) => [
+  index("idx_import_mappings_user_id").on(table.userId),
+]);
+
+// Categorization rules - map a description pattern to a category before falling back to the AI
+export const categorizationRules = sqliteTable("categorization_rules", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  userId: text("user_id").references(() => users.id).notNull(),
+  categoryId: integer("category_id").references(() => categories.id).notNull(),
+  pattern: text("pattern").notNull(), // Normalized: lowercase, single spaces, no amounts
+  matchType: text("match_type", { enum: ["contains", "exact", "starts_with"] }).notNull().default("contains"),
+  transactionType: text("transaction_type", { enum: ["income", "expense"] }), // null = any type
+  minAmount: real("min_amount"), // Optional amount range, inclusive
+  maxAmount: real("max_amount"),
+  source: text("source", { enum: ["user", "learned"] }).notNull().default("user"), // 'learned' rules come from category corrections
+  priority: integer("priority").notNull().default(0), // Higher runs first
+  isActive: integer("is_active", { mode: 'boolean' }).default(true),
+  hitCount: integer("hit_count").notNull().default(0),
+  lastMatchedAt: integer("last_matched_at"), // Unix timestamp
+  createdAt: integer("created_at"), // Unix timestamp
+  updatedAt: integer("updated_at"), // Unix timestamp
+}, (table) => [
+  index("idx_categorization_rules_user_id").on(table.userId),
+]);
 
 // Budgets table
 export const budgets = sqliteTable("budgets", {
@@ -160,6 +346,38 @@ export const goalBoosts = sqliteTable("goal_boosts", {
   createdAt: integer("created_at"), // Unix timestamp
 });
 
+// Budget thresholds already announced - one row per threshold crossed in each period, so an alert
+// goes out once however many transactions follow
+export const budgetAlerts = sqliteTable("budget_alerts", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  userId: text("user_id").references(() => users.id).notNull(),
+  budgetId: integer("budget_id").references(() => budgets.id).notNull(),
+  limitPeriod: text("limit_period", { enum: ["budget", "daily", "weekly", "monthly"] }).notNull(), // 'budget' is the budget's own date range
+  periodStart: integer("period_start").notNull(), // Unix timestamp
+  threshold: integer("threshold").notNull(), // Percent of the limit, e.g. 80 or 100
+  createdAt: integer("created_at"), // Unix timestamp
+}, (table) => [
+  index("idx_budget_alerts_user_id").on(table.userId),
+  uniqueIndex("idx_budget_alerts_crossing").on(table.budgetId, table.limitPeriod, table.periodStart, table.threshold),
+]);
+
+// Expenses saved past a hard spending limit after the user explicitly chose to, for reporting
+export const spendingLimitBreaches = sqliteTable("spending_limit_breaches", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  userId: text("user_id").references(() => users.id).notNull(),
+  budgetId: integer("budget_id").references(() => budgets.id).notNull(),
+  transactionId: integer("transaction_id").references(() => transactions.id, { onDelete: "set null" }), // Kept when the transaction is deleted
+  limitPeriod: text("limit_period", { enum: ["daily", "weekly", "monthly"] }).notNull(),
+  limitAmount: real("limit_amount").notNull(),
+  spentBefore: real("spent_before").notNull(), // Spent in the period before this expense
+  amount: real("amount").notNull(),
+  source: text("source").notNull(), // 'web', 'chat' or 'messaging' (WhatsApp/Telegram)
+  createdAt: integer("created_at"), // Unix timestamp
+}, (table) => [
+  index("idx_spending_limit_breaches_user_id").on(table.userId),
+  index("idx_spending_limit_breaches_budget_id").on(table.budgetId),
+]);
+
 // Goal savings plans - automatic recurring contributions to goals
 export const goalSavingsPlans = sqliteTable("goal_savings_plans", {
   id: integer("id").primaryKey({ autoIncrement: true }),
@@ -169,17 +387,23 @@ export const goalSavingsPlans = sqliteTable("goal_savings_plans", {
   frequency: text("frequency").notNull(), // 'weekly', 'biweekly', 'monthly'
   isActive: integer("is_active", { mode: 'boolean' }).default(true),
   nextContributionDate: integer("next_contribution_date"), // Unix timestamp
+  lastRunDate: integer("last_run_date"), // Unix timestamp of the last scheduled execution
+  lastRunStatus: text("last_run_status", { enum: ["contributed", "skipped_insufficient_balance"] }),
   createdAt: integer("created_at"), // Unix timestamp
   updatedAt: integer("updated_at"), // Unix timestamp
 });
 
 // Relations
 export const usersRelations = relations(users, ({ many, one }) => ({
+  accounts: many(accounts),
   transactions: many(transactions),
   budgets: many(budgets),
   categories: many(categories),
   goals: many(goals),
   preferences: one(userPreferences),
+  sessions: many(sessions),
+  twoFactorSettings: one(twoFactorSettings),
+  twoFactorRecoveryCodes: many(twoFactorRecoveryCodes),
 }));
 
 export const userPreferencesRelations = relations(userPreferences, ({ one }) => ({
@@ -198,7 +422,16 @@ export const categoriesRelations = relations(categories, ({ one, many }) => ({
   budgets: many(budgets),
 }));
 
-export const transactionsRelations = relations(transactions, ({ one }) => ({
+export const accountsRelations = relations(accounts, ({ one, many }) => ({
+  user: one(users, {
+    fields: [accounts.userId],
+    references: [users.id],
+  }),
+  transactions: many(transactions, { relationName: "account" }),
+  incomingTransfers: many(transactions, { relationName: "toAccount" }),
+}));
+
+export const transactionsRelations = relations(transactions, ({ one, many }) => ({
   user: one(users, {
     fields: [transactions.userId],
     references: [users.id],
@@ -207,9 +440,75 @@ export const transactionsRelations = relations(transactions, ({ one }) => ({
     fields: [transactions.categoryId],
     references: [categories.id],
   }),
+  account: one(accounts, {
+    fields: [transactions.accountId],
+    references: [accounts.id],
+    relationName: "account",
+  }),
+  toAccount: one(accounts, {
+    fields: [transactions.toAccountId],
+    references: [accounts.id],
+    relationName: "toAccount",
+  }),
+  splits: many(transactionSplits),
+}));
+
+export const transactionSplitsRelations = relations(transactionSplits, ({ one }) => ({
+  transaction: one(transactions, {
+    fields: [transactionSplits.transactionId],
+    references: [transactions.id],
+  }),
+  category: one(categories, {
+    fields: [transactionSplits.categoryId],
+    references: [categories.id],
+  }),
+}));
+
+export const recurringTransactionsRelations = relations(recurringTransactions, ({ one }) => ({
+  user: one(users, {
+    fields: [recurringTransactions.userId],
+    references: [users.id],
+  }),
+  category: one(categories, {
+    fields: [recurringTransactions.categoryId],
+    references: [categories.id],
+  }),
+  account: one(accounts, {
+    fields: [recurringTransactions.accountId],
+    references: [accounts.id],
+  }),
+}));
+
+export const importBatchesRelations = relations(importBatches, ({ one }) => ({
+  user: one(users, {
+    fields: [importBatches.userId],
+    references: [users.id],
+  }),
+  account: one(accounts, {
+    fields: [importBatches.accountId],
+    references: [accounts.id],
+  }),
+}));
+
+export const importMappingsRelations = relations(importMappings, ({ one }) => ({
+  user: one(users, {
+    fields: [importMappings.userId],
+    references: [users.id],
+  }),
+}));
+
+export const categorizationRulesRelations = relations(categorizationRules, ({ one }) => ({
+  user: one(users, {
+    fields: [categorizationRules.userId],
+    references: [users.id],
+  }),
+  category: one(categories, {
+    fields: [categorizationRules.categoryId],
+    references: [categories.id],
+  }),
 }));
 
-export const budgetsRelations = relations(budgets, ({ one }) => ({
+export const budgetsRelations = relations(budgets, ({ one, many }) => ({
   user: one(users, {
     fields: [budgets.userId],
     references: [users.id],
@@ -218,6 +517,68 @@ export const budgetsRelations = relations(budgets, ({ one }) => ({
     fields: [budgets.categoryId],
     references: [categories.id],
   }),
+  alerts: many(budgetAlerts),
+}));
+
+export const sessionsRelations = relations(sessions, ({ one }) => ({
+  user: one(users, {
+    fields: [sessions.userId],
+    references: [users.id],
+  }),
+}));
+
+export const passwordResetTokensRelations = relations(passwordResetTokens, ({ one }) => ({
+  user: one(users, {
+    fields: [passwordResetTokens.userId],
+    references: [users.id],
+  }),
+}));
+
+export const twoFactorSettingsRelations = relations(twoFactorSettings, ({ one }) => ({
+  user: one(users, {
+    fields: [twoFactorSettings.userId],
+    references: [users.id],
+  }),
+}));
+
+export const twoFactorRecoveryCodesRelations = relations(twoFactorRecoveryCodes, ({ one }) => ({
+  user: one(users, {
+    fields: [twoFactorRecoveryCodes.userId],
+    references: [users.id],
+  }),
+}));
+
+export const twoFactorChallengesRelations = relations(twoFactorChallenges, ({ one }) => ({
+  user: one(users, {
+    fields: [twoFactorChallenges.userId],
+    references: [users.id],
+  }),
+}));
+
+export const spendingLimitBreachesRelations = relations(spendingLimitBreaches, ({ one }) => ({
+  budget: one(budgets, {
+    fields: [spendingLimitBreaches.budgetId],
+    references: [budgets.id],
+  }),
+  transaction: one(transactions, {
+    fields: [spendingLimitBreaches.transactionId],
+    references: [transactions.id],
+  }),
+  user: one(users, {
+    fields: [spendingLimitBreaches.userId],
+    references: [users.id],
+  }),
+}));
+
+export const budgetAlertsRelations = relations(budgetAlerts, ({ one }) => ({
+  budget: one(budgets, {
+    fields: [budgetAlerts.budgetId],
+    references: [budgets.id],
+  }),
+  user: one(users, {
+    fields: [budgetAlerts.userId],
+    references: [users.id],
+  }),
 }));
 
 export const goalsRelations = relations(goals, ({ one, many }) => ({
@@ -251,10 +612,10 @@ export const goalSavingsPlansRelations = relations(goalSavingsPlans, ({ one }) =
   }),
 }));
 
-// WhatsApp integrations relations
-export const whatsappIntegrationsRelations = relations(whatsappIntegrations, ({ one }) => ({
+// Messaging integrations relations
+export const messagingIntegrationsRelations = relations(messagingIntegrations, ({ one }) => ({
   user: one(users, {
-    fields: [whatsappIntegrations.userId],
+    fields: [messagingIntegrations.userId],
     references: [users.id],
   }),
 }));
@@ -281,18 +642,119 @@ export const insertCategorySchema = createInsertSchema(categories).omit({
   createdAt: true,
 });
 
+export const insertAccountSchema = createInsertSchema(accounts).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const insertTransactionSchema = createInsertSchema(transactions).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
+export const insertTransactionSplitSchema = createInsertSchema(transactionSplits, {
+  amount: (schema) => schema.positive(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertRecurringTransactionSchema = createInsertSchema(recurringTransactions, {
+  amount: (schema) => schema.positive(),
+  dayOfMonth: (schema) => schema.min(1).max(31),
+  maxOccurrences: (schema) => schema.positive(),
+}).omit({
+  id: true,
+  occurrenceCount: true,
+  nextRunDate: true,
+  lastRunDate: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertImportBatchSchema = createInsertSchema(importBatches).omit({
+  id: true,
+  status: true,
+  rolledBackAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertImportMappingSchema = createInsertSchema(importMappings, {
+  name: (schema) => schema.min(1),
+  delimiter: (schema) => schema.min(1).max(1),
+  dateColumn: (schema) => schema.min(0),
+  descriptionColumn: (schema) => schema.min(0),
+  amountColumn: (schema) => schema.min(0),
+  debitColumn: (schema) => schema.min(0),
+  creditColumn: (schema) => schema.min(0),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).refine(
+  (mapping) => mapping.amountColumn != null || (mapping.debitColumn != null && mapping.creditColumn != null),
+  { message: "Map either an amount column or both debit and credit columns", path: ["amountColumn"] }
+);
+
+export const insertCategorizationRuleSchema = createInsertSchema(categorizationRules, {
+  pattern: (schema) => schema.trim().min(2).max(200),
+}).omit({
+  id: true,
+  hitCount: true,
+  lastMatchedAt: true,
+  createdAt: true,
+  updatedAt: true,
+}).refine(
+  (rule) => (rule.minAmount == null || rule.minAmount >= 0) && (rule.maxAmount == null || rule.maxAmount >= 0),
+  { message: "Amounts must not be negative", path: ["minAmount"] }
+).refine(
+  (rule) => rule.minAmount == null || rule.maxAmount == null || rule.minAmount <= rule.maxAmount,
+  { message: "Minimum amount must not be greater than maximum amount", path: ["minAmount"] }
+);
+
 export const insertBudgetSchema = createInsertSchema(budgets).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
+export const insertBudgetAlertSchema = createInsertSchema(budgetAlerts).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertSessionSchema = createInsertSchema(sessions).omit({
+  createdAt: true,
+});
+
+export const insertPasswordResetTokenSchema = createInsertSchema(passwordResetTokens).omit({
+  id: true,
+  attempts: true,
+  usedAt: true,
+  createdAt: true,
+});
+
+export const insertTwoFactorSettingsSchema = createInsertSchema(twoFactorSettings).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertTwoFactorChallengeSchema = createInsertSchema(twoFactorChallenges).omit({
+  id: true,
+  attempts: true,
+  usedAt: true,
+  createdAt: true,
+});
+
+export const insertSpendingLimitBreachSchema = createInsertSchema(spendingLimitBreaches).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertGoalSchema = createInsertSchema(goals).omit({
   id: true,
   createdAt: true,
@@ -309,7 +771,7 @@ export const updateUserPreferencesSchema = insertUserPreferencesSchema.omit({
   userId: true,
 });
 
-export const insertWhatsappIntegrationSchema = createInsertSchema(whatsappIntegrations).omit({
+export const insertMessagingIntegrationSchema = createInsertSchema(messagingIntegrations).omit({
   id: true,
   createdAt: true,
 });
@@ -327,21 +789,95 @@ export const insertNotificationLogSchema = createInsertSchema(notificationLogs).
 // Types
 export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
+export type InsertSession = z.infer<typeof insertSessionSchema>;
+export type Session = typeof sessions.$inferSelect;
+export type InsertPasswordResetToken = z.infer<typeof insertPasswordResetTokenSchema>;
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+export type PasswordResetChannel = PasswordResetToken['channel'];
+export type InsertTwoFactorSettings = z.infer<typeof insertTwoFactorSettingsSchema>;
+export type TwoFactorSettings = typeof twoFactorSettings.$inferSelect;
+export type TwoFactorMethod = NonNullable<TwoFactorSettings['method']>;
+export type TwoFactorRecoveryCode = typeof twoFactorRecoveryCodes.$inferSelect;
+export type InsertTwoFactorChallenge = z.infer<typeof insertTwoFactorChallengeSchema>;
+export type TwoFactorChallenge = typeof twoFactorChallenges.$inferSelect;
 export type InsertCategory = z.infer<typeof insertCategorySchema>;
 export type Category = typeof categories.$inferSelect;
+export type InsertAccount = z.infer<typeof insertAccountSchema>;
+export type Account = typeof accounts.$inferSelect;
+export type AccountWithBalance = Account & { balance: number };
 export type InsertTransaction = z.infer<typeof insertTransactionSchema>;
 export type Transaction = typeof transactions.$inferSelect;
-export type TransactionWithCategory = Transaction & { category: Category | null };
+export type InsertTransactionSplit = z.infer<typeof insertTransactionSplitSchema>;
+export type TransactionSplit = typeof transactionSplits.$inferSelect;
+export type TransactionSplitWithCategory = TransactionSplit & { category: Category | null };
+export type TransactionWithCategory = Transaction & {
+  category: Category | null;
+  splits?: TransactionSplitWithCategory[]; // Present (non-empty) only when the transaction is split
+};
+export type TransactionSort = "date_desc" | "date_asc" | "amount_desc" | "amount_asc";
+export type TransactionFilters = {
+  startDate?: number; // Unix timestamp, inclusive
+  endDate?: number; // Unix timestamp, inclusive
+  categoryIds?: number[];
+  types?: string[];
+  accountId?: number;
+  minAmount?: number;
+  maxAmount?: number;
+  search?: string;
+  aiGenerated?: boolean;
+  sort?: TransactionSort;
+  cursor?: string;
+  limit?: number;
+};
+export type TransactionTotals = {
+  count: number;
+  income: number;
+  expense: number;
+  transfer: number;
+  net: number;
+};
+export type TransactionPage = {
+  items: TransactionWithCategory[];
+  nextCursor: string | null;
+  hasMore: boolean;
+  totals: TransactionTotals;
+};
+// A transaction, or one part of a split transaction, with the amount that went to its category
+export type TransactionAllocation = {
+  transactionId: number;
+  description: string;
+  date: number;
+  type: string;
+  amount: number;
+  categoryId: number | null;
+  categoryName: string | null;
+};
+export type InsertRecurringTransaction = z.infer<typeof insertRecurringTransactionSchema>;
+export type RecurringTransaction = typeof recurringTransactions.$inferSelect;
+export type RecurringTransactionWithCategory = RecurringTransaction & { category: Category | null };
+export type InsertImportBatch = z.infer<typeof insertImportBatchSchema>;
+export type ImportBatch = typeof importBatches.$inferSelect;
+export type InsertImportMapping = z.infer<typeof insertImportMappingSchema>;
+export type ImportMapping = typeof importMappings.$inferSelect;
+export type InsertCategorizationRule = z.infer<typeof insertCategorizationRuleSchema>;
+export type CategorizationRule = typeof categorizationRules.$inferSelect;
+export type CategorizationRuleWithCategory = CategorizationRule & { category: Category | null };
 export type InsertBudget = z.infer<typeof insertBudgetSchema>;
 export type Budget = typeof budgets.$inferSelect;
 export type BudgetWithCategory = Budget & { category: Category | null };
+export type InsertBudgetAlert = z.infer<typeof insertBudgetAlertSchema>;
+export type BudgetAlert = typeof budgetAlerts.$inferSelect;
+export type BudgetLimitPeriod = BudgetAlert['limitPeriod'];
+export type InsertSpendingLimitBreach = z.infer<typeof insertSpendingLimitBreachSchema>;
+export type SpendingLimitBreach = typeof spendingLimitBreaches.$inferSelect;
 export type InsertGoal = z.infer<typeof insertGoalSchema>;
 export type Goal = typeof goals.$inferSelect;
 export type InsertUserPreferences = z.infer<typeof insertUserPreferencesSchema>;
 export type UpdateUserPreferences = z.infer<typeof updateUserPreferencesSchema>;
 export type UserPreferences = typeof userPreferences.$inferSelect;
-export type WhatsappIntegration = typeof whatsappIntegrations.$inferSelect;
-export type InsertWhatsappIntegration = z.infer<typeof insertWhatsappIntegrationSchema>;
+export type MessagingIntegration = typeof messagingIntegrations.$inferSelect;
+export type InsertMessagingIntegration = z.infer<typeof insertMessagingIntegrationSchema>;
+export type MessagingChannel = MessagingIntegration['channel'];
 export type WhatsappActivationCode = typeof whatsappActivationCodes.$inferSelect;
 export type InsertWhatsappActivationCode = z.infer<typeof insertWhatsappActivationCodeSchema>;
 export type NotificationLog = typeof notificationLogs.$inferSelect;